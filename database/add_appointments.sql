@@ -0,0 +1,83 @@
+-- =============================================
+-- MEDITRACK APPOINTMENTS
+-- Migration adding follow-up appointments booked from a consultation:
+-- scheduled -> checked_in (starts a new consultation), or no_show / cancelled
+-- =============================================
+
+-- =============================================
+-- 1. APPOINTMENTS TABLE
+-- =============================================
+CREATE TABLE IF NOT EXISTS appointments (
+    id SERIAL PRIMARY KEY,
+    patient_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+
+    -- Consultation the follow-up was booked from
+    source_consultation_id INTEGER REFERENCES consultations(id) ON DELETE SET NULL,
+
+    -- Physician the patient is booked with, name copied when booked
+    physician_id INTEGER NOT NULL REFERENCES users(id),
+    physician_name VARCHAR(150) NOT NULL,
+
+    scheduled_date DATE NOT NULL,
+    scheduled_time TIME NOT NULL,
+    duration_minutes INTEGER NOT NULL DEFAULT 15 CHECK (duration_minutes > 0),
+    reason TEXT NOT NULL,
+    notes TEXT,
+
+    status VARCHAR(20) NOT NULL DEFAULT 'scheduled' CHECK (status IN (
+        'scheduled',
+        'checked_in',
+        'no_show',
+        'cancelled'
+    )),
+
+    -- Consultation started when the patient checked in
+    consultation_id INTEGER REFERENCES consultations(id) ON DELETE SET NULL,
+    checked_in_at TIMESTAMP,
+    checked_in_by INTEGER REFERENCES users(id),
+    no_show_at TIMESTAMP,
+    no_show_by INTEGER REFERENCES users(id),
+    cancelled_at TIMESTAMP,
+    cancelled_by INTEGER REFERENCES users(id),
+    cancellation_reason TEXT,
+
+    created_by INTEGER REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointments_date ON appointments(scheduled_date);
+CREATE INDEX IF NOT EXISTS idx_appointments_physician_date ON appointments(physician_id, scheduled_date);
+CREATE INDEX IF NOT EXISTS idx_appointments_patient ON appointments(patient_id);
+CREATE INDEX IF NOT EXISTS idx_appointments_source_consultation ON appointments(source_consultation_id);
+
+-- A physician cannot have two live bookings whose times overlap; back-to-back bookings
+-- are allowed since the ranges exclude their end
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+DROP INDEX IF EXISTS idx_appointments_one_per_slot;
+ALTER TABLE appointments DROP CONSTRAINT IF EXISTS appointments_no_overlap;
+ALTER TABLE appointments ADD CONSTRAINT appointments_no_overlap EXCLUDE USING gist (
+    physician_id WITH =,
+    tsrange(
+        scheduled_date + scheduled_time,
+        scheduled_date + scheduled_time + duration_minutes * INTERVAL '1 minute'
+    ) WITH &&
+) WHERE (status IN ('scheduled', 'checked_in'));
+
+COMMENT ON TABLE appointments IS 'Follow-up visits booked per physician, checked in to start a new consultation';
+
+DROP TRIGGER IF EXISTS update_appointments_updated_at ON appointments;
+CREATE TRIGGER update_appointments_updated_at
+    BEFORE UPDATE ON appointments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- NOTES
+-- =============================================
+-- Physicians are users with a license number (the same rule used for signing clinical
+-- documents). Checking a patient in starts a consultation through the usual Start
+-- Consultation form and links it here; the source consultation's date and diagnosis are
+-- carried over as previous_consultation_date / previous_diagnosis.
+-- Bookings, check-ins, no-shows and cancellations are also written to
+-- patient_monitoring_logs against the related consultation.
@@ -0,0 +1,116 @@
+-- =============================================
+-- MEDITRACK CODED DIAGNOSES
+-- Migration adding ICD-10 coded diagnoses to consultations: one primary and any
+-- number of secondary diagnoses per consultation, each with free-text remarks
+-- =============================================
+
+-- =============================================
+-- 1. CONSULTATION DIAGNOSES TABLE
+-- =============================================
+CREATE TABLE IF NOT EXISTS consultation_diagnoses (
+    id SERIAL PRIMARY KEY,
+    consultation_id INTEGER NOT NULL REFERENCES consultations(id) ON DELETE CASCADE,
+    icd10_code VARCHAR(10) NOT NULL,
+    icd10_description VARCHAR(255) NOT NULL,
+    diagnosis_type VARCHAR(20) NOT NULL DEFAULT 'secondary' CHECK (diagnosis_type IN (
+        'primary',
+        'secondary'
+    )),
+    remarks TEXT,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    created_by INTEGER REFERENCES users(id),
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE (consultation_id, icd10_code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_consultation_diagnoses_consultation ON consultation_diagnoses(consultation_id);
+CREATE INDEX IF NOT EXISTS idx_consultation_diagnoses_code ON consultation_diagnoses(icd10_code);
+
+-- A consultation has at most one primary diagnosis
+CREATE UNIQUE INDEX IF NOT EXISTS idx_consultation_diagnoses_one_primary
+    ON consultation_diagnoses(consultation_id)
+    WHERE diagnosis_type = 'primary';
+
+COMMENT ON TABLE consultation_diagnoses IS 'ICD-10 coded diagnoses recorded during a consultation';
+COMMENT ON COLUMN consultation_diagnoses.icd10_description IS 'Description copied from the bundled code list at the time of coding, or entered with a code outside it';
+
+DROP TRIGGER IF EXISTS update_consultation_diagnoses_updated_at ON consultation_diagnoses;
+CREATE TRIGGER update_consultation_diagnoses_updated_at
+    BEFORE UPDATE ON consultation_diagnoses
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- 2. SET THE PRIMARY DIAGNOSIS (called via supabase.rpc)
+-- =============================================
+-- Demotes the current primary diagnosis and promotes the given one in a single
+-- transaction so the one-primary index is never violated.
+CREATE OR REPLACE FUNCTION set_primary_diagnosis(p_diagnosis_id INTEGER)
+RETURNS consultation_diagnoses AS $$
+DECLARE
+    v_diagnosis consultation_diagnoses;
+BEGIN
+    SELECT * INTO v_diagnosis FROM consultation_diagnoses WHERE id = p_diagnosis_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Diagnosis % not found', p_diagnosis_id;
+    END IF;
+
+    UPDATE consultation_diagnoses
+    SET diagnosis_type = 'secondary'
+    WHERE consultation_id = v_diagnosis.consultation_id
+      AND diagnosis_type = 'primary'
+      AND id <> p_diagnosis_id;
+
+    UPDATE consultation_diagnoses
+    SET diagnosis_type = 'primary'
+    WHERE id = p_diagnosis_id
+    RETURNING * INTO v_diagnosis;
+
+    RETURN v_diagnosis;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 3. REMOVE A DIAGNOSIS (called via supabase.rpc)
+-- =============================================
+-- Removing the primary diagnosis promotes the earliest remaining secondary one in the
+-- same transaction, so a consultation with diagnoses always has a primary.
+-- Returns the promoted diagnosis, or NULL when none was promoted.
+CREATE OR REPLACE FUNCTION remove_diagnosis(p_diagnosis_id INTEGER)
+RETURNS consultation_diagnoses AS $$
+DECLARE
+    v_diagnosis consultation_diagnoses;
+    v_promoted consultation_diagnoses;
+BEGIN
+    DELETE FROM consultation_diagnoses WHERE id = p_diagnosis_id RETURNING * INTO v_diagnosis;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Diagnosis % not found', p_diagnosis_id;
+    END IF;
+
+    IF v_diagnosis.diagnosis_type = 'primary' THEN
+        UPDATE consultation_diagnoses
+        SET diagnosis_type = 'primary'
+        WHERE id = (
+            SELECT id FROM consultation_diagnoses
+            WHERE consultation_id = v_diagnosis.consultation_id
+            ORDER BY created_at, id
+            LIMIT 1
+        )
+        RETURNING * INTO v_promoted;
+    END IF;
+
+    RETURN v_promoted;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- NOTES
+-- =============================================
+-- Codes are normally picked from the list bundled with the application
+-- (src/constants/icd10Codes.ts), so lookup works offline. Codes outside that list can be
+-- entered with their own description once they pass the ICD-10 format check; the table
+-- stores the code and its description either way.
+-- consultations.diagnosis remains as free-text diagnosis notes.
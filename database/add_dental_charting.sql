@@ -0,0 +1,66 @@
+-- =============================================
+-- MEDITRACK DENTAL CHARTING
+-- Migration adding dental visits and a per-tooth odontogram: each dental consultation
+-- records conditions found and procedures performed per tooth (FDI numbering) and surface
+-- =============================================
+
+-- =============================================
+-- 1. CONSULTATION DEPARTMENT
+-- =============================================
+-- Existing consultations are medical; dental visits are consultations in the dental department
+ALTER TABLE consultations ADD COLUMN IF NOT EXISTS department VARCHAR(20) NOT NULL DEFAULT 'medical'
+    CHECK (department IN ('medical', 'dental'));
+
+CREATE INDEX IF NOT EXISTS idx_consultations_department ON consultations(department);
+
+-- =============================================
+-- 2. DENTAL CHART ENTRIES TABLE
+-- =============================================
+CREATE TABLE IF NOT EXISTS dental_chart_entries (
+    id SERIAL PRIMARY KEY,
+    patient_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    consultation_id INTEGER NOT NULL REFERENCES consultations(id) ON DELETE CASCADE,
+
+    -- FDI: quadrants 1-4 hold teeth 1-8 (permanent), quadrants 5-8 hold teeth 1-5 (primary)
+    tooth_number SMALLINT NOT NULL CHECK (
+        (tooth_number / 10 BETWEEN 1 AND 4 AND tooth_number % 10 BETWEEN 1 AND 8) OR
+        (tooth_number / 10 BETWEEN 5 AND 8 AND tooth_number % 10 BETWEEN 1 AND 5)
+    ),
+    -- Mesial, Occlusal/incisal, Distal, Buccal/labial, Lingual/palatal; empty for whole-tooth conditions
+    surfaces TEXT[] NOT NULL DEFAULT '{}' CHECK (surfaces <@ ARRAY['M', 'O', 'D', 'B', 'L']),
+    condition VARCHAR(30) NOT NULL CHECK (condition IN (
+        'sound',
+        'caries',
+        'filled',
+        'sealant',
+        'fractured',
+        'root_canal',
+        'crown',
+        'bridge',
+        'implant',
+        'denture',
+        'impacted',
+        'extraction_indicated',
+        'missing'
+    )),
+    -- Procedure performed this visit, if any; see DENTAL_PROCEDURES in src/constants/dentalChart.ts
+    procedure VARCHAR(100),
+    notes TEXT,
+
+    recorded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    recorded_by INTEGER REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dental_chart_entries_patient ON dental_chart_entries(patient_id, recorded_at);
+CREATE INDEX IF NOT EXISTS idx_dental_chart_entries_consultation ON dental_chart_entries(consultation_id);
+
+COMMENT ON TABLE dental_chart_entries IS 'Odontogram history: findings and procedures per tooth and surface, per dental visit';
+COMMENT ON COLUMN dental_chart_entries.condition IS 'State of the tooth or surfaces after this visit';
+
+-- =============================================
+-- NOTES
+-- =============================================
+-- Entries are never updated. The chart at any visit is rebuilt in the app (see
+-- buildDentalChart in dentalChartService) by applying every entry up to that visit in
+-- order, so later entries replace earlier ones for the same tooth or surface.
+-- Entries can only be removed while their consultation is still active.
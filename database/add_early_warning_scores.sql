@@ -0,0 +1,32 @@
+-- =============================================
+-- MEDITRACK EARLY WARNING SCORES
+-- Migration storing a NEWS2-style early warning score with each vital signs record.
+-- The score is calculated in the application from the vital signs and the
+-- consultation's latest Glasgow Coma Scale assessment (consciousness).
+-- =============================================
+
+-- =============================================
+-- 1. VITAL SIGNS SCORE COLUMNS
+-- =============================================
+ALTER TABLE vital_signs ADD COLUMN IF NOT EXISTS news2_score INTEGER CHECK (news2_score >= 0);
+ALTER TABLE vital_signs ADD COLUMN IF NOT EXISTS news2_risk VARCHAR(20) CHECK (news2_risk IN (
+    'low',
+    'low_medium',
+    'medium',
+    'high'
+));
+ALTER TABLE vital_signs ADD COLUMN IF NOT EXISTS news2_components JSONB;
+ALTER TABLE vital_signs ADD COLUMN IF NOT EXISTS news2_scored_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_vital_signs_news2_risk ON vital_signs(news2_risk);
+
+COMMENT ON COLUMN vital_signs.news2_score IS 'Aggregate NEWS2 score (0-20)';
+COMMENT ON COLUMN vital_signs.news2_risk IS 'low (0-4), low_medium (a single parameter scoring 3), medium (5-6), high (7+)';
+COMMENT ON COLUMN vital_signs.news2_components IS 'Points per parameter, e.g. {"respiratory_rate": 2, "consciousness": 0}';
+
+-- =============================================
+-- NOTES
+-- =============================================
+-- Supplemental oxygen is not recorded, so every reading is scored as on room air
+-- (SpO2 scale 1). Consciousness scores 3 when the latest GCS total is below 15.
+-- Scores of low_medium and above write a 'news2_escalation' patient_monitoring_logs entry.
@@ -0,0 +1,134 @@
+-- =============================================
+-- MEDITRACK EQUIPMENT MAINTENANCE
+-- Migration adding preventive maintenance schedules and
+-- service/calibration history for Equipment items
+-- Requires: add_notifications.sql (inventory_items.status_changed_at)
+-- =============================================
+
+-- =============================================
+-- 1. MAINTENANCE SCHEDULES TABLE
+-- =============================================
+CREATE TABLE IF NOT EXISTS equipment_maintenance_schedules (
+    id SERIAL PRIMARY KEY,
+    inventory_item_id INTEGER NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+    maintenance_type VARCHAR(30) NOT NULL CHECK (maintenance_type IN ('preventive', 'calibration', 'inspection')),
+    interval_months INTEGER NOT NULL CHECK (interval_months > 0),
+    last_performed_date DATE,
+    next_due_date DATE NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    notes TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    created_by INTEGER REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_maintenance_schedules_item ON equipment_maintenance_schedules(inventory_item_id);
+CREATE INDEX IF NOT EXISTS idx_maintenance_schedules_next_due ON equipment_maintenance_schedules(next_due_date) WHERE is_active;
+
+DROP TRIGGER IF EXISTS update_maintenance_schedules_updated_at ON equipment_maintenance_schedules;
+CREATE TRIGGER update_maintenance_schedules_updated_at
+    BEFORE UPDATE ON equipment_maintenance_schedules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE equipment_maintenance_schedules IS 'Recurring maintenance for equipment, due every interval_months';
+
+-- =============================================
+-- 2. SERVICE LOGS TABLE
+-- =============================================
+CREATE TABLE IF NOT EXISTS equipment_service_logs (
+    id SERIAL PRIMARY KEY,
+    inventory_item_id INTEGER NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+    schedule_id INTEGER REFERENCES equipment_maintenance_schedules(id) ON DELETE SET NULL,
+    service_type VARCHAR(30) NOT NULL CHECK (service_type IN ('preventive', 'calibration', 'inspection', 'repair')),
+    service_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    technician VARCHAR(255) NOT NULL,
+    cost NUMERIC(10, 2) CHECK (cost IS NULL OR cost >= 0),
+    findings TEXT,
+    actions_taken TEXT,
+    status_after VARCHAR(20) CHECK (status_after IN ('active', 'maintenance')),
+    next_due_date DATE, -- schedule's next due date after this service, when one was advanced
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    created_by INTEGER REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_service_logs_item ON equipment_service_logs(inventory_item_id);
+CREATE INDEX IF NOT EXISTS idx_service_logs_date ON equipment_service_logs(service_date);
+
+COMMENT ON TABLE equipment_service_logs IS 'Service, calibration and repair history of equipment items';
+
+-- =============================================
+-- 3. RECORD A SERVICE (called via supabase.rpc)
+-- =============================================
+-- Writes the service log, advances the matching schedule to service_date + interval_months,
+-- and sets the equipment status in one transaction.
+CREATE OR REPLACE FUNCTION record_equipment_service(
+    p_inventory_item_id INTEGER,
+    p_schedule_id INTEGER,
+    p_service_type VARCHAR,
+    p_service_date DATE,
+    p_technician VARCHAR,
+    p_cost NUMERIC,
+    p_findings TEXT,
+    p_actions_taken TEXT,
+    p_status_after VARCHAR,
+    p_performed_by INTEGER
+)
+RETURNS equipment_service_logs AS $$
+DECLARE
+    v_schedule equipment_maintenance_schedules%ROWTYPE;
+    v_next_due DATE;
+    v_log equipment_service_logs%ROWTYPE;
+BEGIN
+    IF p_technician IS NULL OR LENGTH(TRIM(p_technician)) = 0 THEN
+        RAISE EXCEPTION 'Technician is required';
+    END IF;
+
+    IF p_schedule_id IS NOT NULL THEN
+        SELECT * INTO v_schedule FROM equipment_maintenance_schedules
+        WHERE id = p_schedule_id AND inventory_item_id = p_inventory_item_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Schedule % does not belong to this equipment', p_schedule_id;
+        END IF;
+
+        v_next_due := (COALESCE(p_service_date, CURRENT_DATE) + make_interval(months => v_schedule.interval_months))::DATE;
+
+        -- A late entry for an older service must not move the due date backwards
+        IF v_schedule.last_performed_date IS NULL OR COALESCE(p_service_date, CURRENT_DATE) >= v_schedule.last_performed_date THEN
+            UPDATE equipment_maintenance_schedules
+            SET last_performed_date = COALESCE(p_service_date, CURRENT_DATE),
+                next_due_date = v_next_due
+            WHERE id = p_schedule_id;
+        ELSE
+            v_next_due := v_schedule.next_due_date;
+        END IF;
+    END IF;
+
+    INSERT INTO equipment_service_logs (
+        inventory_item_id, schedule_id, service_type, service_date, technician, cost,
+        findings, actions_taken, status_after, next_due_date, created_by
+    )
+    VALUES (
+        p_inventory_item_id, p_schedule_id, p_service_type, COALESCE(p_service_date, CURRENT_DATE), TRIM(p_technician), p_cost,
+        NULLIF(TRIM(p_findings), ''), NULLIF(TRIM(p_actions_taken), ''), p_status_after, v_next_due, p_performed_by
+    )
+    RETURNING * INTO v_log;
+
+    IF p_status_after IS NOT NULL THEN
+        UPDATE inventory_items
+        SET status = p_status_after,
+            updated_at = CURRENT_TIMESTAMP,
+            updated_by = COALESCE(p_performed_by, updated_by)
+        WHERE id = p_inventory_item_id AND status <> 'archived';
+    END IF;
+
+    RETURN v_log;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- NOTES
+-- =============================================
+-- Equipment is overdue when an active schedule's next_due_date is before today.
+-- Archived equipment keeps its schedules and history but is excluded from due lists.
@@ -0,0 +1,114 @@
+-- =============================================
+-- MEDITRACK IMMUNIZATIONS
+-- Migration adding per-patient vaccination records (hepatitis B series, flu shots,
+-- tetanus boosters, ...), optionally drawn from a lot in inventory
+-- =============================================
+
+-- =============================================
+-- 1. IMMUNIZATIONS TABLE
+-- =============================================
+CREATE TABLE IF NOT EXISTS immunizations (
+    id SERIAL PRIMARY KEY,
+    patient_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    -- Vaccine name as listed in src/constants/vaccines.ts, or free text for anything else
+    vaccine VARCHAR(100) NOT NULL,
+    dose_number INTEGER NOT NULL CHECK (dose_number > 0),
+    administered_on DATE NOT NULL,
+    lot_number VARCHAR(100),
+
+    -- Set when the dose was taken from clinic stock; doses given elsewhere only have a lot number
+    inventory_item_id INTEGER REFERENCES inventory_items(id) ON DELETE SET NULL,
+    batch_id INTEGER REFERENCES inventory_batches(id) ON DELETE SET NULL,
+
+    -- Clinic staff who gave the dose, or just a name for outside providers
+    administered_by INTEGER REFERENCES users(id),
+    administered_by_name VARCHAR(150) NOT NULL,
+    next_due_on DATE,
+    notes TEXT,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    created_by INTEGER REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_immunizations_patient ON immunizations(patient_id, administered_on DESC);
+CREATE INDEX IF NOT EXISTS idx_immunizations_next_due ON immunizations(next_due_on) WHERE next_due_on IS NOT NULL;
+
+-- Each dose of a series is recorded once; boosters continue the numbering
+CREATE UNIQUE INDEX IF NOT EXISTS idx_immunizations_one_per_dose
+    ON immunizations(patient_id, LOWER(vaccine), dose_number);
+
+COMMENT ON TABLE immunizations IS 'Vaccination history per patient';
+COMMENT ON COLUMN immunizations.dose_number IS 'Position in the series, e.g. 3 for the third hepatitis B dose; boosters continue the count';
+
+DROP TRIGGER IF EXISTS update_immunizations_updated_at ON immunizations;
+CREATE TRIGGER update_immunizations_updated_at
+    BEFORE UPDATE ON immunizations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- 2. RECORD AN IMMUNIZATION (called via supabase.rpc)
+-- =============================================
+-- When a lot from inventory is given, one unit is taken from that lot and the ledger
+-- row is linked to the immunization, all in one transaction
+CREATE OR REPLACE FUNCTION record_immunization(
+    p_patient_id INTEGER,
+    p_vaccine VARCHAR,
+    p_dose_number INTEGER,
+    p_administered_on DATE,
+    p_lot_number VARCHAR,
+    p_batch_id INTEGER,
+    p_administered_by INTEGER,
+    p_administered_by_name VARCHAR,
+    p_next_due_on DATE,
+    p_notes TEXT,
+    p_created_by INTEGER
+)
+RETURNS immunizations AS $$
+DECLARE
+    v_batch inventory_batches%ROWTYPE;
+    v_immunization immunizations%ROWTYPE;
+BEGIN
+    IF p_batch_id IS NOT NULL THEN
+        SELECT * INTO v_batch FROM inventory_batches WHERE id = p_batch_id;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Lot % not found', p_batch_id;
+        END IF;
+
+        IF v_batch.expiration_date IS NOT NULL AND v_batch.expiration_date < p_administered_on THEN
+            RAISE EXCEPTION 'Lot % expired on %', v_batch.lot_number, v_batch.expiration_date;
+        END IF;
+    END IF;
+
+    INSERT INTO immunizations (
+        patient_id, vaccine, dose_number, administered_on, lot_number,
+        inventory_item_id, batch_id, administered_by, administered_by_name,
+        next_due_on, notes, created_by
+    )
+    VALUES (
+        p_patient_id, p_vaccine, p_dose_number, p_administered_on,
+        COALESCE(v_batch.lot_number, NULLIF(TRIM(p_lot_number), '')),
+        v_batch.inventory_item_id, v_batch.id, p_administered_by, p_administered_by_name,
+        p_next_due_on, NULLIF(TRIM(p_notes), ''), p_created_by
+    )
+    RETURNING * INTO v_immunization;
+
+    IF v_batch.id IS NOT NULL THEN
+        PERFORM record_stock_movement(
+            v_batch.inventory_item_id, 'dispense', -1,
+            p_vaccine || ' dose ' || p_dose_number, v_batch.id, p_created_by,
+            'immunization', v_immunization.id, NULL
+        );
+    END IF;
+
+    RETURN v_immunization;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- NOTES
+-- =============================================
+-- Requires add_inventory_batches.sql and add_stock_movements.sql.
+-- Which vaccines each course requires, and the intervals used to suggest the next due
+-- date, live in src/constants/vaccines.ts so the clinic can change them without a migration.
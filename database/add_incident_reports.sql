@@ -0,0 +1,103 @@
+-- =============================================
+-- MEDITRACK INCIDENT REPORTS
+-- Migration adding injury / incident reports filed from a consultation: where and when it
+-- happened (POI, DOI, TOI), how (mechanism), the injuries (NOI), witnesses, first aid and
+-- disposition, for the incident register and the campus injury hotspot report
+-- =============================================
+
+-- =============================================
+-- 1. INCIDENT REPORTS TABLE
+-- =============================================
+CREATE TABLE IF NOT EXISTS incident_reports (
+    id SERIAL PRIMARY KEY,
+    incident_number VARCHAR(30) UNIQUE,
+    consultation_id INTEGER NOT NULL REFERENCES consultations(id) ON DELETE CASCADE,
+    patient_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+
+    -- Place of injury: one of CAMPUS_LOCATIONS in src/constants/incidents.ts, plus the exact spot
+    poi VARCHAR(100) NOT NULL,
+    poi_details VARCHAR(255),
+    doi DATE NOT NULL, -- Date of Injury
+    toi TIME, -- Time of Injury
+
+    mechanism VARCHAR(30) NOT NULL CHECK (mechanism IN (
+        'fall',
+        'sports',
+        'collision',
+        'sharp_object',
+        'burn',
+        'chemical_exposure',
+        'animal_bite',
+        'vehicular',
+        'assault',
+        'overexertion',
+        'other'
+    )),
+    -- What happened, in the patient's or witnesses' words
+    mechanism_details TEXT NOT NULL,
+
+    -- Nature of injury, same checkboxes as vital_signs
+    noi TEXT NOT NULL,
+    injury_abrasion BOOLEAN DEFAULT false,
+    injury_contusion BOOLEAN DEFAULT false,
+    injury_fracture BOOLEAN DEFAULT false,
+    injury_laceration BOOLEAN DEFAULT false,
+    injury_puncture BOOLEAN DEFAULT false,
+    injury_sprain BOOLEAN DEFAULT false,
+    injury_other TEXT,
+    body_parts VARCHAR(255),
+
+    -- [{ "name": "...", "contact": "..." }]
+    witnesses JSONB NOT NULL DEFAULT '[]',
+    first_aid_given TEXT,
+
+    disposition VARCHAR(30) NOT NULL CHECK (disposition IN (
+        'returned_to_class',
+        'returned_to_work',
+        'sent_home',
+        'referred',
+        'hospitalized'
+    )),
+    disposition_notes TEXT,
+
+    reported_by INTEGER REFERENCES users(id),
+    reporter_name VARCHAR(150) NOT NULL,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_incident_reports_consultation ON incident_reports(consultation_id);
+CREATE INDEX IF NOT EXISTS idx_incident_reports_patient ON incident_reports(patient_id);
+CREATE INDEX IF NOT EXISTS idx_incident_reports_doi ON incident_reports(doi DESC);
+CREATE INDEX IF NOT EXISTS idx_incident_reports_poi ON incident_reports(poi, doi);
+
+COMMENT ON TABLE incident_reports IS 'Injury and incident reports linked to the consultation where the patient was seen';
+COMMENT ON COLUMN incident_reports.poi IS 'Campus location used to group the injury hotspot report';
+
+-- IR-<year>-<id>, assigned on insert
+CREATE OR REPLACE FUNCTION set_incident_number()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.incident_number IS NULL THEN
+        NEW.incident_number := 'IR-' || TO_CHAR(CURRENT_DATE, 'YYYY') || '-' || LPAD(NEW.id::TEXT, 5, '0');
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_incident_number ON incident_reports;
+CREATE TRIGGER set_incident_number
+    BEFORE INSERT ON incident_reports
+    FOR EACH ROW EXECUTE FUNCTION set_incident_number();
+
+DROP TRIGGER IF EXISTS update_incident_reports_updated_at ON incident_reports;
+CREATE TRIGGER update_incident_reports_updated_at
+    BEFORE UPDATE ON incident_reports
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- NOTES
+-- =============================================
+-- The incident form is pre-filled from the NOI / POI / DOI / TOI and injury checkboxes of
+-- the consultation's latest vital signs, which stay as recorded.
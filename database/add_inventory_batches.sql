@@ -0,0 +1,271 @@
+-- =============================================
+-- MEDITRACK INVENTORY BATCHES (LOT TRACKING)
+-- Migration to track stock per lot/batch under each inventory item and
+-- consume stock first-expiry-first-out (FEFO)
+-- Requires: add_medication_dispensing.sql
+-- =============================================
+
+-- =============================================
+-- 1. INVENTORY BATCHES TABLE
+-- =============================================
+CREATE TABLE IF NOT EXISTS inventory_batches (
+    id SERIAL PRIMARY KEY,
+    inventory_item_id INTEGER NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+
+    lot_number VARCHAR(100) NOT NULL,
+    received_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    expiration_date DATE,
+    supplier VARCHAR(255),
+
+    quantity INTEGER NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+    received_quantity INTEGER NOT NULL DEFAULT 0 CHECK (received_quantity >= 0),
+    notes TEXT,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    created_by INTEGER REFERENCES users(id),
+
+    CONSTRAINT inventory_batches_item_lot_key UNIQUE (inventory_item_id, lot_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_batches_item_id ON inventory_batches(inventory_item_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_batches_expiration ON inventory_batches(expiration_date);
+
+COMMENT ON TABLE inventory_batches IS 'Lots received for a medicine or supply; the item stock is the sum of its batches';
+COMMENT ON COLUMN inventory_batches.quantity IS 'Quantity currently on hand for this lot';
+COMMENT ON COLUMN inventory_batches.received_quantity IS 'Quantity originally received for this lot';
+
+DROP TRIGGER IF EXISTS update_inventory_batches_updated_at ON inventory_batches;
+CREATE TRIGGER update_inventory_batches_updated_at
+    BEFORE UPDATE ON inventory_batches
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- 2. KEEP ITEM TOTALS IN SYNC WITH BATCHES
+-- =============================================
+-- stock_quantity      = sum of all lots on hand
+-- expiration_date     = earliest expiry among non-empty lots that have not expired yet,
+--                       or the latest expiry when every remaining lot has expired
+-- The application derives low_stock / out_of_stock / expired status from these two columns.
+CREATE OR REPLACE FUNCTION sync_inventory_item_from_batches(p_inventory_item_id INTEGER)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM inventory_batches WHERE inventory_item_id = p_inventory_item_id) THEN
+        RETURN;
+    END IF;
+
+    UPDATE inventory_items
+    SET stock_quantity = (
+            SELECT COALESCE(SUM(quantity), 0)
+            FROM inventory_batches
+            WHERE inventory_item_id = p_inventory_item_id
+        ),
+        expiration_date = COALESCE(
+            (SELECT MIN(expiration_date)
+             FROM inventory_batches
+             WHERE inventory_item_id = p_inventory_item_id
+               AND quantity > 0
+               AND expiration_date >= CURRENT_DATE),
+            (SELECT MAX(expiration_date)
+             FROM inventory_batches
+             WHERE inventory_item_id = p_inventory_item_id
+               AND quantity > 0)
+        ),
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = p_inventory_item_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION trigger_sync_inventory_item_from_batches()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        PERFORM sync_inventory_item_from_batches(OLD.inventory_item_id);
+        RETURN OLD;
+    END IF;
+
+    PERFORM sync_inventory_item_from_batches(NEW.inventory_item_id);
+
+    IF TG_OP = 'UPDATE' AND OLD.inventory_item_id <> NEW.inventory_item_id THEN
+        PERFORM sync_inventory_item_from_batches(OLD.inventory_item_id);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_inventory_item_from_batches ON inventory_batches;
+CREATE TRIGGER sync_inventory_item_from_batches
+    AFTER INSERT OR UPDATE OR DELETE ON inventory_batches
+    FOR EACH ROW EXECUTE FUNCTION trigger_sync_inventory_item_from_batches();
+
+-- =============================================
+-- 3. FEFO CONSUMPTION FUNCTION (called via supabase.rpc)
+-- =============================================
+-- Takes p_quantity from the unexpired lots that expire first. Lots without an
+-- expiry are used last. Rows are locked so concurrent consumers cannot overdraw
+-- a lot. Returns the allocation as [{batch_id, lot_number, expiration_date, quantity}].
+-- p_include_expired lets adjustments and waste take expired lots too, oldest expiry
+-- first; dispensing never does.
+DROP FUNCTION IF EXISTS consume_inventory_batches_fefo(INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION consume_inventory_batches_fefo(
+    p_inventory_item_id INTEGER,
+    p_quantity INTEGER,
+    p_include_expired BOOLEAN DEFAULT FALSE
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_batch RECORD;
+    v_remaining INTEGER := p_quantity;
+    v_take INTEGER;
+    v_available INTEGER;
+    v_allocations JSONB := '[]'::JSONB;
+BEGIN
+    IF p_quantity IS NULL OR p_quantity <= 0 THEN
+        RAISE EXCEPTION 'Quantity to consume must be greater than zero';
+    END IF;
+
+    FOR v_batch IN
+        SELECT id, lot_number, expiration_date, quantity
+        FROM inventory_batches
+        WHERE inventory_item_id = p_inventory_item_id
+          AND quantity > 0
+          AND (p_include_expired OR expiration_date IS NULL OR expiration_date >= CURRENT_DATE)
+        ORDER BY expiration_date ASC NULLS LAST, received_date ASC, id ASC
+        FOR UPDATE
+    LOOP
+        EXIT WHEN v_remaining = 0;
+
+        v_take := LEAST(v_batch.quantity, v_remaining);
+
+        UPDATE inventory_batches
+        SET quantity = quantity - v_take
+        WHERE id = v_batch.id;
+
+        v_allocations := v_allocations || jsonb_build_object(
+            'batch_id', v_batch.id,
+            'lot_number', v_batch.lot_number,
+            'expiration_date', v_batch.expiration_date,
+            'quantity', v_take
+        );
+
+        v_remaining := v_remaining - v_take;
+    END LOOP;
+
+    IF v_remaining > 0 THEN
+        SELECT COALESCE(SUM(quantity), 0) INTO v_available
+        FROM inventory_batches
+        WHERE inventory_item_id = p_inventory_item_id
+          AND quantity > 0
+          AND (p_include_expired OR expiration_date IS NULL OR expiration_date >= CURRENT_DATE);
+
+        RAISE EXCEPTION 'Insufficient %stock: requested %, available %',
+            CASE WHEN p_include_expired THEN '' ELSE 'unexpired ' END,
+            p_quantity, v_available + (p_quantity - v_remaining);
+    END IF;
+
+    RETURN v_allocations;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 4. DISPENSING NOW CONSUMES BATCHES FEFO
+-- =============================================
+ALTER TABLE medication_dispenses
+ADD COLUMN IF NOT EXISTS batch_allocations JSONB;
+
+COMMENT ON COLUMN medication_dispenses.batch_allocations IS 'Lots the dispensed quantity was taken from (FEFO)';
+
+CREATE OR REPLACE FUNCTION dispense_medication(
+    p_consultation_id INTEGER,
+    p_patient_id INTEGER,
+    p_inventory_item_id INTEGER,
+    p_quantity INTEGER,
+    p_dosage_instructions TEXT,
+    p_dispensed_by INTEGER
+)
+RETURNS medication_dispenses AS $$
+DECLARE
+    v_item inventory_items%ROWTYPE;
+    v_dispense medication_dispenses%ROWTYPE;
+    v_allocations JSONB;
+BEGIN
+    IF p_quantity IS NULL OR p_quantity <= 0 THEN
+        RAISE EXCEPTION 'Quantity to dispense must be greater than zero';
+    END IF;
+
+    -- Lock the item row for the duration of the dispense
+    SELECT * INTO v_item FROM inventory_items WHERE id = p_inventory_item_id FOR UPDATE;
+
+    IF NOT FOUND OR v_item.status = 'archived' THEN
+        RAISE EXCEPTION 'Inventory item % not found', p_inventory_item_id;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM inventory_batches WHERE inventory_item_id = p_inventory_item_id) THEN
+        -- Batch-tracked: take from the lots expiring first; the batch trigger updates the item totals
+        v_allocations := consume_inventory_batches_fefo(p_inventory_item_id, p_quantity);
+    ELSE
+        IF v_item.expiration_date IS NOT NULL AND v_item.expiration_date < CURRENT_DATE THEN
+            RAISE EXCEPTION '% is expired and cannot be dispensed', v_item.generic_name;
+        END IF;
+
+        IF v_item.stock_quantity < p_quantity THEN
+            RAISE EXCEPTION 'Insufficient stock: only % % of % available',
+                v_item.stock_quantity, COALESCE(v_item.unit_of_measurement, 'pcs'), v_item.generic_name;
+        END IF;
+
+        UPDATE inventory_items
+        SET stock_quantity = stock_quantity - p_quantity
+        WHERE id = p_inventory_item_id;
+    END IF;
+
+    UPDATE inventory_items
+    SET updated_at = CURRENT_TIMESTAMP,
+        updated_by = p_dispensed_by
+    WHERE id = p_inventory_item_id;
+
+    INSERT INTO medication_dispenses (
+        consultation_id, patient_id, inventory_item_id, item_name,
+        unit_of_measurement, quantity, dosage_instructions, dispensed_by, batch_allocations
+    )
+    VALUES (
+        p_consultation_id, p_patient_id, p_inventory_item_id,
+        v_item.generic_name || COALESCE(' (' || v_item.brand_name || ')', ''),
+        v_item.unit_of_measurement, p_quantity, p_dosage_instructions, p_dispensed_by, v_allocations
+    )
+    RETURNING * INTO v_dispense;
+
+    RETURN v_dispense;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 5. MIGRATE EXISTING STOCK INTO OPENING BATCHES
+-- =============================================
+-- Every medicine and supply with stock gets one opening lot carrying its current
+-- quantity and expiry, so totals are unchanged after the migration.
+INSERT INTO inventory_batches (inventory_item_id, lot_number, received_date, expiration_date, quantity, received_quantity, notes)
+SELECT
+    i.id,
+    'OPENING-' || i.id,
+    COALESCE(i.created_at::DATE, CURRENT_DATE),
+    i.expiration_date,
+    i.stock_quantity,
+    i.stock_quantity,
+    'Opening balance migrated from inventory_items'
+FROM inventory_items i
+JOIN inventory_classifications c ON c.id = i.classification_id
+WHERE LOWER(c.name) IN ('medicines', 'supplies')
+  AND i.status <> 'archived'
+  AND i.stock_quantity > 0
+  AND NOT EXISTS (SELECT 1 FROM inventory_batches b WHERE b.inventory_item_id = i.id);
+
+-- =============================================
+-- NOTES
+-- =============================================
+-- Equipment is not batch-tracked.
+-- Items with at least one batch have stock_quantity and expiration_date managed
+-- by the trigger above; inventoryService.updateItem ignores manual edits to them.
+-- sync_inventory_item_from_batches can be called via supabase.rpc to refresh the
+-- item expiry after a lot passes its expiration date.
@@ -0,0 +1,193 @@
+-- =============================================
+-- MEDITRACK INVENTORY BULK IMPORT
+-- Migration adding an audit table for Excel/CSV imports and a function that
+-- commits all validated rows of an import in one transaction
+-- Requires: add_inventory_batches.sql, add_stock_movements.sql
+-- =============================================
+
+-- =============================================
+-- 1. INVENTORY IMPORTS TABLE
+-- =============================================
+CREATE TABLE IF NOT EXISTS inventory_imports (
+    id SERIAL PRIMARY KEY,
+    file_name VARCHAR(255),
+    upsert_by_code BOOLEAN NOT NULL DEFAULT FALSE,
+    row_count INTEGER NOT NULL DEFAULT 0,
+    inserted_count INTEGER NOT NULL DEFAULT 0,
+    updated_count INTEGER NOT NULL DEFAULT 0,
+    imported_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    imported_by INTEGER REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_imports_imported_at ON inventory_imports(imported_at);
+
+COMMENT ON TABLE inventory_imports IS 'One row per committed bulk import; stock_movements reference it as inventory_import';
+
+-- =============================================
+-- 2. IMPORT ROWS (called via supabase.rpc)
+-- =============================================
+-- p_rows is a JSON array of validated rows. A row with existing_item_id updates that
+-- item (upsert by code); any other row creates a new item. Blank cells never erase the
+-- values of an updated item. Stock is never overwritten:
+--   * new items get an opening lot (medicines/supplies) and an 'opening' ledger row
+--   * updated items get an 'adjust' ledger row for the difference, or keep their stock
+--     when the row has no quantity
+-- Any failure rolls back the whole import.
+CREATE OR REPLACE FUNCTION import_inventory_items(
+    p_rows JSONB,
+    p_upsert BOOLEAN,
+    p_file_name VARCHAR,
+    p_performed_by INTEGER
+)
+RETURNS inventory_imports AS $$
+DECLARE
+    v_import inventory_imports%ROWTYPE;
+    v_row JSONB;
+    v_item inventory_items%ROWTYPE;
+    v_existing inventory_items%ROWTYPE;
+    v_batch inventory_batches%ROWTYPE;
+    v_classification VARCHAR;
+    v_quantity INTEGER;
+    v_has_batches BOOLEAN;
+    v_inserted INTEGER := 0;
+    v_updated INTEGER := 0;
+BEGIN
+    INSERT INTO inventory_imports (file_name, upsert_by_code, row_count, imported_by)
+    VALUES (p_file_name, COALESCE(p_upsert, FALSE), jsonb_array_length(p_rows), p_performed_by)
+    RETURNING * INTO v_import;
+
+    FOR v_row IN SELECT * FROM jsonb_array_elements(p_rows)
+    LOOP
+        -- NULL when the row has no quantity: new items start at 0, updated items keep their stock
+        v_quantity := NULLIF(v_row->>'stock_quantity', '')::INTEGER;
+
+        IF v_quantity < 0 THEN
+            RAISE EXCEPTION 'Row %: stock quantity cannot be negative', v_row->>'row_number';
+        END IF;
+
+        SELECT LOWER(name) INTO v_classification
+        FROM inventory_classifications
+        WHERE id = (v_row->>'classification_id')::INTEGER;
+
+        IF v_classification IS NULL THEN
+            RAISE EXCEPTION 'Row %: unknown classification', v_row->>'row_number';
+        END IF;
+
+        IF NULLIF(v_row->>'existing_item_id', '') IS NOT NULL THEN
+            IF NOT COALESCE(p_upsert, FALSE) THEN
+                RAISE EXCEPTION 'Row %: updating existing items was not requested', v_row->>'row_number';
+            END IF;
+
+            SELECT * INTO v_existing FROM inventory_items
+            WHERE id = (v_row->>'existing_item_id')::INTEGER
+              AND status <> 'archived'
+            FOR UPDATE;
+
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'Row %: item to update no longer exists', v_row->>'row_number';
+            END IF;
+
+            SELECT EXISTS (SELECT 1 FROM inventory_batches WHERE inventory_item_id = v_existing.id)
+            INTO v_has_batches;
+
+            UPDATE inventory_items
+            SET generic_name = v_row->>'generic_name',
+                brand_name = COALESCE(NULLIF(v_row->>'brand_name', ''), brand_name),
+                category = COALESCE(NULLIF(v_row->>'category', ''), category),
+                unit_of_measurement = COALESCE(NULLIF(v_row->>'unit_of_measurement', ''), unit_of_measurement),
+                stock_threshold = COALESCE(NULLIF(v_row->>'stock_threshold', '')::INTEGER, stock_threshold),
+                -- Expiry of lot-tracked items comes from their lots
+                expiration_date = CASE WHEN v_has_batches THEN expiration_date
+                                       ELSE COALESCE(NULLIF(v_row->>'expiration_date', '')::DATE, expiration_date) END,
+                status = CASE WHEN v_classification = 'equipment'
+                              THEN COALESCE(NULLIF(v_row->>'status', ''), status)
+                              ELSE status END,
+                notes = COALESCE(NULLIF(v_row->>'notes', ''), notes),
+                updated_at = CURRENT_TIMESTAMP,
+                updated_by = p_performed_by
+            WHERE id = v_existing.id;
+
+            IF v_quantity IS NOT NULL AND v_quantity <> v_existing.stock_quantity THEN
+                PERFORM record_stock_movement(
+                    v_existing.id, 'adjust', v_quantity - v_existing.stock_quantity,
+                    'Bulk import' || COALESCE(' from ' || p_file_name, ''),
+                    NULL, p_performed_by, 'inventory_import', v_import.id, NULL
+                );
+            END IF;
+
+            v_updated := v_updated + 1;
+        ELSE
+            v_quantity := COALESCE(v_quantity, 0);
+
+            INSERT INTO inventory_items (
+                generic_name, brand_name, code, category, classification_id, department,
+                stock_quantity, stock_threshold, unit_of_measurement, expiration_date,
+                status, notes, created_by, updated_by
+            )
+            VALUES (
+                v_row->>'generic_name',
+                NULLIF(v_row->>'brand_name', ''),
+                NULLIF(v_row->>'code', ''),
+                NULLIF(v_row->>'category', ''),
+                (v_row->>'classification_id')::INTEGER,
+                v_row->>'department',
+                v_quantity,
+                COALESCE(NULLIF(v_row->>'stock_threshold', '')::INTEGER, 0),
+                COALESCE(NULLIF(v_row->>'unit_of_measurement', ''), 'pcs'),
+                NULLIF(v_row->>'expiration_date', '')::DATE,
+                COALESCE(NULLIF(v_row->>'status', ''), 'active'),
+                NULLIF(v_row->>'notes', ''),
+                p_performed_by,
+                p_performed_by
+            )
+            RETURNING * INTO v_item;
+
+            v_batch := NULL;
+            IF v_quantity > 0 AND v_classification <> 'equipment' THEN
+                INSERT INTO inventory_batches (
+                    inventory_item_id, lot_number, received_date, expiration_date,
+                    supplier, quantity, received_quantity, created_by
+                )
+                VALUES (
+                    v_item.id,
+                    COALESCE(NULLIF(TRIM(v_row->>'lot_number'), ''), 'INITIAL-' || v_item.id),
+                    CURRENT_DATE,
+                    v_item.expiration_date,
+                    NULLIF(TRIM(v_row->>'supplier'), ''),
+                    v_quantity,
+                    v_quantity,
+                    p_performed_by
+                )
+                RETURNING * INTO v_batch;
+            END IF;
+
+            IF v_quantity > 0 THEN
+                PERFORM insert_stock_movement(
+                    v_item.id, 'opening', v_quantity, 'Opening balance from bulk import',
+                    v_batch.id, v_batch.lot_number, NULL,
+                    'inventory_import', v_import.id, NULL, p_performed_by
+                );
+            END IF;
+
+            v_inserted := v_inserted + 1;
+        END IF;
+    END LOOP;
+
+    UPDATE inventory_imports
+    SET inserted_count = v_inserted,
+        updated_count = v_updated
+    WHERE id = v_import.id
+    RETURNING * INTO v_import;
+
+    RETURN v_import;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- NOTES
+-- =============================================
+-- Rows are validated in the browser (department, classification, status, quantities,
+-- dates, duplicate codes) before this function is called; the CHECK constraints on
+-- inventory_items still apply and abort the import if a bad value slips through.
+-- Upserts match on code within the same department, because a transfer copies an
+-- item's code to the other department.
@@ -0,0 +1,72 @@
+-- =============================================
+-- MEDITRACK MEDICAL DOCUMENTS
+-- Migration adding serial-numbered clinical documents issued from a consultation:
+-- medical certificates, fit-to-return slips and referral letters
+-- =============================================
+
+-- =============================================
+-- 1. MEDICAL DOCUMENTS TABLE
+-- =============================================
+CREATE TABLE IF NOT EXISTS medical_documents (
+    id SERIAL PRIMARY KEY,
+    serial_number VARCHAR(30) UNIQUE,
+    document_type VARCHAR(30) NOT NULL CHECK (document_type IN (
+        'medical_certificate',
+        'fit_to_return',
+        'referral_letter'
+    )),
+    consultation_id INTEGER NOT NULL REFERENCES consultations(id) ON DELETE CASCADE,
+    patient_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+
+    -- Document content as issued; later edits to the consultation do not change it
+    diagnosis TEXT,
+    recommendations TEXT,
+    purpose VARCHAR(255),
+    rest_from DATE,
+    rest_to DATE,
+    fit_to_return_on DATE,
+    referred_to VARCHAR(255),
+    referral_reason TEXT,
+
+    -- Issuing physician, copied at the time of issue
+    issued_by INTEGER NOT NULL REFERENCES users(id),
+    issuer_name VARCHAR(150) NOT NULL,
+    issuer_license_number VARCHAR(50) NOT NULL,
+    issued_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    CHECK (rest_to IS NULL OR rest_from IS NULL OR rest_to >= rest_from),
+    CHECK (document_type <> 'referral_letter' OR referred_to IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_medical_documents_consultation ON medical_documents(consultation_id);
+CREATE INDEX IF NOT EXISTS idx_medical_documents_patient ON medical_documents(patient_id);
+CREATE INDEX IF NOT EXISTS idx_medical_documents_type ON medical_documents(document_type);
+
+COMMENT ON TABLE medical_documents IS 'Medical certificates, fit-to-return slips and referral letters issued by the clinic';
+
+-- MC-/FR-/RL-<year>-<id> depending on the document type, assigned on insert
+CREATE OR REPLACE FUNCTION set_medical_document_serial_number()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.serial_number IS NULL THEN
+        NEW.serial_number := CASE NEW.document_type
+            WHEN 'medical_certificate' THEN 'MC'
+            WHEN 'fit_to_return' THEN 'FR'
+            ELSE 'RL'
+        END || '-' || TO_CHAR(CURRENT_DATE, 'YYYY') || '-' || LPAD(NEW.id::TEXT, 5, '0');
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_medical_document_serial_number ON medical_documents;
+CREATE TRIGGER set_medical_document_serial_number
+    BEFORE INSERT ON medical_documents
+    FOR EACH ROW EXECUTE FUNCTION set_medical_document_serial_number();
+
+-- =============================================
+-- NOTES
+-- =============================================
+-- Issued documents are never edited; reprints are generated from the stored content.
+-- Each issue is also written to patient_monitoring_logs against the consultation
+-- (action 'issue_medical_document').
@@ -0,0 +1,110 @@
+-- =============================================
+-- MEDITRACK MEDICATION DISPENSING
+-- Migration to record medications/supplies dispensed during a consultation
+-- and decrement inventory stock atomically
+-- =============================================
+
+-- =============================================
+-- 1. ADD stock_threshold COLUMN TO inventory_items TABLE
+-- =============================================
+-- The application already reads and writes stock_threshold when calculating
+-- low_stock status, but the column is missing from the consolidated schema
+ALTER TABLE inventory_items
+ADD COLUMN IF NOT EXISTS stock_threshold INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN inventory_items.stock_threshold IS 'Quantity below which a medicine or supply is flagged as low_stock';
+
+-- =============================================
+-- 2. MEDICATION DISPENSES TABLE
+-- =============================================
+CREATE TABLE IF NOT EXISTS medication_dispenses (
+    id SERIAL PRIMARY KEY,
+    consultation_id INTEGER NOT NULL REFERENCES consultations(id) ON DELETE CASCADE,
+    patient_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    inventory_item_id INTEGER REFERENCES inventory_items(id) ON DELETE SET NULL,
+
+    -- Snapshot of the item at the time of dispensing, kept even if the item is later removed
+    item_name VARCHAR(255) NOT NULL,
+    unit_of_measurement VARCHAR(50),
+
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    dosage_instructions TEXT,
+
+    dispensed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    dispensed_by INTEGER REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_medication_dispenses_consultation_id ON medication_dispenses(consultation_id);
+CREATE INDEX IF NOT EXISTS idx_medication_dispenses_patient_id ON medication_dispenses(patient_id);
+CREATE INDEX IF NOT EXISTS idx_medication_dispenses_item_id ON medication_dispenses(inventory_item_id);
+
+COMMENT ON TABLE medication_dispenses IS 'Medicines and supplies dispensed to a patient during a consultation';
+
+-- =============================================
+-- 3. DISPENSE FUNCTION (called via supabase.rpc)
+-- =============================================
+-- Decrements stock and records the dispense in a single transaction.
+-- The conditional UPDATE locks the item row, so two concurrent dispenses can
+-- never take the stock below zero.
+CREATE OR REPLACE FUNCTION dispense_medication(
+    p_consultation_id INTEGER,
+    p_patient_id INTEGER,
+    p_inventory_item_id INTEGER,
+    p_quantity INTEGER,
+    p_dosage_instructions TEXT,
+    p_dispensed_by INTEGER
+)
+RETURNS medication_dispenses AS $$
+DECLARE
+    v_item inventory_items%ROWTYPE;
+    v_dispense medication_dispenses%ROWTYPE;
+BEGIN
+    IF p_quantity IS NULL OR p_quantity <= 0 THEN
+        RAISE EXCEPTION 'Quantity to dispense must be greater than zero';
+    END IF;
+
+    SELECT * INTO v_item FROM inventory_items WHERE id = p_inventory_item_id;
+
+    IF NOT FOUND OR v_item.status = 'archived' THEN
+        RAISE EXCEPTION 'Inventory item % not found', p_inventory_item_id;
+    END IF;
+
+    IF v_item.expiration_date IS NOT NULL AND v_item.expiration_date < CURRENT_DATE THEN
+        RAISE EXCEPTION '% is expired and cannot be dispensed', v_item.generic_name;
+    END IF;
+
+    UPDATE inventory_items
+    SET stock_quantity = stock_quantity - p_quantity,
+        updated_at = CURRENT_TIMESTAMP,
+        updated_by = p_dispensed_by
+    WHERE id = p_inventory_item_id
+      AND stock_quantity >= p_quantity
+    RETURNING * INTO v_item;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Insufficient stock: only % % of % available',
+            (SELECT stock_quantity FROM inventory_items WHERE id = p_inventory_item_id),
+            COALESCE(v_item.unit_of_measurement, 'pcs'),
+            v_item.generic_name;
+    END IF;
+
+    INSERT INTO medication_dispenses (
+        consultation_id, patient_id, inventory_item_id, item_name,
+        unit_of_measurement, quantity, dosage_instructions, dispensed_by
+    )
+    VALUES (
+        p_consultation_id, p_patient_id, p_inventory_item_id,
+        v_item.generic_name || COALESCE(' (' || v_item.brand_name || ')', ''),
+        v_item.unit_of_measurement, p_quantity, p_dosage_instructions, p_dispensed_by
+    )
+    RETURNING * INTO v_dispense;
+
+    RETURN v_dispense;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- NOTES
+-- =============================================
+-- Status (low_stock / out_of_stock) is recalculated by the application after a
+-- successful dispense using the same rules as inventoryService.updateItem.
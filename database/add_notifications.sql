@@ -0,0 +1,219 @@
+-- =============================================
+-- MEDITRACK INVENTORY NOTIFICATIONS
+-- Migration adding configurable alert rules (expiry horizons, low stock,
+-- equipment left in maintenance) and persistent per-user notifications
+-- Requires: add_medication_dispensing.sql, add_inventory_batches.sql
+-- =============================================
+
+-- =============================================
+-- 1. TRACK WHEN AN ITEM'S STATUS LAST CHANGED
+-- =============================================
+ALTER TABLE inventory_items ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMP;
+
+UPDATE inventory_items
+SET status_changed_at = COALESCE(updated_at, created_at, CURRENT_TIMESTAMP)
+WHERE status_changed_at IS NULL;
+
+CREATE OR REPLACE FUNCTION set_inventory_status_changed_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+        NEW.status_changed_at := CURRENT_TIMESTAMP;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS inventory_items_status_changed_at ON inventory_items;
+CREATE TRIGGER inventory_items_status_changed_at
+    BEFORE INSERT OR UPDATE ON inventory_items
+    FOR EACH ROW EXECUTE FUNCTION set_inventory_status_changed_at();
+
+COMMENT ON COLUMN inventory_items.status_changed_at IS 'When status last changed; used to measure time spent in maintenance';
+
+-- =============================================
+-- 2. NOTIFICATION RULES TABLE
+-- =============================================
+CREATE TABLE IF NOT EXISTS notification_rules (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    rule_type VARCHAR(30) NOT NULL CHECK (rule_type IN (
+        'expiry',              -- lot/item expires within threshold_days
+        'low_stock',           -- medicine or supply at or below its stock threshold
+        'maintenance_overdue'  -- equipment in maintenance longer than threshold_days
+    )),
+    threshold_days INTEGER CHECK (threshold_days IS NULL OR threshold_days >= 0),
+    department VARCHAR(50) CHECK (department IS NULL OR department IN ('medical', 'dental')), -- NULL = both
+    severity VARCHAR(20) NOT NULL DEFAULT 'warning' CHECK (severity IN ('info', 'warning', 'critical')),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    created_by INTEGER REFERENCES users(id),
+
+    CONSTRAINT notification_rules_days_required CHECK (
+        rule_type = 'low_stock' OR threshold_days IS NOT NULL
+    )
+);
+
+DROP TRIGGER IF EXISTS update_notification_rules_updated_at ON notification_rules;
+CREATE TRIGGER update_notification_rules_updated_at
+    BEFORE UPDATE ON notification_rules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE notification_rules IS 'Configurable conditions that raise inventory notifications';
+
+-- Default rules
+INSERT INTO notification_rules (name, rule_type, threshold_days, severity)
+SELECT * FROM (VALUES
+    ('Expires within 90 days', 'expiry', 90, 'info'),
+    ('Expires within 30 days', 'expiry', 30, 'warning'),
+    ('Expires within 7 days', 'expiry', 7, 'critical'),
+    ('Below stock threshold', 'low_stock', NULL::INTEGER, 'warning'),
+    ('In maintenance over 14 days', 'maintenance_overdue', 14, 'warning')
+) AS defaults(name, rule_type, threshold_days, severity)
+WHERE NOT EXISTS (SELECT 1 FROM notification_rules);
+
+-- =============================================
+-- 3. NOTIFICATIONS TABLE
+-- =============================================
+CREATE TABLE IF NOT EXISTS notifications (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    rule_id INTEGER REFERENCES notification_rules(id) ON DELETE SET NULL,
+    inventory_item_id INTEGER REFERENCES inventory_items(id) ON DELETE CASCADE,
+    batch_id INTEGER REFERENCES inventory_batches(id) ON DELETE CASCADE,
+
+    title VARCHAR(255) NOT NULL,
+    message TEXT NOT NULL,
+    severity VARCHAR(20) NOT NULL DEFAULT 'warning' CHECK (severity IN ('info', 'warning', 'critical')),
+    link TEXT,
+
+    -- Identifies the condition occurrence, so each user is told about it once
+    dedupe_key VARCHAR(255) NOT NULL,
+    is_read BOOLEAN NOT NULL DEFAULT FALSE,
+    read_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(user_id, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON notifications(user_id, is_read);
+CREATE INDEX IF NOT EXISTS idx_notifications_created_at ON notifications(created_at);
+CREATE INDEX IF NOT EXISTS idx_notifications_item ON notifications(inventory_item_id);
+
+-- =============================================
+-- 4. GENERATE NOTIFICATIONS (called via supabase.rpc)
+-- =============================================
+-- Evaluates every active rule and notifies every user. Safe to call repeatedly:
+-- the dedupe key makes each occurrence notify a user only once. Returns rows inserted.
+CREATE OR REPLACE FUNCTION generate_inventory_notifications()
+RETURNS INTEGER AS $$
+DECLARE
+    v_inserted INTEGER := 0;
+    v_count INTEGER;
+BEGIN
+    -- Expiry: each lot on hand (or unbatched item) matches the tightest horizon it falls within,
+    -- so as it nears expiry it moves 90 -> 30 -> 7 and notifies once per horizon, then once more when it expires
+    WITH stock_expiries AS (
+        SELECT i.id AS item_id, b.id AS batch_id, b.lot_number, b.expiration_date, b.quantity
+        FROM inventory_batches b
+        JOIN inventory_items i ON i.id = b.inventory_item_id
+        WHERE b.quantity > 0 AND b.expiration_date IS NOT NULL AND i.status <> 'archived'
+        UNION ALL
+        SELECT i.id, NULL, NULL, i.expiration_date, i.stock_quantity
+        FROM inventory_items i
+        WHERE i.expiration_date IS NOT NULL AND i.stock_quantity > 0 AND i.status <> 'archived'
+          AND NOT EXISTS (SELECT 1 FROM inventory_batches b WHERE b.inventory_item_id = i.id)
+    ),
+    matches AS (
+        SELECT DISTINCT ON (e.item_id, e.batch_id)
+            e.*, r.id AS rule_id, r.severity, r.threshold_days,
+            (e.expiration_date - CURRENT_DATE) AS days_left
+        FROM stock_expiries e
+        JOIN inventory_items i ON i.id = e.item_id
+        JOIN notification_rules r ON r.rule_type = 'expiry' AND r.is_active
+            AND (r.department IS NULL OR r.department = i.department)
+            AND e.expiration_date - CURRENT_DATE <= r.threshold_days
+        ORDER BY e.item_id, e.batch_id, r.threshold_days ASC
+    )
+    INSERT INTO notifications (user_id, rule_id, inventory_item_id, batch_id, title, message, severity, link, dedupe_key)
+    SELECT
+        u.id, m.rule_id, i.id, m.batch_id,
+        CASE WHEN m.days_left < 0 THEN 'Expired: ' ELSE 'Expiring soon: ' END || i.generic_name,
+        i.generic_name || COALESCE(' lot ' || m.lot_number, '') || ' (' || m.quantity || ' ' || COALESCE(i.unit_of_measurement, 'pcs') || ', ' || i.department || ') ' ||
+            CASE
+                WHEN m.days_left < 0 THEN 'expired on ' || TO_CHAR(m.expiration_date, 'Mon DD, YYYY')
+                WHEN m.days_left = 0 THEN 'expires today'
+                ELSE 'expires in ' || m.days_left || ' day(s) on ' || TO_CHAR(m.expiration_date, 'Mon DD, YYYY')
+            END,
+        CASE WHEN m.days_left < 0 THEN 'critical' ELSE m.severity END,
+        '/inventory?itemId=' || i.id || '&department=' || i.department || '&classification=' || LOWER(COALESCE(c.name, 'medicines')),
+        -- Expired lots get their own key so a lot that already got its "expiring soon"
+        -- notification from this rule still gets an "expired" one; expiring keys are unchanged
+        -- so lots notified before this change are not notified again
+        'expiry:' || m.rule_id || ':' || i.id || ':' || COALESCE(m.batch_id::TEXT, 'item') || ':' || m.expiration_date
+            || CASE WHEN m.days_left < 0 THEN ':expired' ELSE '' END
+    FROM matches m
+    JOIN inventory_items i ON i.id = m.item_id
+    LEFT JOIN inventory_classifications c ON c.id = i.classification_id
+    CROSS JOIN users u
+    ON CONFLICT (user_id, dedupe_key) DO NOTHING;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_inserted := v_inserted + v_count;
+
+    -- Low stock: medicines and supplies at low_stock or out_of_stock, once per time they drop
+    INSERT INTO notifications (user_id, rule_id, inventory_item_id, title, message, severity, link, dedupe_key)
+    SELECT
+        u.id, r.id, i.id,
+        CASE WHEN i.status = 'out_of_stock' THEN 'Out of stock: ' ELSE 'Low stock: ' END || i.generic_name,
+        i.generic_name || ' (' || i.department || ') has ' || i.stock_quantity || ' ' || COALESCE(i.unit_of_measurement, 'pcs') ||
+            ' left; threshold is ' || COALESCE(i.stock_threshold, 0),
+        CASE WHEN i.status = 'out_of_stock' THEN 'critical' ELSE r.severity END,
+        '/inventory?itemId=' || i.id || '&department=' || i.department || '&classification=' || LOWER(COALESCE(c.name, 'medicines')),
+        'low_stock:' || r.id || ':' || i.id || ':' || i.status || ':' || COALESCE(i.status_changed_at::TEXT, '')
+    FROM inventory_items i
+    LEFT JOIN inventory_classifications c ON c.id = i.classification_id
+    JOIN notification_rules r ON r.rule_type = 'low_stock' AND r.is_active
+        AND (r.department IS NULL OR r.department = i.department)
+    CROSS JOIN users u
+    WHERE i.status IN ('low_stock', 'out_of_stock')
+    ON CONFLICT (user_id, dedupe_key) DO NOTHING;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_inserted := v_inserted + v_count;
+
+    -- Equipment left in maintenance longer than the rule allows
+    INSERT INTO notifications (user_id, rule_id, inventory_item_id, title, message, severity, link, dedupe_key)
+    SELECT
+        u.id, r.id, i.id,
+        'Maintenance overdue: ' || i.generic_name,
+        i.generic_name || ' (' || i.department || ') has been in maintenance for ' ||
+            (CURRENT_DATE - i.status_changed_at::DATE) || ' day(s)',
+        r.severity,
+        '/inventory?itemId=' || i.id || '&department=' || i.department || '&classification=' || LOWER(COALESCE(c.name, 'equipment')),
+        'maintenance:' || r.id || ':' || i.id || ':' || i.status_changed_at::TEXT
+    FROM inventory_items i
+    LEFT JOIN inventory_classifications c ON c.id = i.classification_id
+    JOIN notification_rules r ON r.rule_type = 'maintenance_overdue' AND r.is_active
+        AND (r.department IS NULL OR r.department = i.department)
+    CROSS JOIN users u
+    WHERE i.status = 'maintenance'
+      AND i.status_changed_at IS NOT NULL
+      AND CURRENT_DATE - i.status_changed_at::DATE > r.threshold_days
+    ON CONFLICT (user_id, dedupe_key) DO NOTHING;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_inserted := v_inserted + v_count;
+
+    RETURN v_inserted;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- NOTES
+-- =============================================
+-- The application calls generate_inventory_notifications() when the notification bell
+-- loads and periodically afterwards; a pg_cron job can call it too where available.
+-- Statuses are stored by the application (calculateItemStatus), so low stock is evaluated
+-- against the stored status column.
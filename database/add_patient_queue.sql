@@ -0,0 +1,106 @@
+-- =============================================
+-- MEDITRACK WALK-IN QUEUE
+-- Migration adding the clinic waiting list: walk-ins are triaged on arrival, called in
+-- priority order and linked to the consultation started for them
+-- waiting -> called -> in_consultation, or left (without being seen)
+-- =============================================
+
+-- =============================================
+-- 1. QUEUE ENTRIES TABLE
+-- =============================================
+CREATE TABLE IF NOT EXISTS queue_entries (
+    id SERIAL PRIMARY KEY,
+    queue_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    -- Restarts at 1 every day, assigned on insert
+    queue_number INTEGER,
+    patient_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    chief_complaint TEXT,
+
+    -- Triage assessment, same fields as vital_signs
+    mode_of_arrival VARCHAR(20) CHECK (mode_of_arrival IN ('Ambulatory', 'Assisted', 'Cuddled/Carried')),
+    patient_in_pain BOOLEAN DEFAULT false,
+    pain_scale INTEGER CHECK (pain_scale BETWEEN 0 AND 10),
+    patient_has_injuries BOOLEAN DEFAULT false,
+    injury_abrasion BOOLEAN DEFAULT false,
+    injury_contusion BOOLEAN DEFAULT false,
+    injury_fracture BOOLEAN DEFAULT false,
+    injury_laceration BOOLEAN DEFAULT false,
+    injury_puncture BOOLEAN DEFAULT false,
+    injury_sprain BOOLEAN DEFAULT false,
+    injury_other TEXT,
+
+    triage_priority VARCHAR(20) NOT NULL DEFAULT 'routine' CHECK (triage_priority IN (
+        'emergency',
+        'urgent',
+        'routine'
+    )),
+    triage_reasons TEXT[],
+
+    status VARCHAR(20) NOT NULL DEFAULT 'waiting' CHECK (status IN (
+        'waiting',
+        'called',
+        'in_consultation',
+        'left'
+    )),
+
+    arrived_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    registered_by INTEGER REFERENCES users(id),
+    called_at TIMESTAMP,
+    called_by INTEGER REFERENCES users(id),
+    -- Room or desk the patient was called to, shown on the board
+    called_to VARCHAR(50),
+    consultation_id INTEGER REFERENCES consultations(id) ON DELETE SET NULL,
+    started_at TIMESTAMP,
+    left_at TIMESTAMP,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE (queue_date, queue_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_queue_entries_date_status ON queue_entries(queue_date, status);
+CREATE INDEX IF NOT EXISTS idx_queue_entries_patient ON queue_entries(patient_id);
+
+-- A patient can only be in the waiting list once at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_queue_entries_one_active
+    ON queue_entries(patient_id, queue_date)
+    WHERE status IN ('waiting', 'called');
+
+COMMENT ON TABLE queue_entries IS 'Walk-in waiting list, ordered by triage priority then arrival';
+COMMENT ON COLUMN queue_entries.triage_reasons IS 'Why the priority was assigned, e.g. {"Pain 8/10","Fracture"}';
+
+-- Next number for the day; the advisory lock stops two arrivals getting the same number
+CREATE OR REPLACE FUNCTION set_queue_number()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.queue_number IS NULL THEN
+        PERFORM pg_advisory_xact_lock(hashtext('queue_entries:' || NEW.queue_date::TEXT));
+        SELECT COALESCE(MAX(queue_number), 0) + 1
+          INTO NEW.queue_number
+          FROM queue_entries
+         WHERE queue_date = NEW.queue_date;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_queue_number ON queue_entries;
+CREATE TRIGGER set_queue_number
+    BEFORE INSERT ON queue_entries
+    FOR EACH ROW EXECUTE FUNCTION set_queue_number();
+
+DROP TRIGGER IF EXISTS update_queue_entries_updated_at ON queue_entries;
+CREATE TRIGGER update_queue_entries_updated_at
+    BEFORE UPDATE ON queue_entries
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- NOTES
+-- =============================================
+-- Priority is derived in the app (see calculateTriagePriority in queueService) from the
+-- mode of arrival, pain scale and injuries, and stored with the reasons so the board
+-- order can be explained later. Wait time is called_at - arrived_at; patients who leave
+-- before being called are reported separately.
+-- Registering, calling and starting a consultation are also written to
+-- patient_monitoring_logs.
@@ -0,0 +1,81 @@
+-- =============================================
+-- MEDITRACK PHYSICAL EXAMINATIONS
+-- Migration adding annual / pre-enrollment physical exams and the medical clearance
+-- decision (fit, unfit or pending) for students and employees
+-- =============================================
+
+-- =============================================
+-- 1. PHYSICAL EXAMS TABLE
+-- =============================================
+CREATE TABLE IF NOT EXISTS physical_exams (
+    id SERIAL PRIMARY KEY,
+    patient_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    -- e.g. '2026-2027'; see SCHOOL_YEAR_START_MONTH in src/constants/physicalExam.ts
+    school_year VARCHAR(9) NOT NULL CHECK (school_year ~ '^[0-9]{4}-[0-9]{4}$'),
+    purpose VARCHAR(20) NOT NULL DEFAULT 'annual'
+        CHECK (purpose IN ('pre_enrollment', 'annual', 'pre_employment')),
+    exam_date DATE NOT NULL DEFAULT CURRENT_DATE,
+
+    -- Measurements
+    height_cm DECIMAL(5,1),
+    weight_kg DECIMAL(5,1),
+    blood_pressure_systolic INTEGER,
+    blood_pressure_diastolic INTEGER,
+    pulse_rate INTEGER,
+    respiratory_rate INTEGER,
+    -- Snellen fractions as written, e.g. '20/20'
+    visual_acuity_left VARCHAR(10),
+    visual_acuity_right VARCHAR(10),
+    wears_corrective_lenses BOOLEAN NOT NULL DEFAULT FALSE,
+
+    -- { "<system key>": { "status": "normal" | "abnormal", "notes": "..." } }
+    -- Keys are PHYSICAL_EXAM_SYSTEMS in src/constants/physicalExam.ts
+    findings JSONB NOT NULL DEFAULT '{}',
+    -- { "<test key>": { "status": "normal" | "abnormal" | "not_done", "notes": "..." } }
+    -- Keys are PHYSICAL_EXAM_LAB_TESTS in src/constants/physicalExam.ts
+    lab_results JSONB NOT NULL DEFAULT '{}',
+
+    -- Clearance decision; pending until the physician signs off as fit or unfit
+    clearance_status VARCHAR(10) NOT NULL DEFAULT 'pending'
+        CHECK (clearance_status IN ('pending', 'fit', 'unfit')),
+    recommendations TEXT,
+    cleared_at TIMESTAMP,
+    cleared_by INTEGER REFERENCES users(id),
+    cleared_by_name VARCHAR(150),
+    cleared_by_license_number VARCHAR(50),
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    created_by INTEGER REFERENCES users(id),
+
+    -- Fit and unfit are signed decisions
+    CONSTRAINT physical_exams_decision_signed CHECK (
+        clearance_status = 'pending' OR
+        (cleared_at IS NOT NULL AND cleared_by_name IS NOT NULL AND cleared_by_license_number IS NOT NULL)
+    ),
+    CONSTRAINT physical_exams_unfit_reason CHECK (
+        clearance_status <> 'unfit' OR NULLIF(TRIM(recommendations), '') IS NOT NULL
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_physical_exams_patient ON physical_exams(patient_id, exam_date DESC);
+CREATE INDEX IF NOT EXISTS idx_physical_exams_school_year ON physical_exams(school_year, clearance_status);
+
+-- One exam per patient per school year; a re-check updates the same record
+CREATE UNIQUE INDEX IF NOT EXISTS idx_physical_exams_one_per_year
+    ON physical_exams(patient_id, school_year);
+
+COMMENT ON TABLE physical_exams IS 'Annual and pre-enrollment physical examinations with the medical clearance decision';
+COMMENT ON COLUMN physical_exams.recommendations IS 'Restrictions or follow-up for fit patients; the reason for unfit ones';
+
+DROP TRIGGER IF EXISTS update_physical_exams_updated_at ON physical_exams;
+CREATE TRIGGER update_physical_exams_updated_at
+    BEFORE UPDATE ON physical_exams
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- NOTES
+-- =============================================
+-- A signed decision is final: the app only edits exams that are still pending.
+-- Which findings and lab tests appear on the form lives in src/constants/physicalExam.ts,
+-- so the clinic can add a test without a migration.
@@ -0,0 +1,92 @@
+-- =============================================
+-- MEDITRACK PRESCRIPTIONS
+-- Migration adding structured prescriptions written during a consultation:
+-- draft -> signed (by a physician with a license number) or cancelled
+-- =============================================
+
+-- =============================================
+-- 1. PRESCRIPTIONS TABLE
+-- =============================================
+CREATE TABLE IF NOT EXISTS prescriptions (
+    id SERIAL PRIMARY KEY,
+    prescription_number VARCHAR(30) UNIQUE,
+    consultation_id INTEGER NOT NULL REFERENCES consultations(id) ON DELETE CASCADE,
+    patient_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN (
+        'draft',
+        'signed',
+        'cancelled'
+    )),
+    notes TEXT,
+
+    -- Prescriber details are copied when the prescription is signed so the printed
+    -- slip stays the same if the user's profile changes later
+    prescribed_by INTEGER REFERENCES users(id),
+    prescriber_name VARCHAR(150),
+    prescriber_license_number VARCHAR(50),
+    signed_at TIMESTAMP,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    created_by INTEGER REFERENCES users(id),
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    cancelled_at TIMESTAMP,
+    cancelled_by INTEGER REFERENCES users(id),
+
+    CHECK (status <> 'signed' OR (prescribed_by IS NOT NULL AND prescriber_license_number IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_prescriptions_consultation ON prescriptions(consultation_id);
+CREATE INDEX IF NOT EXISTS idx_prescriptions_patient ON prescriptions(patient_id);
+CREATE INDEX IF NOT EXISTS idx_prescriptions_status ON prescriptions(status);
+
+COMMENT ON TABLE prescriptions IS 'Prescriptions written during a consultation, printed as prescription slips';
+
+-- RX-<year>-<id>, assigned on insert
+CREATE OR REPLACE FUNCTION set_prescription_number()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.prescription_number IS NULL THEN
+        NEW.prescription_number := 'RX-' || TO_CHAR(CURRENT_DATE, 'YYYY') || '-' || LPAD(NEW.id::TEXT, 5, '0');
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_prescription_number ON prescriptions;
+CREATE TRIGGER set_prescription_number
+    BEFORE INSERT ON prescriptions
+    FOR EACH ROW EXECUTE FUNCTION set_prescription_number();
+
+DROP TRIGGER IF EXISTS update_prescriptions_updated_at ON prescriptions;
+CREATE TRIGGER update_prescriptions_updated_at
+    BEFORE UPDATE ON prescriptions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- 2. PRESCRIPTION ITEMS TABLE
+-- =============================================
+CREATE TABLE IF NOT EXISTS prescription_items (
+    id SERIAL PRIMARY KEY,
+    prescription_id INTEGER NOT NULL REFERENCES prescriptions(id) ON DELETE CASCADE,
+    inventory_item_id INTEGER REFERENCES inventory_items(id) ON DELETE SET NULL,
+    drug_name VARCHAR(255) NOT NULL,
+    strength VARCHAR(100),
+    dose VARCHAR(100) NOT NULL,
+    frequency VARCHAR(100) NOT NULL,
+    duration VARCHAR(100),
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    instructions TEXT,
+    sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_prescription_items_prescription ON prescription_items(prescription_id);
+
+COMMENT ON COLUMN prescription_items.inventory_item_id IS 'Set when the drug is stocked by the clinic; null for drugs bought outside';
+
+-- =============================================
+-- NOTES
+-- =============================================
+-- Only draft prescriptions can be edited; the application replaces all items on save.
+-- Signing requires the signer to have a license number and, when the consultation has an
+-- attending physician, to be that physician. An unassigned consultation takes the signer
+-- as its attending physician.
@@ -0,0 +1,192 @@
+-- =============================================
+-- MEDITRACK PURCHASE REQUISITIONS
+-- Migration adding reorder requisitions for items below their stock threshold:
+-- draft -> approved (admin) -> ordered -> received (superadmin)
+-- Requires: add_inventory_batches.sql, add_stock_movements.sql
+-- =============================================
+
+-- =============================================
+-- 1. PURCHASE REQUISITIONS TABLE
+-- =============================================
+CREATE TABLE IF NOT EXISTS purchase_requisitions (
+    id SERIAL PRIMARY KEY,
+    requisition_number VARCHAR(30) UNIQUE,
+    department VARCHAR(50) NOT NULL CHECK (department IN ('medical', 'dental')),
+    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN (
+        'draft',
+        'approved',
+        'ordered',
+        'received',
+        'cancelled'
+    )),
+    supplier VARCHAR(255),
+    notes TEXT,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    created_by INTEGER REFERENCES users(id),
+    approved_at TIMESTAMP,
+    approved_by INTEGER REFERENCES users(id),
+    ordered_at TIMESTAMP,
+    ordered_by INTEGER REFERENCES users(id),
+    received_at TIMESTAMP,
+    received_by INTEGER REFERENCES users(id),
+    cancelled_at TIMESTAMP,
+    cancelled_by INTEGER REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_requisitions_status ON purchase_requisitions(status);
+CREATE INDEX IF NOT EXISTS idx_purchase_requisitions_department ON purchase_requisitions(department);
+
+COMMENT ON TABLE purchase_requisitions IS 'Reorder requests for inventory items that fell below their stock threshold';
+
+-- PR-<year>-<id>, assigned on insert
+CREATE OR REPLACE FUNCTION set_requisition_number()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.requisition_number IS NULL THEN
+        NEW.requisition_number := 'PR-' || TO_CHAR(CURRENT_DATE, 'YYYY') || '-' || LPAD(NEW.id::TEXT, 5, '0');
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_purchase_requisition_number ON purchase_requisitions;
+CREATE TRIGGER set_purchase_requisition_number
+    BEFORE INSERT ON purchase_requisitions
+    FOR EACH ROW EXECUTE FUNCTION set_requisition_number();
+
+DROP TRIGGER IF EXISTS update_purchase_requisitions_updated_at ON purchase_requisitions;
+CREATE TRIGGER update_purchase_requisitions_updated_at
+    BEFORE UPDATE ON purchase_requisitions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- 2. REQUISITION LINES TABLE
+-- =============================================
+CREATE TABLE IF NOT EXISTS purchase_requisition_items (
+    id SERIAL PRIMARY KEY,
+    requisition_id INTEGER NOT NULL REFERENCES purchase_requisitions(id) ON DELETE CASCADE,
+    inventory_item_id INTEGER REFERENCES inventory_items(id) ON DELETE SET NULL,
+    item_name VARCHAR(255) NOT NULL, -- snapshot, survives item deletion
+    unit_of_measurement VARCHAR(50),
+
+    -- Snapshot of the figures the suggestion was based on
+    stock_on_hand INTEGER NOT NULL DEFAULT 0,
+    stock_threshold INTEGER NOT NULL DEFAULT 0,
+    average_daily_usage NUMERIC(10, 2) NOT NULL DEFAULT 0,
+    suggested_quantity INTEGER NOT NULL DEFAULT 0,
+
+    requested_quantity INTEGER NOT NULL CHECK (requested_quantity > 0),
+    received_quantity INTEGER CHECK (received_quantity >= 0),
+    lot_number VARCHAR(100),
+    expiration_date DATE,
+    notes TEXT,
+
+    UNIQUE(requisition_id, inventory_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_requisition_items_requisition ON purchase_requisition_items(requisition_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_requisition_items_item ON purchase_requisition_items(inventory_item_id);
+
+COMMENT ON COLUMN purchase_requisition_items.average_daily_usage IS 'Dispensed quantity per day over the look-back window when the line was drafted';
+
+-- =============================================
+-- 3. RECEIVE A REQUISITION (called via supabase.rpc)
+-- =============================================
+-- p_lines: [{ "id": <line id>, "received_quantity": n, "lot_number": "...", "expiration_date": "YYYY-MM-DD" }]
+-- Each received line adds stock in one transaction: a new lot for medicines and supplies,
+-- a plain receive movement for equipment. Both write the stock ledger.
+CREATE OR REPLACE FUNCTION receive_purchase_requisition(
+    p_requisition_id INTEGER,
+    p_lines JSONB,
+    p_received_by INTEGER
+)
+RETURNS purchase_requisitions AS $$
+DECLARE
+    v_requisition purchase_requisitions%ROWTYPE;
+    v_line purchase_requisition_items%ROWTYPE;
+    v_input JSONB;
+    v_quantity INTEGER;
+    v_lot_number VARCHAR;
+    v_expiration_date DATE;
+    v_classification VARCHAR;
+BEGIN
+    SELECT * INTO v_requisition FROM purchase_requisitions WHERE id = p_requisition_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Requisition % not found', p_requisition_id;
+    END IF;
+
+    IF v_requisition.status <> 'ordered' THEN
+        RAISE EXCEPTION 'Only ordered requisitions can be received (this one is %)', v_requisition.status;
+    END IF;
+
+    FOR v_input IN SELECT * FROM jsonb_array_elements(p_lines)
+    LOOP
+        SELECT * INTO v_line FROM purchase_requisition_items
+        WHERE id = (v_input->>'id')::INTEGER AND requisition_id = p_requisition_id;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Line % is not part of this requisition', v_input->>'id';
+        END IF;
+
+        v_quantity := COALESCE((v_input->>'received_quantity')::INTEGER, 0);
+        v_lot_number := NULLIF(TRIM(v_input->>'lot_number'), '');
+        v_expiration_date := NULLIF(v_input->>'expiration_date', '')::DATE;
+
+        IF v_quantity < 0 THEN
+            RAISE EXCEPTION 'Received quantity for % cannot be negative', v_line.item_name;
+        END IF;
+
+        IF v_quantity > 0 THEN
+            IF v_line.inventory_item_id IS NULL THEN
+                RAISE EXCEPTION '% no longer exists in inventory', v_line.item_name;
+            END IF;
+
+            SELECT LOWER(c.name) INTO v_classification
+            FROM inventory_items i
+            LEFT JOIN inventory_classifications c ON c.id = i.classification_id
+            WHERE i.id = v_line.inventory_item_id;
+
+            IF v_classification = 'equipment' THEN
+                PERFORM record_stock_movement(
+                    v_line.inventory_item_id, 'receive', v_quantity,
+                    'Received on ' || v_requisition.requisition_number,
+                    NULL, p_received_by, 'purchase_requisition', p_requisition_id, NULL
+                );
+            ELSE
+                PERFORM receive_inventory_batch(
+                    v_line.inventory_item_id,
+                    COALESCE(v_lot_number, v_requisition.requisition_number || '-' || v_line.id),
+                    CURRENT_DATE, v_expiration_date, v_requisition.supplier, v_quantity,
+                    'Received on ' || v_requisition.requisition_number,
+                    p_received_by, 'purchase_requisition', p_requisition_id
+                );
+            END IF;
+        END IF;
+
+        UPDATE purchase_requisition_items
+        SET received_quantity = v_quantity,
+            lot_number = v_lot_number,
+            expiration_date = v_expiration_date
+        WHERE id = v_line.id;
+    END LOOP;
+
+    UPDATE purchase_requisitions
+    SET status = 'received',
+        received_at = CURRENT_TIMESTAMP,
+        received_by = p_received_by
+    WHERE id = p_requisition_id
+    RETURNING * INTO v_requisition;
+
+    RETURN v_requisition;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- NOTES
+-- =============================================
+-- Drafts are generated by the application from items whose status is low_stock or out_of_stock,
+-- skipping items already on an open (draft, approved or ordered) requisition.
+-- Stock received here appears in stock_movements with reference_type 'purchase_requisition'.
@@ -0,0 +1,102 @@
+-- =============================================
+-- MEDITRACK REFERRALS
+-- Migration adding referrals of consultation patients to outside hospitals and specialists:
+-- sent -> accepted -> returned (with findings), or cancelled
+-- =============================================
+
+-- =============================================
+-- 1. REFERRALS TABLE
+-- =============================================
+CREATE TABLE IF NOT EXISTS referrals (
+    id SERIAL PRIMARY KEY,
+    referral_number VARCHAR(30) UNIQUE,
+    consultation_id INTEGER NOT NULL REFERENCES consultations(id) ON DELETE CASCADE,
+    patient_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+
+    destination_facility VARCHAR(255) NOT NULL,
+    specialty VARCHAR(100),
+    urgency VARCHAR(20) NOT NULL DEFAULT 'routine' CHECK (urgency IN (
+        'routine',
+        'urgent',
+        'emergency'
+    )),
+    reason TEXT NOT NULL,
+    working_diagnosis TEXT,
+
+    -- Latest vital signs and Glasgow Coma Scale at the time of referral
+    clinical_summary JSONB,
+
+    status VARCHAR(20) NOT NULL DEFAULT 'sent' CHECK (status IN (
+        'sent',
+        'accepted',
+        'returned',
+        'cancelled'
+    )),
+
+    -- Referring physician, copied when the referral is sent
+    referred_by INTEGER NOT NULL REFERENCES users(id),
+    referrer_name VARCHAR(150) NOT NULL,
+    referrer_license_number VARCHAR(50) NOT NULL,
+    sent_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    accepted_at TIMESTAMP,
+    accepted_by_name VARCHAR(150),
+    returned_at TIMESTAMP,
+    findings TEXT,
+    recorded_by INTEGER REFERENCES users(id),
+    cancelled_at TIMESTAMP,
+    cancelled_by INTEGER REFERENCES users(id),
+    cancellation_reason TEXT,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    CHECK (status <> 'returned' OR findings IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_referrals_consultation ON referrals(consultation_id);
+CREATE INDEX IF NOT EXISTS idx_referrals_patient ON referrals(patient_id);
+CREATE INDEX IF NOT EXISTS idx_referrals_status ON referrals(status);
+
+COMMENT ON TABLE referrals IS 'Patients referred out to hospitals and specialists, tracked until they return with findings';
+COMMENT ON COLUMN referrals.clinical_summary IS '{ vitals: {...}, gcs: {...} } snapshot printed on the referral letter';
+
+-- REF-<year>-<id>, assigned on insert
+CREATE OR REPLACE FUNCTION set_referral_number()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.referral_number IS NULL THEN
+        NEW.referral_number := 'REF-' || TO_CHAR(CURRENT_DATE, 'YYYY') || '-' || LPAD(NEW.id::TEXT, 5, '0');
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_referral_number ON referrals;
+CREATE TRIGGER set_referral_number
+    BEFORE INSERT ON referrals
+    FOR EACH ROW EXECUTE FUNCTION set_referral_number();
+
+DROP TRIGGER IF EXISTS update_referrals_updated_at ON referrals;
+CREATE TRIGGER update_referrals_updated_at
+    BEFORE UPDATE ON referrals
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- 2. REFERRAL LETTERS ISSUED AS MEDICAL DOCUMENTS
+-- =============================================
+-- A referral letter issued from "Issue Medical Document" also sends a referral,
+-- so it is tracked like one sent from the Referrals tab
+ALTER TABLE medical_documents
+    ADD COLUMN IF NOT EXISTS referral_id INTEGER REFERENCES referrals(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_medical_documents_referral ON medical_documents(referral_id);
+
+-- =============================================
+-- NOTES
+-- =============================================
+-- Sent and accepted referrals are "open" and listed on the Patient Monitoring page until
+-- the patient returns with findings or the referral is cancelled. Every status change is
+-- also written to patient_monitoring_logs against the consultation.
+-- Sending follows the same signing rule as prescriptions (license number required,
+-- attending physician only).
@@ -0,0 +1,204 @@
+-- =============================================
+-- MEDITRACK STOCK COUNTS
+-- Migration adding physical stock count (cycle count) sessions:
+-- in_progress -> approved (admin) posts the variances as stock adjustments
+-- Requires: add_stock_movements.sql
+-- =============================================
+
+-- =============================================
+-- 1. STOCK COUNT SESSIONS TABLE
+-- =============================================
+CREATE TABLE IF NOT EXISTS stock_count_sessions (
+    id SERIAL PRIMARY KEY,
+    session_number VARCHAR(30) UNIQUE,
+    department VARCHAR(50) NOT NULL CHECK (department IN ('medical', 'dental')),
+    classification_id INTEGER REFERENCES inventory_classifications(id),
+    classification_name VARCHAR(100) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'in_progress' CHECK (status IN (
+        'in_progress',
+        'approved',
+        'cancelled'
+    )),
+    notes TEXT,
+
+    started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    started_by INTEGER REFERENCES users(id),
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    approved_at TIMESTAMP,
+    approved_by INTEGER REFERENCES users(id),
+    cancelled_at TIMESTAMP,
+    cancelled_by INTEGER REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_count_sessions_status ON stock_count_sessions(status);
+CREATE INDEX IF NOT EXISTS idx_stock_count_sessions_department ON stock_count_sessions(department);
+
+-- Only one open count per stockroom shelf (department + classification) at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_count_sessions_one_open
+    ON stock_count_sessions(department, classification_id)
+    WHERE status = 'in_progress';
+
+COMMENT ON TABLE stock_count_sessions IS 'Physical stock counts of one department and classification';
+
+-- SC-<year>-<id>, assigned on insert
+CREATE OR REPLACE FUNCTION set_stock_count_session_number()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.session_number IS NULL THEN
+        NEW.session_number := 'SC-' || TO_CHAR(CURRENT_DATE, 'YYYY') || '-' || LPAD(NEW.id::TEXT, 5, '0');
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_stock_count_session_number ON stock_count_sessions;
+CREATE TRIGGER set_stock_count_session_number
+    BEFORE INSERT ON stock_count_sessions
+    FOR EACH ROW EXECUTE FUNCTION set_stock_count_session_number();
+
+DROP TRIGGER IF EXISTS update_stock_count_sessions_updated_at ON stock_count_sessions;
+CREATE TRIGGER update_stock_count_sessions_updated_at
+    BEFORE UPDATE ON stock_count_sessions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- 2. STOCK COUNT LINES TABLE
+-- =============================================
+CREATE TABLE IF NOT EXISTS stock_count_lines (
+    id SERIAL PRIMARY KEY,
+    session_id INTEGER NOT NULL REFERENCES stock_count_sessions(id) ON DELETE CASCADE,
+    inventory_item_id INTEGER REFERENCES inventory_items(id) ON DELETE SET NULL,
+    item_name VARCHAR(255) NOT NULL, -- snapshot, survives item deletion
+    code TEXT,
+    unit_of_measurement VARCHAR(50),
+
+    -- System quantity at the moment the line was counted (at session start until then)
+    system_quantity INTEGER NOT NULL DEFAULT 0,
+    counted_quantity INTEGER CHECK (counted_quantity >= 0),
+    variance INTEGER GENERATED ALWAYS AS (counted_quantity - system_quantity) STORED,
+    reason TEXT,
+    counted_at TIMESTAMP,
+    counted_by INTEGER REFERENCES users(id),
+    adjustment_movement_id INTEGER REFERENCES stock_movements(id),
+
+    UNIQUE(session_id, inventory_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_count_lines_session ON stock_count_lines(session_id);
+
+COMMENT ON COLUMN stock_count_lines.variance IS 'Counted minus system quantity; NULL until the line is counted';
+
+-- =============================================
+-- 3. RECORD A COUNT (called via supabase.rpc)
+-- =============================================
+-- Stores the counted quantity and re-reads the system quantity at the same moment, so
+-- stock dispensed or received earlier in the count does not show up as variance.
+CREATE OR REPLACE FUNCTION record_stock_count_line(
+    p_line_id INTEGER,
+    p_counted_quantity INTEGER,
+    p_reason TEXT,
+    p_counted_by INTEGER
+)
+RETURNS stock_count_lines AS $$
+DECLARE
+    v_line stock_count_lines%ROWTYPE;
+    v_status VARCHAR;
+BEGIN
+    SELECT s.status INTO v_status
+    FROM stock_count_lines l
+    JOIN stock_count_sessions s ON s.id = l.session_id
+    WHERE l.id = p_line_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Count line % not found', p_line_id;
+    END IF;
+
+    IF v_status <> 'in_progress' THEN
+        RAISE EXCEPTION 'This stock count is % and can no longer be changed', v_status;
+    END IF;
+
+    IF p_counted_quantity IS NOT NULL AND p_counted_quantity < 0 THEN
+        RAISE EXCEPTION 'Counted quantity cannot be negative';
+    END IF;
+
+    UPDATE stock_count_lines l
+    SET counted_quantity = p_counted_quantity,
+        system_quantity = COALESCE((SELECT stock_quantity FROM inventory_items WHERE id = l.inventory_item_id), l.system_quantity),
+        reason = NULLIF(TRIM(p_reason), ''),
+        counted_at = CASE WHEN p_counted_quantity IS NULL THEN NULL ELSE CURRENT_TIMESTAMP END,
+        counted_by = CASE WHEN p_counted_quantity IS NULL THEN NULL ELSE p_counted_by END
+    WHERE l.id = p_line_id
+    RETURNING * INTO v_line;
+
+    RETURN v_line;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 4. APPROVE A COUNT (called via supabase.rpc)
+-- =============================================
+-- Posts every counted line with a variance as an 'adjust' stock movement, all or nothing.
+-- Uncounted lines are left unchanged.
+CREATE OR REPLACE FUNCTION approve_stock_count(
+    p_session_id INTEGER,
+    p_approved_by INTEGER
+)
+RETURNS stock_count_sessions AS $$
+DECLARE
+    v_session stock_count_sessions%ROWTYPE;
+    v_line stock_count_lines%ROWTYPE;
+    v_movement stock_movements%ROWTYPE;
+BEGIN
+    SELECT * INTO v_session FROM stock_count_sessions WHERE id = p_session_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Stock count % not found', p_session_id;
+    END IF;
+
+    IF v_session.status <> 'in_progress' THEN
+        RAISE EXCEPTION 'Only counts in progress can be approved (this one is %)', v_session.status;
+    END IF;
+
+    FOR v_line IN
+        SELECT * FROM stock_count_lines
+        WHERE session_id = p_session_id
+          AND counted_quantity IS NOT NULL
+          AND variance <> 0
+        ORDER BY id
+    LOOP
+        IF v_line.reason IS NULL THEN
+            RAISE EXCEPTION 'Give a reason for the variance on %', v_line.item_name;
+        END IF;
+
+        IF v_line.inventory_item_id IS NULL THEN
+            RAISE EXCEPTION '% no longer exists in inventory', v_line.item_name;
+        END IF;
+
+        SELECT * INTO v_movement FROM record_stock_movement(
+            v_line.inventory_item_id, 'adjust', v_line.variance,
+            v_session.session_number || ': ' || v_line.reason,
+            NULL, p_approved_by, 'stock_count', p_session_id, NULL
+        );
+
+        UPDATE stock_count_lines
+        SET adjustment_movement_id = v_movement.id
+        WHERE id = v_line.id;
+    END LOOP;
+
+    UPDATE stock_count_sessions
+    SET status = 'approved',
+        approved_at = CURRENT_TIMESTAMP,
+        approved_by = p_approved_by
+    WHERE id = p_session_id
+    RETURNING * INTO v_session;
+
+    RETURN v_session;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- NOTES
+-- =============================================
+-- Lines are created by the application from the items listed for the session's
+-- department and classification when the count is opened.
+-- Adjustments posted here appear in stock_movements with reference_type 'stock_count'.
@@ -0,0 +1,577 @@
+-- =============================================
+-- MEDITRACK STOCK MOVEMENT LEDGER
+-- Migration adding an append-only ledger of every stock change:
+-- opening, receive, dispense, adjust, transfer_in/transfer_out and waste
+-- Requires: add_medication_dispensing.sql, add_inventory_batches.sql
+-- =============================================
+
+-- =============================================
+-- 1. STOCK MOVEMENTS TABLE
+-- =============================================
+-- inventory_item_id is intentionally not a foreign key: the ledger must survive
+-- permanent deletion of an archived item, so item name and department are snapshotted.
+CREATE TABLE IF NOT EXISTS stock_movements (
+    id SERIAL PRIMARY KEY,
+    inventory_item_id INTEGER NOT NULL,
+    item_name VARCHAR(255) NOT NULL,
+    department VARCHAR(50) NOT NULL,
+
+    movement_type VARCHAR(20) NOT NULL CHECK (movement_type IN (
+        'opening',
+        'receive',
+        'dispense',
+        'adjust',
+        'transfer_in',
+        'transfer_out',
+        'waste'
+    )),
+    quantity_change INTEGER NOT NULL CHECK (quantity_change <> 0),
+    balance_after INTEGER NOT NULL,
+
+    -- Lot affected (single-lot movements) or FEFO allocation across lots
+    batch_id INTEGER,
+    lot_number VARCHAR(100),
+    batch_allocations JSONB,
+
+    reason TEXT,
+    reference_type VARCHAR(50), -- e.g. medication_dispense
+    reference_id INTEGER,
+    related_item_id INTEGER,    -- counterpart item of a transfer
+
+    performed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    performed_by INTEGER REFERENCES users(id),
+
+    CONSTRAINT stock_movements_reason_required CHECK (
+        movement_type NOT IN ('adjust', 'waste', 'transfer_in', 'transfer_out')
+        OR (reason IS NOT NULL AND LENGTH(TRIM(reason)) > 0)
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_item_id ON stock_movements(inventory_item_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_type ON stock_movements(movement_type);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_performed_at ON stock_movements(performed_at);
+
+COMMENT ON TABLE stock_movements IS 'Append-only ledger of inventory stock changes; SUM(quantity_change) per item equals stock_quantity';
+COMMENT ON COLUMN stock_movements.balance_after IS 'Item stock_quantity immediately after this movement';
+
+-- =============================================
+-- 2. APPEND-ONLY ENFORCEMENT
+-- =============================================
+CREATE OR REPLACE FUNCTION prevent_stock_movement_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'stock_movements is append-only; record a correcting adjustment instead';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS stock_movements_append_only ON stock_movements;
+CREATE TRIGGER stock_movements_append_only
+    BEFORE UPDATE OR DELETE ON stock_movements
+    FOR EACH ROW EXECUTE FUNCTION prevent_stock_movement_changes();
+
+-- =============================================
+-- 3. LEDGER BALANCE VIEW
+-- =============================================
+CREATE OR REPLACE VIEW stock_ledger_balances AS
+SELECT
+    inventory_item_id,
+    SUM(quantity_change)::INTEGER AS ledger_quantity,
+    COUNT(*) AS movement_count,
+    MAX(performed_at) AS last_movement_at
+FROM stock_movements
+GROUP BY inventory_item_id;
+
+-- =============================================
+-- 4. INTERNAL HELPER: WRITE A LEDGER ROW
+-- =============================================
+CREATE OR REPLACE FUNCTION insert_stock_movement(
+    p_inventory_item_id INTEGER,
+    p_movement_type VARCHAR,
+    p_quantity_change INTEGER,
+    p_reason TEXT,
+    p_batch_id INTEGER,
+    p_lot_number VARCHAR,
+    p_batch_allocations JSONB,
+    p_reference_type VARCHAR,
+    p_reference_id INTEGER,
+    p_related_item_id INTEGER,
+    p_performed_by INTEGER
+)
+RETURNS stock_movements AS $$
+DECLARE
+    v_item inventory_items%ROWTYPE;
+    v_movement stock_movements%ROWTYPE;
+BEGIN
+    SELECT * INTO v_item FROM inventory_items WHERE id = p_inventory_item_id;
+
+    INSERT INTO stock_movements (
+        inventory_item_id, item_name, department, movement_type, quantity_change,
+        balance_after, batch_id, lot_number, batch_allocations, reason,
+        reference_type, reference_id, related_item_id, performed_by
+    )
+    VALUES (
+        p_inventory_item_id,
+        v_item.generic_name || COALESCE(' (' || NULLIF(v_item.brand_name, '') || ')', ''),
+        v_item.department, p_movement_type, p_quantity_change,
+        v_item.stock_quantity, p_batch_id, p_lot_number, p_batch_allocations, NULLIF(TRIM(p_reason), ''),
+        p_reference_type, p_reference_id, p_related_item_id, p_performed_by
+    )
+    RETURNING * INTO v_movement;
+
+    RETURN v_movement;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 5. INTERNAL HELPER: MOVE UNTRACKED STOCK INTO AN OPENING LOT
+-- =============================================
+-- A medicine or supply without lots (e.g. at zero stock when batches were introduced)
+-- keeps its stock on the item row. Once its first lot is inserted, the batch trigger
+-- sets stock_quantity to the sum of the lots, so the untracked units must become a lot
+-- first. Call this with the item row locked, before inserting the first lot.
+-- The units are normally in the ledger already; an 'opening' row is only written
+-- for any difference between the ledger and stock_quantity.
+CREATE OR REPLACE FUNCTION open_batch_for_untracked_stock(
+    p_inventory_item_id INTEGER,
+    p_performed_by INTEGER
+)
+RETURNS VOID AS $$
+DECLARE
+    v_item inventory_items%ROWTYPE;
+    v_batch inventory_batches%ROWTYPE;
+    v_ledger_quantity INTEGER;
+BEGIN
+    IF EXISTS (SELECT 1 FROM inventory_batches WHERE inventory_item_id = p_inventory_item_id) THEN
+        RETURN;
+    END IF;
+
+    SELECT * INTO v_item FROM inventory_items WHERE id = p_inventory_item_id;
+
+    IF NOT FOUND OR v_item.stock_quantity <= 0 THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO inventory_batches (
+        inventory_item_id, lot_number, received_date, expiration_date,
+        quantity, received_quantity, notes, created_by
+    )
+    VALUES (
+        p_inventory_item_id, 'OPENING-' || p_inventory_item_id, CURRENT_DATE, v_item.expiration_date,
+        v_item.stock_quantity, v_item.stock_quantity, 'Stock on hand before the first lot', p_performed_by
+    )
+    RETURNING * INTO v_batch;
+
+    SELECT COALESCE(SUM(quantity_change), 0) INTO v_ledger_quantity
+    FROM stock_movements
+    WHERE inventory_item_id = p_inventory_item_id;
+
+    IF v_ledger_quantity <> v_item.stock_quantity THEN
+        PERFORM insert_stock_movement(
+            p_inventory_item_id, 'opening', v_item.stock_quantity - v_ledger_quantity,
+            'Opening balance for stock held before the first lot',
+            v_batch.id, v_batch.lot_number, NULL, NULL, NULL, NULL, p_performed_by
+        );
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 6. RECORD A STOCK MOVEMENT (called via supabase.rpc)
+-- =============================================
+-- Applies the quantity change to the item (or its lots) and writes the ledger row
+-- in one transaction. For batch-tracked items:
+--   * negative changes come from p_batch_id when given, otherwise FEFO; adjustments
+--     and waste may take expired lots (e.g. disposing of expired stock), other
+--     movements only unexpired ones
+--   * positive changes go to p_batch_id when given, otherwise the most recently received lot
+CREATE OR REPLACE FUNCTION record_stock_movement(
+    p_inventory_item_id INTEGER,
+    p_movement_type VARCHAR,
+    p_quantity_change INTEGER,
+    p_reason TEXT,
+    p_batch_id INTEGER DEFAULT NULL,
+    p_performed_by INTEGER DEFAULT NULL,
+    p_reference_type VARCHAR DEFAULT NULL,
+    p_reference_id INTEGER DEFAULT NULL,
+    p_related_item_id INTEGER DEFAULT NULL
+)
+RETURNS stock_movements AS $$
+DECLARE
+    v_item inventory_items%ROWTYPE;
+    v_batch inventory_batches%ROWTYPE;
+    v_allocations JSONB;
+    v_batch_tracked BOOLEAN;
+BEGIN
+    IF p_quantity_change IS NULL OR p_quantity_change = 0 THEN
+        RAISE EXCEPTION 'Quantity change must not be zero';
+    END IF;
+
+    IF p_movement_type IN ('receive', 'transfer_in') AND p_quantity_change < 0 THEN
+        RAISE EXCEPTION '% movements must add stock', p_movement_type;
+    END IF;
+
+    IF p_movement_type IN ('dispense', 'transfer_out', 'waste') AND p_quantity_change > 0 THEN
+        RAISE EXCEPTION '% movements must remove stock', p_movement_type;
+    END IF;
+
+    SELECT * INTO v_item FROM inventory_items WHERE id = p_inventory_item_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Inventory item % not found', p_inventory_item_id;
+    END IF;
+
+    v_batch_tracked := EXISTS (SELECT 1 FROM inventory_batches WHERE inventory_item_id = p_inventory_item_id);
+
+    IF v_batch_tracked THEN
+        IF p_batch_id IS NOT NULL THEN
+            SELECT * INTO v_batch FROM inventory_batches
+            WHERE id = p_batch_id AND inventory_item_id = p_inventory_item_id
+            FOR UPDATE;
+
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'Batch % does not belong to this item', p_batch_id;
+            END IF;
+        ELSIF p_quantity_change > 0 THEN
+            SELECT * INTO v_batch FROM inventory_batches
+            WHERE inventory_item_id = p_inventory_item_id
+            ORDER BY received_date DESC, id DESC
+            LIMIT 1
+            FOR UPDATE;
+        END IF;
+
+        IF v_batch.id IS NOT NULL THEN
+            IF v_batch.quantity + p_quantity_change < 0 THEN
+                RAISE EXCEPTION 'Insufficient stock in lot %: only % available', v_batch.lot_number, v_batch.quantity;
+            END IF;
+
+            UPDATE inventory_batches
+            SET quantity = quantity + p_quantity_change
+            WHERE id = v_batch.id;
+        ELSE
+            v_allocations := consume_inventory_batches_fefo(
+                p_inventory_item_id, -p_quantity_change, p_movement_type IN ('adjust', 'waste')
+            );
+        END IF;
+    ELSE
+        IF v_item.stock_quantity + p_quantity_change < 0 THEN
+            RAISE EXCEPTION 'Insufficient stock: only % % of % available',
+                v_item.stock_quantity, COALESCE(v_item.unit_of_measurement, 'pcs'), v_item.generic_name;
+        END IF;
+
+        UPDATE inventory_items
+        SET stock_quantity = stock_quantity + p_quantity_change
+        WHERE id = p_inventory_item_id;
+    END IF;
+
+    UPDATE inventory_items
+    SET updated_at = CURRENT_TIMESTAMP,
+        updated_by = COALESCE(p_performed_by, updated_by)
+    WHERE id = p_inventory_item_id;
+
+    RETURN insert_stock_movement(
+        p_inventory_item_id, p_movement_type, p_quantity_change, p_reason,
+        v_batch.id, v_batch.lot_number, v_allocations,
+        p_reference_type, p_reference_id, p_related_item_id, p_performed_by
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 7. RECEIVE A NEW LOT (called via supabase.rpc)
+-- =============================================
+CREATE OR REPLACE FUNCTION receive_inventory_batch(
+    p_inventory_item_id INTEGER,
+    p_lot_number VARCHAR,
+    p_received_date DATE,
+    p_expiration_date DATE,
+    p_supplier VARCHAR,
+    p_quantity INTEGER,
+    p_notes TEXT,
+    p_performed_by INTEGER,
+    p_reference_type VARCHAR DEFAULT NULL,
+    p_reference_id INTEGER DEFAULT NULL
+)
+RETURNS inventory_batches AS $$
+DECLARE
+    v_batch inventory_batches%ROWTYPE;
+BEGIN
+    IF p_quantity IS NULL OR p_quantity <= 0 THEN
+        RAISE EXCEPTION 'Quantity received must be greater than zero';
+    END IF;
+
+    PERFORM 1 FROM inventory_items WHERE id = p_inventory_item_id FOR UPDATE;
+
+    PERFORM open_batch_for_untracked_stock(p_inventory_item_id, p_performed_by);
+
+    INSERT INTO inventory_batches (
+        inventory_item_id, lot_number, received_date, expiration_date,
+        supplier, quantity, received_quantity, notes, created_by
+    )
+    VALUES (
+        p_inventory_item_id, TRIM(p_lot_number), COALESCE(p_received_date, CURRENT_DATE), p_expiration_date,
+        NULLIF(TRIM(p_supplier), ''), p_quantity, p_quantity, NULLIF(TRIM(p_notes), ''), p_performed_by
+    )
+    RETURNING * INTO v_batch;
+
+    PERFORM insert_stock_movement(
+        p_inventory_item_id, 'receive', p_quantity, p_notes,
+        v_batch.id, v_batch.lot_number, NULL,
+        p_reference_type, p_reference_id, NULL, p_performed_by
+    );
+
+    RETURN v_batch;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 8. TRANSFER BETWEEN DEPARTMENTS (called via supabase.rpc)
+-- =============================================
+-- Moves stock from an item in one department to the matching item in the other.
+-- Lots keep their lot number and expiry on the receiving side.
+CREATE OR REPLACE FUNCTION transfer_stock(
+    p_from_item_id INTEGER,
+    p_to_item_id INTEGER,
+    p_quantity INTEGER,
+    p_reason TEXT,
+    p_performed_by INTEGER
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_from inventory_items%ROWTYPE;
+    v_to inventory_items%ROWTYPE;
+    v_out stock_movements%ROWTYPE;
+    v_in stock_movements%ROWTYPE;
+    v_allocation JSONB;
+BEGIN
+    IF p_quantity IS NULL OR p_quantity <= 0 THEN
+        RAISE EXCEPTION 'Quantity to transfer must be greater than zero';
+    END IF;
+
+    -- Lock both items in id order to avoid deadlocks between opposite transfers
+    PERFORM 1 FROM inventory_items WHERE id IN (p_from_item_id, p_to_item_id) ORDER BY id FOR UPDATE;
+
+    SELECT * INTO v_from FROM inventory_items WHERE id = p_from_item_id;
+    SELECT * INTO v_to FROM inventory_items WHERE id = p_to_item_id;
+
+    IF v_from.id IS NULL OR v_to.id IS NULL THEN
+        RAISE EXCEPTION 'Both source and destination items must exist';
+    END IF;
+
+    IF v_from.department = v_to.department THEN
+        RAISE EXCEPTION 'Transfers must be between the medical and dental departments';
+    END IF;
+
+    IF v_from.classification_id IS DISTINCT FROM v_to.classification_id THEN
+        RAISE EXCEPTION 'Source and destination items must have the same classification';
+    END IF;
+
+    v_out := record_stock_movement(
+        p_from_item_id, 'transfer_out', -p_quantity, p_reason, NULL, p_performed_by,
+        'transfer', NULL, p_to_item_id
+    );
+
+    IF v_out.batch_allocations IS NOT NULL THEN
+        PERFORM open_batch_for_untracked_stock(p_to_item_id, p_performed_by);
+
+        -- Recreate the consumed lots under the destination item
+        FOR v_allocation IN SELECT * FROM jsonb_array_elements(v_out.batch_allocations)
+        LOOP
+            INSERT INTO inventory_batches (
+                inventory_item_id, lot_number, received_date, expiration_date,
+                supplier, quantity, received_quantity, notes, created_by
+            )
+            SELECT
+                p_to_item_id, b.lot_number, CURRENT_DATE, b.expiration_date,
+                b.supplier, (v_allocation->>'quantity')::INTEGER, (v_allocation->>'quantity')::INTEGER,
+                'Transferred from ' || v_from.department, p_performed_by
+            FROM inventory_batches b
+            WHERE b.id = (v_allocation->>'batch_id')::INTEGER
+            ON CONFLICT (inventory_item_id, lot_number)
+            DO UPDATE SET quantity = inventory_batches.quantity + EXCLUDED.quantity,
+                          received_quantity = inventory_batches.received_quantity + EXCLUDED.received_quantity;
+        END LOOP;
+
+        SELECT * INTO v_to FROM inventory_items WHERE id = p_to_item_id;
+
+        v_in := insert_stock_movement(
+            p_to_item_id, 'transfer_in', p_quantity, p_reason, NULL, NULL, v_out.batch_allocations,
+            'transfer', v_out.id, p_from_item_id, p_performed_by
+        );
+    ELSE
+        v_in := record_stock_movement(
+            p_to_item_id, 'transfer_in', p_quantity, p_reason, NULL, p_performed_by,
+            'transfer', v_out.id, p_from_item_id
+        );
+    END IF;
+
+    RETURN jsonb_build_object('transfer_out', to_jsonb(v_out), 'transfer_in', to_jsonb(v_in));
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 9. DISPENSING WRITES A LEDGER ROW
+-- =============================================
+CREATE OR REPLACE FUNCTION dispense_medication(
+    p_consultation_id INTEGER,
+    p_patient_id INTEGER,
+    p_inventory_item_id INTEGER,
+    p_quantity INTEGER,
+    p_dosage_instructions TEXT,
+    p_dispensed_by INTEGER
+)
+RETURNS medication_dispenses AS $$
+DECLARE
+    v_item inventory_items%ROWTYPE;
+    v_movement stock_movements%ROWTYPE;
+    v_dispense medication_dispenses%ROWTYPE;
+BEGIN
+    IF p_quantity IS NULL OR p_quantity <= 0 THEN
+        RAISE EXCEPTION 'Quantity to dispense must be greater than zero';
+    END IF;
+
+    SELECT * INTO v_item FROM inventory_items WHERE id = p_inventory_item_id;
+
+    IF NOT FOUND OR v_item.status = 'archived' THEN
+        RAISE EXCEPTION 'Inventory item % not found', p_inventory_item_id;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM inventory_batches WHERE inventory_item_id = p_inventory_item_id)
+       AND v_item.expiration_date IS NOT NULL AND v_item.expiration_date < CURRENT_DATE THEN
+        RAISE EXCEPTION '% is expired and cannot be dispensed', v_item.generic_name;
+    END IF;
+
+    INSERT INTO medication_dispenses (
+        consultation_id, patient_id, inventory_item_id, item_name,
+        unit_of_measurement, quantity, dosage_instructions, dispensed_by
+    )
+    VALUES (
+        p_consultation_id, p_patient_id, p_inventory_item_id,
+        v_item.generic_name || COALESCE(' (' || NULLIF(v_item.brand_name, '') || ')', ''),
+        v_item.unit_of_measurement, p_quantity, p_dosage_instructions, p_dispensed_by
+    )
+    RETURNING * INTO v_dispense;
+
+    -- Decrements stock (FEFO for batch-tracked items) and links the ledger row to the dispense
+    v_movement := record_stock_movement(
+        p_inventory_item_id, 'dispense', -p_quantity, p_dosage_instructions, NULL, p_dispensed_by,
+        'medication_dispense', v_dispense.id, NULL
+    );
+
+    UPDATE medication_dispenses
+    SET batch_allocations = v_movement.batch_allocations
+    WHERE id = v_dispense.id
+    RETURNING * INTO v_dispense;
+
+    RETURN v_dispense;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 10. OPENING BALANCES FOR EXISTING STOCK
+-- =============================================
+INSERT INTO stock_movements (
+    inventory_item_id, item_name, department, movement_type,
+    quantity_change, balance_after, reason
+)
+SELECT
+    i.id,
+    i.generic_name || COALESCE(' (' || NULLIF(i.brand_name, '') || ')', ''),
+    i.department,
+    'opening',
+    i.stock_quantity,
+    i.stock_quantity,
+    'Opening balance at ledger start'
+FROM inventory_items i
+WHERE i.stock_quantity <> 0
+  AND NOT EXISTS (SELECT 1 FROM stock_movements m WHERE m.inventory_item_id = i.id);
+
+-- =============================================
+-- 11. CREATE AN ITEM WITH ITS OPENING STOCK (called via supabase.rpc)
+-- =============================================
+-- Inserts the item, its opening lot (medicines and supplies) and the 'opening' ledger
+-- row in one transaction, so a failure cannot leave stock outside the ledger.
+-- p_item holds the inventory_items columns plus the opening lot's lot_number and supplier;
+-- status is computed by the caller.
+CREATE OR REPLACE FUNCTION create_inventory_item(
+    p_item JSONB,
+    p_performed_by INTEGER
+)
+RETURNS inventory_items AS $$
+DECLARE
+    v_item inventory_items%ROWTYPE;
+    v_batch inventory_batches%ROWTYPE;
+    v_classification VARCHAR;
+    v_quantity INTEGER;
+BEGIN
+    v_quantity := COALESCE(NULLIF(p_item->>'stock_quantity', '')::INTEGER, 0);
+
+    IF v_quantity < 0 THEN
+        RAISE EXCEPTION 'Stock quantity cannot be negative';
+    END IF;
+
+    SELECT LOWER(name) INTO v_classification
+    FROM inventory_classifications
+    WHERE id = NULLIF(p_item->>'classification_id', '')::INTEGER;
+
+    INSERT INTO inventory_items (
+        generic_name, brand_name, code, category, classification_id, department,
+        stock_quantity, stock_threshold, unit_of_measurement, expiration_date,
+        status, notes, created_by, updated_by
+    )
+    VALUES (
+        p_item->>'generic_name',
+        NULLIF(p_item->>'brand_name', ''),
+        NULLIF(p_item->>'code', ''),
+        NULLIF(p_item->>'category', ''),
+        NULLIF(p_item->>'classification_id', '')::INTEGER,
+        p_item->>'department',
+        v_quantity,
+        COALESCE(NULLIF(p_item->>'stock_threshold', '')::INTEGER, 0),
+        COALESCE(NULLIF(p_item->>'unit_of_measurement', ''), 'pcs'),
+        NULLIF(p_item->>'expiration_date', '')::DATE,
+        COALESCE(NULLIF(p_item->>'status', ''), 'active'),
+        NULLIF(p_item->>'notes', ''),
+        p_performed_by,
+        p_performed_by
+    )
+    RETURNING * INTO v_item;
+
+    IF v_quantity > 0 AND COALESCE(v_classification, 'medicines') <> 'equipment' THEN
+        INSERT INTO inventory_batches (
+            inventory_item_id, lot_number, received_date, expiration_date,
+            supplier, quantity, received_quantity, created_by
+        )
+        VALUES (
+            v_item.id,
+            COALESCE(NULLIF(TRIM(p_item->>'lot_number'), ''), 'INITIAL-' || v_item.id),
+            CURRENT_DATE,
+            v_item.expiration_date,
+            NULLIF(TRIM(p_item->>'supplier'), ''),
+            v_quantity,
+            v_quantity,
+            p_performed_by
+        )
+        RETURNING * INTO v_batch;
+    END IF;
+
+    IF v_quantity > 0 THEN
+        PERFORM insert_stock_movement(
+            v_item.id, 'opening', v_quantity, 'Opening balance on item creation',
+            v_batch.id, v_batch.lot_number, NULL,
+            NULL, NULL, NULL, p_performed_by
+        );
+    END IF;
+
+    SELECT * INTO v_item FROM inventory_items WHERE id = v_item.id;
+    RETURN v_item;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- NOTES
+-- =============================================
+-- Quantities must only change through these functions so that
+-- stock_ledger_balances.ledger_quantity always equals inventory_items.stock_quantity.
+-- Medicines and supplies without lots change stock on the item row until their first
+-- lot is received or transferred in; open_batch_for_untracked_stock then carries that
+-- stock into an opening lot.
@@ -4,6 +4,11 @@ import { AuthProvider, useAuth } from './contexts/AuthContext';
 import LoginForm from './components/LoginForm';
 import DashboardPage from './components/Pages/DashboardPage';
 import PatientMonitoringPage from './components/Pages/PatientMonitoringPage';
+import AppointmentsPage from './components/Pages/AppointmentsPage';
+import QueuePage from './components/Pages/QueuePage';
+import QueueBoardPage from './components/Pages/QueueBoardPage';
+import IncidentsPage from './components/Pages/IncidentsPage';
+import HealthStatisticsPage from './components/Pages/HealthStatisticsPage';
 import InventoryPage from './components/Pages/InventoryPage';
 import ArchivesPage from './components/Pages/ArchivesPage';
 import LogsPage from './components/Pages/LogsPage';
@@ -76,6 +81,55 @@ const AppContent: React.FC = () => {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/appointments"
+        element={
+          <ProtectedRoute>
+            <DashboardPage>
+              <AppointmentsPage />
+            </DashboardPage>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/queue"
+        element={
+          <ProtectedRoute>
+            <DashboardPage>
+              <QueuePage />
+            </DashboardPage>
+          </ProtectedRoute>
+        }
+      />
+      {/* Full-screen waiting area display, no sidebar */}
+      <Route
+        path="/queue/board"
+        element={
+          <ProtectedRoute>
+            <QueueBoardPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/incidents"
+        element={
+          <ProtectedRoute>
+            <DashboardPage>
+              <IncidentsPage />
+            </DashboardPage>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/health-statistics"
+        element={
+          <ProtectedRoute>
+            <DashboardPage>
+              <HealthStatisticsPage />
+            </DashboardPage>
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/inventory"
         element={
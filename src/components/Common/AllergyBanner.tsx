@@ -0,0 +1,52 @@
+import React from 'react';
+import { type MedicalHistory } from '../../services/supabaseService';
+import { parseAllergies } from '../../services/drugSafetyService';
+import './AllergyBanner.css';
+
+interface AllergyBannerProps {
+  medicalHistory: MedicalHistory | null;
+  // Medical history is still loading; avoids flashing "no allergies recorded"
+  loading?: boolean;
+}
+
+const AllergyBanner: React.FC<AllergyBannerProps> = ({ medicalHistory, loading = false }) => {
+  if (loading) return null;
+
+  const drugAllergies = parseAllergies(medicalHistory?.drug_allergies);
+  const otherAllergies = [
+    ...parseAllergies(medicalHistory?.food_allergies),
+    ...parseAllergies(medicalHistory?.other_allergies)
+  ];
+
+  if (drugAllergies.length === 0 && otherAllergies.length === 0) {
+    return (
+      <div className="allergy-banner none">
+        <span className="allergy-banner-title">Allergies</span>
+        <span>{medicalHistory ? 'No known allergies recorded' : 'No medical history recorded - ask about allergies'}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="allergy-banner" role="alert">
+      <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+        <path d="M10.29 3.86L1.82 18a2 2 0 0 0 1.71 3h16.94a2 2 0 0 0 1.71-3L13.71 3.86a2 2 0 0 0-3.42 0z"/>
+        <line x1="12" y1="9" x2="12" y2="13"/>
+        <line x1="12" y1="17" x2="12.01" y2="17"/>
+      </svg>
+      <span className="allergy-banner-title">Allergies</span>
+      {drugAllergies.length > 0 && (
+        <span className="allergy-banner-group">
+          <strong>Drug:</strong> {drugAllergies.join(', ')}
+        </span>
+      )}
+      {otherAllergies.length > 0 && (
+        <span className="allergy-banner-group">
+          <strong>Other:</strong> {otherAllergies.join(', ')}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default AllergyBanner;
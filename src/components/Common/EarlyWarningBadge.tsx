@@ -0,0 +1,33 @@
+import React from 'react';
+import {
+  EARLY_WARNING_RISK_LABELS,
+  EARLY_WARNING_RISK_ACTIONS,
+  type EarlyWarningRisk
+} from '../../services/earlyWarningService';
+import './EarlyWarningBadge.css';
+
+interface EarlyWarningBadgeProps {
+  score?: number | null;
+  risk?: EarlyWarningRisk | null;
+  compact?: boolean;
+}
+
+const EarlyWarningBadge: React.FC<EarlyWarningBadgeProps> = ({
+  score,
+  risk,
+  compact = false
+}) => {
+  if (score === null || score === undefined || !risk) return null;
+
+  return (
+    <span
+      className={`early-warning-badge ${risk} ${compact ? 'compact' : ''}`}
+      title={`NEWS2 ${score} - ${EARLY_WARNING_RISK_LABELS[risk]} risk: ${EARLY_WARNING_RISK_ACTIONS[risk]}`}
+    >
+      NEWS2 {score}
+      {!compact && <span className="early-warning-risk">{EARLY_WARNING_RISK_LABELS[risk]}</span>}
+    </span>
+  );
+};
+
+export default EarlyWarningBadge;
@@ -0,0 +1,164 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { notificationService, type InventoryNotification } from '../../services/notificationService';
+import { useAuth } from '../../contexts/AuthContext';
+import NotificationRulesModal from '../Modals/NotificationRulesModal';
+import './NotificationBell.css';
+
+// How often rules are re-evaluated and the inbox refreshed while the app is open
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+const formatTimeAgo = (timestamp: string) => {
+  const minutes = Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  return days < 7 ? `${days}d ago` : new Date(timestamp).toLocaleDateString();
+};
+
+const NotificationBell: React.FC = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<InventoryNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isRulesModalOpen, setIsRulesModalOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const bellRef = useRef<HTMLDivElement>(null);
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      const [list, count] = await Promise.all([
+        notificationService.getNotifications(),
+        notificationService.getUnreadCount()
+      ]);
+      setNotifications(list);
+      setUnreadCount(count);
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    }
+  }, []);
+
+  const refresh = useCallback(async () => {
+    try {
+      setLoading(true);
+      await notificationService.generateNotifications();
+    } catch (error) {
+      console.error('Error generating notifications:', error);
+    } finally {
+      await loadNotifications();
+      setLoading(false);
+    }
+  }, [loadNotifications]);
+
+  useEffect(() => {
+    if (!user) return;
+    refresh();
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [user, refresh]);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (bellRef.current && !bellRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const handleNotificationClick = async (notification: InventoryNotification) => {
+    try {
+      if (!notification.is_read) {
+        await notificationService.markAsRead(notification.id);
+        await loadNotifications();
+      }
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+    }
+    if (notification.link) {
+      setIsOpen(false);
+      navigate(notification.link);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await notificationService.markAllAsRead();
+      await loadNotifications();
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+    }
+  };
+
+  if (!user) return null;
+
+  return (
+    <div className="notification-bell" ref={bellRef}>
+      <button
+        className="notification-bell-btn"
+        onClick={() => setIsOpen(prev => !prev)}
+        aria-label={`Notifications${unreadCount > 0 ? ` (${unreadCount} unread)` : ''}`}
+      >
+        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d="M18 8A6 6 0 0 0 6 8c0 7-3 9-3 9h18s-3-2-3-9"/>
+          <path d="M13.73 21a2 2 0 0 1-3.46 0"/>
+        </svg>
+        {unreadCount > 0 && (
+          <span className="notification-count">{unreadCount > 99 ? '99+' : unreadCount}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="notification-dropdown">
+          <div className="notification-dropdown-header">
+            <h3>Notifications</h3>
+            <div className="notification-header-actions">
+              <button onClick={refresh} disabled={loading}>{loading ? 'Checking...' : 'Refresh'}</button>
+              {unreadCount > 0 && <button onClick={handleMarkAllRead}>Mark all read</button>}
+            </div>
+          </div>
+
+          <div className="notification-list">
+            {notifications.length === 0 ? (
+              <div className="notification-empty">You're all caught up.</div>
+            ) : (
+              notifications.map(notification => (
+                <button
+                  key={notification.id}
+                  className={`notification-item ${notification.severity} ${notification.is_read ? 'read' : 'unread'}`}
+                  onClick={() => handleNotificationClick(notification)}
+                >
+                  <span className="notification-severity-dot" />
+                  <span className="notification-content">
+                    <span className="notification-title">{notification.title}</span>
+                    <span className="notification-message">{notification.message}</span>
+                    <span className="notification-time">{formatTimeAgo(notification.created_at)}</span>
+                  </span>
+                </button>
+              ))
+            )}
+          </div>
+
+          {user.role === 'superadmin' && (
+            <div className="notification-dropdown-footer">
+              <button onClick={() => { setIsOpen(false); setIsRulesModalOpen(true); }}>Manage alert rules</button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {isRulesModalOpen && <NotificationRulesModal
+        onClose={() => setIsRulesModalOpen(false)}
+        onRulesChanged={refresh}
+      />}
+    </div>
+  );
+};
+
+export default NotificationBell;
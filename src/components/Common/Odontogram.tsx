@@ -0,0 +1,104 @@
+import React from 'react';
+import {
+  DENTAL_CONDITIONS,
+  PERMANENT_TEETH_ROWS,
+  PRIMARY_TEETH_ROWS,
+  getDentalCondition,
+  type ToothSurface
+} from '../../constants/dentalChart';
+import {
+  describeToothState,
+  getSurfaceLayout,
+  type DentalChart
+} from '../../services/dentalChartService';
+import './Odontogram.css';
+
+interface OdontogramProps {
+  chart: DentalChart;
+  showPrimary?: boolean;
+  selectedTooth?: number | null;
+  // Outlined, e.g. teeth charted this visit or changed since the compared visit
+  highlightedTeeth?: number[];
+  onSelectTooth?: (toothNumber: number) => void;
+}
+
+// Each tooth is a square split into four sides around the occlusal centre
+const SIDE_POINTS = {
+  top: '0,0 40,0 28,12 12,12',
+  right: '40,0 40,40 28,28 28,12',
+  bottom: '0,40 12,28 28,28 40,40',
+  left: '0,0 12,12 12,28 0,40'
+};
+
+const Odontogram: React.FC<OdontogramProps> = ({
+  chart,
+  showPrimary = false,
+  selectedTooth,
+  highlightedTeeth = [],
+  onSelectTooth
+}) => {
+  const renderTooth = (toothNumber: number, beforeMidline: boolean) => {
+    const state = chart[toothNumber];
+    const whole = state?.whole ? getDentalCondition(state.whole) : null;
+    const layout = getSurfaceLayout(toothNumber);
+    const fillFor = (surface: ToothSurface) =>
+      whole ? whole.color : state?.surfaces[surface] ? getDentalCondition(state.surfaces[surface]!).color : '#ffffff';
+    const crossedOut = state?.whole === 'missing' || state?.whole === 'extraction_indicated';
+    const upper = [1, 2, 5, 6].includes(Math.floor(toothNumber / 10));
+
+    const label = <span className="odontogram-tooth-number">{toothNumber}</span>;
+    const abbreviation = <span className="odontogram-tooth-abbreviation">{whole?.abbreviation || '\u00a0'}</span>;
+
+    return (
+      <button
+        key={toothNumber}
+        type="button"
+        className={`odontogram-tooth ${beforeMidline ? 'before-midline' : ''} ${selectedTooth === toothNumber ? 'selected' : ''} ${highlightedTeeth.includes(toothNumber) ? 'highlighted' : ''}`}
+        onClick={() => onSelectTooth?.(toothNumber)}
+        disabled={!onSelectTooth}
+        title={`Tooth ${toothNumber}: ${describeToothState(state)}`}
+      >
+        {upper ? label : abbreviation}
+        <svg width="32" height="32" viewBox="0 0 40 40">
+          {(Object.keys(SIDE_POINTS) as (keyof typeof SIDE_POINTS)[]).map(side => (
+            <polygon key={side} points={SIDE_POINTS[side]} fill={fillFor(layout[side])} stroke="#6b7280" strokeWidth="1" />
+          ))}
+          <rect x="12" y="12" width="16" height="16" fill={fillFor('O')} stroke="#6b7280" strokeWidth="1" />
+          {crossedOut && (
+            <g stroke={state?.whole === 'missing' ? '#374151' : '#dc2626'} strokeWidth="3">
+              <line x1="2" y1="2" x2="38" y2="38" />
+              <line x1="38" y1="2" x2="2" y2="38" />
+            </g>
+          )}
+        </svg>
+        {upper ? abbreviation : label}
+      </button>
+    );
+  };
+
+  const renderRows = (rows: number[][]) => rows.map((row, index) => (
+    <div key={index} className="odontogram-row">
+      {row.map((toothNumber, position) => renderTooth(toothNumber, position === row.length / 2 - 1))}
+    </div>
+  ));
+
+  return (
+    <div className="odontogram">
+      {/* Primary teeth sit inside the permanent arches, as on a paper chart */}
+      <div className="odontogram-arch">{renderRows([PERMANENT_TEETH_ROWS[0]])}</div>
+      {showPrimary && <div className="odontogram-arch primary">{renderRows(PRIMARY_TEETH_ROWS)}</div>}
+      <div className="odontogram-arch">{renderRows([PERMANENT_TEETH_ROWS[1]])}</div>
+
+      <div className="odontogram-legend">
+        {DENTAL_CONDITIONS.filter(condition => condition.key !== 'sound').map(condition => (
+          <span key={condition.key} className="odontogram-legend-item">
+            <span className="odontogram-legend-swatch" style={{ background: condition.color }} />
+            {condition.label}{condition.whole_tooth ? ` (${condition.abbreviation})` : ''}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default Odontogram;
@@ -2,6 +2,7 @@ import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { universalSearchService, SearchResult, UniversalSearchResponse } from '../../services/universalSearchService';
 import { debounce } from '../../hooks/usePerformanceMonitor';
+import { useBarcodeScanner } from '../../hooks/useBarcodeScanner';
 import './UniversalSearch.css';
 
 interface UniversalSearchProps {
@@ -19,6 +20,7 @@ const UniversalSearch: React.FC<UniversalSearchProps> = ({
   const [isOpen, setIsOpen] = useState(false);
   const [selectedIndex, setSelectedIndex] = useState(-1);
   const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  const [isScanMode, setIsScanMode] = useState(false);
 
   const searchRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -94,6 +96,46 @@ const UniversalSearch: React.FC<UniversalSearchProps> = ({
     onResultSelect?.(result);
   }, [navigate, query, saveRecentSearch, onResultSelect]);
 
+  // Jump straight to the inventory item whose code was scanned or typed exactly.
+  // Returns false when no single item matches so the caller can fall back to searching.
+  const openScannedCode = useCallback(async (code: string) => {
+    try {
+      const matches = await universalSearchService.findInventoryByCode(code);
+      if (matches.length === 1) {
+        handleResultSelect(matches[0]);
+        return true;
+      }
+      if (matches.length > 1) {
+        // Same code stocked in both departments - let the user pick
+        setQuery(code);
+        setResults({
+          query: code,
+          totalResults: matches.length,
+          categories: [{ name: `Items with code ${code}`, results: matches, total: matches.length }],
+          suggestions: []
+        });
+        setSelectedIndex(0);
+        setIsOpen(true);
+        return true;
+      }
+    } catch (error) {
+      console.error('Error looking up scanned code:', error);
+    }
+    return false;
+  }, [handleResultSelect]);
+
+  const handleScan = useCallback(async (code: string) => {
+    const found = await openScannedCode(code);
+    if (!found) {
+      setQuery(code);
+      setIsOpen(true);
+      debouncedSearch(code);
+      inputRef.current?.focus();
+    }
+  }, [openScannedCode, debouncedSearch]);
+
+  useBarcodeScanner(handleScan, { enabled: isScanMode });
+
   // Handle recent search selection
   const handleRecentSearchSelect = useCallback((recentQuery: string) => {
     setQuery(recentQuery);
@@ -134,7 +176,11 @@ const UniversalSearch: React.FC<UniversalSearchProps> = ({
         if (selectedIndex >= 0 && allResults[selectedIndex]) {
           handleResultSelect(allResults[selectedIndex]);
         } else if (query.trim()) {
-          saveRecentSearch(query);
+          // Scanners typing into the focused search bar end with Enter
+          const scannedCode = query.trim();
+          openScannedCode(scannedCode).then(found => {
+            if (!found) saveRecentSearch(scannedCode);
+          });
         }
         break;
 
@@ -147,7 +193,7 @@ const UniversalSearch: React.FC<UniversalSearchProps> = ({
       default:
         break;
     }
-  }, [isOpen, selectedIndex, getAllResults, handleResultSelect, query, saveRecentSearch]);
+  }, [isOpen, selectedIndex, getAllResults, handleResultSelect, query, saveRecentSearch, openScannedCode]);
 
   // Handle input focus
   const handleInputFocus = useCallback(() => {
@@ -219,6 +265,21 @@ const UniversalSearch: React.FC<UniversalSearchProps> = ({
           </div>
         )}
 
+        <button
+          className={`search-scan-toggle ${isScanMode ? 'active' : ''}`}
+          onClick={() => setIsScanMode(prev => !prev)}
+          title={isScanMode ? 'Scan mode on - scan a label to open the item' : 'Turn on scan mode'}
+          aria-pressed={isScanMode}
+        >
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M3 7V5a2 2 0 0 1 2-2h2"/>
+            <path d="M17 3h2a2 2 0 0 1 2 2v2"/>
+            <path d="M21 17v2a2 2 0 0 1-2 2h-2"/>
+            <path d="M7 21H5a2 2 0 0 1-2-2v-2"/>
+            <line x1="7" y1="12" x2="17" y2="12"/>
+          </svg>
+        </button>
+
         {query && (
           <button className="search-clear" onClick={clearSearch}>
             <svg width="16" height="16" viewBox="0 0 24 24" fill="none">
@@ -57,6 +57,66 @@ const SideBar: React.FC<SideBarProps> = ({ collapsed, userRole, onToggleSidebar,
         </svg>
       )
     },
+    {
+      id: 'queue',
+      label: 'Walk-in Queue',
+      shortLabel: 'Queue',
+      path: '/queue',
+      group: 'main',
+      icon: (
+        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <line x1="8" y1="6" x2="21" y2="6"/>
+          <line x1="8" y1="12" x2="21" y2="12"/>
+          <line x1="8" y1="18" x2="21" y2="18"/>
+          <line x1="3" y1="6" x2="3.01" y2="6"/>
+          <line x1="3" y1="12" x2="3.01" y2="12"/>
+          <line x1="3" y1="18" x2="3.01" y2="18"/>
+        </svg>
+      )
+    },
+    {
+      id: 'appointments',
+      label: 'Appointments',
+      shortLabel: 'Calendar',
+      path: '/appointments',
+      group: 'main',
+      icon: (
+        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <rect x="3" y="4" width="18" height="18" rx="2" ry="2"/>
+          <line x1="16" y1="2" x2="16" y2="6"/>
+          <line x1="8" y1="2" x2="8" y2="6"/>
+          <line x1="3" y1="10" x2="21" y2="10"/>
+        </svg>
+      )
+    },
+    {
+      id: 'incidents',
+      label: 'Incident Register',
+      shortLabel: 'Incidents',
+      path: '/incidents',
+      group: 'main',
+      icon: (
+        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d="M10.29 3.86L1.82 18a2 2 0 0 0 1.71 3h16.94a2 2 0 0 0 1.71-3L13.71 3.86a2 2 0 0 0-3.42 0z"/>
+          <line x1="12" y1="9" x2="12" y2="13"/>
+          <line x1="12" y1="17" x2="12.01" y2="17"/>
+        </svg>
+      )
+    },
+    {
+      id: 'health-statistics',
+      label: 'Health Statistics',
+      shortLabel: 'Statistics',
+      path: '/health-statistics',
+      group: 'main',
+      icon: (
+        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <line x1="18" y1="20" x2="18" y2="10"/>
+          <line x1="12" y1="20" x2="12" y2="4"/>
+          <line x1="6" y1="20" x2="6" y2="14"/>
+        </svg>
+      )
+    },
     {
       id: 'inventory',
       label: 'Inventory Management',
@@ -1,5 +1,6 @@
 import React from 'react';
 import UniversalSearch from '../Common/UniversalSearch';
+import NotificationBell from '../Common/NotificationBell';
 import { useAuth } from '../../contexts/AuthContext';
 import './TopBar.css';
 
@@ -37,8 +38,9 @@ const TopBar: React.FC<TopBarProps> = ({ onToggleSidebar, isMobile = false }) =>
         />
       </div>
 
-      {/* User Role */}
+      {/* Notifications and User Role */}
       <div className="topbar-right">
+        <NotificationBell />
         <div className="user-role-badge">
           {user?.role?.charAt(0).toUpperCase()}{user?.role?.slice(1)}
         </div>
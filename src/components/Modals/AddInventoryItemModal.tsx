@@ -106,6 +106,19 @@ const AddInventoryItemModal: React.FC<AddInventoryItemModalProps> = ({ onClose,
                 <input type="date" id="expiration_date" name="expiration_date" onChange={handleChange} />
               </div>
             )}
+            {/* Initial stock of medicines and supplies is recorded as the first batch */}
+            {(activeClassificationTab || 'medicines') !== 'equipment' && (
+              <>
+                <div className="form-group">
+                  <label htmlFor="lot_number">Lot Number</label>
+                  <input type="text" id="lot_number" name="lot_number" onChange={handleChange} placeholder="Lot/batch number of the initial stock" />
+                </div>
+                <div className="form-group">
+                  <label htmlFor="supplier">Supplier</label>
+                  <input type="text" id="supplier" name="supplier" onChange={handleChange} />
+                </div>
+              </>
+            )}
             <div className="form-group">
               <label htmlFor="notes">Notes</label>
               <textarea id="notes" name="notes" onChange={handleChange} placeholder="Additional notes or descriptions"></textarea>
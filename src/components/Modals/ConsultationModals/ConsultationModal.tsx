@@ -5,11 +5,62 @@ import {
   type Consultation,
   type VitalSigns,
   type GlasgowComaScale,
-  type ConsultationAttachment
+  type ConsultationAttachment,
+  type MedicalHistory
 } from '../../../services/supabaseService';
 import VitalSignsModal from './VitalSignsModal';
 import GlasgowComaScaleModal from './GlasgowComaScaleModal';
 import ConsultationAttachmentsModal from './ConsultationAttachmentsModal';
+import DispenseMedicationModal from './DispenseMedicationModal';
+import DiagnosisPicker from './DiagnosisPicker';
+import PrescriptionModal from './PrescriptionModal';
+import IssueDocumentModal from './IssueDocumentModal';
+import ReferralModal from './ReferralModal';
+import ReferralStatusModal, { type ReferralStatusAction } from './ReferralStatusModal';
+import ScheduleFollowUpModal from './ScheduleFollowUpModal';
+import DentalChartEntryModal from './DentalChartEntryModal';
+import IncidentReportModal from './IncidentReportModal';
+import { dispensingService, type MedicationDispense } from '../../../services/dispensingService';
+import {
+  prescriptionService,
+  PRESCRIPTION_STATUS_LABELS,
+  type Prescription
+} from '../../../services/prescriptionService';
+import {
+  medicalDocumentService,
+  MEDICAL_DOCUMENT_TYPE_LABELS,
+  type MedicalDocument
+} from '../../../services/medicalDocumentService';
+import {
+  referralService,
+  REFERRAL_STATUS_LABELS,
+  REFERRAL_URGENCY_LABELS,
+  OPEN_REFERRAL_STATUSES,
+  type Referral
+} from '../../../services/referralService';
+import {
+  appointmentService,
+  APPOINTMENT_STATUS_LABELS,
+  formatAppointmentTime,
+  type Appointment
+} from '../../../services/appointmentService';
+import {
+  dentalChartService,
+  formatSurfaces,
+  getChartAsOfVisit,
+  type DentalChartEntry
+} from '../../../services/dentalChartService';
+import {
+  incidentReportService,
+  getInjuryLabels,
+  type IncidentReport
+} from '../../../services/incidentReportService';
+import { getDentalCondition } from '../../../constants/dentalChart';
+import { INCIDENT_DISPOSITION_LABELS, INJURY_MECHANISM_LABELS } from '../../../constants/incidents';
+import { exportService } from '../../../services/exportService';
+import EarlyWarningBadge from '../../Common/EarlyWarningBadge';
+import AllergyBanner from '../../Common/AllergyBanner';
+import Odontogram from '../../Common/Odontogram';
 import '../PatientModals/PatientModals.css';
 
 interface ConsultationModalProps {
@@ -56,15 +107,34 @@ const ConsultationModal: React.FC<ConsultationModalProps> = ({
   const [vitalSigns, setVitalSigns] = useState<VitalSigns[]>([]);
   const [glasgowComaScale, setGlasgowComaScale] = useState<GlasgowComaScale[]>([]);
   const [attachments, setAttachments] = useState<ConsultationAttachment[]>([]);
+  const [dispenses, setDispenses] = useState<MedicationDispense[]>([]);
+  const [prescriptions, setPrescriptions] = useState<Prescription[]>([]);
+  const [medicalDocuments, setMedicalDocuments] = useState<MedicalDocument[]>([]);
+  const [referrals, setReferrals] = useState<Referral[]>([]);
+  const [followUps, setFollowUps] = useState<Appointment[]>([]);
+  const [incidentReports, setIncidentReports] = useState<IncidentReport[]>([]);
+  const [dentalChartEntries, setDentalChartEntries] = useState<DentalChartEntry[]>([]);
+  const [showPrimaryTeeth, setShowPrimaryTeeth] = useState(false);
+  const [medicalHistory, setMedicalHistory] = useState<MedicalHistory | null>(null);
+  const [medicalHistoryLoaded, setMedicalHistoryLoaded] = useState(false);
 
   // Modal states
   const [vitalSignsModalOpen, setVitalSignsModalOpen] = useState(false);
   const [glasgowModalOpen, setGlasgowModalOpen] = useState(false);
   const [attachmentsModalOpen, setAttachmentsModalOpen] = useState(false);
+  const [dispenseModalOpen, setDispenseModalOpen] = useState(false);
+  const [prescriptionModalOpen, setPrescriptionModalOpen] = useState(false);
+  const [issueDocumentModalOpen, setIssueDocumentModalOpen] = useState(false);
+  const [referralModalOpen, setReferralModalOpen] = useState(false);
+  const [referralStatusAction, setReferralStatusAction] = useState<{ referral: Referral; action: ReferralStatusAction } | null>(null);
+  const [followUpModalOpen, setFollowUpModalOpen] = useState(false);
+  const [incidentReportModalOpen, setIncidentReportModalOpen] = useState(false);
+  const [chartingTooth, setChartingTooth] = useState<number | null>(null);
 
   // Edit states
   const [editingVitalSigns, setEditingVitalSigns] = useState<VitalSigns | null>(null);
   const [editingGlasgow, setEditingGlasgow] = useState<GlasgowComaScale | null>(null);
+  const [editingPrescription, setEditingPrescription] = useState<Prescription | null>(null);
 
   // Load consultation data when modal opens
   const loadConsultationData = useCallback(async () => {
@@ -74,16 +144,38 @@ const ConsultationModal: React.FC<ConsultationModalProps> = ({
       setLoading(true);
       setError(null);
 
-      // Load vital signs, Glasgow Coma Scale, and attachments data
-      const [vitalSignsData, glasgowData, attachmentsData] = await Promise.all([
+      // Load vital signs, Glasgow Coma Scale, attachments, dispensed medications, prescriptions,
+      // issued documents, referrals, follow-ups, incident reports, the patient's medical history (for the
+      // allergy banner) and, for dental visits, the patient's dental chart history
+      const [vitalSignsData, glasgowData, attachmentsData, dispensesData, prescriptionsData, documentsData, referralsData, followUpsData, incidentReportsData, medicalHistoryData, dentalChartData] = await Promise.all([
         patientMonitoringService.getVitalSignsByConsultationId(consultation.id),
         patientMonitoringService.getGlasgowComaScalesByConsultationId(consultation.id),
-        patientMonitoringService.getConsultationAttachments(consultation.id)
+        patientMonitoringService.getConsultationAttachments(consultation.id),
+        dispensingService.getDispensesByConsultationId(consultation.id),
+        prescriptionService.getPrescriptionsByConsultationId(consultation.id),
+        medicalDocumentService.getDocumentsByConsultationId(consultation.id),
+        referralService.getReferralsByConsultationId(consultation.id),
+        appointmentService.getAppointmentsByConsultationId(consultation.id),
+        incidentReportService.getIncidentReportsByConsultationId(consultation.id),
+        patientMonitoringService.getMedicalHistory(consultation.patient_id),
+        consultation.department === 'dental'
+          ? dentalChartService.getEntriesByPatientId(consultation.patient_id)
+          : Promise.resolve([])
       ]);
 
       setVitalSigns(vitalSignsData);
       setGlasgowComaScale(glasgowData);
       setAttachments(attachmentsData);
+      setDispenses(dispensesData);
+      setPrescriptions(prescriptionsData);
+      setMedicalDocuments(documentsData);
+      setReferrals(referralsData);
+      setFollowUps(followUpsData);
+      setIncidentReports(incidentReportsData);
+      setMedicalHistory(medicalHistoryData);
+      setMedicalHistoryLoaded(true);
+      setDentalChartEntries(dentalChartData);
+      setShowPrimaryTeeth(dentalChartData.some(entry => entry.tooth_number >= 50));
 
       // Initialize SOAP notes from consultation data
       setSoapNotes({
@@ -227,6 +319,9 @@ const ConsultationModal: React.FC<ConsultationModalProps> = ({
 
   const handleClose = () => {
     setActiveTab('soap');
+    setMedicalHistory(null);
+    setMedicalHistoryLoaded(false);
+    setDentalChartEntries([]);
     setSoapNotes({
       subjective: '',
       objective: '',
@@ -266,6 +361,184 @@ const ConsultationModal: React.FC<ConsultationModalProps> = ({
     setEditingGlasgow(null);
   };
 
+  const handlePrescriptionSaved = async () => {
+    await loadConsultationData();
+    setPrescriptionModalOpen(false);
+    setEditingPrescription(null);
+  };
+
+  const handleEditPrescription = (prescription: Prescription) => {
+    setEditingPrescription(prescription);
+    setPrescriptionModalOpen(true);
+  };
+
+  const handleSignPrescription = async (prescription: Prescription) => {
+    if (!consultation) return;
+    if (!window.confirm(`Sign prescription ${prescription.prescription_number}? Signed prescriptions can no longer be edited.`)) return;
+
+    try {
+      setError(null);
+      await prescriptionService.signPrescription(consultation, prescription.id);
+
+      // Signing may have assigned the attending physician
+      const updated = await patientMonitoringService.getConsultationById(consultation.id);
+      if (updated) {
+        onConsultationUpdated(updated);
+      }
+      await loadConsultationData();
+    } catch (error: any) {
+      console.error('Error signing prescription:', error);
+      setError(error.message || 'Failed to sign prescription');
+    }
+  };
+
+  const handleCancelPrescription = async (prescription: Prescription) => {
+    if (!window.confirm(`Cancel prescription ${prescription.prescription_number}?`)) return;
+
+    try {
+      setError(null);
+      await prescriptionService.cancelPrescription(prescription.id);
+      await loadConsultationData();
+    } catch (error: any) {
+      console.error('Error cancelling prescription:', error);
+      setError(error.message || 'Failed to cancel prescription');
+    }
+  };
+
+  const handlePrintPrescription = async (prescription: Prescription) => {
+    if (!consultation) return;
+
+    try {
+      await exportService.exportPrescriptionToPDF(prescription, consultation);
+    } catch (error: any) {
+      console.error('Error printing prescription:', error);
+      setError('Failed to generate the prescription slip');
+    }
+  };
+
+  const handleDocumentIssued = async () => {
+    if (!consultation) return;
+
+    // Issuing may have assigned the attending physician
+    const updated = await patientMonitoringService.getConsultationById(consultation.id);
+    if (updated) {
+      onConsultationUpdated(updated);
+    }
+    await loadConsultationData();
+    setIssueDocumentModalOpen(false);
+  };
+
+  const handleDownloadDocument = async (document: MedicalDocument, format: 'pdf' | 'docx') => {
+    if (!consultation) return;
+
+    try {
+      if (format === 'pdf') {
+        await exportService.exportMedicalDocumentToPDF(document, consultation);
+      } else {
+        await exportService.exportMedicalDocumentToDocx(document, consultation);
+      }
+    } catch (error: any) {
+      console.error('Error generating document:', error);
+      setError(`Failed to generate ${document.serial_number}`);
+    }
+  };
+
+  const handleReferralCreated = async () => {
+    if (!consultation) return;
+
+    // Sending may have assigned the attending physician
+    const updated = await patientMonitoringService.getConsultationById(consultation.id);
+    if (updated) {
+      onConsultationUpdated(updated);
+    }
+    await loadConsultationData();
+    setReferralModalOpen(false);
+  };
+
+  const handleReferralUpdated = async () => {
+    setReferralStatusAction(null);
+    await loadConsultationData();
+  };
+
+  const handlePrintReferral = async (referral: Referral) => {
+    if (!consultation) return;
+
+    try {
+      await exportService.exportReferralToPDF(referral, consultation);
+    } catch (error: any) {
+      console.error('Error printing referral:', error);
+      setError('Failed to generate the referral letter');
+    }
+  };
+
+  const handleIncidentReportCreated = async () => {
+    setIncidentReportModalOpen(false);
+    await loadConsultationData();
+  };
+
+  const handlePrintIncidentReport = async (report: IncidentReport) => {
+    if (!consultation) return;
+
+    try {
+      await exportService.exportIncidentReportToPDF(report, consultation);
+    } catch (error: any) {
+      console.error('Error printing incident report:', error);
+      setError(`Failed to generate incident report ${report.incident_number}`);
+    }
+  };
+
+  const handleFollowUpScheduled = async () => {
+    setFollowUpModalOpen(false);
+    await loadConsultationData();
+  };
+
+  const handleCancelFollowUp = async (appointment: Appointment) => {
+    if (!window.confirm(`Cancel the follow-up on ${appointment.scheduled_date} at ${formatAppointmentTime(appointment.scheduled_time)}?`)) return;
+
+    try {
+      setError(null);
+      await appointmentService.cancelAppointment(appointment);
+      await loadConsultationData();
+    } catch (error: any) {
+      console.error('Error cancelling follow-up:', error);
+      setError(error.message || 'Failed to cancel follow-up');
+    }
+  };
+
+  const handleDentalChartEntryRecorded = async () => {
+    setChartingTooth(null);
+    await loadConsultationData();
+  };
+
+  const handleRemoveDentalChartEntry = async (entry: DentalChartEntry) => {
+    if (!consultation) return;
+    if (!window.confirm(`Remove the ${getDentalCondition(entry.condition).label.toLowerCase()} entry on tooth ${entry.tooth_number}?`)) return;
+
+    try {
+      setError(null);
+      await dentalChartService.removeEntry(consultation, entry);
+      await loadConsultationData();
+    } catch (error: any) {
+      console.error('Error removing dental chart entry:', error);
+      setError(error.message || 'Failed to remove chart entry');
+    }
+  };
+
+  const handlePrintDentalChart = async () => {
+    if (!consultation) return;
+
+    try {
+      await exportService.exportDentalChartToPDF(
+        consultation,
+        getChartAsOfVisit(dentalChartEntries, consultation),
+        dentalChartEntries.filter(entry => entry.consultation_id === consultation.id)
+      );
+    } catch (error: any) {
+      console.error('Error printing dental chart:', error);
+      setError('Failed to generate the dental chart');
+    }
+  };
+
   const handleEditVitalSigns = (vital: VitalSigns) => {
     setEditingVitalSigns(vital);
     setVitalSignsModalOpen(true);
@@ -346,8 +619,18 @@ const ConsultationModal: React.FC<ConsultationModalProps> = ({
     setAttachmentsModalOpen(false);
   };
 
+  const handleMedicationDispensed = async (dispense: MedicationDispense) => {
+    // Reload consultation data to get latest dispenses
+    await loadConsultationData();
+    setDispenseModalOpen(false);
+  };
+
   if (!isOpen || !consultation) return null;
 
+  const isDentalVisit = consultation.department === 'dental';
+  const dentalChart = getChartAsOfVisit(dentalChartEntries, consultation);
+  const visitChartEntries = dentalChartEntries.filter(entry => entry.consultation_id === consultation.id);
+
   return (
     <div className="modal-overlay">
       <div className="modal-container extra-large">
@@ -359,6 +642,9 @@ const ConsultationModal: React.FC<ConsultationModalProps> = ({
             </p>
             <div className="consultation-meta">
               <span className={`status-badge ${consultation.status}`}>{consultation.status}</span>
+              {vitalSigns[0] && (
+                <EarlyWarningBadge score={vitalSigns[0].news2_score} risk={vitalSigns[0].news2_risk} />
+              )}
               <span className="consultation-date">
                 {formatDateTime(consultation.consultation_date, consultation.time_in)}
               </span>
@@ -377,6 +663,8 @@ const ConsultationModal: React.FC<ConsultationModalProps> = ({
           </button>
         </div>
 
+        <AllergyBanner medicalHistory={medicalHistory} loading={!medicalHistoryLoaded} />
+
         <div className="modal-body">
           {error && (
             <div className="error-message">
@@ -442,6 +730,84 @@ const ConsultationModal: React.FC<ConsultationModalProps> = ({
                 </svg>
                 Attachments ({attachments.length})
               </button>
+              <button
+                className={`tab-btn ${activeTab === 'dispensing' ? 'active' : ''}`}
+                onClick={() => setActiveTab('dispensing')}
+              >
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M10.5 20.5 3.5 13.5a4.95 4.95 0 0 1 7-7l7 7a4.95 4.95 0 0 1-7 7z"/>
+                  <line x1="8.5" y1="8.5" x2="15.5" y2="15.5"/>
+                </svg>
+                Dispensed ({dispenses.length})
+              </button>
+              <button
+                className={`tab-btn ${activeTab === 'prescriptions' ? 'active' : ''}`}
+                onClick={() => setActiveTab('prescriptions')}
+              >
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"/>
+                  <polyline points="14 2 14 8 20 8"/>
+                  <path d="M9 13h2a2 2 0 0 1 0 4H9v-4z"/>
+                  <line x1="9" y1="17" x2="9" y2="19"/>
+                </svg>
+                Prescriptions ({prescriptions.filter(prescription => prescription.status !== 'cancelled').length})
+              </button>
+              <button
+                className={`tab-btn ${activeTab === 'documents' ? 'active' : ''}`}
+                onClick={() => setActiveTab('documents')}
+              >
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"/>
+                  <polyline points="14 2 14 8 20 8"/>
+                  <line x1="8" y1="13" x2="16" y2="13"/>
+                  <line x1="8" y1="17" x2="13" y2="17"/>
+                </svg>
+                Documents ({medicalDocuments.length})
+              </button>
+              <button
+                className={`tab-btn ${activeTab === 'referrals' ? 'active' : ''}`}
+                onClick={() => setActiveTab('referrals')}
+              >
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M5 12h14"/>
+                  <path d="M12 5l7 7-7 7"/>
+                </svg>
+                Referrals ({referrals.filter(referral => OPEN_REFERRAL_STATUSES.includes(referral.status)).length})
+              </button>
+              <button
+                className={`tab-btn ${activeTab === 'follow_ups' ? 'active' : ''}`}
+                onClick={() => setActiveTab('follow_ups')}
+              >
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <rect x="3" y="4" width="18" height="18" rx="2" ry="2"/>
+                  <line x1="16" y1="2" x2="16" y2="6"/>
+                  <line x1="8" y1="2" x2="8" y2="6"/>
+                  <line x1="3" y1="10" x2="21" y2="10"/>
+                </svg>
+                Follow-ups ({followUps.filter(appointment => appointment.status === 'scheduled').length})
+              </button>
+              <button
+                className={`tab-btn ${activeTab === 'incidents' ? 'active' : ''}`}
+                onClick={() => setActiveTab('incidents')}
+              >
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M10.29 3.86L1.82 18a2 2 0 0 0 1.71 3h16.94a2 2 0 0 0 1.71-3L13.71 3.86a2 2 0 0 0-3.42 0z"/>
+                  <line x1="12" y1="9" x2="12" y2="13"/>
+                  <line x1="12" y1="17" x2="12.01" y2="17"/>
+                </svg>
+                Incidents ({incidentReports.length})
+              </button>
+              {isDentalVisit && (
+                <button
+                  className={`tab-btn ${activeTab === 'dental_chart' ? 'active' : ''}`}
+                  onClick={() => setActiveTab('dental_chart')}
+                >
+                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M7 3c-2.5 0-4 2-4 4.5 0 3 1.5 4.5 2 7.5.5 3 1 6 2.5 6s1.5-4 3-6c.5-.7 2.5-.7 3 0 1.5 2 1.5 6 3 6s2-3 2.5-6c.5-3 2-4.5 2-7.5C21 5 19.5 3 17 3c-2 0-3 1-5 1S9 3 7 3z"/>
+                  </svg>
+                  Dental Chart ({visitChartEntries.length})
+                </button>
+              )}
             </div>
           </div>
 
@@ -712,10 +1078,30 @@ const ConsultationModal: React.FC<ConsultationModalProps> = ({
                     Clinical Information
                   </h4>
 
+                  <div className="form-row">
+                    <div className="form-group">
+                      <label>
+                        Coded Diagnoses (ICD-10)
+                        <span className="info-icon" title="One primary and any number of secondary diagnoses">
+                          <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                            <circle cx="12" cy="12" r="10"/>
+                            <line x1="12" y1="16" x2="12" y2="12"/>
+                            <line x1="12" y1="8" x2="12.01" y2="8"/>
+                          </svg>
+                        </span>
+                      </label>
+                      <DiagnosisPicker
+                        consultation={consultation}
+                        disabled={consultation.status === 'completed'}
+                      />
+                      <small className="field-hint">Codes are saved as soon as they are added</small>
+                    </div>
+                  </div>
+
                   <div className="form-row">
                     <div className="form-group">
                       <label htmlFor="diagnosis">
-                        Diagnosis
+                        Diagnosis Notes
                         <span className="info-icon" title="Final or working diagnosis">
                           <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                             <circle cx="12" cy="12" r="10"/>
@@ -727,13 +1113,13 @@ const ConsultationModal: React.FC<ConsultationModalProps> = ({
                       <textarea
                         id="diagnosis"
                         className="form-textarea"
-                        placeholder="Primary diagnosis, ICD codes, differential diagnoses..."
+                        placeholder="Working impression, differential diagnoses, clinical reasoning..."
                         value={consultationData.diagnosis}
                         onChange={(e) => handleConsultationDataChange('diagnosis', e.target.value)}
                         rows={4}
                         disabled={consultation.status === 'completed'}
                       />
-                      <small className="field-hint">Include ICD-10 codes when applicable</small>
+                      <small className="field-hint">Free-text notes accompanying the coded diagnoses</small>
                     </div>
                   </div>
 
@@ -904,6 +1290,7 @@ Example:
                           <span className="vital-time">
                             {formatDateTime(vital.recorded_at?.split('T')[0], vital.recorded_at?.split('T')[1]?.split('.')[0])}
                           </span>
+                          <EarlyWarningBadge score={vital.news2_score} risk={vital.news2_risk} compact />
                         </div>
                         {consultation.status !== 'completed' && (
                           <div className="vital-actions">
@@ -1167,6 +1554,561 @@ Example:
               </div>
             </div>
           )}
+
+          {activeTab === 'dispensing' && (
+            <div className="tab-content">
+              <div className="section-header">
+                <h3>Dispensed Medications & Supplies</h3>
+                <button
+                  className="btn-primary"
+                  onClick={() => setDispenseModalOpen(true)}
+                  disabled={consultation.status === 'completed'}
+                >
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <line x1="12" y1="5" x2="12" y2="19"/>
+                    <line x1="5" y1="12" x2="19" y2="12"/>
+                  </svg>
+                  Dispense Item
+                </button>
+              </div>
+              <div className="dispense-list">
+                {dispenses.length === 0 ? (
+                  <div className="empty-state">
+                    <svg width="64" height="64" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
+                      <path d="M10.5 20.5 3.5 13.5a4.95 4.95 0 0 1 7-7l7 7a4.95 4.95 0 0 1-7 7z"/>
+                      <line x1="8.5" y1="8.5" x2="15.5" y2="15.5"/>
+                    </svg>
+                    <h3>No Medications Dispensed</h3>
+                    <p>Dispense medicines or supplies from inventory for this consultation.</p>
+                    <button
+                      className="btn-primary"
+                      onClick={() => setDispenseModalOpen(true)}
+                      disabled={consultation.status === 'completed'}
+                    >
+                      Dispense First Item
+                    </button>
+                  </div>
+                ) : (
+                  dispenses.map((dispense) => (
+                    <div key={dispense.id} className="dispense-card">
+                      <div className="dispense-header">
+                        <div className="dispense-header-left">
+                          <h4>{dispense.item_name}</h4>
+                          <span className="dispense-time">
+                            {formatDateTime(dispense.dispensed_at?.split('T')[0], dispense.dispensed_at?.split('T')[1]?.split('.')[0])}
+                          </span>
+                        </div>
+                        <span className="dispense-quantity">
+                          {dispense.quantity} {dispense.unit_of_measurement || 'pcs'}
+                        </span>
+                      </div>
+                      {dispense.dosage_instructions && (
+                        <p className="dispense-instructions">
+                          <strong>Instructions:</strong> {dispense.dosage_instructions}
+                        </p>
+                      )}
+                      {dispense.batch_allocations && dispense.batch_allocations.length > 0 && (
+                        <p className="dispense-lots">
+                          Lots: {dispense.batch_allocations.map(allocation => `${allocation.lot_number} (${allocation.quantity})`).join(', ')}
+                        </p>
+                      )}
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
+
+          {activeTab === 'prescriptions' && (
+            <div className="tab-content">
+              <div className="section-header">
+                <h3>Prescriptions</h3>
+                <button
+                  className="btn-primary"
+                  onClick={() => setPrescriptionModalOpen(true)}
+                  disabled={consultation.status === 'completed'}
+                >
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <line x1="12" y1="5" x2="12" y2="19"/>
+                    <line x1="5" y1="12" x2="19" y2="12"/>
+                  </svg>
+                  Write Prescription
+                </button>
+              </div>
+              <div className="dispense-list">
+                {prescriptions.length === 0 ? (
+                  <div className="empty-state">
+                    <svg width="64" height="64" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
+                      <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"/>
+                      <polyline points="14 2 14 8 20 8"/>
+                    </svg>
+                    <h3>No Prescriptions Written</h3>
+                    <p>Write a prescription, sign it, and print the slip for the patient.</p>
+                    <button
+                      className="btn-primary"
+                      onClick={() => setPrescriptionModalOpen(true)}
+                      disabled={consultation.status === 'completed'}
+                    >
+                      Write First Prescription
+                    </button>
+                  </div>
+                ) : (
+                  prescriptions.map(prescription => (
+                    <div key={prescription.id} className="dispense-card prescription-card">
+                      <div className="dispense-header">
+                        <div className="dispense-header-left">
+                          <h4>{prescription.prescription_number}</h4>
+                          <span className="dispense-time">
+                            {new Date(prescription.signed_at || prescription.created_at).toLocaleString()}
+                          </span>
+                        </div>
+                        <span className={`prescription-status ${prescription.status}`}>
+                          {PRESCRIPTION_STATUS_LABELS[prescription.status]}
+                        </span>
+                      </div>
+                      <ol className="prescription-drug-list">
+                        {prescription.items.map(item => (
+                          <li key={item.id}>
+                            <strong>{item.drug_name}{item.strength ? ` ${item.strength}` : ''}</strong> #{item.quantity}
+                            <span className="prescription-sig">
+                              {' '}— {[item.dose, item.frequency, item.duration ? `for ${item.duration}` : ''].filter(Boolean).join(', ')}
+                              {item.instructions ? `. ${item.instructions}` : ''}
+                            </span>
+                          </li>
+                        ))}
+                      </ol>
+                      {prescription.notes && (
+                        <p className="dispense-instructions">
+                          <strong>Notes:</strong> {prescription.notes}
+                        </p>
+                      )}
+                      {prescription.status === 'signed' && (
+                        <p className="prescription-signer">
+                          Signed by {prescription.prescriber_name} · License No. {prescription.prescriber_license_number}
+                        </p>
+                      )}
+                      <div className="prescription-actions">
+                        {prescription.status === 'draft' && consultation.status !== 'completed' && (
+                          <button className="btn-secondary btn-sm" onClick={() => handleEditPrescription(prescription)}>
+                            Edit
+                          </button>
+                        )}
+                        {prescription.status === 'draft' && (
+                          <button className="btn-primary btn-sm" onClick={() => handleSignPrescription(prescription)}>
+                            Sign
+                          </button>
+                        )}
+                        {prescription.status !== 'cancelled' && (
+                          <button className="btn-secondary btn-sm" onClick={() => handlePrintPrescription(prescription)}>
+                            {prescription.status === 'signed' ? 'Print Slip' : 'Preview Slip'}
+                          </button>
+                        )}
+                        {prescription.status !== 'cancelled' && (
+                          <button className="btn-secondary btn-sm" onClick={() => handleCancelPrescription(prescription)}>
+                            Cancel
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
+
+          {activeTab === 'documents' && (
+            <div className="tab-content">
+              <div className="section-header">
+                <h3>Medical Documents</h3>
+                <button
+                  className="btn-primary"
+                  onClick={() => setIssueDocumentModalOpen(true)}
+                >
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <line x1="12" y1="5" x2="12" y2="19"/>
+                    <line x1="5" y1="12" x2="19" y2="12"/>
+                  </svg>
+                  Issue Document
+                </button>
+              </div>
+              <div className="dispense-list">
+                {medicalDocuments.length === 0 ? (
+                  <div className="empty-state">
+                    <svg width="64" height="64" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
+                      <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"/>
+                      <polyline points="14 2 14 8 20 8"/>
+                    </svg>
+                    <h3>No Documents Issued</h3>
+                    <p>Issue a medical certificate, fit-to-return slip or referral letter for this consultation.</p>
+                    <button
+                      className="btn-primary"
+                      onClick={() => setIssueDocumentModalOpen(true)}
+                    >
+                      Issue First Document
+                    </button>
+                  </div>
+                ) : (
+                  medicalDocuments.map(document => (
+                    <div key={document.id} className="dispense-card prescription-card">
+                      <div className="dispense-header">
+                        <div className="dispense-header-left">
+                          <h4>{document.serial_number}</h4>
+                          <span className="dispense-time">
+                            {new Date(document.issued_at).toLocaleString()}
+                          </span>
+                        </div>
+                        <span className={`document-type-badge ${document.document_type}`}>
+                          {MEDICAL_DOCUMENT_TYPE_LABELS[document.document_type]}
+                        </span>
+                      </div>
+                      {document.diagnosis && (
+                        <p className="dispense-instructions">
+                          <strong>Diagnosis:</strong> {document.diagnosis}
+                        </p>
+                      )}
+                      {document.referred_to && (
+                        <p className="dispense-instructions">
+                          <strong>Referred to:</strong> {document.referred_to}
+                        </p>
+                      )}
+                      <p className="prescription-signer">
+                        Issued by {document.issuer_name} · License No. {document.issuer_license_number}
+                      </p>
+                      <div className="prescription-actions">
+                        <button className="btn-secondary btn-sm" onClick={() => handleDownloadDocument(document, 'pdf')}>
+                          Print PDF
+                        </button>
+                        <button className="btn-secondary btn-sm" onClick={() => handleDownloadDocument(document, 'docx')}>
+                          Download Word
+                        </button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
+
+          {activeTab === 'referrals' && (
+            <div className="tab-content">
+              <div className="section-header">
+                <h3>Referrals</h3>
+                <button
+                  className="btn-primary"
+                  onClick={() => setReferralModalOpen(true)}
+                  disabled={consultation.status === 'completed'}
+                >
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <line x1="12" y1="5" x2="12" y2="19"/>
+                    <line x1="5" y1="12" x2="19" y2="12"/>
+                  </svg>
+                  Refer Patient
+                </button>
+              </div>
+              <div className="dispense-list">
+                {referrals.length === 0 ? (
+                  <div className="empty-state">
+                    <svg width="64" height="64" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
+                      <path d="M5 12h14"/>
+                      <path d="M12 5l7 7-7 7"/>
+                    </svg>
+                    <h3>No Referrals</h3>
+                    <p>Refer the patient to a hospital or specialist and track them until they return with findings.</p>
+                    <button
+                      className="btn-primary"
+                      onClick={() => setReferralModalOpen(true)}
+                      disabled={consultation.status === 'completed'}
+                    >
+                      Refer Patient
+                    </button>
+                  </div>
+                ) : (
+                  referrals.map(referral => (
+                    <div key={referral.id} className="dispense-card prescription-card">
+                      <div className="dispense-header">
+                        <div className="dispense-header-left">
+                          <h4>{referral.referral_number}</h4>
+                          <span className="dispense-time">
+                            {new Date(referral.sent_at).toLocaleString()}
+                          </span>
+                        </div>
+                        <div className="referral-badges">
+                          <span className={`referral-urgency ${referral.urgency}`}>
+                            {REFERRAL_URGENCY_LABELS[referral.urgency]}
+                          </span>
+                          <span className={`referral-status ${referral.status}`}>
+                            {REFERRAL_STATUS_LABELS[referral.status]}
+                          </span>
+                        </div>
+                      </div>
+                      <p className="dispense-instructions">
+                        <strong>To:</strong> {referral.destination_facility}{referral.specialty ? ` (${referral.specialty})` : ''}
+                      </p>
+                      <p className="dispense-instructions">
+                        <strong>Reason:</strong> {referral.reason}
+                      </p>
+                      {referral.accepted_at && (
+                        <p className="prescription-signer">
+                          Accepted {new Date(referral.accepted_at).toLocaleString()}
+                          {referral.accepted_by_name ? ` by ${referral.accepted_by_name}` : ''}
+                        </p>
+                      )}
+                      {referral.findings && (
+                        <p className="dispense-instructions">
+                          <strong>Findings:</strong> {referral.findings}
+                        </p>
+                      )}
+                      {referral.cancellation_reason && (
+                        <p className="dispense-instructions">
+                          <strong>Cancelled:</strong> {referral.cancellation_reason}
+                        </p>
+                      )}
+                      <p className="prescription-signer">
+                        Referred by {referral.referrer_name} · License No. {referral.referrer_license_number}
+                      </p>
+                      <div className="prescription-actions">
+                        <button className="btn-secondary btn-sm" onClick={() => handlePrintReferral(referral)}>
+                          Print Letter
+                        </button>
+                        {referral.status === 'sent' && (
+                          <button className="btn-secondary btn-sm" onClick={() => setReferralStatusAction({ referral, action: 'accept' })}>
+                            Mark Accepted
+                          </button>
+                        )}
+                        {OPEN_REFERRAL_STATUSES.includes(referral.status) && (
+                          <>
+                            <button className="btn-primary btn-sm" onClick={() => setReferralStatusAction({ referral, action: 'return' })}>
+                              Record Findings
+                            </button>
+                            <button className="btn-secondary btn-sm" onClick={() => setReferralStatusAction({ referral, action: 'cancel' })}>
+                              Cancel
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
+
+          {activeTab === 'incidents' && (
+            <div className="tab-content">
+              <div className="section-header">
+                <h3>Incident Reports</h3>
+                <button className="btn-primary" onClick={() => setIncidentReportModalOpen(true)}>
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <line x1="12" y1="5" x2="12" y2="19"/>
+                    <line x1="5" y1="12" x2="19" y2="12"/>
+                  </svg>
+                  File Incident Report
+                </button>
+              </div>
+              <div className="dispense-list">
+                {incidentReports.length === 0 ? (
+                  <div className="empty-state">
+                    <svg width="64" height="64" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
+                      <path d="M10.29 3.86L1.82 18a2 2 0 0 0 1.71 3h16.94a2 2 0 0 0 1.71-3L13.71 3.86a2 2 0 0 0-3.42 0z"/>
+                      <line x1="12" y1="9" x2="12" y2="13"/>
+                      <line x1="12" y1="17" x2="12.01" y2="17"/>
+                    </svg>
+                    <h3>No Incident Reports</h3>
+                    <p>File an incident report when the patient was injured on campus or at work, for the safety office.</p>
+                    <button className="btn-primary" onClick={() => setIncidentReportModalOpen(true)}>
+                      File Incident Report
+                    </button>
+                  </div>
+                ) : (
+                  incidentReports.map(report => (
+                    <div key={report.id} className="dispense-card prescription-card">
+                      <div className="dispense-header">
+                        <div className="dispense-header-left">
+                          <h4>{report.incident_number}</h4>
+                          <span className="dispense-time">
+                            {new Date(`${report.doi}T00:00:00`).toLocaleDateString()}
+                            {report.toi ? ` ${report.toi.slice(0, 5)}` : ''} · {report.poi}
+                            {report.poi_details ? ` (${report.poi_details})` : ''}
+                          </span>
+                        </div>
+                      </div>
+                      <div className="dispense-instructions">
+                        <strong>{INJURY_MECHANISM_LABELS[report.mechanism]}:</strong> {report.mechanism_details}
+                      </div>
+                      <div className="dispense-instructions">
+                        <strong>Injury:</strong> {report.noi}
+                        {getInjuryLabels(report).length > 0 ? ` (${getInjuryLabels(report).join(', ')})` : ''}
+                      </div>
+                      {report.first_aid_given && (
+                        <div className="dispense-instructions">
+                          <strong>First aid:</strong> {report.first_aid_given}
+                        </div>
+                      )}
+                      <div className="dispense-instructions">
+                        <strong>Disposition:</strong> {INCIDENT_DISPOSITION_LABELS[report.disposition]}
+                        {report.disposition_notes ? ` (${report.disposition_notes})` : ''}
+                      </div>
+                      {report.witnesses.length > 0 && (
+                        <div className="dispense-instructions">
+                          <strong>Witnesses:</strong> {report.witnesses.map(witness => witness.name).join(', ')}
+                        </div>
+                      )}
+                      <p className="prescription-signer">
+                        Reported by {report.reporter_name}
+                      </p>
+                      <div className="prescription-actions">
+                        <button className="btn-secondary btn-sm" onClick={() => handlePrintIncidentReport(report)}>
+                          Print
+                        </button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
+
+          {activeTab === 'follow_ups' && (
+            <div className="tab-content">
+              <div className="section-header">
+                <h3>Follow-up Appointments</h3>
+                <button className="btn-primary" onClick={() => setFollowUpModalOpen(true)}>
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <line x1="12" y1="5" x2="12" y2="19"/>
+                    <line x1="5" y1="12" x2="19" y2="12"/>
+                  </svg>
+                  Schedule Follow-up
+                </button>
+              </div>
+              <div className="dispense-list">
+                {followUps.length === 0 ? (
+                  <div className="empty-state">
+                    <svg width="64" height="64" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
+                      <rect x="3" y="4" width="18" height="18" rx="2" ry="2"/>
+                      <line x1="16" y1="2" x2="16" y2="6"/>
+                      <line x1="8" y1="2" x2="8" y2="6"/>
+                      <line x1="3" y1="10" x2="21" y2="10"/>
+                    </svg>
+                    <h3>No Follow-ups</h3>
+                    <p>Book the patient's next visit with a physician. It appears on the clinic calendar and on the dashboard on the day.</p>
+                    <button className="btn-primary" onClick={() => setFollowUpModalOpen(true)}>
+                      Schedule Follow-up
+                    </button>
+                  </div>
+                ) : (
+                  followUps.map(appointment => (
+                    <div key={appointment.id} className="dispense-card prescription-card">
+                      <div className="dispense-header">
+                        <div className="dispense-header-left">
+                          <h4>
+                            {new Date(`${appointment.scheduled_date}T00:00:00`).toLocaleDateString()} · {formatAppointmentTime(appointment.scheduled_time)}
+                          </h4>
+                          <span className="dispense-time">
+                            {appointment.duration_minutes} minutes with {appointment.physician_name}
+                          </span>
+                        </div>
+                        <span className={`appointment-status ${appointment.status}`}>
+                          {APPOINTMENT_STATUS_LABELS[appointment.status]}
+                        </span>
+                      </div>
+                      <p className="dispense-instructions">
+                        <strong>Reason:</strong> {appointment.reason}
+                      </p>
+                      {appointment.notes && (
+                        <p className="dispense-instructions">
+                          <strong>Notes:</strong> {appointment.notes}
+                        </p>
+                      )}
+                      {appointment.status === 'scheduled' && (
+                        <div className="prescription-actions">
+                          <button className="btn-secondary btn-sm" onClick={() => handleCancelFollowUp(appointment)}>
+                            Cancel
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
+
+          {activeTab === 'dental_chart' && isDentalVisit && (
+            <div className="tab-content">
+              <div className="section-header">
+                <h3>Dental Chart</h3>
+                <button className="btn-secondary" onClick={handlePrintDentalChart}>
+                  Print Chart
+                </button>
+              </div>
+              <div className="dental-chart-panel">
+                <div className="dental-chart-toolbar">
+                  <span>
+                    {consultation.status === 'active'
+                      ? 'Select a tooth to chart a finding or a procedure performed this visit.'
+                      : 'Chart as it stood at the end of this visit.'}
+                  </span>
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={showPrimaryTeeth}
+                      onChange={(e) => setShowPrimaryTeeth(e.target.checked)}
+                    />
+                    Show primary teeth
+                  </label>
+                </div>
+                <Odontogram
+                  chart={dentalChart}
+                  showPrimary={showPrimaryTeeth}
+                  selectedTooth={chartingTooth}
+                  highlightedTeeth={visitChartEntries.map(entry => entry.tooth_number)}
+                  onSelectTooth={consultation.status === 'active' ? setChartingTooth : undefined}
+                />
+              </div>
+              <div className="dispense-list">
+                {visitChartEntries.length === 0 ? (
+                  <div className="empty-state">
+                    <h3>Nothing Charted This Visit</h3>
+                    <p>Teeth charted during this visit are outlined on the chart and listed here.</p>
+                  </div>
+                ) : (
+                  visitChartEntries.map(entry => (
+                    <div key={entry.id} className="dispense-card prescription-card">
+                      <div className="dispense-header">
+                        <div className="dispense-header-left">
+                          <h4>
+                            Tooth {entry.tooth_number}
+                            {entry.surfaces.length > 0 ? ` (${formatSurfaces(entry.surfaces)})` : ''}
+                            {' · '}{getDentalCondition(entry.condition).label}
+                          </h4>
+                          <span className="dispense-time">
+                            {new Date(entry.recorded_at).toLocaleString()}
+                          </span>
+                        </div>
+                      </div>
+                      {entry.procedure && (
+                        <p className="dispense-instructions">
+                          <strong>Procedure:</strong> {entry.procedure}
+                        </p>
+                      )}
+                      {entry.notes && (
+                        <p className="dispense-instructions">
+                          <strong>Notes:</strong> {entry.notes}
+                        </p>
+                      )}
+                      {consultation.status === 'active' && (
+                        <div className="prescription-actions">
+                          <button className="btn-secondary btn-sm" onClick={() => handleRemoveDentalChartEntry(entry)}>
+                            Remove
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
         </div>
 
         <div className="modal-footer">
@@ -1223,6 +2165,69 @@ Example:
         onClose={() => setAttachmentsModalOpen(false)}
         onAttachmentAdded={handleAttachmentAdded}
       />
+
+      <DispenseMedicationModal
+        isOpen={dispenseModalOpen}
+        consultation={consultation}
+        onClose={() => setDispenseModalOpen(false)}
+        onMedicationDispensed={handleMedicationDispensed}
+      />
+
+      <PrescriptionModal
+        isOpen={prescriptionModalOpen}
+        consultation={consultation}
+        editingPrescription={editingPrescription}
+        onClose={() => {
+          setPrescriptionModalOpen(false);
+          setEditingPrescription(null);
+        }}
+        onPrescriptionSaved={handlePrescriptionSaved}
+      />
+
+      <IssueDocumentModal
+        isOpen={issueDocumentModalOpen}
+        consultation={consultation}
+        onClose={() => setIssueDocumentModalOpen(false)}
+        onDocumentIssued={handleDocumentIssued}
+      />
+
+      <ReferralModal
+        isOpen={referralModalOpen}
+        consultation={consultation}
+        onClose={() => setReferralModalOpen(false)}
+        onReferralCreated={handleReferralCreated}
+      />
+
+      <ReferralStatusModal
+        isOpen={referralStatusAction !== null}
+        referral={referralStatusAction?.referral || null}
+        action={referralStatusAction?.action || 'accept'}
+        onClose={() => setReferralStatusAction(null)}
+        onReferralUpdated={handleReferralUpdated}
+      />
+
+      <IncidentReportModal
+        isOpen={incidentReportModalOpen}
+        consultation={consultation}
+        onClose={() => setIncidentReportModalOpen(false)}
+        onIncidentReportCreated={handleIncidentReportCreated}
+      />
+
+      <ScheduleFollowUpModal
+        isOpen={followUpModalOpen}
+        consultation={consultation}
+        onClose={() => setFollowUpModalOpen(false)}
+        onFollowUpScheduled={handleFollowUpScheduled}
+      />
+
+      <DentalChartEntryModal
+        isOpen={chartingTooth !== null}
+        consultation={consultation}
+        toothNumber={chartingTooth}
+        currentState={chartingTooth !== null ? dentalChart[chartingTooth] : undefined}
+        onClose={() => setChartingTooth(null)}
+        onEntryRecorded={handleDentalChartEntryRecorded}
+      />
     </div>
   );
 };
@@ -0,0 +1,231 @@
+import React, { useState, useEffect } from 'react';
+import { type Consultation } from '../../../services/supabaseService';
+import {
+  dentalChartService,
+  describeToothState,
+  type DentalChartEntry,
+  type DentalChartEntryInput,
+  type ToothState
+} from '../../../services/dentalChartService';
+import {
+  DENTAL_CONDITIONS,
+  DENTAL_PROCEDURES,
+  TOOTH_SURFACES,
+  getDentalCondition,
+  type DentalCondition,
+  type ToothSurface
+} from '../../../constants/dentalChart';
+import '../ConsultationModals.css';
+
+interface DentalChartEntryModalProps {
+  isOpen: boolean;
+  consultation: Consultation | null;
+  toothNumber: number | null;
+  // Chart state of the tooth before this entry, shown for reference
+  currentState?: ToothState;
+  onClose: () => void;
+  onEntryRecorded: (entry: DentalChartEntry) => void;
+}
+
+const emptyForm = (toothNumber: number): DentalChartEntryInput => ({
+  tooth_number: toothNumber,
+  surfaces: [],
+  condition: 'caries',
+  procedure: '',
+  notes: ''
+});
+
+const DentalChartEntryModal: React.FC<DentalChartEntryModalProps> = ({
+  isOpen,
+  consultation,
+  toothNumber,
+  currentState,
+  onClose,
+  onEntryRecorded
+}) => {
+  const [formData, setFormData] = useState<DentalChartEntryInput>(emptyForm(0));
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen && toothNumber) {
+      setFormData(emptyForm(toothNumber));
+    }
+  }, [isOpen, toothNumber]);
+
+  const wholeTooth = getDentalCondition(formData.condition).whole_tooth;
+
+  // A procedure that changes the tooth also sets the condition it leaves behind
+  const handleProcedureChange = (procedure: string) => {
+    const resultingCondition = DENTAL_PROCEDURES.find(option => option.label === procedure)?.resulting_condition;
+    setFormData(prev => ({
+      ...prev,
+      procedure,
+      condition: resultingCondition || prev.condition
+    }));
+  };
+
+  const handleConditionChange = (condition: DentalCondition) => {
+    setFormData(prev => ({ ...prev, condition }));
+  };
+
+  const toggleSurface = (surface: ToothSurface) => {
+    setFormData(prev => ({
+      ...prev,
+      surfaces: prev.surfaces.includes(surface)
+        ? prev.surfaces.filter(selected => selected !== surface)
+        : [...prev.surfaces, surface]
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!consultation) {
+      setError('No consultation selected');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const entry = await dentalChartService.recordEntry(consultation, formData);
+      onEntryRecorded(entry);
+      handleClose();
+    } catch (error: any) {
+      console.error('Error recording dental chart entry:', error);
+      setError(error.message || 'Failed to record chart entry');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    setFormData(emptyForm(0));
+    setError(null);
+    onClose();
+  };
+
+  if (!isOpen || !consultation || !toothNumber) return null;
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-container large">
+        <div className="modal-header">
+          <div className="modal-title-section">
+            <h2 className="modal-title">Tooth {toothNumber}</h2>
+            <p className="modal-subtitle">Currently charted: {describeToothState(currentState)}</p>
+          </div>
+          <button className="modal-close" onClick={handleClose}>
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"/>
+              <line x1="6" y1="6" x2="18" y2="18"/>
+            </svg>
+          </button>
+        </div>
+
+        <div className="modal-body">
+          {error && (
+            <div className="error-message">
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <circle cx="12" cy="12" r="10"/>
+                <line x1="12" y1="8" x2="12" y2="12"/>
+                <line x1="12" y1="16" x2="12.01" y2="16"/>
+              </svg>
+              {error}
+            </div>
+          )}
+
+          <div className="form-section">
+            <h4>Procedure Performed</h4>
+            <div className="form-row">
+              <div className="form-group">
+                <select
+                  value={formData.procedure || ''}
+                  onChange={(e) => handleProcedureChange(e.target.value)}
+                >
+                  <option value="">None - charting a finding only</option>
+                  {DENTAL_PROCEDURES.map(procedure => (
+                    <option key={procedure.label} value={procedure.label}>{procedure.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+
+          <div className="form-section">
+            <h4>Condition After This Visit <span className="required-mark">*</span></h4>
+            <div className="document-type-options">
+              {DENTAL_CONDITIONS.map(condition => (
+                <button
+                  key={condition.key}
+                  type="button"
+                  className={`document-type-option ${formData.condition === condition.key ? 'active' : ''}`}
+                  onClick={() => handleConditionChange(condition.key)}
+                >
+                  <span className="dental-condition-swatch" style={{ background: condition.color }} />
+                  {condition.label}
+                </button>
+              ))}
+            </div>
+            <span className="field-hint">
+              {wholeTooth
+                ? 'Applies to the whole tooth. Choose Sound to clear everything charted on it.'
+                : 'Applies to the surfaces selected below.'}
+            </span>
+          </div>
+
+          {!wholeTooth && (
+            <div className="form-section">
+              <h4>Surfaces <span className="required-mark">*</span></h4>
+              <div className="document-type-options">
+                {TOOTH_SURFACES.map(surface => (
+                  <button
+                    key={surface.key}
+                    type="button"
+                    className={`document-type-option ${formData.surfaces.includes(surface.key) ? 'active' : ''}`}
+                    onClick={() => toggleSurface(surface.key)}
+                  >
+                    {surface.key} - {surface.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="form-section">
+            <h4>Notes</h4>
+            <div className="form-row">
+              <div className="form-group">
+                <textarea
+                  rows={2}
+                  placeholder="e.g. Deep caries close to pulp, patient advised on RCT"
+                  value={formData.notes || ''}
+                  onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="modal-footer">
+          <button className="btn-secondary" onClick={handleClose} disabled={loading}>
+            Cancel
+          </button>
+          <button
+            className="btn-primary"
+            onClick={handleSave}
+            disabled={loading || (!wholeTooth && formData.surfaces.length === 0)}
+          >
+            {loading ? (
+              <span className="loading-spinner">Saving...</span>
+            ) : (
+              'Record on Chart'
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DentalChartEntryModal;
@@ -0,0 +1,198 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { type Consultation } from '../../../services/supabaseService';
+import {
+  diagnosisService,
+  DIAGNOSIS_TYPE_LABELS,
+  type ConsultationDiagnosis
+} from '../../../services/diagnosisService';
+import { searchIcd10Codes, parseManualIcd10Code, type Icd10Code } from '../../../constants/icd10Codes';
+import '../ConsultationModals.css';
+
+interface DiagnosisPickerProps {
+  consultation: Consultation;
+  disabled?: boolean;
+}
+
+const DiagnosisPicker: React.FC<DiagnosisPickerProps> = ({ consultation, disabled = false }) => {
+  const [diagnoses, setDiagnoses] = useState<ConsultationDiagnosis[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [remarksDrafts, setRemarksDrafts] = useState<Record<number, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDiagnoses = useCallback(async () => {
+    try {
+      setError(null);
+      const data = await diagnosisService.getDiagnosesByConsultationId(consultation.id);
+      setDiagnoses(data);
+      setRemarksDrafts(Object.fromEntries(data.map(diagnosis => [diagnosis.id, diagnosis.remarks || ''])));
+    } catch (error: any) {
+      console.error('Error fetching diagnoses:', error);
+      setError(`Failed to load diagnoses: ${error.message}`);
+    }
+  }, [consultation.id]);
+
+  useEffect(() => {
+    fetchDiagnoses();
+  }, [fetchDiagnoses]);
+
+  const searchResults = useMemo(() => {
+    const coded = new Set(diagnoses.map(diagnosis => diagnosis.icd10_code));
+    return searchIcd10Codes(searchTerm).filter(code => !coded.has(code.code));
+  }, [searchTerm, diagnoses]);
+
+  // A code that is not bundled, typed with its description
+  const manualCode = useMemo(() => {
+    const code = parseManualIcd10Code(searchTerm);
+    return code && !diagnoses.some(diagnosis => diagnosis.icd10_code === code.code) ? code : null;
+  }, [searchTerm, diagnoses]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      setLoading(true);
+      setError(null);
+      await action();
+      await fetchDiagnoses();
+    } catch (error: any) {
+      console.error('Error updating diagnoses:', error);
+      setError(error.message || 'Failed to update diagnoses');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdd = (code: Icd10Code) => {
+    setSearchTerm('');
+    runAction(() => diagnosisService.addDiagnosis(consultation, code));
+  };
+
+  const handleRemarksBlur = (diagnosis: ConsultationDiagnosis) => {
+    const remarks = remarksDrafts[diagnosis.id] ?? '';
+    if (remarks.trim() === (diagnosis.remarks || '')) return;
+    runAction(() => diagnosisService.updateRemarks(diagnosis.id, remarks));
+  };
+
+  const handleRemove = (diagnosis: ConsultationDiagnosis) => {
+    if (!window.confirm(`Remove ${diagnosis.icd10_code} ${diagnosis.icd10_description} from this consultation?`)) return;
+    runAction(() => diagnosisService.removeDiagnosis(consultation, diagnosis));
+  };
+
+  return (
+    <div className="diagnosis-picker">
+      {error && <div className="diagnosis-error">{error}</div>}
+
+      {!disabled && (
+        <div className="diagnosis-search">
+          <input
+            type="text"
+            className="diagnosis-input"
+            placeholder="Search ICD-10 by code or description (e.g. J06.9, dengue, sprain ankle), or type a code and its description..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            disabled={loading}
+          />
+          {searchTerm.trim() && (
+            <div className="dispense-item-list diagnosis-results">
+              {manualCode && (
+                <button
+                  type="button"
+                  className="dispense-item-option diagnosis-option"
+                  onClick={() => handleAdd(manualCode)}
+                  disabled={loading}
+                >
+                  <span className="diagnosis-code">{manualCode.code}</span>
+                  <div className="dispense-item-info">
+                    <span className="dispense-item-name">{manualCode.description}</span>
+                    <span className="dispense-item-meta">Not in the bundled list; add with this description</span>
+                  </div>
+                </button>
+              )}
+              {searchResults.length === 0 ? (
+                !manualCode && (
+                  <div className="dispense-item-empty">
+                    No ICD-10 codes match your search. To use another code, type it followed by its description (e.g. K35.8 Acute appendicitis).
+                  </div>
+                )
+              ) : (
+                searchResults.map(code => (
+                  <button
+                    key={code.code}
+                    type="button"
+                    className="dispense-item-option diagnosis-option"
+                    onClick={() => handleAdd(code)}
+                    disabled={loading}
+                  >
+                    <span className="diagnosis-code">{code.code}</span>
+                    <div className="dispense-item-info">
+                      <span className="dispense-item-name">{code.description}</span>
+                      <span className="dispense-item-meta">{code.chapter}</span>
+                    </div>
+                  </button>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {diagnoses.length === 0 ? (
+        <div className="dispense-item-empty">No coded diagnoses yet. The first code added becomes the primary diagnosis.</div>
+      ) : (
+        <div className="diagnosis-list">
+          {diagnoses.map(diagnosis => (
+            <div key={diagnosis.id} className={`diagnosis-item ${diagnosis.diagnosis_type}`}>
+              <div className="diagnosis-item-header">
+                <span className="diagnosis-code">{diagnosis.icd10_code}</span>
+                <span className="diagnosis-description">{diagnosis.icd10_description}</span>
+                <span className={`diagnosis-type-badge ${diagnosis.diagnosis_type}`}>
+                  {DIAGNOSIS_TYPE_LABELS[diagnosis.diagnosis_type]}
+                </span>
+                {!disabled && (
+                  <div className="diagnosis-actions">
+                    {diagnosis.diagnosis_type === 'secondary' && (
+                      <button
+                        type="button"
+                        className="btn-secondary btn-sm"
+                        onClick={() => runAction(() => diagnosisService.setPrimary(consultation, diagnosis))}
+                        disabled={loading}
+                      >
+                        Make Primary
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      className="btn-icon btn-delete"
+                      onClick={() => handleRemove(diagnosis)}
+                      disabled={loading}
+                      title="Remove"
+                    >
+                      <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <polyline points="3 6 5 6 21 6"/>
+                        <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"/>
+                      </svg>
+                    </button>
+                  </div>
+                )}
+              </div>
+              {disabled ? (
+                diagnosis.remarks && <p className="diagnosis-remarks">{diagnosis.remarks}</p>
+              ) : (
+                <input
+                  type="text"
+                  className="diagnosis-input diagnosis-remarks-input"
+                  placeholder="Remarks (laterality, severity, suspected/confirmed...)"
+                  value={remarksDrafts[diagnosis.id] ?? ''}
+                  onChange={(e) => setRemarksDrafts(prev => ({ ...prev, [diagnosis.id]: e.target.value }))}
+                  onBlur={() => handleRemarksBlur(diagnosis)}
+                  disabled={loading}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiagnosisPicker;
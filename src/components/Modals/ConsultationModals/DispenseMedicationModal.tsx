@@ -0,0 +1,321 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { type Consultation } from '../../../services/supabaseService';
+import { dispensingService, type MedicationDispense } from '../../../services/dispensingService';
+import {
+  drugSafetyService,
+  requiresOverrideReason,
+  type DrugSafetyAlert
+} from '../../../services/drugSafetyService';
+import DrugSafetyAlerts from './DrugSafetyAlerts';
+import '../ConsultationModals.css';
+
+interface DispenseMedicationModalProps {
+  isOpen: boolean;
+  consultation: Consultation | null;
+  onClose: () => void;
+  onMedicationDispensed: (dispense: MedicationDispense) => void;
+}
+
+const DispenseMedicationModal: React.FC<DispenseMedicationModalProps> = ({
+  isOpen,
+  consultation,
+  onClose,
+  onMedicationDispensed
+}) => {
+  const [department, setDepartment] = useState('medical');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [items, setItems] = useState<any[]>([]);
+  const [itemsLoading, setItemsLoading] = useState(false);
+  const [dispenseData, setDispenseData] = useState({
+    inventory_item_id: 0,
+    quantity: 1,
+    dosage_instructions: ''
+  });
+
+  // null until the selected item has been checked for allergies and interactions
+  const [safetyAlerts, setSafetyAlerts] = useState<DrugSafetyAlert[] | null>(null);
+  const [overrideReason, setOverrideReason] = useState('');
+
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadItems = useCallback(async () => {
+    try {
+      setItemsLoading(true);
+      setError(null);
+      const data = await dispensingService.getDispensableItems(department);
+      setItems(data);
+    } catch (error: any) {
+      console.error('Error loading dispensable items:', error);
+      setError('Failed to load inventory items');
+    } finally {
+      setItemsLoading(false);
+    }
+  }, [department]);
+
+  // Dental visits dispense from dental stock by default
+  useEffect(() => {
+    if (isOpen && consultation) {
+      setDepartment(consultation.department || 'medical');
+    }
+  }, [isOpen, consultation]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadItems();
+    }
+  }, [isOpen, loadItems]);
+
+  const handleInputChange = (field: string, value: any) => {
+    setDispenseData(prev => ({
+      ...prev,
+      [field]: value
+    }));
+    if (field === 'inventory_item_id') {
+      setSafetyAlerts(null);
+    }
+  };
+
+  const filteredItems = items.filter(item => {
+    if (!searchTerm.trim()) return true;
+    const term = searchTerm.toLowerCase();
+    return (
+      item.generic_name?.toLowerCase().includes(term) ||
+      item.brand_name?.toLowerCase().includes(term) ||
+      item.code?.toLowerCase().includes(term)
+    );
+  });
+
+  const selectedItem = items.find(item => item.id === dispenseData.inventory_item_id);
+  const availableStock = selectedItem ? parseInt(selectedItem.stock_quantity) || 0 : 0;
+
+  const handleDispense = async () => {
+    if (!consultation) {
+      setError('No consultation selected');
+      return;
+    }
+
+    if (!selectedItem) {
+      setError('Please select an item to dispense');
+      return;
+    }
+
+    if (dispenseData.quantity > availableStock) {
+      setError(`Only ${availableStock} ${selectedItem.unit_of_measurement || 'pcs'} available in stock`);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      // Check first; when something is found, show the alerts and wait for the user to dispense again
+      let alerts = safetyAlerts;
+      if (alerts === null) {
+        const itemName = selectedItem.generic_name + (selectedItem.brand_name ? ` (${selectedItem.brand_name})` : '');
+        alerts = await drugSafetyService.checkMedications(consultation, [itemName]);
+        setSafetyAlerts(alerts);
+        if (alerts.length > 0) return;
+      }
+      if (requiresOverrideReason(alerts) && !overrideReason.trim()) {
+        setError('Enter a reason to override the allergy or interaction alert');
+        return;
+      }
+
+      // Record the override first so nothing is dispensed past an alert without it
+      if (alerts.length > 0) {
+        await drugSafetyService.recordOverride(consultation, 'dispense', alerts, overrideReason);
+      }
+
+      const dispense = await dispensingService.dispenseMedication(consultation, {
+        inventory_item_id: dispenseData.inventory_item_id,
+        quantity: dispenseData.quantity,
+        dosage_instructions: dispenseData.dosage_instructions
+      });
+
+      onMedicationDispensed(dispense);
+      handleClose();
+    } catch (error: any) {
+      console.error('Error dispensing medication:', error);
+      setError(error.message || 'Failed to dispense medication');
+      // Stock may have changed under us; refresh the list
+      loadItems();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    setSearchTerm('');
+    setDispenseData({
+      inventory_item_id: 0,
+      quantity: 1,
+      dosage_instructions: ''
+    });
+    setSafetyAlerts(null);
+    setOverrideReason('');
+    setError(null);
+    onClose();
+  };
+
+  if (!isOpen || !consultation) return null;
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-container large">
+        <div className="modal-header">
+          <div className="modal-title-section">
+            <h2 className="modal-title">Dispense Medication</h2>
+            <p className="modal-subtitle">
+              Case: {consultation.case_number} | Patient: {consultation.patient?.first_name} {consultation.patient?.last_name}
+            </p>
+          </div>
+          <button className="modal-close" onClick={handleClose}>
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"/>
+              <line x1="6" y1="6" x2="18" y2="18"/>
+            </svg>
+          </button>
+        </div>
+
+        <div className="modal-body">
+          {error && (
+            <div className="error-message">
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <circle cx="12" cy="12" r="10"/>
+                <line x1="12" y1="8" x2="12" y2="12"/>
+                <line x1="12" y1="16" x2="12.01" y2="16"/>
+              </svg>
+              {error}
+            </div>
+          )}
+
+          <DrugSafetyAlerts
+            alerts={safetyAlerts || []}
+            overrideReason={overrideReason}
+            onOverrideReasonChange={setOverrideReason}
+          />
+
+          <div className="dispense-form">
+            {/* Item Selection */}
+            <div className="form-section">
+              <h4>Select Item</h4>
+              <div className="form-row">
+                <div className="form-group">
+                  <label>Department</label>
+                  <select
+                    value={department}
+                    onChange={(e) => {
+                      setDepartment(e.target.value);
+                      handleInputChange('inventory_item_id', 0);
+                    }}
+                  >
+                    <option value="medical">Medical</option>
+                    <option value="dental">Dental</option>
+                  </select>
+                </div>
+                <div className="form-group">
+                  <label>Search</label>
+                  <input
+                    type="text"
+                    placeholder="Search by generic name, brand or code..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="dispense-item-list">
+                {itemsLoading ? (
+                  <div className="loading-message">Loading inventory items...</div>
+                ) : filteredItems.length === 0 ? (
+                  <div className="dispense-item-empty">No medicines or supplies in stock match your search.</div>
+                ) : (
+                  filteredItems.map(item => (
+                    <label
+                      key={item.id}
+                      className={`dispense-item-option ${dispenseData.inventory_item_id === item.id ? 'selected' : ''}`}
+                    >
+                      <input
+                        type="radio"
+                        name="inventory_item_id"
+                        checked={dispenseData.inventory_item_id === item.id}
+                        onChange={() => handleInputChange('inventory_item_id', item.id)}
+                      />
+                      <div className="dispense-item-info">
+                        <span className="dispense-item-name">
+                          {item.generic_name}{item.brand_name ? ` (${item.brand_name})` : ''}
+                        </span>
+                        <span className="dispense-item-meta">
+                          {item.code ? `${item.code} • ` : ''}{item.classification}
+                          {item.expiration_date ? ` • Exp: ${new Date(item.expiration_date).toLocaleDateString()}` : ''}
+                        </span>
+                      </div>
+                      <span className={`dispense-item-stock ${item.status}`}>
+                        {item.stock_quantity} {item.unit_of_measurement || 'pcs'}
+                      </span>
+                    </label>
+                  ))
+                )}
+              </div>
+            </div>
+
+            {/* Quantity and Instructions */}
+            <div className="form-section">
+              <h4>Dispense Details</h4>
+              <div className="form-row">
+                <div className="form-group">
+                  <label>Quantity <span className="required-mark">*</span></label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={availableStock || undefined}
+                    value={dispenseData.quantity}
+                    onChange={(e) => handleInputChange('quantity', parseInt(e.target.value) || 0)}
+                  />
+                  {selectedItem && (
+                    <span className="input-hint">
+                      Available: {availableStock} {selectedItem.unit_of_measurement || 'pcs'}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div className="form-row">
+                <div className="form-group">
+                  <label>Dosage Instructions</label>
+                  <textarea
+                    placeholder="e.g. 1 tablet every 8 hours after meals for 3 days"
+                    value={dispenseData.dosage_instructions}
+                    onChange={(e) => handleInputChange('dosage_instructions', e.target.value)}
+                    rows={3}
+                  />
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="modal-footer">
+          <button className="btn-secondary" onClick={handleClose} disabled={loading}>
+            Cancel
+          </button>
+          <button
+            className="btn-primary"
+            onClick={handleDispense}
+            disabled={loading || !selectedItem || dispenseData.quantity <= 0}
+          >
+            {loading ? (
+              <span className="loading-spinner">Dispensing...</span>
+            ) : safetyAlerts && safetyAlerts.length > 0 ? (
+              'Override & Dispense'
+            ) : (
+              'Dispense'
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DispenseMedicationModal;
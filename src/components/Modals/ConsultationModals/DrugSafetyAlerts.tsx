@@ -0,0 +1,57 @@
+import React from 'react';
+import {
+  requiresOverrideReason,
+  type DrugSafetyAlert
+} from '../../../services/drugSafetyService';
+import '../ConsultationModals.css';
+
+interface DrugSafetyAlertsProps {
+  alerts: DrugSafetyAlert[];
+  overrideReason: string;
+  onOverrideReasonChange: (reason: string) => void;
+}
+
+// Allergy and interaction alerts raised before prescribing or dispensing, with the override reason
+const DrugSafetyAlerts: React.FC<DrugSafetyAlertsProps> = ({
+  alerts,
+  overrideReason,
+  onOverrideReasonChange
+}) => {
+  if (alerts.length === 0) return null;
+
+  const isBlocking = requiresOverrideReason(alerts);
+
+  return (
+    <div className={`drug-safety-alerts ${isBlocking ? 'block' : 'warn'}`}>
+      <h4>
+        {isBlocking ? 'Stop: allergy or contraindication found' : 'Check before continuing'}
+      </h4>
+      <ul>
+        {alerts.map((alert, index) => (
+          <li key={index} className={alert.level}>
+            <span className="drug-safety-kind">{alert.kind === 'allergy' ? 'Allergy' : 'Interaction'}</span>
+            <span>
+              <strong>{alert.drug}:</strong> {alert.message}
+            </span>
+          </li>
+        ))}
+      </ul>
+      <div className="form-group">
+        <label>
+          Override Reason {isBlocking && <span className="required-mark">*</span>}
+        </label>
+        <textarea
+          placeholder={isBlocking
+            ? 'Required to continue, e.g. allergy was a mild rash; benefit outweighs risk; patient informed'
+            : 'Optional, e.g. doses will be spaced; patient counselled'}
+          value={overrideReason}
+          onChange={(e) => onOverrideReasonChange(e.target.value)}
+          rows={2}
+        />
+        <span className="field-hint">The override and reason are recorded in the patient's monitoring log.</span>
+      </div>
+    </div>
+  );
+};
+
+export default DrugSafetyAlerts;
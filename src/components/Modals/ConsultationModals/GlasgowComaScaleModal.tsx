@@ -6,6 +6,7 @@ import {
   type GlasgowComaScale,
   type Consultation
 } from '../../../services/supabaseService';
+import { earlyWarningService } from '../../../services/earlyWarningService';
 import '../ConsultationModals.css';
 
 interface GlasgowComaScaleModalProps {
@@ -180,6 +181,9 @@ const GlasgowComaScaleModal: React.FC<GlasgowComaScaleModalProps> = ({
         });
       }
 
+      // Consciousness is part of the early warning score of the latest vital signs
+      await earlyWarningService.rescoreLatestVitalSigns(consultation);
+
       onGlasgowComaScaleRecorded(recordedGlasgowComaScale);
       handleClose();
     } catch (error: any) {
@@ -0,0 +1,345 @@
+import React, { useState, useEffect } from 'react';
+import { patientMonitoringService, type Consultation } from '../../../services/supabaseService';
+import {
+  incidentReportService,
+  incidentInputFromVitalSigns,
+  type IncidentReport,
+  type IncidentReportInput
+} from '../../../services/incidentReportService';
+import {
+  CAMPUS_LOCATIONS,
+  INCIDENT_DISPOSITION_LABELS,
+  INJURY_MECHANISM_LABELS,
+  INJURY_TYPES,
+  type IncidentDisposition,
+  type InjuryMechanism
+} from '../../../constants/incidents';
+import '../ConsultationModals.css';
+
+interface IncidentReportModalProps {
+  isOpen: boolean;
+  consultation: Consultation | null;
+  onClose: () => void;
+  onIncidentReportCreated: (report: IncidentReport) => void;
+}
+
+const IncidentReportModal: React.FC<IncidentReportModalProps> = ({
+  isOpen,
+  consultation,
+  onClose,
+  onIncidentReportCreated
+}) => {
+  const [formData, setFormData] = useState<IncidentReportInput>(incidentInputFromVitalSigns());
+  const [prefilledFromVitals, setPrefilledFromVitals] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !consultation) return;
+
+    setFormData(incidentInputFromVitalSigns());
+    setPrefilledFromVitals(false);
+
+    patientMonitoringService.getLatestVitalSignsByConsultationId(consultation.id)
+      .then(vitals => {
+        if (!vitals || !(vitals.patient_has_injuries || vitals.noi || vitals.poi)) return;
+        setFormData(incidentInputFromVitalSigns(vitals));
+        setPrefilledFromVitals(true);
+      })
+      .catch(error => console.error('Error loading vital signs:', error));
+  }, [isOpen, consultation]);
+
+  const handleInputChange = <K extends keyof IncidentReportInput>(field: K, value: IncidentReportInput[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const updateWitness = (index: number, changes: { name?: string; contact?: string }) => {
+    setFormData(prev => ({
+      ...prev,
+      witnesses: prev.witnesses.map((witness, i) => (i === index ? { ...witness, ...changes } : witness))
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!consultation) {
+      setError('No consultation selected');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const report = await incidentReportService.createIncidentReport(consultation, formData);
+      onIncidentReportCreated(report);
+      handleClose();
+    } catch (error: any) {
+      console.error('Error filing incident report:', error);
+      setError(error.message || 'Failed to file incident report');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    setFormData(incidentInputFromVitalSigns());
+    setPrefilledFromVitals(false);
+    setError(null);
+    onClose();
+  };
+
+  if (!isOpen || !consultation) return null;
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-container large">
+        <div className="modal-header">
+          <div className="modal-title-section">
+            <h2 className="modal-title">Incident Report</h2>
+            <p className="modal-subtitle">
+              Case: {consultation.case_number} | Patient: {consultation.patient?.first_name} {consultation.patient?.last_name}
+            </p>
+          </div>
+          <button className="modal-close" onClick={handleClose}>
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"/>
+              <line x1="6" y1="6" x2="18" y2="18"/>
+            </svg>
+          </button>
+        </div>
+
+        <div className="modal-body">
+          {error && (
+            <div className="error-message">
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <circle cx="12" cy="12" r="10"/>
+                <line x1="12" y1="8" x2="12" y2="12"/>
+                <line x1="12" y1="16" x2="12.01" y2="16"/>
+              </svg>
+              {error}
+            </div>
+          )}
+
+          <div className="form-section">
+            <h4>Where and When</h4>
+            {prefilledFromVitals && (
+              <span className="field-hint">Pre-filled from the NOI / POI / DOI / TOI recorded with the vital signs.</span>
+            )}
+            <div className="form-row">
+              <div className="form-group">
+                <label>Place of Injury <span className="required-mark">*</span></label>
+                <select
+                  value={formData.poi}
+                  onChange={(e) => handleInputChange('poi', e.target.value)}
+                >
+                  <option value="">Select location</option>
+                  {CAMPUS_LOCATIONS.map(location => (
+                    <option key={location} value={location}>{location}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-group">
+                <label>Exact Spot {formData.poi === 'Other' && <span className="required-mark">*</span>}</label>
+                <input
+                  type="text"
+                  placeholder="e.g. Chemistry Lab 2, near the fume hood"
+                  value={formData.poi_details || ''}
+                  onChange={(e) => handleInputChange('poi_details', e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label>Date of Injury <span className="required-mark">*</span></label>
+                <input
+                  type="date"
+                  value={formData.doi}
+                  onChange={(e) => handleInputChange('doi', e.target.value)}
+                />
+              </div>
+              <div className="form-group">
+                <label>Time of Injury</label>
+                <input
+                  type="time"
+                  value={formData.toi || ''}
+                  onChange={(e) => handleInputChange('toi', e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="form-section">
+            <h4>What Happened</h4>
+            <div className="form-row">
+              <div className="form-group">
+                <label>Mechanism <span className="required-mark">*</span></label>
+                <select
+                  value={formData.mechanism}
+                  onChange={(e) => handleInputChange('mechanism', e.target.value as InjuryMechanism)}
+                >
+                  {(Object.keys(INJURY_MECHANISM_LABELS) as InjuryMechanism[]).map(mechanism => (
+                    <option key={mechanism} value={mechanism}>{INJURY_MECHANISM_LABELS[mechanism]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label>Account of the Incident <span className="required-mark">*</span></label>
+                <textarea
+                  placeholder="e.g. Slipped on the wet floor while running down the stairs to the canteen"
+                  value={formData.mechanism_details}
+                  onChange={(e) => handleInputChange('mechanism_details', e.target.value)}
+                  rows={3}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="form-section">
+            <h4>Injuries</h4>
+            <div className="form-row">
+              <div className="form-group">
+                <label>Nature of Injury <span className="required-mark">*</span></label>
+                <input
+                  type="text"
+                  placeholder="e.g. Laceration, 3 cm, left forearm"
+                  value={formData.noi}
+                  onChange={(e) => handleInputChange('noi', e.target.value)}
+                />
+              </div>
+              <div className="form-group">
+                <label>Body Parts Affected</label>
+                <input
+                  type="text"
+                  placeholder="e.g. Left forearm, right knee"
+                  value={formData.body_parts || ''}
+                  onChange={(e) => handleInputChange('body_parts', e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="checkbox-group">
+              {INJURY_TYPES.map(({ field, label }) => (
+                <label key={field} className="checkbox-label">
+                  <input
+                    type="checkbox"
+                    checked={formData[field]}
+                    onChange={(e) => handleInputChange(field, e.target.checked)}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <input
+                  type="text"
+                  placeholder="Other injury"
+                  value={formData.injury_other || ''}
+                  onChange={(e) => handleInputChange('injury_other', e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="form-section">
+            <h4>Witnesses</h4>
+            {formData.witnesses.length === 0 && (
+              <span className="field-hint">No witnesses recorded.</span>
+            )}
+            {formData.witnesses.map((witness, index) => (
+              <div key={index} className="incident-witness-row">
+                <input
+                  type="text"
+                  placeholder="Name"
+                  value={witness.name}
+                  onChange={(e) => updateWitness(index, { name: e.target.value })}
+                />
+                <input
+                  type="text"
+                  placeholder="Contact number or section"
+                  value={witness.contact || ''}
+                  onChange={(e) => updateWitness(index, { contact: e.target.value })}
+                />
+                <button
+                  type="button"
+                  className="btn-icon btn-delete"
+                  onClick={() => handleInputChange('witnesses', formData.witnesses.filter((_, i) => i !== index))}
+                  title="Remove witness"
+                >
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <polyline points="3 6 5 6 21 6"/>
+                    <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"/>
+                  </svg>
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              className="btn-secondary"
+              onClick={() => handleInputChange('witnesses', [...formData.witnesses, { name: '', contact: '' }])}
+            >
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <line x1="12" y1="5" x2="12" y2="19"/>
+                <line x1="5" y1="12" x2="19" y2="12"/>
+              </svg>
+              Add Witness
+            </button>
+          </div>
+
+          <div className="form-section">
+            <h4>Care and Disposition</h4>
+            <div className="form-row">
+              <div className="form-group">
+                <label>First Aid Given</label>
+                <textarea
+                  placeholder="e.g. Wound cleaned with NSS, pressure dressing applied"
+                  value={formData.first_aid_given || ''}
+                  onChange={(e) => handleInputChange('first_aid_given', e.target.value)}
+                  rows={2}
+                />
+              </div>
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label>Disposition <span className="required-mark">*</span></label>
+                <select
+                  value={formData.disposition}
+                  onChange={(e) => handleInputChange('disposition', e.target.value as IncidentDisposition)}
+                >
+                  {(Object.keys(INCIDENT_DISPOSITION_LABELS) as IncidentDisposition[]).map(disposition => (
+                    <option key={disposition} value={disposition}>{INCIDENT_DISPOSITION_LABELS[disposition]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-group">
+                <label>Disposition Notes</label>
+                <input
+                  type="text"
+                  placeholder="e.g. Fetched by guardian at 3:00 PM"
+                  value={formData.disposition_notes || ''}
+                  onChange={(e) => handleInputChange('disposition_notes', e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="modal-footer">
+          <button className="btn-secondary" onClick={handleClose} disabled={loading}>
+            Cancel
+          </button>
+          <button className="btn-primary" onClick={handleSave} disabled={loading}>
+            {loading ? (
+              <span className="loading-spinner">Saving...</span>
+            ) : (
+              'File Incident Report'
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IncidentReportModal;
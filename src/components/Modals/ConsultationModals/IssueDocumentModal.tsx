@@ -0,0 +1,275 @@
+import React, { useState, useEffect } from 'react';
+import { type Consultation } from '../../../services/supabaseService';
+import { diagnosisService } from '../../../services/diagnosisService';
+import {
+  medicalDocumentService,
+  MEDICAL_DOCUMENT_TYPE_LABELS,
+  type MedicalDocument,
+  type MedicalDocumentInput,
+  type MedicalDocumentType
+} from '../../../services/medicalDocumentService';
+import '../ConsultationModals.css';
+
+interface IssueDocumentModalProps {
+  isOpen: boolean;
+  consultation: Consultation | null;
+  onClose: () => void;
+  onDocumentIssued: (document: MedicalDocument) => void;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const emptyForm = (): MedicalDocumentInput => ({
+  document_type: 'medical_certificate',
+  diagnosis: '',
+  recommendations: '',
+  purpose: '',
+  rest_from: '',
+  rest_to: '',
+  fit_to_return_on: '',
+  referred_to: '',
+  referral_reason: ''
+});
+
+const IssueDocumentModal: React.FC<IssueDocumentModalProps> = ({
+  isOpen,
+  consultation,
+  onClose,
+  onDocumentIssued
+}) => {
+  const [formData, setFormData] = useState<MedicalDocumentInput>(emptyForm());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Prefill from the consultation: coded diagnoses (falling back to the free-text
+  // diagnosis) and the SOAP plan as recommendations
+  useEffect(() => {
+    if (!isOpen || !consultation) return;
+
+    setFormData({
+      ...emptyForm(),
+      diagnosis: consultation.diagnosis || '',
+      recommendations: consultation.plan_notes || '',
+      rest_from: today(),
+      fit_to_return_on: today()
+    });
+
+    diagnosisService.getDiagnosisSummary(consultation)
+      .then(diagnosis => setFormData(prev => ({ ...prev, diagnosis })))
+      .catch(error => console.error('Error loading diagnoses:', error));
+  }, [isOpen, consultation]);
+
+  const handleInputChange = (field: keyof MedicalDocumentInput, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleIssue = async () => {
+    if (!consultation) {
+      setError('No consultation selected');
+      return;
+    }
+
+    const label = MEDICAL_DOCUMENT_TYPE_LABELS[formData.document_type];
+    if (!window.confirm(`Issue this ${label.toLowerCase()} under your name and license number? Issued documents cannot be edited.`)) return;
+
+    // Only the fields the chosen template uses are stored
+    const input: MedicalDocumentInput = {
+      document_type: formData.document_type,
+      diagnosis: formData.diagnosis,
+      recommendations: formData.recommendations,
+      purpose: formData.document_type === 'referral_letter' ? null : formData.purpose,
+      rest_from: formData.document_type === 'medical_certificate' ? formData.rest_from : null,
+      rest_to: formData.document_type === 'medical_certificate' ? formData.rest_to : null,
+      fit_to_return_on: formData.document_type === 'fit_to_return' ? formData.fit_to_return_on : null,
+      referred_to: formData.document_type === 'referral_letter' ? formData.referred_to : null,
+      referral_reason: formData.document_type === 'referral_letter' ? formData.referral_reason : null
+    };
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const document = await medicalDocumentService.issueDocument(consultation, input);
+      onDocumentIssued(document);
+      handleClose();
+    } catch (error: any) {
+      console.error('Error issuing document:', error);
+      setError(error.message || 'Failed to issue document');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    setFormData(emptyForm());
+    setError(null);
+    onClose();
+  };
+
+  if (!isOpen || !consultation) return null;
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-container large">
+        <div className="modal-header">
+          <div className="modal-title-section">
+            <h2 className="modal-title">Issue Medical Document</h2>
+            <p className="modal-subtitle">
+              Case: {consultation.case_number} | Patient: {consultation.patient?.first_name} {consultation.patient?.last_name}
+            </p>
+          </div>
+          <button className="modal-close" onClick={handleClose}>
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"/>
+              <line x1="6" y1="6" x2="18" y2="18"/>
+            </svg>
+          </button>
+        </div>
+
+        <div className="modal-body">
+          {error && (
+            <div className="error-message">
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <circle cx="12" cy="12" r="10"/>
+                <line x1="12" y1="8" x2="12" y2="12"/>
+                <line x1="12" y1="16" x2="12.01" y2="16"/>
+              </svg>
+              {error}
+            </div>
+          )}
+
+          <div className="form-section">
+            <h4>Document</h4>
+            <div className="document-type-options">
+              {(Object.keys(MEDICAL_DOCUMENT_TYPE_LABELS) as MedicalDocumentType[]).map(type => (
+                <button
+                  key={type}
+                  type="button"
+                  className={`document-type-option ${formData.document_type === type ? 'active' : ''}`}
+                  onClick={() => handleInputChange('document_type', type)}
+                >
+                  {MEDICAL_DOCUMENT_TYPE_LABELS[type]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="form-section">
+            <h4>Content</h4>
+            <div className="form-row">
+              <div className="form-group">
+                <label>Diagnosis</label>
+                <textarea
+                  value={formData.diagnosis || ''}
+                  onChange={(e) => handleInputChange('diagnosis', e.target.value)}
+                  rows={2}
+                />
+              </div>
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label>Recommendations</label>
+                <textarea
+                  value={formData.recommendations || ''}
+                  onChange={(e) => handleInputChange('recommendations', e.target.value)}
+                  rows={3}
+                />
+              </div>
+            </div>
+
+            {formData.document_type === 'medical_certificate' && (
+              <div className="form-row">
+                <div className="form-group">
+                  <label>Rest From</label>
+                  <input
+                    type="date"
+                    value={formData.rest_from || ''}
+                    onChange={(e) => handleInputChange('rest_from', e.target.value)}
+                  />
+                </div>
+                <div className="form-group">
+                  <label>Rest Until</label>
+                  <input
+                    type="date"
+                    value={formData.rest_to || ''}
+                    min={formData.rest_from || undefined}
+                    onChange={(e) => handleInputChange('rest_to', e.target.value)}
+                  />
+                  <span className="field-hint">Leave blank if no rest period is advised</span>
+                </div>
+              </div>
+            )}
+
+            {formData.document_type === 'fit_to_return' && (
+              <div className="form-row">
+                <div className="form-group">
+                  <label>Fit to Return On</label>
+                  <input
+                    type="date"
+                    value={formData.fit_to_return_on || ''}
+                    onChange={(e) => handleInputChange('fit_to_return_on', e.target.value)}
+                  />
+                </div>
+              </div>
+            )}
+
+            {formData.document_type === 'referral_letter' ? (
+              <>
+                <div className="form-row">
+                  <div className="form-group">
+                    <label>Referred To <span className="required-mark">*</span></label>
+                    <input
+                      type="text"
+                      placeholder="Doctor, specialty or facility"
+                      value={formData.referred_to || ''}
+                      onChange={(e) => handleInputChange('referred_to', e.target.value)}
+                    />
+                    <span className="field-hint">Also sent as a routine referral and tracked under Referrals</span>
+                  </div>
+                </div>
+                <div className="form-row">
+                  <div className="form-group">
+                    <label>Reason for Referral <span className="required-mark">*</span></label>
+                    <textarea
+                      placeholder="e.g. For further evaluation and management"
+                      value={formData.referral_reason || ''}
+                      onChange={(e) => handleInputChange('referral_reason', e.target.value)}
+                      rows={3}
+                    />
+                  </div>
+                </div>
+              </>
+            ) : (
+              <div className="form-row">
+                <div className="form-group">
+                  <label>Purpose</label>
+                  <input
+                    type="text"
+                    placeholder="e.g. school excuse, work leave, employment requirement"
+                    value={formData.purpose || ''}
+                    onChange={(e) => handleInputChange('purpose', e.target.value)}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="modal-footer">
+          <button className="btn-secondary" onClick={handleClose} disabled={loading}>
+            Cancel
+          </button>
+          <button className="btn-primary" onClick={handleIssue} disabled={loading}>
+            {loading ? (
+              <span className="loading-spinner">Issuing...</span>
+            ) : (
+              'Sign & Issue'
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IssueDocumentModal;
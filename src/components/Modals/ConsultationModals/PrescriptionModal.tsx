@@ -0,0 +1,334 @@
+import React, { useState, useEffect } from 'react';
+import { type Consultation } from '../../../services/supabaseService';
+import {
+  prescriptionService,
+  FREQUENCY_OPTIONS,
+  type Prescription,
+  type PrescriptionItemInput
+} from '../../../services/prescriptionService';
+import {
+  drugSafetyService,
+  requiresOverrideReason,
+  type DrugSafetyAlert
+} from '../../../services/drugSafetyService';
+import DrugSafetyAlerts from './DrugSafetyAlerts';
+import '../ConsultationModals.css';
+
+interface PrescriptionModalProps {
+  isOpen: boolean;
+  consultation: Consultation | null;
+  editingPrescription?: Prescription | null;
+  onClose: () => void;
+  onPrescriptionSaved: (prescription: Prescription) => void;
+}
+
+const emptyLine = (): PrescriptionItemInput => ({
+  inventory_item_id: null,
+  drug_name: '',
+  strength: '',
+  dose: '',
+  frequency: '',
+  duration: '',
+  quantity: 1,
+  instructions: ''
+});
+
+const itemLabel = (item: any) => item.generic_name + (item.brand_name ? ` (${item.brand_name})` : '');
+
+const PrescriptionModal: React.FC<PrescriptionModalProps> = ({
+  isOpen,
+  consultation,
+  editingPrescription,
+  onClose,
+  onPrescriptionSaved
+}) => {
+  const [lines, setLines] = useState<PrescriptionItemInput[]>([emptyLine()]);
+  const [notes, setNotes] = useState('');
+  const [medicines, setMedicines] = useState<any[]>([]);
+  // null until the current lines have been checked for allergies and interactions
+  const [safetyAlerts, setSafetyAlerts] = useState<DrugSafetyAlert[] | null>(null);
+  const [overrideReason, setOverrideReason] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    if (editingPrescription) {
+      setLines(editingPrescription.items.map(({ id, prescription_id, sort_order, ...item }) => ({ ...item })));
+      setNotes(editingPrescription.notes || '');
+    } else {
+      setLines([emptyLine()]);
+      setNotes('');
+    }
+    setSafetyAlerts(null);
+    setOverrideReason('');
+
+    prescriptionService.getPrescribableItems()
+      .then(setMedicines)
+      .catch(error => console.error('Error loading medicines:', error));
+  }, [isOpen, editingPrescription]);
+
+  const updateLine = (index: number, changes: Partial<PrescriptionItemInput>) => {
+    setLines(prev => prev.map((line, i) => i === index ? { ...line, ...changes } : line));
+    if (changes.drug_name !== undefined) {
+      setSafetyAlerts(null);
+    }
+  };
+
+  // Typing a name that matches a stocked medicine links the line to that inventory item
+  const handleDrugChange = (index: number, drugName: string) => {
+    const match = medicines.find(item => itemLabel(item).toLowerCase() === drugName.trim().toLowerCase());
+    updateLine(index, { drug_name: drugName, inventory_item_id: match ? match.id : null });
+  };
+
+  const removeLine = (index: number) => {
+    setLines(prev => prev.filter((_, i) => i !== index));
+    setSafetyAlerts(null);
+  };
+
+  const handleSave = async () => {
+    if (!consultation) {
+      setError('No consultation selected');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      // Check first; when something is found, show the alerts and wait for the user to save again
+      let alerts = safetyAlerts;
+      if (alerts === null) {
+        alerts = await drugSafetyService.checkMedications(
+          consultation,
+          lines.map(line => line.drug_name),
+          editingPrescription?.id
+        );
+        setSafetyAlerts(alerts);
+        if (alerts.length > 0) return;
+      }
+      if (requiresOverrideReason(alerts) && !overrideReason.trim()) {
+        setError('Enter a reason to override the allergy or interaction alert');
+        return;
+      }
+
+      // Record the override first so nothing is saved past an alert without it
+      if (alerts.length > 0) {
+        await drugSafetyService.recordOverride(consultation, 'prescribe', alerts, overrideReason);
+      }
+
+      const prescription = editingPrescription
+        ? await prescriptionService.updateDraft(editingPrescription.id, lines, notes)
+        : await prescriptionService.createPrescription(consultation, lines, notes);
+
+      onPrescriptionSaved(prescription);
+      handleClose();
+    } catch (error: any) {
+      console.error('Error saving prescription:', error);
+      setError(error.message || 'Failed to save prescription');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    setLines([emptyLine()]);
+    setNotes('');
+    setSafetyAlerts(null);
+    setOverrideReason('');
+    setError(null);
+    onClose();
+  };
+
+  if (!isOpen || !consultation) return null;
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-container extra-large">
+        <div className="modal-header">
+          <div className="modal-title-section">
+            <h2 className="modal-title">
+              {editingPrescription ? `Edit Prescription ${editingPrescription.prescription_number}` : 'Write Prescription'}
+            </h2>
+            <p className="modal-subtitle">
+              Case: {consultation.case_number} | Patient: {consultation.patient?.first_name} {consultation.patient?.last_name}
+            </p>
+          </div>
+          <button className="modal-close" onClick={handleClose}>
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"/>
+              <line x1="6" y1="6" x2="18" y2="18"/>
+            </svg>
+          </button>
+        </div>
+
+        <div className="modal-body">
+          {error && (
+            <div className="error-message">
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <circle cx="12" cy="12" r="10"/>
+                <line x1="12" y1="8" x2="12" y2="12"/>
+                <line x1="12" y1="16" x2="12.01" y2="16"/>
+              </svg>
+              {error}
+            </div>
+          )}
+
+          <DrugSafetyAlerts
+            alerts={safetyAlerts || []}
+            overrideReason={overrideReason}
+            onOverrideReasonChange={setOverrideReason}
+          />
+
+          <datalist id="prescription-medicines">
+            {medicines.map(item => (
+              <option key={item.id} value={itemLabel(item)} />
+            ))}
+          </datalist>
+          <datalist id="prescription-frequencies">
+            {FREQUENCY_OPTIONS.map(option => (
+              <option key={option} value={option} />
+            ))}
+          </datalist>
+
+          <div className="form-section">
+            <h4>Drugs</h4>
+            <div className="prescription-lines">
+              {lines.map((line, index) => (
+                <div key={index} className="prescription-line">
+                  <div className="prescription-line-header">
+                    <span className="prescription-line-number">{index + 1}</span>
+                    {line.drug_name.trim() && (
+                      <span className={`prescription-stock-hint ${line.inventory_item_id ? 'stocked' : ''}`}>
+                        {line.inventory_item_id ? 'Clinic stock' : 'Not stocked by the clinic'}
+                      </span>
+                    )}
+                    {lines.length > 1 && (
+                      <button
+                        type="button"
+                        className="btn-icon btn-delete"
+                        onClick={() => removeLine(index)}
+                        title="Remove drug"
+                      >
+                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                          <polyline points="3 6 5 6 21 6"/>
+                          <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"/>
+                        </svg>
+                      </button>
+                    )}
+                  </div>
+                  <div className="prescription-line-grid">
+                    <div className="form-group prescription-drug">
+                      <label>Drug <span className="required-mark">*</span></label>
+                      <input
+                        type="text"
+                        list="prescription-medicines"
+                        placeholder="Generic name (brand)"
+                        value={line.drug_name}
+                        onChange={(e) => handleDrugChange(index, e.target.value)}
+                      />
+                    </div>
+                    <div className="form-group">
+                      <label>Strength</label>
+                      <input
+                        type="text"
+                        placeholder="e.g. 500 mg"
+                        value={line.strength || ''}
+                        onChange={(e) => updateLine(index, { strength: e.target.value })}
+                      />
+                    </div>
+                    <div className="form-group">
+                      <label>Dose <span className="required-mark">*</span></label>
+                      <input
+                        type="text"
+                        placeholder="e.g. 1 tablet"
+                        value={line.dose}
+                        onChange={(e) => updateLine(index, { dose: e.target.value })}
+                      />
+                    </div>
+                    <div className="form-group">
+                      <label>Frequency <span className="required-mark">*</span></label>
+                      <input
+                        type="text"
+                        list="prescription-frequencies"
+                        placeholder="e.g. Every 8 hours"
+                        value={line.frequency}
+                        onChange={(e) => updateLine(index, { frequency: e.target.value })}
+                      />
+                    </div>
+                    <div className="form-group">
+                      <label>Duration</label>
+                      <input
+                        type="text"
+                        placeholder="e.g. 7 days"
+                        value={line.duration || ''}
+                        onChange={(e) => updateLine(index, { duration: e.target.value })}
+                      />
+                    </div>
+                    <div className="form-group">
+                      <label>Quantity <span className="required-mark">*</span></label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={line.quantity}
+                        onChange={(e) => updateLine(index, { quantity: parseInt(e.target.value) || 0 })}
+                      />
+                    </div>
+                    <div className="form-group prescription-instructions">
+                      <label>Instructions</label>
+                      <input
+                        type="text"
+                        placeholder="e.g. Take after meals"
+                        value={line.instructions || ''}
+                        onChange={(e) => updateLine(index, { instructions: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <button type="button" className="btn-secondary" onClick={() => setLines(prev => [...prev, emptyLine()])}>
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <line x1="12" y1="5" x2="12" y2="19"/>
+                <line x1="5" y1="12" x2="19" y2="12"/>
+              </svg>
+              Add Drug
+            </button>
+          </div>
+
+          <div className="form-section">
+            <h4>Notes</h4>
+            <div className="form-row">
+              <div className="form-group">
+                <textarea
+                  placeholder="Additional advice printed on the slip (follow-up date, precautions...)"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={3}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="modal-footer">
+          <button className="btn-secondary" onClick={handleClose} disabled={loading}>
+            Cancel
+          </button>
+          <button className="btn-primary" onClick={handleSave} disabled={loading}>
+            {loading ? (
+              <span className="loading-spinner">Saving...</span>
+            ) : safetyAlerts && safetyAlerts.length > 0 ? (
+              'Override & Save Draft'
+            ) : (
+              'Save Draft'
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PrescriptionModal;
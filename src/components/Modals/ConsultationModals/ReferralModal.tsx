@@ -0,0 +1,205 @@
+import React, { useState, useEffect } from 'react';
+import { type Consultation } from '../../../services/supabaseService';
+import { diagnosisService } from '../../../services/diagnosisService';
+import {
+  referralService,
+  REFERRAL_SPECIALTIES,
+  REFERRAL_URGENCY_LABELS,
+  type Referral,
+  type ReferralInput,
+  type ReferralUrgency
+} from '../../../services/referralService';
+import '../ConsultationModals.css';
+
+interface ReferralModalProps {
+  isOpen: boolean;
+  consultation: Consultation | null;
+  onClose: () => void;
+  onReferralCreated: (referral: Referral) => void;
+}
+
+const emptyForm = (): ReferralInput => ({
+  destination_facility: '',
+  specialty: '',
+  urgency: 'routine',
+  reason: '',
+  working_diagnosis: ''
+});
+
+const ReferralModal: React.FC<ReferralModalProps> = ({
+  isOpen,
+  consultation,
+  onClose,
+  onReferralCreated
+}) => {
+  const [formData, setFormData] = useState<ReferralInput>(emptyForm());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !consultation) return;
+
+    setFormData({ ...emptyForm(), working_diagnosis: consultation.diagnosis || '' });
+
+    diagnosisService.getDiagnosisSummary(consultation)
+      .then(working_diagnosis => setFormData(prev => ({ ...prev, working_diagnosis })))
+      .catch(error => console.error('Error loading diagnoses:', error));
+  }, [isOpen, consultation]);
+
+  const handleInputChange = (field: keyof ReferralInput, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSend = async () => {
+    if (!consultation) {
+      setError('No consultation selected');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const referral = await referralService.createReferral(consultation, formData);
+      onReferralCreated(referral);
+      handleClose();
+    } catch (error: any) {
+      console.error('Error creating referral:', error);
+      setError(error.message || 'Failed to create referral');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    setFormData(emptyForm());
+    setError(null);
+    onClose();
+  };
+
+  if (!isOpen || !consultation) return null;
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-container large">
+        <div className="modal-header">
+          <div className="modal-title-section">
+            <h2 className="modal-title">Refer Patient</h2>
+            <p className="modal-subtitle">
+              Case: {consultation.case_number} | Patient: {consultation.patient?.first_name} {consultation.patient?.last_name}
+            </p>
+          </div>
+          <button className="modal-close" onClick={handleClose}>
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"/>
+              <line x1="6" y1="6" x2="18" y2="18"/>
+            </svg>
+          </button>
+        </div>
+
+        <div className="modal-body">
+          {error && (
+            <div className="error-message">
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <circle cx="12" cy="12" r="10"/>
+                <line x1="12" y1="8" x2="12" y2="12"/>
+                <line x1="12" y1="16" x2="12.01" y2="16"/>
+              </svg>
+              {error}
+            </div>
+          )}
+
+          <datalist id="referral-specialties">
+            {REFERRAL_SPECIALTIES.map(specialty => (
+              <option key={specialty} value={specialty} />
+            ))}
+          </datalist>
+
+          <div className="form-section">
+            <h4>Destination</h4>
+            <div className="form-row">
+              <div className="form-group">
+                <label>Hospital / Specialist <span className="required-mark">*</span></label>
+                <input
+                  type="text"
+                  placeholder="e.g. Provincial Hospital, Dr. Santos"
+                  value={formData.destination_facility}
+                  onChange={(e) => handleInputChange('destination_facility', e.target.value)}
+                />
+              </div>
+              <div className="form-group">
+                <label>Specialty</label>
+                <input
+                  type="text"
+                  list="referral-specialties"
+                  value={formData.specialty || ''}
+                  onChange={(e) => handleInputChange('specialty', e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label>Urgency <span className="required-mark">*</span></label>
+                <div className="document-type-options">
+                  {(Object.keys(REFERRAL_URGENCY_LABELS) as ReferralUrgency[]).map(urgency => (
+                    <button
+                      key={urgency}
+                      type="button"
+                      className={`document-type-option referral-urgency-option ${urgency} ${formData.urgency === urgency ? 'active' : ''}`}
+                      onClick={() => handleInputChange('urgency', urgency)}
+                    >
+                      {REFERRAL_URGENCY_LABELS[urgency]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className="form-section">
+            <h4>Clinical Details</h4>
+            <div className="form-row">
+              <div className="form-group">
+                <label>Reason for Referral <span className="required-mark">*</span></label>
+                <textarea
+                  placeholder="e.g. For further evaluation and X-ray of suspected fracture"
+                  value={formData.reason}
+                  onChange={(e) => handleInputChange('reason', e.target.value)}
+                  rows={3}
+                />
+              </div>
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label>Working Diagnosis</label>
+                <textarea
+                  value={formData.working_diagnosis || ''}
+                  onChange={(e) => handleInputChange('working_diagnosis', e.target.value)}
+                  rows={2}
+                />
+                <span className="field-hint">
+                  The latest vital signs and Glasgow Coma Scale are attached to the referral automatically.
+                </span>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="modal-footer">
+          <button className="btn-secondary" onClick={handleClose} disabled={loading}>
+            Cancel
+          </button>
+          <button className="btn-primary" onClick={handleSend} disabled={loading}>
+            {loading ? (
+              <span className="loading-spinner">Sending...</span>
+            ) : (
+              'Sign & Send Referral'
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReferralModal;
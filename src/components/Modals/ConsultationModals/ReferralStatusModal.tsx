@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { referralService, type Referral } from '../../../services/referralService';
+import '../ConsultationModals.css';
+
+export type ReferralStatusAction = 'accept' | 'return' | 'cancel';
+
+interface ReferralStatusModalProps {
+  isOpen: boolean;
+  referral: Referral | null;
+  action: ReferralStatusAction;
+  onClose: () => void;
+  onReferralUpdated: (referral: Referral) => void;
+}
+
+const ACTION_COPY: Record<ReferralStatusAction, { title: string; label: string; placeholder: string; button: string; rows: number }> = {
+  accept: {
+    title: 'Mark Referral Accepted',
+    label: 'Accepted By',
+    placeholder: 'Name of the receiving physician or desk (optional)',
+    button: 'Mark Accepted',
+    rows: 1
+  },
+  return: {
+    title: 'Record Return with Findings',
+    label: 'Findings',
+    placeholder: 'Diagnosis, results and recommendations from the receiving facility',
+    button: 'Save Findings',
+    rows: 5
+  },
+  cancel: {
+    title: 'Cancel Referral',
+    label: 'Reason',
+    placeholder: 'e.g. Patient declined, referred elsewhere',
+    button: 'Cancel Referral',
+    rows: 3
+  }
+};
+
+const ReferralStatusModal: React.FC<ReferralStatusModalProps> = ({
+  isOpen,
+  referral,
+  action,
+  onClose,
+  onReferralUpdated
+}) => {
+  const [text, setText] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const copy = ACTION_COPY[action];
+
+  const handleSave = async () => {
+    if (!referral) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const updated = action === 'accept'
+        ? await referralService.markAccepted(referral, text)
+        : action === 'return'
+          ? await referralService.recordReturn(referral, text)
+          : await referralService.cancelReferral(referral, text);
+
+      onReferralUpdated(updated);
+      handleClose();
+    } catch (error: any) {
+      console.error('Error updating referral:', error);
+      setError(error.message || 'Failed to update referral');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    setText('');
+    setError(null);
+    onClose();
+  };
+
+  if (!isOpen || !referral) return null;
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-container large">
+        <div className="modal-header">
+          <div className="modal-title-section">
+            <h2 className="modal-title">{copy.title}</h2>
+            <p className="modal-subtitle">
+              {referral.referral_number} | {referral.destination_facility}
+            </p>
+          </div>
+          <button className="modal-close" onClick={handleClose}>
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"/>
+              <line x1="6" y1="6" x2="18" y2="18"/>
+            </svg>
+          </button>
+        </div>
+
+        <div className="modal-body">
+          {error && (
+            <div className="error-message">
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <circle cx="12" cy="12" r="10"/>
+                <line x1="12" y1="8" x2="12" y2="12"/>
+                <line x1="12" y1="16" x2="12.01" y2="16"/>
+              </svg>
+              {error}
+            </div>
+          )}
+
+          <div className="form-row">
+            <div className="form-group">
+              <label>
+                {copy.label} {action === 'return' && <span className="required-mark">*</span>}
+              </label>
+              {copy.rows > 1 ? (
+                <textarea
+                  placeholder={copy.placeholder}
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  rows={copy.rows}
+                />
+              ) : (
+                <input
+                  type="text"
+                  placeholder={copy.placeholder}
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                />
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="modal-footer">
+          <button className="btn-secondary" onClick={handleClose} disabled={loading}>
+            Close
+          </button>
+          <button
+            className={action === 'cancel' ? 'btn-danger' : 'btn-primary'}
+            onClick={handleSave}
+            disabled={loading || (action === 'return' && !text.trim())}
+          >
+            {loading ? <span className="loading-spinner">Saving...</span> : copy.button}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReferralStatusModal;
@@ -0,0 +1,308 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { patientMonitoringService, type Patient } from '../../../services/supabaseService';
+import {
+  queueService,
+  calculateTriagePriority,
+  TRIAGE_PRIORITY_LABELS,
+  type QueueEntry,
+  type TriageAssessment
+} from '../../../services/queueService';
+import '../PatientModals/PatientModals.css';
+import '../ConsultationModals.css';
+
+interface RegisterArrivalModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onArrivalRegistered: (entry: QueueEntry) => void;
+}
+
+const MODES_OF_ARRIVAL: NonNullable<TriageAssessment['mode_of_arrival']>[] = ['Ambulatory', 'Assisted', 'Cuddled/Carried'];
+
+const INJURY_FIELDS: { field: keyof TriageAssessment; label: string }[] = [
+  { field: 'injury_abrasion', label: 'Abrasion' },
+  { field: 'injury_contusion', label: 'Contusion' },
+  { field: 'injury_fracture', label: 'Fracture' },
+  { field: 'injury_laceration', label: 'Laceration' },
+  { field: 'injury_puncture', label: 'Puncture' },
+  { field: 'injury_sprain', label: 'Sprain' }
+];
+
+const emptyAssessment = (): TriageAssessment => ({
+  mode_of_arrival: 'Ambulatory',
+  patient_in_pain: false,
+  pain_scale: 0,
+  patient_has_injuries: false,
+  injury_abrasion: false,
+  injury_contusion: false,
+  injury_fracture: false,
+  injury_laceration: false,
+  injury_puncture: false,
+  injury_sprain: false,
+  injury_other: ''
+});
+
+const RegisterArrivalModal: React.FC<RegisterArrivalModalProps> = ({
+  isOpen,
+  onClose,
+  onArrivalRegistered
+}) => {
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [patientSearch, setPatientSearch] = useState('');
+  const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null);
+  const [chiefComplaint, setChiefComplaint] = useState('');
+  const [assessment, setAssessment] = useState<TriageAssessment>(emptyAssessment());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    patientMonitoringService.getActivePatients()
+      .then(setPatients)
+      .catch(error => {
+        console.error('Error loading patients:', error);
+        setError('Failed to load patients');
+      });
+  }, [isOpen]);
+
+  const matchingPatients = useMemo(() => {
+    const search = patientSearch.trim().toLowerCase();
+    if (!search) return [];
+    return patients
+      .filter(patient =>
+        `${patient.first_name} ${patient.last_name}`.toLowerCase().includes(search) ||
+        patient.patient_id.toLowerCase().includes(search)
+      )
+      .slice(0, 8);
+  }, [patients, patientSearch]);
+
+  const triage = calculateTriagePriority(assessment);
+
+  const handleAssessmentChange = (field: keyof TriageAssessment, value: any) => {
+    setAssessment(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleRegister = async () => {
+    if (!selectedPatient) {
+      setError('Select the patient who arrived');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const entry = await queueService.registerArrival(selectedPatient, assessment, chiefComplaint);
+      onArrivalRegistered(entry);
+      handleClose();
+    } catch (error: any) {
+      console.error('Error registering arrival:', error);
+      setError(error.message || 'Failed to register arrival');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    setPatientSearch('');
+    setSelectedPatient(null);
+    setChiefComplaint('');
+    setAssessment(emptyAssessment());
+    setError(null);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-container large">
+        <div className="modal-header">
+          <div className="modal-title-section">
+            <h2 className="modal-title">Register Arrival</h2>
+            <p className="modal-subtitle">Add a walk-in to today's queue with a quick triage</p>
+          </div>
+          <button className="modal-close" onClick={handleClose}>
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"/>
+              <line x1="6" y1="6" x2="18" y2="18"/>
+            </svg>
+          </button>
+        </div>
+
+        <div className="modal-body">
+          {error && (
+            <div className="error-message">
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <circle cx="12" cy="12" r="10"/>
+                <line x1="12" y1="8" x2="12" y2="12"/>
+                <line x1="12" y1="16" x2="12.01" y2="16"/>
+              </svg>
+              {error}
+            </div>
+          )}
+
+          <div className="form-section">
+            <h4>Patient</h4>
+            {selectedPatient ? (
+              <div className="queue-selected-patient">
+                <span>
+                  <strong>{selectedPatient.first_name} {selectedPatient.last_name}</strong> ({selectedPatient.patient_id})
+                  {selectedPatient.patient_type && ` · ${selectedPatient.patient_type}`}
+                </span>
+                <button type="button" className="btn-secondary btn-sm" onClick={() => setSelectedPatient(null)}>
+                  Change
+                </button>
+              </div>
+            ) : (
+              <div className="form-row">
+                <div className="form-group">
+                  <label>Search Patient <span className="required-mark">*</span></label>
+                  <input
+                    type="text"
+                    placeholder="Name or patient ID"
+                    value={patientSearch}
+                    onChange={(e) => setPatientSearch(e.target.value)}
+                    autoFocus
+                  />
+                  {matchingPatients.length > 0 && (
+                    <div className="queue-patient-results">
+                      {matchingPatients.map(patient => (
+                        <button
+                          key={patient.id}
+                          type="button"
+                          className="queue-patient-result"
+                          onClick={() => {
+                            setSelectedPatient(patient);
+                            setPatientSearch('');
+                          }}
+                        >
+                          {patient.first_name} {patient.last_name}
+                          <span> {patient.patient_id}{patient.patient_type ? ` · ${patient.patient_type}` : ''}</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <span className="field-hint">New patients are added from Patient Monitoring first.</span>
+                </div>
+              </div>
+            )}
+            <div className="form-row">
+              <div className="form-group">
+                <label>Chief Complaint</label>
+                <input
+                  type="text"
+                  placeholder="e.g. Twisted ankle during practice"
+                  value={chiefComplaint}
+                  onChange={(e) => setChiefComplaint(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="form-section">
+            <h4>Triage</h4>
+            <div className="form-row">
+              <div className="form-group">
+                <label>Mode of Arrival</label>
+                <div className="document-type-options">
+                  {MODES_OF_ARRIVAL.map(mode => (
+                    <button
+                      key={mode}
+                      type="button"
+                      className={`document-type-option ${assessment.mode_of_arrival === mode ? 'active' : ''}`}
+                      onClick={() => handleAssessmentChange('mode_of_arrival', mode)}
+                    >
+                      {mode}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="form-row">
+              <div className="form-group">
+                <label className="checkbox-label">
+                  <input
+                    type="checkbox"
+                    checked={!!assessment.patient_in_pain}
+                    onChange={(e) => handleAssessmentChange('patient_in_pain', e.target.checked)}
+                  />
+                  Patient in pain
+                </label>
+                {assessment.patient_in_pain && (
+                  <div className="pain-scale-markers">
+                    {[0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map(num => (
+                      <div
+                        key={num}
+                        className={`pain-marker ${assessment.pain_scale === num ? 'active' : ''}`}
+                        onClick={() => handleAssessmentChange('pain_scale', num)}
+                      >
+                        {num}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="form-row">
+              <div className="form-group">
+                <label className="checkbox-label">
+                  <input
+                    type="checkbox"
+                    checked={!!assessment.patient_has_injuries}
+                    onChange={(e) => handleAssessmentChange('patient_has_injuries', e.target.checked)}
+                  />
+                  Patient has injuries
+                </label>
+                {assessment.patient_has_injuries && (
+                  <>
+                    <div className="checkbox-grid">
+                      {INJURY_FIELDS.map(({ field, label }) => (
+                        <label key={field} className="checkbox-label">
+                          <input
+                            type="checkbox"
+                            checked={!!assessment[field]}
+                            onChange={(e) => handleAssessmentChange(field, e.target.checked)}
+                          />
+                          {label}
+                        </label>
+                      ))}
+                    </div>
+                    <input
+                      type="text"
+                      placeholder="Other injury"
+                      value={assessment.injury_other || ''}
+                      onChange={(e) => handleAssessmentChange('injury_other', e.target.value)}
+                    />
+                  </>
+                )}
+              </div>
+            </div>
+
+            <div className={`queue-triage-preview ${triage.priority}`}>
+              <span className={`queue-priority ${triage.priority}`}>{TRIAGE_PRIORITY_LABELS[triage.priority]}</span>
+              <span>{triage.reasons.length > 0 ? triage.reasons.join(', ') : 'Seen in order of arrival'}</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="modal-footer">
+          <button className="btn-secondary" onClick={handleClose} disabled={loading}>
+            Cancel
+          </button>
+          <button className="btn-primary" onClick={handleRegister} disabled={loading || !selectedPatient}>
+            {loading ? (
+              <span className="loading-spinner">Registering...</span>
+            ) : (
+              'Add to Queue'
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RegisterArrivalModal;
@@ -0,0 +1,244 @@
+import React, { useState, useEffect } from 'react';
+import { type Consultation } from '../../../services/supabaseService';
+import {
+  appointmentService,
+  APPOINTMENT_DURATIONS,
+  formatAppointmentTime,
+  getAppointmentEndTime,
+  toDateKey,
+  LIVE_APPOINTMENT_STATUSES,
+  type Appointment,
+  type AppointmentInput,
+  type Physician
+} from '../../../services/appointmentService';
+import '../ConsultationModals.css';
+
+interface ScheduleFollowUpModalProps {
+  isOpen: boolean;
+  consultation: Consultation | null;
+  onClose: () => void;
+  onFollowUpScheduled: (appointment: Appointment) => void;
+}
+
+const emptyForm = (): AppointmentInput => {
+  const nextWeek = new Date();
+  nextWeek.setDate(nextWeek.getDate() + 7);
+  return {
+    physician_id: 0,
+    scheduled_date: toDateKey(nextWeek),
+    scheduled_time: '09:00',
+    duration_minutes: 15,
+    reason: '',
+    notes: ''
+  };
+};
+
+const ScheduleFollowUpModal: React.FC<ScheduleFollowUpModalProps> = ({
+  isOpen,
+  consultation,
+  onClose,
+  onFollowUpScheduled
+}) => {
+  const [formData, setFormData] = useState<AppointmentInput>(emptyForm());
+  const [physicians, setPhysicians] = useState<Physician[]>([]);
+  const [bookedSlots, setBookedSlots] = useState<Appointment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Default to the attending physician and a follow-up of the chief complaint
+  useEffect(() => {
+    if (!isOpen || !consultation) return;
+
+    setFormData({
+      ...emptyForm(),
+      physician_id: consultation.attending_physician || 0,
+      reason: consultation.chief_complaint ? `Follow-up: ${consultation.chief_complaint}` : ''
+    });
+
+    appointmentService.getPhysicians()
+      .then(setPhysicians)
+      .catch(error => {
+        console.error('Error loading physicians:', error);
+        setError('Failed to load physicians');
+      });
+  }, [isOpen, consultation]);
+
+  // Show what the chosen physician already has booked that day
+  useEffect(() => {
+    if (!isOpen || !formData.physician_id || !formData.scheduled_date) {
+      setBookedSlots([]);
+      return;
+    }
+
+    appointmentService.getAppointmentsInRange(formData.scheduled_date, formData.scheduled_date, formData.physician_id)
+      .then(appointments => setBookedSlots(appointments.filter(appointment => LIVE_APPOINTMENT_STATUSES.includes(appointment.status))))
+      .catch(error => console.error('Error loading bookings:', error));
+  }, [isOpen, formData.physician_id, formData.scheduled_date]);
+
+  const handleInputChange = (field: keyof AppointmentInput, value: string | number) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSchedule = async () => {
+    if (!consultation) {
+      setError('No consultation selected');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const appointment = await appointmentService.scheduleFollowUp(consultation, formData);
+      onFollowUpScheduled(appointment);
+      handleClose();
+    } catch (error: any) {
+      console.error('Error scheduling follow-up:', error);
+      setError(error.message || 'Failed to schedule follow-up');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    setFormData(emptyForm());
+    setBookedSlots([]);
+    setError(null);
+    onClose();
+  };
+
+  if (!isOpen || !consultation) return null;
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-container large">
+        <div className="modal-header">
+          <div className="modal-title-section">
+            <h2 className="modal-title">Schedule Follow-up</h2>
+            <p className="modal-subtitle">
+              Case: {consultation.case_number} | Patient: {consultation.patient?.first_name} {consultation.patient?.last_name}
+            </p>
+          </div>
+          <button className="modal-close" onClick={handleClose}>
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"/>
+              <line x1="6" y1="6" x2="18" y2="18"/>
+            </svg>
+          </button>
+        </div>
+
+        <div className="modal-body">
+          {error && (
+            <div className="error-message">
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <circle cx="12" cy="12" r="10"/>
+                <line x1="12" y1="8" x2="12" y2="12"/>
+                <line x1="12" y1="16" x2="12.01" y2="16"/>
+              </svg>
+              {error}
+            </div>
+          )}
+
+          <div className="form-section">
+            <h4>Booking</h4>
+            <div className="form-row">
+              <div className="form-group">
+                <label>Physician <span className="required-mark">*</span></label>
+                <select
+                  value={formData.physician_id || ''}
+                  onChange={(e) => handleInputChange('physician_id', parseInt(e.target.value) || 0)}
+                >
+                  <option value="">Select physician</option>
+                  {physicians.map(physician => (
+                    <option key={physician.id} value={physician.id}>{physician.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label>Date <span className="required-mark">*</span></label>
+                <input
+                  type="date"
+                  value={formData.scheduled_date}
+                  min={toDateKey(new Date())}
+                  onChange={(e) => handleInputChange('scheduled_date', e.target.value)}
+                />
+              </div>
+              <div className="form-group">
+                <label>Time <span className="required-mark">*</span></label>
+                <input
+                  type="time"
+                  step={900}
+                  value={formData.scheduled_time}
+                  onChange={(e) => handleInputChange('scheduled_time', e.target.value)}
+                />
+              </div>
+              <div className="form-group">
+                <label>Duration</label>
+                <select
+                  value={formData.duration_minutes}
+                  onChange={(e) => handleInputChange('duration_minutes', parseInt(e.target.value))}
+                >
+                  {APPOINTMENT_DURATIONS.map(minutes => (
+                    <option key={minutes} value={minutes}>{minutes} minutes</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            {formData.physician_id > 0 && (
+              <span className="field-hint">
+                {bookedSlots.length === 0
+                  ? 'No other bookings for this physician on this date.'
+                  : `Already booked: ${bookedSlots
+                      .map(slot => `${formatAppointmentTime(slot.scheduled_time)}-${formatAppointmentTime(getAppointmentEndTime(slot.scheduled_time, slot.duration_minutes))}`)
+                      .join(', ')}`}
+              </span>
+            )}
+          </div>
+
+          <div className="form-section">
+            <h4>Details</h4>
+            <div className="form-row">
+              <div className="form-group">
+                <label>Reason <span className="required-mark">*</span></label>
+                <input
+                  type="text"
+                  placeholder="e.g. Review of laboratory results"
+                  value={formData.reason}
+                  onChange={(e) => handleInputChange('reason', e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label>Notes</label>
+                <textarea
+                  placeholder="e.g. Bring CBC result, fasting required"
+                  value={formData.notes || ''}
+                  onChange={(e) => handleInputChange('notes', e.target.value)}
+                  rows={2}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="modal-footer">
+          <button className="btn-secondary" onClick={handleClose} disabled={loading}>
+            Cancel
+          </button>
+          <button className="btn-primary" onClick={handleSchedule} disabled={loading}>
+            {loading ? (
+              <span className="loading-spinner">Scheduling...</span>
+            ) : (
+              'Schedule Follow-up'
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleFollowUpModal;
@@ -1,10 +1,13 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
+  authService,
   patientMonitoringService,
   activityService,
   type Patient,
   type Consultation
 } from '../../../services/supabaseService';
+import { appointmentService, formatAppointmentTime, type Appointment } from '../../../services/appointmentService';
+import { queueService, formatQueueNumber, type QueueEntry } from '../../../services/queueService';
 import '../Modal.css';
 import '../ConsultationModals.css';
 
@@ -13,13 +16,19 @@ interface StartConsultationModalProps {
   patient: Patient | null;
   onClose: () => void;
   onConsultationStarted: (consultation: Consultation) => void;
+  // Set when checking a patient in for a booked follow-up
+  appointment?: Appointment | null;
+  // Set when starting the consultation for a walk-in from the queue
+  queueEntry?: QueueEntry | null;
 }
 
 const StartConsultationModal: React.FC<StartConsultationModalProps> = ({
   isOpen,
   patient,
   onClose,
-  onConsultationStarted
+  onConsultationStarted,
+  appointment,
+  queueEntry
 }) => {
   const [consultationData, setConsultationData] = useState({
     chief_complaint: '',
@@ -27,12 +36,45 @@ const StartConsultationModal: React.FC<StartConsultationModalProps> = ({
     pain_scale: 0,
     priority: 'normal' as 'low' | 'normal' | 'high' | 'urgent',
     consultation_type: 'routine' as 'routine' | 'emergency' | 'follow_up' | 'referral' | 'treatment',
+    department: 'medical' as NonNullable<Consultation['department']>,
     notes: ''
   });
 
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Dental staff start dental visits by default
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const userDepartment = authService.getCurrentUser()?.department?.toLowerCase();
+    setConsultationData(prev => ({
+      ...prev,
+      department: userDepartment === 'dental' ? 'dental' : 'medical'
+    }));
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen || !appointment) return;
+
+    setConsultationData(prev => ({
+      ...prev,
+      chief_complaint: appointment.reason,
+      consultation_type: 'follow_up'
+    }));
+  }, [isOpen, appointment]);
+
+  useEffect(() => {
+    if (!isOpen || !queueEntry) return;
+
+    setConsultationData(prev => ({
+      ...prev,
+      chief_complaint: queueEntry.chief_complaint || '',
+      priority: queueEntry.triage_priority === 'emergency' ? 'urgent' : queueEntry.triage_priority === 'urgent' ? 'high' : 'normal',
+      consultation_type: queueEntry.triage_priority === 'emergency' ? 'emergency' : prev.consultation_type
+    }));
+  }, [isOpen, queueEntry]);
+
   const handleInputChange = (field: string, value: any) => {
     setConsultationData(prev => ({
       ...prev,
@@ -92,10 +134,33 @@ const StartConsultationModal: React.FC<StartConsultationModalProps> = ({
         plan_notes: '',
         diagnosis: '',
         interventions: '',
-        status: 'active'
+        department: consultationData.department,
+        status: 'active',
+        // A follow-up continues the booked physician's care of the earlier visit
+        ...(appointment && {
+          attending_physician: appointment.physician_id,
+          attending_physician_name: appointment.physician_name,
+          previous_consultation_date: appointment.source_consultation?.consultation_date,
+          previous_diagnosis: appointment.source_consultation?.diagnosis || undefined
+        })
       };
 
-      const createdConsultation = await patientMonitoringService.createConsultation(newConsultation);
+      // Claim the booking or queue entry first, so one already started elsewhere cannot
+      // leave an orphaned or duplicate consultation behind
+      let reservedAppointment: Appointment | null = null;
+      let reservedEntry: QueueEntry | null = null;
+      let createdConsultation: Consultation;
+      try {
+        if (appointment) reservedAppointment = await appointmentService.reserveCheckIn(appointment);
+        if (queueEntry) reservedEntry = await queueService.reserveConsultation(queueEntry);
+        createdConsultation = await patientMonitoringService.createConsultation(newConsultation);
+      } catch (error) {
+        await Promise.all([
+          reservedAppointment && appointmentService.releaseCheckIn(reservedAppointment),
+          reservedEntry && queueEntry && queueService.releaseConsultation(queueEntry)
+        ]);
+        throw error;
+      }
 
       // Log activity
       await activityService.logActivity({
@@ -105,10 +170,19 @@ const StartConsultationModal: React.FC<StartConsultationModalProps> = ({
           patient_id: patient.id,
           consultation_id: createdConsultation.id,
           case_number: createdConsultation.case_number,
-          chief_complaint: consultationData.chief_complaint
+          chief_complaint: consultationData.chief_complaint,
+          appointment_id: appointment?.id,
+          queue_entry_id: queueEntry?.id
         }
       });
 
+      if (reservedAppointment) {
+        await appointmentService.checkIn(reservedAppointment, createdConsultation);
+      }
+      if (reservedEntry) {
+        await queueService.startConsultation(reservedEntry, createdConsultation);
+      }
+
       onConsultationStarted(createdConsultation);
       handleClose();
     } catch (error: any) {
@@ -126,6 +200,7 @@ const StartConsultationModal: React.FC<StartConsultationModalProps> = ({
       pain_scale: 0,
       priority: 'normal',
       consultation_type: 'routine',
+      department: 'medical',
       notes: ''
     });
     setError(null);
@@ -142,6 +217,8 @@ const StartConsultationModal: React.FC<StartConsultationModalProps> = ({
             <h2 className="modal-title">Start New Consultation</h2>
             <p className="modal-subtitle">
               Patient: {patient.first_name} {patient.last_name} (ID: {patient.patient_id})
+              {appointment && ` | Follow-up with ${appointment.physician_name} at ${formatAppointmentTime(appointment.scheduled_time)}`}
+              {queueEntry && ` | Queue No. ${formatQueueNumber(queueEntry.queue_number)}`}
             </p>
           </div>
           <button className="modal-close" onClick={handleClose}>
@@ -167,6 +244,16 @@ const StartConsultationModal: React.FC<StartConsultationModalProps> = ({
           <div className="consultation-form">
             {/* Consultation Type and Priority */}
             <div className="form-row">
+              <div className="form-group">
+                <label>Department</label>
+                <select
+                  value={consultationData.department}
+                  onChange={(e) => handleInputChange('department', e.target.value)}
+                >
+                  <option value="medical">Medical</option>
+                  <option value="dental">Dental</option>
+                </select>
+              </div>
               <div className="form-group">
                 <label>Consultation Type</label>
                 <select
@@ -6,6 +6,7 @@ import {
   type VitalSigns,
   type Consultation
 } from '../../../services/supabaseService';
+import { earlyWarningService } from '../../../services/earlyWarningService';
 import '../Modal.css';
 import '../ConsultationModals.css';
 
@@ -270,6 +271,9 @@ const VitalSignsModal: React.FC<VitalSignsModalProps> = ({
         });
       }
 
+      // Score against the latest GCS; escalations are written to the monitoring log
+      recordedVitalSigns = await earlyWarningService.scoreVitalSigns(recordedVitalSigns, consultation);
+
       onVitalSignsRecorded(recordedVitalSigns);
       handleClose();
     } catch (error: any) {
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { batchService } from '../../services/batchService';
 import './Modal.css';
 import './InventoryModals.css';
 
@@ -11,10 +12,14 @@ interface EditInventoryItemModalProps {
 
 const EditInventoryItemModal: React.FC<EditInventoryItemModalProps> = ({ item, onClose, onSave, classifications }) => {
   const [formData, setFormData] = useState<any>({});
+  const [isBatchTracked, setIsBatchTracked] = useState(false);
 
   useEffect(() => {
     if (item) {
       setFormData(item);
+      batchService.hasBatches(item.id)
+        .then(setIsBatchTracked)
+        .catch(error => console.error('Failed to check item batches:', error));
     }
   }, [item]);
 
@@ -49,6 +54,8 @@ const EditInventoryItemModal: React.FC<EditInventoryItemModalProps> = ({ item, o
     setFormData((prev: any) => ({ ...prev, [name]: value }));
   };
 
+  const stockChanged = (parseInt(formData.stock_quantity) || 0) !== (parseInt(item.stock_quantity) || 0);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     console.log('Final formData being saved:', formData);
@@ -85,8 +92,17 @@ const EditInventoryItemModal: React.FC<EditInventoryItemModalProps> = ({ item, o
             <input type="hidden" name="classification_id" value={formData.classification_id} />
             <div className="form-group">
               <label htmlFor="stock_quantity">Stock Quantity</label>
-              <input type="number" id="stock_quantity" name="stock_quantity" value={formData.stock_quantity || 0} onChange={handleChange} required />
+              <input type="number" id="stock_quantity" name="stock_quantity" value={formData.stock_quantity || 0} onChange={handleChange} required disabled={isBatchTracked} />
+              {isBatchTracked && <small>Computed from batches. Use Batches on the item card to receive stock.</small>}
             </div>
+            {/* Changed quantities are recorded in the stock ledger as an adjustment */}
+            {!isBatchTracked && stockChanged && (
+              <div className="form-group">
+                <label htmlFor="adjustment_reason">Reason for Stock Change</label>
+                <input type="text" id="adjustment_reason" name="adjustment_reason" value={formData.adjustment_reason || ''} onChange={handleChange} placeholder="e.g. Physical count correction" required />
+                <small>Recorded in the item's movement history</small>
+              </div>
+            )}
             <div className="form-group">
               <label htmlFor="unit_of_measurement">Unit of Measurement</label>
               <input type="text" id="unit_of_measurement" name="unit_of_measurement" value={formData.unit_of_measurement || ''} onChange={handleChange} />
@@ -95,7 +111,8 @@ const EditInventoryItemModal: React.FC<EditInventoryItemModalProps> = ({ item, o
             {getClassificationType() !== 'equipment' && (
               <div className="form-group">
                 <label htmlFor="expiration_date">Expiration Date</label>
-                <input type="date" id="expiration_date" name="expiration_date" value={formData.expiration_date || ''} onChange={handleChange} />
+                <input type="date" id="expiration_date" name="expiration_date" value={formData.expiration_date || ''} onChange={handleChange} disabled={isBatchTracked} />
+                {isBatchTracked && <small>Earliest expiry among the batches on hand.</small>}
               </div>
             )}
             <div className="form-group">
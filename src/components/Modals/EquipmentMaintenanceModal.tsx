@@ -0,0 +1,425 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { getDaysUntilExpiry } from '../../services/batchService';
+import {
+  maintenanceService,
+  SERVICE_TYPE_LABELS,
+  addMonths,
+  type MaintenanceSchedule,
+  type MaintenanceType,
+  type ServiceLog,
+  type ServiceType
+} from '../../services/maintenanceService';
+import './Modal.css';
+import './InventoryModals.css';
+
+interface EquipmentMaintenanceModalProps {
+  item: any;
+  onClose: () => void;
+  onMaintenanceChanged: () => void;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const emptyScheduleForm = () => ({
+  maintenance_type: 'preventive',
+  interval_months: '6',
+  next_due_date: addMonths(today(), 6),
+  notes: ''
+});
+
+const emptyServiceForm = () => ({
+  schedule_id: '',
+  service_type: 'preventive',
+  service_date: today(),
+  technician: '',
+  cost: '',
+  findings: '',
+  actions_taken: '',
+  status_after: ''
+});
+
+const EquipmentMaintenanceModal: React.FC<EquipmentMaintenanceModalProps> = ({ item, onClose, onMaintenanceChanged }) => {
+  const [schedules, setSchedules] = useState<MaintenanceSchedule[]>([]);
+  const [serviceLogs, setServiceLogs] = useState<ServiceLog[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingScheduleId, setEditingScheduleId] = useState<number | 'new' | null>(null);
+  const [scheduleForm, setScheduleForm] = useState<any>(emptyScheduleForm());
+  const [showServiceForm, setShowServiceForm] = useState(false);
+  const [serviceForm, setServiceForm] = useState<any>(emptyServiceForm());
+
+  const fetchMaintenance = useCallback(async () => {
+    if (!item) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const [scheduleData, logData] = await Promise.all([
+        maintenanceService.getSchedulesByItemId(item.id),
+        maintenanceService.getServiceLogsByItemId(item.id)
+      ]);
+      setSchedules(scheduleData);
+      setServiceLogs(logData);
+    } catch (error: any) {
+      console.error('Error fetching maintenance data:', error);
+      setError(`Failed to load maintenance records: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [item]);
+
+  useEffect(() => {
+    fetchMaintenance();
+  }, [fetchMaintenance]);
+
+  if (!item) return null;
+
+  const activeSchedules = schedules.filter(schedule => schedule.is_active);
+  const nextDue = activeSchedules[0];
+
+  const getDueClass = (schedule: MaintenanceSchedule) => {
+    if (!schedule.is_active) return '';
+    const days = getDaysUntilExpiry(schedule.next_due_date);
+    if (days === null) return '';
+    if (days < 0) return 'expired';
+    if (days <= 14) return 'expiring';
+    return '';
+  };
+
+  const describeDue = (date: string) => {
+    const days = getDaysUntilExpiry(date);
+    if (days === null) return '';
+    if (days < 0) return ` (${Math.abs(days)}d overdue)`;
+    if (days === 0) return ' (today)';
+    return ` (in ${days}d)`;
+  };
+
+  const startScheduleEdit = (schedule?: MaintenanceSchedule) => {
+    setError(null);
+    setShowServiceForm(false);
+    if (!schedule) {
+      setEditingScheduleId('new');
+      setScheduleForm(emptyScheduleForm());
+      return;
+    }
+    setEditingScheduleId(schedule.id);
+    setScheduleForm({
+      maintenance_type: schedule.maintenance_type,
+      interval_months: String(schedule.interval_months),
+      next_due_date: schedule.next_due_date,
+      notes: schedule.notes || ''
+    });
+  };
+
+  const handleScheduleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setScheduleForm((prev: any) => {
+      const updated = { ...prev, [name]: value };
+      // New schedules start one interval from today unless a date is picked
+      if (name === 'interval_months' && editingScheduleId === 'new' && parseInt(value) > 0) {
+        updated.next_due_date = addMonths(today(), parseInt(value));
+      }
+      return updated;
+    });
+  };
+
+  const handleServiceChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setServiceForm((prev: any) => {
+      const updated = { ...prev, [name]: value };
+      // Picking a schedule fills in its maintenance type
+      if (name === 'schedule_id' && value) {
+        const schedule = schedules.find(s => s.id === parseInt(value));
+        if (schedule) updated.service_type = schedule.maintenance_type;
+      }
+      return updated;
+    });
+  };
+
+  const handleScheduleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const schedule = {
+      maintenance_type: scheduleForm.maintenance_type as MaintenanceType,
+      interval_months: parseInt(scheduleForm.interval_months),
+      next_due_date: scheduleForm.next_due_date,
+      notes: scheduleForm.notes
+    };
+    try {
+      setSaving(true);
+      setError(null);
+      if (editingScheduleId === 'new') {
+        await maintenanceService.createSchedule(item, schedule);
+      } else if (editingScheduleId) {
+        await maintenanceService.updateSchedule(item, editingScheduleId, schedule);
+      }
+      setEditingScheduleId(null);
+      await fetchMaintenance();
+      onMaintenanceChanged();
+    } catch (error: any) {
+      console.error('Error saving maintenance schedule:', error);
+      setError(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleSchedule = async (schedule: MaintenanceSchedule) => {
+    try {
+      setError(null);
+      await maintenanceService.updateSchedule(item, schedule.id, {
+        maintenance_type: schedule.maintenance_type,
+        interval_months: schedule.interval_months,
+        next_due_date: schedule.next_due_date,
+        notes: schedule.notes || '',
+        is_active: !schedule.is_active
+      });
+      await fetchMaintenance();
+      onMaintenanceChanged();
+    } catch (error: any) {
+      console.error('Error updating maintenance schedule:', error);
+      setError(error.message);
+    }
+  };
+
+  const handleServiceSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      setError(null);
+      await maintenanceService.recordService(item, {
+        schedule_id: serviceForm.schedule_id ? parseInt(serviceForm.schedule_id) : null,
+        service_type: serviceForm.service_type as ServiceType,
+        service_date: serviceForm.service_date,
+        technician: serviceForm.technician,
+        cost: serviceForm.cost === '' ? null : parseFloat(serviceForm.cost),
+        findings: serviceForm.findings,
+        actions_taken: serviceForm.actions_taken,
+        status_after: serviceForm.status_after || null
+      });
+      setShowServiceForm(false);
+      setServiceForm(emptyServiceForm());
+      await fetchMaintenance();
+      onMaintenanceChanged();
+    } catch (error: any) {
+      console.error('Error recording service:', error);
+      setError(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const totalCost = serviceLogs.reduce((sum, log) => sum + (Number(log.cost) || 0), 0);
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content modal-xl">
+        <div className="modal-header">
+          <h2 className="modal-title">Maintenance - {item.generic_name}</h2>
+          <button className="modal-close-btn" onClick={onClose}>
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"/>
+              <line x1="6" y1="6" x2="18" y2="18"/>
+            </svg>
+          </button>
+        </div>
+        <div className="modal-body">
+          {error && <div className="batch-error">{error}</div>}
+
+          <div className="batch-summary">
+            <div>
+              <span className="batch-summary-value">
+                {nextDue ? `${nextDue.next_due_date}${describeDue(nextDue.next_due_date)}` : 'No schedule'}
+              </span>
+              <span className="batch-summary-label">
+                {nextDue ? `Next ${SERVICE_TYPE_LABELS[nextDue.maintenance_type].toLowerCase()}` : 'Add a schedule to track preventive maintenance'}
+                {' '}&middot; {serviceLogs.length} service(s) logged, total cost {totalCost.toFixed(2)}
+              </span>
+            </div>
+            <div className="batch-summary-actions">
+              <button className="btn-secondary" onClick={() => startScheduleEdit()}>Add Schedule</button>
+              <button className="btn-primary" onClick={() => { setEditingScheduleId(null); setShowServiceForm(prev => !prev); }}>
+                {showServiceForm ? 'Cancel' : 'Log Service'}
+              </button>
+            </div>
+          </div>
+
+          {editingScheduleId && (
+            <form className="batch-receive-form" onSubmit={handleScheduleSubmit}>
+              <div className="form-grid cols-3">
+                <div className="form-group">
+                  <label htmlFor="maintenance_type">Maintenance Type</label>
+                  <select id="maintenance_type" name="maintenance_type" value={scheduleForm.maintenance_type} onChange={handleScheduleChange}>
+                    <option value="preventive">{SERVICE_TYPE_LABELS.preventive}</option>
+                    <option value="calibration">{SERVICE_TYPE_LABELS.calibration}</option>
+                    <option value="inspection">{SERVICE_TYPE_LABELS.inspection}</option>
+                  </select>
+                </div>
+                <div className="form-group">
+                  <label htmlFor="interval_months">Every (months)</label>
+                  <input type="number" id="interval_months" name="interval_months" min={1} value={scheduleForm.interval_months} onChange={handleScheduleChange} required />
+                </div>
+                <div className="form-group">
+                  <label htmlFor="next_due_date">Next Due</label>
+                  <input type="date" id="next_due_date" name="next_due_date" value={scheduleForm.next_due_date} onChange={handleScheduleChange} required />
+                </div>
+                <div className="form-group">
+                  <label htmlFor="schedule_notes">Notes</label>
+                  <input type="text" id="schedule_notes" name="notes" value={scheduleForm.notes} onChange={handleScheduleChange} />
+                </div>
+              </div>
+              <div className="batch-receive-actions">
+                <button type="button" className="btn-secondary" onClick={() => setEditingScheduleId(null)}>Cancel</button>
+                <button type="submit" className="btn-primary" disabled={saving}>
+                  {saving ? 'Saving...' : 'Save Schedule'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {showServiceForm && (
+            <form className="batch-receive-form" onSubmit={handleServiceSubmit}>
+              <div className="form-grid cols-3">
+                <div className="form-group">
+                  <label htmlFor="schedule_id">Fulfils Schedule</label>
+                  <select id="schedule_id" name="schedule_id" value={serviceForm.schedule_id} onChange={handleServiceChange}>
+                    <option value="">Unscheduled</option>
+                    {activeSchedules.map(schedule => (
+                      <option key={schedule.id} value={schedule.id}>
+                        {SERVICE_TYPE_LABELS[schedule.maintenance_type]} (due {schedule.next_due_date})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="form-group">
+                  <label htmlFor="service_type">Service Type</label>
+                  <select id="service_type" name="service_type" value={serviceForm.service_type} onChange={handleServiceChange}>
+                    {(Object.keys(SERVICE_TYPE_LABELS) as ServiceType[]).map(type => (
+                      <option key={type} value={type}>{SERVICE_TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="form-group">
+                  <label htmlFor="service_date">Service Date</label>
+                  <input type="date" id="service_date" name="service_date" value={serviceForm.service_date} onChange={handleServiceChange} required />
+                </div>
+                <div className="form-group">
+                  <label htmlFor="technician">Technician</label>
+                  <input type="text" id="technician" name="technician" value={serviceForm.technician} onChange={handleServiceChange} required />
+                </div>
+                <div className="form-group">
+                  <label htmlFor="cost">Cost</label>
+                  <input type="number" id="cost" name="cost" min={0} step="0.01" value={serviceForm.cost} onChange={handleServiceChange} />
+                </div>
+                <div className="form-group">
+                  <label htmlFor="status_after">Equipment Status After</label>
+                  <select id="status_after" name="status_after" value={serviceForm.status_after} onChange={handleServiceChange}>
+                    <option value="">Leave as {item.status}</option>
+                    <option value="active">Active</option>
+                    <option value="maintenance">Maintenance</option>
+                  </select>
+                </div>
+              </div>
+              <div className="form-grid cols-2">
+                <div className="form-group">
+                  <label htmlFor="findings">Findings</label>
+                  <textarea id="findings" name="findings" value={serviceForm.findings} onChange={handleServiceChange} />
+                </div>
+                <div className="form-group">
+                  <label htmlFor="actions_taken">Actions Taken</label>
+                  <textarea id="actions_taken" name="actions_taken" value={serviceForm.actions_taken} onChange={handleServiceChange} />
+                </div>
+              </div>
+              <div className="batch-receive-actions">
+                <button type="submit" className="btn-primary" disabled={saving}>
+                  {saving ? 'Saving...' : 'Save Service Record'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {loading ? (
+            <div className="loading-message">Loading maintenance records...</div>
+          ) : (
+            <>
+              <h3 className="maintenance-section-title">Schedules</h3>
+              {schedules.length === 0 ? (
+                <div className="batch-empty">No maintenance schedules for this equipment.</div>
+              ) : (
+                <table className="batch-table">
+                  <thead>
+                    <tr>
+                      <th>Type</th>
+                      <th>Interval</th>
+                      <th>Last Performed</th>
+                      <th>Next Due</th>
+                      <th>Notes</th>
+                      <th>Active</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {schedules.map(schedule => (
+                      <tr key={schedule.id} className={getDueClass(schedule)}>
+                        <td>{SERVICE_TYPE_LABELS[schedule.maintenance_type]}</td>
+                        <td>Every {schedule.interval_months} month(s)</td>
+                        <td>{schedule.last_performed_date || '--'}</td>
+                        <td>
+                          {schedule.next_due_date}
+                          {schedule.is_active && <span className="batch-days">{describeDue(schedule.next_due_date)}</span>}
+                        </td>
+                        <td>{schedule.notes || '--'}</td>
+                        <td>
+                          <input type="checkbox" checked={schedule.is_active} onChange={() => handleToggleSchedule(schedule)} />
+                        </td>
+                        <td className="rule-actions">
+                          <button className="btn-secondary" onClick={() => startScheduleEdit(schedule)}>Edit</button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              <h3 className="maintenance-section-title">Service History</h3>
+              {serviceLogs.length === 0 ? (
+                <div className="batch-empty">No service has been logged for this equipment.</div>
+              ) : (
+                <table className="batch-table">
+                  <thead>
+                    <tr>
+                      <th>Date</th>
+                      <th>Type</th>
+                      <th>Technician</th>
+                      <th>Cost</th>
+                      <th>Findings</th>
+                      <th>Actions Taken</th>
+                      <th>Status After</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {serviceLogs.map(log => (
+                      <tr key={log.id}>
+                        <td>{log.service_date}</td>
+                        <td>{SERVICE_TYPE_LABELS[log.service_type]}</td>
+                        <td>{log.technician}</td>
+                        <td>{log.cost !== null && log.cost !== undefined ? Number(log.cost).toFixed(2) : '--'}</td>
+                        <td>{log.findings || '--'}</td>
+                        <td>{log.actions_taken || '--'}</td>
+                        <td className="capitalize">{log.status_after || 'Unchanged'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+        </div>
+        <div className="modal-footer">
+          <button className="btn-secondary" onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EquipmentMaintenanceModal;
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import './ExportModal.css';
 import { exportService, ExportOptions, ColumnConfig, DataTable } from '../../services/exportService';
 import { inventoryService } from '../../services/supabaseService';
+import { STOCK_COUNT_STATUS_LABELS, type StockCountSession } from '../../services/stockCountService';
 
 interface ExportInventoryModalProps {
   onClose: () => void;
@@ -16,19 +17,53 @@ interface ExportInventoryModalProps {
     maintenanceItems?: number;
   };
   enableMultiTable?: boolean;
+  // Exports a count sheet for sign-off instead of the item list
+  stockCount?: StockCountSession;
 }
 
+const formatCount = (value: any) => value === null || value === undefined ? '' : value.toString();
+
+const inventoryColumns: ColumnConfig[] = [
+  { key: 'code', header: 'Code', width: 15 },
+  { key: 'generic_name', header: 'Generic Name', width: 25 },
+  { key: 'brand_name', header: 'Brand Name', width: 25 },
+  { key: 'category', header: 'Category', width: 20 },
+  { key: 'stock_quantity', header: 'Stock Quantity', width: 15, formatter: (value) => value?.toString() || '0' },
+  { key: 'stock_threshold', header: 'Stock Threshold', width: 15, formatter: (value) => value?.toString() || '0' },
+  { key: 'unit_of_measurement', header: 'Unit', width: 12 },
+  { key: 'expiration_date', header: 'Expiration Date', width: 20 },
+  { key: 'status', header: 'Status', width: 15 },
+  { key: 'notes', header: 'Notes', width: 30 },
+  { key: 'created_at', header: 'Created Date', width: 20, formatter: (value) => value ? new Date(value).toLocaleDateString() : '' },
+  { key: 'updated_at', header: 'Updated Date', width: 20, formatter: (value) => value ? new Date(value).toLocaleDateString() : '' }
+];
+
+// Counted and variance stay blank for uncounted lines, so 0 is not confused with "not counted"
+const stockCountColumns: ColumnConfig[] = [
+  { key: 'code', header: 'Code', width: 15 },
+  { key: 'item_name', header: 'Item', width: 30 },
+  { key: 'unit_of_measurement', header: 'Unit', width: 12 },
+  { key: 'system_quantity', header: 'System Qty', width: 12, formatter: formatCount },
+  { key: 'counted_quantity', header: 'Counted Qty', width: 12, formatter: formatCount },
+  { key: 'variance', header: 'Variance', width: 12, formatter: (value) => value > 0 ? `+${value}` : formatCount(value) },
+  { key: 'reason', header: 'Reason', width: 30 },
+  { key: 'counted_at', header: 'Counted At', width: 20, formatter: (value) => value ? new Date(value).toLocaleString() : '' }
+];
+
 const ExportInventoryModal: React.FC<ExportInventoryModalProps> = ({
   onClose,
   data,
   department,
   classification,
   stats,
-  enableMultiTable = false
+  enableMultiTable = false,
+  stockCount
 }) => {
+  const availableColumns = stockCount ? stockCountColumns : inventoryColumns;
+
   const [exportFormat, setExportFormat] = useState<'excel' | 'pdf' | 'csv' | 'docx'>('excel');
-  const [includeStats, setIncludeStats] = useState(true);
-  const [selectedColumns, setSelectedColumns] = useState<string[]>([
+  const [includeStats, setIncludeStats] = useState(!stockCount);
+  const [selectedColumns, setSelectedColumns] = useState<string[]>(stockCount ? stockCountColumns.map(col => col.key) : [
     'code',
     'generic_name',
     'brand_name',
@@ -75,21 +110,6 @@ const ExportInventoryModal: React.FC<ExportInventoryModalProps> = ({
     );
   };
 
-  const availableColumns: ColumnConfig[] = [
-    { key: 'code', header: 'Code', width: 15 },
-    { key: 'generic_name', header: 'Generic Name', width: 25 },
-    { key: 'brand_name', header: 'Brand Name', width: 25 },
-    { key: 'category', header: 'Category', width: 20 },
-    { key: 'stock_quantity', header: 'Stock Quantity', width: 15, formatter: (value) => value?.toString() || '0' },
-    { key: 'stock_threshold', header: 'Stock Threshold', width: 15, formatter: (value) => value?.toString() || '0' },
-    { key: 'unit_of_measurement', header: 'Unit', width: 12 },
-    { key: 'expiration_date', header: 'Expiration Date', width: 20 },
-    { key: 'status', header: 'Status', width: 15 },
-    { key: 'notes', header: 'Notes', width: 30 },
-    { key: 'created_at', header: 'Created Date', width: 20, formatter: (value) => value ? new Date(value).toLocaleDateString() : '' },
-    { key: 'updated_at', header: 'Updated Date', width: 20, formatter: (value) => value ? new Date(value).toLocaleDateString() : '' }
-  ];
-
   const handleColumnToggle = (columnKey: string) => {
     setSelectedColumns(prev =>
       prev.includes(columnKey)
@@ -138,6 +158,25 @@ const ExportInventoryModal: React.FC<ExportInventoryModalProps> = ({
         await exportService.exportData(exportOptions);
 
         // Show success message
+        alert(`Export completed successfully! File saved as ${filename}.${exportFormat}`);
+      } else if (stockCount) {
+        const filename = `${stockCount.session_number}_stock_count_${timestamp}`;
+
+        const exportOptions: ExportOptions = {
+          format: exportFormat,
+          data: stockCount.lines,
+          filename,
+          title: 'Stock Count Sheet',
+          subtitle: `${stockCount.session_number} - ${STOCK_COUNT_STATUS_LABELS[stockCount.status]}, started ${new Date(stockCount.started_at).toLocaleDateString()}`,
+          signatures: ['Counted by', 'Verified by', 'Approved by'],
+          department: stockCount.department,
+          classification: stockCount.classification_name,
+          columns: selectedColumnConfigs,
+          includeStats: false
+        };
+
+        await exportService.exportData(exportOptions);
+
         alert(`Export completed successfully! File saved as ${filename}.${exportFormat}`);
       } else {
         // Single table export (backward compatibility)
@@ -190,7 +229,7 @@ const ExportInventoryModal: React.FC<ExportInventoryModalProps> = ({
       <div className="modal-content export-modal">
         <div className="modal-header">
           <h2 className="modal-title">
-            {enableMultiTable ? 'Export Inventory Data' : `Export ${classification ? classification.charAt(0).toUpperCase() + classification.slice(1) : 'Inventory'}`}
+            {enableMultiTable ? 'Export Inventory Data' : stockCount ? `Export Stock Count ${stockCount.session_number}` : `Export ${classification ? classification.charAt(0).toUpperCase() + classification.slice(1) : 'Inventory'}`}
           </h2>
           <button className="modal-close-btn" onClick={onClose}>
             <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -214,7 +253,7 @@ const ExportInventoryModal: React.FC<ExportInventoryModalProps> = ({
               </div>
               <div className="summary-item">
                 <span className="summary-label">Total Items:</span>
-                <span className="summary-value">{data?.length || 0}</span>
+                <span className="summary-value">{stockCount ? stockCount.lines.length : data?.length || 0}</span>
               </div>
             </div>
           )}
@@ -355,17 +394,19 @@ const ExportInventoryModal: React.FC<ExportInventoryModalProps> = ({
           </div>
 
           {/* Include Statistics Option */}
-          <div className="form-group">
-            <label className="checkbox-container">
-              <input
-                type="checkbox"
-                checked={includeStats}
-                onChange={(e) => setIncludeStats(e.target.checked)}
-              />
-              <span className="checkmark"></span>
-              Include inventory statistics in export
-            </label>
-          </div>
+          {!stockCount && (
+            <div className="form-group">
+              <label className="checkbox-container">
+                <input
+                  type="checkbox"
+                  checked={includeStats}
+                  onChange={(e) => setIncludeStats(e.target.checked)}
+                />
+                <span className="checkmark"></span>
+                Include inventory statistics in export
+              </label>
+            </div>
+          )}
 
           {/* Column Selection */}
           <div className="form-group">
@@ -0,0 +1,332 @@
+import React, { useState } from 'react';
+import {
+  inventoryImportService,
+  IMPORT_FIELDS,
+  type ColumnMapping,
+  type ImportField,
+  type ImportRow,
+  type InventoryImportResult,
+  type ParsedSheet
+} from '../../services/inventoryImportService';
+import './Modal.css';
+import './InventoryModals.css';
+
+interface ImportInventoryModalProps {
+  onClose: () => void;
+  onImported: () => void;
+  department: string;
+  classification: string;
+}
+
+type ImportStep = 'upload' | 'map' | 'preview' | 'done';
+type PreviewFilter = 'all' | 'errors' | 'warnings';
+
+const STEP_LABELS: Record<ImportStep, string> = {
+  upload: '1. Upload',
+  map: '2. Map Columns',
+  preview: '3. Review',
+  done: '4. Done'
+};
+
+const formatSample = (value: any) =>
+  value instanceof Date ? value.toLocaleDateString() : String(value ?? '');
+
+const ImportInventoryModal: React.FC<ImportInventoryModalProps> = ({ onClose, onImported, department, classification }) => {
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [defaults, setDefaults] = useState({ department, classification });
+  const [upsertByCode, setUpsertByCode] = useState(false);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [previewFilter, setPreviewFilter] = useState<PreviewFilter>('all');
+  const [result, setResult] = useState<InventoryImportResult | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const validRows = rows.filter(row => row.errors.length === 0);
+  const errorRows = rows.filter(row => row.errors.length > 0);
+  const warningRows = rows.filter(row => row.errors.length === 0 && row.warnings.length > 0);
+  const visibleRows = previewFilter === 'errors'
+    ? errorRows
+    : previewFilter === 'warnings'
+      ? warningRows
+      : rows;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setWorking(true);
+      setError(null);
+      const parsed = await inventoryImportService.parseFile(file);
+      if (parsed.rows.length === 0) {
+        throw new Error('No data rows were found below the header row');
+      }
+      setSheet(parsed);
+      setMapping(inventoryImportService.guessMapping(parsed.headers));
+      setStep('map');
+    } catch (error: any) {
+      console.error('Error reading import file:', error);
+      setError(`Could not read ${file.name}: ${error.message}`);
+    } finally {
+      setWorking(false);
+      e.target.value = '';
+    }
+  };
+
+  const handleMappingChange = (header: string, field: string) => {
+    setMapping(prev => ({ ...prev, [header]: (field || null) as ImportField | null }));
+  };
+
+  const handleValidate = async () => {
+    if (!sheet) return;
+    try {
+      setWorking(true);
+      setError(null);
+      const validated = await inventoryImportService.validateRows(sheet, mapping, defaults, upsertByCode);
+      setRows(validated);
+      setPreviewFilter(validated.some(row => row.errors.length > 0) ? 'errors' : 'all');
+      setStep('preview');
+    } catch (error: any) {
+      console.error('Error validating import:', error);
+      setError(error.message);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!sheet) return;
+    try {
+      setWorking(true);
+      setError(null);
+      const importResult = await inventoryImportService.importRows(rows, upsertByCode, sheet.fileName);
+      setResult(importResult);
+      setStep('done');
+      onImported();
+    } catch (error: any) {
+      console.error('Error importing inventory:', error);
+      setError(`Import failed and nothing was saved: ${error.message}`);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const mappedFields = Object.values(mapping).filter(Boolean) as ImportField[];
+  const missingRequired = IMPORT_FIELDS.filter(field => field.required && !mappedFields.includes(field.key));
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content modal-xl">
+        <div className="modal-header">
+          <h2 className="modal-title">Import Inventory</h2>
+          <button className="modal-close-btn" onClick={onClose}>
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"/>
+              <line x1="6" y1="6" x2="18" y2="18"/>
+            </svg>
+          </button>
+        </div>
+        <div className="modal-body">
+          <div className="import-steps">
+            {(Object.keys(STEP_LABELS) as ImportStep[]).map(key => (
+              <span key={key} className={`import-step ${key === step ? 'active' : ''}`}>{STEP_LABELS[key]}</span>
+            ))}
+          </div>
+
+          {error && <div className="batch-error">{error}</div>}
+
+          {step === 'upload' && (
+            <div className="import-upload">
+              <p>
+                Choose an Excel (.xlsx, .xls) or CSV file with one item per row and a header row.
+                Files exported from MediTrack can be imported as they are.
+              </p>
+              <input type="file" accept=".xlsx,.xls,.csv" onChange={handleFileChange} disabled={working} />
+              {working && <div className="loading-message">Reading file...</div>}
+            </div>
+          )}
+
+          {step === 'map' && sheet && (
+            <>
+              <div className="batch-summary">
+                <div>
+                  <span className="batch-summary-value">{sheet.rows.length} rows</span>
+                  <span className="batch-summary-label">
+                    {sheet.fileName} - header on row {sheet.headerRowNumber}
+                  </span>
+                </div>
+              </div>
+
+              <div className="batch-receive-form">
+                <div className="form-grid cols-3">
+                  <div className="form-group">
+                    <label htmlFor="default_department">Department (when blank)</label>
+                    <select
+                      id="default_department"
+                      value={defaults.department}
+                      onChange={(e) => setDefaults(prev => ({ ...prev, department: e.target.value }))}
+                    >
+                      <option value="medical">Medical</option>
+                      <option value="dental">Dental</option>
+                    </select>
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor="default_classification">Classification (when blank)</label>
+                    <select
+                      id="default_classification"
+                      value={defaults.classification}
+                      onChange={(e) => setDefaults(prev => ({ ...prev, classification: e.target.value }))}
+                    >
+                      <option value="Medicines">Medicines</option>
+                      <option value="Supplies">Supplies</option>
+                      <option value="Equipment">Equipment</option>
+                    </select>
+                  </div>
+                  <div className="form-group">
+                    <label className="batch-toggle">
+                      <input type="checkbox" checked={upsertByCode} onChange={(e) => setUpsertByCode(e.target.checked)} />
+                      Update existing items with the same code
+                    </label>
+                  </div>
+                </div>
+              </div>
+
+              <table className="batch-table">
+                <thead>
+                  <tr>
+                    <th>Column in File</th>
+                    <th>First Value</th>
+                    <th>Import As</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sheet.headers.map(header => (
+                    <tr key={header}>
+                      <td>{header}</td>
+                      <td className="import-sample">{formatSample(sheet.rows[0]?.[header])}</td>
+                      <td>
+                        <select value={mapping[header] || ''} onChange={(e) => handleMappingChange(header, e.target.value)}>
+                          <option value="">Ignore</option>
+                          {IMPORT_FIELDS.map(field => (
+                            <option
+                              key={field.key}
+                              value={field.key}
+                              disabled={mapping[header] !== field.key && mappedFields.includes(field.key)}
+                            >
+                              {field.label}{field.required ? ' *' : ''}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+
+          {step === 'preview' && (
+            <>
+              <div className="batch-summary">
+                <div>
+                  <span className="batch-summary-value">{validRows.length} of {rows.length} rows ready</span>
+                  <span className="batch-summary-label">
+                    {validRows.filter(row => row.action === 'insert').length} new, {validRows.filter(row => row.action === 'update').length} update(s),
+                    {' '}{errorRows.length} with errors (skipped), {warningRows.length} with warnings
+                  </span>
+                </div>
+                <div className="movement-filter">
+                  <label htmlFor="preview_filter">Show</label>
+                  <select id="preview_filter" value={previewFilter} onChange={(e) => setPreviewFilter(e.target.value as PreviewFilter)}>
+                    <option value="all">All rows</option>
+                    <option value="errors">Errors only</option>
+                    <option value="warnings">Warnings only</option>
+                  </select>
+                </div>
+              </div>
+
+              {visibleRows.length === 0 ? (
+                <div className="batch-empty">No rows to show.</div>
+              ) : (
+                <table className="batch-table">
+                  <thead>
+                    <tr>
+                      <th>Row</th>
+                      <th>Action</th>
+                      <th>Generic Name</th>
+                      <th>Code</th>
+                      <th>Department</th>
+                      <th>Classification</th>
+                      <th>Stock</th>
+                      <th>Issues</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleRows.map(row => (
+                      <tr key={row.rowNumber} className={row.errors.length > 0 ? 'import-row-error' : ''}>
+                        <td>{row.rowNumber}</td>
+                        <td>{row.errors.length > 0 ? 'Skip' : row.action === 'update' ? 'Update' : 'New'}</td>
+                        <td>{row.data.generic_name || '--'}</td>
+                        <td>{row.data.code || '--'}</td>
+                        <td className="capitalize">{row.data.department}</td>
+                        <td>{row.data.classification || '--'}</td>
+                        <td>
+                          {row.data.stock_quantity === null && row.action === 'update'
+                            ? 'Unchanged'
+                            : `${row.data.stock_quantity ?? 0} ${row.data.unit_of_measurement || 'pcs'}`}
+                        </td>
+                        <td>
+                          <ul className="import-issues">
+                            {row.errors.map(message => <li key={message} className="error">{message}</li>)}
+                            {row.warnings.map(message => <li key={message} className="warning">{message}</li>)}
+                          </ul>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+
+          {step === 'done' && result && (
+            <div className="batch-summary">
+              <div>
+                <span className="batch-summary-value">Import complete</span>
+                <span className="batch-summary-label">
+                  {result.inserted_count} item(s) added and {result.updated_count} updated from {result.file_name}.
+                  {errorRows.length > 0 && ` ${errorRows.length} row(s) with errors were skipped.`}
+                </span>
+              </div>
+            </div>
+          )}
+        </div>
+        <div className="modal-footer">
+          {step === 'map' && (
+            <>
+              <button className="btn-secondary" onClick={() => setStep('upload')}>Back</button>
+              <button className="btn-primary" onClick={handleValidate} disabled={working || missingRequired.length > 0}>
+                {working ? 'Validating...' : missingRequired.length > 0 ? `Map ${missingRequired[0].label}` : 'Validate Rows'}
+              </button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <button className="btn-secondary" onClick={() => setStep('map')} disabled={working}>Back</button>
+              <button className="btn-primary" onClick={handleImport} disabled={working || validRows.length === 0}>
+                {working ? 'Importing...' : `Import ${validRows.length} Row${validRows.length === 1 ? '' : 's'}`}
+              </button>
+            </>
+          )}
+          {(step === 'upload' || step === 'done') && (
+            <button className="btn-secondary" onClick={onClose}>Close</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportInventoryModal;
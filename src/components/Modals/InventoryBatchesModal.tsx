@@ -0,0 +1,221 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { batchService, getDaysUntilExpiry, type InventoryBatch } from '../../services/batchService';
+import './Modal.css';
+import './InventoryModals.css';
+
+interface InventoryBatchesModalProps {
+  item: any;
+  onClose: () => void;
+  onBatchesChanged: () => void;
+}
+
+const emptyBatchForm = {
+  lot_number: '',
+  received_date: new Date().toISOString().split('T')[0],
+  expiration_date: '',
+  supplier: '',
+  quantity: '',
+  notes: ''
+};
+
+const InventoryBatchesModal: React.FC<InventoryBatchesModalProps> = ({ item, onClose, onBatchesChanged }) => {
+  const [batches, setBatches] = useState<InventoryBatch[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showReceiveForm, setShowReceiveForm] = useState(false);
+  const [showEmpty, setShowEmpty] = useState(false);
+  const [formData, setFormData] = useState<any>(emptyBatchForm);
+
+  const fetchBatches = useCallback(async () => {
+    if (!item) return;
+    try {
+      setLoading(true);
+      setError(null);
+      // Lots may have expired since the item totals were last computed
+      await batchService.syncItemFromBatches(item.id);
+      const data = await batchService.getBatchesByItemId(item.id);
+      setBatches(data);
+    } catch (error: any) {
+      console.error('Error fetching batches:', error);
+      setError(`Failed to load batches: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [item]);
+
+  useEffect(() => {
+    fetchBatches();
+  }, [fetchBatches]);
+
+  if (!item) return null;
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev: any) => ({ ...prev, [name]: value }));
+  };
+
+  const handleReceive = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      setError(null);
+      await batchService.receiveBatch(item.id, {
+        lot_number: formData.lot_number,
+        received_date: formData.received_date,
+        expiration_date: formData.expiration_date || null,
+        supplier: formData.supplier,
+        quantity: parseInt(formData.quantity),
+        notes: formData.notes
+      });
+      setFormData(emptyBatchForm);
+      setShowReceiveForm(false);
+      await fetchBatches();
+      onBatchesChanged();
+    } catch (error: any) {
+      console.error('Error receiving batch:', error);
+      setError(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const getExpiryClass = (batch: InventoryBatch) => {
+    const days = getDaysUntilExpiry(batch.expiration_date);
+    if (days === null) return '';
+    if (days < 0) return 'expired';
+    if (days <= 30) return 'expiring';
+    return '';
+  };
+
+  const visibleBatches = showEmpty ? batches : batches.filter(batch => batch.quantity > 0);
+  const totalOnHand = batches.reduce((sum, batch) => sum + batch.quantity, 0);
+  const unit = item.unit_of_measurement || 'pcs';
+  // First unexpired lot in FEFO order is the one consumption draws from next
+  const nextOutBatch = batches.find(batch => {
+    const days = getDaysUntilExpiry(batch.expiration_date);
+    return batch.quantity > 0 && (days === null || days >= 0);
+  });
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content modal-xl">
+        <div className="modal-header">
+          <h2 className="modal-title">Batches - {item.generic_name}</h2>
+          <button className="modal-close-btn" onClick={onClose}>
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"/>
+              <line x1="6" y1="6" x2="18" y2="18"/>
+            </svg>
+          </button>
+        </div>
+        <div className="modal-body">
+          {error && <div className="batch-error">{error}</div>}
+
+          <div className="batch-summary">
+            <div>
+              <span className="batch-summary-value">{totalOnHand} {unit}</span>
+              <span className="batch-summary-label">On hand across {batches.filter(b => b.quantity > 0).length} lot(s)</span>
+            </div>
+            <div className="batch-summary-actions">
+              <label className="batch-toggle">
+                <input type="checkbox" checked={showEmpty} onChange={(e) => setShowEmpty(e.target.checked)} />
+                Show depleted lots
+              </label>
+              <button className="btn-primary" onClick={() => setShowReceiveForm(prev => !prev)}>
+                {showReceiveForm ? 'Cancel' : 'Receive Batch'}
+              </button>
+            </div>
+          </div>
+
+          {showReceiveForm && (
+            <form className="batch-receive-form" onSubmit={handleReceive}>
+              <div className="form-grid cols-3">
+                <div className="form-group">
+                  <label htmlFor="lot_number">Lot Number</label>
+                  <input type="text" id="lot_number" name="lot_number" value={formData.lot_number} onChange={handleChange} required />
+                </div>
+                <div className="form-group">
+                  <label htmlFor="quantity">Quantity ({unit})</label>
+                  <input type="number" id="quantity" name="quantity" min={1} value={formData.quantity} onChange={handleChange} required />
+                </div>
+                <div className="form-group">
+                  <label htmlFor="supplier">Supplier</label>
+                  <input type="text" id="supplier" name="supplier" value={formData.supplier} onChange={handleChange} />
+                </div>
+                <div className="form-group">
+                  <label htmlFor="received_date">Received Date</label>
+                  <input type="date" id="received_date" name="received_date" value={formData.received_date} onChange={handleChange} required />
+                </div>
+                <div className="form-group">
+                  <label htmlFor="expiration_date">Expiration Date</label>
+                  <input type="date" id="expiration_date" name="expiration_date" value={formData.expiration_date} onChange={handleChange} />
+                </div>
+                <div className="form-group">
+                  <label htmlFor="notes">Notes</label>
+                  <input type="text" id="notes" name="notes" value={formData.notes} onChange={handleChange} />
+                </div>
+              </div>
+              <div className="batch-receive-actions">
+                <button type="submit" className="btn-primary" disabled={saving}>
+                  {saving ? 'Saving...' : 'Add to Stock'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {loading ? (
+            <div className="loading-message">Loading batches...</div>
+          ) : visibleBatches.length === 0 ? (
+            <div className="batch-empty">No batches on hand. Receive a batch to add stock for this item.</div>
+          ) : (
+            <table className="batch-table">
+              <thead>
+                <tr>
+                  <th>Lot Number</th>
+                  <th>Received</th>
+                  <th>Expiry</th>
+                  <th>Supplier</th>
+                  <th>On Hand</th>
+                  <th>Received Qty</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleBatches.map((batch) => {
+                  const days = getDaysUntilExpiry(batch.expiration_date);
+                  return (
+                    <tr key={batch.id} className={getExpiryClass(batch)}>
+                      <td>
+                        {batch.lot_number}
+                        {batch.id === nextOutBatch?.id && (
+                          <span className="batch-next-tag">Next out</span>
+                        )}
+                      </td>
+                      <td>{batch.received_date}</td>
+                      <td>
+                        {batch.expiration_date || 'No expiry'}
+                        {days !== null && (
+                          <span className="batch-days">
+                            {days < 0 ? ` (expired ${Math.abs(days)}d ago)` : ` (${days}d)`}
+                          </span>
+                        )}
+                      </td>
+                      <td>{batch.supplier || '--'}</td>
+                      <td>{batch.quantity} {unit}</td>
+                      <td>{batch.received_quantity} {unit}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+        <div className="modal-footer">
+          <button className="btn-secondary" onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InventoryBatchesModal;
@@ -0,0 +1,264 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  notificationService,
+  RULE_TYPE_LABELS,
+  type NotificationRule,
+  type NotificationRuleInput,
+  type NotificationRuleType
+} from '../../services/notificationService';
+import './Modal.css';
+import './InventoryModals.css';
+
+interface NotificationRulesModalProps {
+  onClose: () => void;
+  onRulesChanged: () => void;
+}
+
+const emptyRuleForm = {
+  name: '',
+  rule_type: 'expiry' as NotificationRuleType,
+  threshold_days: '30',
+  department: '',
+  severity: 'warning',
+  is_active: true
+};
+
+const NotificationRulesModal: React.FC<NotificationRulesModalProps> = ({ onClose, onRulesChanged }) => {
+  const [rules, setRules] = useState<NotificationRule[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingRuleId, setEditingRuleId] = useState<number | 'new' | null>(null);
+  const [formData, setFormData] = useState<any>(emptyRuleForm);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setRules(await notificationService.getRules());
+    } catch (error: any) {
+      console.error('Error fetching notification rules:', error);
+      setError(`Failed to load rules: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const startEdit = (rule?: NotificationRule) => {
+    setError(null);
+    if (!rule) {
+      setEditingRuleId('new');
+      setFormData(emptyRuleForm);
+      return;
+    }
+    setEditingRuleId(rule.id);
+    setFormData({
+      name: rule.name,
+      rule_type: rule.rule_type,
+      threshold_days: rule.threshold_days?.toString() || '',
+      department: rule.department || '',
+      severity: rule.severity,
+      is_active: rule.is_active
+    });
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value, type } = e.target;
+    const checked = (e.target as HTMLInputElement).checked;
+    setFormData((prev: any) => ({ ...prev, [name]: type === 'checkbox' ? checked : value }));
+  };
+
+  const toRuleInput = (data: any): NotificationRuleInput => ({
+    name: data.name,
+    rule_type: data.rule_type,
+    threshold_days: data.rule_type === 'low_stock' ? null : parseInt(data.threshold_days),
+    department: data.department || null,
+    severity: data.severity,
+    is_active: data.is_active
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      setError(null);
+      if (editingRuleId === 'new') {
+        await notificationService.createRule(toRuleInput(formData));
+      } else if (editingRuleId) {
+        await notificationService.updateRule(editingRuleId, toRuleInput(formData));
+      }
+      setEditingRuleId(null);
+      await fetchRules();
+      onRulesChanged();
+    } catch (error: any) {
+      console.error('Error saving notification rule:', error);
+      setError(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (rule: NotificationRule) => {
+    try {
+      setError(null);
+      await notificationService.updateRule(rule.id, { ...toRuleInput(rule), is_active: !rule.is_active });
+      await fetchRules();
+      onRulesChanged();
+    } catch (error: any) {
+      console.error('Error updating notification rule:', error);
+      setError(error.message);
+    }
+  };
+
+  const handleDelete = async (rule: NotificationRule) => {
+    if (!window.confirm(`Delete rule "${rule.name}"? Existing notifications are kept.`)) return;
+    try {
+      setError(null);
+      await notificationService.deleteRule(rule);
+      await fetchRules();
+    } catch (error: any) {
+      console.error('Error deleting notification rule:', error);
+      setError(error.message);
+    }
+  };
+
+  const describeCondition = (rule: NotificationRule) => {
+    switch (rule.rule_type) {
+      case 'expiry':
+        return `Expires within ${rule.threshold_days} day(s)`;
+      case 'maintenance_overdue':
+        return `In maintenance over ${rule.threshold_days} day(s)`;
+      default:
+        return 'At or below stock threshold';
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content modal-lg">
+        <div className="modal-header">
+          <h2 className="modal-title">Alert Rules</h2>
+          <button className="modal-close-btn" onClick={onClose}>
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"/>
+              <line x1="6" y1="6" x2="18" y2="18"/>
+            </svg>
+          </button>
+        </div>
+        <div className="modal-body">
+          {error && <div className="batch-error">{error}</div>}
+
+          <div className="batch-summary">
+            <div>
+              <span className="batch-summary-value">{rules.filter(rule => rule.is_active).length} active</span>
+              <span className="batch-summary-label">Every user is notified once each time an item meets a rule.</span>
+            </div>
+            <div className="batch-summary-actions">
+              <button className="btn-primary" onClick={() => startEdit()}>Add Rule</button>
+            </div>
+          </div>
+
+          {editingRuleId && (
+            <form className="batch-receive-form" onSubmit={handleSubmit}>
+              <div className="form-grid cols-3">
+                <div className="form-group">
+                  <label htmlFor="name">Name</label>
+                  <input type="text" id="name" name="name" value={formData.name} onChange={handleChange} required />
+                </div>
+                <div className="form-group">
+                  <label htmlFor="rule_type">Condition</label>
+                  <select id="rule_type" name="rule_type" value={formData.rule_type} onChange={handleChange}>
+                    {(Object.keys(RULE_TYPE_LABELS) as NotificationRuleType[]).map(type => (
+                      <option key={type} value={type}>{RULE_TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                </div>
+                {formData.rule_type !== 'low_stock' && (
+                  <div className="form-group">
+                    <label htmlFor="threshold_days">
+                      {formData.rule_type === 'expiry' ? 'Days Before Expiry' : 'Days in Maintenance'}
+                    </label>
+                    <input type="number" id="threshold_days" name="threshold_days" min={0} value={formData.threshold_days} onChange={handleChange} required />
+                  </div>
+                )}
+                <div className="form-group">
+                  <label htmlFor="department">Department</label>
+                  <select id="department" name="department" value={formData.department} onChange={handleChange}>
+                    <option value="">Both</option>
+                    <option value="medical">Medical</option>
+                    <option value="dental">Dental</option>
+                  </select>
+                </div>
+                <div className="form-group">
+                  <label htmlFor="severity">Severity</label>
+                  <select id="severity" name="severity" value={formData.severity} onChange={handleChange}>
+                    <option value="info">Info</option>
+                    <option value="warning">Warning</option>
+                    <option value="critical">Critical</option>
+                  </select>
+                </div>
+                <div className="form-group">
+                  <label className="batch-toggle">
+                    <input type="checkbox" name="is_active" checked={formData.is_active} onChange={handleChange} />
+                    Active
+                  </label>
+                </div>
+              </div>
+              <div className="batch-receive-actions">
+                <button type="button" className="btn-secondary" onClick={() => setEditingRuleId(null)}>Cancel</button>
+                <button type="submit" className="btn-primary" disabled={saving}>
+                  {saving ? 'Saving...' : 'Save Rule'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {loading ? (
+            <div className="loading-message">Loading rules...</div>
+          ) : rules.length === 0 ? (
+            <div className="batch-empty">No alert rules. Add one to start receiving notifications.</div>
+          ) : (
+            <table className="batch-table">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Condition</th>
+                  <th>Department</th>
+                  <th>Severity</th>
+                  <th>Active</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rules.map(rule => (
+                  <tr key={rule.id}>
+                    <td>{rule.name}</td>
+                    <td>{describeCondition(rule)}</td>
+                    <td className="capitalize">{rule.department || 'Both'}</td>
+                    <td><span className={`rule-severity ${rule.severity}`}>{rule.severity}</span></td>
+                    <td>
+                      <input type="checkbox" checked={rule.is_active} onChange={() => handleToggleActive(rule)} />
+                    </td>
+                    <td className="rule-actions">
+                      <button className="btn-secondary" onClick={() => startEdit(rule)}>Edit</button>
+                      <button className="btn-danger" onClick={() => handleDelete(rule)}>Delete</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+        <div className="modal-footer">
+          <button className="btn-secondary" onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NotificationRulesModal;
@@ -0,0 +1,345 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  patientTimelineService,
+  TIMELINE_TYPE_LABELS,
+  type PatientTimelineEntry,
+  type TimelineEntryType
+} from '../../../services/patientTimelineService';
+import './PatientModals.css';
+
+interface PatientTimelineProps {
+  patientId: number;
+}
+
+const ALL_TYPES = Object.keys(TIMELINE_TYPE_LABELS) as TimelineEntryType[];
+
+const TYPE_COLORS: Record<TimelineEntryType, string> = {
+  consultation: 'var(--color-primary)',
+  vital_signs: 'var(--color-success)',
+  gcs: 'var(--color-warning)',
+  attachment: 'var(--color-primary)',
+  dispense: 'var(--color-success)',
+  contact: 'var(--color-primary)',
+  log: '#6b7280'
+};
+
+const formatTimelineDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+// YYYY-MM-DD in local time, comparable with <input type="date"> values
+const toLocalDateKey = (dateString: string) => {
+  const date = new Date(dateString);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const formatActionText = (action: string) =>
+  action
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+const DetailRow: React.FC<{ label: string; value?: React.ReactNode }> = ({ label, value }) =>
+  value === undefined || value === null || value === '' ? null : (
+    <div className="allergy-item">
+      <span className="allergy-label">{label}</span>
+      <span className="allergy-value">{value}</span>
+    </div>
+  );
+
+const getTitle = (entry: PatientTimelineEntry): string => {
+  switch (entry.type) {
+    case 'consultation':
+      return `Consultation ${entry.record.case_number}`;
+    case 'vital_signs':
+      return 'Vital Signs Recorded';
+    case 'gcs':
+      return `Glasgow Coma Scale: ${entry.record.total_score}/15`;
+    case 'attachment':
+      return `Attachment: ${entry.record.file_name}`;
+    case 'dispense':
+      return `Dispensed ${entry.record.item_name}`;
+    case 'contact':
+      return 'Emergency Contact Added';
+    case 'log':
+      return formatActionText(entry.record.action);
+  }
+};
+
+const getSummary = (entry: PatientTimelineEntry): string => {
+  switch (entry.type) {
+    case 'consultation':
+      return entry.record.chief_complaint + (entry.record.diagnosis ? ` (Diagnosis: ${entry.record.diagnosis})` : '');
+    case 'vital_signs': {
+      const vital = entry.record;
+      return [
+        vital.blood_pressure_systolic && vital.blood_pressure_diastolic
+          ? `BP ${vital.blood_pressure_systolic}/${vital.blood_pressure_diastolic}` : null,
+        vital.temperature ? `Temp ${vital.temperature}°C` : null,
+        vital.pulse_rate ? `PR ${vital.pulse_rate}` : null,
+        vital.respiratory_rate ? `RR ${vital.respiratory_rate}` : null,
+        vital.oxygen_saturation ? `SpO2 ${vital.oxygen_saturation}%` : null
+      ].filter(Boolean).join(' · ') || 'No measurements recorded';
+    }
+    case 'gcs':
+      return `Eye ${entry.record.eye_response}, Verbal ${entry.record.verbal_response}, Motor ${entry.record.motor_response}`;
+    case 'attachment':
+      return entry.record.description || 'No description';
+    case 'dispense':
+      return `${entry.record.quantity} ${entry.record.unit_of_measurement || 'pcs'}` +
+        (entry.record.dosage_instructions ? ` - ${entry.record.dosage_instructions}` : '');
+    case 'contact':
+      return `${entry.record.contact_name} (${entry.record.relationship})`;
+    case 'log':
+      return entry.record.description || '';
+  }
+};
+
+const renderDetails = (entry: PatientTimelineEntry) => {
+  switch (entry.type) {
+    case 'consultation': {
+      const consultation = entry.record;
+      return (
+        <>
+          <DetailRow label="Status" value={consultation.status} />
+          <DetailRow label="Time In" value={consultation.time_in} />
+          <DetailRow label="Time Out" value={consultation.time_out} />
+          <DetailRow label="Attending Physician" value={consultation.attending_physician_name} />
+          <DetailRow label="Subjective" value={consultation.subjective_notes} />
+          <DetailRow label="Objective" value={consultation.objective_notes} />
+          <DetailRow label="Assessment" value={consultation.assessment_notes} />
+          <DetailRow label="Plan" value={consultation.plan_notes} />
+          <DetailRow label="Interventions" value={consultation.interventions} />
+        </>
+      );
+    }
+    case 'vital_signs': {
+      const vital = entry.record;
+      const injuries = [
+        vital.injury_abrasion && 'Abrasion',
+        vital.injury_contusion && 'Contusion',
+        vital.injury_fracture && 'Fracture',
+        vital.injury_laceration && 'Laceration',
+        vital.injury_puncture && 'Puncture',
+        vital.injury_sprain && 'Sprain',
+        vital.injury_other
+      ].filter(Boolean).join(', ');
+      return (
+        <>
+          <DetailRow label="Mode of Arrival" value={vital.mode_of_arrival} />
+          <DetailRow label="Height" value={vital.height ? `${vital.height} cm` : undefined} />
+          <DetailRow label="Weight" value={vital.weight ? `${vital.weight} kg` : undefined} />
+          <DetailRow label="Pain Scale" value={vital.patient_in_pain ? `${vital.pain_scale ?? '?'}/10` : undefined} />
+          <DetailRow label="Injuries" value={vital.patient_has_injuries ? injuries || 'Yes' : undefined} />
+          <DetailRow label="LMP" value={vital.lmp} />
+        </>
+      );
+    }
+    case 'gcs': {
+      const scale = entry.record;
+      return (
+        <>
+          <DetailRow label="Eye Response" value={`${scale.eye_response}${scale.eye_response_description ? ` - ${scale.eye_response_description}` : ''}`} />
+          <DetailRow label="Verbal Response" value={`${scale.verbal_response}${scale.verbal_response_description ? ` - ${scale.verbal_response_description}` : ''}`} />
+          <DetailRow label="Motor Response" value={`${scale.motor_response}${scale.motor_response_description ? ` - ${scale.motor_response_description}` : ''}`} />
+        </>
+      );
+    }
+    case 'attachment': {
+      const attachment = entry.record;
+      return (
+        <>
+          <DetailRow label="File Type" value={attachment.file_type} />
+          <DetailRow label="Size" value={attachment.file_size ? `${(attachment.file_size / 1024).toFixed(2)} KB` : undefined} />
+          <a href={attachment.file_path} target="_blank" rel="noopener noreferrer" className="btn-secondary btn-sm">
+            View
+          </a>
+        </>
+      );
+    }
+    case 'dispense': {
+      const dispense = entry.record;
+      return (
+        <>
+          <DetailRow label="Quantity" value={`${dispense.quantity} ${dispense.unit_of_measurement || 'pcs'}`} />
+          <DetailRow label="Instructions" value={dispense.dosage_instructions} />
+          <DetailRow
+            label="Lots"
+            value={dispense.batch_allocations?.map(allocation => `${allocation.lot_number} (${allocation.quantity})`).join(', ')}
+          />
+        </>
+      );
+    }
+    case 'contact': {
+      const contact = entry.record;
+      return (
+        <>
+          <DetailRow label="Name" value={contact.contact_name} />
+          <DetailRow label="Relationship" value={contact.relationship} />
+          <DetailRow label="Phone" value={contact.contact_number} />
+          <DetailRow label="Primary" value={contact.is_primary ? 'Yes' : 'No'} />
+        </>
+      );
+    }
+    case 'log':
+      return entry.record.details && Object.keys(entry.record.details).length > 0 ? (
+        <pre>{JSON.stringify(entry.record.details, null, 2)}</pre>
+      ) : (
+        <span>No further details.</span>
+      );
+  }
+};
+
+const PatientTimeline: React.FC<PatientTimelineProps> = ({ patientId }) => {
+  const [entries, setEntries] = useState<PatientTimelineEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [visibleTypes, setVisibleTypes] = useState<TimelineEntryType[]>(ALL_TYPES.filter(type => type !== 'log'));
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [expandedKeys, setExpandedKeys] = useState<string[]>([]);
+
+  const fetchTimeline = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setEntries(await patientTimelineService.getPatientTimeline(patientId));
+    } catch (error: any) {
+      console.error('Error fetching patient timeline:', error);
+      setError(`Failed to load timeline: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    fetchTimeline();
+  }, [fetchTimeline]);
+
+  const toggleType = (type: TimelineEntryType) => {
+    setVisibleTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
+  };
+
+  const toggleExpanded = (key: string) => {
+    setExpandedKeys(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+  };
+
+  const filteredEntries = entries.filter(entry => {
+    if (!visibleTypes.includes(entry.type)) return false;
+    const day = toLocalDateKey(entry.occurred_at);
+    return (!dateFrom || day >= dateFrom) && (!dateTo || day <= dateTo);
+  });
+
+  const countByType = entries.reduce((acc, entry) => {
+    acc[entry.type] = (acc[entry.type] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<TimelineEntryType, number>>);
+
+  return (
+    <div className="logs-section">
+      {error && (
+        <div className="error-message">
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <circle cx="12" cy="12" r="10"/>
+            <line x1="15" y1="9" x2="9" y2="15"/>
+            <line x1="9" y1="9" x2="15" y2="15"/>
+          </svg>
+          {error}
+        </div>
+      )}
+
+      <div className="logs-filters timeline-filters">
+        <div className="filter-group">
+          <label>Show:</label>
+          <div className="timeline-type-chips">
+            {ALL_TYPES.map(type => (
+              <button
+                key={type}
+                type="button"
+                className={`timeline-type-chip ${visibleTypes.includes(type) ? 'active' : ''}`}
+                onClick={() => toggleType(type)}
+              >
+                {TIMELINE_TYPE_LABELS[type]} ({countByType[type] || 0})
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="filter-group">
+          <label htmlFor="timeline_from">From:</label>
+          <input type="date" id="timeline_from" value={dateFrom} max={dateTo || undefined} onChange={(e) => setDateFrom(e.target.value)} />
+        </div>
+
+        <div className="filter-group">
+          <label htmlFor="timeline_to">To:</label>
+          <input type="date" id="timeline_to" value={dateTo} min={dateFrom || undefined} onChange={(e) => setDateTo(e.target.value)} />
+        </div>
+
+        <button className="btn-secondary btn-sm" onClick={fetchTimeline} disabled={loading}>
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <polyline points="1,4 1,10 7,10"/>
+            <path d="M3.51 15a9 9 0 1 0 2.13-9.36L1 10"/>
+          </svg>
+          Refresh
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="loading-message">Loading timeline...</div>
+      ) : filteredEntries.length === 0 ? (
+        <div className="empty-state">
+          <p>{entries.length === 0 ? 'Nothing has been recorded for this patient yet.' : 'No entries match the selected filters.'}</p>
+        </div>
+      ) : (
+        <div className="logs-timeline">
+          {filteredEntries.map((entry, index) => {
+            const isExpanded = expandedKeys.includes(entry.key);
+            return (
+              <div key={entry.key} className="log-entry">
+                <div className="log-icon" style={{ color: TYPE_COLORS[entry.type], borderColor: TYPE_COLORS[entry.type] }}>
+                  <svg width="12" height="12" viewBox="0 0 24 24" fill="currentColor">
+                    <circle cx="12" cy="12" r="8"/>
+                  </svg>
+                </div>
+
+                <div className="log-content timeline-content" onClick={() => toggleExpanded(entry.key)}>
+                  <div className="log-header">
+                    <div className="log-action">
+                      {getTitle(entry)}
+                      <span className="timeline-type-label">{TIMELINE_TYPE_LABELS[entry.type]}</span>
+                    </div>
+                    <div className="log-time">{formatTimelineDateTime(entry.occurred_at)}</div>
+                  </div>
+
+                  <div className="log-description">
+                    {getSummary(entry)}
+                    {entry.consultation && entry.type !== 'consultation' && (
+                      <span className="timeline-case"> · {entry.consultation.case_number}</span>
+                    )}
+                  </div>
+
+                  {isExpanded && (
+                    <div className="details-content" onClick={(e) => e.stopPropagation()}>
+                      {renderDetails(entry)}
+                    </div>
+                  )}
+                </div>
+
+                {index < filteredEntries.length - 1 && <div className="log-connector" />}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PatientTimeline;
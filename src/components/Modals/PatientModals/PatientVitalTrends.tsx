@@ -0,0 +1,228 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Line } from 'react-chartjs-2';
+import '../../../lib/chartSetup';
+import { type Consultation } from '../../../services/supabaseService';
+import {
+  vitalTrendsService,
+  VITAL_REFERENCE_RANGES,
+  isOutOfRange,
+  type VitalMetric,
+  type VitalTrendPoint
+} from '../../../services/vitalTrendsService';
+import './PatientModals.css';
+
+interface PatientVitalTrendsProps {
+  patientId: number;
+  onOpenConsultation?: (consultation: Consultation) => void;
+}
+
+interface TrendChart {
+  key: string;
+  title: string;
+  metrics: VitalMetric[];
+}
+
+const TREND_CHARTS: TrendChart[] = [
+  { key: 'blood_pressure', title: 'Blood Pressure', metrics: ['blood_pressure_systolic', 'blood_pressure_diastolic'] },
+  { key: 'pulse_rate', title: 'Pulse Rate', metrics: ['pulse_rate'] },
+  { key: 'respiratory_rate', title: 'Respiratory Rate', metrics: ['respiratory_rate'] },
+  { key: 'temperature', title: 'Temperature', metrics: ['temperature'] },
+  { key: 'oxygen_saturation', title: 'Oxygen Saturation', metrics: ['oxygen_saturation'] },
+  { key: 'weight', title: 'Weight', metrics: ['weight'] },
+  { key: 'bmi', title: 'Body Mass Index', metrics: ['bmi'] }
+];
+
+const METRIC_COLORS: Record<VitalMetric, string> = {
+  blood_pressure_systolic: '#3B82F6',
+  blood_pressure_diastolic: '#8B5CF6',
+  pulse_rate: '#EC4899',
+  respiratory_rate: '#14B8A6',
+  temperature: '#F59E0B',
+  oxygen_saturation: '#0EA5E9',
+  weight: '#6366F1',
+  bmi: '#10B981'
+};
+
+const OUT_OF_RANGE_COLOR = '#DC2626';
+const NORMAL_BAND_COLOR = 'rgba(16, 185, 129, 0.12)';
+
+const formatPointDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: '2-digit' });
+
+const PatientVitalTrends: React.FC<PatientVitalTrendsProps> = ({ patientId, onOpenConsultation }) => {
+  const [points, setPoints] = useState<VitalTrendPoint[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTrends = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setPoints(await vitalTrendsService.getPatientVitalTrends(patientId));
+    } catch (error: any) {
+      console.error('Error fetching vital sign trends:', error);
+      setError(`Failed to load vital signs: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    fetchTrends();
+  }, [fetchTrends]);
+
+  const labels = points.map(point => formatPointDate(point.recorded_at));
+
+  const renderChart = (chart: TrendChart) => {
+    const metrics = chart.metrics.filter(metric => points.some(point => point.values[metric] !== undefined));
+    if (metrics.length === 0) return null;
+
+    // Normal-range bands come first: each is a lower edge plus an upper edge filled down to it
+    const bandDatasets = metrics.flatMap(metric => {
+      const { label, low, high } = VITAL_REFERENCE_RANGES[metric];
+      if (low === null || high === null) return [];
+      return [
+        { label: `${label} normal (low)`, data: labels.map(() => low), borderWidth: 0, pointRadius: 0, pointHitRadius: 0, fill: false },
+        { label: `${label} normal range`, data: labels.map(() => high), borderWidth: 0, pointRadius: 0, pointHitRadius: 0, backgroundColor: NORMAL_BAND_COLOR, fill: '-1' as const }
+      ];
+    });
+    const bandCount = bandDatasets.length;
+
+    const valueDatasets = metrics.map(metric => {
+      const values = points.map(point => point.values[metric] ?? null);
+      return {
+        label: `${VITAL_REFERENCE_RANGES[metric].label} (${VITAL_REFERENCE_RANGES[metric].unit})`,
+        data: values,
+        borderColor: METRIC_COLORS[metric],
+        backgroundColor: METRIC_COLORS[metric],
+        pointBackgroundColor: values.map(value => isOutOfRange(metric, value) ? OUT_OF_RANGE_COLOR : METRIC_COLORS[metric]),
+        pointBorderColor: values.map(value => isOutOfRange(metric, value) ? OUT_OF_RANGE_COLOR : METRIC_COLORS[metric]),
+        pointRadius: values.map(value => isOutOfRange(metric, value) ? 6 : 3),
+        pointHoverRadius: 7,
+        borderWidth: 2,
+        spanGaps: true,
+        tension: 0.3,
+        fill: false
+      };
+    });
+
+    return (
+      <div key={chart.key} className="vital-trend-card">
+        <h4>{chart.title}</h4>
+        <div className="vital-trend-chart">
+          <Line
+            data={{ labels, datasets: [...bandDatasets, ...valueDatasets] }}
+            options={{
+              responsive: true,
+              maintainAspectRatio: false,
+              onClick: (_event, elements) => {
+                const element = elements.find(item => item.datasetIndex >= bandCount);
+                if (element && onOpenConsultation) {
+                  onOpenConsultation(points[element.index].consultation);
+                }
+              },
+              plugins: {
+                legend: {
+                  position: 'bottom' as const,
+                  labels: {
+                    font: { size: 11 },
+                    filter: (item) => (item.datasetIndex ?? 0) >= bandCount
+                  }
+                },
+                tooltip: {
+                  filter: (item) => item.datasetIndex >= bandCount,
+                  callbacks: {
+                    title: (items) => {
+                      const point = points[items[0]?.dataIndex];
+                      return point ? `${new Date(point.recorded_at).toLocaleString()} · ${point.consultation.case_number}` : '';
+                    },
+                    footer: () => onOpenConsultation ? 'Click to open the consultation' : ''
+                  }
+                }
+              },
+              scales: {
+                x: {
+                  grid: { color: 'rgba(0, 0, 0, 0.05)' },
+                  ticks: { font: { size: 10 } }
+                },
+                y: {
+                  grid: { color: 'rgba(0, 0, 0, 0.05)' },
+                  ticks: { font: { size: 10 } }
+                }
+              }
+            }}
+          />
+        </div>
+      </div>
+    );
+  };
+
+  const flaggedPoints = points
+    .map(point => ({
+      point,
+      flagged: (Object.keys(point.values) as VitalMetric[]).filter(metric => isOutOfRange(metric, point.values[metric]))
+    }))
+    .filter(({ flagged }) => flagged.length > 0)
+    .reverse();
+
+  return (
+    <div className="logs-section">
+      {error && (
+        <div className="error-message">
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <circle cx="12" cy="12" r="10"/>
+            <line x1="15" y1="9" x2="9" y2="15"/>
+            <line x1="9" y1="9" x2="15" y2="15"/>
+          </svg>
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="loading-message">Loading vital signs...</div>
+      ) : points.length === 0 ? (
+        <div className="empty-state">
+          <p>No vital signs have been recorded for this patient.</p>
+        </div>
+      ) : (
+        <>
+          <p className="vital-trend-legend">
+            {points.length} reading(s) across all consultations. Shaded bands show the normal adult range;
+            readings outside it are marked in red.
+          </p>
+
+          <div className="vital-trends-grid">
+            {TREND_CHARTS.map(renderChart)}
+          </div>
+
+          {flaggedPoints.length > 0 && (
+            <div className="medical-section vital-flagged-section">
+              <h4>Out-of-Range Readings ({flaggedPoints.length})</h4>
+              {flaggedPoints.map(({ point, flagged }) => (
+                <div key={point.vital.id} className="allergy-item vital-flagged-item">
+                  <span className="allergy-label">
+                    {new Date(point.recorded_at).toLocaleString()} · {point.consultation.case_number}
+                  </span>
+                  <span className="allergy-value">
+                    {flagged.map(metric => (
+                      <span key={metric} className="vital-flag">
+                        {VITAL_REFERENCE_RANGES[metric].label} {point.values[metric]} {VITAL_REFERENCE_RANGES[metric].unit}
+                      </span>
+                    ))}
+                    {onOpenConsultation && (
+                      <button className="btn-secondary btn-sm" onClick={() => onOpenConsultation(point.consultation)}>
+                        Open Consultation
+                      </button>
+                    )}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PatientVitalTrends;
@@ -0,0 +1,459 @@
+import React, { useState, useEffect } from 'react';
+import { type Patient } from '../../../services/supabaseService';
+import { toDateKey } from '../../../services/appointmentService';
+import {
+  physicalExamService,
+  calculateBmi,
+  getIncompleteExamItems,
+  getSchoolYear,
+  getRecentSchoolYears,
+  type PhysicalExam,
+  type PhysicalExamInput
+} from '../../../services/physicalExamService';
+import {
+  PHYSICAL_EXAM_LAB_TESTS,
+  PHYSICAL_EXAM_PURPOSE_LABELS,
+  PHYSICAL_EXAM_SYSTEMS,
+  type ClearanceStatus,
+  type ExamFindingStatus,
+  type LabResultStatus,
+  type PhysicalExamPurpose
+} from '../../../constants/physicalExam';
+import './PatientModals.css';
+
+interface PhysicalExamModalProps {
+  isOpen: boolean;
+  patient: Patient | null;
+  // Pending exam to continue; a new exam is started when omitted
+  exam?: PhysicalExam | null;
+  onClose: () => void;
+  onExamSaved: (exam: PhysicalExam) => void;
+}
+
+const emptyForm = (patient: Patient | null): PhysicalExamInput => ({
+  school_year: getSchoolYear(),
+  purpose: patient?.patient_type === 'Employee' ? 'annual' : 'pre_enrollment',
+  exam_date: toDateKey(new Date()),
+  height_cm: null,
+  weight_kg: null,
+  blood_pressure_systolic: null,
+  blood_pressure_diastolic: null,
+  pulse_rate: null,
+  respiratory_rate: null,
+  visual_acuity_left: '',
+  visual_acuity_right: '',
+  wears_corrective_lenses: false,
+  findings: {},
+  lab_results: {},
+  recommendations: ''
+});
+
+const toForm = (exam: PhysicalExam): PhysicalExamInput => ({
+  school_year: exam.school_year,
+  purpose: exam.purpose,
+  exam_date: exam.exam_date,
+  height_cm: exam.height_cm,
+  weight_kg: exam.weight_kg,
+  blood_pressure_systolic: exam.blood_pressure_systolic,
+  blood_pressure_diastolic: exam.blood_pressure_diastolic,
+  pulse_rate: exam.pulse_rate,
+  respiratory_rate: exam.respiratory_rate,
+  visual_acuity_left: exam.visual_acuity_left || '',
+  visual_acuity_right: exam.visual_acuity_right || '',
+  wears_corrective_lenses: exam.wears_corrective_lenses,
+  findings: exam.findings || {},
+  lab_results: exam.lab_results || {},
+  recommendations: exam.recommendations || ''
+});
+
+const PhysicalExamModal: React.FC<PhysicalExamModalProps> = ({
+  isOpen,
+  patient,
+  exam,
+  onClose,
+  onExamSaved
+}) => {
+  const [formData, setFormData] = useState<PhysicalExamInput>(emptyForm(patient));
+  const [decision, setDecision] = useState<ClearanceStatus>('pending');
+  // Set once the exam is saved, so a failed sign-off can be retried without a duplicate exam
+  const [savedExam, setSavedExam] = useState<PhysicalExam | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(exam ? toForm(exam) : emptyForm(patient));
+      setSavedExam(exam || null);
+      setDecision('pending');
+    }
+  }, [isOpen, exam, patient]);
+
+  const handleInputChange = (field: keyof PhysicalExamInput, value: any) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleNumberChange = (field: keyof PhysicalExamInput, value: string) => {
+    handleInputChange(field, value === '' ? null : Number(value));
+  };
+
+  const handleFindingChange = (key: string, changes: { status?: ExamFindingStatus | ''; notes?: string }) => {
+    setFormData(prev => {
+      const finding = { ...prev.findings[key], ...changes };
+      const findings = { ...prev.findings };
+      if (finding.status) {
+        findings[key] = { status: finding.status, notes: finding.notes };
+      } else {
+        delete findings[key];
+      }
+      return { ...prev, findings };
+    });
+  };
+
+  const handleLabResultChange = (key: string, changes: { status?: LabResultStatus | ''; notes?: string }) => {
+    setFormData(prev => {
+      const result = { ...prev.lab_results[key], ...changes };
+      const labResults = { ...prev.lab_results };
+      if (result.status) {
+        labResults[key] = { status: result.status, notes: result.notes };
+      } else {
+        delete labResults[key];
+      }
+      return { ...prev, lab_results: labResults };
+    });
+  };
+
+  // Routine exams: sets every section not yet examined to normal in one go
+  const handleMarkRemainingNormal = () => {
+    setFormData(prev => {
+      const findings = { ...prev.findings };
+      PHYSICAL_EXAM_SYSTEMS.forEach(system => {
+        if (!findings[system.key]?.status) findings[system.key] = { status: 'normal' };
+      });
+      return { ...prev, findings };
+    });
+  };
+
+  const handleSave = async () => {
+    if (!patient) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const saved = await physicalExamService.saveExam(patient, formData, savedExam);
+      setSavedExam(saved);
+
+      const result = decision === 'pending'
+        ? saved
+        : await physicalExamService.recordClearance(patient, saved, decision, formData.recommendations || '');
+      onExamSaved(result);
+      handleClose();
+    } catch (error: any) {
+      console.error('Error saving physical exam:', error);
+      setError(error.message || 'Failed to save physical exam');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    setFormData(emptyForm(null));
+    setDecision('pending');
+    setSavedExam(null);
+    setError(null);
+    onClose();
+  };
+
+  if (!isOpen || !patient) return null;
+
+  const bmi = calculateBmi(formData.height_cm, formData.weight_kg);
+  const incompleteItems = getIncompleteExamItems(formData);
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content large-modal">
+        <div className="modal-header">
+          <h2>{savedExam ? 'Continue Physical Exam' : 'New Physical Exam'}</h2>
+          <button className="modal-close" onClick={handleClose}>
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"/>
+              <line x1="6" y1="6" x2="18" y2="18"/>
+            </svg>
+          </button>
+        </div>
+
+        <div className="modal-body">
+          <div className="patient-info-bar">
+            <span className="patient-name">{patient.first_name} {patient.last_name}</span>
+            <span className="patient-id">ID: {patient.patient_id}</span>
+          </div>
+
+          {error && (
+            <div className="error-message">
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <circle cx="12" cy="12" r="10"/>
+                <line x1="15" y1="9" x2="9" y2="15"/>
+                <line x1="9" y1="9" x2="15" y2="15"/>
+              </svg>
+              {error}
+            </div>
+          )}
+
+          <div className="form-grid">
+            <div className="form-group">
+              <label htmlFor="school_year">School Year *</label>
+              <select
+                id="school_year"
+                value={formData.school_year}
+                onChange={(e) => handleInputChange('school_year', e.target.value)}
+                disabled={loading || !!savedExam}
+              >
+                {getRecentSchoolYears().map(schoolYear => (
+                  <option key={schoolYear} value={schoolYear}>{schoolYear}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="purpose">Purpose *</label>
+              <select
+                id="purpose"
+                value={formData.purpose}
+                onChange={(e) => handleInputChange('purpose', e.target.value as PhysicalExamPurpose)}
+                disabled={loading}
+              >
+                {(Object.keys(PHYSICAL_EXAM_PURPOSE_LABELS) as PhysicalExamPurpose[]).map(purpose => (
+                  <option key={purpose} value={purpose}>{PHYSICAL_EXAM_PURPOSE_LABELS[purpose]}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="exam_date">Exam Date *</label>
+              <input
+                type="date"
+                id="exam_date"
+                max={toDateKey(new Date())}
+                value={formData.exam_date}
+                onChange={(e) => handleInputChange('exam_date', e.target.value)}
+                disabled={loading}
+              />
+            </div>
+          </div>
+
+          <div className="medical-section">
+            <h4>Measurements</h4>
+            <div className="form-grid">
+              <div className="form-group">
+                <label htmlFor="height_cm">Height (cm)</label>
+                <input
+                  type="number"
+                  id="height_cm"
+                  step="0.1"
+                  value={formData.height_cm ?? ''}
+                  onChange={(e) => handleNumberChange('height_cm', e.target.value)}
+                  disabled={loading}
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="weight_kg">Weight (kg)</label>
+                <input
+                  type="number"
+                  id="weight_kg"
+                  step="0.1"
+                  value={formData.weight_kg ?? ''}
+                  onChange={(e) => handleNumberChange('weight_kg', e.target.value)}
+                  disabled={loading}
+                />
+                {bmi && <small className="form-hint">BMI {bmi}</small>}
+              </div>
+              <div className="form-group">
+                <label htmlFor="blood_pressure_systolic">Blood Pressure (mmHg)</label>
+                <div className="exam-bp-inputs">
+                  <input
+                    type="number"
+                    id="blood_pressure_systolic"
+                    placeholder="Systolic"
+                    value={formData.blood_pressure_systolic ?? ''}
+                    onChange={(e) => handleNumberChange('blood_pressure_systolic', e.target.value)}
+                    disabled={loading}
+                  />
+                  <span>/</span>
+                  <input
+                    type="number"
+                    placeholder="Diastolic"
+                    value={formData.blood_pressure_diastolic ?? ''}
+                    onChange={(e) => handleNumberChange('blood_pressure_diastolic', e.target.value)}
+                    disabled={loading}
+                  />
+                </div>
+              </div>
+              <div className="form-group">
+                <label htmlFor="pulse_rate">Pulse Rate (bpm)</label>
+                <input
+                  type="number"
+                  id="pulse_rate"
+                  value={formData.pulse_rate ?? ''}
+                  onChange={(e) => handleNumberChange('pulse_rate', e.target.value)}
+                  disabled={loading}
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="respiratory_rate">Respiratory Rate (/min)</label>
+                <input
+                  type="number"
+                  id="respiratory_rate"
+                  value={formData.respiratory_rate ?? ''}
+                  onChange={(e) => handleNumberChange('respiratory_rate', e.target.value)}
+                  disabled={loading}
+                />
+              </div>
+            </div>
+
+            <h4>Visual Acuity</h4>
+            <div className="form-grid">
+              <div className="form-group">
+                <label htmlFor="visual_acuity_right">Right Eye (OD)</label>
+                <input
+                  type="text"
+                  id="visual_acuity_right"
+                  placeholder="e.g. 20/20"
+                  value={formData.visual_acuity_right || ''}
+                  onChange={(e) => handleInputChange('visual_acuity_right', e.target.value)}
+                  disabled={loading}
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="visual_acuity_left">Left Eye (OS)</label>
+                <input
+                  type="text"
+                  id="visual_acuity_left"
+                  placeholder="e.g. 20/20"
+                  value={formData.visual_acuity_left || ''}
+                  onChange={(e) => handleInputChange('visual_acuity_left', e.target.value)}
+                  disabled={loading}
+                />
+              </div>
+              <div className="form-group checkbox-group">
+                <label className="checkbox-label">
+                  <input
+                    type="checkbox"
+                    checked={formData.wears_corrective_lenses}
+                    onChange={(e) => handleInputChange('wears_corrective_lenses', e.target.checked)}
+                    disabled={loading}
+                  />
+                  <span className="checkmark"></span>
+                  With corrective lenses
+                </label>
+              </div>
+            </div>
+          </div>
+
+          <div className="medical-section">
+            <div className="section-header">
+              <h4>Physical Examination</h4>
+              <button type="button" className="btn-secondary btn-sm" onClick={handleMarkRemainingNormal} disabled={loading}>
+                Mark Remaining Normal
+              </button>
+            </div>
+            {PHYSICAL_EXAM_SYSTEMS.map(system => (
+              <div key={system.key} className="exam-finding-row">
+                <span className="exam-finding-label">{system.label}</span>
+                <select
+                  value={formData.findings[system.key]?.status || ''}
+                  onChange={(e) => handleFindingChange(system.key, { status: e.target.value as ExamFindingStatus | '' })}
+                  disabled={loading}
+                >
+                  <option value="">Not yet examined</option>
+                  <option value="normal">Normal</option>
+                  <option value="abnormal">Abnormal</option>
+                </select>
+                <input
+                  type="text"
+                  placeholder={formData.findings[system.key]?.status === 'abnormal' ? 'Describe the findings *' : 'Notes'}
+                  value={formData.findings[system.key]?.notes || ''}
+                  onChange={(e) => handleFindingChange(system.key, { notes: e.target.value })}
+                  disabled={loading || !formData.findings[system.key]?.status}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="medical-section">
+            <h4>Laboratory Results</h4>
+            {PHYSICAL_EXAM_LAB_TESTS.map(test => (
+              <div key={test.key} className="exam-finding-row">
+                <span className="exam-finding-label">{test.label}</span>
+                <select
+                  value={formData.lab_results[test.key]?.status || ''}
+                  onChange={(e) => handleLabResultChange(test.key, { status: e.target.value as LabResultStatus | '' })}
+                  disabled={loading}
+                >
+                  <option value="">Awaiting result</option>
+                  <option value="normal">Normal</option>
+                  <option value="abnormal">Abnormal</option>
+                  <option value="not_done">Not required</option>
+                </select>
+                <input
+                  type="text"
+                  placeholder="Result or remarks"
+                  value={formData.lab_results[test.key]?.notes || ''}
+                  onChange={(e) => handleLabResultChange(test.key, { notes: e.target.value })}
+                  disabled={loading || !formData.lab_results[test.key]?.status}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="medical-section">
+            <h4>Medical Clearance</h4>
+            <div className="form-grid">
+              <div className="form-group">
+                <label htmlFor="decision">Decision *</label>
+                <select
+                  id="decision"
+                  value={decision}
+                  onChange={(e) => setDecision(e.target.value as ClearanceStatus)}
+                  disabled={loading}
+                >
+                  <option value="pending">Pending - save and finish later</option>
+                  <option value="fit" disabled={incompleteItems.length > 0}>Fit</option>
+                  <option value="unfit">Unfit</option>
+                </select>
+                <small className="form-hint">
+                  {incompleteItems.length > 0
+                    ? `Still needed before clearing as fit: ${incompleteItems.join(', ')}`
+                    : 'Fit and unfit are signed with your name and license number and cannot be changed afterwards'}
+                </small>
+              </div>
+              <div className="form-group full-width">
+                <label htmlFor="recommendations">
+                  {decision === 'unfit' ? 'Reason for Unfit Decision *' : 'Recommendations / Restrictions'}
+                </label>
+                <textarea
+                  id="recommendations"
+                  rows={2}
+                  value={formData.recommendations || ''}
+                  onChange={(e) => handleInputChange('recommendations', e.target.value)}
+                  placeholder="e.g. Fit for enrollment; no strenuous PE activities until cleared by cardiology"
+                  disabled={loading}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="modal-footer">
+          <button className="btn-secondary" onClick={handleClose} disabled={loading}>
+            Cancel
+          </button>
+          <button className="btn-primary" onClick={handleSave} disabled={loading}>
+            {loading ? 'Saving...' : decision === 'pending' ? 'Save Exam' : 'Save and Sign Clearance'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PhysicalExamModal;
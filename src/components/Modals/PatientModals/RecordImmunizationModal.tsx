@@ -0,0 +1,326 @@
+import React, { useState, useEffect } from 'react';
+import { authService, type Patient } from '../../../services/supabaseService';
+import { type InventoryBatch } from '../../../services/batchService';
+import { toDateKey } from '../../../services/appointmentService';
+import {
+  immunizationService,
+  suggestNextDueDate,
+  getNextDoseNumber,
+  type Immunization,
+  type ImmunizationInput
+} from '../../../services/immunizationService';
+import { VACCINES } from '../../../constants/vaccines';
+import './PatientModals.css';
+
+interface RecordImmunizationModalProps {
+  isOpen: boolean;
+  patient: Patient | null;
+  immunizations: Immunization[];
+  onClose: () => void;
+  onImmunizationRecorded: (immunization: Immunization) => void;
+}
+
+const OTHER_VACCINE = '__other__';
+
+const getCurrentUserName = () => {
+  const currentUser = authService.getCurrentUser();
+  if (!currentUser) return '';
+  return [currentUser.first_name, currentUser.last_name].filter(Boolean).join(' ') || currentUser.username;
+};
+
+const emptyForm = (): ImmunizationInput => ({
+  vaccine: '',
+  dose_number: 1,
+  administered_on: toDateKey(new Date()),
+  given_elsewhere: false,
+  administered_by_name: getCurrentUserName(),
+  batch_id: null,
+  lot_number: '',
+  next_due_on: '',
+  notes: ''
+});
+
+const formatLot = (batch: InventoryBatch) =>
+  `${batch.inventory_item?.generic_name || 'Item'} - lot ${batch.lot_number}` +
+  `${batch.expiration_date ? `, exp. ${batch.expiration_date}` : ''} (${batch.quantity} left)`;
+
+const RecordImmunizationModal: React.FC<RecordImmunizationModalProps> = ({
+  isOpen,
+  patient,
+  immunizations,
+  onClose,
+  onImmunizationRecorded
+}) => {
+  const [formData, setFormData] = useState<ImmunizationInput>(emptyForm());
+  const [vaccineChoice, setVaccineChoice] = useState('');
+  const [lots, setLots] = useState<{ matching: InventoryBatch[]; other: InventoryBatch[] }>({ matching: [], other: [] });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Offer lots in stock for the chosen vaccine when it is given here
+  useEffect(() => {
+    if (!isOpen || formData.given_elsewhere || !formData.vaccine.trim()) {
+      setLots({ matching: [], other: [] });
+      return;
+    }
+
+    immunizationService.getVaccineLots(formData.vaccine)
+      .then(setLots)
+      .catch(error => {
+        console.error('Error loading vaccine lots:', error);
+        setLots({ matching: [], other: [] });
+      });
+  }, [isOpen, formData.vaccine, formData.given_elsewhere]);
+
+  // Dose number, date or vaccine changed: re-suggest the next due date
+  const withSuggestedDueDate = (form: ImmunizationInput): ImmunizationInput => ({
+    ...form,
+    next_due_on: suggestNextDueDate(form.vaccine, form.dose_number, form.administered_on) || ''
+  });
+
+  const handleVaccineChoice = (choice: string) => {
+    setVaccineChoice(choice);
+    const vaccine = choice === OTHER_VACCINE ? '' : choice;
+    setFormData(prev => withSuggestedDueDate({
+      ...prev,
+      vaccine,
+      dose_number: vaccine ? getNextDoseNumber(immunizations, vaccine) : 1,
+      batch_id: null
+    }));
+  };
+
+  const handleInputChange = (field: keyof ImmunizationInput, value: any) => {
+    setFormData(prev => {
+      const next = { ...prev, [field]: value };
+      return field === 'dose_number' || field === 'administered_on' ? withSuggestedDueDate(next) : next;
+    });
+  };
+
+  const handleGivenElsewhereChange = (givenElsewhere: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      given_elsewhere: givenElsewhere,
+      administered_by_name: givenElsewhere ? '' : getCurrentUserName(),
+      batch_id: null,
+      lot_number: ''
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!patient) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const immunization = await immunizationService.recordImmunization(patient, formData);
+      onImmunizationRecorded(immunization);
+      handleClose();
+    } catch (error: any) {
+      console.error('Error recording immunization:', error);
+      setError(error.message || 'Failed to record immunization');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    setFormData(emptyForm());
+    setVaccineChoice('');
+    setError(null);
+    onClose();
+  };
+
+  if (!isOpen || !patient) return null;
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content medium-modal">
+        <div className="modal-header">
+          <h2>Record Immunization</h2>
+          <button className="modal-close" onClick={handleClose}>
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"/>
+              <line x1="6" y1="6" x2="18" y2="18"/>
+            </svg>
+          </button>
+        </div>
+
+        <div className="modal-body">
+          <div className="patient-info-bar">
+            <span className="patient-name">{patient.first_name} {patient.last_name}</span>
+            <span className="patient-id">ID: {patient.patient_id}</span>
+          </div>
+
+          {error && (
+            <div className="error-message">
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <circle cx="12" cy="12" r="10"/>
+                <line x1="15" y1="9" x2="9" y2="15"/>
+                <line x1="9" y1="9" x2="15" y2="15"/>
+              </svg>
+              {error}
+            </div>
+          )}
+
+          <div className="form-grid">
+            <div className="form-group">
+              <label htmlFor="vaccine">Vaccine *</label>
+              <select
+                id="vaccine"
+                value={vaccineChoice}
+                onChange={(e) => handleVaccineChoice(e.target.value)}
+                disabled={loading}
+              >
+                <option value="">Select vaccine</option>
+                {VACCINES.map(vaccine => (
+                  <option key={vaccine.name} value={vaccine.name}>{vaccine.name}</option>
+                ))}
+                <option value={OTHER_VACCINE}>Other</option>
+              </select>
+              {vaccineChoice === OTHER_VACCINE && (
+                <input
+                  type="text"
+                  value={formData.vaccine}
+                  onChange={(e) => handleInputChange('vaccine', e.target.value)}
+                  placeholder="Vaccine name"
+                  disabled={loading}
+                />
+              )}
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="dose_number">Dose Number *</label>
+              <input
+                type="number"
+                id="dose_number"
+                min={1}
+                value={formData.dose_number}
+                onChange={(e) => handleInputChange('dose_number', parseInt(e.target.value) || 0)}
+                disabled={loading}
+              />
+              <small className="form-hint">Boosters continue the count, e.g. dose 4 after a 3-dose series</small>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="administered_on">Date Given *</label>
+              <input
+                type="date"
+                id="administered_on"
+                max={toDateKey(new Date())}
+                value={formData.administered_on}
+                onChange={(e) => handleInputChange('administered_on', e.target.value)}
+                disabled={loading}
+              />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="next_due_on">Next Due</label>
+              <input
+                type="date"
+                id="next_due_on"
+                value={formData.next_due_on || ''}
+                onChange={(e) => handleInputChange('next_due_on', e.target.value)}
+                disabled={loading}
+              />
+              <small className="form-hint">Suggested from the vaccine schedule; clear it if no further dose is needed</small>
+            </div>
+
+            <div className="form-group checkbox-group">
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={formData.given_elsewhere}
+                  onChange={(e) => handleGivenElsewhereChange(e.target.checked)}
+                  disabled={loading}
+                />
+                <span className="checkmark"></span>
+                Given at another facility
+              </label>
+              <small className="form-hint">
+                Doses given here can be taken from a lot in inventory, which deducts one unit from stock
+              </small>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="administered_by_name">Administered By *</label>
+              <input
+                type="text"
+                id="administered_by_name"
+                value={formData.administered_by_name}
+                onChange={(e) => handleInputChange('administered_by_name', e.target.value)}
+                placeholder={formData.given_elsewhere ? 'e.g. City Health Office' : 'Your name'}
+                disabled={loading}
+              />
+            </div>
+
+            {!formData.given_elsewhere && (
+              <div className="form-group">
+                <label htmlFor="batch_id">Lot from Inventory</label>
+                <select
+                  id="batch_id"
+                  value={formData.batch_id ?? ''}
+                  onChange={(e) => handleInputChange('batch_id', e.target.value ? parseInt(e.target.value) : null)}
+                  disabled={loading || !formData.vaccine.trim()}
+                >
+                  <option value="">Not from stock - enter lot below</option>
+                  {lots.matching.length > 0 && (
+                    <optgroup label={`Matching ${formData.vaccine}`}>
+                      {lots.matching.map(batch => (
+                        <option key={batch.id} value={batch.id}>{formatLot(batch)}</option>
+                      ))}
+                    </optgroup>
+                  )}
+                  {lots.other.length > 0 && (
+                    <optgroup label="Other medical stock">
+                      {lots.other.map(batch => (
+                        <option key={batch.id} value={batch.id}>{formatLot(batch)}</option>
+                      ))}
+                    </optgroup>
+                  )}
+                </select>
+              </div>
+            )}
+
+            {(formData.given_elsewhere || !formData.batch_id) && (
+              <div className="form-group">
+                <label htmlFor="lot_number">Lot Number</label>
+                <input
+                  type="text"
+                  id="lot_number"
+                  value={formData.lot_number || ''}
+                  onChange={(e) => handleInputChange('lot_number', e.target.value)}
+                  placeholder="As printed on the vial or vaccination card"
+                  disabled={loading}
+                />
+              </div>
+            )}
+
+            <div className="form-group">
+              <label htmlFor="notes">Notes</label>
+              <textarea
+                id="notes"
+                rows={2}
+                value={formData.notes || ''}
+                onChange={(e) => handleInputChange('notes', e.target.value)}
+                placeholder="Site, reactions, card presented, etc."
+                disabled={loading}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="modal-footer">
+          <button className="btn-secondary" onClick={handleClose} disabled={loading}>
+            Cancel
+          </button>
+          <button className="btn-primary" onClick={handleSave} disabled={loading || !formData.vaccine.trim()}>
+            {loading ? 'Saving...' : 'Record Immunization'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecordImmunizationModal;
@@ -8,8 +8,34 @@ import {
   type Consultation,
   type PatientMonitoringLog
 } from '../../../services/supabaseService';
+import { dispensingService, type MedicationDispense } from '../../../services/dispensingService';
+import { immunizationService, getVaccineShortfalls, type Immunization } from '../../../services/immunizationService';
+import { toDateKey } from '../../../services/appointmentService';
+import { REQUIRED_VACCINES_BY_COURSE } from '../../../constants/vaccines';
+import {
+  dentalChartService,
+  describeToothState,
+  getChangedTeeth,
+  getChartAsOfVisit,
+  getDentalVisits,
+  type DentalChartEntry
+} from '../../../services/dentalChartService';
+import { physicalExamService, calculateBmi, type PhysicalExam } from '../../../services/physicalExamService';
+import { exportService } from '../../../services/exportService';
+import {
+  CLEARANCE_STATUS_LABELS,
+  PHYSICAL_EXAM_LAB_TESTS,
+  PHYSICAL_EXAM_PURPOSE_LABELS,
+  PHYSICAL_EXAM_SYSTEMS
+} from '../../../constants/physicalExam';
 import PatientContactModal from './PatientContactModal';
 import MedicalHistoryModal from './MedicalHistoryModal';
+import RecordImmunizationModal from './RecordImmunizationModal';
+import PhysicalExamModal from './PhysicalExamModal';
+import PatientTimeline from './PatientTimeline';
+import PatientVitalTrends from './PatientVitalTrends';
+import AllergyBanner from '../../Common/AllergyBanner';
+import Odontogram from '../../Common/Odontogram';
 import './PatientModals.css';
 
 interface ViewPatientModalProps {
@@ -18,6 +44,7 @@ interface ViewPatientModalProps {
   onClose: () => void;
   onEdit: (patient: Patient) => void;
   onNewConsultation: (patient: Patient) => void;
+  onOpenConsultation?: (consultation: Consultation) => void;
 }
 
 const ViewPatientModal: React.FC<ViewPatientModalProps> = ({
@@ -25,19 +52,30 @@ const ViewPatientModal: React.FC<ViewPatientModalProps> = ({
   patient,
   onClose,
   onEdit,
-  onNewConsultation
+  onNewConsultation,
+  onOpenConsultation
 }) => {
   const [loading, setLoading] = useState(false);
   const [contacts, setContacts] = useState<PatientContact[]>([]);
   const [medicalHistory, setMedicalHistory] = useState<MedicalHistory | null>(null);
   const [consultations, setConsultations] = useState<Consultation[]>([]);
   const [logs, setLogs] = useState<PatientMonitoringLog[]>([]);
+  const [dispenses, setDispenses] = useState<MedicationDispense[]>([]);
+  const [immunizations, setImmunizations] = useState<Immunization[]>([]);
+  const [dentalChartEntries, setDentalChartEntries] = useState<DentalChartEntry[]>([]);
+  const [physicalExams, setPhysicalExams] = useState<PhysicalExam[]>([]);
+  // Dental visit whose chart is shown, and an earlier visit to compare it with
+  const [dentalVisitId, setDentalVisitId] = useState<number | null>(null);
+  const [compareDentalVisitId, setCompareDentalVisitId] = useState<number | null>(null);
   const [activeTab, setActiveTab] = useState('profile');
 
   // Modal states
   const [contactModalOpen, setContactModalOpen] = useState(false);
   const [selectedContact, setSelectedContact] = useState<PatientContact | null>(null);
   const [medicalHistoryModalOpen, setMedicalHistoryModalOpen] = useState(false);
+  const [immunizationModalOpen, setImmunizationModalOpen] = useState(false);
+  const [physicalExamModalOpen, setPhysicalExamModalOpen] = useState(false);
+  const [editingPhysicalExam, setEditingPhysicalExam] = useState<PhysicalExam | null>(null);
 
   // Logs state
   const [logsLoading, setLogsLoading] = useState(false);
@@ -51,15 +89,28 @@ const ViewPatientModal: React.FC<ViewPatientModalProps> = ({
     try {
       setLoading(true);
 
-      const [contactsData, medicalHistoryData, consultationsData] = await Promise.all([
+      const [contactsData, medicalHistoryData, consultationsData, dispensesData, immunizationsData, dentalChartData, physicalExamsData] = await Promise.all([
         patientMonitoringService.getPatientContacts(patient.id),
         patientMonitoringService.getMedicalHistory(patient.id),
-        patientMonitoringService.getConsultationsByPatientId(patient.id)
+        patientMonitoringService.getConsultationsByPatientId(patient.id),
+        dispensingService.getDispensesByPatientId(patient.id),
+        immunizationService.getImmunizationsByPatientId(patient.id),
+        dentalChartService.getEntriesByPatientId(patient.id),
+        physicalExamService.getExamsByPatientId(patient.id)
       ]);
 
       setContacts(contactsData);
       setMedicalHistory(medicalHistoryData);
       setConsultations(consultationsData);
+      setDispenses(dispensesData);
+      setImmunizations(immunizationsData);
+      setDentalChartEntries(dentalChartData);
+      setPhysicalExams(physicalExamsData);
+
+      // Default to the latest dental visit compared with the one before it
+      const dentalVisits = getDentalVisits(dentalChartData);
+      setDentalVisitId(dentalVisits[dentalVisits.length - 1]?.id ?? null);
+      setCompareDentalVisitId(dentalVisits[dentalVisits.length - 2]?.id ?? null);
 
       // Log activity
       await activityService.logActivity({
@@ -180,6 +231,28 @@ const ViewPatientModal: React.FC<ViewPatientModalProps> = ({
     setMedicalHistory(history);
   };
 
+  const handleImmunizationRecorded = (immunization: Immunization) => {
+    setImmunizations(prev => [immunization, ...prev].sort((a, b) =>
+      b.administered_on.localeCompare(a.administered_on) || b.dose_number - a.dose_number
+    ));
+  };
+
+  const handlePhysicalExamSaved = (exam: PhysicalExam) => {
+    setPhysicalExams(prev => [exam, ...prev.filter(existing => existing.id !== exam.id)].sort((a, b) =>
+      b.school_year.localeCompare(a.school_year)
+    ));
+  };
+
+  const handlePrintClearance = async (exam: PhysicalExam) => {
+    if (!patient) return;
+
+    try {
+      await exportService.exportClearanceCertificateToPDF(exam, patient);
+    } catch (error) {
+      console.error('Error printing clearance certificate:', error);
+    }
+  };
+
   const fetchLogs = useCallback(async () => {
     if (!patient) return;
 
@@ -343,6 +416,25 @@ const ViewPatientModal: React.FC<ViewPatientModalProps> = ({
 
   if (!isOpen || !patient) return null;
 
+  // Students in courses with vaccine requirements (e.g. hepatitis B for nursing)
+  const courseRequirements = patient.patient_type === 'Student' && patient.course
+    ? REQUIRED_VACCINES_BY_COURSE[patient.course]
+    : undefined;
+  const courseShortfalls = courseRequirements ? getVaccineShortfalls(immunizations, courseRequirements) : [];
+
+  const dentalVisits = getDentalVisits(dentalChartEntries);
+  const dentalVisit = dentalVisits.find(visit => visit.id === dentalVisitId);
+  const compareDentalVisit = dentalVisits.find(visit => visit.id === compareDentalVisitId);
+  const dentalChart = dentalVisit ? getChartAsOfVisit(dentalChartEntries, dentalVisit) : {};
+  const compareDentalChart = compareDentalVisit ? getChartAsOfVisit(dentalChartEntries, compareDentalVisit) : null;
+  // Without a comparison, outline the teeth charted at the selected visit
+  const changedTeeth = compareDentalChart
+    ? getChangedTeeth(compareDentalChart, dentalChart)
+    : dentalChartEntries.filter(entry => entry.consultation_id === dentalVisitId).map(entry => entry.tooth_number);
+  const showPrimaryTeeth = dentalChartEntries.some(entry => entry.tooth_number >= 50);
+  const formatDentalVisit = (visit: { case_number: string; consultation_date: string }) =>
+    `${formatDate(visit.consultation_date)} · ${visit.case_number}`;
+
   return (
     <div className="modal-overlay">
       <div className="modal-content large-modal">
@@ -373,6 +465,8 @@ const ViewPatientModal: React.FC<ViewPatientModalProps> = ({
           </button>
         </div>
 
+        <AllergyBanner medicalHistory={medicalHistory} loading={loading} />
+
         {/* Tab Navigation */}
         <div className="tab-navigation">
           <button
@@ -412,6 +506,64 @@ const ViewPatientModal: React.FC<ViewPatientModalProps> = ({
             </svg>
             Consultations ({consultations.length})
           </button>
+          <button
+            className={`tab-btn ${activeTab === 'immunizations' ? 'active' : ''}`}
+            onClick={() => setActiveTab('immunizations')}
+          >
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="m18 2 4 4"/>
+              <path d="m17 7 3-3"/>
+              <path d="M19 9 8.7 19.3c-1 1-2.5 1-3.4 0l-.6-.6c-1-1-1-2.5 0-3.4L15 5"/>
+              <path d="m9 11 4 4"/>
+              <path d="m5 19-3 3"/>
+              <path d="m14 4 6 6"/>
+            </svg>
+            Immunizations ({immunizations.length})
+          </button>
+          <button
+            className={`tab-btn ${activeTab === 'physical_exams' ? 'active' : ''}`}
+            onClick={() => setActiveTab('physical_exams')}
+          >
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M16 4h2a2 2 0 0 1 2 2v14a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2V6a2 2 0 0 1 2-2h2"/>
+              <rect x="8" y="2" width="8" height="4" rx="1" ry="1"/>
+              <polyline points="9 14 11 16 15 12"/>
+            </svg>
+            Physical Exams ({physicalExams.length})
+          </button>
+          <button
+            className={`tab-btn ${activeTab === 'dental' ? 'active' : ''}`}
+            onClick={() => setActiveTab('dental')}
+          >
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M7 3c-2.5 0-4 2-4 4.5 0 3 1.5 4.5 2 7.5.5 3 1 6 2.5 6s1.5-4 3-6c.5-.7 2.5-.7 3 0 1.5 2 1.5 6 3 6s2-3 2.5-6c.5-3 2-4.5 2-7.5C21 5 19.5 3 17 3c-2 0-3 1-5 1S9 3 7 3z"/>
+            </svg>
+            Dental Chart ({dentalVisits.length})
+          </button>
+          <button
+            className={`tab-btn ${activeTab === 'timeline' ? 'active' : ''}`}
+            onClick={() => setActiveTab('timeline')}
+          >
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="8" y1="6" x2="21" y2="6"/>
+              <line x1="8" y1="12" x2="21" y2="12"/>
+              <line x1="8" y1="18" x2="21" y2="18"/>
+              <circle cx="3.5" cy="6" r="1"/>
+              <circle cx="3.5" cy="12" r="1"/>
+              <circle cx="3.5" cy="18" r="1"/>
+            </svg>
+            Timeline
+          </button>
+          <button
+            className={`tab-btn ${activeTab === 'vitals' ? 'active' : ''}`}
+            onClick={() => setActiveTab('vitals')}
+          >
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <polyline points="23 6 13.5 15.5 8.5 10.5 1 18"/>
+              <polyline points="17 6 23 6 23 12"/>
+            </svg>
+            Vital Trends
+          </button>
           <button
             className={`tab-btn ${activeTab === 'logs' ? 'active' : ''}`}
             onClick={() => setActiveTab('logs')}
@@ -804,6 +956,107 @@ const ViewPatientModal: React.FC<ViewPatientModalProps> = ({
                               </div>
                             )}
                           </div>
+                          {dispenses.some(d => d.consultation_id === consultation.id) && (
+                            <div className="consultation-dispenses">
+                              <span className="consultation-label">Medications Dispensed:</span>
+                              <ul>
+                                {dispenses
+                                  .filter(d => d.consultation_id === consultation.id)
+                                  .map(dispense => (
+                                    <li key={dispense.id}>
+                                      <strong>{dispense.item_name}</strong> — {dispense.quantity} {dispense.unit_of_measurement || 'pcs'}
+                                      {dispense.dosage_instructions && (
+                                        <span className="dispense-instructions-inline"> ({dispense.dosage_instructions})</span>
+                                      )}
+                                    </li>
+                                  ))}
+                              </ul>
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Immunizations Tab */}
+              {activeTab === 'immunizations' && (
+                <div className="immunizations-section">
+                  <div className="section-header">
+                    <h3>Immunization Record</h3>
+                    <button className="btn-primary" onClick={() => setImmunizationModalOpen(true)}>
+                      <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <line x1="12" y1="5" x2="12" y2="19"/>
+                        <line x1="5" y1="12" x2="19" y2="12"/>
+                      </svg>
+                      Record Immunization
+                    </button>
+                  </div>
+
+                  {courseRequirements && (
+                    <div className={`immunization-requirements ${courseShortfalls.length > 0 ? 'missing' : 'complete'}`}>
+                      <span className="consultation-label">Required for {patient.course}:</span>
+                      {courseShortfalls.length === 0 ? (
+                        <span> all required vaccines are up to date.</span>
+                      ) : (
+                        <ul>
+                          {courseShortfalls.map(shortfall => (
+                            <li key={shortfall.vaccine}>
+                              <strong>{shortfall.vaccine}</strong> — {shortfall.overdue_since
+                                ? `booster overdue since ${formatDate(shortfall.overdue_since)}`
+                                : `${shortfall.doses_received} of ${shortfall.required_doses} doses`}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+
+                  {immunizations.length === 0 ? (
+                    <div className="empty-state">
+                      <p>No immunizations recorded for this patient.</p>
+                      <button className="btn-primary" onClick={() => setImmunizationModalOpen(true)}>
+                        Record First Immunization
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="consultations-list">
+                      {immunizations.map(immunization => (
+                        <div key={immunization.id} className="consultation-card">
+                          <div className="consultation-header">
+                            <div className="consultation-date">
+                              {immunization.vaccine} · Dose {immunization.dose_number}
+                            </div>
+                            {immunization.next_due_on && (
+                              <div className={`immunization-due ${immunization.next_due_on < toDateKey(new Date()) ? 'overdue' : ''}`}>
+                                Next due {formatDate(immunization.next_due_on)}
+                              </div>
+                            )}
+                          </div>
+                          <div className="consultation-details">
+                            <div className="consultation-item">
+                              <span className="consultation-label">Date Given:</span>
+                              <span className="consultation-value">{formatDate(immunization.administered_on)}</span>
+                            </div>
+                            <div className="consultation-item">
+                              <span className="consultation-label">Lot Number:</span>
+                              <span className="consultation-value">
+                                {immunization.lot_number || 'Not recorded'}
+                                {immunization.batch_id && ' (from clinic stock)'}
+                              </span>
+                            </div>
+                            <div className="consultation-item">
+                              <span className="consultation-label">Administered By:</span>
+                              <span className="consultation-value">{immunization.administered_by_name}</span>
+                            </div>
+                            {immunization.notes && (
+                              <div className="consultation-item">
+                                <span className="consultation-label">Notes:</span>
+                                <span className="consultation-value">{immunization.notes}</span>
+                              </div>
+                            )}
+                          </div>
                         </div>
                       ))}
                     </div>
@@ -811,6 +1064,221 @@ const ViewPatientModal: React.FC<ViewPatientModalProps> = ({
                 </div>
               )}
 
+              {/* Physical Exams Tab */}
+              {activeTab === 'physical_exams' && (
+                <div className="physical-exams-section">
+                  <div className="section-header">
+                    <h3>Physical Exams and Clearance</h3>
+                    <button
+                      className="btn-primary"
+                      onClick={() => {
+                        setEditingPhysicalExam(null);
+                        setPhysicalExamModalOpen(true);
+                      }}
+                    >
+                      <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <line x1="12" y1="5" x2="12" y2="19"/>
+                        <line x1="5" y1="12" x2="19" y2="12"/>
+                      </svg>
+                      New Physical Exam
+                    </button>
+                  </div>
+
+                  {physicalExams.length === 0 ? (
+                    <div className="empty-state">
+                      <p>No physical exams recorded for this patient.</p>
+                    </div>
+                  ) : (
+                    <div className="consultations-list">
+                      {physicalExams.map(exam => {
+                        const bmi = calculateBmi(exam.height_cm, exam.weight_kg);
+                        const abnormalFindings = [
+                          ...PHYSICAL_EXAM_SYSTEMS
+                            .filter(system => exam.findings[system.key]?.status === 'abnormal')
+                            .map(system => `${system.label}: ${exam.findings[system.key].notes || 'abnormal'}`),
+                          ...PHYSICAL_EXAM_LAB_TESTS
+                            .filter(test => exam.lab_results[test.key]?.status === 'abnormal')
+                            .map(test => `${test.label}: ${exam.lab_results[test.key].notes || 'abnormal'}`)
+                        ];
+
+                        return (
+                          <div key={exam.id} className="consultation-card">
+                            <div className="consultation-header">
+                              <div className="consultation-date">
+                                SY {exam.school_year} · {PHYSICAL_EXAM_PURPOSE_LABELS[exam.purpose]}
+                              </div>
+                              <span className={`clearance-status ${exam.clearance_status}`}>
+                                {CLEARANCE_STATUS_LABELS[exam.clearance_status]}
+                              </span>
+                            </div>
+                            <div className="consultation-details">
+                              <div className="consultation-item">
+                                <span className="consultation-label">Exam Date:</span>
+                                <span className="consultation-value">{formatDate(exam.exam_date)}</span>
+                              </div>
+                              <div className="consultation-item">
+                                <span className="consultation-label">Measurements:</span>
+                                <span className="consultation-value">
+                                  {[
+                                    exam.height_cm && `${exam.height_cm} cm`,
+                                    exam.weight_kg && `${exam.weight_kg} kg`,
+                                    bmi && `BMI ${bmi}`,
+                                    exam.blood_pressure_systolic && `BP ${exam.blood_pressure_systolic}/${exam.blood_pressure_diastolic}`
+                                  ].filter(Boolean).join(' · ') || 'Not recorded'}
+                                </span>
+                              </div>
+                              <div className="consultation-item">
+                                <span className="consultation-label">Visual Acuity:</span>
+                                <span className="consultation-value">
+                                  OD {exam.visual_acuity_right || '-'} · OS {exam.visual_acuity_left || '-'}
+                                  {exam.wears_corrective_lenses && ' (corrected)'}
+                                </span>
+                              </div>
+                              <div className="consultation-item">
+                                <span className="consultation-label">Abnormal Findings:</span>
+                                <span className="consultation-value">
+                                  {abnormalFindings.length > 0 ? abnormalFindings.join('; ') : 'None'}
+                                </span>
+                              </div>
+                              {exam.recommendations && (
+                                <div className="consultation-item">
+                                  <span className="consultation-label">Recommendations:</span>
+                                  <span className="consultation-value">{exam.recommendations}</span>
+                                </div>
+                              )}
+                              {exam.cleared_by_name && (
+                                <div className="consultation-item">
+                                  <span className="consultation-label">Signed By:</span>
+                                  <span className="consultation-value">
+                                    {exam.cleared_by_name} · License No. {exam.cleared_by_license_number}
+                                    {exam.cleared_at && `, ${formatDate(exam.cleared_at)}`}
+                                  </span>
+                                </div>
+                              )}
+                            </div>
+                            <div className="exam-card-actions">
+                              {exam.clearance_status === 'pending' ? (
+                                <button
+                                  className="btn-secondary btn-sm"
+                                  onClick={() => {
+                                    setEditingPhysicalExam(exam);
+                                    setPhysicalExamModalOpen(true);
+                                  }}
+                                >
+                                  Continue Exam
+                                </button>
+                              ) : (
+                                <button className="btn-secondary btn-sm" onClick={() => handlePrintClearance(exam)}>
+                                  Print Certificate
+                                </button>
+                              )}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Dental Chart Tab */}
+              {activeTab === 'dental' && (
+                <div className="dental-history-section">
+                  <div className="section-header">
+                    <h3>Dental Chart History</h3>
+                  </div>
+
+                  {!dentalVisit ? (
+                    <div className="empty-state">
+                      <p>No dental visits charted for this patient.</p>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="dental-history-controls">
+                        <label>
+                          Chart at visit
+                          <select
+                            value={dentalVisit.id}
+                            onChange={(e) => {
+                              const visitId = Number(e.target.value);
+                              setDentalVisitId(visitId);
+                              // Only earlier visits can be compared against
+                              const index = dentalVisits.findIndex(visit => visit.id === visitId);
+                              if (compareDentalVisitId !== null && dentalVisits.findIndex(visit => visit.id === compareDentalVisitId) >= index) {
+                                setCompareDentalVisitId(dentalVisits[index - 1]?.id ?? null);
+                              }
+                            }}
+                          >
+                            {dentalVisits.map(visit => (
+                              <option key={visit.id} value={visit.id}>{formatDentalVisit(visit)}</option>
+                            ))}
+                          </select>
+                        </label>
+                        <label>
+                          Compare with
+                          <select
+                            value={compareDentalVisit?.id ?? ''}
+                            onChange={(e) => setCompareDentalVisitId(e.target.value ? Number(e.target.value) : null)}
+                          >
+                            <option value="">No comparison</option>
+                            {dentalVisits
+                              .slice(0, dentalVisits.findIndex(visit => visit.id === dentalVisit.id))
+                              .map(visit => (
+                                <option key={visit.id} value={visit.id}>{formatDentalVisit(visit)}</option>
+                              ))}
+                          </select>
+                        </label>
+                      </div>
+
+                      <div className="dental-history-chart">
+                        <h4>
+                          {formatDentalVisit(dentalVisit)}
+                          {compareDentalVisit ? ' (changed teeth outlined)' : ' (teeth charted this visit outlined)'}
+                        </h4>
+                        <Odontogram chart={dentalChart} showPrimary={showPrimaryTeeth} highlightedTeeth={changedTeeth} />
+                      </div>
+
+                      {compareDentalVisit && compareDentalChart && (
+                        <>
+                          <div className="dental-history-chart">
+                            <h4>{formatDentalVisit(compareDentalVisit)}</h4>
+                            <Odontogram chart={compareDentalChart} showPrimary={showPrimaryTeeth} highlightedTeeth={changedTeeth} />
+                          </div>
+
+                          <div className="consultation-card">
+                            <div className="consultation-header">
+                              <div className="consultation-date">Changes since {formatDate(compareDentalVisit.consultation_date)}</div>
+                            </div>
+                            {changedTeeth.length === 0 ? (
+                              <p>No teeth changed between these visits.</p>
+                            ) : (
+                              <ul className="dental-history-changes">
+                                {changedTeeth.map(tooth => (
+                                  <li key={tooth}>
+                                    <strong>Tooth {tooth}:</strong> {describeToothState(compareDentalChart[tooth])} → {describeToothState(dentalChart[tooth])}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </div>
+                        </>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+
+              {/* Timeline Tab */}
+              {activeTab === 'timeline' && <PatientTimeline patientId={patient.id} />}
+
+              {/* Vital Trends Tab */}
+              {activeTab === 'vitals' && (
+                <PatientVitalTrends
+                  patientId={patient.id}
+                  onOpenConsultation={onOpenConsultation && ((consultation) => onOpenConsultation({ ...consultation, patient }))}
+                />
+              )}
+
               {/* Activity Logs Tab */}
               {activeTab === 'logs' && (
                 <div className="logs-section">
@@ -966,6 +1434,25 @@ const ViewPatientModal: React.FC<ViewPatientModalProps> = ({
         onClose={() => setMedicalHistoryModalOpen(false)}
         onMedicalHistorySaved={handleMedicalHistorySaved}
       />
+
+      <RecordImmunizationModal
+        isOpen={immunizationModalOpen}
+        patient={patient}
+        immunizations={immunizations}
+        onClose={() => setImmunizationModalOpen(false)}
+        onImmunizationRecorded={handleImmunizationRecorded}
+      />
+
+      <PhysicalExamModal
+        isOpen={physicalExamModalOpen}
+        patient={patient}
+        exam={editingPhysicalExam}
+        onClose={() => {
+          setPhysicalExamModalOpen(false);
+          setEditingPhysicalExam(null);
+        }}
+        onExamSaved={handlePhysicalExamSaved}
+      />
     </div>
   );
 };
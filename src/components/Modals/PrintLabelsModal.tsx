@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { exportService, type LabelFormat } from '../../services/exportService';
+import './Modal.css';
+import './InventoryModals.css';
+
+interface PrintLabelsModalProps {
+  items: any[];
+  onClose: () => void;
+}
+
+const PrintLabelsModal: React.FC<PrintLabelsModalProps> = ({ items, onClose }) => {
+  const printableItems = items.filter(item => item.code?.trim());
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(() => new Set(printableItems.map(item => item.id)));
+  const [format, setFormat] = useState<LabelFormat>('barcode');
+  const [copies, setCopies] = useState('1');
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const allSelected = printableItems.length > 0 && selectedIds.size === printableItems.length;
+  const labelCount = selectedIds.size * (parseInt(copies) || 1);
+
+  const toggleItem = (itemId: number) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(itemId)) {
+        next.delete(itemId);
+      } else {
+        next.add(itemId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(printableItems.map(item => item.id)));
+  };
+
+  const handlePrint = async () => {
+    try {
+      setGenerating(true);
+      setError(null);
+      await exportService.exportLabelsToPDF(
+        printableItems.filter(item => selectedIds.has(item.id)),
+        format,
+        Math.max(1, parseInt(copies) || 1)
+      );
+    } catch (error: any) {
+      console.error('Error generating labels:', error);
+      setError(error.message);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content modal-lg">
+        <div className="modal-header">
+          <h2 className="modal-title">Print Labels</h2>
+          <button className="modal-close-btn" onClick={onClose}>
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"/>
+              <line x1="6" y1="6" x2="18" y2="18"/>
+            </svg>
+          </button>
+        </div>
+        <div className="modal-body">
+          {error && <div className="batch-error">{error}</div>}
+
+          <div className="batch-receive-form">
+            <div className="form-grid cols-2">
+              <div className="form-group">
+                <label htmlFor="label_format">Label Type</label>
+                <select id="label_format" value={format} onChange={(e) => setFormat(e.target.value as LabelFormat)}>
+                  <option value="barcode">Barcode (Code 128)</option>
+                  <option value="qr">QR Code</option>
+                </select>
+              </div>
+              <div className="form-group">
+                <label htmlFor="label_copies">Copies per Item</label>
+                <input type="number" id="label_copies" min={1} max={24} value={copies} onChange={(e) => setCopies(e.target.value)} />
+              </div>
+            </div>
+          </div>
+
+          {items.length === 0 ? (
+            <div className="batch-empty">No items in the current list.</div>
+          ) : (
+            <table className="batch-table">
+              <thead>
+                <tr>
+                  <th>
+                    <input type="checkbox" checked={allSelected} onChange={toggleAll} disabled={printableItems.length === 0} />
+                  </th>
+                  <th>Item</th>
+                  <th>Code</th>
+                  <th>Department</th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map(item => {
+                  const hasCode = Boolean(item.code?.trim());
+                  return (
+                    <tr key={item.id}>
+                      <td>
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(item.id)}
+                          onChange={() => toggleItem(item.id)}
+                          disabled={!hasCode}
+                        />
+                      </td>
+                      <td>{item.generic_name}{item.brand_name ? ` (${item.brand_name})` : ''}</td>
+                      <td>{hasCode ? item.code : <span className="label-missing-code">No code - add one to print</span>}</td>
+                      <td className="capitalize">{item.department}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+        <div className="modal-footer">
+          <button className="btn-secondary" onClick={onClose}>Close</button>
+          <button className="btn-primary" onClick={handlePrint} disabled={generating || selectedIds.size === 0}>
+            {generating ? 'Generating...' : `Print ${labelCount} Label${labelCount === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PrintLabelsModal;
@@ -0,0 +1,442 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { authService } from '../../services/supabaseService';
+import { exportService } from '../../services/exportService';
+import {
+  requisitionService,
+  REQUISITION_STATUS_LABELS,
+  REORDER_COVER_DAYS,
+  USAGE_LOOKBACK_DAYS,
+  type PurchaseRequisition,
+  type RequisitionStatus
+} from '../../services/requisitionService';
+import './Modal.css';
+import './InventoryModals.css';
+
+interface PurchaseRequisitionsModalProps {
+  onClose: () => void;
+  onStockReceived: () => void;
+}
+
+interface LineDraft {
+  requested_quantity: string;
+  received_quantity: string;
+  lot_number: string;
+  expiration_date: string;
+  removed: boolean;
+}
+
+const PurchaseRequisitionsModal: React.FC<PurchaseRequisitionsModalProps> = ({ onClose, onStockReceived }) => {
+  const [requisitions, setRequisitions] = useState<PurchaseRequisition[]>([]);
+  const [selected, setSelected] = useState<PurchaseRequisition | null>(null);
+  const [statusFilter, setStatusFilter] = useState<'all' | RequisitionStatus>('all');
+  const [lineDrafts, setLineDrafts] = useState<Record<number, LineDraft>>({});
+  const [header, setHeader] = useState({ supplier: '', notes: '' });
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const currentUser = authService.getCurrentUser();
+  const isSuperadmin = currentUser?.role === 'superadmin';
+
+  const fetchRequisitions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await requisitionService.getRequisitions(statusFilter === 'all' ? undefined : statusFilter);
+      setRequisitions(data);
+    } catch (error: any) {
+      console.error('Error fetching requisitions:', error);
+      setError(`Failed to load requisitions: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchRequisitions();
+  }, [fetchRequisitions]);
+
+  const openRequisition = (requisition: PurchaseRequisition) => {
+    setSelected(requisition);
+    setError(null);
+    setMessage(null);
+    setHeader({ supplier: requisition.supplier || '', notes: requisition.notes || '' });
+    setLineDrafts(Object.fromEntries(requisition.items.map(line => [line.id, {
+      requested_quantity: String(line.requested_quantity),
+      received_quantity: String(line.received_quantity ?? line.requested_quantity),
+      lot_number: line.lot_number || '',
+      expiration_date: line.expiration_date || '',
+      removed: false
+    }])));
+  };
+
+  const closeRequisition = async () => {
+    setSelected(null);
+    setMessage(null);
+    await fetchRequisitions();
+  };
+
+  const updateLine = (lineId: number, changes: Partial<LineDraft>) => {
+    setLineDrafts(prev => ({ ...prev, [lineId]: { ...prev[lineId], ...changes } }));
+  };
+
+  // Run a workflow action, then reload the open requisition so its new status shows
+  const runAction = async (action: () => Promise<PurchaseRequisition>, successMessage: string): Promise<boolean> => {
+    try {
+      setSaving(true);
+      setError(null);
+      const updated = await action();
+      openRequisition(updated);
+      setMessage(successMessage);
+      return true;
+    } catch (error: any) {
+      console.error('Requisition action failed:', error);
+      setError(error.message);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleGenerate = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const created = await requisitionService.generateDraftRequisitions();
+      setMessage(created.length === 0
+        ? 'No items need reordering: everything is above its threshold or already on an open requisition.'
+        : `Created ${created.length} draft requisition(s): ${created.map(r => r.requisition_number).join(', ')}`);
+      await fetchRequisitions();
+    } catch (error: any) {
+      console.error('Error generating requisitions:', error);
+      setError(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveDraft = () => {
+    const requisition = selected!;
+    const keptLines = requisition.items.filter(line => !lineDrafts[line.id]?.removed);
+    const removedLineIds = requisition.items.filter(line => lineDrafts[line.id]?.removed).map(line => line.id);
+    return requisitionService.updateDraft(
+      requisition.id,
+      header,
+      keptLines.map(line => ({ id: line.id, requested_quantity: parseInt(lineDrafts[line.id].requested_quantity) })),
+      removedLineIds
+    );
+  };
+
+  const handleSave = () => runAction(saveDraft, 'Draft saved.');
+
+  const handleApprove = () => runAction(async () => {
+    await saveDraft();
+    return requisitionService.approveRequisition(selected!.id);
+  }, 'Requisition approved.');
+
+  const handleOrder = () => runAction(
+    () => requisitionService.markOrdered(selected!.id, header.supplier),
+    'Requisition marked as ordered.'
+  );
+
+  const handleReceive = async () => {
+    if (!selected) return;
+    const received = await runAction(() => requisitionService.receiveRequisition(selected.id, selected.items.map(line => ({
+      id: line.id,
+      received_quantity: parseInt(lineDrafts[line.id].received_quantity) || 0,
+      lot_number: lineDrafts[line.id].lot_number,
+      expiration_date: lineDrafts[line.id].expiration_date || null
+    }))), 'Requisition received. Stock has been added to inventory.');
+    if (received) {
+      onStockReceived();
+    }
+  };
+
+  const handleCancel = () => {
+    if (!selected || !window.confirm(`Cancel requisition ${selected.requisition_number}?`)) return;
+    runAction(() => requisitionService.cancelRequisition(selected.id), 'Requisition cancelled.');
+  };
+
+  const handlePrint = async () => {
+    if (!selected) return;
+    try {
+      const preparedBy = currentUser ? `${currentUser.first_name || ''} ${currentUser.last_name || ''}`.trim() || currentUser.username : undefined;
+      await exportService.exportRequisitionToPDF(selected, preparedBy);
+    } catch (error: any) {
+      console.error('Error printing requisition:', error);
+      setError(`Failed to create PDF: ${error.message}`);
+    }
+  };
+
+  const renderStatusBadge = (status: RequisitionStatus) => (
+    <span className={`requisition-badge ${status}`}>{REQUISITION_STATUS_LABELS[status]}</span>
+  );
+
+  const renderList = () => (
+    <>
+      <div className="batch-summary">
+        <div>
+          <span className="batch-summary-value">{requisitions.length}</span>
+          <span className="batch-summary-label">
+            Requisition(s). Suggestions cover {REORDER_COVER_DAYS} days of usage averaged over the last {USAGE_LOOKBACK_DAYS} days.
+          </span>
+        </div>
+        <div className="batch-summary-actions">
+          <select
+            className="requisition-filter"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as 'all' | RequisitionStatus)}
+          >
+            <option value="all">All statuses</option>
+            {(Object.keys(REQUISITION_STATUS_LABELS) as RequisitionStatus[]).map(status => (
+              <option key={status} value={status}>{REQUISITION_STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+          <button className="btn-primary" onClick={handleGenerate} disabled={saving}>
+            {saving ? 'Generating...' : 'Generate Drafts'}
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="loading-message">Loading requisitions...</div>
+      ) : requisitions.length === 0 ? (
+        <div className="batch-empty">No requisitions yet. Generate drafts to reorder items below their stock threshold.</div>
+      ) : (
+        <table className="batch-table requisition-list">
+          <thead>
+            <tr>
+              <th>Requisition</th>
+              <th>Department</th>
+              <th>Status</th>
+              <th>Items</th>
+              <th>Supplier</th>
+              <th>Created</th>
+            </tr>
+          </thead>
+          <tbody>
+            {requisitions.map(requisition => (
+              <tr key={requisition.id} onClick={() => openRequisition(requisition)}>
+                <td>{requisition.requisition_number}</td>
+                <td className="capitalize">{requisition.department}</td>
+                <td>{renderStatusBadge(requisition.status)}</td>
+                <td>{requisition.items.length}</td>
+                <td>{requisition.supplier || '--'}</td>
+                <td>{new Date(requisition.created_at).toLocaleDateString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </>
+  );
+
+  const renderDetail = (requisition: PurchaseRequisition) => {
+    const isDraft = requisition.status === 'draft';
+    const isReceiving = requisition.status === 'ordered' && isSuperadmin;
+    const showReceived = requisition.status === 'received';
+
+    return (
+      <>
+        <div className="batch-summary">
+          <div>
+            <span className="batch-summary-value">{requisition.requisition_number} {renderStatusBadge(requisition.status)}</span>
+            <span className="batch-summary-label capitalize">
+              {requisition.department} department, created {new Date(requisition.created_at).toLocaleDateString()}
+            </span>
+          </div>
+          <div className="batch-summary-actions">
+            <button className="btn-secondary" onClick={closeRequisition}>Back to List</button>
+            <button className="btn-secondary" onClick={handlePrint}>Print PDF</button>
+          </div>
+        </div>
+
+        <div className="form-grid cols-2">
+          <div className="form-group">
+            <label htmlFor="supplier">Supplier</label>
+            <input
+              type="text"
+              id="supplier"
+              value={header.supplier}
+              onChange={(e) => setHeader(prev => ({ ...prev, supplier: e.target.value }))}
+              disabled={!(isDraft || (requisition.status === 'approved' && isSuperadmin))}
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="notes">Notes</label>
+            <input
+              type="text"
+              id="notes"
+              value={header.notes}
+              onChange={(e) => setHeader(prev => ({ ...prev, notes: e.target.value }))}
+              disabled={!isDraft}
+            />
+          </div>
+        </div>
+
+        <table className="batch-table">
+          <thead>
+            <tr>
+              <th>Item</th>
+              <th>On Hand</th>
+              <th>Threshold</th>
+              <th>Avg / Day</th>
+              <th>Suggested</th>
+              <th>Requested</th>
+              {(isReceiving || showReceived) && <th>Received</th>}
+              {(isReceiving || showReceived) && <th>Lot Number</th>}
+              {isReceiving && <th>Expiry</th>}
+              {isDraft && <th></th>}
+            </tr>
+          </thead>
+          <tbody>
+            {requisition.items.map(line => {
+              const draft = lineDrafts[line.id];
+              if (!draft) return null;
+              const unit = line.unit_of_measurement || 'pcs';
+              return (
+                <tr key={line.id} className={draft.removed ? 'requisition-line-removed' : ''}>
+                  <td>{line.item_name}</td>
+                  <td>{line.stock_on_hand} {unit}</td>
+                  <td>{line.stock_threshold}</td>
+                  <td>{line.average_daily_usage}</td>
+                  <td>{line.suggested_quantity}</td>
+                  <td>
+                    {isDraft ? (
+                      <input
+                        type="number"
+                        className="requisition-input"
+                        min={1}
+                        value={draft.requested_quantity}
+                        onChange={(e) => updateLine(line.id, { requested_quantity: e.target.value })}
+                        disabled={draft.removed}
+                      />
+                    ) : `${line.requested_quantity} ${unit}`}
+                  </td>
+                  {isReceiving && (
+                    <>
+                      <td>
+                        <input
+                          type="number"
+                          className="requisition-input"
+                          min={0}
+                          value={draft.received_quantity}
+                          onChange={(e) => updateLine(line.id, { received_quantity: e.target.value })}
+                        />
+                      </td>
+                      <td>
+                        <input
+                          type="text"
+                          className="requisition-input wide"
+                          placeholder="Auto"
+                          value={draft.lot_number}
+                          onChange={(e) => updateLine(line.id, { lot_number: e.target.value })}
+                        />
+                      </td>
+                      <td>
+                        <input
+                          type="date"
+                          className="requisition-input wide"
+                          value={draft.expiration_date}
+                          onChange={(e) => updateLine(line.id, { expiration_date: e.target.value })}
+                        />
+                      </td>
+                    </>
+                  )}
+                  {showReceived && (
+                    <>
+                      <td>{line.received_quantity ?? 0} {unit}</td>
+                      <td>{line.lot_number || '--'}</td>
+                    </>
+                  )}
+                  {isDraft && (
+                    <td>
+                      <button
+                        type="button"
+                        className="btn-secondary"
+                        onClick={() => updateLine(line.id, { removed: !draft.removed })}
+                      >
+                        {draft.removed ? 'Restore' : 'Remove'}
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {requisition.status === 'approved' && !isSuperadmin && (
+          <p className="requisition-hint">Waiting for a superadmin to place the order.</p>
+        )}
+        {requisition.status === 'ordered' && !isSuperadmin && (
+          <p className="requisition-hint">Waiting for a superadmin to receive the delivery.</p>
+        )}
+        {isReceiving && (
+          <p className="requisition-hint">
+            Medicines and supplies are added as new lots. Leave the lot number blank to use the requisition number.
+          </p>
+        )}
+      </>
+    );
+  };
+
+  const renderFooterActions = () => {
+    if (!selected) return null;
+    switch (selected.status) {
+      case 'draft':
+        return (
+          <>
+            <button className="btn-danger" onClick={handleCancel} disabled={saving}>Cancel Requisition</button>
+            <button className="btn-secondary" onClick={handleSave} disabled={saving}>Save Draft</button>
+            <button className="btn-primary" onClick={handleApprove} disabled={saving}>Approve</button>
+          </>
+        );
+      case 'approved':
+        return (
+          <>
+            <button className="btn-danger" onClick={handleCancel} disabled={saving}>Cancel Requisition</button>
+            {isSuperadmin && (
+              <button className="btn-primary" onClick={handleOrder} disabled={saving}>Mark Ordered</button>
+            )}
+          </>
+        );
+      case 'ordered':
+        return isSuperadmin ? (
+          <button className="btn-primary" onClick={handleReceive} disabled={saving}>
+            {saving ? 'Receiving...' : 'Confirm Receipt'}
+          </button>
+        ) : null;
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content modal-xl">
+        <div className="modal-header">
+          <h2 className="modal-title">Purchase Requisitions</h2>
+          <button className="modal-close-btn" onClick={onClose}>
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"/>
+              <line x1="6" y1="6" x2="18" y2="18"/>
+            </svg>
+          </button>
+        </div>
+        <div className="modal-body">
+          {error && <div className="batch-error">{error}</div>}
+          {message && <div className="requisition-message">{message}</div>}
+          {selected ? renderDetail(selected) : renderList()}
+        </div>
+        <div className="modal-footer">
+          {renderFooterActions()}
+          <button className="btn-secondary" onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PurchaseRequisitionsModal;
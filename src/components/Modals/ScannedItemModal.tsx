@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { stockMovementService } from '../../services/stockMovementService';
+import './Modal.css';
+import './InventoryModals.css';
+
+interface ScannedItemModalProps {
+  item: any;
+  scannedCode: string;
+  onClose: () => void;
+  onShowInList: (item: any) => void;
+  onStockChanged: (message: string) => void;
+}
+
+type QuickAction = 'dispense' | 'adjust';
+
+const ScannedItemModal: React.FC<ScannedItemModalProps> = ({ item, scannedCode, onClose, onShowInList, onStockChanged }) => {
+  const isEquipment = (item?.classification || '').toLowerCase() === 'equipment';
+  const [action, setAction] = useState<QuickAction>(isEquipment ? 'adjust' : 'dispense');
+  const [quantity, setQuantity] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!item) return null;
+
+  const unit = item.unit_of_measurement || 'pcs';
+  const stockQuantity = parseInt(item.stock_quantity) || 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseInt(quantity);
+
+    if (action === 'dispense' && item.status === 'expired') {
+      setError(`${item.generic_name} is expired and cannot be dispensed`);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      if (action === 'dispense') {
+        const movement = await stockMovementService.recordDispense(item, amount, reason);
+        onStockChanged(`Dispensed ${amount} ${unit} of ${item.generic_name}. ${movement.balance_after} ${unit} left.`);
+      } else {
+        const movement = await stockMovementService.recordAdjustment(item, amount, reason);
+        onStockChanged(`Adjusted ${item.generic_name} by ${amount > 0 ? '+' : ''}${amount} ${unit}. ${movement.balance_after} ${unit} on hand.`);
+      }
+    } catch (error: any) {
+      console.error('Error recording scanned stock movement:', error);
+      setError(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content">
+        <div className="modal-header">
+          <h2 className="modal-title">Scanned {scannedCode}</h2>
+          <button className="modal-close-btn" onClick={onClose}>
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"/>
+              <line x1="6" y1="6" x2="18" y2="18"/>
+            </svg>
+          </button>
+        </div>
+        <form onSubmit={handleSubmit}>
+          <div className="modal-body">
+            {error && <div className="batch-error">{error}</div>}
+
+            <div className="batch-summary">
+              <div>
+                <span className="batch-summary-value">{item.generic_name}</span>
+                <span className="batch-summary-label capitalize">
+                  {[item.brand_name, item.classification, item.department].filter(Boolean).join(' | ')}
+                </span>
+              </div>
+              <div>
+                <span className="batch-summary-value">{stockQuantity} {unit}</span>
+                <span className="batch-summary-label capitalize">{(item.status || '').replace('_', ' ')}</span>
+              </div>
+            </div>
+
+            <div className="scan-action-toggle">
+              {!isEquipment && (
+                <button
+                  type="button"
+                  className={action === 'dispense' ? 'btn-primary' : 'btn-secondary'}
+                  onClick={() => setAction('dispense')}
+                >
+                  Dispense
+                </button>
+              )}
+              <button
+                type="button"
+                className={action === 'adjust' ? 'btn-primary' : 'btn-secondary'}
+                onClick={() => setAction('adjust')}
+              >
+                Adjust
+              </button>
+            </div>
+
+            <div className="form-grid cols-2">
+              <div className="form-group">
+                <label htmlFor="scan_quantity">
+                  {action === 'adjust' ? `Change (${unit}, negative to remove)` : `Quantity (${unit})`}
+                </label>
+                <input
+                  type="number"
+                  id="scan_quantity"
+                  min={action === 'adjust' ? undefined : 1}
+                  max={action === 'dispense' ? stockQuantity : undefined}
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  autoFocus
+                  required
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="scan_reason">{action === 'adjust' ? 'Reason' : 'Issued To / Notes'}</label>
+                <input
+                  type="text"
+                  id="scan_reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder={action === 'dispense' ? 'e.g. Clinic treatment room' : ''}
+                  required={action === 'adjust'}
+                />
+              </div>
+            </div>
+          </div>
+          <div className="modal-footer">
+            <button type="button" className="btn-secondary" onClick={() => onShowInList(item)}>Show in List</button>
+            <button type="button" className="btn-secondary" onClick={onClose}>Close</button>
+            <button type="submit" className="btn-primary" disabled={saving}>
+              {saving ? 'Saving...' : action === 'dispense' ? 'Dispense' : 'Record Adjustment'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ScannedItemModal;
@@ -0,0 +1,438 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { authService } from '../../services/supabaseService';
+import {
+  stockCountService,
+  summarizeStockCount,
+  STOCK_COUNT_STATUS_LABELS,
+  type StockCountLine,
+  type StockCountSession,
+  type StockCountStatus
+} from '../../services/stockCountService';
+import { useBarcodeScanner } from '../../hooks/useBarcodeScanner';
+import ExportInventoryModal from './ExportInventoryModal';
+import './Modal.css';
+import './InventoryModals.css';
+
+interface StockCountModalProps {
+  onClose: () => void;
+  onStockAdjusted: () => void;
+  department: string;
+  classification: string;
+}
+
+interface LineDraft {
+  counted_quantity: string;
+  reason: string;
+}
+
+const toDraft = (line: StockCountLine): LineDraft => ({
+  counted_quantity: line.counted_quantity === null || line.counted_quantity === undefined ? '' : String(line.counted_quantity),
+  reason: line.reason || ''
+});
+
+const formatVariance = (variance: number) => variance > 0 ? `+${variance}` : String(variance);
+
+const StockCountModal: React.FC<StockCountModalProps> = ({ onClose, onStockAdjusted, department, classification }) => {
+  const [sessions, setSessions] = useState<StockCountSession[]>([]);
+  const [selected, setSelected] = useState<StockCountSession | null>(null);
+  const [lineDrafts, setLineDrafts] = useState<Record<number, LineDraft>>({});
+  const [scanInput, setScanInput] = useState('');
+  const [uncountedOnly, setUncountedOnly] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const currentUser = authService.getCurrentUser();
+  const isAdmin = ['admin', 'superadmin'].includes(currentUser?.role || '');
+  const isOpen = selected?.status === 'in_progress';
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setSessions(await stockCountService.getSessions(department));
+    } catch (error: any) {
+      console.error('Error fetching stock counts:', error);
+      setError(`Failed to load stock counts: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [department]);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const openSession = (session: StockCountSession) => {
+    setSelected(session);
+    setError(null);
+    setMessage(null);
+    setScanInput('');
+    setLineDrafts(Object.fromEntries(session.lines.map(line => [line.id, toDraft(line)])));
+  };
+
+  const closeSession = async () => {
+    setSelected(null);
+    setMessage(null);
+    await fetchSessions();
+  };
+
+  const updateDraft = (lineId: number, changes: Partial<LineDraft>) => {
+    setLineDrafts(prev => ({ ...prev, [lineId]: { ...prev[lineId], ...changes } }));
+  };
+
+  // Replace a saved line in the open session, keeping any unsaved edits on other lines
+  const applySavedLine = (saved: StockCountLine) => {
+    setSelected(prev => prev && {
+      ...prev,
+      lines: prev.lines.map(line => line.id === saved.id ? saved : line)
+    });
+    setLineDrafts(prev => ({ ...prev, [saved.id]: toDraft(saved) }));
+  };
+
+  const isDirty = (line: StockCountLine) => {
+    const draft = lineDrafts[line.id];
+    if (!draft) return false;
+    const saved = toDraft(line);
+    return draft.counted_quantity.trim() !== saved.counted_quantity || draft.reason.trim() !== saved.reason;
+  };
+
+  const saveLine = async (line: StockCountLine, draft: LineDraft = lineDrafts[line.id]) => {
+    const counted = draft.counted_quantity.trim() === '' ? null : Number(draft.counted_quantity);
+    const saved = await stockCountService.saveCount(line.id, counted, draft.reason);
+    applySavedLine(saved);
+    return saved;
+  };
+
+  const handleLineBlur = async (line: StockCountLine) => {
+    if (!isOpen || !isDirty(line)) return;
+    try {
+      setError(null);
+      await saveLine(line);
+    } catch (error: any) {
+      console.error('Error saving count:', error);
+      setError(`${line.item_name}: ${error.message}`);
+    }
+  };
+
+  // Each scan of an item's code counts one more unit of it
+  const handleScan = async (code: string) => {
+    if (!selected || selected.status !== 'in_progress') return;
+
+    const normalized = code.trim().toLowerCase();
+    const line = selected.lines.find(candidate => candidate.code?.trim().toLowerCase() === normalized);
+    if (!line) {
+      setMessage(null);
+      setError(`No item with code "${code.trim()}" is part of this count`);
+      return;
+    }
+
+    try {
+      setError(null);
+      const draft = lineDrafts[line.id] || toDraft(line);
+      const counted = (parseInt(draft.counted_quantity) || 0) + 1;
+      const saved = await saveLine(line, { ...draft, counted_quantity: String(counted) });
+      setMessage(`${saved.item_name}: counted ${saved.counted_quantity}`);
+    } catch (error: any) {
+      console.error('Error saving scanned count:', error);
+      setError(`${line.item_name}: ${error.message}`);
+    }
+  };
+
+  useBarcodeScanner(handleScan, { enabled: isOpen && !showExport });
+
+  const handleScanSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!scanInput.trim()) return;
+    handleScan(scanInput);
+    setScanInput('');
+  };
+
+  const handleStart = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const session = await stockCountService.startSession(department, classification);
+      openSession(session);
+      setMessage(`Started ${session.session_number} with ${session.lines.length} item(s). Enter counted quantities or scan item codes.`);
+    } catch (error: any) {
+      console.error('Error starting stock count:', error);
+      setError(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Save any edits still in the table before the session is approved
+  const saveDirtyLines = async () => {
+    for (const line of selected!.lines.filter(isDirty)) {
+      await saveLine(line);
+    }
+  };
+
+  const handleApprove = async () => {
+    if (!selected) return;
+    const summary = summarizeStockCount(selected.lines);
+    const uncounted = summary.total - summary.counted;
+    const confirmText = `Approve ${selected.session_number}?` +
+      (uncounted > 0 ? `\n\n${uncounted} uncounted item(s) will be left unchanged.` : '') +
+      '\n\nStock of every item with a variance will be adjusted to the counted quantity.';
+    if (!window.confirm(confirmText)) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      await saveDirtyLines();
+      const approved = await stockCountService.approveSession(selected.id);
+      openSession(approved);
+      const adjusted = approved.lines.filter(line => line.adjustment_movement_id).length;
+      setMessage(`Stock count approved. ${adjusted} item(s) adjusted.`);
+      onStockAdjusted();
+    } catch (error: any) {
+      console.error('Error approving stock count:', error);
+      setError(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!selected || !window.confirm(`Cancel stock count ${selected.session_number}? Counts entered so far will not be posted.`)) return;
+    try {
+      setSaving(true);
+      setError(null);
+      openSession(await stockCountService.cancelSession(selected.id));
+      setMessage('Stock count cancelled.');
+    } catch (error: any) {
+      console.error('Error cancelling stock count:', error);
+      setError(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderStatusBadge = (status: StockCountStatus) => (
+    <span className={`requisition-badge ${status}`}>{STOCK_COUNT_STATUS_LABELS[status]}</span>
+  );
+
+  const renderList = () => {
+    const openCount = sessions.find(session =>
+      session.status === 'in_progress' && session.classification_name === classification
+    );
+
+    return (
+      <>
+        <div className="batch-summary">
+          <div>
+            <span className="batch-summary-value">{sessions.length}</span>
+            <span className="batch-summary-label capitalize">Stock count(s) in the {department} department</span>
+          </div>
+          <div className="batch-summary-actions">
+            {openCount ? (
+              <button className="btn-primary" onClick={() => openSession(openCount)}>
+                Continue {openCount.session_number}
+              </button>
+            ) : (
+              <button className="btn-primary" onClick={handleStart} disabled={saving}>
+                {saving ? 'Starting...' : `Count ${classification}`}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="loading-message">Loading stock counts...</div>
+        ) : sessions.length === 0 ? (
+          <div className="batch-empty">No stock counts yet. Start one to count the {classification.toLowerCase()} on hand.</div>
+        ) : (
+          <table className="batch-table requisition-list">
+            <thead>
+              <tr>
+                <th>Count</th>
+                <th>Classification</th>
+                <th>Status</th>
+                <th>Counted</th>
+                <th>Variances</th>
+                <th>Started</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sessions.map(session => {
+                const summary = summarizeStockCount(session.lines);
+                return (
+                  <tr key={session.id} onClick={() => openSession(session)}>
+                    <td>{session.session_number}</td>
+                    <td>{session.classification_name}</td>
+                    <td>{renderStatusBadge(session.status)}</td>
+                    <td>{summary.counted} of {summary.total}</td>
+                    <td>{summary.withVariance}</td>
+                    <td>{new Date(session.started_at).toLocaleDateString()}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </>
+    );
+  };
+
+  const renderDetail = (session: StockCountSession) => {
+    const summary = summarizeStockCount(session.lines);
+    const visibleLines = uncountedOnly
+      ? session.lines.filter(line => line.counted_quantity === null || line.counted_quantity === undefined)
+      : session.lines;
+
+    return (
+      <>
+        <div className="batch-summary">
+          <div>
+            <span className="batch-summary-value">{session.session_number} {renderStatusBadge(session.status)}</span>
+            <span className="batch-summary-label capitalize">
+              {session.department} {session.classification_name.toLowerCase()}, started {new Date(session.started_at).toLocaleDateString()}.
+              {' '}{summary.counted} of {summary.total} counted, {summary.withVariance} with variance (net {formatVariance(summary.netVariance)})
+            </span>
+          </div>
+          <div className="batch-summary-actions">
+            <button className="btn-secondary" onClick={closeSession}>Back to List</button>
+            <button className="btn-secondary" onClick={() => setShowExport(true)}>Export Count Sheet</button>
+          </div>
+        </div>
+
+        {isOpen && (
+          <form className="count-scan-form" onSubmit={handleScanSubmit}>
+            <input
+              type="text"
+              placeholder="Scan or type an item code and press Enter to count one unit"
+              value={scanInput}
+              onChange={(e) => setScanInput(e.target.value)}
+            />
+            <label className="batch-toggle">
+              <input type="checkbox" checked={uncountedOnly} onChange={(e) => setUncountedOnly(e.target.checked)} />
+              Uncounted only
+            </label>
+          </form>
+        )}
+
+        {visibleLines.length === 0 ? (
+          <div className="batch-empty">Every item has been counted.</div>
+        ) : (
+          <table className="batch-table">
+            <thead>
+              <tr>
+                <th>Code</th>
+                <th>Item</th>
+                <th>System Qty</th>
+                <th>Counted</th>
+                <th>Variance</th>
+                <th>Reason</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleLines.map(line => {
+                const draft = lineDrafts[line.id] || toDraft(line);
+                const counted = draft.counted_quantity.trim() === '' ? null : Number(draft.counted_quantity);
+                const variance = counted === null || Number.isNaN(counted) ? null : counted - line.system_quantity;
+                const unit = line.unit_of_measurement || 'pcs';
+                return (
+                  <tr key={line.id}>
+                    <td>{line.code || '--'}</td>
+                    <td>{line.item_name}</td>
+                    <td>{line.system_quantity} {unit}</td>
+                    <td>
+                      {isOpen ? (
+                        <input
+                          type="number"
+                          className="requisition-input"
+                          min={0}
+                          value={draft.counted_quantity}
+                          onChange={(e) => updateDraft(line.id, { counted_quantity: e.target.value })}
+                          onBlur={() => handleLineBlur(line)}
+                        />
+                      ) : counted === null ? '--' : `${counted} ${unit}`}
+                    </td>
+                    <td>
+                      {variance === null ? '--' : (
+                        <span className={`count-variance ${variance > 0 ? 'over' : variance < 0 ? 'short' : ''}`}>
+                          {formatVariance(variance)}
+                        </span>
+                      )}
+                    </td>
+                    <td>
+                      {isOpen ? (
+                        <input
+                          type="text"
+                          className={`requisition-input wide ${variance && !draft.reason.trim() ? 'count-reason-missing' : ''}`}
+                          placeholder={variance ? 'Required' : ''}
+                          value={draft.reason}
+                          onChange={(e) => updateDraft(line.id, { reason: e.target.value })}
+                          onBlur={() => handleLineBlur(line)}
+                        />
+                      ) : line.reason || '--'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        {isOpen && !isAdmin && (
+          <p className="requisition-hint">When counting is finished, an admin approves the count to post the adjustments.</p>
+        )}
+        {isOpen && isAdmin && (
+          <p className="requisition-hint">
+            Approving adjusts each counted item with a variance to its counted quantity. Uncounted items are left unchanged.
+          </p>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content modal-xl">
+        <div className="modal-header">
+          <h2 className="modal-title">Stock Counts</h2>
+          <button className="modal-close-btn" onClick={onClose}>
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"/>
+              <line x1="6" y1="6" x2="18" y2="18"/>
+            </svg>
+          </button>
+        </div>
+        <div className="modal-body">
+          {error && <div className="batch-error">{error}</div>}
+          {message && <div className="requisition-message">{message}</div>}
+          {selected ? renderDetail(selected) : renderList()}
+        </div>
+        <div className="modal-footer">
+          {isOpen && (
+            <>
+              <button className="btn-danger" onClick={handleCancel} disabled={saving}>Cancel Count</button>
+              {isAdmin && (
+                <button className="btn-primary" onClick={handleApprove} disabled={saving}>
+                  {saving ? 'Approving...' : 'Approve & Post Adjustments'}
+                </button>
+              )}
+            </>
+          )}
+          <button className="btn-secondary" onClick={onClose}>Close</button>
+        </div>
+      </div>
+
+      {showExport && selected && (
+        <ExportInventoryModal
+          onClose={() => setShowExport(false)}
+          department={selected.department}
+          classification={selected.classification_name}
+          stockCount={selected}
+        />
+      )}
+    </div>
+  );
+};
+
+export default StockCountModal;
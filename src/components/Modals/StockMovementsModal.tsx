@@ -0,0 +1,318 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { inventoryService } from '../../services/supabaseService';
+import { batchService, type InventoryBatch } from '../../services/batchService';
+import {
+  stockMovementService,
+  MOVEMENT_TYPE_LABELS,
+  type StockMovement,
+  type StockMovementType,
+  type LedgerBalance
+} from '../../services/stockMovementService';
+import './Modal.css';
+import './InventoryModals.css';
+
+interface StockMovementsModalProps {
+  item: any;
+  onClose: () => void;
+  onStockChanged: () => void;
+}
+
+type MovementAction = 'adjust' | 'waste' | 'transfer' | 'receive';
+
+const emptyMovementForm = {
+  quantity: '',
+  batch_id: '',
+  reason: '',
+  to_item_id: ''
+};
+
+const StockMovementsModal: React.FC<StockMovementsModalProps> = ({ item, onClose, onStockChanged }) => {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [ledgerBalance, setLedgerBalance] = useState<LedgerBalance | null>(null);
+  const [currentItem, setCurrentItem] = useState<any>(item);
+  const [batches, setBatches] = useState<InventoryBatch[]>([]);
+  const [transferTargets, setTransferTargets] = useState<any[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<'all' | StockMovementType>('all');
+  const [activeAction, setActiveAction] = useState<MovementAction | null>(null);
+  const [formData, setFormData] = useState<any>(emptyMovementForm);
+
+  const fetchMovements = useCallback(async () => {
+    if (!item) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const [movementData, balance, refreshedItem, batchData] = await Promise.all([
+        stockMovementService.getMovementsByItemId(item.id),
+        stockMovementService.getLedgerBalance(item.id),
+        inventoryService.refreshItemStatus(item.id),
+        batchService.getBatchesByItemId(item.id)
+      ]);
+      setMovements(movementData);
+      setLedgerBalance(balance);
+      setCurrentItem(refreshedItem);
+      setBatches(batchData);
+    } catch (error: any) {
+      console.error('Error fetching stock movements:', error);
+      setError(`Failed to load stock history: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [item]);
+
+  useEffect(() => {
+    fetchMovements();
+  }, [fetchMovements]);
+
+  if (!item) return null;
+
+  const unit = item.unit_of_measurement || 'pcs';
+  const isBatchTracked = batches.length > 0;
+  const isEquipment = (item.classification || '').toLowerCase() === 'equipment';
+  const lotsOnHand = batches.filter(batch => batch.quantity > 0);
+  const otherDepartment = item.department === 'medical' ? 'dental' : 'medical';
+  const stockQuantity = parseInt(currentItem?.stock_quantity) || 0;
+  const ledgerDifference = ledgerBalance ? stockQuantity - ledgerBalance.ledger_quantity : 0;
+
+  const openAction = async (action: MovementAction) => {
+    if (activeAction === action) {
+      setActiveAction(null);
+      return;
+    }
+    setFormData(emptyMovementForm);
+    setError(null);
+    setActiveAction(action);
+
+    if (action === 'transfer') {
+      try {
+        const targets = await stockMovementService.getTransferTargets(item);
+        setTransferTargets(targets);
+        setFormData((prev: any) => ({ ...prev, to_item_id: targets[0]?.id ? String(targets[0].id) : 'new' }));
+      } catch (error: any) {
+        console.error('Error loading transfer targets:', error);
+        setError(error.message);
+      }
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev: any) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const quantity = parseInt(formData.quantity);
+    const batchId = formData.batch_id ? parseInt(formData.batch_id) : null;
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      if (activeAction === 'adjust') {
+        await stockMovementService.recordAdjustment(item, quantity, formData.reason, batchId);
+      } else if (activeAction === 'waste') {
+        await stockMovementService.recordWaste(item, quantity, formData.reason, batchId);
+      } else if (activeAction === 'transfer') {
+        const toItemId = formData.to_item_id === 'new' ? null : parseInt(formData.to_item_id);
+        await stockMovementService.transferStock(item, toItemId, quantity, formData.reason);
+      } else if (activeAction === 'receive') {
+        await stockMovementService.receiveStock(item, quantity, formData.reason);
+      }
+
+      setActiveAction(null);
+      setFormData(emptyMovementForm);
+      await fetchMovements();
+      onStockChanged();
+    } catch (error: any) {
+      console.error('Error recording stock movement:', error);
+      setError(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const getPerformedBy = (movement: StockMovement) => {
+    if (!movement.users) return '--';
+    const fullName = `${movement.users.first_name || ''} ${movement.users.last_name || ''}`.trim();
+    return fullName || movement.users.username;
+  };
+
+  const getLots = (movement: StockMovement) => {
+    if (movement.lot_number) return movement.lot_number;
+    if (movement.batch_allocations?.length) {
+      return movement.batch_allocations.map(allocation => `${allocation.lot_number} (${allocation.quantity})`).join(', ');
+    }
+    return '--';
+  };
+
+  const visibleMovements = typeFilter === 'all'
+    ? movements
+    : movements.filter(movement => movement.movement_type === typeFilter);
+
+  const renderLotSelect = (emptyLabel: string) => isBatchTracked && (
+    <div className="form-group">
+      <label htmlFor="batch_id">Lot</label>
+      <select id="batch_id" name="batch_id" value={formData.batch_id} onChange={handleChange}>
+        <option value="">{emptyLabel}</option>
+        {lotsOnHand.map(batch => (
+          <option key={batch.id} value={batch.id}>
+            {batch.lot_number} - {batch.quantity} {unit}{batch.expiration_date ? `, exp ${batch.expiration_date}` : ''}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content modal-xl">
+        <div className="modal-header">
+          <h2 className="modal-title">Stock History - {item.generic_name}</h2>
+          <button className="modal-close-btn" onClick={onClose}>
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"/>
+              <line x1="6" y1="6" x2="18" y2="18"/>
+            </svg>
+          </button>
+        </div>
+        <div className="modal-body">
+          {error && <div className="batch-error">{error}</div>}
+
+          <div className="batch-summary">
+            <div>
+              <span className="batch-summary-value">{stockQuantity} {unit}</span>
+              <span className="batch-summary-label">
+                On hand in {item.department}
+                {ledgerBalance && (
+                  ledgerDifference === 0
+                    ? <span className="ledger-status matched">Ledger balance matches</span>
+                    : <span className="ledger-status mismatch">Ledger balance {ledgerBalance.ledger_quantity} {unit} ({ledgerDifference > 0 ? '+' : ''}{ledgerDifference} unrecorded)</span>
+                )}
+              </span>
+            </div>
+            <div className="batch-summary-actions">
+              {/* Medicines and supplies are received as lots from the Batches view */}
+              {isEquipment && (
+                <button className="btn-secondary" onClick={() => openAction('receive')}>Receive</button>
+              )}
+              <button className="btn-secondary" onClick={() => openAction('adjust')}>Adjust</button>
+              <button className="btn-secondary" onClick={() => openAction('transfer')}>Transfer</button>
+              <button className="btn-secondary" onClick={() => openAction('waste')}>Dispose</button>
+            </div>
+          </div>
+
+          {activeAction && (
+            <form className="batch-receive-form" onSubmit={handleSubmit}>
+              <div className="form-grid cols-3">
+                {activeAction === 'transfer' && (
+                  <div className="form-group">
+                    <label htmlFor="to_item_id">Transfer To</label>
+                    <select id="to_item_id" name="to_item_id" value={formData.to_item_id} onChange={handleChange} required>
+                      {transferTargets.map(target => (
+                        <option key={target.id} value={target.id}>
+                          {target.generic_name}{target.brand_name ? ` (${target.brand_name})` : ''} - {target.department}, {target.stock_quantity} {target.unit_of_measurement || 'pcs'}
+                        </option>
+                      ))}
+                      <option value="new">New item in {otherDepartment}</option>
+                    </select>
+                  </div>
+                )}
+                <div className="form-group">
+                  <label htmlFor="quantity">
+                    {activeAction === 'adjust' ? `Change (${unit}, negative to remove)` : `Quantity (${unit})`}
+                  </label>
+                  <input
+                    type="number"
+                    id="quantity"
+                    name="quantity"
+                    min={activeAction === 'adjust' ? undefined : 1}
+                    value={formData.quantity}
+                    onChange={handleChange}
+                    required
+                  />
+                </div>
+                {activeAction === 'adjust' && renderLotSelect('Latest lot / first to expire')}
+                {activeAction === 'waste' && renderLotSelect('First to expire (FEFO)')}
+                <div className="form-group">
+                  <label htmlFor="reason">{activeAction === 'receive' ? 'Source / Notes' : 'Reason'}</label>
+                  <input
+                    type="text"
+                    id="reason"
+                    name="reason"
+                    value={formData.reason}
+                    onChange={handleChange}
+                    placeholder={activeAction === 'waste' ? 'e.g. Expired, damaged packaging' : ''}
+                    required={activeAction !== 'receive'}
+                  />
+                </div>
+              </div>
+              <div className="batch-receive-actions">
+                <button type="button" className="btn-secondary" onClick={() => setActiveAction(null)}>Cancel</button>
+                <button type="submit" className="btn-primary" disabled={saving}>
+                  {saving ? 'Saving...' : 'Record Movement'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          <div className="movement-filter">
+            <label htmlFor="movement_type_filter">Type</label>
+            <select id="movement_type_filter" value={typeFilter} onChange={(e) => setTypeFilter(e.target.value as 'all' | StockMovementType)}>
+              <option value="all">All movements</option>
+              {(Object.keys(MOVEMENT_TYPE_LABELS) as StockMovementType[]).map(type => (
+                <option key={type} value={type}>{MOVEMENT_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+
+          {loading ? (
+            <div className="loading-message">Loading stock history...</div>
+          ) : visibleMovements.length === 0 ? (
+            <div className="batch-empty">No stock movements recorded for this item.</div>
+          ) : (
+            <table className="batch-table">
+              <thead>
+                <tr>
+                  <th>Date</th>
+                  <th>Type</th>
+                  <th>Change</th>
+                  <th>Balance</th>
+                  <th>Lot</th>
+                  <th>Reason</th>
+                  <th>By</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleMovements.map((movement) => (
+                  <tr key={movement.id}>
+                    <td>{new Date(movement.performed_at).toLocaleString()}</td>
+                    <td>
+                      <span className={`movement-badge ${movement.movement_type}`}>
+                        {MOVEMENT_TYPE_LABELS[movement.movement_type]}
+                      </span>
+                    </td>
+                    <td className={movement.quantity_change > 0 ? 'movement-in' : 'movement-out'}>
+                      {movement.quantity_change > 0 ? '+' : ''}{movement.quantity_change}
+                    </td>
+                    <td>{movement.balance_after} {unit}</td>
+                    <td>{getLots(movement)}</td>
+                    <td>{movement.reason || '--'}</td>
+                    <td>{getPerformedBy(movement)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+        <div className="modal-footer">
+          <button className="btn-secondary" onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StockMovementsModal;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import './Modal.css';
+import {
+  classifyComplaint,
+  getSyndromeLabel,
+  type SurveillanceFlag
+} from '../../services/surveillanceService';
+import { SURVEILLANCE_BASELINE_DAYS } from '../../constants/syndromicSurveillance';
+
+interface SurveillanceFlagModalProps {
+  flag: SurveillanceFlag | null;
+  onClose: () => void;
+}
+
+// Drill-down from a dashboard surveillance flag to the consultations behind it
+const SurveillanceFlagModal: React.FC<SurveillanceFlagModalProps> = ({ flag, onClose }) => {
+  const navigate = useNavigate();
+
+  if (!flag) return null;
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content modal-lg">
+        <div className="modal-header">
+          <h2 className="modal-title">
+            {getSyndromeLabel(flag.syndrome)} - {flag.group}
+          </h2>
+          <button className="modal-close-btn" onClick={onClose}>
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"/>
+              <line x1="6" y1="6" x2="18" y2="18"/>
+            </svg>
+          </button>
+        </div>
+        <div className="modal-body">
+          <p className="surveillance-flag-summary">
+            <strong>{flag.count} consultations</strong> on{' '}
+            {new Date(`${flag.date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })},
+            against a {SURVEILLANCE_BASELINE_DAYS}-day baseline of {flag.baseline_mean} a day
+            (SD {flag.baseline_sd}, {flag.z_score} SD above the mean).
+          </p>
+          <div className="surveillance-flag-list">
+            {flag.consultations.map(consultation => (
+              <button
+                key={consultation.id}
+                className="surveillance-flag-item"
+                onClick={() => navigate(`/patient-monitoring?consultationId=${consultation.id}`)}
+                title="Open consultation"
+              >
+                <div>
+                  <span className="surveillance-flag-patient">
+                    {consultation.patient?.first_name} {consultation.patient?.last_name}
+                  </span>
+                  <span className="surveillance-flag-meta">
+                    {consultation.case_number} &middot; {consultation.patient?.patient_id} &middot; {consultation.patient?.patient_type}
+                  </span>
+                </div>
+                <div className="surveillance-flag-complaint">
+                  {consultation.chief_complaint}
+                  <span className="surveillance-flag-meta">
+                    {classifyComplaint(consultation.chief_complaint).map(getSyndromeLabel).join(', ')}
+                  </span>
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="modal-footer">
+          <button className="btn-secondary" onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SurveillanceFlagModal;
@@ -0,0 +1,342 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import './AppointmentsPage.css';
+import './PagesStyles.css';
+import { type Consultation } from '../../services/supabaseService';
+import {
+  appointmentService,
+  APPOINTMENT_STATUS_LABELS,
+  formatAppointmentTime,
+  toDateKey,
+  type Appointment,
+  type Physician
+} from '../../services/appointmentService';
+import StartConsultationModal from '../Modals/ConsultationModals/StartConsultationModal';
+
+type CalendarView = 'day' | 'week';
+
+// Monday of the week containing the date
+const startOfWeek = (date: Date): Date => {
+  const start = new Date(date);
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+const AppointmentsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [view, setView] = useState<CalendarView>('day');
+  const [selectedDate, setSelectedDate] = useState<Date>(new Date());
+  const [physicianFilter, setPhysicianFilter] = useState('all');
+  const [physicians, setPhysicians] = useState<Physician[]>([]);
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [checkInAppointment, setCheckInAppointment] = useState<Appointment | null>(null);
+
+  const today = toDateKey(new Date());
+
+  const visibleDays = useMemo(() => {
+    if (view === 'day') return [selectedDate];
+    const monday = startOfWeek(selectedDate);
+    return Array.from({ length: 7 }, (_, index) => addDays(monday, index));
+  }, [view, selectedDate]);
+
+  const fetchAppointments = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await appointmentService.getAppointmentsInRange(
+        toDateKey(visibleDays[0]),
+        toDateKey(visibleDays[visibleDays.length - 1]),
+        physicianFilter === 'all' ? undefined : parseInt(physicianFilter)
+      );
+      setAppointments(data);
+    } catch (error: any) {
+      console.error('Error fetching appointments:', error);
+      setError(error.message || 'Failed to load appointments');
+    } finally {
+      setLoading(false);
+    }
+  }, [visibleDays, physicianFilter]);
+
+  useEffect(() => {
+    appointmentService.getPhysicians()
+      .then(setPhysicians)
+      .catch(error => console.error('Error loading physicians:', error));
+  }, []);
+
+  useEffect(() => {
+    fetchAppointments();
+  }, [fetchAppointments]);
+
+  // Day view has a column per physician with bookings (or the filtered physician)
+  const physicianColumns = useMemo(() => {
+    if (physicianFilter !== 'all') {
+      return physicians.filter(physician => physician.id === parseInt(physicianFilter));
+    }
+    const booked = new Map<number, Physician>();
+    appointments.forEach(appointment => {
+      if (!booked.has(appointment.physician_id)) {
+        booked.set(appointment.physician_id, { id: appointment.physician_id, name: appointment.physician_name });
+      }
+    });
+    return Array.from(booked.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }, [physicianFilter, physicians, appointments]);
+
+  const stats = useMemo(() => ({
+    scheduled: appointments.filter(appointment => appointment.status === 'scheduled').length,
+    checkedIn: appointments.filter(appointment => appointment.status === 'checked_in').length,
+    noShow: appointments.filter(appointment => appointment.status === 'no_show').length
+  }), [appointments]);
+
+  const handleNavigate = (direction: -1 | 1) => {
+    setSelectedDate(prev => addDays(prev, direction * (view === 'day' ? 1 : 7)));
+  };
+
+  const handleMarkNoShow = async (appointment: Appointment) => {
+    if (!window.confirm(`Mark ${appointment.patient?.first_name} ${appointment.patient?.last_name} as a no-show for ${formatAppointmentTime(appointment.scheduled_time)}?`)) return;
+
+    try {
+      setError(null);
+      await appointmentService.markNoShow(appointment);
+      await fetchAppointments();
+    } catch (error: any) {
+      console.error('Error marking no-show:', error);
+      setError(error.message || 'Failed to mark no-show');
+    }
+  };
+
+  const handleCancel = async (appointment: Appointment) => {
+    if (!window.confirm(`Cancel the ${formatAppointmentTime(appointment.scheduled_time)} appointment on ${appointment.scheduled_date}?`)) return;
+
+    try {
+      setError(null);
+      await appointmentService.cancelAppointment(appointment);
+      await fetchAppointments();
+    } catch (error: any) {
+      console.error('Error cancelling appointment:', error);
+      setError(error.message || 'Failed to cancel appointment');
+    }
+  };
+
+  const handleConsultationStarted = (consultation: Consultation) => {
+    setCheckInAppointment(null);
+    navigate(`/patient-monitoring?consultationId=${consultation.id}`);
+  };
+
+  const renderAppointment = (appointment: Appointment, showPhysician: boolean) => (
+    <div key={appointment.id} className={`appointment-slot ${appointment.status}`}>
+      <div className="appointment-slot-header">
+        <span className="appointment-slot-time">
+          {formatAppointmentTime(appointment.scheduled_time)}
+          <span className="appointment-slot-duration"> · {appointment.duration_minutes} min</span>
+        </span>
+        <span className={`appointment-status ${appointment.status}`}>
+          {APPOINTMENT_STATUS_LABELS[appointment.status]}
+        </span>
+      </div>
+      <div className="appointment-slot-patient">
+        {appointment.patient?.first_name} {appointment.patient?.last_name}
+        <span className="appointment-slot-id"> ({appointment.patient?.patient_id})</span>
+      </div>
+      <div className="appointment-slot-reason">{appointment.reason}</div>
+      {showPhysician && (
+        <div className="appointment-slot-physician">{appointment.physician_name}</div>
+      )}
+      {appointment.status === 'scheduled' && (
+        <div className="appointment-slot-actions">
+          {appointment.scheduled_date === today && (
+            <button className="btn-primary btn-sm" onClick={() => setCheckInAppointment(appointment)}>
+              Check In
+            </button>
+          )}
+          {appointment.scheduled_date <= today && (
+            <button className="btn-secondary btn-sm" onClick={() => handleMarkNoShow(appointment)}>
+              No-Show
+            </button>
+          )}
+          <button className="btn-secondary btn-sm" onClick={() => handleCancel(appointment)}>
+            Cancel
+          </button>
+        </div>
+      )}
+    </div>
+  );
+
+  const renderDayView = () => {
+    const dayAppointments = appointments.filter(appointment => appointment.status !== 'cancelled');
+
+    if (physicianColumns.length === 0 || dayAppointments.length === 0) {
+      return (
+        <div className="empty-state">
+          <div className="empty-state-icon">
+            <svg width="64" height="64" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
+              <rect x="3" y="4" width="18" height="18" rx="2" ry="2"/>
+              <line x1="16" y1="2" x2="16" y2="6"/>
+              <line x1="8" y1="2" x2="8" y2="6"/>
+              <line x1="3" y1="10" x2="21" y2="10"/>
+            </svg>
+          </div>
+          <div className="empty-state-content">
+            <h3>No Appointments</h3>
+            <p>Follow-ups are scheduled from the Follow-ups tab of a consultation.</p>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="appointments-calendar">
+        {physicianColumns.map(physician => {
+          const columnAppointments = dayAppointments.filter(appointment => appointment.physician_id === physician.id);
+          return (
+            <div key={physician.id} className="calendar-column">
+              <div className="calendar-column-header">
+                <span className="calendar-column-title">{physician.name}</span>
+                <span className="calendar-column-count">{columnAppointments.length} booked</span>
+              </div>
+              <div className="calendar-column-body">
+                {columnAppointments.length === 0 ? (
+                  <div className="calendar-column-empty">No bookings</div>
+                ) : (
+                  columnAppointments.map(appointment => renderAppointment(appointment, false))
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderWeekView = () => (
+    <div className="appointments-calendar week">
+      {visibleDays.map(day => {
+        const dayKey = toDateKey(day);
+        const dayAppointments = appointments.filter(appointment =>
+          appointment.scheduled_date === dayKey && appointment.status !== 'cancelled'
+        );
+        return (
+          <div key={dayKey} className={`calendar-column ${dayKey === today ? 'today' : ''}`}>
+            <button
+              className="calendar-column-header"
+              onClick={() => {
+                setSelectedDate(day);
+                setView('day');
+              }}
+              title="Open day view"
+            >
+              <span className="calendar-column-title">
+                {day.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
+              </span>
+              <span className="calendar-column-count">{dayAppointments.length} booked</span>
+            </button>
+            <div className="calendar-column-body">
+              {dayAppointments.length === 0 ? (
+                <div className="calendar-column-empty">—</div>
+              ) : (
+                dayAppointments.map(appointment => renderAppointment(appointment, physicianFilter === 'all'))
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const rangeLabel = view === 'day'
+    ? selectedDate.toLocaleDateString(undefined, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })
+    : `${visibleDays[0].toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} – ${visibleDays[6].toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}`;
+
+  return (
+    <div className="page-container">
+      <div className="page-header">
+        <h1 className="page-title">Appointments</h1>
+        <p className="page-subtitle">Follow-up bookings per physician, check-in and no-shows</p>
+      </div>
+
+      <div className="stats-grid">
+        <div className="stat-card">
+          <div className="stat-content">
+            <div className="stat-value">{stats.scheduled}</div>
+            <div className="stat-title">Scheduled</div>
+            <div className="stat-change neutral">{view === 'day' ? 'This day' : 'This week'}</div>
+          </div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-content">
+            <div className="stat-value">{stats.checkedIn}</div>
+            <div className="stat-title">Checked In</div>
+            <div className="stat-change positive">Consultation started</div>
+          </div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-content">
+            <div className="stat-value">{stats.noShow}</div>
+            <div className="stat-title">No-Shows</div>
+            <div className={`stat-change ${stats.noShow > 0 ? 'warning' : 'positive'}`}>Did not arrive</div>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="error-message">{error}</div>
+      )}
+
+      <div className="filters-section">
+        <div className="filters-row">
+          <div className="filter-group">
+            <label>View:</label>
+            <select value={view} onChange={(e) => setView(e.target.value as CalendarView)}>
+              <option value="day">Day</option>
+              <option value="week">Week</option>
+            </select>
+          </div>
+
+          <div className="filter-group">
+            <label>Physician:</label>
+            <select value={physicianFilter} onChange={(e) => setPhysicianFilter(e.target.value)}>
+              <option value="all">All Physicians</option>
+              {physicians.map(physician => (
+                <option key={physician.id} value={physician.id}>{physician.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="calendar-navigation">
+            <button className="btn-secondary" onClick={() => handleNavigate(-1)}>
+              Previous
+            </button>
+            <button className="btn-secondary" onClick={() => setSelectedDate(new Date())}>
+              Today
+            </button>
+            <button className="btn-secondary" onClick={() => handleNavigate(1)}>
+              Next
+            </button>
+            <span className="calendar-range-label">{rangeLabel}</span>
+          </div>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="loading-message">Loading appointments...</div>
+      ) : view === 'day' ? renderDayView() : renderWeekView()}
+
+      <StartConsultationModal
+        isOpen={checkInAppointment !== null}
+        patient={checkInAppointment?.patient || null}
+        appointment={checkInAppointment}
+        onClose={() => setCheckInAppointment(null)}
+        onConsultationStarted={handleConsultationStarted}
+      />
+    </div>
+  );
+};
+
+export default AppointmentsPage;
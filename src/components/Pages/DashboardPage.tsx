@@ -1,45 +1,36 @@
 import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
 import TopBar from '../Layout/TopBar';
 import SideBar from '../Layout/SideBar';
 import './DashboardPage.css';
-import {
-  Chart as ChartJS,
-  ArcElement,
-  Tooltip,
-  Legend,
-  CategoryScale,
-  LinearScale,
-  BarElement,
-  LineElement,
-  PointElement,
-  Filler
-} from 'chart.js';
+import '../../lib/chartSetup';
 import { Doughnut, Bar, Line } from 'react-chartjs-2';
 import {
   dashboardService,
   type DashboardStats,
   type InventoryTrendData,
   type EquipmentStatusData,
+  type OverdueEquipmentData,
   type MedicineStatusData,
   type SuppliesStatusData,
   type PatientTrendData,
   type EnhancedActivityTrendData,
-  type PatientDistributionData
+  type PatientDistributionData,
+  type TopDiagnosisData
 } from '../../services/dashboardService';
-
-// Register Chart.js components
-ChartJS.register(
-  ArcElement,
-  Tooltip,
-  Legend,
-  CategoryScale,
-  LinearScale,
-  BarElement,
-  LineElement,
-  PointElement,
-  Filler
-);
+import {
+  appointmentService,
+  APPOINTMENT_STATUS_LABELS,
+  formatAppointmentTime,
+  type Appointment
+} from '../../services/appointmentService';
+import {
+  surveillanceService,
+  getSyndromeLabel,
+  type SurveillanceFlag
+} from '../../services/surveillanceService';
+import SurveillanceFlagModal from '../Modals/SurveillanceFlagModal';
 
 interface DashboardPageProps {
   children?: React.ReactNode;
@@ -47,6 +38,7 @@ interface DashboardPageProps {
 
 const DashboardPage: React.FC<DashboardPageProps> = ({ children }) => {
   const { user, logout } = useAuth();
+  const navigate = useNavigate();
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(false);
@@ -65,23 +57,32 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ children }) => {
   });
   const [inventoryTrends, setInventoryTrends] = useState<InventoryTrendData[]>([]);
   const [equipmentStatus, setEquipmentStatus] = useState<EquipmentStatusData[]>([]);
+  const [overdueEquipment, setOverdueEquipment] = useState<OverdueEquipmentData[]>([]);
   const [medicineStatus, setMedicineStatus] = useState<MedicineStatusData[]>([]);
   const [suppliesStatus, setSuppliesStatus] = useState<SuppliesStatusData[]>([]);
   const [patientTrends, setPatientTrends] = useState<PatientTrendData[]>([]);
   const [activityTrends, setActivityTrends] = useState<EnhancedActivityTrendData[]>([]);
   const [patientDistribution, setPatientDistribution] = useState<PatientDistributionData[]>([]);
+  const [topDiagnoses, setTopDiagnoses] = useState<TopDiagnosisData[]>([]);
+  const [todaysAppointments, setTodaysAppointments] = useState<Appointment[]>([]);
+  const [surveillanceFlags, setSurveillanceFlags] = useState<SurveillanceFlag[]>([]);
+  const [selectedSurveillanceFlag, setSelectedSurveillanceFlag] = useState<SurveillanceFlag | null>(null);
   const [loading, setLoading] = useState(true);
   const [selectedTimeframe, setSelectedTimeframe] = useState<'7' | '30' | '90'>('30');
 
   // Chart visibility state
   const [chartVisibility, setChartVisibility] = useState({
+    surveillance: true,
+    todaysAppointments: true,
     equipmentStatus: true,
+    maintenanceDue: true,
     medicineStatus: true,
     suppliesStatus: true,
     patientTrends: true,
     activityTrends: true,
     inventoryTrends: true,
-    patientDistribution: true
+    patientDistribution: true,
+    topDiagnoses: true
   });
 
 
@@ -103,30 +104,42 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ children }) => {
         statsData,
         trendsData,
         equipmentData,
+        overdueData,
         medicineData,
         suppliesData,
         patientData,
         activityData,
-        distributionData
+        distributionData,
+        diagnosesData,
+        appointmentsData,
+        surveillanceData
       ] = await Promise.all([
         dashboardService.getDashboardStats(),
         dashboardService.getInventoryTrends(parseInt(selectedTimeframe)),
         dashboardService.getEquipmentStatus(),
+        dashboardService.getOverdueEquipment(),
         dashboardService.getMedicineStatus(),
         dashboardService.getSuppliesStatus(),
         dashboardService.getPatientTrends(parseInt(selectedTimeframe)),
         dashboardService.getEnhancedActivityTrends(parseInt(selectedTimeframe)),
-        dashboardService.getPatientDistribution()
+        dashboardService.getPatientDistribution(),
+        dashboardService.getTopDiagnoses(parseInt(selectedTimeframe)),
+        appointmentService.getTodaysAppointments(),
+        surveillanceService.getSurveillanceFlags()
       ]);
 
       setStats(statsData);
       setInventoryTrends(trendsData);
       setEquipmentStatus(equipmentData);
+      setOverdueEquipment(overdueData);
       setMedicineStatus(medicineData);
       setSuppliesStatus(suppliesData);
       setPatientTrends(patientData);
       setActivityTrends(activityData);
       setPatientDistribution(distributionData);
+      setTopDiagnoses(diagnosesData);
+      setTodaysAppointments(appointmentsData);
+      setSurveillanceFlags(surveillanceData);
 
     } catch (error) {
       console.error('Error fetching dashboard data:', error);
@@ -271,13 +284,17 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ children }) => {
                 </button>
                 {Object.entries(chartVisibility).map(([key, visible]) => {
                   const chartNames = {
+                    surveillance: 'Surveillance',
+                    todaysAppointments: 'Appointments',
                     equipmentStatus: 'Equipment',
+                    maintenanceDue: 'Maintenance',
                     medicineStatus: 'Medicine',
                     suppliesStatus: 'Supplies',
                     patientTrends: 'Patients',
                     activityTrends: 'Activity',
                     inventoryTrends: 'Inventory',
-                    patientDistribution: 'Distribution'
+                    patientDistribution: 'Distribution',
+                    topDiagnoses: 'Diagnoses'
                   };
                   return (
                     <button
@@ -341,6 +358,88 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ children }) => {
         {/* Primary Analytics Dashboard */}
         <div className="analytics-grid">
 
+          {/* Syndromic Surveillance */}
+          {chartVisibility.surveillance && (
+            <div className="dashboard-card span-2">
+              <div className="card-header">
+                <div className="card-title-section">
+                  <h3>Syndromic Surveillance</h3>
+                  <span className="card-subtitle">
+                    {surveillanceFlags.length === 0
+                      ? 'No unusual symptom clusters in the last few days'
+                      : `${surveillanceFlags.length} unusual symptom cluster${surveillanceFlags.length === 1 ? '' : 's'} by course or department`}
+                  </span>
+                </div>
+              </div>
+              <div className="maintenance-due-list">
+                {surveillanceFlags.length === 0 ? (
+                  <div className="maintenance-due-empty">Chief complaints are within their usual levels.</div>
+                ) : (
+                  surveillanceFlags.map(flag => (
+                    <button
+                      key={`${flag.syndrome}-${flag.group}-${flag.date}`}
+                      className="maintenance-due-item overdue"
+                      onClick={() => setSelectedSurveillanceFlag(flag)}
+                    >
+                      <div className="maintenance-due-info">
+                        <span className="maintenance-due-name">
+                          {getSyndromeLabel(flag.syndrome)} &middot; {flag.group}
+                        </span>
+                        <span className="maintenance-due-meta">
+                          {new Date(`${flag.date}T00:00:00`).toLocaleDateString()} &middot; usually {flag.baseline_mean} a day
+                        </span>
+                      </div>
+                      <span className="maintenance-due-days">
+                        {flag.count} cases
+                      </span>
+                    </button>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Today's Appointments */}
+          {chartVisibility.todaysAppointments && (
+            <div className="dashboard-card span-2">
+              <div className="card-header">
+                <div className="card-title-section">
+                  <h3>Today's Appointments</h3>
+                  <span className="card-subtitle">
+                    {todaysAppointments.length === 0
+                      ? 'No follow-ups booked for today'
+                      : `${todaysAppointments.filter(item => item.status === 'scheduled').length} waiting, ${todaysAppointments.filter(item => item.status === 'checked_in').length} checked in, ${todaysAppointments.filter(item => item.status === 'no_show').length} no-show`}
+                  </span>
+                </div>
+              </div>
+              <div className="maintenance-due-list">
+                {todaysAppointments.length === 0 ? (
+                  <div className="maintenance-due-empty">No appointments today.</div>
+                ) : (
+                  todaysAppointments.map(item => (
+                    <button
+                      key={item.id}
+                      className={`maintenance-due-item appointment-today-item ${item.status}`}
+                      onClick={() => navigate('/appointments')}
+                    >
+                      <div className="maintenance-due-info">
+                        <span className="maintenance-due-name">
+                          {formatAppointmentTime(item.scheduled_time)} &middot; {item.patient?.first_name} {item.patient?.last_name}
+                        </span>
+                        <span className="maintenance-due-meta">
+                          {item.physician_name} &middot; {item.reason}
+                        </span>
+                      </div>
+                      <span className="maintenance-due-days">
+                        {APPOINTMENT_STATUS_LABELS[item.status]}
+                      </span>
+                    </button>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Equipment Status Chart */}
           {chartVisibility.equipmentStatus && (
             <div className="dashboard-card span-2">
@@ -399,6 +498,46 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ children }) => {
             </div>
           )}
 
+          {/* Equipment Maintenance Due */}
+          {chartVisibility.maintenanceDue && (
+            <div className="dashboard-card span-2">
+              <div className="card-header">
+                <div className="card-title-section">
+                  <h3>Equipment Maintenance Due</h3>
+                  <span className="card-subtitle">
+                    {overdueEquipment.length === 0
+                      ? 'All scheduled maintenance is up to date'
+                      : `${overdueEquipment.filter(item => item.daysOverdue > 0).length} overdue, ${overdueEquipment.filter(item => item.daysOverdue === 0).length} due today`}
+                  </span>
+                </div>
+              </div>
+              <div className="maintenance-due-list">
+                {overdueEquipment.length === 0 ? (
+                  <div className="maintenance-due-empty">No equipment is due for maintenance.</div>
+                ) : (
+                  overdueEquipment.map(item => (
+                    <button
+                      key={item.scheduleId}
+                      className={`maintenance-due-item ${item.daysOverdue > 0 ? 'overdue' : 'due'}`}
+                      onClick={() => navigate(`/inventory?itemId=${item.itemId}&department=${item.department}&classification=equipment`)}
+                    >
+                      <div className="maintenance-due-info">
+                        <span className="maintenance-due-name">{item.itemName}</span>
+                        <span className="maintenance-due-meta">
+                          {item.maintenanceType} &middot; <span className="capitalize">{item.department}</span>
+                          {item.status === 'maintenance' && <> &middot; In maintenance</>}
+                        </span>
+                      </div>
+                      <span className="maintenance-due-days">
+                        {item.daysOverdue > 0 ? `${item.daysOverdue}d overdue` : 'Due today'}
+                      </span>
+                    </button>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Medicine Status Chart */}
           {chartVisibility.medicineStatus && (
             <div className="dashboard-card span-2">
@@ -898,7 +1037,105 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ children }) => {
             </div>
           )}
 
+          {/* Top Diagnoses Chart */}
+          {chartVisibility.topDiagnoses && (
+            <div className="dashboard-card span-2">
+              <div className="card-header">
+                <div className="card-title-section">
+                  <h3>Top Diagnoses</h3>
+                  <span className="card-subtitle">Most frequent ICD-10 coded diagnoses by patient type, last {selectedTimeframe} days</span>
+                </div>
+              </div>
+              <div className="chart-container">
+                {topDiagnoses.length === 0 ? (
+                  <div className="chart-empty">No coded diagnoses in this period</div>
+                ) : (
+                  <Bar
+                    data={{
+                      labels: topDiagnoses.map(item => item.code),
+                      datasets: (() => {
+                        const patientTypes = Array.from(new Set(topDiagnoses.flatMap(item => Object.keys(item.byPatientType))));
+                        const colors: Record<string, { bg: string; border: string }> = {
+                          Student: { bg: '#3B82F6', border: '#2563EB' },
+                          Employee: { bg: '#10B981', border: '#059669' },
+                          Dependent: { bg: '#8B5CF6', border: '#7C3AED' },
+                          OPD: { bg: '#F59E0B', border: '#D97706' },
+                          Unknown: { bg: '#9CA3AF', border: '#6B7280' }
+                        };
+
+                        return patientTypes.map(patientType => ({
+                          label: patientType,
+                          data: topDiagnoses.map(item => item.byPatientType[patientType] || 0),
+                          backgroundColor: (colors[patientType] || colors.Unknown).bg,
+                          borderColor: (colors[patientType] || colors.Unknown).border,
+                          borderWidth: 1,
+                          borderRadius: 4
+                        }));
+                      })()
+                    }}
+                    options={{
+                      responsive: true,
+                      maintainAspectRatio: false,
+                      indexAxis: 'y' as const,
+                      interaction: {
+                        mode: 'index' as const,
+                        intersect: false
+                      },
+                      plugins: {
+                        legend: {
+                          position: 'bottom' as const,
+                          labels: {
+                            padding: 15,
+                            font: { size: 12, weight: 'bold' as const }
+                          }
+                        },
+                        tooltip: {
+                          backgroundColor: 'rgba(0, 0, 0, 0.8)',
+                          padding: 12,
+                          cornerRadius: 8,
+                          titleFont: { size: 14, weight: 'bold' as const },
+                          bodyFont: { size: 12 },
+                          callbacks: {
+                            title: (items) => {
+                              const item = topDiagnoses[items[0]?.dataIndex];
+                              return item ? `${item.code} ${item.description} (${item.count})` : '';
+                            }
+                          }
+                        }
+                      },
+                      scales: {
+                        x: {
+                          stacked: true,
+                          beginAtZero: true,
+                          grid: { color: 'rgba(0, 0, 0, 0.05)' },
+                          ticks: {
+                            font: { size: 11 },
+                            stepSize: 1
+                          }
+                        },
+                        y: {
+                          stacked: true,
+                          grid: { display: false },
+                          ticks: { font: { size: 11 } }
+                        }
+                      },
+                      animation: {
+                        duration: 750,
+                        easing: 'easeInOutQuart' as const
+                      }
+                    }}
+                  />
+                )}
+              </div>
+            </div>
+          )}
+
         </div>
+
+        <SurveillanceFlagModal
+          flag={selectedSurveillanceFlag}
+          onClose={() => setSelectedSurveillanceFlag(null)}
+        />
       </div>
     );
   };
@@ -0,0 +1,235 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import './HealthStatisticsPage.css';
+import './PagesStyles.css';
+import {
+  healthStatisticsService,
+  buildStatisticsTables,
+  formatStatisticsPeriod,
+  type HealthStatisticsReport
+} from '../../services/healthStatisticsService';
+import { toDateKey } from '../../services/appointmentService';
+import { exportService } from '../../services/exportService';
+
+type PeriodPreset = 'this_month' | 'last_month' | 'this_year' | 'last_year' | 'custom';
+
+const PERIOD_PRESET_LABELS: Record<PeriodPreset, string> = {
+  this_month: 'This Month',
+  last_month: 'Last Month',
+  this_year: 'This Year',
+  last_year: 'Last Year',
+  custom: 'Custom Range'
+};
+
+// First and last day of a preset period, relative to today
+const getPresetRange = (preset: Exclude<PeriodPreset, 'custom'>): { from: string; to: string } => {
+  const today = new Date();
+  const year = today.getFullYear();
+  const month = today.getMonth();
+  switch (preset) {
+    case 'this_month':
+      return { from: toDateKey(new Date(year, month, 1)), to: toDateKey(new Date(year, month + 1, 0)) };
+    case 'last_month':
+      return { from: toDateKey(new Date(year, month - 1, 1)), to: toDateKey(new Date(year, month, 0)) };
+    case 'this_year':
+      return { from: toDateKey(new Date(year, 0, 1)), to: toDateKey(new Date(year, 11, 31)) };
+    case 'last_year':
+      return { from: toDateKey(new Date(year - 1, 0, 1)), to: toDateKey(new Date(year - 1, 11, 31)) };
+  }
+};
+
+const HealthStatisticsPage: React.FC = () => {
+  const [preset, setPreset] = useState<PeriodPreset>('last_month');
+  const [fromDate, setFromDate] = useState(() => getPresetRange('last_month').from);
+  const [toDate, setToDate] = useState(() => getPresetRange('last_month').to);
+  const [report, setReport] = useState<HealthStatisticsReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setReport(await healthStatisticsService.getHealthStatistics(fromDate, toDate));
+    } catch (error: any) {
+      console.error('Error building health statistics:', error);
+      setError(error.message || 'Failed to build health statistics');
+      setReport(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [fromDate, toDate]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const tables = useMemo(() => (report ? buildStatisticsTables(report) : []), [report]);
+
+  const handlePresetChange = (value: PeriodPreset) => {
+    setPreset(value);
+    if (value !== 'custom') {
+      const range = getPresetRange(value);
+      setFromDate(range.from);
+      setToDate(range.to);
+    }
+  };
+
+  const handleExport = async (format: 'excel' | 'pdf' | 'docx') => {
+    if (!report) return;
+
+    try {
+      setExporting(true);
+      await exportService.exportHealthStatistics(report, format);
+    } catch (error: any) {
+      console.error('Error exporting health statistics:', error);
+      setError('Failed to export the health statistics report');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="page-container">
+      <div className="page-header">
+        <h1 className="page-title">Health Statistics</h1>
+        <p className="page-subtitle">Morbidity census and periodic statistics for submission to the university administration</p>
+      </div>
+
+      <div className="stats-grid">
+        <div className="stat-card">
+          <div className="stat-content">
+            <div className="stat-value">{report?.summary.consultations ?? '-'}</div>
+            <div className="stat-title">Consultations</div>
+            <div className="stat-change neutral">
+              {report ? `${report.summary.medical} medical, ${report.summary.dental} dental` : 'In the period'}
+            </div>
+          </div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-content">
+            <div className="stat-value">{report?.summary.patients_seen ?? '-'}</div>
+            <div className="stat-title">Patients Seen</div>
+            <div className="stat-change positive">
+              {report ? `${report.summary.new_patients} newly registered` : 'In the period'}
+            </div>
+          </div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-content">
+            <div className="stat-value">{report?.summary.referrals ?? '-'}</div>
+            <div className="stat-title">Referrals</div>
+            <div className="stat-change neutral">To hospitals / specialists</div>
+          </div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-content">
+            <div className="stat-value">{report?.summary.injuries ?? '-'}</div>
+            <div className="stat-title">Injuries</div>
+            <div className={`stat-change ${report && report.summary.injuries > 0 ? 'warning' : 'positive'}`}>
+              Consultations with injuries
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+
+      <div className="filters-section">
+        <div className="filters-row">
+          <div className="filter-group">
+            <label>Period:</label>
+            <select value={preset} onChange={(e) => handlePresetChange(e.target.value as PeriodPreset)}>
+              {(Object.keys(PERIOD_PRESET_LABELS) as PeriodPreset[]).map(value => (
+                <option key={value} value={value}>{PERIOD_PRESET_LABELS[value]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="filter-group">
+            <label>From:</label>
+            <input
+              type="date"
+              value={fromDate}
+              max={toDate}
+              onChange={(e) => {
+                setPreset('custom');
+                setFromDate(e.target.value);
+              }}
+            />
+          </div>
+
+          <div className="filter-group">
+            <label>To:</label>
+            <input
+              type="date"
+              value={toDate}
+              min={fromDate}
+              onChange={(e) => {
+                setPreset('custom');
+                setToDate(e.target.value);
+              }}
+            />
+          </div>
+
+          <div className="statistics-export-buttons">
+            <button className="btn-secondary" onClick={() => handleExport('excel')} disabled={!report || exporting}>
+              Export Excel
+            </button>
+            <button className="btn-secondary" onClick={() => handleExport('pdf')} disabled={!report || exporting}>
+              Export PDF
+            </button>
+            <button className="btn-secondary" onClick={() => handleExport('docx')} disabled={!report || exporting}>
+              Export Word
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="loading-message">Building health statistics...</div>
+      ) : report && (
+        <div className="statistics-report">
+          <div className="statistics-report-header">
+            <h2>Health Statistics Report</h2>
+            <p>Period: {formatStatisticsPeriod(report.from, report.to)}</p>
+          </div>
+          {tables.map(table => (
+            <div key={table.title} className="statistics-section">
+              <h3>{table.title}</h3>
+              <div className="data-table">
+                <table>
+                  <thead>
+                    <tr>
+                      {table.headers.map(heading => <th key={heading}>{heading}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {table.rows.length === 0 ? (
+                      <tr>
+                        <td colSpan={table.headers.length} className="statistics-empty">None in this period</td>
+                      </tr>
+                    ) : (
+                      table.rows.map((row, index) => (
+                        <tr key={index}>
+                          {row.map((value, column) => <td key={column}>{value}</td>)}
+                        </tr>
+                      ))
+                    )}
+                    {table.total && table.rows.length > 0 && (
+                      <tr className="statistics-total">
+                        {table.total.map((value, column) => <td key={column}>{value}</td>)}
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HealthStatisticsPage;
@@ -0,0 +1,316 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import './IncidentsPage.css';
+import './PagesStyles.css';
+import {
+  incidentReportService,
+  buildInjuryHotspots,
+  getInjuryLabels,
+  type IncidentReport
+} from '../../services/incidentReportService';
+import { toDateKey } from '../../services/appointmentService';
+import { exportService } from '../../services/exportService';
+import {
+  CAMPUS_LOCATIONS,
+  INCIDENT_DISPOSITION_LABELS,
+  INJURY_MECHANISM_LABELS,
+  type IncidentDisposition,
+  type InjuryMechanism
+} from '../../constants/incidents';
+
+const IncidentsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [reports, setReports] = useState<IncidentReport[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [fromDate, setFromDate] = useState(() => toDateKey(new Date(new Date().getFullYear(), 0, 1)));
+  const [toDate, setToDate] = useState(() => toDateKey(new Date()));
+  const [locationFilter, setLocationFilter] = useState('');
+  const [mechanismFilter, setMechanismFilter] = useState<InjuryMechanism | ''>('');
+  const [dispositionFilter, setDispositionFilter] = useState<IncidentDisposition | ''>('');
+
+  const fetchReports = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await incidentReportService.getIncidentReports({
+        from: fromDate || undefined,
+        to: toDate || undefined,
+        poi: locationFilter || undefined,
+        mechanism: mechanismFilter || undefined,
+        disposition: dispositionFilter || undefined
+      });
+      setReports(data);
+    } catch (error: any) {
+      console.error('Error fetching incident reports:', error);
+      setError(error.message || 'Failed to load incident reports');
+    } finally {
+      setLoading(false);
+    }
+  }, [fromDate, toDate, locationFilter, mechanismFilter, dispositionFilter]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  const filteredReports = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return reports;
+    return reports.filter(report =>
+      [
+        report.incident_number,
+        report.patient?.first_name,
+        report.patient?.last_name,
+        report.patient?.patient_id,
+        report.noi,
+        report.poi_details,
+        report.mechanism_details
+      ].some(value => value?.toLowerCase().includes(term))
+    );
+  }, [reports, searchTerm]);
+
+  const hotspots = useMemo(() => buildInjuryHotspots(filteredReports), [filteredReports]);
+
+  const stats = useMemo(() => ({
+    total: filteredReports.length,
+    referred: filteredReports.filter(report =>
+      report.disposition === 'referred' || report.disposition === 'hospitalized'
+    ).length,
+    fractures: filteredReports.filter(report => report.injury_fracture).length
+  }), [filteredReports]);
+
+  const handlePrintHotspots = async () => {
+    try {
+      await exportService.exportInjuryHotspotsToPDF(hotspots, fromDate, toDate);
+    } catch (error: any) {
+      console.error('Error printing injury hotspots:', error);
+      setError('Failed to generate the injury hotspot report');
+    }
+  };
+
+  return (
+    <div className="page-container">
+      <div className="page-header">
+        <h1 className="page-title">Incident Register</h1>
+        <p className="page-subtitle">Injury and incident reports filed from consultations, and where on campus they happen</p>
+      </div>
+
+      <div className="stats-grid">
+        <div className="stat-card">
+          <div className="stat-content">
+            <div className="stat-value">{stats.total}</div>
+            <div className="stat-title">Incidents</div>
+            <div className="stat-change neutral">In the selected period</div>
+          </div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-content">
+            <div className="stat-value">{stats.referred}</div>
+            <div className="stat-title">Referred / Hospital</div>
+            <div className={`stat-change ${stats.referred > 0 ? 'warning' : 'positive'}`}>Needed outside care</div>
+          </div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-content">
+            <div className="stat-value">{stats.fractures}</div>
+            <div className="stat-title">Fractures</div>
+            <div className={`stat-change ${stats.fractures > 0 ? 'warning' : 'positive'}`}>Suspected or confirmed</div>
+          </div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-content">
+            <div className="stat-value">{hotspots[0]?.poi || '-'}</div>
+            <div className="stat-title">Top Hotspot</div>
+            <div className="stat-change neutral">
+              {hotspots[0] ? `${hotspots[0].total} incident${hotspots[0].total === 1 ? '' : 's'}` : 'No incidents'}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+
+      <div className="filters-section">
+        <div className="filters-row">
+          <div className="search-box-large">
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <circle cx="11" cy="11" r="8"/>
+              <path d="m21 21-4.35-4.35"/>
+            </svg>
+            <input
+              type="text"
+              placeholder="Search by incident no., patient or injury..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+          </div>
+
+          <div className="filter-group">
+            <label>From:</label>
+            <input type="date" value={fromDate} max={toDate} onChange={(e) => setFromDate(e.target.value)} />
+          </div>
+
+          <div className="filter-group">
+            <label>To:</label>
+            <input type="date" value={toDate} min={fromDate} onChange={(e) => setToDate(e.target.value)} />
+          </div>
+
+          <div className="filter-group">
+            <label>Location:</label>
+            <select value={locationFilter} onChange={(e) => setLocationFilter(e.target.value)}>
+              <option value="">All Locations</option>
+              {CAMPUS_LOCATIONS.map(location => (
+                <option key={location} value={location}>{location}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="filter-group">
+            <label>Mechanism:</label>
+            <select value={mechanismFilter} onChange={(e) => setMechanismFilter(e.target.value as InjuryMechanism | '')}>
+              <option value="">All Mechanisms</option>
+              {(Object.keys(INJURY_MECHANISM_LABELS) as InjuryMechanism[]).map(mechanism => (
+                <option key={mechanism} value={mechanism}>{INJURY_MECHANISM_LABELS[mechanism]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="filter-group">
+            <label>Disposition:</label>
+            <select value={dispositionFilter} onChange={(e) => setDispositionFilter(e.target.value as IncidentDisposition | '')}>
+              <option value="">All Dispositions</option>
+              {(Object.keys(INCIDENT_DISPOSITION_LABELS) as IncidentDisposition[]).map(disposition => (
+                <option key={disposition} value={disposition}>{INCIDENT_DISPOSITION_LABELS[disposition]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      <div className="incident-report-section">
+        <div className="incident-report-header">
+          <h3>Campus Injury Hotspots</h3>
+          <button className="btn-secondary" onClick={handlePrintHotspots} disabled={hotspots.length === 0}>
+            Print PDF
+          </button>
+        </div>
+        {loading ? (
+          <div className="loading-message">Loading incidents...</div>
+        ) : hotspots.length === 0 ? (
+          <div className="incident-empty">No incidents in this period</div>
+        ) : (
+          <div className="data-table">
+            <table>
+              <thead>
+                <tr>
+                  <th>Place of Injury</th>
+                  <th>Incidents</th>
+                  <th>Referred / Hospital</th>
+                  <th>Most Common Mechanism</th>
+                  <th>Injuries</th>
+                  <th>Last Incident</th>
+                </tr>
+              </thead>
+              <tbody>
+                {hotspots.map(hotspot => (
+                  <tr key={hotspot.poi}>
+                    <td>
+                      <button className="incident-hotspot-link" onClick={() => setLocationFilter(hotspot.poi)} title="Show only this location">
+                        {hotspot.poi}
+                      </button>
+                    </td>
+                    <td>
+                      <div className="incident-hotspot-bar">
+                        <span style={{ width: `${Math.round((hotspot.total / hotspots[0].total) * 80)}px` }} />
+                        <strong>{hotspot.total}</strong>
+                      </div>
+                    </td>
+                    <td>{hotspot.serious_count}</td>
+                    <td>{INJURY_MECHANISM_LABELS[hotspot.top_mechanism]} ({hotspot.top_mechanism_count})</td>
+                    <td>
+                      {Object.entries(hotspot.injury_counts).map(([label, count]) => `${label} ${count}`).join(', ') || '-'}
+                    </td>
+                    <td>{new Date(`${hotspot.last_incident_date}T00:00:00`).toLocaleDateString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="incident-report-section">
+        <div className="incident-report-header">
+          <h3>Incident Register ({filteredReports.length})</h3>
+        </div>
+        {loading ? (
+          <div className="loading-message">Loading incidents...</div>
+        ) : filteredReports.length === 0 ? (
+          <div className="incident-empty">No incident reports match the filters</div>
+        ) : (
+          <div className="data-table">
+            <table>
+              <thead>
+                <tr>
+                  <th>Incident No.</th>
+                  <th>Date / Time</th>
+                  <th>Patient</th>
+                  <th>Place of Injury</th>
+                  <th>Mechanism</th>
+                  <th>Injury</th>
+                  <th>Disposition</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredReports.map(report => (
+                  <tr key={report.id}>
+                    <td>{report.incident_number}</td>
+                    <td>
+                      {new Date(`${report.doi}T00:00:00`).toLocaleDateString()}
+                      {report.toi ? ` ${report.toi.slice(0, 5)}` : ''}
+                    </td>
+                    <td>
+                      {report.patient?.first_name} {report.patient?.last_name}
+                      <div className="incident-cell-hint">
+                        {report.patient?.patient_type}
+                        {report.patient?.course || report.patient?.department ? ` · ${report.patient?.course || report.patient?.department}` : ''}
+                      </div>
+                    </td>
+                    <td>
+                      {report.poi}
+                      {report.poi_details && <div className="incident-cell-hint">{report.poi_details}</div>}
+                    </td>
+                    <td>{INJURY_MECHANISM_LABELS[report.mechanism]}</td>
+                    <td>
+                      {report.noi}
+                      {getInjuryLabels(report).length > 0 && (
+                        <div className="incident-cell-hint">{getInjuryLabels(report).join(', ')}</div>
+                      )}
+                    </td>
+                    <td>
+                      <span className={`incident-disposition ${report.disposition}`}>
+                        {INCIDENT_DISPOSITION_LABELS[report.disposition]}
+                      </span>
+                    </td>
+                    <td>
+                      <button
+                        className="btn-secondary btn-sm"
+                        onClick={() => navigate(`/patient-monitoring?consultationId=${report.consultation_id}`)}
+                      >
+                        Open Case
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default IncidentsPage;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
 import { inventoryService, activityService } from '../../services/supabaseService';
+import { useBarcodeScanner } from '../../hooks/useBarcodeScanner';
 import './InventoryPage.css';
 import './PagesStyles.css';
 import ViewInventoryItemModal from '../Modals/ViewInventoryItemModal';
@@ -8,6 +9,14 @@ import EditInventoryItemModal from '../Modals/EditInventoryItemModal';
 import ArchiveInventoryItemModal from '../Modals/ArchiveInventoryItemModal';
 import AddInventoryItemModal from '../Modals/AddInventoryItemModal';
 import ExportInventoryModal from '../Modals/ExportInventoryModal';
+import InventoryBatchesModal from '../Modals/InventoryBatchesModal';
+import StockMovementsModal from '../Modals/StockMovementsModal';
+import PurchaseRequisitionsModal from '../Modals/PurchaseRequisitionsModal';
+import EquipmentMaintenanceModal from '../Modals/EquipmentMaintenanceModal';
+import PrintLabelsModal from '../Modals/PrintLabelsModal';
+import ScannedItemModal from '../Modals/ScannedItemModal';
+import ImportInventoryModal from '../Modals/ImportInventoryModal';
+import StockCountModal from '../Modals/StockCountModal';
 
 type SortDirection = 'asc' | 'desc';
 
@@ -23,6 +32,16 @@ const InventoryPage: React.FC = () => {
   const [isArchiveModalOpen, setIsArchiveModalOpen] = useState(false);
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isExportModalOpen, setIsExportModalOpen] = useState<boolean | 'multi'>(false);
+  const [isBatchesModalOpen, setIsBatchesModalOpen] = useState(false);
+  const [isMovementsModalOpen, setIsMovementsModalOpen] = useState(false);
+  const [isRequisitionsModalOpen, setIsRequisitionsModalOpen] = useState(false);
+  const [isMaintenanceModalOpen, setIsMaintenanceModalOpen] = useState(false);
+  const [isLabelsModalOpen, setIsLabelsModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isStockCountModalOpen, setIsStockCountModalOpen] = useState(false);
+  const [isScanMode, setIsScanMode] = useState(false);
+  const [scannedItem, setScannedItem] = useState<{ item: any; code: string } | null>(null);
+  const [scanMessage, setScanMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [sortColumn, setSortColumn] = useState<string | null>(null);
@@ -215,6 +234,41 @@ const InventoryPage: React.FC = () => {
     }
   }, [highlightedItemId, inventoryData, loading, location.search]);
 
+  // Keyboard-wedge scanner input while scan mode is on; prefers the item in the current department
+  const handleScan = useCallback(async (code: string) => {
+    try {
+      setScanMessage(null);
+      const matches = await inventoryService.getItemsByCode(code);
+      if (matches.length === 0) {
+        setScanMessage({ type: 'error', text: `No inventory item has the code "${code}".` });
+        return;
+      }
+      const item = matches.find((match: any) => match.department === activeDepartment) || matches[0];
+      setScannedItem({ item, code });
+    } catch (error: any) {
+      console.error('Error looking up scanned code:', error);
+      setScanMessage({ type: 'error', text: `Failed to look up "${code}": ${error.message}` });
+    }
+  }, [activeDepartment]);
+
+  useBarcodeScanner(handleScan, { enabled: isScanMode && !scannedItem && !isStockCountModalOpen });
+
+  const showScannedItemInList = (item: any) => {
+    setScannedItem(null);
+    setActiveDepartment(item.department);
+    setActiveTab(getTabFromClassification(item.classification));
+    setSearchQuery(item.code || item.generic_name);
+    setStatusFilter('all');
+    setCurrentPage(1);
+    setHighlightedItemId(item.id);
+  };
+
+  const handleScannedStockChanged = (message: string) => {
+    setScannedItem(null);
+    setScanMessage({ type: 'success', text: message });
+    fetchInventoryData();
+  };
+
   const getSingularClassification = (tab: string) => {
     switch (tab) {
       case 'medicines': return 'Medicine';
@@ -228,7 +282,7 @@ const InventoryPage: React.FC = () => {
   const sortedAndFilteredItems = useMemo(() => {
     let items = inventoryData.filter(item => {
       const searchLower = searchQuery.toLowerCase();
-      const nameMatch = ((item.generic_name || '').toLowerCase().includes(searchLower) || (item.brand_name || '').toLowerCase().includes(searchLower));
+      const nameMatch = ((item.generic_name || '').toLowerCase().includes(searchLower) || (item.brand_name || '').toLowerCase().includes(searchLower) || (item.code || '').toLowerCase().includes(searchLower));
       const statusMatch = statusFilter === 'all' || item.status === statusFilter;
       return nameMatch && statusMatch;
     });
@@ -512,6 +566,29 @@ const InventoryPage: React.FC = () => {
                     <circle cx="12" cy="12" r="3" />
                   </svg>
                 </button>
+                {activeTab !== 'equipment' && (
+                  <button className="action-btn view" title="Batches" onClick={(e) => { e.stopPropagation(); setSelectedItem(item); setIsBatchesModalOpen(true); }}>
+                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <polygon points="12 2 2 7 12 12 22 7 12 2" />
+                      <polyline points="2 17 12 22 22 17" />
+                      <polyline points="2 12 12 17 22 12" />
+                    </svg>
+                  </button>
+                )}
+                {activeTab === 'equipment' && (
+                  <button className="action-btn view" title="Maintenance" onClick={(e) => { e.stopPropagation(); setSelectedItem(item); setIsMaintenanceModalOpen(true); }}>
+                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <path d="M14.7 6.3a1 1 0 0 0 0 1.4l1.6 1.6a1 1 0 0 0 1.4 0l3.77-3.77a6 6 0 0 1-7.94 7.94l-6.91 6.91a2.12 2.12 0 0 1-3-3l6.91-6.91a6 6 0 0 1 7.94-7.94l-3.76 3.76z" />
+                    </svg>
+                  </button>
+                )}
+                <button className="action-btn view" title="Stock History" onClick={(e) => { e.stopPropagation(); setSelectedItem(item); setIsMovementsModalOpen(true); }}>
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M3 3v5h5" />
+                    <path d="M3.05 13A9 9 0 1 0 6 5.3L3 8" />
+                    <path d="M12 7v5l4 2" />
+                  </svg>
+                </button>
                 <button className="action-btn edit" title="Edit" onClick={(e) => { e.stopPropagation(); setSelectedItem(item); setIsEditModalOpen(true); }}>
                   <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                     <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7" />
@@ -664,6 +741,28 @@ const InventoryPage: React.FC = () => {
               </div>
 
               <div className="action-buttons">
+                <button
+                  className={`btn-secondary ${isScanMode ? 'scan-mode-active' : ''}`}
+                  onClick={() => { setIsScanMode(prev => !prev); setScanMessage(null); }}
+                  title="Jump to an item by scanning its barcode or QR label"
+                >
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M3 7V5a2 2 0 0 1 2-2h2"/>
+                    <path d="M17 3h2a2 2 0 0 1 2 2v2"/>
+                    <path d="M21 17v2a2 2 0 0 1-2 2h-2"/>
+                    <path d="M7 21H5a2 2 0 0 1-2-2v-2"/>
+                    <line x1="7" y1="12" x2="17" y2="12"/>
+                  </svg>
+                  {isScanMode ? 'Scanning...' : 'Scan Mode'}
+                </button>
+                <button className="btn-secondary" onClick={() => setIsLabelsModalOpen(true)}>
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <polyline points="6 9 6 2 18 2 18 9"/>
+                    <path d="M6 18H4a2 2 0 0 1-2-2v-5a2 2 0 0 1 2-2h16a2 2 0 0 1 2 2v5a2 2 0 0 1-2 2h-2"/>
+                    <rect x="6" y="14" width="12" height="8"/>
+                  </svg>
+                  Print Labels
+                </button>
                 <button className="btn-secondary" onClick={() => setIsExportModalOpen(true)}>
                   <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                     <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/>
@@ -684,6 +783,29 @@ const InventoryPage: React.FC = () => {
                   </svg>
                   Export Multi-Table
                 </button>
+                <button className="btn-secondary" onClick={() => setIsImportModalOpen(true)}>
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/>
+                    <polyline points="17,8 12,3 7,8"/>
+                    <line x1="12" y1="3" x2="12" y2="15"/>
+                  </svg>
+                  Import
+                </button>
+                <button className="btn-secondary" onClick={() => setIsStockCountModalOpen(true)}>
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M9 11l3 3L22 4"/>
+                    <path d="M21 12v7a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11"/>
+                  </svg>
+                  Stock Count
+                </button>
+                <button className="btn-secondary" onClick={() => setIsRequisitionsModalOpen(true)}>
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <circle cx="9" cy="21" r="1"/>
+                    <circle cx="20" cy="21" r="1"/>
+                    <path d="M1 1h4l2.68 13.39a2 2 0 0 0 2 1.61h9.72a2 2 0 0 0 2-1.61L23 6H6"/>
+                  </svg>
+                  Reorder
+                </button>
                 <button className="btn-primary" onClick={() => setIsAddModalOpen(true)}>
                   Add {getSingularClassification(activeTab)}
                 </button>
@@ -691,6 +813,13 @@ const InventoryPage: React.FC = () => {
             </div>
           </div>
 
+          {isScanMode && (
+            <div className={`scan-mode-banner ${scanMessage?.type || ''}`}>
+              <span>{scanMessage ? scanMessage.text : 'Scan mode is on. Scan an item label to dispense or adjust it.'}</span>
+              <button onClick={() => { setIsScanMode(false); setScanMessage(null); }}>Turn off</button>
+            </div>
+          )}
+
           {loading ? (
             <div className="loading-message">Loading inventory data...</div>
           ) : error ? (
@@ -727,6 +856,48 @@ const InventoryPage: React.FC = () => {
 
       {isViewModalOpen && <ViewInventoryItemModal item={selectedItem} onClose={() => setIsViewModalOpen(false)} />}
       {isEditModalOpen && <EditInventoryItemModal item={selectedItem} onClose={() => setIsEditModalOpen(false)} onSave={handleSaveItem} classifications={classifications} />}
+      {isBatchesModalOpen && <InventoryBatchesModal
+        item={selectedItem}
+        onClose={() => setIsBatchesModalOpen(false)}
+        onBatchesChanged={fetchInventoryData}
+      />}
+      {isRequisitionsModalOpen && <PurchaseRequisitionsModal
+        onClose={() => setIsRequisitionsModalOpen(false)}
+        onStockReceived={fetchInventoryData}
+      />}
+      {isMovementsModalOpen && <StockMovementsModal
+        item={selectedItem}
+        onClose={() => setIsMovementsModalOpen(false)}
+        onStockChanged={fetchInventoryData}
+      />}
+      {isMaintenanceModalOpen && <EquipmentMaintenanceModal
+        item={selectedItem}
+        onClose={() => setIsMaintenanceModalOpen(false)}
+        onMaintenanceChanged={fetchInventoryData}
+      />}
+      {scannedItem && <ScannedItemModal
+        item={scannedItem.item}
+        scannedCode={scannedItem.code}
+        onClose={() => setScannedItem(null)}
+        onShowInList={showScannedItemInList}
+        onStockChanged={handleScannedStockChanged}
+      />}
+      {isLabelsModalOpen && <PrintLabelsModal
+        items={sortedAndFilteredItems}
+        onClose={() => setIsLabelsModalOpen(false)}
+      />}
+      {isImportModalOpen && <ImportInventoryModal
+        onClose={() => setIsImportModalOpen(false)}
+        onImported={fetchInventoryData}
+        department={activeDepartment}
+        classification={getClassificationFromTab(activeTab)}
+      />}
+      {isStockCountModalOpen && <StockCountModal
+        onClose={() => setIsStockCountModalOpen(false)}
+        onStockAdjusted={fetchInventoryData}
+        department={activeDepartment}
+        classification={getClassificationFromTab(activeTab)}
+      />}
       {isArchiveModalOpen && <ArchiveInventoryItemModal item={selectedItem} onClose={() => setIsArchiveModalOpen(false)} onConfirm={handleArchiveItem} />}
       {isAddModalOpen && <AddInventoryItemModal
         onClose={() => setIsAddModalOpen(false)}
@@ -9,6 +9,26 @@ import {
   type PatientStats,
   type VitalSigns
 } from '../../services/supabaseService';
+import { earlyWarningService } from '../../services/earlyWarningService';
+import {
+  referralService,
+  REFERRAL_STATUS_LABELS,
+  REFERRAL_URGENCY_LABELS,
+  type Referral
+} from '../../services/referralService';
+import { immunizationService, type ImmunizationComplianceReport } from '../../services/immunizationService';
+import { exportService } from '../../services/exportService';
+import { REQUIRED_VACCINES_BY_COURSE } from '../../constants/vaccines';
+import {
+  physicalExamService,
+  getSchoolYear,
+  getRecentSchoolYears,
+  type ClearanceReport,
+  type ClearanceReportScope
+} from '../../services/physicalExamService';
+import { CLEARANCE_STATUS_LABELS } from '../../constants/physicalExam';
+import { COURSE_OPTIONS, YEAR_LEVEL_OPTIONS } from '../../constants/patientOptions';
+import EarlyWarningBadge from '../Common/EarlyWarningBadge';
 import AddPatientModal from '../Modals/PatientModals/AddPatientModal';
 import ViewPatientModal from '../Modals/PatientModals/ViewPatientModal';
 import EditPatientModal from '../Modals/PatientModals/EditPatientModal';
@@ -18,6 +38,11 @@ import ConsultationModal from '../Modals/ConsultationModals/ConsultationModal';
 import VitalSignsModal from '../Modals/ConsultationModals/VitalSignsModal';
 import GlasgowComaScaleModal from '../Modals/ConsultationModals/GlasgowComaScaleModal';
 import ConsultationAttachmentsModal from '../Modals/ConsultationModals/ConsultationAttachmentsModal';
+import ReferralStatusModal, { type ReferralStatusAction } from '../Modals/ConsultationModals/ReferralStatusModal';
+
+const EMPLOYEES_SCOPE = '__employees__';
+const CLEARANCE_COURSES = Array.from(new Set(COURSE_OPTIONS.filter(course => course !== 'Other')));
+const CLEARANCE_YEAR_LEVELS = [...YEAR_LEVEL_OPTIONS.college, ...YEAR_LEVEL_OPTIONS.highschool];
 
 const PatientMonitoringPage: React.FC = () => {
   const [activeTab, setActiveTab] = useState('overview');
@@ -28,6 +53,17 @@ const PatientMonitoringPage: React.FC = () => {
   const navigate = useNavigate();
   const [patients, setPatients] = useState<Patient[]>([]);
   const [consultations, setConsultations] = useState<Consultation[]>([]);
+  const [earlyWarningScores, setEarlyWarningScores] = useState<Record<number, VitalSigns>>({});
+  const [openReferrals, setOpenReferrals] = useState<Referral[]>([]);
+  const [immunizationCourse, setImmunizationCourse] = useState(Object.keys(REQUIRED_VACCINES_BY_COURSE)[0] || '');
+  const [immunizationReport, setImmunizationReport] = useState<ImmunizationComplianceReport | null>(null);
+  const [immunizationReportLoading, setImmunizationReportLoading] = useState(false);
+  // Course name, or EMPLOYEES_SCOPE for the employee clearance list
+  const [clearanceGroup, setClearanceGroup] = useState(CLEARANCE_COURSES[0]);
+  const [clearanceYearLevel, setClearanceYearLevel] = useState('');
+  const [clearanceSchoolYear, setClearanceSchoolYear] = useState(getSchoolYear());
+  const [clearanceReport, setClearanceReport] = useState<ClearanceReport | null>(null);
+  const [clearanceReportLoading, setClearanceReportLoading] = useState(false);
   const [vitalSignsData, setVitalSignsData] = useState<(VitalSigns & { consultation: Consultation; patient?: Patient })[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -50,6 +86,7 @@ const PatientMonitoringPage: React.FC = () => {
   const [isGlasgowComaScaleModalOpen, setIsGlasgowComaScaleModalOpen] = useState(false);
   const [isAttachmentsModalOpen, setIsAttachmentsModalOpen] = useState(false);
   const [isTutorialOpen, setIsTutorialOpen] = useState(false);
+  const [referralStatusAction, setReferralStatusAction] = useState<{ referral: Referral; action: ReferralStatusAction } | null>(null);
   const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null);
   const [selectedConsultation, setSelectedConsultation] = useState<Consultation | null>(null);
 
@@ -73,6 +110,10 @@ const PatientMonitoringPage: React.FC = () => {
       setError(null);
       const data = await patientMonitoringService.getConsultations(true);
       setConsultations(data);
+
+      // Latest early warning score of each active consultation for the card badges
+      const activeIds = data.filter(c => c.status === 'active').map(c => c.id);
+      setEarlyWarningScores(await earlyWarningService.getLatestScores(activeIds));
     } catch (error: any) {
       console.error('Error fetching consultations:', error);
       setError(`Failed to load consultations: ${error.message}`);
@@ -81,6 +122,45 @@ const PatientMonitoringPage: React.FC = () => {
     }
   }, []);
 
+  // Referrals still waiting on an outside facility, so follow-ups are not lost
+  const fetchOpenReferrals = useCallback(async () => {
+    try {
+      setOpenReferrals(await referralService.getOpenReferrals());
+    } catch (error: any) {
+      console.error('Error fetching open referrals:', error);
+    }
+  }, []);
+
+  const fetchImmunizationReport = useCallback(async () => {
+    if (!immunizationCourse) return;
+
+    try {
+      setImmunizationReportLoading(true);
+      setImmunizationReport(await immunizationService.getCourseComplianceReport(immunizationCourse));
+    } catch (error: any) {
+      console.error('Error fetching immunization report:', error);
+      setError(`Failed to load immunization report: ${error.message}`);
+    } finally {
+      setImmunizationReportLoading(false);
+    }
+  }, [immunizationCourse]);
+
+  const fetchClearanceReport = useCallback(async () => {
+    const scope: ClearanceReportScope = clearanceGroup === EMPLOYEES_SCOPE
+      ? { patient_type: 'Employee' }
+      : { patient_type: 'Student', course: clearanceGroup, year_level: clearanceYearLevel ? Number(clearanceYearLevel) : undefined };
+
+    try {
+      setClearanceReportLoading(true);
+      setClearanceReport(await physicalExamService.getClearanceReport(scope, clearanceSchoolYear));
+    } catch (error: any) {
+      console.error('Error fetching clearance report:', error);
+      setError(`Failed to load clearance report: ${error.message}`);
+    } finally {
+      setClearanceReportLoading(false);
+    }
+  }, [clearanceGroup, clearanceYearLevel, clearanceSchoolYear]);
+
   const fetchVitalSigns = useCallback(async () => {
     try {
       setLoading(true);
@@ -217,10 +297,45 @@ const PatientMonitoringPage: React.FC = () => {
   useEffect(() => {
     fetchPatients();
     fetchConsultations();
+    fetchOpenReferrals();
     if (activeTab === 'vitals') {
       fetchVitalSigns();
     }
-  }, [fetchPatients, fetchConsultations, fetchVitalSigns, activeTab]);
+  }, [fetchPatients, fetchConsultations, fetchOpenReferrals, fetchVitalSigns, activeTab]);
+
+  useEffect(() => {
+    if (activeTab === 'immunizations') {
+      fetchImmunizationReport();
+    }
+  }, [fetchImmunizationReport, activeTab]);
+
+  useEffect(() => {
+    if (activeTab === 'clearance') {
+      fetchClearanceReport();
+    }
+  }, [fetchClearanceReport, activeTab]);
+
+  const handlePrintClearanceReport = async () => {
+    if (!clearanceReport) return;
+
+    try {
+      await exportService.exportClearanceReportToPDF(clearanceReport);
+    } catch (error: any) {
+      console.error('Error printing clearance report:', error);
+      setError('Failed to generate the clearance report');
+    }
+  };
+
+  const handlePrintImmunizationReport = async () => {
+    if (!immunizationReport) return;
+
+    try {
+      await exportService.exportImmunizationComplianceToPDF(immunizationReport);
+    } catch (error: any) {
+      console.error('Error printing immunization report:', error);
+      setError('Failed to generate the immunization report');
+    }
+  };
 
   const stats = useMemo((): PatientStats => {
     const today = new Date().toISOString().split('T')[0];
@@ -364,6 +479,7 @@ const PatientMonitoringPage: React.FC = () => {
 
   const handleConsultationUpdated = (consultation: Consultation) => {
     fetchConsultations(); // Refresh consultations list
+    fetchOpenReferrals();
   };
 
   const handleConsultationCompleted = (consultation: Consultation) => {
@@ -375,8 +491,23 @@ const PatientMonitoringPage: React.FC = () => {
   const handleCloseConsultationModal = () => {
     setIsConsultationModalOpen(false);
     setSelectedConsultation(null);
+    fetchOpenReferrals(); // Referral status may have changed in the modal
   };
 
+  const handleOpenReferralConsultation = async (referral: Referral) => {
+    try {
+      const consultation = await patientMonitoringService.getConsultationById(referral.consultation_id);
+      if (consultation) {
+        handleOpenConsultation(consultation);
+      }
+    } catch (error: any) {
+      console.error('Error opening consultation:', error);
+      setError(`Failed to open consultation: ${error.message}`);
+    }
+  };
+
+  const daysSince = (date: string) => Math.floor((Date.now() - new Date(date).getTime()) / 86400000);
+
   // Vital Signs Modal Handlers
   const handleOpenVitalSignsModal = (consultation: Consultation) => {
     setSelectedConsultation(consultation);
@@ -728,6 +859,41 @@ const PatientMonitoringPage: React.FC = () => {
             </svg>
             Active Consultations
           </button>
+          <button
+            className={`tab-btn ${activeTab === 'referrals' ? 'active' : ''}`}
+            onClick={() => setActiveTab('referrals')}
+          >
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M5 12h14"/>
+              <path d="M12 5l7 7-7 7"/>
+            </svg>
+            Open Referrals ({openReferrals.length})
+          </button>
+          <button
+            className={`tab-btn ${activeTab === 'immunizations' ? 'active' : ''}`}
+            onClick={() => setActiveTab('immunizations')}
+          >
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="m18 2 4 4"/>
+              <path d="m17 7 3-3"/>
+              <path d="M19 9 8.7 19.3c-1 1-2.5 1-3.4 0l-.6-.6c-1-1-1-2.5 0-3.4L15 5"/>
+              <path d="m9 11 4 4"/>
+              <path d="m5 19-3 3"/>
+              <path d="m14 4 6 6"/>
+            </svg>
+            Immunizations
+          </button>
+          <button
+            className={`tab-btn ${activeTab === 'clearance' ? 'active' : ''}`}
+            onClick={() => setActiveTab('clearance')}
+          >
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M16 4h2a2 2 0 0 1 2 2v14a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2V6a2 2 0 0 1 2-2h2"/>
+              <rect x="8" y="2" width="8" height="4" rx="1" ry="1"/>
+              <polyline points="9 14 11 16 15 12"/>
+            </svg>
+            Medical Clearance
+          </button>
         </div>
 
         {/* Tutorial Button */}
@@ -909,6 +1075,13 @@ const PatientMonitoringPage: React.FC = () => {
                 <div className="card-header">
                   <div className="consultation-status">
                     <span className="status-badge active">Active</span>
+                    {earlyWarningScores[consultation.id] && (
+                      <EarlyWarningBadge
+                        score={earlyWarningScores[consultation.id].news2_score}
+                        risk={earlyWarningScores[consultation.id].news2_risk}
+                        compact
+                      />
+                    )}
                   </div>
                   <div className="consultation-time">
                     {consultation.consultation_date} - {consultation.time_in}
@@ -955,6 +1128,254 @@ const PatientMonitoringPage: React.FC = () => {
         </div>
       )}
 
+      {activeTab === 'referrals' && (
+        <div className="tab-content">
+          {openReferrals.length === 0 ? (
+            <div className="empty-state">
+              <div className="empty-state-icon">
+                <svg width="64" height="64" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
+                  <path d="M5 12h14"/>
+                  <path d="M12 5l7 7-7 7"/>
+                </svg>
+              </div>
+              <div className="empty-state-content">
+                <h3>No Open Referrals</h3>
+                <p>Referrals appear here from the time they are sent until the patient returns with findings.</p>
+              </div>
+            </div>
+          ) : (
+            <div className="consultations-grid">
+              {openReferrals.map(referral => (
+                <div key={referral.id} className="consultation-card referral-card">
+                  <div className="card-header">
+                    <div className="consultation-status">
+                      <span className={`referral-urgency ${referral.urgency}`}>
+                        {REFERRAL_URGENCY_LABELS[referral.urgency]}
+                      </span>
+                      <span className={`referral-status ${referral.status}`}>
+                        {REFERRAL_STATUS_LABELS[referral.status]}
+                      </span>
+                    </div>
+                    <div className="consultation-time">
+                      {daysSince(referral.sent_at) === 0 ? 'Sent today' : `Sent ${daysSince(referral.sent_at)} day(s) ago`}
+                    </div>
+                  </div>
+                  <div className="card-content">
+                    <div className="consultation-case">
+                      {referral.referral_number} · Case: {referral.consultation?.case_number}
+                    </div>
+                    <div className="consultation-patient">
+                      Patient: {referral.patient?.first_name} {referral.patient?.last_name}
+                    </div>
+                    <div className="consultation-complaint">
+                      To: {referral.destination_facility}{referral.specialty ? ` (${referral.specialty})` : ''}
+                    </div>
+                    <div className="consultation-diagnosis">
+                      Reason: {referral.reason}
+                    </div>
+                    <div className="card-actions">
+                      <button className="btn-primary" onClick={() => handleOpenReferralConsultation(referral)}>
+                        Open Consultation
+                      </button>
+                      {referral.status === 'sent' && (
+                        <button className="btn-secondary" onClick={() => setReferralStatusAction({ referral, action: 'accept' })}>
+                          Mark Accepted
+                        </button>
+                      )}
+                      <button className="btn-secondary" onClick={() => setReferralStatusAction({ referral, action: 'return' })}>
+                        Record Findings
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {activeTab === 'immunizations' && (
+        <div className="tab-content">
+          <div className="immunization-report">
+            <div className="immunization-report-header">
+              <div>
+                <h3>Students Missing Required Vaccines</h3>
+                {immunizationReport && (
+                  <p>
+                    {immunizationReport.rows.length} of {immunizationReport.total_students} active students ·
+                    Required: {immunizationReport.requirements.map(requirement => `${requirement.vaccine} (${requirement.doses} dose${requirement.doses > 1 ? 's' : ''})`).join(', ')}
+                  </p>
+                )}
+              </div>
+              <div className="immunization-report-controls">
+                <select value={immunizationCourse} onChange={(e) => setImmunizationCourse(e.target.value)}>
+                  {Object.keys(REQUIRED_VACCINES_BY_COURSE).map(course => (
+                    <option key={course} value={course}>{course}</option>
+                  ))}
+                </select>
+                <button
+                  className="btn-secondary"
+                  onClick={handlePrintImmunizationReport}
+                  disabled={!immunizationReport || immunizationReport.rows.length === 0}
+                >
+                  Print PDF
+                </button>
+              </div>
+            </div>
+
+            {immunizationReportLoading ? (
+              <div className="loading-message">Loading immunization records...</div>
+            ) : !immunizationReport || immunizationReport.rows.length === 0 ? (
+              <div className="empty-state">
+                <div className="empty-state-content">
+                  <h3>{immunizationReport?.total_students ? 'All Students Compliant' : 'No Students Found'}</h3>
+                  <p>
+                    {immunizationReport?.total_students
+                      ? `Every active ${immunizationCourse} student has the required vaccines on record.`
+                      : `There are no active students registered under ${immunizationCourse}.`}
+                  </p>
+                </div>
+              </div>
+            ) : (
+              <div className="data-table">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Student</th>
+                      <th>Patient ID</th>
+                      <th>Year</th>
+                      <th>Missing</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {immunizationReport.rows.map(row => (
+                      <tr key={row.patient.id}>
+                        <td>{row.patient.last_name}, {row.patient.first_name}</td>
+                        <td>{row.patient.patient_id}</td>
+                        <td>{row.patient.year_level || '-'}</td>
+                        <td>
+                          {row.missing.map(shortfall => (
+                            <div key={shortfall.vaccine}>
+                              {shortfall.vaccine}: {shortfall.overdue_since
+                                ? `booster overdue since ${shortfall.overdue_since}`
+                                : `${shortfall.doses_received} of ${shortfall.required_doses} doses`}
+                            </div>
+                          ))}
+                        </td>
+                        <td>
+                          <button className="btn-secondary btn-sm" onClick={() => handleViewPatient(row.patient)}>
+                            View Patient
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {activeTab === 'clearance' && (
+        <div className="tab-content">
+          <div className="immunization-report">
+            <div className="immunization-report-header">
+              <div>
+                <h3>Not Yet Medically Cleared</h3>
+                {clearanceReport && (
+                  <p>
+                    SY {clearanceReport.school_year} · {clearanceReport.cleared_count} of {clearanceReport.total_patients} cleared ·
+                    {' '}{clearanceReport.rows.filter(row => !row.exam).length} not yet examined
+                  </p>
+                )}
+              </div>
+              <div className="immunization-report-controls">
+                <select value={clearanceGroup} onChange={(e) => setClearanceGroup(e.target.value)}>
+                  <option value={EMPLOYEES_SCOPE}>Employees</option>
+                  {CLEARANCE_COURSES.map(course => (
+                    <option key={course} value={course}>{course}</option>
+                  ))}
+                </select>
+                <select
+                  value={clearanceYearLevel}
+                  onChange={(e) => setClearanceYearLevel(e.target.value)}
+                  disabled={clearanceGroup === EMPLOYEES_SCOPE}
+                >
+                  <option value="">All year levels</option>
+                  {CLEARANCE_YEAR_LEVELS.map(level => (
+                    <option key={level.value} value={level.value}>{level.label}</option>
+                  ))}
+                </select>
+                <select value={clearanceSchoolYear} onChange={(e) => setClearanceSchoolYear(e.target.value)}>
+                  {getRecentSchoolYears().map(schoolYear => (
+                    <option key={schoolYear} value={schoolYear}>SY {schoolYear}</option>
+                  ))}
+                </select>
+                <button
+                  className="btn-secondary"
+                  onClick={handlePrintClearanceReport}
+                  disabled={!clearanceReport || clearanceReport.rows.length === 0}
+                >
+                  Print PDF
+                </button>
+              </div>
+            </div>
+
+            {clearanceReportLoading ? (
+              <div className="loading-message">Loading physical exams...</div>
+            ) : !clearanceReport || clearanceReport.rows.length === 0 ? (
+              <div className="empty-state">
+                <div className="empty-state-content">
+                  <h3>{clearanceReport?.total_patients ? 'Everyone Cleared' : 'No Patients Found'}</h3>
+                  <p>
+                    {clearanceReport?.total_patients
+                      ? `Every active patient in this group has been cleared for SY ${clearanceSchoolYear}.`
+                      : 'There are no active patients registered in this group.'}
+                  </p>
+                </div>
+              </div>
+            ) : (
+              <div className="data-table">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Name</th>
+                      <th>Patient ID</th>
+                      <th>Year</th>
+                      <th>Status</th>
+                      <th>Remarks</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {clearanceReport.rows.map(row => (
+                      <tr key={row.patient.id}>
+                        <td>{row.patient.last_name}, {row.patient.first_name}</td>
+                        <td>{row.patient.patient_id}</td>
+                        <td>{row.patient.year_level || '-'}</td>
+                        <td>{row.exam ? CLEARANCE_STATUS_LABELS[row.exam.clearance_status] : 'Not examined'}</td>
+                        <td>
+                          {row.exam?.clearance_status === 'unfit'
+                            ? row.exam.recommendations
+                            : row.exam ? `Examined ${row.exam.exam_date}` : ''}
+                        </td>
+                        <td>
+                          <button className="btn-secondary btn-sm" onClick={() => handleViewPatient(row.patient)}>
+                            View Patient
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
       {activeTab === 'vitals' && (
         <div className="tab-content">
           {/* Vitals Filters */}
@@ -1048,6 +1469,7 @@ const PatientMonitoringPage: React.FC = () => {
                     </div>
                     <div className="vital-date">
                       {new Date(vital.recorded_at).toLocaleDateString()}
+                      <EarlyWarningBadge score={vital.news2_score} risk={vital.news2_risk} compact />
                     </div>
                   </div>
 
@@ -1293,6 +1715,7 @@ const PatientMonitoringPage: React.FC = () => {
         onClose={handleCloseViewPatientModal}
         onEdit={handleEditPatient}
         onNewConsultation={handleNewConsultation}
+        onOpenConsultation={handleOpenConsultation}
       />
 
       <ArchivePatientModal
@@ -1337,6 +1760,17 @@ const PatientMonitoringPage: React.FC = () => {
         onClose={handleCloseAttachmentsModal}
       />
 
+      <ReferralStatusModal
+        isOpen={referralStatusAction !== null}
+        referral={referralStatusAction?.referral || null}
+        action={referralStatusAction?.action || 'accept'}
+        onClose={() => setReferralStatusAction(null)}
+        onReferralUpdated={() => {
+          setReferralStatusAction(null);
+          fetchOpenReferrals();
+        }}
+      />
+
       <EditPatientModal
         isOpen={isEditPatientModalOpen}
         patient={selectedPatient}
@@ -0,0 +1,84 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import './QueueBoardPage.css';
+import { queueService, formatQueueNumber, type QueueEntry } from '../../services/queueService';
+
+const REFRESH_INTERVAL_MS = 15000;
+const NOW_SERVING_LIMIT = 6;
+
+// Read-only waiting area display: queue numbers only, no patient names
+const QueueBoardPage: React.FC = () => {
+  const [entries, setEntries] = useState<QueueEntry[]>([]);
+  const [now, setNow] = useState(new Date());
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      setEntries(await queueService.getTodaysQueue());
+      setError(null);
+    } catch (error: any) {
+      console.error('Error fetching queue board:', error);
+      setError('Reconnecting...');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchQueue();
+    const interval = setInterval(() => {
+      fetchQueue();
+      setNow(new Date());
+    }, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchQueue]);
+
+  const nowServing = entries
+    .filter(entry => entry.status === 'called')
+    .sort((a, b) => new Date(b.called_at!).getTime() - new Date(a.called_at!).getTime())
+    .slice(0, NOW_SERVING_LIMIT);
+  const waiting = entries.filter(entry => entry.status === 'waiting');
+
+  return (
+    <div className="queue-board">
+      <header className="queue-board-header">
+        <div>
+          <h1>MEDITRACK CLINIC</h1>
+          <p>Please wait for your number to be called</p>
+        </div>
+        <div className="queue-board-clock">
+          {now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          <span>{now.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' })}</span>
+        </div>
+      </header>
+
+      <section className="queue-board-serving">
+        <h2>Now Serving</h2>
+        {nowServing.length === 0 ? (
+          <div className="queue-board-empty">—</div>
+        ) : (
+          <div className="queue-board-serving-grid">
+            {nowServing.map((entry, index) => (
+              <div key={entry.id} className={`queue-board-tile ${index === 0 ? 'latest' : ''}`}>
+                <span className="queue-board-number">{formatQueueNumber(entry.queue_number)}</span>
+                {entry.called_to && <span className="queue-board-room">{entry.called_to}</span>}
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="queue-board-waiting">
+        <h2>Waiting ({waiting.length})</h2>
+        <div className="queue-board-waiting-list">
+          {waiting.map(entry => (
+            <span key={entry.id} className="queue-board-waiting-number">
+              {formatQueueNumber(entry.queue_number)}
+            </span>
+          ))}
+        </div>
+      </section>
+
+      {error && <div className="queue-board-error">{error}</div>}
+    </div>
+  );
+};
+
+export default QueueBoardPage;
@@ -0,0 +1,330 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import './QueuePage.css';
+import './PagesStyles.css';
+import { type Consultation } from '../../services/supabaseService';
+import {
+  queueService,
+  formatQueueNumber,
+  minutesBetween,
+  QUEUE_STATUS_LABELS,
+  TRIAGE_PRIORITY_LABELS,
+  type QueueEntry,
+  type QueueDailyWaitTime
+} from '../../services/queueService';
+import { toDateKey } from '../../services/appointmentService';
+import { exportService } from '../../services/exportService';
+import RegisterArrivalModal from '../Modals/ConsultationModals/RegisterArrivalModal';
+import StartConsultationModal from '../Modals/ConsultationModals/StartConsultationModal';
+
+const REFRESH_INTERVAL_MS = 30000;
+const REPORT_DAYS = 14;
+
+const defaultReportFrom = () => {
+  const from = new Date();
+  from.setDate(from.getDate() - (REPORT_DAYS - 1));
+  return toDateKey(from);
+};
+
+const QueuePage: React.FC = () => {
+  const navigate = useNavigate();
+  const [entries, setEntries] = useState<QueueEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [calledTo, setCalledTo] = useState('');
+  const [isRegisterModalOpen, setIsRegisterModalOpen] = useState(false);
+  const [startingEntry, setStartingEntry] = useState<QueueEntry | null>(null);
+
+  const [reportFrom, setReportFrom] = useState(defaultReportFrom());
+  const [reportTo, setReportTo] = useState(toDateKey(new Date()));
+  const [waitTimes, setWaitTimes] = useState<QueueDailyWaitTime[]>([]);
+  const [reportLoading, setReportLoading] = useState(false);
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      setError(null);
+      setEntries(await queueService.getTodaysQueue());
+    } catch (error: any) {
+      console.error('Error fetching queue:', error);
+      setError(error.message || 'Failed to load the queue');
+    }
+  }, []);
+
+  const fetchWaitTimes = useCallback(async () => {
+    try {
+      setReportLoading(true);
+      setWaitTimes(await queueService.getDailyWaitTimes(reportFrom, reportTo));
+    } catch (error: any) {
+      console.error('Error fetching wait times:', error);
+      setError(error.message || 'Failed to load wait times');
+    } finally {
+      setReportLoading(false);
+    }
+  }, [reportFrom, reportTo]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchQueue().finally(() => setLoading(false));
+    const interval = setInterval(fetchQueue, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchQueue]);
+
+  useEffect(() => {
+    fetchWaitTimes();
+  }, [fetchWaitTimes]);
+
+  const waiting = useMemo(() => entries.filter(entry => entry.status === 'waiting'), [entries]);
+  const called = useMemo(() =>
+    entries
+      .filter(entry => entry.status === 'called')
+      .sort((a, b) => new Date(b.called_at!).getTime() - new Date(a.called_at!).getTime()),
+  [entries]);
+  const done = useMemo(() => entries.filter(entry => entry.status === 'in_consultation' || entry.status === 'left'), [entries]);
+
+  const todaysAverageWait = useMemo(() => {
+    const waits = entries
+      .filter(entry => entry.called_at)
+      .map(entry => minutesBetween(entry.arrived_at, entry.called_at!));
+    return waits.length > 0 ? Math.round(waits.reduce((sum, wait) => sum + wait, 0) / waits.length) : null;
+  }, [entries]);
+
+  const runAction = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      setError(null);
+      setNotice(null);
+      await action();
+      await fetchQueue();
+    } catch (error: any) {
+      console.error(`${failure}:`, error);
+      setError(error.message || failure);
+    }
+  };
+
+  const handleCallNext = () => runAction(async () => {
+    const entry = await queueService.callNext(calledTo);
+    setNotice(entry
+      ? `Now serving ${formatQueueNumber(entry.queue_number)}: ${entry.patient?.first_name} ${entry.patient?.last_name}${entry.called_to ? ` at ${entry.called_to}` : ''}`
+      : 'No patients are waiting');
+  }, 'Failed to call the next patient');
+
+  const handleMarkLeft = (entry: QueueEntry) => {
+    if (!window.confirm(`Mark queue no. ${formatQueueNumber(entry.queue_number)} as left without being seen?`)) return;
+    runAction(() => queueService.markLeft(entry), 'Failed to update the queue');
+  };
+
+  const handleConsultationStarted = (consultation: Consultation) => {
+    setStartingEntry(null);
+    navigate(`/patient-monitoring?consultationId=${consultation.id}`);
+  };
+
+  const handlePrintReport = async () => {
+    try {
+      await exportService.exportQueueWaitTimesToPDF(waitTimes, reportFrom, reportTo);
+    } catch (error: any) {
+      console.error('Error printing wait times:', error);
+      setError('Failed to generate the wait time report');
+    }
+  };
+
+  const renderEntry = (entry: QueueEntry, position?: number) => (
+    <div key={entry.id} className={`queue-entry ${entry.triage_priority} ${entry.status}`}>
+      <div className="queue-entry-number">
+        {formatQueueNumber(entry.queue_number)}
+        {position !== undefined && <span className="queue-entry-position">#{position}</span>}
+      </div>
+      <div className="queue-entry-info">
+        <div className="queue-entry-patient">
+          {entry.patient?.first_name} {entry.patient?.last_name}
+          <span className="queue-entry-meta"> {entry.patient?.patient_id}</span>
+        </div>
+        {entry.chief_complaint && <div className="queue-entry-complaint">{entry.chief_complaint}</div>}
+        <div className="queue-entry-meta">
+          <span className={`queue-priority ${entry.triage_priority}`}>{TRIAGE_PRIORITY_LABELS[entry.triage_priority]}</span>
+          {entry.triage_reasons && entry.triage_reasons.length > 0 && ` ${entry.triage_reasons.join(', ')} ·`}
+          {entry.status === 'waiting' && ` Waiting ${minutesBetween(entry.arrived_at, new Date().toISOString())} min`}
+          {entry.status === 'called' && ` Called ${new Date(entry.called_at!).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}${entry.called_to ? ` to ${entry.called_to}` : ''}`}
+          {(entry.status === 'in_consultation' || entry.status === 'left') && ` ${QUEUE_STATUS_LABELS[entry.status]}`}
+        </div>
+      </div>
+      {(entry.status === 'waiting' || entry.status === 'called') && (
+        <div className="queue-entry-actions">
+          {entry.status === 'waiting' && (
+            <button className="btn-secondary btn-sm" onClick={() => runAction(() => queueService.callPatient(entry, calledTo), 'Failed to call patient')}>
+              Call
+            </button>
+          )}
+          <button className="btn-primary btn-sm" onClick={() => setStartingEntry(entry)}>
+            Start Consultation
+          </button>
+          <button className="btn-secondary btn-sm" onClick={() => handleMarkLeft(entry)}>
+            Left
+          </button>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="page-container">
+      <div className="page-header">
+        <h1 className="page-title">Walk-in Queue</h1>
+        <p className="page-subtitle">Triage arrivals, call the next patient and track waiting times</p>
+      </div>
+
+      <div className="stats-grid">
+        <div className="stat-card">
+          <div className="stat-content">
+            <div className="stat-value">{waiting.length}</div>
+            <div className="stat-title">Waiting</div>
+            <div className={`stat-change ${waiting.some(entry => entry.triage_priority === 'emergency') ? 'warning' : 'neutral'}`}>
+              {waiting.filter(entry => entry.triage_priority !== 'routine').length} urgent or emergency
+            </div>
+          </div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-content">
+            <div className="stat-value">{called.length}</div>
+            <div className="stat-title">Called</div>
+            <div className="stat-change neutral">Waiting to be seen</div>
+          </div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-content">
+            <div className="stat-value">{entries.filter(entry => entry.status === 'in_consultation').length}</div>
+            <div className="stat-title">Seen Today</div>
+            <div className="stat-change positive">{entries.filter(entry => entry.status === 'left').length} left unseen</div>
+          </div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-content">
+            <div className="stat-value">{todaysAverageWait === null ? '-' : `${todaysAverageWait} min`}</div>
+            <div className="stat-title">Average Wait Today</div>
+            <div className="stat-change neutral">Arrival to call</div>
+          </div>
+        </div>
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+      {notice && <div className="queue-notice">{notice}</div>}
+
+      <div className="filters-section">
+        <div className="filters-row">
+          <button className="btn-primary" onClick={() => setIsRegisterModalOpen(true)}>
+            Register Arrival
+          </button>
+          <div className="filter-group">
+            <label>Calling To:</label>
+            <input
+              type="text"
+              className="queue-called-to"
+              placeholder="e.g. Room 1"
+              value={calledTo}
+              onChange={(e) => setCalledTo(e.target.value)}
+            />
+          </div>
+          <button className="btn-success" onClick={handleCallNext} disabled={waiting.length === 0}>
+            Call Next Patient
+          </button>
+          <button className="btn-secondary" onClick={() => window.open('/queue/board', '_blank')}>
+            Open Board
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="loading-message">Loading queue...</div>
+      ) : (
+        <div className="queue-columns">
+          <div className="queue-column">
+            <h3>Waiting ({waiting.length})</h3>
+            {waiting.length === 0 ? (
+              <div className="queue-column-empty">No one is waiting</div>
+            ) : (
+              waiting.map((entry, index) => renderEntry(entry, index + 1))
+            )}
+          </div>
+          <div className="queue-column">
+            <h3>Called ({called.length})</h3>
+            {called.length === 0 ? (
+              <div className="queue-column-empty">No patients called</div>
+            ) : (
+              called.map(entry => renderEntry(entry))
+            )}
+            {done.length > 0 && (
+              <>
+                <h3>Done ({done.length})</h3>
+                {done.map(entry => renderEntry(entry))}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="queue-report">
+        <div className="queue-report-header">
+          <h3>Daily Wait Times</h3>
+          <div className="queue-report-controls">
+            <input type="date" value={reportFrom} max={reportTo} onChange={(e) => setReportFrom(e.target.value)} />
+            <span>to</span>
+            <input type="date" value={reportTo} min={reportFrom} onChange={(e) => setReportTo(e.target.value)} />
+            <button className="btn-secondary" onClick={handlePrintReport} disabled={waitTimes.length === 0}>
+              Print PDF
+            </button>
+          </div>
+        </div>
+        {reportLoading ? (
+          <div className="loading-message">Loading wait times...</div>
+        ) : waitTimes.length === 0 ? (
+          <div className="queue-column-empty">No queue activity in this period</div>
+        ) : (
+          <div className="data-table">
+            <table>
+              <thead>
+                <tr>
+                  <th>Date</th>
+                  <th>Arrivals</th>
+                  <th>Seen</th>
+                  <th>Left Unseen</th>
+                  <th>Average Wait</th>
+                  <th>Longest Wait</th>
+                </tr>
+              </thead>
+              <tbody>
+                {waitTimes.map(row => (
+                  <tr key={row.date}>
+                    <td>{new Date(`${row.date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}</td>
+                    <td>{row.arrivals}</td>
+                    <td>{row.seen}</td>
+                    <td>{row.left}</td>
+                    <td>{row.average_wait_minutes === null ? '-' : `${row.average_wait_minutes} min`}</td>
+                    <td>{row.longest_wait_minutes === null ? '-' : `${row.longest_wait_minutes} min`}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <RegisterArrivalModal
+        isOpen={isRegisterModalOpen}
+        onClose={() => setIsRegisterModalOpen(false)}
+        onArrivalRegistered={(entry) => {
+          setNotice(`Queue no. ${formatQueueNumber(entry.queue_number)} issued to ${entry.patient?.first_name} ${entry.patient?.last_name}`);
+          fetchQueue();
+        }}
+      />
+
+      <StartConsultationModal
+        isOpen={startingEntry !== null}
+        patient={startingEntry?.patient || null}
+        queueEntry={startingEntry}
+        onClose={() => setStartingEntry(null)}
+        onConsultationStarted={handleConsultationStarted}
+      />
+    </div>
+  );
+};
+
+export default QueuePage;
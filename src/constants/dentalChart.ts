@@ -0,0 +1,90 @@
+// Odontogram layout, conditions and procedures for dental charting
+// Teeth use FDI (ISO 3950) numbering: the first digit is the quadrant, the second the tooth
+// counted from the midline. Quadrants 1-4 are permanent teeth, 5-8 primary teeth.
+
+export type ToothSurface = 'M' | 'O' | 'D' | 'B' | 'L';
+
+export type DentalCondition =
+  | 'sound'
+  | 'caries'
+  | 'filled'
+  | 'sealant'
+  | 'fractured'
+  | 'root_canal'
+  | 'crown'
+  | 'bridge'
+  | 'implant'
+  | 'denture'
+  | 'impacted'
+  | 'extraction_indicated'
+  | 'missing';
+
+export interface DentalConditionDefinition {
+  key: DentalCondition;
+  label: string;
+  // Shown under the tooth for whole-tooth conditions
+  abbreviation: string;
+  color: string;
+  // Applies to the whole tooth rather than to individual surfaces
+  whole_tooth: boolean;
+}
+
+export interface DentalProcedure {
+  label: string;
+  // Condition the treated tooth or surfaces are left in, if the procedure changes the chart
+  resulting_condition?: DentalCondition;
+}
+
+// Rows as the dentist faces the patient: patient's right on the left of the chart
+export const PERMANENT_TEETH_ROWS: number[][] = [
+  [18, 17, 16, 15, 14, 13, 12, 11, 21, 22, 23, 24, 25, 26, 27, 28],
+  [48, 47, 46, 45, 44, 43, 42, 41, 31, 32, 33, 34, 35, 36, 37, 38]
+];
+
+export const PRIMARY_TEETH_ROWS: number[][] = [
+  [55, 54, 53, 52, 51, 61, 62, 63, 64, 65],
+  [85, 84, 83, 82, 81, 71, 72, 73, 74, 75]
+];
+
+export const TOOTH_SURFACES: { key: ToothSurface; label: string }[] = [
+  { key: 'M', label: 'Mesial' },
+  { key: 'O', label: 'Occlusal / Incisal' },
+  { key: 'D', label: 'Distal' },
+  { key: 'B', label: 'Buccal / Labial' },
+  { key: 'L', label: 'Lingual / Palatal' }
+];
+
+export const DENTAL_CONDITIONS: DentalConditionDefinition[] = [
+  { key: 'sound', label: 'Sound', abbreviation: '', color: '#ffffff', whole_tooth: true },
+  { key: 'caries', label: 'Caries', abbreviation: 'C', color: '#ef4444', whole_tooth: false },
+  { key: 'filled', label: 'Filled / Restored', abbreviation: 'F', color: '#3b82f6', whole_tooth: false },
+  { key: 'sealant', label: 'Sealant', abbreviation: 'S', color: '#10b981', whole_tooth: false },
+  { key: 'fractured', label: 'Fractured', abbreviation: 'Fx', color: '#f97316', whole_tooth: false },
+  { key: 'root_canal', label: 'Root Canal Treated', abbreviation: 'RCT', color: '#8b5cf6', whole_tooth: true },
+  { key: 'crown', label: 'Crown', abbreviation: 'CR', color: '#eab308', whole_tooth: true },
+  { key: 'bridge', label: 'Bridge', abbreviation: 'BR', color: '#d97706', whole_tooth: true },
+  { key: 'implant', label: 'Implant', abbreviation: 'IMP', color: '#0891b2', whole_tooth: true },
+  { key: 'denture', label: 'Removable Denture', abbreviation: 'RD', color: '#db2777', whole_tooth: true },
+  { key: 'impacted', label: 'Impacted / Unerupted', abbreviation: 'UE', color: '#a3a3a3', whole_tooth: true },
+  { key: 'extraction_indicated', label: 'For Extraction', abbreviation: 'X', color: '#fca5a5', whole_tooth: true },
+  { key: 'missing', label: 'Missing / Extracted', abbreviation: 'M', color: '#9ca3af', whole_tooth: true }
+];
+
+export const DENTAL_PROCEDURES: DentalProcedure[] = [
+  { label: 'Oral examination' },
+  { label: 'Oral prophylaxis' },
+  { label: 'Scaling and root planing' },
+  { label: 'Fluoride application' },
+  { label: 'Pit and fissure sealant', resulting_condition: 'sealant' },
+  { label: 'Composite restoration', resulting_condition: 'filled' },
+  { label: 'Amalgam restoration', resulting_condition: 'filled' },
+  { label: 'Glass ionomer restoration', resulting_condition: 'filled' },
+  { label: 'Temporary filling', resulting_condition: 'filled' },
+  { label: 'Tooth extraction', resulting_condition: 'missing' },
+  { label: 'Root canal treatment', resulting_condition: 'root_canal' },
+  { label: 'Crown placement', resulting_condition: 'crown' },
+  { label: 'Denture fitting', resulting_condition: 'denture' }
+];
+
+export const getDentalCondition = (key: DentalCondition): DentalConditionDefinition =>
+  DENTAL_CONDITIONS.find(condition => condition.key === key) || DENTAL_CONDITIONS[0];
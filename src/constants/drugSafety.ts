@@ -0,0 +1,165 @@
+// Drug classes and interactions bundled for offline allergy and interaction checks
+// A curated subset covering medicines commonly stocked or prescribed by a campus clinic.
+// Names are matched case-insensitively as substrings of the drug name, so list generic names only.
+
+export type InteractionSeverity = 'contraindicated' | 'major' | 'moderate';
+
+export interface DrugClass {
+  key: string;
+  label: string;
+  // Words a patient or nurse might write in the allergy field for the whole class
+  aliases: string[];
+  members: string[];
+  // Whether an allergy to one member rules out the rest of the class or only warrants a warning
+  crossSensitivity: 'block' | 'warn';
+}
+
+export interface DrugInteraction {
+  // Each side is a class key or a member name
+  drugs: [string, string];
+  severity: InteractionSeverity;
+  description: string;
+}
+
+export const DRUG_CLASSES: DrugClass[] = [
+  {
+    key: 'penicillins',
+    label: 'Penicillins',
+    aliases: ['penicillin', 'penicillins', 'pcn'],
+    members: ['amoxicillin', 'ampicillin', 'co-amoxiclav', 'cloxacillin', 'dicloxacillin', 'oxacillin', 'piperacillin', 'penicillin'],
+    crossSensitivity: 'block'
+  },
+  {
+    key: 'cephalosporins',
+    label: 'Cephalosporins',
+    aliases: ['cephalosporin', 'cephalosporins'],
+    members: ['cefalexin', 'cephalexin', 'cefadroxil', 'cefaclor', 'cefuroxime', 'cefixime', 'cefpodoxime', 'ceftriaxone', 'cefazolin'],
+    crossSensitivity: 'block'
+  },
+  {
+    key: 'sulfonamides',
+    label: 'Sulfonamides',
+    aliases: ['sulfa', 'sulpha', 'sulfonamide', 'sulfonamides'],
+    members: ['sulfamethoxazole', 'cotrimoxazole', 'co-trimoxazole', 'sulfadiazine', 'sulfasalazine'],
+    crossSensitivity: 'block'
+  },
+  {
+    key: 'nsaids',
+    label: 'NSAIDs',
+    aliases: ['nsaid', 'nsaids', 'anti-inflammatory', 'anti-inflammatories'],
+    members: ['ibuprofen', 'mefenamic acid', 'naproxen', 'diclofenac', 'celecoxib', 'etoricoxib', 'ketorolac', 'meloxicam', 'piroxicam', 'aspirin', 'acetylsalicylic acid'],
+    crossSensitivity: 'warn'
+  },
+  {
+    key: 'macrolides',
+    label: 'Macrolides',
+    aliases: ['macrolide', 'macrolides'],
+    members: ['azithromycin', 'clarithromycin', 'erythromycin'],
+    crossSensitivity: 'warn'
+  },
+  {
+    key: 'fluoroquinolones',
+    label: 'Fluoroquinolones',
+    aliases: ['quinolone', 'quinolones', 'fluoroquinolone', 'fluoroquinolones'],
+    members: ['ciprofloxacin', 'levofloxacin', 'ofloxacin', 'moxifloxacin'],
+    crossSensitivity: 'block'
+  },
+  {
+    key: 'tetracyclines',
+    label: 'Tetracyclines',
+    aliases: ['tetracyclines'],
+    members: ['tetracycline', 'doxycycline', 'minocycline'],
+    crossSensitivity: 'block'
+  },
+  {
+    key: 'opioids',
+    label: 'Opioids',
+    aliases: ['opioid', 'opioids', 'opiate', 'opiates'],
+    members: ['tramadol', 'codeine', 'morphine', 'nalbuphine'],
+    crossSensitivity: 'warn'
+  },
+  {
+    key: 'benzodiazepines',
+    label: 'Benzodiazepines',
+    aliases: ['benzodiazepine', 'benzodiazepines'],
+    members: ['diazepam', 'alprazolam', 'lorazepam', 'clonazepam'],
+    crossSensitivity: 'warn'
+  },
+  {
+    key: 'ssris',
+    label: 'SSRIs',
+    aliases: ['ssri', 'ssris'],
+    members: ['sertraline', 'fluoxetine', 'escitalopram', 'paroxetine', 'citalopram'],
+    crossSensitivity: 'warn'
+  },
+  {
+    key: 'ace_inhibitors',
+    label: 'ACE inhibitors',
+    aliases: ['ace inhibitor', 'ace inhibitors', 'ace-i'],
+    members: ['captopril', 'enalapril', 'lisinopril', 'ramipril'],
+    crossSensitivity: 'warn'
+  },
+  {
+    key: 'arbs',
+    label: 'Angiotensin receptor blockers',
+    aliases: ['arb', 'arbs'],
+    members: ['losartan', 'valsartan', 'telmisartan', 'irbesartan'],
+    crossSensitivity: 'warn'
+  },
+  {
+    key: 'statins',
+    label: 'Statins',
+    aliases: ['statin', 'statins'],
+    members: ['simvastatin', 'atorvastatin', 'rosuvastatin'],
+    crossSensitivity: 'warn'
+  },
+  {
+    key: 'antacids',
+    label: 'Antacids',
+    aliases: ['antacid', 'antacids'],
+    members: ['aluminum hydroxide', 'aluminium hydroxide', 'magnesium hydroxide', 'calcium carbonate'],
+    crossSensitivity: 'warn'
+  },
+  {
+    key: 'nitrates',
+    label: 'Nitrates',
+    aliases: ['nitrate', 'nitrates'],
+    members: ['isosorbide', 'nitroglycerin', 'glyceryl trinitrate'],
+    crossSensitivity: 'warn'
+  }
+];
+
+// Allergies to one class that are worth a warning for another
+export const CROSS_REACTIVE_CLASSES: [string, string][] = [
+  ['penicillins', 'cephalosporins']
+];
+
+export const DRUG_INTERACTIONS: DrugInteraction[] = [
+  { drugs: ['clarithromycin', 'simvastatin'], severity: 'contraindicated', description: 'Clarithromycin raises simvastatin levels and the risk of rhabdomyolysis' },
+  { drugs: ['erythromycin', 'simvastatin'], severity: 'contraindicated', description: 'Erythromycin raises simvastatin levels and the risk of rhabdomyolysis' },
+  { drugs: ['sildenafil', 'nitrates'], severity: 'contraindicated', description: 'Combined vasodilation can cause severe hypotension' },
+  { drugs: ['methotrexate', 'sulfonamides'], severity: 'contraindicated', description: 'Sulfonamides increase methotrexate toxicity (bone marrow suppression)' },
+  { drugs: ['warfarin', 'nsaids'], severity: 'major', description: 'Increased risk of bleeding, especially gastrointestinal' },
+  { drugs: ['warfarin', 'metronidazole'], severity: 'major', description: 'Metronidazole increases the anticoagulant effect of warfarin' },
+  { drugs: ['warfarin', 'fluoroquinolones'], severity: 'major', description: 'Fluoroquinolones increase the anticoagulant effect of warfarin' },
+  { drugs: ['warfarin', 'sulfonamides'], severity: 'major', description: 'Co-trimoxazole increases the anticoagulant effect of warfarin' },
+  { drugs: ['warfarin', 'macrolides'], severity: 'moderate', description: 'Macrolides may increase the anticoagulant effect of warfarin' },
+  { drugs: ['tramadol', 'ssris'], severity: 'major', description: 'Risk of serotonin syndrome and lowered seizure threshold' },
+  { drugs: ['opioids', 'benzodiazepines'], severity: 'major', description: 'Additive sedation and risk of respiratory depression' },
+  { drugs: ['ace_inhibitors', 'spironolactone'], severity: 'major', description: 'Risk of hyperkalaemia' },
+  { drugs: ['arbs', 'spironolactone'], severity: 'major', description: 'Risk of hyperkalaemia' },
+  { drugs: ['ciprofloxacin', 'theophylline'], severity: 'major', description: 'Ciprofloxacin raises theophylline levels (seizures, arrhythmia)' },
+  { drugs: ['ace_inhibitors', 'nsaids'], severity: 'moderate', description: 'NSAIDs reduce the antihypertensive effect and may impair kidney function' },
+  { drugs: ['arbs', 'nsaids'], severity: 'moderate', description: 'NSAIDs reduce the antihypertensive effect and may impair kidney function' },
+  { drugs: ['nsaids', 'nsaids'], severity: 'moderate', description: 'Two NSAIDs together add gastrointestinal bleeding risk without added benefit' },
+  { drugs: ['fluoroquinolones', 'antacids'], severity: 'moderate', description: 'Antacids reduce absorption; give the antibiotic 2 hours before or 6 hours after' },
+  { drugs: ['tetracyclines', 'antacids'], severity: 'moderate', description: 'Antacids reduce absorption; separate doses by 2 to 3 hours' },
+  { drugs: ['clopidogrel', 'omeprazole'], severity: 'moderate', description: 'Omeprazole reduces the antiplatelet effect of clopidogrel' },
+  { drugs: ['metformin', 'prednisone'], severity: 'moderate', description: 'Corticosteroids raise blood glucose; monitor diabetic control' }
+];
+
+export const INTERACTION_SEVERITY_LABELS: Record<InteractionSeverity, string> = {
+  contraindicated: 'Contraindicated',
+  major: 'Major',
+  moderate: 'Moderate'
+};
@@ -0,0 +1,20 @@
+// Health statistics report layout
+// These can be easily modified to match the tabulation the university administration asks for
+
+// Age groups in years, inclusive; a patient with no birthday or age is counted as "Unknown"
+export const STATISTICS_AGE_GROUPS: { label: string; min: number; max: number }[] = [
+  { label: 'Under 18', min: 0, max: 17 },
+  { label: '18-24', min: 18, max: 24 },
+  { label: '25-34', min: 25, max: 34 },
+  { label: '35-44', min: 35, max: 44 },
+  { label: '45-59', min: 45, max: 59 },
+  { label: '60 and over', min: 60, max: 200 }
+];
+
+export const STATISTICS_PATIENT_TYPES = ['Student', 'Employee', 'Dependent', 'OPD'];
+
+// How many chief complaints and diagnoses are listed before the rest are summed as "All others"
+export const STATISTICS_TOP_LIMIT = 10;
+
+// Sign-off lines printed at the end of every report
+export const STATISTICS_SIGNATORIES = ['Prepared by', 'Noted by'];
@@ -0,0 +1,279 @@
+// ICD-10 diagnosis codes bundled for offline lookup
+// A curated subset of WHO ICD-10 covering conditions commonly seen in a campus clinic.
+// Add codes here as needed; codes must stay unique. Codes outside the list can still be
+// entered by hand with their description (see parseManualIcd10Code).
+
+export interface Icd10Code {
+  code: string;
+  description: string;
+  chapter: string;
+}
+
+export const ICD10_CODES: Icd10Code[] = [
+  // Certain infectious and parasitic diseases (A00-B99)
+  { code: 'A01.0', description: 'Typhoid fever', chapter: 'Infectious and parasitic diseases' },
+  { code: 'A06.0', description: 'Acute amoebic dysentery', chapter: 'Infectious and parasitic diseases' },
+  { code: 'A09', description: 'Diarrhoea and gastroenteritis of presumed infectious origin', chapter: 'Infectious and parasitic diseases' },
+  { code: 'A15.0', description: 'Tuberculosis of lung, confirmed by sputum microscopy', chapter: 'Infectious and parasitic diseases' },
+  { code: 'A16.2', description: 'Tuberculosis of lung, without mention of bacteriological or histological confirmation', chapter: 'Infectious and parasitic diseases' },
+  { code: 'A27.9', description: 'Leptospirosis, unspecified', chapter: 'Infectious and parasitic diseases' },
+  { code: 'A90', description: 'Dengue fever [classical dengue]', chapter: 'Infectious and parasitic diseases' },
+  { code: 'A91', description: 'Dengue haemorrhagic fever', chapter: 'Infectious and parasitic diseases' },
+  { code: 'B01.9', description: 'Varicella without complication', chapter: 'Infectious and parasitic diseases' },
+  { code: 'B02.9', description: 'Zoster without complication', chapter: 'Infectious and parasitic diseases' },
+  { code: 'B05.9', description: 'Measles without complication', chapter: 'Infectious and parasitic diseases' },
+  { code: 'B08.4', description: 'Enteroviral vesicular stomatitis with exanthem (hand, foot and mouth disease)', chapter: 'Infectious and parasitic diseases' },
+  { code: 'B26.9', description: 'Mumps without complication', chapter: 'Infectious and parasitic diseases' },
+  { code: 'B34.9', description: 'Viral infection, unspecified', chapter: 'Infectious and parasitic diseases' },
+  { code: 'B35.4', description: 'Tinea corporis', chapter: 'Infectious and parasitic diseases' },
+  { code: 'B35.3', description: 'Tinea pedis', chapter: 'Infectious and parasitic diseases' },
+  { code: 'B36.0', description: 'Pityriasis versicolor', chapter: 'Infectious and parasitic diseases' },
+  { code: 'B37.0', description: 'Candidal stomatitis', chapter: 'Infectious and parasitic diseases' },
+  { code: 'B86', description: 'Scabies', chapter: 'Infectious and parasitic diseases' },
+  { code: 'B82.9', description: 'Intestinal parasitism, unspecified', chapter: 'Infectious and parasitic diseases' },
+
+  // Endocrine, nutritional and metabolic diseases (E00-E90)
+  { code: 'E03.9', description: 'Hypothyroidism, unspecified', chapter: 'Endocrine, nutritional and metabolic diseases' },
+  { code: 'E05.9', description: 'Thyrotoxicosis, unspecified', chapter: 'Endocrine, nutritional and metabolic diseases' },
+  { code: 'E10.9', description: 'Type 1 diabetes mellitus without complications', chapter: 'Endocrine, nutritional and metabolic diseases' },
+  { code: 'E11.9', description: 'Type 2 diabetes mellitus without complications', chapter: 'Endocrine, nutritional and metabolic diseases' },
+  { code: 'E16.2', description: 'Hypoglycaemia, unspecified', chapter: 'Endocrine, nutritional and metabolic diseases' },
+  { code: 'E44.0', description: 'Moderate protein-energy malnutrition', chapter: 'Endocrine, nutritional and metabolic diseases' },
+  { code: 'E66.9', description: 'Obesity, unspecified', chapter: 'Endocrine, nutritional and metabolic diseases' },
+  { code: 'E78.5', description: 'Hyperlipidaemia, unspecified', chapter: 'Endocrine, nutritional and metabolic diseases' },
+  { code: 'E79.0', description: 'Hyperuricaemia without signs of inflammatory arthritis', chapter: 'Endocrine, nutritional and metabolic diseases' },
+  { code: 'E86', description: 'Volume depletion (dehydration)', chapter: 'Endocrine, nutritional and metabolic diseases' },
+
+  // Blood (D50-D89)
+  { code: 'D50.9', description: 'Iron deficiency anaemia, unspecified', chapter: 'Diseases of the blood' },
+  { code: 'D64.9', description: 'Anaemia, unspecified', chapter: 'Diseases of the blood' },
+
+  // Mental and behavioural disorders (F00-F99)
+  { code: 'F10.0', description: 'Mental and behavioural disorders due to use of alcohol, acute intoxication', chapter: 'Mental and behavioural disorders' },
+  { code: 'F32.9', description: 'Depressive episode, unspecified', chapter: 'Mental and behavioural disorders' },
+  { code: 'F41.0', description: 'Panic disorder [episodic paroxysmal anxiety]', chapter: 'Mental and behavioural disorders' },
+  { code: 'F41.1', description: 'Generalized anxiety disorder', chapter: 'Mental and behavioural disorders' },
+  { code: 'F41.9', description: 'Anxiety disorder, unspecified', chapter: 'Mental and behavioural disorders' },
+  { code: 'F43.0', description: 'Acute stress reaction', chapter: 'Mental and behavioural disorders' },
+  { code: 'F43.2', description: 'Adjustment disorders', chapter: 'Mental and behavioural disorders' },
+  { code: 'F51.0', description: 'Nonorganic insomnia', chapter: 'Mental and behavioural disorders' },
+
+  // Nervous system (G00-G99)
+  { code: 'G40.9', description: 'Epilepsy, unspecified', chapter: 'Diseases of the nervous system' },
+  { code: 'G43.9', description: 'Migraine, unspecified', chapter: 'Diseases of the nervous system' },
+  { code: 'G44.2', description: 'Tension-type headache', chapter: 'Diseases of the nervous system' },
+  { code: 'G47.0', description: 'Disorders of initiating and maintaining sleep [insomnias]', chapter: 'Diseases of the nervous system' },
+  { code: 'G51.0', description: 'Bell palsy', chapter: 'Diseases of the nervous system' },
+  { code: 'G56.0', description: 'Carpal tunnel syndrome', chapter: 'Diseases of the nervous system' },
+
+  // Eye and adnexa (H00-H59)
+  { code: 'H00.0', description: 'Hordeolum and other deep inflammation of eyelid', chapter: 'Diseases of the eye and adnexa' },
+  { code: 'H10.9', description: 'Conjunctivitis, unspecified', chapter: 'Diseases of the eye and adnexa' },
+  { code: 'H10.1', description: 'Acute atopic conjunctivitis', chapter: 'Diseases of the eye and adnexa' },
+  { code: 'H52.1', description: 'Myopia', chapter: 'Diseases of the eye and adnexa' },
+  { code: 'H57.1', description: 'Ocular pain', chapter: 'Diseases of the eye and adnexa' },
+
+  // Ear and mastoid process (H60-H95)
+  { code: 'H60.9', description: 'Otitis externa, unspecified', chapter: 'Diseases of the ear and mastoid process' },
+  { code: 'H61.2', description: 'Impacted cerumen', chapter: 'Diseases of the ear and mastoid process' },
+  { code: 'H66.9', description: 'Otitis media, unspecified', chapter: 'Diseases of the ear and mastoid process' },
+  { code: 'H81.1', description: 'Benign paroxysmal vertigo', chapter: 'Diseases of the ear and mastoid process' },
+
+  // Circulatory system (I00-I99)
+  { code: 'I10', description: 'Essential (primary) hypertension', chapter: 'Diseases of the circulatory system' },
+  { code: 'I20.9', description: 'Angina pectoris, unspecified', chapter: 'Diseases of the circulatory system' },
+  { code: 'I21.9', description: 'Acute myocardial infarction, unspecified', chapter: 'Diseases of the circulatory system' },
+  { code: 'I47.1', description: 'Supraventricular tachycardia', chapter: 'Diseases of the circulatory system' },
+  { code: 'I49.9', description: 'Cardiac arrhythmia, unspecified', chapter: 'Diseases of the circulatory system' },
+  { code: 'I64', description: 'Stroke, not specified as haemorrhage or infarction', chapter: 'Diseases of the circulatory system' },
+  { code: 'I83.9', description: 'Varicose veins of lower extremities without ulcer or inflammation', chapter: 'Diseases of the circulatory system' },
+  { code: 'I84.9', description: 'Unspecified haemorrhoids without complication', chapter: 'Diseases of the circulatory system' },
+  { code: 'I95.1', description: 'Orthostatic hypotension', chapter: 'Diseases of the circulatory system' },
+  { code: 'I95.9', description: 'Hypotension, unspecified', chapter: 'Diseases of the circulatory system' },
+
+  // Respiratory system (J00-J99)
+  { code: 'J00', description: 'Acute nasopharyngitis [common cold]', chapter: 'Diseases of the respiratory system' },
+  { code: 'J01.9', description: 'Acute sinusitis, unspecified', chapter: 'Diseases of the respiratory system' },
+  { code: 'J02.9', description: 'Acute pharyngitis, unspecified', chapter: 'Diseases of the respiratory system' },
+  { code: 'J03.9', description: 'Acute tonsillitis, unspecified', chapter: 'Diseases of the respiratory system' },
+  { code: 'J04.0', description: 'Acute laryngitis', chapter: 'Diseases of the respiratory system' },
+  { code: 'J06.9', description: 'Acute upper respiratory infection, unspecified', chapter: 'Diseases of the respiratory system' },
+  { code: 'J10.1', description: 'Influenza with other respiratory manifestations, influenza virus identified', chapter: 'Diseases of the respiratory system' },
+  { code: 'J11.1', description: 'Influenza with other respiratory manifestations, virus not identified', chapter: 'Diseases of the respiratory system' },
+  { code: 'J18.9', description: 'Pneumonia, unspecified', chapter: 'Diseases of the respiratory system' },
+  { code: 'J20.9', description: 'Acute bronchitis, unspecified', chapter: 'Diseases of the respiratory system' },
+  { code: 'J30.4', description: 'Allergic rhinitis, unspecified', chapter: 'Diseases of the respiratory system' },
+  { code: 'J31.0', description: 'Chronic rhinitis', chapter: 'Diseases of the respiratory system' },
+  { code: 'J32.9', description: 'Chronic sinusitis, unspecified', chapter: 'Diseases of the respiratory system' },
+  { code: 'J45.9', description: 'Asthma, unspecified', chapter: 'Diseases of the respiratory system' },
+  { code: 'J46', description: 'Status asthmaticus', chapter: 'Diseases of the respiratory system' },
+
+  // Digestive system (K00-K93)
+  { code: 'K02.9', description: 'Dental caries, unspecified', chapter: 'Diseases of the digestive system' },
+  { code: 'K04.0', description: 'Pulpitis', chapter: 'Diseases of the digestive system' },
+  { code: 'K04.7', description: 'Periapical abscess without sinus', chapter: 'Diseases of the digestive system' },
+  { code: 'K05.1', description: 'Chronic gingivitis', chapter: 'Diseases of the digestive system' },
+  { code: 'K05.3', description: 'Chronic periodontitis', chapter: 'Diseases of the digestive system' },
+  { code: 'K01.1', description: 'Impacted teeth', chapter: 'Diseases of the digestive system' },
+  { code: 'K03.6', description: 'Deposits [accretions] on teeth', chapter: 'Diseases of the digestive system' },
+  { code: 'K08.8', description: 'Other specified disorders of teeth and supporting structures (toothache)', chapter: 'Diseases of the digestive system' },
+  { code: 'K12.0', description: 'Recurrent oral aphthae', chapter: 'Diseases of the digestive system' },
+  { code: 'K21.9', description: 'Gastro-oesophageal reflux disease without oesophagitis', chapter: 'Diseases of the digestive system' },
+  { code: 'K25.9', description: 'Gastric ulcer, unspecified as acute or chronic, without haemorrhage or perforation', chapter: 'Diseases of the digestive system' },
+  { code: 'K29.7', description: 'Gastritis, unspecified', chapter: 'Diseases of the digestive system' },
+  { code: 'K30', description: 'Dyspepsia', chapter: 'Diseases of the digestive system' },
+  { code: 'K35.8', description: 'Acute appendicitis, other and unspecified', chapter: 'Diseases of the digestive system' },
+  { code: 'K52.9', description: 'Noninfective gastroenteritis and colitis, unspecified', chapter: 'Diseases of the digestive system' },
+  { code: 'K58.9', description: 'Irritable bowel syndrome without diarrhoea', chapter: 'Diseases of the digestive system' },
+  { code: 'K59.0', description: 'Constipation', chapter: 'Diseases of the digestive system' },
+  { code: 'K80.2', description: 'Calculus of gallbladder without cholecystitis', chapter: 'Diseases of the digestive system' },
+
+  // Skin and subcutaneous tissue (L00-L99)
+  { code: 'L01.0', description: 'Impetigo', chapter: 'Diseases of the skin and subcutaneous tissue' },
+  { code: 'L02.9', description: 'Cutaneous abscess, furuncle and carbuncle, unspecified', chapter: 'Diseases of the skin and subcutaneous tissue' },
+  { code: 'L03.9', description: 'Cellulitis, unspecified', chapter: 'Diseases of the skin and subcutaneous tissue' },
+  { code: 'L08.9', description: 'Local infection of skin and subcutaneous tissue, unspecified', chapter: 'Diseases of the skin and subcutaneous tissue' },
+  { code: 'L20.9', description: 'Atopic dermatitis, unspecified', chapter: 'Diseases of the skin and subcutaneous tissue' },
+  { code: 'L23.9', description: 'Allergic contact dermatitis, unspecified cause', chapter: 'Diseases of the skin and subcutaneous tissue' },
+  { code: 'L25.9', description: 'Unspecified contact dermatitis, unspecified cause', chapter: 'Diseases of the skin and subcutaneous tissue' },
+  { code: 'L29.9', description: 'Pruritus, unspecified', chapter: 'Diseases of the skin and subcutaneous tissue' },
+  { code: 'L50.9', description: 'Urticaria, unspecified', chapter: 'Diseases of the skin and subcutaneous tissue' },
+  { code: 'L60.0', description: 'Ingrowing nail', chapter: 'Diseases of the skin and subcutaneous tissue' },
+  { code: 'L70.0', description: 'Acne vulgaris', chapter: 'Diseases of the skin and subcutaneous tissue' },
+  { code: 'L74.0', description: 'Miliaria rubra (prickly heat)', chapter: 'Diseases of the skin and subcutaneous tissue' },
+
+  // Musculoskeletal system (M00-M99)
+  { code: 'M10.9', description: 'Gout, unspecified', chapter: 'Diseases of the musculoskeletal system' },
+  { code: 'M25.5', description: 'Pain in joint', chapter: 'Diseases of the musculoskeletal system' },
+  { code: 'M54.2', description: 'Cervicalgia', chapter: 'Diseases of the musculoskeletal system' },
+  { code: 'M54.5', description: 'Low back pain', chapter: 'Diseases of the musculoskeletal system' },
+  { code: 'M62.6', description: 'Muscle strain', chapter: 'Diseases of the musculoskeletal system' },
+  { code: 'M77.1', description: 'Lateral epicondylitis', chapter: 'Diseases of the musculoskeletal system' },
+  { code: 'M79.1', description: 'Myalgia', chapter: 'Diseases of the musculoskeletal system' },
+  { code: 'M79.6', description: 'Pain in limb', chapter: 'Diseases of the musculoskeletal system' },
+
+  // Genitourinary system (N00-N99)
+  { code: 'N20.0', description: 'Calculus of kidney', chapter: 'Diseases of the genitourinary system' },
+  { code: 'N30.0', description: 'Acute cystitis', chapter: 'Diseases of the genitourinary system' },
+  { code: 'N39.0', description: 'Urinary tract infection, site not specified', chapter: 'Diseases of the genitourinary system' },
+  { code: 'N76.0', description: 'Acute vaginitis', chapter: 'Diseases of the genitourinary system' },
+  { code: 'N92.0', description: 'Excessive and frequent menstruation with regular cycle', chapter: 'Diseases of the genitourinary system' },
+  { code: 'N94.4', description: 'Primary dysmenorrhoea', chapter: 'Diseases of the genitourinary system' },
+  { code: 'N94.6', description: 'Dysmenorrhoea, unspecified', chapter: 'Diseases of the genitourinary system' },
+  { code: 'N91.2', description: 'Amenorrhoea, unspecified', chapter: 'Diseases of the genitourinary system' },
+
+  // Pregnancy (O00-O99)
+  { code: 'O21.0', description: 'Mild hyperemesis gravidarum', chapter: 'Pregnancy, childbirth and the puerperium' },
+  { code: 'Z32.1', description: 'Pregnancy confirmed', chapter: 'Factors influencing health status' },
+
+  // Symptoms, signs and abnormal findings (R00-R99)
+  { code: 'R00.0', description: 'Tachycardia, unspecified', chapter: 'Symptoms, signs and abnormal findings' },
+  { code: 'R00.2', description: 'Palpitations', chapter: 'Symptoms, signs and abnormal findings' },
+  { code: 'R03.0', description: 'Elevated blood-pressure reading, without diagnosis of hypertension', chapter: 'Symptoms, signs and abnormal findings' },
+  { code: 'R04.0', description: 'Epistaxis', chapter: 'Symptoms, signs and abnormal findings' },
+  { code: 'R05', description: 'Cough', chapter: 'Symptoms, signs and abnormal findings' },
+  { code: 'R06.0', description: 'Dyspnoea', chapter: 'Symptoms, signs and abnormal findings' },
+  { code: 'R06.4', description: 'Hyperventilation', chapter: 'Symptoms, signs and abnormal findings' },
+  { code: 'R07.4', description: 'Chest pain, unspecified', chapter: 'Symptoms, signs and abnormal findings' },
+  { code: 'R10.1', description: 'Pain localized to upper abdomen (epigastric pain)', chapter: 'Symptoms, signs and abnormal findings' },
+  { code: 'R10.4', description: 'Other and unspecified abdominal pain', chapter: 'Symptoms, signs and abnormal findings' },
+  { code: 'R11', description: 'Nausea and vomiting', chapter: 'Symptoms, signs and abnormal findings' },
+  { code: 'R19.7', description: 'Diarrhoea, unspecified', chapter: 'Symptoms, signs and abnormal findings' },
+  { code: 'R21', description: 'Rash and other nonspecific skin eruption', chapter: 'Symptoms, signs and abnormal findings' },
+  { code: 'R42', description: 'Dizziness and giddiness', chapter: 'Symptoms, signs and abnormal findings' },
+  { code: 'R50.9', description: 'Fever, unspecified', chapter: 'Symptoms, signs and abnormal findings' },
+  { code: 'R51', description: 'Headache', chapter: 'Symptoms, signs and abnormal findings' },
+  { code: 'R52.9', description: 'Pain, unspecified', chapter: 'Symptoms, signs and abnormal findings' },
+  { code: 'R53', description: 'Malaise and fatigue', chapter: 'Symptoms, signs and abnormal findings' },
+  { code: 'R55', description: 'Syncope and collapse', chapter: 'Symptoms, signs and abnormal findings' },
+  { code: 'R56.8', description: 'Other and unspecified convulsions', chapter: 'Symptoms, signs and abnormal findings' },
+  { code: 'R73.9', description: 'Hyperglycaemia, unspecified', chapter: 'Symptoms, signs and abnormal findings' },
+
+  // Injury and poisoning (S00-T98)
+  { code: 'S00.9', description: 'Superficial injury of head, part unspecified', chapter: 'Injury, poisoning and external causes' },
+  { code: 'S01.9', description: 'Open wound of head, part unspecified', chapter: 'Injury, poisoning and external causes' },
+  { code: 'S06.0', description: 'Concussion', chapter: 'Injury, poisoning and external causes' },
+  { code: 'S09.9', description: 'Unspecified injury of head', chapter: 'Injury, poisoning and external causes' },
+  { code: 'S13.4', description: 'Sprain and strain of cervical spine', chapter: 'Injury, poisoning and external causes' },
+  { code: 'S33.5', description: 'Sprain and strain of lumbar spine', chapter: 'Injury, poisoning and external causes' },
+  { code: 'S42.0', description: 'Fracture of clavicle', chapter: 'Injury, poisoning and external causes' },
+  { code: 'S52.5', description: 'Fracture of lower end of radius', chapter: 'Injury, poisoning and external causes' },
+  { code: 'S60.0', description: 'Contusion of finger(s) without damage to nail', chapter: 'Injury, poisoning and external causes' },
+  { code: 'S61.0', description: 'Open wound of finger(s) without damage to nail', chapter: 'Injury, poisoning and external causes' },
+  { code: 'S63.5', description: 'Sprain and strain of wrist', chapter: 'Injury, poisoning and external causes' },
+  { code: 'S80.0', description: 'Contusion of knee', chapter: 'Injury, poisoning and external causes' },
+  { code: 'S81.0', description: 'Open wound of knee', chapter: 'Injury, poisoning and external causes' },
+  { code: 'S83.6', description: 'Sprain and strain of other and unspecified parts of knee', chapter: 'Injury, poisoning and external causes' },
+  { code: 'S90.3', description: 'Contusion of other and unspecified parts of foot', chapter: 'Injury, poisoning and external causes' },
+  { code: 'S93.4', description: 'Sprain and strain of ankle', chapter: 'Injury, poisoning and external causes' },
+  { code: 'T00.9', description: 'Multiple superficial injuries, unspecified', chapter: 'Injury, poisoning and external causes' },
+  { code: 'T14.0', description: 'Superficial injury of unspecified body region (abrasion)', chapter: 'Injury, poisoning and external causes' },
+  { code: 'T14.1', description: 'Open wound of unspecified body region', chapter: 'Injury, poisoning and external causes' },
+  { code: 'T15.9', description: 'Foreign body on external eye, part unspecified', chapter: 'Injury, poisoning and external causes' },
+  { code: 'T30.0', description: 'Burn of unspecified body region, unspecified degree', chapter: 'Injury, poisoning and external causes' },
+  { code: 'T63.4', description: 'Toxic effect of venom of other arthropods (insect bite)', chapter: 'Injury, poisoning and external causes' },
+  { code: 'T62.9', description: 'Toxic effect of noxious substance eaten as food, unspecified (food poisoning)', chapter: 'Injury, poisoning and external causes' },
+  { code: 'T67.0', description: 'Heatstroke and sunstroke', chapter: 'Injury, poisoning and external causes' },
+  { code: 'T67.5', description: 'Heat exhaustion, unspecified', chapter: 'Injury, poisoning and external causes' },
+  { code: 'T78.3', description: 'Angioneurotic oedema', chapter: 'Injury, poisoning and external causes' },
+  { code: 'T78.4', description: 'Allergy, unspecified', chapter: 'Injury, poisoning and external causes' },
+  { code: 'T78.2', description: 'Anaphylactic shock, unspecified', chapter: 'Injury, poisoning and external causes' },
+  { code: 'T88.7', description: 'Unspecified adverse effect of drug or medicament', chapter: 'Injury, poisoning and external causes' },
+  { code: 'W54', description: 'Bitten or struck by dog', chapter: 'Injury, poisoning and external causes' },
+
+  // Factors influencing health status and contact with health services (Z00-Z99)
+  { code: 'Z00.0', description: 'General medical examination', chapter: 'Factors influencing health status' },
+  { code: 'Z01.2', description: 'Dental examination', chapter: 'Factors influencing health status' },
+  { code: 'Z02.1', description: 'Pre-employment examination', chapter: 'Factors influencing health status' },
+  { code: 'Z02.5', description: 'Examination for participation in sport', chapter: 'Factors influencing health status' },
+  { code: 'Z02.7', description: 'Issue of medical certificate', chapter: 'Factors influencing health status' },
+  { code: 'Z09.9', description: 'Follow-up examination after unspecified treatment', chapter: 'Factors influencing health status' },
+  { code: 'Z20.3', description: 'Contact with and exposure to rabies', chapter: 'Factors influencing health status' },
+  { code: 'Z23.5', description: 'Need for immunization against tetanus alone', chapter: 'Factors influencing health status' },
+  { code: 'Z30.0', description: 'General counselling and advice on contraception', chapter: 'Factors influencing health status' },
+  { code: 'Z48.0', description: 'Attention to surgical dressings and sutures', chapter: 'Factors influencing health status' },
+  { code: 'Z71.1', description: 'Person with feared complaint in whom no diagnosis is made', chapter: 'Factors influencing health status' },
+  { code: 'Z76.0', description: 'Issue of repeat prescription', chapter: 'Factors influencing health status' }
+];
+
+const ICD10_BY_CODE = new Map(ICD10_CODES.map(entry => [entry.code, entry]));
+
+export const getIcd10Code = (code: string): Icd10Code | undefined => ICD10_BY_CODE.get(code.toUpperCase());
+
+// Codes matching the query by code prefix first, then by words in the description
+export const searchIcd10Codes = (query: string, limit: number = 20): Icd10Code[] => {
+  const normalized = query.trim().toLowerCase();
+  if (!normalized) return [];
+
+  const codeMatches = ICD10_CODES.filter(entry =>
+    entry.code.toLowerCase().startsWith(normalized) ||
+    entry.code.replace('.', '').toLowerCase().startsWith(normalized)
+  );
+
+  const terms = normalized.split(/\s+/);
+  const descriptionMatches = ICD10_CODES.filter(entry =>
+    !codeMatches.includes(entry) &&
+    terms.every(term => entry.description.toLowerCase().includes(term))
+  );
+
+  return [...codeMatches, ...descriptionMatches].slice(0, limit);
+};
+
+// Letter (U is reserved), two digits or a digit and A/B, then up to four characters after the dot
+const ICD10_CODE_PATTERN = /^[A-TV-Z][0-9][0-9AB](\.[0-9A-TV-Z]{1,4})?$/;
+
+export const MANUAL_ICD10_CHAPTER = 'Entered manually';
+
+export const isValidIcd10Code = (code: string): boolean => ICD10_CODE_PATTERN.test(code.trim().toUpperCase());
+
+// "K35.8 Acute appendicitis" -> a code outside the bundled list with its description;
+// null unless the first word is a well-formed code that is not bundled and a description follows
+export const parseManualIcd10Code = (input: string): Icd10Code | null => {
+  const match = input.trim().match(/^(\S+)\s+(.+)$/);
+  if (!match) return null;
+
+  const code = match[1].toUpperCase();
+  if (!isValidIcd10Code(code) || getIcd10Code(code)) return null;
+
+  return { code, description: match[2].trim(), chapter: MANUAL_ICD10_CHAPTER };
+};
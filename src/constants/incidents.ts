@@ -0,0 +1,76 @@
+// Injury and incident report options
+// These can be easily modified to add or remove campus locations, mechanisms or dispositions
+
+export type InjuryMechanism =
+  | 'fall'
+  | 'sports'
+  | 'collision'
+  | 'sharp_object'
+  | 'burn'
+  | 'chemical_exposure'
+  | 'animal_bite'
+  | 'vehicular'
+  | 'assault'
+  | 'overexertion'
+  | 'other';
+
+export type IncidentDisposition =
+  | 'returned_to_class'
+  | 'returned_to_work'
+  | 'sent_home'
+  | 'referred'
+  | 'hospitalized';
+
+// Places of injury (POI) on campus, used to group incidents on the hotspot report
+export const CAMPUS_LOCATIONS = [
+  'Classroom',
+  'Laboratory',
+  'Workshop',
+  'Library',
+  'Office',
+  'Canteen',
+  'Dormitory',
+  'Gymnasium',
+  'Sports Field / Oval',
+  'Swimming Pool',
+  'Stairs / Hallway',
+  'Restroom',
+  'Campus Road / Walkway',
+  'Parking Area',
+  'Agricultural Field / Farm',
+  'Animal Facility',
+  'Off-campus',
+  'Other'
+];
+
+export const INJURY_MECHANISM_LABELS: Record<InjuryMechanism, string> = {
+  fall: 'Fall / Slip / Trip',
+  sports: 'Sports or PE Activity',
+  collision: 'Struck by or Against Object',
+  sharp_object: 'Cut by Sharp Object',
+  burn: 'Burn / Scald',
+  chemical_exposure: 'Chemical Exposure',
+  animal_bite: 'Animal Bite or Scratch',
+  vehicular: 'Vehicular Accident',
+  assault: 'Assault / Altercation',
+  overexertion: 'Lifting / Overexertion',
+  other: 'Other'
+};
+
+export const INCIDENT_DISPOSITION_LABELS: Record<IncidentDisposition, string> = {
+  returned_to_class: 'Returned to Class',
+  returned_to_work: 'Returned to Work',
+  sent_home: 'Sent Home',
+  referred: 'Referred to Hospital / Specialist',
+  hospitalized: 'Brought to Hospital'
+};
+
+// Same injury checkboxes as vital signs and triage
+export const INJURY_TYPES: { field: 'injury_abrasion' | 'injury_contusion' | 'injury_fracture' | 'injury_laceration' | 'injury_puncture' | 'injury_sprain'; label: string }[] = [
+  { field: 'injury_abrasion', label: 'Abrasion' },
+  { field: 'injury_contusion', label: 'Contusion' },
+  { field: 'injury_fracture', label: 'Fracture' },
+  { field: 'injury_laceration', label: 'Laceration' },
+  { field: 'injury_puncture', label: 'Puncture' },
+  { field: 'injury_sprain', label: 'Sprain' }
+];
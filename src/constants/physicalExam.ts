@@ -0,0 +1,48 @@
+// Physical examination form sections and lab tests for annual and pre-enrollment clearance
+// These can be easily modified to add or remove sections or tests
+
+export type PhysicalExamPurpose = 'pre_enrollment' | 'annual' | 'pre_employment';
+
+export type ClearanceStatus = 'pending' | 'fit' | 'unfit';
+
+export type ExamFindingStatus = 'normal' | 'abnormal';
+
+export type LabResultStatus = 'normal' | 'abnormal' | 'not_done';
+
+export const PHYSICAL_EXAM_PURPOSE_LABELS: Record<PhysicalExamPurpose, string> = {
+  pre_enrollment: 'Pre-enrollment',
+  annual: 'Annual',
+  pre_employment: 'Pre-employment'
+};
+
+export const CLEARANCE_STATUS_LABELS: Record<ClearanceStatus, string> = {
+  pending: 'Pending',
+  fit: 'Fit',
+  unfit: 'Unfit'
+};
+
+// Body systems examined, in the order they appear on the form and certificate
+export const PHYSICAL_EXAM_SYSTEMS: { key: string; label: string }[] = [
+  { key: 'general_survey', label: 'General Survey' },
+  { key: 'skin', label: 'Skin' },
+  { key: 'heent', label: 'HEENT' },
+  { key: 'chest_lungs', label: 'Chest and Lungs' },
+  { key: 'heart', label: 'Heart' },
+  { key: 'abdomen', label: 'Abdomen' },
+  { key: 'genitourinary', label: 'Genitourinary' },
+  { key: 'extremities', label: 'Extremities' },
+  { key: 'neurologic', label: 'Neurologic' }
+];
+
+// Tests requested for clearance; results are usually brought in from an outside laboratory
+export const PHYSICAL_EXAM_LAB_TESTS: { key: string; label: string }[] = [
+  { key: 'cbc', label: 'Complete Blood Count' },
+  { key: 'urinalysis', label: 'Urinalysis' },
+  { key: 'fecalysis', label: 'Fecalysis' },
+  { key: 'chest_xray', label: 'Chest X-ray' },
+  { key: 'drug_test', label: 'Drug Test' },
+  { key: 'hbsag', label: 'HBsAg Screening' }
+];
+
+// Philippine school years open in August; a school year is written "2026-2027"
+export const SCHOOL_YEAR_START_MONTH = 8;
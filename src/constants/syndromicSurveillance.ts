@@ -0,0 +1,68 @@
+// Syndromic surveillance settings
+// These can be easily modified to add syndromes, keywords (English and Filipino) or tune the spike detection
+
+export type SyndromeKey =
+  | 'respiratory'
+  | 'influenza_like'
+  | 'gastrointestinal'
+  | 'fever'
+  | 'rash'
+  | 'conjunctivitis';
+
+// A chief complaint falls under every syndrome with a matching keyword; keywords match whole
+// words or phrases, ignoring case
+export const SYNDROMES: { key: SyndromeKey; label: string; keywords: string[] }[] = [
+  {
+    key: 'respiratory',
+    label: 'Respiratory',
+    keywords: [
+      'cough', 'coughing', 'colds', 'cold', 'runny nose', 'rhinorrhea', 'nasal congestion', 'clogged nose',
+      'sore throat', 'throat pain', 'sneezing', 'dyspnea', 'shortness of breath', 'difficulty breathing',
+      'wheezing', 'asthma', 'urti', 'uri', 'pharyngitis', 'tonsillitis', 'ubo', 'sipon'
+    ]
+  },
+  {
+    key: 'influenza_like',
+    label: 'Influenza-like Illness',
+    keywords: ['flu', 'influenza', 'ili', 'trangkaso', 'body malaise', 'body aches', 'myalgia']
+  },
+  {
+    key: 'gastrointestinal',
+    label: 'Gastrointestinal',
+    keywords: [
+      'diarrhea', 'diarrhoea', 'lbm', 'loose bowel', 'loose stools', 'vomiting', 'vomit', 'nausea',
+      'abdominal pain', 'stomach ache', 'stomachache', 'stomach pain', 'gastroenteritis', 'acute gastro',
+      'food poisoning', 'pagtatae', 'pagsusuka'
+    ]
+  },
+  {
+    key: 'fever',
+    label: 'Fever',
+    keywords: ['fever', 'febrile', 'pyrexia', 'chills', 'high temperature', 'lagnat']
+  },
+  {
+    key: 'rash',
+    label: 'Rash / Skin',
+    keywords: [
+      'rash', 'rashes', 'hives', 'urticaria', 'itchy', 'itching', 'pruritus', 'blisters', 'vesicles',
+      'chickenpox', 'chicken pox', 'varicella', 'measles', 'tigdas', 'bulutong', 'pantal'
+    ]
+  },
+  {
+    key: 'conjunctivitis',
+    label: 'Sore Eyes',
+    keywords: ['sore eyes', 'sore eye', 'red eye', 'red eyes', 'conjunctivitis', 'eye discharge', 'pink eye']
+  }
+];
+
+// Days before each day that make up its baseline
+export const SURVEILLANCE_BASELINE_DAYS = 28;
+
+// Most recent days checked for spikes (today included)
+export const SURVEILLANCE_RECENT_DAYS = 3;
+
+// A day is flagged when its count reaches both thresholds: at least this many cases...
+export const SURVEILLANCE_MIN_CASES = 3;
+
+// ...and this many standard deviations above the baseline mean
+export const SURVEILLANCE_Z_THRESHOLD = 2;
@@ -0,0 +1,110 @@
+// Vaccines recorded by the clinic and the courses that require them
+// These can be easily modified to add or remove vaccines and requirements
+
+export interface VaccineDefinition {
+  name: string;
+  // Doses in the primary series
+  series_doses: number;
+  // Days from each dose to the next one in the series (length series_doses - 1)
+  dose_intervals_days: number[];
+  // Days until a booster is due once the series is complete, if boosters are given
+  booster_interval_days?: number;
+  // Words matched against inventory item names when offering lots from stock
+  stock_keywords: string[];
+}
+
+export interface VaccineRequirement {
+  vaccine: string;
+  doses: number;
+}
+
+export const VACCINES: VaccineDefinition[] = [
+  {
+    name: 'Hepatitis B',
+    series_doses: 3,
+    dose_intervals_days: [30, 150],
+    stock_keywords: ['hepatitis b', 'hep b', 'hepb', 'engerix']
+  },
+  {
+    name: 'Influenza',
+    series_doses: 1,
+    dose_intervals_days: [],
+    booster_interval_days: 365,
+    stock_keywords: ['influenza', 'flu', 'vaxigrip']
+  },
+  {
+    name: 'Tetanus-Diphtheria (Td)',
+    series_doses: 3,
+    dose_intervals_days: [30, 180],
+    booster_interval_days: 3650,
+    stock_keywords: ['tetanus', 'td', 'tdap', 'toxoid']
+  },
+  {
+    name: 'Measles-Mumps-Rubella (MMR)',
+    series_doses: 2,
+    dose_intervals_days: [28],
+    stock_keywords: ['mmr', 'measles']
+  },
+  {
+    name: 'Varicella',
+    series_doses: 2,
+    dose_intervals_days: [28],
+    stock_keywords: ['varicella', 'varivax']
+  },
+  {
+    name: 'Human Papillomavirus (HPV)',
+    series_doses: 3,
+    dose_intervals_days: [60, 120],
+    stock_keywords: ['hpv', 'papilloma', 'gardasil']
+  },
+  {
+    name: 'Pneumococcal',
+    series_doses: 1,
+    dose_intervals_days: [],
+    stock_keywords: ['pneumococcal', 'pcv', 'ppsv']
+  },
+  {
+    name: 'Anti-Rabies (Pre-exposure)',
+    series_doses: 3,
+    dose_intervals_days: [7, 14],
+    booster_interval_days: 365,
+    stock_keywords: ['rabies', 'verorab', 'rabipur']
+  },
+  {
+    name: 'Typhoid',
+    series_doses: 1,
+    dose_intervals_days: [],
+    booster_interval_days: 1095,
+    stock_keywords: ['typhoid', 'typhim']
+  },
+  {
+    name: 'COVID-19',
+    series_doses: 2,
+    dose_intervals_days: [28],
+    stock_keywords: ['covid', 'sars-cov-2']
+  }
+];
+
+const HEALTH_SCIENCES_REQUIREMENTS: VaccineRequirement[] = [
+  { vaccine: 'Hepatitis B', doses: 3 },
+  { vaccine: 'Influenza', doses: 1 }
+];
+
+// Vaccines students of a course must have before clinical duty or fieldwork, keyed by
+// the course names in COURSE_OPTIONS
+export const REQUIRED_VACCINES_BY_COURSE: Record<string, VaccineRequirement[]> = {
+  'Nursing': [...HEALTH_SCIENCES_REQUIREMENTS, { vaccine: 'Tetanus-Diphtheria (Td)', doses: 3 }],
+  'Medical Technology': HEALTH_SCIENCES_REQUIREMENTS,
+  'Pharmacy': HEALTH_SCIENCES_REQUIREMENTS,
+  'Physical Therapy': HEALTH_SCIENCES_REQUIREMENTS,
+  'Occupational Therapy': HEALTH_SCIENCES_REQUIREMENTS,
+  'Radiologic Technology': HEALTH_SCIENCES_REQUIREMENTS,
+  'Veterinary Medicine': [
+    { vaccine: 'Anti-Rabies (Pre-exposure)', doses: 3 },
+    { vaccine: 'Tetanus-Diphtheria (Td)', doses: 3 }
+  ],
+  'Animal Science': [{ vaccine: 'Anti-Rabies (Pre-exposure)', doses: 3 }]
+};
+
+export const getVaccineDefinition = (name: string): VaccineDefinition | undefined =>
+  VACCINES.find(vaccine => vaccine.name.toLowerCase() === name.trim().toLowerCase());
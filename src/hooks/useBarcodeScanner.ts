@@ -0,0 +1,69 @@
+import { useEffect, useRef } from 'react';
+
+interface BarcodeScannerOptions {
+  enabled?: boolean;
+  minLength?: number;
+  maxKeyIntervalMs?: number;
+}
+
+const isEditableTarget = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null;
+  if (!element) return false;
+  return element.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName);
+};
+
+/**
+ * Listens for keyboard-wedge barcode/QR scanners, which "type" a code much faster
+ * than a person and finish with Enter. Keystrokes aimed at form fields are ignored,
+ * so the hook only picks up scans while nothing editable has focus.
+ */
+export const useBarcodeScanner = (
+  onScan: (code: string) => void,
+  { enabled = true, minLength = 3, maxKeyIntervalMs = 50 }: BarcodeScannerOptions = {}
+) => {
+  const bufferRef = useRef('');
+  const lastKeyTimeRef = useRef(0);
+  const onScanRef = useRef(onScan);
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target) || event.ctrlKey || event.altKey || event.metaKey) {
+        bufferRef.current = '';
+        return;
+      }
+
+      const now = Date.now();
+      // A slow keystroke starts a new code; people type far slower than scanners
+      if (now - lastKeyTimeRef.current > maxKeyIntervalMs) {
+        bufferRef.current = '';
+      }
+      lastKeyTimeRef.current = now;
+
+      if (event.key === 'Enter') {
+        const code = bufferRef.current;
+        bufferRef.current = '';
+        if (code.length >= minLength) {
+          event.preventDefault();
+          onScanRef.current(code);
+        }
+        return;
+      }
+
+      if (event.key.length === 1) {
+        bufferRef.current += event.key;
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      bufferRef.current = '';
+    };
+  }, [enabled, minLength, maxKeyIntervalMs]);
+};
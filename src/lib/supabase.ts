@@ -5,6 +5,23 @@ const supabaseAnonKey = process.env.REACT_APP_SUPABASE_ANON_KEY!;
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
+// PostgREST returns at most this many rows per request
+export const SUPABASE_PAGE_SIZE = 1000;
+
+// Reads every row of a query, one .range() page at a time, for reports that must not be
+// cut off at the page limit. The query must be ordered by a unique column so pages do not overlap.
+export const fetchAllRows = async <T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += SUPABASE_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + SUPABASE_PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...(data || []));
+    if (!data || data.length < SUPABASE_PAGE_SIZE) return rows;
+  }
+};
+
 // Database types for TypeScript
 export interface User {
   id: number;
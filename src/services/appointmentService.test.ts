@@ -0,0 +1,35 @@
+import { findOverlappingAppointment, getAppointmentEndTime, type Appointment } from './appointmentService';
+
+jest.mock('../lib/supabase', () => ({ supabase: {}, fetchAllRows: jest.fn() }));
+
+const booking = (id: number, time: string, durationMinutes: number, status: Appointment['status'] = 'scheduled') =>
+  ({ id, scheduled_time: time, duration_minutes: durationMinutes, status }) as Appointment;
+
+describe('findOverlappingAppointment', () => {
+  const bookings = [booking(1, '09:00:00', 30), booking(2, '10:00:00', 15)];
+
+  it('finds a booking that starts during an earlier, longer one', () => {
+    expect(findOverlappingAppointment(bookings, '09:15', 15)?.id).toBe(1);
+  });
+
+  it('finds a longer booking that runs into a later one', () => {
+    expect(findOverlappingAppointment(bookings, '09:45', 30)?.id).toBe(2);
+  });
+
+  it('allows back-to-back bookings', () => {
+    expect(findOverlappingAppointment(bookings, '09:30', 30)).toBeUndefined();
+    expect(findOverlappingAppointment(bookings, '08:30', 30)).toBeUndefined();
+  });
+
+  it('ignores bookings that no longer hold the time', () => {
+    const released = [booking(3, '09:00:00', 30, 'cancelled'), booking(4, '09:00:00', 30, 'no_show')];
+    expect(findOverlappingAppointment(released, '09:00', 30)).toBeUndefined();
+  });
+});
+
+describe('getAppointmentEndTime', () => {
+  it('adds the duration to the start time', () => {
+    expect(getAppointmentEndTime('09:45:00', 30)).toBe('10:15');
+    expect(getAppointmentEndTime('14:00', 60)).toBe('15:00');
+  });
+});
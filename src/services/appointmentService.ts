@@ -0,0 +1,395 @@
+import { supabase } from '../lib/supabase';
+import {
+  authService,
+  activityService,
+  patientMonitoringService,
+  type Consultation,
+  type Patient
+} from './supabaseService';
+
+export type AppointmentStatus = 'scheduled' | 'checked_in' | 'no_show' | 'cancelled';
+
+// Appointment Interface - matches appointments table
+export interface Appointment {
+  id: number;
+  patient_id: number;
+  source_consultation_id?: number | null;
+  physician_id: number;
+  physician_name: string;
+  scheduled_date: string;
+  scheduled_time: string;
+  duration_minutes: number;
+  reason: string;
+  notes?: string | null;
+  status: AppointmentStatus;
+  consultation_id?: number | null;
+  checked_in_at?: string | null;
+  checked_in_by?: number | null;
+  no_show_at?: string | null;
+  no_show_by?: number | null;
+  cancelled_at?: string | null;
+  cancelled_by?: number | null;
+  cancellation_reason?: string | null;
+  created_by?: number | null;
+  created_at: string;
+  updated_at: string;
+  patient?: Patient;
+  source_consultation?: Pick<Consultation, 'id' | 'case_number' | 'consultation_date' | 'diagnosis'> | null;
+}
+
+export type AppointmentInput = Pick<Appointment, 'physician_id' | 'scheduled_date' | 'scheduled_time' | 'duration_minutes' | 'reason' | 'notes'>;
+
+export interface Physician {
+  id: number;
+  name: string;
+}
+
+export const APPOINTMENT_STATUS_LABELS: Record<AppointmentStatus, string> = {
+  scheduled: 'Scheduled',
+  checked_in: 'Checked In',
+  no_show: 'No-Show',
+  cancelled: 'Cancelled'
+};
+
+export const APPOINTMENT_DURATIONS = [15, 30, 45, 60];
+
+// Bookings that hold the physician's time
+export const LIVE_APPOINTMENT_STATUSES: AppointmentStatus[] = ['scheduled', 'checked_in'];
+
+const APPOINTMENT_LIST_SELECT = `
+  *,
+  patient:patients (*),
+  source_consultation:consultations!appointments_source_consultation_id_fkey (id, case_number, consultation_date, diagnosis)
+`;
+
+// YYYY-MM-DD in local time, matching the scheduled_date column
+export const toDateKey = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+// "14:30:00" -> "2:30 PM"
+export const formatAppointmentTime = (time: string): string => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const suffix = hours >= 12 ? 'PM' : 'AM';
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${suffix}`;
+};
+
+const minutesOfDay = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// "09:00:00" and 30 minutes -> "09:30"
+export const getAppointmentEndTime = (time: string, durationMinutes: number): string => {
+  const end = minutesOfDay(time) + durationMinutes;
+  return `${String(Math.floor(end / 60)).padStart(2, '0')}:${String(end % 60).padStart(2, '0')}`;
+};
+
+// The live booking that a new one starting at `time` for `durationMinutes` would overlap, if any.
+// Back-to-back bookings (one ending as the next starts) do not overlap.
+export const findOverlappingAppointment = (
+  appointments: Appointment[],
+  time: string,
+  durationMinutes: number
+): Appointment | undefined => {
+  const start = minutesOfDay(time);
+  const end = start + durationMinutes;
+  return appointments.find(appointment => {
+    if (!LIVE_APPOINTMENT_STATUSES.includes(appointment.status)) return false;
+    const bookedStart = minutesOfDay(appointment.scheduled_time);
+    return bookedStart < end && start < bookedStart + appointment.duration_minutes;
+  });
+};
+
+const getCurrentUserOrThrow = () => {
+  const currentUser = authService.getCurrentUser();
+  if (!currentUser) {
+    throw new Error('You must be logged in to manage appointments');
+  }
+  return currentUser;
+};
+
+const patientName = (appointment: Appointment) =>
+  appointment.patient ? `${appointment.patient.first_name} ${appointment.patient.last_name}` : `patient #${appointment.patient_id}`;
+
+// Move an appointment between statuses; the status filter stops two users changing it at once
+const transitionAppointment = async (
+  id: number,
+  fromStatuses: AppointmentStatus[],
+  changes: Partial<Appointment>
+): Promise<Appointment> => {
+  const { data, error } = await supabase
+    .from('appointments')
+    .update(changes)
+    .eq('id', id)
+    .in('status', fromStatuses)
+    .select(APPOINTMENT_LIST_SELECT)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!data) {
+    throw new Error(`Appointment must be ${fromStatuses.map(status => APPOINTMENT_STATUS_LABELS[status].toLowerCase()).join(' or ')} to do this. It may have been updated by someone else.`);
+  }
+  return data as Appointment;
+};
+
+const logAppointmentChange = async (
+  appointment: Appointment,
+  consultationId: number | null | undefined,
+  action: string,
+  description: string,
+  details: Record<string, any> = {}
+) => {
+  await Promise.all([
+    patientMonitoringService.createPatientMonitoringLog({
+      patient_id: appointment.patient_id,
+      consultation_id: consultationId ?? undefined,
+      action,
+      description,
+      details: {
+        appointment_id: appointment.id,
+        scheduled_date: appointment.scheduled_date,
+        scheduled_time: appointment.scheduled_time,
+        physician_name: appointment.physician_name,
+        ...details
+      }
+    }),
+    activityService.logActivity({
+      action,
+      description,
+      details: { appointment_id: appointment.id, patient_id: appointment.patient_id, ...details }
+    })
+  ]);
+};
+
+// Appointment Service - follow-up bookings and the clinic calendar
+export const appointmentService = {
+  // Physicians are users with a license number, the same rule used for signing
+  async getPhysicians(): Promise<Physician[]> {
+    const { data, error } = await supabase
+      .from('users')
+      .select('id, first_name, last_name, username, license_number')
+      .not('license_number', 'is', null)
+      .neq('license_number', '')
+      .order('last_name', { ascending: true });
+
+    if (error) throw new Error(error.message);
+    return (data || []).map(user => ({
+      id: user.id,
+      name: [user.first_name, user.last_name].filter(Boolean).join(' ') || user.username
+    }));
+  },
+
+  async getAppointmentsInRange(fromDate: string, toDate: string, physicianId?: number): Promise<Appointment[]> {
+    let query = supabase
+      .from('appointments')
+      .select(APPOINTMENT_LIST_SELECT)
+      .gte('scheduled_date', fromDate)
+      .lte('scheduled_date', toDate);
+
+    if (physicianId) {
+      query = query.eq('physician_id', physicianId);
+    }
+
+    const { data, error } = await query
+      .order('scheduled_date', { ascending: true })
+      .order('scheduled_time', { ascending: true });
+
+    if (error) throw new Error(error.message);
+    return (data || []) as Appointment[];
+  },
+
+  // Today's bookings that have not been cancelled, in time order
+  // Used by the dashboard, so a failure returns no appointments instead of throwing
+  async getTodaysAppointments(): Promise<Appointment[]> {
+    try {
+      const today = toDateKey(new Date());
+      const appointments = await appointmentService.getAppointmentsInRange(today, today);
+      return appointments.filter(appointment => appointment.status !== 'cancelled');
+    } catch (error) {
+      console.error('Error fetching today\'s appointments:', error);
+      return [];
+    }
+  },
+
+  // Follow-ups booked from a consultation
+  async getAppointmentsByConsultationId(consultationId: number): Promise<Appointment[]> {
+    const { data, error } = await supabase
+      .from('appointments')
+      .select(APPOINTMENT_LIST_SELECT)
+      .eq('source_consultation_id', consultationId)
+      .order('scheduled_date', { ascending: true })
+      .order('scheduled_time', { ascending: true });
+
+    if (error) throw new Error(error.message);
+    return (data || []) as Appointment[];
+  },
+
+  async scheduleFollowUp(consultation: Consultation, input: AppointmentInput): Promise<Appointment> {
+    const currentUser = getCurrentUserOrThrow();
+
+    if (!input.physician_id) {
+      throw new Error('Select the physician the patient will see');
+    }
+    if (!input.scheduled_date || !input.scheduled_time) {
+      throw new Error('Select the date and time of the follow-up');
+    }
+    if (input.scheduled_date < toDateKey(new Date())) {
+      throw new Error('Follow-up date cannot be in the past');
+    }
+    if (!input.reason.trim()) {
+      throw new Error('Enter the reason for the follow-up');
+    }
+
+    const physicians = await appointmentService.getPhysicians();
+    const physician = physicians.find(p => p.id === input.physician_id);
+    if (!physician) {
+      throw new Error('Selected physician no longer has a license number on file');
+    }
+
+    const overlapMessage = (booked: Pick<Appointment, 'scheduled_time' | 'duration_minutes'>) =>
+      `${physician.name} already has a booking from ${formatAppointmentTime(booked.scheduled_time)} to ` +
+      `${formatAppointmentTime(getAppointmentEndTime(booked.scheduled_time, booked.duration_minutes))} on ${input.scheduled_date}`;
+
+    const sameDay = await appointmentService.getAppointmentsInRange(input.scheduled_date, input.scheduled_date, physician.id);
+    const overlapping = findOverlappingAppointment(sameDay, input.scheduled_time, input.duration_minutes);
+    if (overlapping) {
+      throw new Error(overlapMessage(overlapping));
+    }
+
+    const { data, error } = await supabase
+      .from('appointments')
+      .insert([{
+        patient_id: consultation.patient_id,
+        source_consultation_id: consultation.id,
+        physician_id: physician.id,
+        physician_name: physician.name,
+        scheduled_date: input.scheduled_date,
+        scheduled_time: input.scheduled_time,
+        duration_minutes: input.duration_minutes,
+        reason: input.reason.trim(),
+        notes: input.notes?.trim() || null,
+        status: 'scheduled',
+        created_by: currentUser.id
+      }])
+      .select(APPOINTMENT_LIST_SELECT)
+      .single();
+
+    if (error) {
+      // appointments_no_overlap, when another booking got in after the check above
+      if (error.code === '23P01') {
+        throw new Error(`${physician.name} already has a booking overlapping ${formatAppointmentTime(input.scheduled_time)} on ${input.scheduled_date}`);
+      }
+      throw new Error(error.message);
+    }
+
+    const appointment = data as Appointment;
+    await logAppointmentChange(
+      appointment,
+      consultation.id,
+      'schedule_follow_up',
+      `Scheduled follow-up for case ${consultation.case_number} with ${physician.name} on ${appointment.scheduled_date} at ${formatAppointmentTime(appointment.scheduled_time)}`,
+      { source_consultation_id: consultation.id, reason: appointment.reason }
+    );
+
+    return appointment;
+  },
+
+  // Checking in takes two steps around creating the consultation: reserveCheckIn claims the
+  // booking first, so a booking checked in elsewhere never gets a second consultation, and
+  // checkIn then links the new consultation to it
+  async reserveCheckIn(appointment: Appointment): Promise<Appointment> {
+    const currentUser = getCurrentUserOrThrow();
+
+    return transitionAppointment(appointment.id, ['scheduled'], {
+      status: 'checked_in',
+      checked_in_at: new Date().toISOString(),
+      checked_in_by: currentUser.id
+    });
+  },
+
+  // Undoes reserveCheckIn when the consultation could not be created
+  async releaseCheckIn(appointment: Appointment): Promise<void> {
+    const { error } = await supabase
+      .from('appointments')
+      .update({ status: 'scheduled', checked_in_at: null, checked_in_by: null })
+      .eq('id', appointment.id)
+      .eq('status', 'checked_in')
+      .is('consultation_id', null);
+
+    if (error) throw new Error(error.message);
+  },
+
+  // Links the consultation started from the Start Consultation form to the reserved booking
+  async checkIn(appointment: Appointment, consultation: Consultation): Promise<Appointment> {
+    getCurrentUserOrThrow();
+
+    const { data, error } = await supabase
+      .from('appointments')
+      .update({ consultation_id: consultation.id })
+      .eq('id', appointment.id)
+      .eq('status', 'checked_in')
+      .is('consultation_id', null)
+      .select(APPOINTMENT_LIST_SELECT)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    if (!data) {
+      throw new Error('This appointment is no longer reserved for the new consultation. It may have been updated by someone else.');
+    }
+    const updated = data as Appointment;
+
+    await logAppointmentChange(
+      updated,
+      consultation.id,
+      'check_in_appointment',
+      `Checked in ${patientName(updated)} for follow-up with ${updated.physician_name} (case ${consultation.case_number})`,
+      { consultation_id: consultation.id, source_consultation_id: updated.source_consultation_id }
+    );
+
+    return updated;
+  },
+
+  async markNoShow(appointment: Appointment): Promise<Appointment> {
+    const currentUser = getCurrentUserOrThrow();
+
+    const updated = await transitionAppointment(appointment.id, ['scheduled'], {
+      status: 'no_show',
+      no_show_at: new Date().toISOString(),
+      no_show_by: currentUser.id
+    });
+
+    await logAppointmentChange(
+      updated,
+      updated.source_consultation_id,
+      'appointment_no_show',
+      `${patientName(updated)} did not show for the ${formatAppointmentTime(updated.scheduled_time)} follow-up on ${updated.scheduled_date}`
+    );
+
+    return updated;
+  },
+
+  async cancelAppointment(appointment: Appointment, reason?: string): Promise<Appointment> {
+    const currentUser = getCurrentUserOrThrow();
+
+    const updated = await transitionAppointment(appointment.id, ['scheduled'], {
+      status: 'cancelled',
+      cancelled_at: new Date().toISOString(),
+      cancelled_by: currentUser.id,
+      cancellation_reason: reason?.trim() || null
+    });
+
+    await logAppointmentChange(
+      updated,
+      updated.source_consultation_id,
+      'cancel_appointment',
+      `Cancelled follow-up for ${patientName(updated)} on ${updated.scheduled_date} at ${formatAppointmentTime(updated.scheduled_time)}`,
+      { reason: updated.cancellation_reason }
+    );
+
+    return updated;
+  }
+};
@@ -0,0 +1,44 @@
+import { sortBatchesFefo, type InventoryBatch } from './batchService';
+
+jest.mock('../lib/supabase', () => ({ supabase: {}, fetchAllRows: jest.fn() }));
+
+const batch = (id: number, receivedDate: string, expirationDate: string | null): InventoryBatch => ({
+  id,
+  inventory_item_id: 1,
+  lot_number: `LOT-${id}`,
+  received_date: receivedDate,
+  expiration_date: expirationDate,
+  quantity: 10,
+  received_quantity: 10,
+  created_at: receivedDate,
+  updated_at: receivedDate
+});
+
+describe('sortBatchesFefo', () => {
+  it('orders lots by earliest expiry, with lots without an expiry last', () => {
+    const batches = [
+      batch(1, '2026-01-01', null),
+      batch(2, '2026-01-01', '2027-06-30'),
+      batch(3, '2026-01-01', '2026-12-31')
+    ];
+
+    expect(sortBatchesFefo(batches).map(item => item.id)).toEqual([3, 2, 1]);
+  });
+
+  it('breaks expiry ties by the lot received first, then by id', () => {
+    const batches = [
+      batch(4, '2026-03-01', '2027-01-31'),
+      batch(2, '2026-02-01', '2027-01-31'),
+      batch(1, '2026-02-01', '2027-01-31')
+    ];
+
+    expect(sortBatchesFefo(batches).map(item => item.id)).toEqual([1, 2, 4]);
+  });
+
+  it('does not reorder the array it is given', () => {
+    const batches = [batch(1, '2026-01-01', null), batch(2, '2026-01-01', '2026-12-31')];
+    sortBatchesFefo(batches);
+
+    expect(batches.map(item => item.id)).toEqual([1, 2]);
+  });
+});
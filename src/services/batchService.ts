@@ -0,0 +1,213 @@
+import { supabase } from '../lib/supabase';
+import { authService, activityService, inventoryService } from './supabaseService';
+
+// Inventory Batch Interface - matches inventory_batches table
+export interface InventoryBatch {
+  id: number;
+  inventory_item_id: number;
+  lot_number: string;
+  received_date: string;
+  expiration_date?: string | null;
+  supplier?: string;
+  quantity: number;
+  received_quantity: number;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+  created_by?: number;
+  inventory_item?: {
+    id: number;
+    generic_name: string;
+    brand_name?: string;
+    code?: string;
+    category?: string;
+    department: string;
+    unit_of_measurement?: string;
+    status: string;
+  };
+}
+
+export interface ReceiveBatchRequest {
+  lot_number: string;
+  received_date?: string;
+  expiration_date?: string | null;
+  supplier?: string;
+  quantity: number;
+  notes?: string;
+}
+
+export interface BatchAllocation {
+  batch_id: number;
+  lot_number: string;
+  expiration_date?: string | null;
+  quantity: number;
+}
+
+// Days until a batch expires (negative when already expired), or null without an expiry
+export const getDaysUntilExpiry = (expirationDate?: string | null): number | null => {
+  if (!expirationDate) return null;
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const expiry = new Date(expirationDate);
+  expiry.setHours(0, 0, 0, 0);
+  return Math.round((expiry.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+};
+
+// Sort batches first-expiry-first-out: earliest expiry first, lots without expiry last
+export const sortBatchesFefo = (batches: InventoryBatch[]): InventoryBatch[] => {
+  return [...batches].sort((a, b) => {
+    if (a.expiration_date && b.expiration_date && a.expiration_date !== b.expiration_date) {
+      return a.expiration_date < b.expiration_date ? -1 : 1;
+    }
+    if (a.expiration_date && !b.expiration_date) return -1;
+    if (!a.expiration_date && b.expiration_date) return 1;
+    if (a.received_date !== b.received_date) {
+      return a.received_date < b.received_date ? -1 : 1;
+    }
+    return a.id - b.id;
+  });
+};
+
+// Batch Service - lot tracking under inventory items
+export const batchService = {
+  async getBatchesByItemId(itemId: number, includeEmpty: boolean = true): Promise<InventoryBatch[]> {
+    let query = supabase
+      .from('inventory_batches')
+      .select('*')
+      .eq('inventory_item_id', itemId);
+
+    if (!includeEmpty) {
+      query = query.gt('quantity', 0);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw new Error(error.message);
+    return sortBatchesFefo(data || []);
+  },
+
+  // All non-empty batches with their parent item, used for expiration reporting
+  async getActiveBatches(): Promise<InventoryBatch[]> {
+    const { data, error } = await supabase
+      .from('inventory_batches')
+      .select(`
+        *,
+        inventory_item:inventory_items (
+          id,
+          generic_name,
+          brand_name,
+          code,
+          category,
+          department,
+          unit_of_measurement,
+          status
+        )
+      `)
+      .gt('quantity', 0)
+      .order('expiration_date', { ascending: true, nullsFirst: false });
+
+    if (error) throw new Error(error.message);
+    return (data || []).filter((batch: InventoryBatch) => batch.inventory_item?.status !== 'archived');
+  },
+
+  async hasBatches(itemId: number): Promise<boolean> {
+    const { count, error } = await supabase
+      .from('inventory_batches')
+      .select('id', { count: 'exact', head: true })
+      .eq('inventory_item_id', itemId);
+
+    if (error) throw new Error(error.message);
+    return (count || 0) > 0;
+  },
+
+  // Receive a new lot; the receive_inventory_batch database function writes the lot and its
+  // stock ledger entry together, and the batch trigger adds it to the item's stock and expiry
+  async receiveBatch(itemId: number, request: ReceiveBatchRequest): Promise<InventoryBatch> {
+    if (!request.lot_number?.trim()) {
+      throw new Error('Lot number is required');
+    }
+    if (!Number.isInteger(request.quantity) || request.quantity <= 0) {
+      throw new Error('Quantity must be a whole number greater than zero');
+    }
+
+    const currentUser = authService.getCurrentUser();
+
+    const { data, error } = await supabase.rpc('receive_inventory_batch', {
+      p_inventory_item_id: itemId,
+      p_lot_number: request.lot_number.trim(),
+      p_received_date: request.received_date || new Date().toISOString().split('T')[0],
+      p_expiration_date: request.expiration_date || null,
+      p_supplier: request.supplier?.trim() || null,
+      p_quantity: request.quantity,
+      p_notes: request.notes?.trim() || null,
+      p_performed_by: currentUser?.id ?? null
+    });
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error(`Lot ${request.lot_number} already exists for this item`);
+      }
+      throw new Error(error.message);
+    }
+
+    const item = await inventoryService.refreshItemStatus(itemId);
+
+    await activityService.logActivity({
+      action: 'receive_batch',
+      description: `Received lot ${data.lot_number} (${data.quantity} ${item.unit_of_measurement || 'pcs'}) of ${item.generic_name}`,
+      details: {
+        inventory_item_id: itemId,
+        batch_id: data.id,
+        lot_number: data.lot_number,
+        quantity: data.quantity,
+        expiration_date: data.expiration_date,
+        supplier: data.supplier
+      }
+    });
+
+    return data;
+  },
+
+  // Correct lot details; quantities change only through receiving and consumption
+  async updateBatchDetails(
+    batchId: number,
+    details: Pick<Partial<InventoryBatch>, 'lot_number' | 'expiration_date' | 'supplier' | 'notes'>
+  ): Promise<InventoryBatch> {
+    const { data, error } = await supabase
+      .from('inventory_batches')
+      .update({
+        ...details,
+        expiration_date: details.expiration_date || null
+      })
+      .eq('id', batchId)
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+
+    await inventoryService.refreshItemStatus(data.inventory_item_id);
+
+    await activityService.logActivity({
+      action: 'update_batch',
+      description: `Updated lot ${data.lot_number} details`,
+      details: {
+        inventory_item_id: data.inventory_item_id,
+        batch_id: batchId,
+        changes: details
+      }
+    });
+
+    return data;
+  },
+
+  // Recompute the item's total stock and next expiry from its lots
+  async syncItemFromBatches(itemId: number): Promise<void> {
+    const { error } = await supabase.rpc('sync_inventory_item_from_batches', {
+      p_inventory_item_id: itemId
+    });
+
+    if (error) throw new Error(error.message);
+
+    await inventoryService.refreshItemStatus(itemId);
+  }
+};
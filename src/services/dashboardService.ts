@@ -1,4 +1,7 @@
 import { inventoryService, userService, activityService, patientMonitoringService } from './supabaseService';
+import { batchService, getDaysUntilExpiry } from './batchService';
+import { maintenanceService, SERVICE_TYPE_LABELS } from './maintenanceService';
+import { diagnosisService } from './diagnosisService';
 
 export interface DashboardStats {
   totalItems: number;
@@ -71,10 +74,26 @@ export interface TopPerformingCategories {
   [key: string]: any;
 }
 
+export interface ExpiringBatchData {
+  batchId: number;
+  itemId: number;
+  itemName: string;
+  lotNumber: string;
+  department: string;
+  category: string;
+  expirationDate: string;
+  quantity: number;
+  unit: string;
+  [key: string]: any;
+}
+
 export interface ExpirationAnalysisData {
   timeframe: string;
   expiringItems: number;
+  expiringBatches: number;
+  expiringQuantity: number;
   categories: string[];
+  batches: ExpiringBatchData[];
   [key: string]: any;
 }
 
@@ -87,6 +106,17 @@ export interface EquipmentStatusData {
   [key: string]: any;
 }
 
+export interface OverdueEquipmentData {
+  scheduleId: number;
+  itemId: number;
+  itemName: string;
+  department: string;
+  maintenanceType: string;
+  nextDueDate: string;
+  daysOverdue: number;
+  status: string;
+}
+
 export interface MedicineStatusData {
   status: string;
   count: number;
@@ -133,6 +163,16 @@ export interface PatientDistributionData {
   [key: string]: any;
 }
 
+export interface TopDiagnosisData {
+  code: string;
+  description: string;
+  count: number;
+  byPatientType: {
+    [patientType: string]: number;
+  };
+  [key: string]: any;
+}
+
 class DashboardService {
   async getDashboardStats(): Promise<DashboardStats> {
     try {
@@ -335,11 +375,26 @@ class DashboardService {
     }
   }
 
+  // Expiration is reported per batch (lot) on hand, since one item can hold lots with different expiry dates
   async getExpirationAnalysis(): Promise<ExpirationAnalysisData[]> {
     try {
-      const allItems = await inventoryService.getAllItems();
+      const activeBatches = await batchService.getActiveBatches();
       const currentDate = new Date();
 
+      const batches: ExpiringBatchData[] = activeBatches
+        .filter(batch => batch.expiration_date && batch.inventory_item)
+        .map(batch => ({
+          batchId: batch.id,
+          itemId: batch.inventory_item_id,
+          itemName: batch.inventory_item!.generic_name,
+          lotNumber: batch.lot_number,
+          department: batch.inventory_item!.department,
+          category: batch.inventory_item!.category || 'Uncategorized',
+          expirationDate: batch.expiration_date as string,
+          quantity: batch.quantity,
+          unit: batch.inventory_item!.unit_of_measurement || 'pcs'
+        }));
+
       const timeframes = [
         { name: 'Expired', days: -1 },
         { name: 'Next 7 Days', days: 7 },
@@ -348,32 +403,31 @@ class DashboardService {
       ];
 
       return timeframes.map(timeframe => {
-        let filteredItems;
+        let filteredBatches;
 
         if (timeframe.days === -1) {
-          // Expired items
-          filteredItems = allItems.filter((item: any) => {
-            if (!item.expiration_date) return false;
-            return new Date(item.expiration_date) < currentDate;
-          });
+          // Expired batches still on hand
+          filteredBatches = batches.filter(batch => new Date(batch.expirationDate) < currentDate);
         } else {
-          // Items expiring within timeframe
+          // Batches expiring within timeframe
           const futureDate = new Date(currentDate);
           futureDate.setDate(futureDate.getDate() + timeframe.days);
 
-          filteredItems = allItems.filter((item: any) => {
-            if (!item.expiration_date) return false;
-            const expirationDate = new Date(item.expiration_date);
+          filteredBatches = batches.filter(batch => {
+            const expirationDate = new Date(batch.expirationDate);
             return expirationDate >= currentDate && expirationDate <= futureDate;
           });
         }
 
-        const categories = Array.from(new Set(filteredItems.map((item: any) => item.category || 'Uncategorized')));
+        const categories = Array.from(new Set(filteredBatches.map(batch => batch.category)));
 
         return {
           timeframe: timeframe.name,
-          expiringItems: filteredItems.length,
-          categories
+          expiringItems: new Set(filteredBatches.map(batch => batch.itemId)).size,
+          expiringBatches: filteredBatches.length,
+          expiringQuantity: filteredBatches.reduce((sum, batch) => sum + batch.quantity, 0),
+          categories,
+          batches: filteredBatches
         };
       });
     } catch (error) {
@@ -534,6 +588,30 @@ class DashboardService {
     }
   }
 
+  // Equipment whose preventive maintenance, calibration or inspection is due today or overdue
+  async getOverdueEquipment(): Promise<OverdueEquipmentData[]> {
+    try {
+      const today = new Date().toISOString().split('T')[0];
+      const dueSchedules = await maintenanceService.getSchedulesDueBy(today);
+
+      return dueSchedules
+        .filter(schedule => schedule.inventory_item)
+        .map(schedule => ({
+          scheduleId: schedule.id,
+          itemId: schedule.inventory_item_id,
+          itemName: schedule.inventory_item!.generic_name,
+          department: schedule.inventory_item!.department,
+          maintenanceType: SERVICE_TYPE_LABELS[schedule.maintenance_type],
+          nextDueDate: schedule.next_due_date,
+          daysOverdue: -(getDaysUntilExpiry(schedule.next_due_date) || 0),
+          status: schedule.inventory_item!.status
+        }));
+    } catch (error) {
+      console.error('Error fetching overdue equipment:', error);
+      return [];
+    }
+  }
+
   async getMedicineStatus(): Promise<MedicineStatusData[]> {
     try {
       const allItems = await inventoryService.getAllItems();
@@ -794,6 +872,38 @@ class DashboardService {
     }
   }
 
+  // Most frequent coded diagnoses (primary and secondary) of consultations in the period
+  async getTopDiagnoses(days: number = 30, limit: number = 10): Promise<TopDiagnosisData[]> {
+    try {
+      const since = new Date();
+      since.setDate(since.getDate() - (days - 1));
+
+      const diagnoses = await diagnosisService.getDiagnosesSince(since.toISOString().split('T')[0]);
+      const byCode = new Map<string, TopDiagnosisData>();
+
+      diagnoses.forEach(diagnosis => {
+        const entry = byCode.get(diagnosis.icd10_code) || {
+          code: diagnosis.icd10_code,
+          description: diagnosis.icd10_description,
+          count: 0,
+          byPatientType: {}
+        };
+        const patientType = diagnosis.patient_type || 'Unknown';
+
+        entry.count++;
+        entry.byPatientType[patientType] = (entry.byPatientType[patientType] || 0) + 1;
+        byCode.set(diagnosis.icd10_code, entry);
+      });
+
+      return Array.from(byCode.values())
+        .sort((a, b) => b.count - a.count)
+        .slice(0, limit);
+    } catch (error) {
+      console.error('Error fetching top diagnoses:', error);
+      return [];
+    }
+  }
+
   async getPatientDistribution(): Promise<PatientDistributionData[]> {
     try {
       const patients = await patientMonitoringService.getPatients();
@@ -0,0 +1,277 @@
+import { supabase } from '../lib/supabase';
+import {
+  authService,
+  activityService,
+  patientMonitoringService,
+  type Consultation
+} from './supabaseService';
+import {
+  getDentalCondition,
+  TOOTH_SURFACES,
+  type DentalCondition,
+  type ToothSurface
+} from '../constants/dentalChart';
+
+// Dental Chart Entry Interface - matches dental_chart_entries table
+export interface DentalChartEntry {
+  id: number;
+  patient_id: number;
+  consultation_id: number;
+  tooth_number: number;
+  surfaces: ToothSurface[];
+  condition: DentalCondition;
+  procedure?: string | null;
+  notes?: string | null;
+  recorded_at: string;
+  recorded_by?: number | null;
+  consultation?: Pick<Consultation, 'id' | 'case_number' | 'consultation_date' | 'status'>;
+}
+
+export type DentalChartEntryInput = Pick<DentalChartEntry, 'tooth_number' | 'surfaces' | 'condition' | 'procedure' | 'notes'>;
+
+// State of one tooth on the chart: a whole-tooth condition, or conditions per surface
+export interface ToothState {
+  whole?: DentalCondition;
+  surfaces: Partial<Record<ToothSurface, DentalCondition>>;
+}
+
+export type DentalChart = Record<number, ToothState>;
+
+export type DentalVisit = NonNullable<DentalChartEntry['consultation']>;
+
+const ENTRY_SELECT = `
+  *,
+  consultation:consultations (
+    id,
+    case_number,
+    consultation_date,
+    status
+  )
+`;
+
+export const isValidToothNumber = (toothNumber: number): boolean => {
+  const quadrant = Math.floor(toothNumber / 10);
+  const tooth = toothNumber % 10;
+  if (quadrant >= 1 && quadrant <= 4) return tooth >= 1 && tooth <= 8;
+  if (quadrant >= 5 && quadrant <= 8) return tooth >= 1 && tooth <= 5;
+  return false;
+};
+
+// Which surface sits on each side of a tooth as drawn: buccal faces the outside of the arch
+// and mesial faces the midline, so both flip between quadrants
+export const getSurfaceLayout = (toothNumber: number): Record<'top' | 'right' | 'bottom' | 'left', ToothSurface> => {
+  const quadrant = Math.floor(toothNumber / 10);
+  const upper = [1, 2, 5, 6].includes(quadrant);
+  const patientRight = [1, 4, 5, 8].includes(quadrant);
+  return {
+    top: upper ? 'B' : 'L',
+    bottom: upper ? 'L' : 'B',
+    left: patientRight ? 'D' : 'M',
+    right: patientRight ? 'M' : 'D'
+  };
+};
+
+// Surfaces in chart order, e.g. ['O', 'M'] -> "MO"
+export const formatSurfaces = (surfaces: ToothSurface[]): string =>
+  TOOTH_SURFACES.filter(surface => surfaces.includes(surface.key)).map(surface => surface.key).join('');
+
+// Applies entries in the order they were recorded; a later entry replaces what it covers.
+// "Sound" with no surfaces clears the tooth; any whole-tooth condition replaces its surfaces.
+export const buildDentalChart = (entries: DentalChartEntry[]): DentalChart => {
+  const chart: DentalChart = {};
+
+  [...entries]
+    .sort((a, b) => a.recorded_at.localeCompare(b.recorded_at) || a.id - b.id)
+    .forEach(entry => {
+      const tooth = chart[entry.tooth_number] || { surfaces: {} };
+
+      if (getDentalCondition(entry.condition).whole_tooth || entry.surfaces.length === 0) {
+        chart[entry.tooth_number] = entry.condition === 'sound'
+          ? { surfaces: {} }
+          : { whole: entry.condition, surfaces: {} };
+        return;
+      }
+
+      const surfaces = { ...tooth.surfaces };
+      entry.surfaces.forEach(surface => {
+        if (entry.condition === 'sound') {
+          delete surfaces[surface];
+        } else {
+          surfaces[surface] = entry.condition;
+        }
+      });
+      // Charting a surface means the tooth is present again
+      chart[entry.tooth_number] = { surfaces };
+    });
+
+  return chart;
+};
+
+const compareVisits = (a: Pick<DentalVisit, 'id' | 'consultation_date'>, b: Pick<DentalVisit, 'id' | 'consultation_date'>) =>
+  a.consultation_date.localeCompare(b.consultation_date) || a.id - b.id;
+
+// Dental visits with entries, oldest first
+export const getDentalVisits = (entries: DentalChartEntry[]): DentalVisit[] => {
+  const visits = new Map<number, DentalVisit>();
+  entries.forEach(entry => {
+    if (entry.consultation) visits.set(entry.consultation.id, entry.consultation);
+  });
+  return Array.from(visits.values()).sort(compareVisits);
+};
+
+// Chart as it stood at the end of a visit: every entry from that visit and the ones before it
+export const getChartAsOfVisit = (
+  entries: DentalChartEntry[],
+  visit: Pick<DentalVisit, 'id' | 'consultation_date'>
+): DentalChart =>
+  buildDentalChart(entries.filter(entry => entry.consultation && compareVisits(entry.consultation, visit) <= 0));
+
+const isSameToothState = (a?: ToothState, b?: ToothState): boolean => {
+  const surfacesA = a?.surfaces || {};
+  const surfacesB = b?.surfaces || {};
+  return a?.whole === b?.whole &&
+    TOOTH_SURFACES.every(surface => surfacesA[surface.key] === surfacesB[surface.key]);
+};
+
+// Teeth whose state differs between two charts
+export const getChangedTeeth = (before: DentalChart, after: DentalChart): number[] => {
+  const teeth = new Set([...Object.keys(before), ...Object.keys(after)].map(Number));
+  return Array.from(teeth).filter(tooth => !isSameToothState(before[tooth], after[tooth])).sort((a, b) => a - b);
+};
+
+// Plain-language state of a tooth, e.g. "Caries (MO), Filled / Restored (D)"
+export const describeToothState = (state?: ToothState): string => {
+  if (!state || (!state.whole && Object.keys(state.surfaces).length === 0)) return 'Sound';
+  if (state.whole) return getDentalCondition(state.whole).label;
+
+  const bySurfaceCondition = new Map<DentalCondition, ToothSurface[]>();
+  TOOTH_SURFACES.forEach(({ key }) => {
+    const condition = state.surfaces[key];
+    if (condition) bySurfaceCondition.set(condition, [...(bySurfaceCondition.get(condition) || []), key]);
+  });
+  return Array.from(bySurfaceCondition.entries())
+    .map(([condition, surfaces]) => `${getDentalCondition(condition).label} (${surfaces.join('')})`)
+    .join(', ');
+};
+
+const getCurrentUserOrThrow = () => {
+  const currentUser = authService.getCurrentUser();
+  if (!currentUser) {
+    throw new Error('You must be logged in to update the dental chart');
+  }
+  return currentUser;
+};
+
+const logDentalChartChange = async (
+  consultation: Consultation,
+  action: string,
+  description: string,
+  details: Record<string, any>
+) => {
+  await Promise.all([
+    patientMonitoringService.createPatientMonitoringLog({
+      patient_id: consultation.patient_id,
+      consultation_id: consultation.id,
+      action,
+      description,
+      details
+    }),
+    activityService.logActivity({
+      action,
+      description: `${description} for case ${consultation.case_number}`,
+      details: { consultation_id: consultation.id, patient_id: consultation.patient_id, ...details }
+    })
+  ]);
+};
+
+// Dental Chart Service - odontogram history per patient
+export const dentalChartService = {
+  // Every entry for the patient across all dental visits, oldest first
+  async getEntriesByPatientId(patientId: number): Promise<DentalChartEntry[]> {
+    const { data, error } = await supabase
+      .from('dental_chart_entries')
+      .select(ENTRY_SELECT)
+      .eq('patient_id', patientId)
+      .order('recorded_at', { ascending: true });
+
+    if (error) throw new Error(error.message);
+    return (data || []) as DentalChartEntry[];
+  },
+
+  async recordEntry(consultation: Consultation, input: DentalChartEntryInput): Promise<DentalChartEntry> {
+    const currentUser = getCurrentUserOrThrow();
+    const condition = getDentalCondition(input.condition);
+
+    if (consultation.department !== 'dental') {
+      throw new Error('Dental chart entries can only be recorded on dental consultations');
+    }
+    if (consultation.status !== 'active') {
+      throw new Error('This consultation is no longer active');
+    }
+    if (!isValidToothNumber(input.tooth_number)) {
+      throw new Error('Select a tooth from the chart');
+    }
+    if (!condition.whole_tooth && input.surfaces.length === 0) {
+      throw new Error(`Select the surfaces affected by ${condition.label.toLowerCase()}`);
+    }
+
+    const { data, error } = await supabase
+      .from('dental_chart_entries')
+      .insert([{
+        patient_id: consultation.patient_id,
+        consultation_id: consultation.id,
+        tooth_number: input.tooth_number,
+        // Whole-tooth conditions replace the tooth, so surfaces do not apply
+        surfaces: condition.whole_tooth ? [] : input.surfaces,
+        condition: input.condition,
+        procedure: input.procedure?.trim() || null,
+        notes: input.notes?.trim() || null,
+        recorded_by: currentUser.id
+      }])
+      .select(ENTRY_SELECT)
+      .single();
+
+    if (error) throw new Error(error.message);
+
+    const entry = data as DentalChartEntry;
+    const surfaces = formatSurfaces(entry.surfaces);
+    await logDentalChartChange(
+      consultation,
+      'record_dental_chart_entry',
+      `Charted tooth ${entry.tooth_number}${surfaces ? ` (${surfaces})` : ''}: ${condition.label}${entry.procedure ? `, ${entry.procedure}` : ''}`,
+      {
+        dental_chart_entry_id: entry.id,
+        tooth_number: entry.tooth_number,
+        surfaces: entry.surfaces,
+        condition: entry.condition,
+        procedure: entry.procedure
+      }
+    );
+
+    return entry;
+  },
+
+  // Corrects a charting mistake; the visit must still be open so signed-off history stays intact
+  async removeEntry(consultation: Consultation, entry: DentalChartEntry): Promise<void> {
+    getCurrentUserOrThrow();
+
+    if (consultation.status !== 'active') {
+      throw new Error('Entries can only be removed while the consultation is active');
+    }
+
+    const { error } = await supabase
+      .from('dental_chart_entries')
+      .delete()
+      .eq('id', entry.id)
+      .eq('consultation_id', consultation.id);
+
+    if (error) throw new Error(error.message);
+
+    await logDentalChartChange(
+      consultation,
+      'remove_dental_chart_entry',
+      `Removed chart entry for tooth ${entry.tooth_number}: ${getDentalCondition(entry.condition).label}`,
+      { dental_chart_entry_id: entry.id, tooth_number: entry.tooth_number }
+    );
+  }
+};
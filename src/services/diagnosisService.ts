@@ -0,0 +1,205 @@
+import { supabase, fetchAllRows } from '../lib/supabase';
+import {
+  authService,
+  activityService,
+  type Consultation,
+  type Patient
+} from './supabaseService';
+import { isValidIcd10Code, type Icd10Code } from '../constants/icd10Codes';
+
+export type DiagnosisType = 'primary' | 'secondary';
+
+// Consultation Diagnosis Interface - matches consultation_diagnoses table
+export interface ConsultationDiagnosis {
+  id: number;
+  consultation_id: number;
+  icd10_code: string;
+  icd10_description: string;
+  diagnosis_type: DiagnosisType;
+  remarks?: string | null;
+  created_at: string;
+  created_by?: number;
+  updated_at: string;
+}
+
+export const DIAGNOSIS_TYPE_LABELS: Record<DiagnosisType, string> = {
+  primary: 'Primary',
+  secondary: 'Secondary'
+};
+
+// Primary first, then in the order they were coded
+const sortDiagnoses = (diagnoses: ConsultationDiagnosis[]) =>
+  [...diagnoses].sort((a, b) =>
+    a.diagnosis_type === b.diagnosis_type
+      ? new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+      : a.diagnosis_type === 'primary' ? -1 : 1
+  );
+
+// Diagnosis Service - ICD-10 coded diagnoses per consultation
+export const diagnosisService = {
+  async getDiagnosesByConsultationId(consultationId: number): Promise<ConsultationDiagnosis[]> {
+    const { data, error } = await supabase
+      .from('consultation_diagnoses')
+      .select('*')
+      .eq('consultation_id', consultationId);
+
+    if (error) throw new Error(error.message);
+    return sortDiagnoses(data || []);
+  },
+
+  // One line of text for documents and referrals: the coded diagnoses, primary first,
+  // or the free-text diagnosis when nothing has been coded
+  async getDiagnosisSummary(consultation: Consultation): Promise<string> {
+    const diagnoses = await diagnosisService.getDiagnosesByConsultationId(consultation.id);
+    if (diagnoses.length === 0) return consultation.diagnosis || '';
+    return diagnoses.map(diagnosis => `${diagnosis.icd10_description} (${diagnosis.icd10_code})`).join('; ');
+  },
+
+  // The first code added to a consultation becomes its primary diagnosis
+  async addDiagnosis(consultation: Consultation, code: Icd10Code, remarks?: string): Promise<ConsultationDiagnosis> {
+    if (!isValidIcd10Code(code.code)) {
+      throw new Error(`${code.code} is not a valid ICD-10 code`);
+    }
+    if (!code.description.trim()) {
+      throw new Error(`Enter a description for ${code.code}`);
+    }
+
+    const existing = await diagnosisService.getDiagnosesByConsultationId(consultation.id);
+
+    if (existing.some(diagnosis => diagnosis.icd10_code === code.code)) {
+      throw new Error(`${code.code} is already coded for this consultation`);
+    }
+
+    const diagnosisType: DiagnosisType = existing.some(diagnosis => diagnosis.diagnosis_type === 'primary')
+      ? 'secondary'
+      : 'primary';
+
+    const { data, error } = await supabase
+      .from('consultation_diagnoses')
+      .insert([{
+        consultation_id: consultation.id,
+        icd10_code: code.code.trim().toUpperCase(),
+        icd10_description: code.description.trim(),
+        diagnosis_type: diagnosisType,
+        remarks: remarks?.trim() || null,
+        created_by: authService.getCurrentUser()?.id
+      }])
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+
+    await activityService.logActivity({
+      action: 'add_diagnosis',
+      description: `Coded ${code.code} ${code.description} (${DIAGNOSIS_TYPE_LABELS[diagnosisType].toLowerCase()}) for case ${consultation.case_number}`,
+      details: {
+        consultation_id: consultation.id,
+        patient_id: consultation.patient_id,
+        diagnosis_id: data.id,
+        icd10_code: code.code,
+        diagnosis_type: diagnosisType
+      }
+    });
+
+    return data;
+  },
+
+  async updateRemarks(diagnosisId: number, remarks: string): Promise<ConsultationDiagnosis> {
+    const { data, error } = await supabase
+      .from('consultation_diagnoses')
+      .update({ remarks: remarks.trim() || null })
+      .eq('id', diagnosisId)
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+    return data;
+  },
+
+  // Demotes the current primary in the same transaction
+  async setPrimary(consultation: Consultation, diagnosis: ConsultationDiagnosis): Promise<ConsultationDiagnosis> {
+    const { data, error } = await supabase.rpc('set_primary_diagnosis', {
+      p_diagnosis_id: diagnosis.id
+    });
+
+    if (error) throw new Error(error.message);
+
+    await activityService.logActivity({
+      action: 'set_primary_diagnosis',
+      description: `Set ${diagnosis.icd10_code} as the primary diagnosis for case ${consultation.case_number}`,
+      details: {
+        consultation_id: consultation.id,
+        patient_id: consultation.patient_id,
+        diagnosis_id: diagnosis.id,
+        icd10_code: diagnosis.icd10_code
+      }
+    });
+
+    return data;
+  },
+
+  // Removing the primary promotes the earliest remaining secondary in the same transaction
+  async removeDiagnosis(consultation: Consultation, diagnosis: ConsultationDiagnosis): Promise<ConsultationDiagnosis | null> {
+    const { data, error } = await supabase.rpc('remove_diagnosis', {
+      p_diagnosis_id: diagnosis.id
+    });
+
+    if (error) throw new Error(error.message);
+    // A composite NULL comes back as an object of nulls
+    const promoted: ConsultationDiagnosis | null = data?.id ? data : null;
+
+    await activityService.logActivity({
+      action: 'remove_diagnosis',
+      description: `Removed diagnosis ${diagnosis.icd10_code} from case ${consultation.case_number}` +
+        (promoted ? `; ${promoted.icd10_code} is now the primary diagnosis` : ''),
+      details: {
+        consultation_id: consultation.id,
+        patient_id: consultation.patient_id,
+        icd10_code: diagnosis.icd10_code,
+        diagnosis_type: diagnosis.diagnosis_type,
+        promoted_diagnosis_id: promoted?.id ?? null
+      }
+    });
+
+    return promoted;
+  },
+
+  // Diagnoses of non-cancelled consultations held since the given date (and up to `until`, if given), with the
+  // patient type and sex of each, for reporting what conditions the clinic sees
+  async getDiagnosesSince(
+    since: string,
+    until?: string
+  ): Promise<(ConsultationDiagnosis & { patient_type?: Patient['patient_type']; sex?: Patient['sex'] })[]> {
+    // Long reporting periods run past the PostgREST page limit, so every page is read
+    const data = await fetchAllRows((from, to) => {
+      let query = supabase
+        .from('consultation_diagnoses')
+        .select(`
+          *,
+          consultation:consultations!inner (
+            consultation_date,
+            status,
+            patient:patients (
+              patient_type,
+              sex
+            )
+          )
+        `)
+        .gte('consultation.consultation_date', since)
+        // Cancelled consultations do not count towards diagnosis statistics
+        .neq('consultation.status', 'cancelled');
+
+      if (until) {
+        query = query.lte('consultation.consultation_date', until);
+      }
+
+      return query.order('id').range(from, to);
+    });
+
+    return data.map(({ consultation, ...diagnosis }: any) => ({
+      ...diagnosis,
+      patient_type: consultation?.patient?.patient_type,
+      sex: consultation?.patient?.sex
+    }));
+  }
+};
@@ -0,0 +1,136 @@
+import { supabase } from '../lib/supabase';
+import {
+  authService,
+  activityService,
+  inventoryService,
+  patientMonitoringService,
+  type Consultation
+} from './supabaseService';
+import { type BatchAllocation } from './batchService';
+
+// Medication Dispense Interface - matches medication_dispenses table
+export interface MedicationDispense {
+  id: number;
+  consultation_id: number;
+  patient_id: number;
+  inventory_item_id?: number;
+  item_name: string;
+  unit_of_measurement?: string;
+  quantity: number;
+  dosage_instructions?: string;
+  dispensed_at: string;
+  dispensed_by?: number;
+  batch_allocations?: BatchAllocation[] | null;
+  consultation?: Pick<Consultation, 'id' | 'case_number' | 'consultation_date'>;
+}
+
+export interface DispenseRequest {
+  inventory_item_id: number;
+  quantity: number;
+  dosage_instructions?: string;
+}
+
+// Classifications that are consumed when dispensed (equipment is never dispensed)
+const DISPENSABLE_CLASSIFICATIONS = ['medicines', 'supplies'];
+
+// Dispensing Service - links inventory stock to consultations
+export const dispensingService = {
+  // Items that can currently be dispensed: medicines and supplies with stock that are not expired
+  async getDispensableItems(department?: string): Promise<any[]> {
+    const items = department
+      ? await inventoryService.getItemsByDepartment(department)
+      : await inventoryService.getAllItems();
+
+    return items.filter((item: any) =>
+      DISPENSABLE_CLASSIFICATIONS.includes((item.classification || '').toLowerCase()) &&
+      item.status !== 'expired' &&
+      (parseInt(item.stock_quantity) || 0) > 0
+    );
+  },
+
+  async getDispensesByConsultationId(consultationId: number): Promise<MedicationDispense[]> {
+    const { data, error } = await supabase
+      .from('medication_dispenses')
+      .select('*')
+      .eq('consultation_id', consultationId)
+      .order('dispensed_at', { ascending: false });
+
+    if (error) throw new Error(error.message);
+    return data || [];
+  },
+
+  async getDispensesByPatientId(patientId: number): Promise<MedicationDispense[]> {
+    const { data, error } = await supabase
+      .from('medication_dispenses')
+      .select(`
+        *,
+        consultation:consultations (
+          id,
+          case_number,
+          consultation_date
+        )
+      `)
+      .eq('patient_id', patientId)
+      .order('dispensed_at', { ascending: false });
+
+    if (error) throw new Error(error.message);
+    return data || [];
+  },
+
+  // Dispense an item for a consultation. Stock is decremented atomically by the
+  // dispense_medication database function, which rejects the request if stock is insufficient.
+  async dispenseMedication(consultation: Consultation, request: DispenseRequest): Promise<MedicationDispense> {
+    if (!request.inventory_item_id) {
+      throw new Error('Please select an item to dispense');
+    }
+    if (!Number.isInteger(request.quantity) || request.quantity <= 0) {
+      throw new Error('Quantity must be a whole number greater than zero');
+    }
+
+    const currentUser = authService.getCurrentUser();
+
+    const { data, error } = await supabase.rpc('dispense_medication', {
+      p_consultation_id: consultation.id,
+      p_patient_id: consultation.patient_id,
+      p_inventory_item_id: request.inventory_item_id,
+      p_quantity: request.quantity,
+      p_dosage_instructions: request.dosage_instructions?.trim() || null,
+      p_dispensed_by: currentUser?.id ?? null
+    });
+
+    if (error) throw new Error(error.message);
+
+    const dispense = data as MedicationDispense;
+
+    // Stock changed, so low_stock / out_of_stock may now apply
+    await inventoryService.refreshItemStatus(request.inventory_item_id);
+
+    await activityService.logActivity({
+      action: 'dispense_medication',
+      description: `Dispensed ${dispense.quantity} ${dispense.unit_of_measurement || 'pcs'} of ${dispense.item_name} for case ${consultation.case_number}`,
+      details: {
+        consultation_id: consultation.id,
+        patient_id: consultation.patient_id,
+        inventory_item_id: request.inventory_item_id,
+        dispense_id: dispense.id,
+        quantity: dispense.quantity
+      }
+    });
+
+    await patientMonitoringService.createPatientMonitoringLog({
+      patient_id: consultation.patient_id,
+      consultation_id: consultation.id,
+      action: 'dispense_medication',
+      description: `Dispensed ${dispense.quantity} ${dispense.unit_of_measurement || 'pcs'} of ${dispense.item_name}`,
+      details: {
+        dispense_id: dispense.id,
+        inventory_item_id: request.inventory_item_id,
+        quantity: dispense.quantity,
+        dosage_instructions: dispense.dosage_instructions,
+        batch_allocations: dispense.batch_allocations
+      }
+    });
+
+    return dispense;
+  }
+};
@@ -0,0 +1,106 @@
+import { containsTerm, findDrugSafetyAlerts, parseAllergies, requiresOverrideReason } from './drugSafetyService';
+
+jest.mock('../lib/supabase', () => ({ supabase: {}, fetchAllRows: jest.fn() }));
+
+describe('containsTerm', () => {
+  it('matches a term only at the start of a word', () => {
+    expect(containsTerm('ace inhibitor', 'ace')).toBe(true);
+    expect(containsTerm('co-amoxiclav 625mg', 'amoxiclav')).toBe(true);
+    expect(containsTerm('paracetamol', 'ace')).toBe(false);
+  });
+
+  it('treats regular expression characters in the term literally', () => {
+    expect(containsTerm('vitamin b+c', 'b+c')).toBe(true);
+    expect(containsTerm('vitamin bbc', 'b+c')).toBe(false);
+  });
+});
+
+describe('parseAllergies', () => {
+  it('splits the allergy field into entries and drops reactions in brackets', () => {
+    expect(parseAllergies('Penicillin (rashes), sulfa; Shellfish\nAspirin and ibuprofen')).toEqual([
+      'Penicillin',
+      'sulfa',
+      'Shellfish',
+      'Aspirin',
+      'ibuprofen'
+    ]);
+  });
+
+  it('ignores entries that mean there are no allergies', () => {
+    expect(parseAllergies('NKDA')).toEqual([]);
+    expect(parseAllergies('None')).toEqual([]);
+    expect(parseAllergies(null)).toEqual([]);
+  });
+});
+
+describe('findDrugSafetyAlerts', () => {
+  it('blocks a drug the patient is allergic to', () => {
+    expect(findDrugSafetyAlerts(['Amoxicillin 500mg capsule'], [], 'Amoxicillin')).toEqual([{
+      kind: 'allergy',
+      level: 'block',
+      drug: 'Amoxicillin 500mg capsule',
+      conflictsWith: 'Amoxicillin',
+      message: 'Patient has a recorded allergy to Amoxicillin'
+    }]);
+  });
+
+  it('blocks any member of a class named in the allergy field', () => {
+    const [alert] = findDrugSafetyAlerts(['Mefenamic Acid'], [], 'NSAIDs');
+
+    expect(alert).toMatchObject({ kind: 'allergy', level: 'block', conflictsWith: 'NSAIDs' });
+    expect(alert.message).toBe('Mefenamic Acid is in the same class (NSAIDs) as recorded allergy NSAIDs');
+  });
+
+  it('blocks or warns about another member of the class depending on its cross-sensitivity', () => {
+    expect(findDrugSafetyAlerts(['Cloxacillin'], [], 'Amoxicillin')[0].level).toBe('block');
+    expect(findDrugSafetyAlerts(['Naproxen'], [], 'Ibuprofen')[0].level).toBe('warn');
+  });
+
+  it('warns about cross-reactive classes', () => {
+    expect(findDrugSafetyAlerts(['Cefalexin'], [], 'Amoxicillin')).toEqual([{
+      kind: 'allergy',
+      level: 'warn',
+      drug: 'Cefalexin',
+      conflictsWith: 'Amoxicillin',
+      message: 'Possible cross-reactivity between Penicillins and Cephalosporins (recorded allergy: Amoxicillin)'
+    }]);
+  });
+
+  it('does not alert when the patient has no known allergies', () => {
+    expect(findDrugSafetyAlerts(['Amoxicillin'], [], 'NKDA')).toEqual([]);
+  });
+
+  it('blocks contraindicated interactions and warns about the rest', () => {
+    expect(findDrugSafetyAlerts(['Simvastatin'], ['Clarithromycin'])).toEqual([expect.objectContaining({
+      kind: 'interaction',
+      level: 'block',
+      severity: 'contraindicated',
+      conflictsWith: 'Clarithromycin'
+    })]);
+    expect(findDrugSafetyAlerts(['Ibuprofen'], ['Warfarin'])).toEqual([expect.objectContaining({
+      kind: 'interaction',
+      level: 'warn',
+      severity: 'major',
+      message: 'Major interaction with Warfarin: Increased risk of bleeding, especially gastrointestinal'
+    })]);
+  });
+
+  it('checks the new drugs against each other once', () => {
+    expect(findDrugSafetyAlerts(['Tramadol', 'Sertraline'], [])).toEqual([expect.objectContaining({
+      drug: 'Tramadol',
+      conflictsWith: 'Sertraline',
+      severity: 'major'
+    })]);
+  });
+
+  it('does not treat the same medicine under another label as an interaction', () => {
+    expect(findDrugSafetyAlerts(['Ibuprofen 400mg tablet'], ['Ibuprofen (Advil)'])).toEqual([]);
+  });
+});
+
+describe('requiresOverrideReason', () => {
+  it('needs a reason only when an alert blocks', () => {
+    expect(requiresOverrideReason(findDrugSafetyAlerts(['Naproxen'], [], 'Ibuprofen'))).toBe(false);
+    expect(requiresOverrideReason(findDrugSafetyAlerts(['Naproxen'], [], 'Naproxen'))).toBe(true);
+  });
+});
@@ -0,0 +1,233 @@
+import {
+  activityService,
+  patientMonitoringService,
+  type Consultation
+} from './supabaseService';
+import { dispensingService } from './dispensingService';
+import { prescriptionService } from './prescriptionService';
+import {
+  DRUG_CLASSES,
+  DRUG_INTERACTIONS,
+  CROSS_REACTIVE_CLASSES,
+  INTERACTION_SEVERITY_LABELS,
+  type InteractionSeverity
+} from '../constants/drugSafety';
+
+export type DrugSafetyAlertLevel = 'block' | 'warn';
+
+export interface DrugSafetyAlert {
+  kind: 'allergy' | 'interaction';
+  level: DrugSafetyAlertLevel;
+  drug: string;
+  // The allergy entry or the other medicine involved
+  conflictsWith: string;
+  message: string;
+  severity?: InteractionSeverity;
+}
+
+export type DrugSafetyAction = 'prescribe' | 'dispense';
+
+// Entries in the allergy field that mean there is nothing to check
+const NO_ALLERGY_ENTRIES = ['none', 'no', 'nkda', 'nka', 'n/a', 'na', 'nil', 'no known allergies', 'no known drug allergies', '-'];
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+// Term appears at the start of a word, so "ace" matches "ace inhibitor" but not "paracetamol"
+export const containsTerm = (text: string, term: string) => {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^a-z])${escaped}`).test(text);
+};
+
+// Class keys and member names found in a drug name or allergy entry
+const resolveDrugKeys = (name: string, includeAliases = false): string[] => {
+  const text = normalize(name);
+  const keys = new Set<string>();
+  DRUG_CLASSES.forEach(drugClass => {
+    const members = drugClass.members.filter(member => containsTerm(text, member));
+    members.forEach(member => keys.add(member));
+    if (members.length > 0 || (includeAliases && drugClass.aliases.some(alias => containsTerm(text, alias)))) {
+      keys.add(drugClass.key);
+    }
+  });
+  // Drugs that appear in interactions without belonging to a class
+  DRUG_INTERACTIONS.forEach(interaction => {
+    interaction.drugs.forEach(drug => {
+      if (!DRUG_CLASSES.some(drugClass => drugClass.key === drug) && containsTerm(text, drug)) {
+        keys.add(drug);
+      }
+    });
+  });
+  return Array.from(keys);
+};
+
+const classLabel = (key: string) => DRUG_CLASSES.find(drugClass => drugClass.key === key)?.label || key;
+
+// Splits the free-text allergy field into individual entries
+export const parseAllergies = (drugAllergies?: string | null): string[] =>
+  (drugAllergies || '')
+    .split(/[,;\n/]|\band\b/i)
+    .map(entry => entry.replace(/\(.*?\)/g, '').trim())
+    .filter(entry => entry.length > 1 && !NO_ALLERGY_ENTRIES.includes(entry.toLowerCase()));
+
+// Checks new medicines against the patient's drug allergies, the medicines they already
+// have on this consultation, and each other. Pure so both modals can re-run it cheaply.
+export const findDrugSafetyAlerts = (
+  drugNames: string[],
+  currentMedications: string[],
+  drugAllergies?: string | null
+): DrugSafetyAlert[] => {
+  const alerts: DrugSafetyAlert[] = [];
+  const allergies = parseAllergies(drugAllergies);
+  const drugs = drugNames.map(name => name.trim()).filter(Boolean);
+
+  drugs.forEach(drug => {
+    const drugKeys = resolveDrugKeys(drug);
+    const drugText = normalize(drug);
+
+    allergies.forEach(allergy => {
+      const allergyText = normalize(allergy);
+      const allergyKeys = resolveDrugKeys(allergy, true);
+      const namedClass = DRUG_CLASSES.find(drugClass =>
+        drugKeys.includes(drugClass.key) && allergyKeys.includes(drugClass.key)
+      );
+
+      if (containsTerm(drugText, allergyText)) {
+        alerts.push({
+          kind: 'allergy',
+          level: 'block',
+          drug,
+          conflictsWith: allergy,
+          message: `Patient has a recorded allergy to ${allergy}`
+        });
+      } else if (namedClass) {
+        // A member-to-member match only blocks for classes with strong cross-sensitivity;
+        // naming the class itself in the allergy field always blocks
+        const namesWholeClass = namedClass.aliases.some(alias => containsTerm(allergyText, alias));
+        alerts.push({
+          kind: 'allergy',
+          level: namesWholeClass ? 'block' : namedClass.crossSensitivity,
+          drug,
+          conflictsWith: allergy,
+          message: `${drug} is in the same class (${namedClass.label}) as recorded allergy ${allergy}`
+        });
+      } else {
+        const crossReactive = CROSS_REACTIVE_CLASSES.find(([a, b]) =>
+          (drugKeys.includes(a) && allergyKeys.includes(b)) || (drugKeys.includes(b) && allergyKeys.includes(a))
+        );
+        if (crossReactive) {
+          const [a, b] = crossReactive;
+          alerts.push({
+            kind: 'allergy',
+            level: 'warn',
+            drug,
+            conflictsWith: allergy,
+            message: `Possible cross-reactivity between ${classLabel(a)} and ${classLabel(b)} (recorded allergy: ${allergy})`
+          });
+        }
+      }
+    });
+  });
+
+  // Each new drug against the current medicines and against the new drugs after it
+  drugs.forEach((drug, index) => {
+    const drugKeys = resolveDrugKeys(drug);
+    const others = [...currentMedications, ...drugs.slice(index + 1)];
+
+    others.forEach(other => {
+      if (normalize(other) === normalize(drug)) return;
+      const otherKeys = resolveDrugKeys(other);
+      // The same medicine under another label, e.g. a prescribed drug being dispensed
+      if (drugKeys.some(key => otherKeys.includes(key) && !DRUG_CLASSES.some(drugClass => drugClass.key === key))) return;
+
+      const interaction = DRUG_INTERACTIONS.find(({ drugs: [a, b] }) =>
+        (drugKeys.includes(a) && otherKeys.includes(b)) || (drugKeys.includes(b) && otherKeys.includes(a))
+      );
+      if (!interaction) return;
+
+      alerts.push({
+        kind: 'interaction',
+        level: interaction.severity === 'contraindicated' ? 'block' : 'warn',
+        drug,
+        conflictsWith: other,
+        severity: interaction.severity,
+        message: `${INTERACTION_SEVERITY_LABELS[interaction.severity]} interaction with ${other}: ${interaction.description}`
+      });
+    });
+  });
+
+  return alerts;
+};
+
+// Blocking alerts can only be overridden with a reason
+export const requiresOverrideReason = (alerts: DrugSafetyAlert[]) => alerts.some(alert => alert.level === 'block');
+
+// Drug Safety Service - allergy and interaction checks for prescribing and dispensing
+export const drugSafetyService = {
+  // Medicines already prescribed (not cancelled) or dispensed on the consultation.
+  // The draft being edited is left out since its lines are about to be replaced.
+  async getCurrentMedications(consultation: Consultation, excludePrescriptionId?: number): Promise<string[]> {
+    const [prescriptions, dispenses] = await Promise.all([
+      prescriptionService.getPrescriptionsByConsultationId(consultation.id),
+      dispensingService.getDispensesByConsultationId(consultation.id)
+    ]);
+
+    const names = [
+      ...prescriptions
+        .filter(prescription => prescription.status !== 'cancelled' && prescription.id !== excludePrescriptionId)
+        .flatMap(prescription => prescription.items.map(item => item.drug_name)),
+      ...dispenses.map(dispense => dispense.item_name)
+    ];
+    return Array.from(new Set(names));
+  },
+
+  async checkMedications(
+    consultation: Consultation,
+    drugNames: string[],
+    excludePrescriptionId?: number
+  ): Promise<DrugSafetyAlert[]> {
+    const [medicalHistory, currentMedications] = await Promise.all([
+      patientMonitoringService.getMedicalHistory(consultation.patient_id),
+      drugSafetyService.getCurrentMedications(consultation, excludePrescriptionId)
+    ]);
+
+    return findDrugSafetyAlerts(drugNames, currentMedications, medicalHistory?.drug_allergies);
+  },
+
+  // Records that the user went ahead despite the alerts
+  async recordOverride(
+    consultation: Consultation,
+    action: DrugSafetyAction,
+    alerts: DrugSafetyAlert[],
+    reason: string
+  ): Promise<void> {
+    if (requiresOverrideReason(alerts) && !reason.trim()) {
+      throw new Error('Enter a reason to override the allergy or interaction alert');
+    }
+
+    const drugs = Array.from(new Set(alerts.map(alert => alert.drug)));
+    const description = `Overrode ${alerts.length} drug safety alert(s) when ${action === 'prescribe' ? 'prescribing' : 'dispensing'} ${drugs.join(', ')}`;
+
+    await Promise.all([
+      patientMonitoringService.createPatientMonitoringLog({
+        patient_id: consultation.patient_id,
+        consultation_id: consultation.id,
+        action: 'drug_safety_override',
+        description,
+        details: {
+          context: action,
+          reason: reason.trim() || null,
+          alerts: alerts.map(({ kind, level, drug, conflictsWith, severity }) => ({ kind, level, drug, conflicts_with: conflictsWith, severity }))
+        }
+      }),
+      activityService.logActivity({
+        action: 'drug_safety_override',
+        description: `${description} for case ${consultation.case_number}`,
+        details: {
+          consultation_id: consultation.id,
+          patient_id: consultation.patient_id,
+          reason: reason.trim() || null
+        }
+      })
+    ]);
+  }
+};
@@ -0,0 +1,95 @@
+import { calculateEarlyWarningScore } from './earlyWarningService';
+
+jest.mock('../lib/supabase', () => ({ supabase: {}, fetchAllRows: jest.fn() }));
+
+const NORMAL_VITALS = {
+  respiratory_rate: 16,
+  oxygen_saturation: 98,
+  blood_pressure_systolic: 120,
+  pulse_rate: 70,
+  temperature: 37
+} as any;
+
+describe('calculateEarlyWarningScore', () => {
+  it('returns null when no parameter can be scored', () => {
+    expect(calculateEarlyWarningScore({})).toBeNull();
+    expect(calculateEarlyWarningScore({ respiratory_rate: '' } as any)).toBeNull();
+  });
+
+  it('scores normal vital signs as low risk', () => {
+    expect(calculateEarlyWarningScore(NORMAL_VITALS)).toEqual({
+      score: 0,
+      risk: 'low',
+      components: {
+        respiratory_rate: 0,
+        oxygen_saturation: 0,
+        blood_pressure_systolic: 0,
+        pulse_rate: 0,
+        temperature: 0
+      }
+    });
+  });
+
+  it('rates a single parameter scoring 3 as low-medium risk', () => {
+    const result = calculateEarlyWarningScore({ ...NORMAL_VITALS, respiratory_rate: 7 });
+    expect(result?.score).toBe(3);
+    expect(result?.risk).toBe('low_medium');
+  });
+
+  it('rates an aggregate of 5 or 6 as medium risk', () => {
+    const result = calculateEarlyWarningScore({
+      ...NORMAL_VITALS,
+      respiratory_rate: 22,
+      oxygen_saturation: 94,
+      pulse_rate: 105,
+      temperature: 38.5
+    });
+    expect(result?.components).toMatchObject({
+      respiratory_rate: 2,
+      oxygen_saturation: 1,
+      pulse_rate: 1,
+      temperature: 1
+    });
+    expect(result?.score).toBe(5);
+    expect(result?.risk).toBe('medium');
+  });
+
+  it('rates an aggregate of 7 or more as high risk', () => {
+    const result = calculateEarlyWarningScore({
+      ...NORMAL_VITALS,
+      respiratory_rate: 25,
+      oxygen_saturation: 91,
+      blood_pressure_systolic: 95
+    });
+    expect(result?.score).toBe(8);
+    expect(result?.risk).toBe('high');
+  });
+
+  it('applies the NEWS2 band edges', () => {
+    const score = (vitals: Record<string, number>) => calculateEarlyWarningScore(vitals as any)?.score;
+
+    expect(score({ respiratory_rate: 8 })).toBe(3);
+    expect(score({ respiratory_rate: 12 })).toBe(0);
+    expect(score({ respiratory_rate: 21 })).toBe(2);
+    expect(score({ oxygen_saturation: 96 })).toBe(0);
+    expect(score({ blood_pressure_systolic: 219 })).toBe(0);
+    expect(score({ blood_pressure_systolic: 220 })).toBe(3);
+    expect(score({ pulse_rate: 131 })).toBe(3);
+    expect(score({ temperature: 35.0 })).toBe(3);
+    expect(score({ temperature: 36.1 })).toBe(0);
+    expect(score({ temperature: 39.1 })).toBe(2);
+  });
+
+  it('reads numbers stored as text', () => {
+    expect(calculateEarlyWarningScore({ pulse_rate: '45' } as any)?.components).toEqual({ pulse_rate: 1 });
+  });
+
+  it('scores any GCS below 15 as new confusion', () => {
+    expect(calculateEarlyWarningScore(NORMAL_VITALS, { total_score: 14 })).toMatchObject({
+      score: 3,
+      risk: 'low_medium',
+      components: { consciousness: 3 }
+    });
+    expect(calculateEarlyWarningScore(NORMAL_VITALS, { total_score: 15 })?.components.consciousness).toBe(0);
+  });
+});
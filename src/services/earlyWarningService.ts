@@ -0,0 +1,168 @@
+import { supabase } from '../lib/supabase';
+import {
+  patientMonitoringService,
+  type Consultation,
+  type GlasgowComaScale,
+  type VitalSigns
+} from './supabaseService';
+
+export type EarlyWarningRisk = 'low' | 'low_medium' | 'medium' | 'high';
+
+export type EarlyWarningParameter =
+  | 'respiratory_rate'
+  | 'oxygen_saturation'
+  | 'blood_pressure_systolic'
+  | 'pulse_rate'
+  | 'consciousness'
+  | 'temperature';
+
+export interface EarlyWarningScore {
+  score: number;
+  risk: EarlyWarningRisk;
+  components: Partial<Record<EarlyWarningParameter, number>>;
+}
+
+export const EARLY_WARNING_RISK_LABELS: Record<EarlyWarningRisk, string> = {
+  low: 'Low',
+  low_medium: 'Low-Medium',
+  medium: 'Medium',
+  high: 'High'
+};
+
+export const EARLY_WARNING_RISK_ACTIONS: Record<EarlyWarningRisk, string> = {
+  low: 'Continue routine monitoring',
+  low_medium: 'Urgent review by the attending clinician',
+  medium: 'Urgent response: inform the physician and increase monitoring',
+  high: 'Emergency response: immediate physician assessment'
+};
+
+// Risks at or above this level write an escalation entry to patient_monitoring_logs
+const ESCALATION_RISKS: EarlyWarningRisk[] = ['low_medium', 'medium', 'high'];
+
+const RISK_ORDER: EarlyWarningRisk[] = ['low', 'low_medium', 'medium', 'high'];
+
+const scoreRespiratoryRate = (value: number) =>
+  value <= 8 ? 3 : value <= 11 ? 1 : value <= 20 ? 0 : value <= 24 ? 2 : 3;
+
+// SpO2 scale 1 (room air); supplemental oxygen is not recorded
+const scoreOxygenSaturation = (value: number) =>
+  value <= 91 ? 3 : value <= 93 ? 2 : value <= 95 ? 1 : 0;
+
+const scoreSystolic = (value: number) =>
+  value <= 90 ? 3 : value <= 100 ? 2 : value <= 110 ? 1 : value <= 219 ? 0 : 3;
+
+const scorePulse = (value: number) =>
+  value <= 40 ? 3 : value <= 50 ? 1 : value <= 90 ? 0 : value <= 110 ? 1 : value <= 130 ? 2 : 3;
+
+const scoreTemperature = (value: number) =>
+  value <= 35.0 ? 3 : value <= 36.0 ? 1 : value <= 38.0 ? 0 : value <= 39.0 ? 1 : 2;
+
+const toNumber = (value: unknown): number | null =>
+  value === null || value === undefined || value === '' || Number.isNaN(Number(value)) ? null : Number(value);
+
+// NEWS2 aggregate score from one vital signs record. Anything below a GCS of 15 counts
+// as new confusion or worse (the C/V/P/U of ACVPU). Returns null when nothing can be scored.
+export const calculateEarlyWarningScore = (
+  vital: Partial<VitalSigns>,
+  gcs?: Pick<GlasgowComaScale, 'total_score'> | null
+): EarlyWarningScore | null => {
+  const components: Partial<Record<EarlyWarningParameter, number>> = {};
+
+  const respiratoryRate = toNumber(vital.respiratory_rate);
+  const oxygenSaturation = toNumber(vital.oxygen_saturation);
+  const systolic = toNumber(vital.blood_pressure_systolic);
+  const pulse = toNumber(vital.pulse_rate);
+  const temperature = toNumber(vital.temperature);
+
+  if (respiratoryRate !== null) components.respiratory_rate = scoreRespiratoryRate(respiratoryRate);
+  if (oxygenSaturation !== null) components.oxygen_saturation = scoreOxygenSaturation(oxygenSaturation);
+  if (systolic !== null) components.blood_pressure_systolic = scoreSystolic(systolic);
+  if (pulse !== null) components.pulse_rate = scorePulse(pulse);
+  if (temperature !== null) components.temperature = scoreTemperature(temperature);
+  if (gcs?.total_score) components.consciousness = gcs.total_score < 15 ? 3 : 0;
+
+  const points = Object.values(components) as number[];
+  if (points.length === 0) return null;
+
+  const score = points.reduce((sum, value) => sum + value, 0);
+  const risk: EarlyWarningRisk = score >= 7
+    ? 'high'
+    : score >= 5
+      ? 'medium'
+      : points.some(value => value === 3)
+        ? 'low_medium'
+        : 'low';
+
+  return { score, risk, components };
+};
+
+// Early Warning Service - NEWS2-style scoring stored with each vital signs record
+export const earlyWarningService = {
+  // Score a vital signs record against the consultation's latest GCS, store the result,
+  // and log an escalation when the risk rises to low-medium or above
+  async scoreVitalSigns(vital: VitalSigns, consultation: Consultation): Promise<VitalSigns> {
+    const [latestGcs] = await patientMonitoringService.getGlasgowComaScalesByConsultationId(consultation.id);
+    const result = calculateEarlyWarningScore(vital, latestGcs);
+
+    const { data, error } = await supabase
+      .from('vital_signs')
+      .update({
+        news2_score: result?.score ?? null,
+        news2_risk: result?.risk ?? null,
+        news2_components: result?.components ?? null,
+        news2_scored_at: new Date().toISOString()
+      })
+      .eq('id', vital.id)
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+
+    const previousRank = vital.news2_risk ? RISK_ORDER.indexOf(vital.news2_risk) : -1;
+    if (result && ESCALATION_RISKS.includes(result.risk) && RISK_ORDER.indexOf(result.risk) > previousRank) {
+      await patientMonitoringService.createPatientMonitoringLog({
+        patient_id: consultation.patient_id,
+        consultation_id: consultation.id,
+        action: 'news2_escalation',
+        description: `Early warning score ${result.score} (${EARLY_WARNING_RISK_LABELS[result.risk]} risk) for case ${consultation.case_number}: ${EARLY_WARNING_RISK_ACTIONS[result.risk]}`,
+        details: {
+          vital_signs_id: vital.id,
+          score: result.score,
+          risk: result.risk,
+          components: result.components,
+          gcs_total: latestGcs?.total_score ?? null
+        }
+      });
+    }
+
+    return data;
+  },
+
+  // A new or edited GCS changes the consciousness component of the latest vital signs
+  async rescoreLatestVitalSigns(consultation: Consultation): Promise<VitalSigns | null> {
+    const latestVital = await patientMonitoringService.getLatestVitalSignsByConsultationId(consultation.id);
+    if (!latestVital) return null;
+    return earlyWarningService.scoreVitalSigns(latestVital, consultation);
+  },
+
+  // Most recent scored vital signs of each consultation, for list badges
+  async getLatestScores(consultationIds: number[]): Promise<Record<number, VitalSigns>> {
+    if (consultationIds.length === 0) return {};
+
+    const { data, error } = await supabase
+      .from('vital_signs')
+      .select('*')
+      .in('consultation_id', consultationIds)
+      .not('news2_score', 'is', null)
+      .order('recorded_at', { ascending: false });
+
+    if (error) throw new Error(error.message);
+
+    return (data || []).reduce((acc: Record<number, VitalSigns>, vital: VitalSigns) => {
+      if (!acc[vital.consultation_id]) {
+        acc[vital.consultation_id] = vital;
+      }
+      return acc;
+    }, {});
+  }
+};
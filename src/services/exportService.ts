@@ -3,6 +3,43 @@ import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { Document, Packer, Paragraph, Table, TableCell, TableRow, TextRun, HeadingLevel, AlignmentType, WidthType, Header, Footer } from 'docx';
 import { saveAs } from 'file-saver';
+import JsBarcode from 'jsbarcode';
+import QRCode from 'qrcode';
+import type { PurchaseRequisition } from './requisitionService';
+import type { Prescription } from './prescriptionService';
+import { buildMedicalDocumentTemplate, type MedicalDocument } from './medicalDocumentService';
+import type { Referral } from './referralService';
+import type { QueueDailyWaitTime } from './queueService';
+import type { ImmunizationComplianceReport } from './immunizationService';
+import { formatSurfaces, getSurfaceLayout, type DentalChart, type DentalChartEntry } from './dentalChartService';
+import {
+  DENTAL_CONDITIONS,
+  PERMANENT_TEETH_ROWS,
+  PRIMARY_TEETH_ROWS,
+  getDentalCondition,
+  type ToothSurface
+} from '../constants/dentalChart';
+import type { Consultation, Patient } from './supabaseService';
+import {
+  calculateBmi,
+  describeClearanceScope,
+  type ClearanceReport,
+  type PhysicalExam
+} from './physicalExamService';
+import {
+  CLEARANCE_STATUS_LABELS,
+  PHYSICAL_EXAM_LAB_TESTS,
+  PHYSICAL_EXAM_PURPOSE_LABELS,
+  PHYSICAL_EXAM_SYSTEMS
+} from '../constants/physicalExam';
+import { getInjuryLabels, type IncidentReport, type InjuryHotspot } from './incidentReportService';
+import { INCIDENT_DISPOSITION_LABELS, INJURY_MECHANISM_LABELS } from '../constants/incidents';
+import {
+  buildStatisticsTables,
+  formatStatisticsPeriod,
+  type HealthStatisticsReport
+} from './healthStatisticsService';
+import { STATISTICS_SIGNATORIES } from '../constants/healthStatistics';
 
 export interface DataTable {
   id: string;
@@ -25,6 +62,9 @@ export interface ExportOptions {
   title: string;
   columns: ColumnConfig[];
   includeStats?: boolean;
+  // Single table exports only: extra heading line and sign-off lines after the table
+  subtitle?: string;
+  signatures?: string[];
   // Legacy support for single table export
   data?: any[];
   department?: string;
@@ -45,6 +85,8 @@ export interface ColumnConfig {
   formatter?: (value: any) => string;
 }
 
+export type LabelFormat = 'barcode' | 'qr';
+
 class ExportService {
   private formatDate(date: Date): string {
     return date.toLocaleDateString('en-US', {
@@ -90,6 +132,7 @@ class ExportService {
       const headerData = [
         ['MEDITRACK INVENTORY REPORT'],
         [''],
+        ...(options.subtitle ? [[options.subtitle]] : []),
         [`Department: ${table.department.charAt(0).toUpperCase() + table.department.slice(1)}`],
         [`Classification: ${table.classification.charAt(0).toUpperCase() + table.classification.slice(1)} ${this.getClassificationIcon(table.classification)}`],
         [`Generated: ${this.formatDate(new Date())}`],
@@ -131,8 +174,11 @@ class ExportService {
         })
       );
 
+      // Sign-off lines below the table
+      const signatureData = (options.signatures || []).flatMap(label => [[''], [`${label}: ______________________________   Date: ____________`]]);
+
       // Combine all data
-      const wsData = [...headerData, ...tableData];
+      const wsData = [...headerData, ...tableData, ...signatureData];
 
       // Create worksheet
       const ws = XLSX.utils.aoa_to_sheet(wsData);
@@ -309,6 +355,10 @@ class ExportService {
 
       doc.setFontSize(12);
       doc.setFont('helvetica', 'normal');
+      if (options.subtitle) {
+        doc.text(options.subtitle, 20, yPosition);
+        yPosition += 6;
+      }
       doc.text(`Classification: ${table.classification.charAt(0).toUpperCase() + table.classification.slice(1)} ${this.getClassificationIcon(table.classification)}`, 20, yPosition);
       yPosition += 6;
 
@@ -404,6 +454,10 @@ class ExportService {
           );
         }
       });
+
+      if (options.signatures?.length) {
+        this.drawSignatureBlocks(doc, (doc as any).lastAutoTable.finalY + 25, options.signatures.map(label => ({ label })));
+      }
     } else {
       // Multiple tables export
       doc.setFontSize(20);
@@ -719,10 +773,26 @@ class ExportService {
           }),
         ],
         alignment: AlignmentType.CENTER,
-        spacing: { after: 600 },
+        spacing: { after: options.subtitle ? 200 : 600 },
       })
     );
 
+    if (options.subtitle && !isMultiTable) {
+      documentSections.push(
+        new Paragraph({
+          children: [
+            new TextRun({
+              text: options.subtitle,
+              bold: true,
+              size: 24,
+            }),
+          ],
+          alignment: AlignmentType.CENTER,
+          spacing: { after: 600 },
+        })
+      );
+    }
+
     if (isMultiTable) {
       // Multi-table export
       const tables = options.tables!;
@@ -892,6 +962,20 @@ class ExportService {
         });
         documentSections.push(docxTable);
       }
+
+      (options.signatures || []).forEach((label, index) => {
+        documentSections.push(
+          new Paragraph({
+            children: [
+              new TextRun({
+                text: `${label}: ______________________________   Date: ____________`,
+                size: 22,
+              }),
+            ],
+            spacing: { before: index === 0 ? 800 : 400 },
+          })
+        );
+      });
     }
 
     // Create document
@@ -1001,6 +1085,1529 @@ class ExportService {
     return rows;
   }
 
+  // Printable purchase requisition with signature blocks, replacing the hand-kept spreadsheet
+  async exportRequisitionToPDF(requisition: PurchaseRequisition, preparedBy?: string): Promise<void> {
+    const doc = new jsPDF();
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const showReceived = requisition.status === 'received';
+
+    doc.setFontSize(20);
+    doc.setFont('helvetica', 'bold');
+    doc.text('MEDITRACK PURCHASE REQUISITION', pageWidth / 2, 20, { align: 'center' });
+
+    let yPosition = 35;
+
+    doc.setFontSize(12);
+    doc.text(`Requisition No: ${requisition.requisition_number}`, 20, yPosition);
+    doc.text(`Status: ${this.formatStatus(requisition.status)}`, pageWidth - 20, yPosition, { align: 'right' });
+    yPosition += 8;
+
+    doc.setFont('helvetica', 'normal');
+    doc.text(`Department: ${requisition.department.charAt(0).toUpperCase() + requisition.department.slice(1)}`, 20, yPosition);
+    doc.text(`Date: ${new Date(requisition.created_at).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}`, pageWidth - 20, yPosition, { align: 'right' });
+    yPosition += 6;
+
+    doc.text(`Supplier: ${requisition.supplier || '____________________'}`, 20, yPosition);
+    yPosition += 6;
+
+    if (requisition.notes) {
+      const noteLines = doc.splitTextToSize(`Notes: ${requisition.notes}`, pageWidth - 40);
+      doc.text(noteLines, 20, yPosition);
+      yPosition += noteLines.length * 5;
+    }
+    yPosition += 6;
+
+    const head = ['#', 'Item', 'Unit', 'On Hand', 'Threshold', 'Avg/Day', 'Suggested', 'Requested'];
+    if (showReceived) {
+      head.push('Received', 'Lot');
+    }
+
+    const body = requisition.items.map((line, index) => {
+      const row = [
+        String(index + 1),
+        line.item_name,
+        line.unit_of_measurement || 'pcs',
+        String(line.stock_on_hand),
+        String(line.stock_threshold),
+        String(line.average_daily_usage),
+        String(line.suggested_quantity),
+        String(line.requested_quantity)
+      ];
+      if (showReceived) {
+        row.push(String(line.received_quantity ?? 0), line.lot_number || '');
+      }
+      return row;
+    });
+
+    autoTable(doc, {
+      head: [head],
+      body,
+      startY: yPosition,
+      theme: 'grid',
+      headStyles: {
+        fillColor: [25, 118, 210],
+        textColor: 255,
+        fontSize: 9,
+        fontStyle: 'bold'
+      },
+      bodyStyles: {
+        fontSize: 9,
+        cellPadding: 2
+      },
+      columnStyles: {
+        1: { cellWidth: 'auto', minCellWidth: 40 }
+      },
+      margin: { top: 10, left: 10, right: 10 },
+      didDrawPage: (data) => {
+        doc.setFontSize(8);
+        doc.setFont('helvetica', 'normal');
+        doc.text(
+          `${requisition.requisition_number} | Page ${data.pageNumber} | Generated by MediTrack`,
+          pageWidth / 2,
+          pageHeight - 10,
+          { align: 'center' }
+        );
+      }
+    });
+
+    this.drawSignatureBlocks(doc, (doc as any).lastAutoTable.finalY + 25, [
+      { label: 'Prepared by', name: preparedBy },
+      { label: 'Approved by' },
+      { label: 'Received by' }
+    ]);
+
+    doc.save(`${requisition.requisition_number}.pdf`);
+  }
+
+  // A5 prescription slip with the clinic banner, patient details, numbered drug lines and
+  // the prescriber's signature and license number. Unsigned prescriptions are marked as drafts.
+  async exportPrescriptionToPDF(prescription: Prescription, consultation: Consultation): Promise<void> {
+    const doc = new jsPDF({ format: 'a5' });
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const patient = consultation.patient;
+    const isSigned = prescription.status === 'signed';
+
+    this.drawClinicBanner(doc, true);
+
+    let yPosition = 34;
+
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'bold');
+    doc.text(`No: ${prescription.prescription_number}`, 12, yPosition);
+    doc.text(
+      `Date: ${new Date(prescription.signed_at || prescription.created_at).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}`,
+      pageWidth - 12,
+      yPosition,
+      { align: 'right' }
+    );
+    yPosition += 7;
+
+    doc.setFont('helvetica', 'normal');
+    const patientName = patient
+      ? `${patient.last_name}, ${patient.first_name}${patient.middle_name ? ` ${patient.middle_name}` : ''}`
+      : '____________________';
+    doc.text(`Patient: ${patientName}`, 12, yPosition);
+    doc.text(
+      `Age/Sex: ${patient?.age ?? '__'} / ${patient?.sex || '__'}`,
+      pageWidth - 12,
+      yPosition,
+      { align: 'right' }
+    );
+    yPosition += 5;
+
+    const addressLines = doc.splitTextToSize(`Address: ${patient?.address || '____________________'}`, pageWidth - 24);
+    doc.text(addressLines, 12, yPosition);
+    yPosition += addressLines.length * 4.5;
+    doc.text(`Case No: ${consultation.case_number}`, 12, yPosition);
+    yPosition += 3;
+
+    doc.setDrawColor(200, 200, 200);
+    doc.line(12, yPosition, pageWidth - 12, yPosition);
+    yPosition += 12;
+
+    doc.setFontSize(22);
+    doc.setFont('times', 'bolditalic');
+    doc.text('Rx', 12, yPosition);
+    yPosition += 8;
+
+    prescription.items.forEach((item, index) => {
+      if (yPosition > pageHeight - 55) {
+        doc.addPage();
+        yPosition = 20;
+      }
+
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'bold');
+      const drugLine = `${index + 1}. ${item.drug_name}${item.strength ? ` ${item.strength}` : ''}`;
+      doc.text(drugLine, 18, yPosition);
+      doc.text(`#${item.quantity}`, pageWidth - 12, yPosition, { align: 'right' });
+      yPosition += 5;
+
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(9);
+      const sig = [item.dose, item.frequency, item.duration ? `for ${item.duration}` : '']
+        .filter(Boolean)
+        .join(', ');
+      const sigLines = doc.splitTextToSize(`Sig: ${sig}${item.instructions ? `. ${item.instructions}` : ''}`, pageWidth - 36);
+      doc.text(sigLines, 24, yPosition);
+      yPosition += sigLines.length * 4.5 + 4;
+    });
+
+    if (prescription.notes) {
+      yPosition += 2;
+      doc.setFontSize(9);
+      const noteLines = doc.splitTextToSize(`Notes: ${prescription.notes}`, pageWidth - 24);
+      doc.text(noteLines, 12, yPosition);
+      yPosition += noteLines.length * 4.5;
+    }
+
+    if (!isSigned) {
+      doc.setFontSize(40);
+      doc.setTextColor(220, 38, 38);
+      doc.text('DRAFT', pageWidth / 2, pageHeight / 2, { align: 'center', angle: 30 });
+      doc.setTextColor(0, 0, 0);
+    }
+
+    // Prescriber signature at the bottom of the last page
+    if (yPosition + 20 > pageHeight - 32) {
+      doc.addPage();
+    }
+    const signatureY = pageHeight - 32;
+    const signatureX = pageWidth - 12 - 60;
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'bold');
+    if (prescription.prescriber_name) {
+      doc.text(prescription.prescriber_name, signatureX + 30, signatureY - 2, { align: 'center' });
+    }
+    doc.line(signatureX, signatureY, signatureX + 60, signatureY);
+    doc.setFont('helvetica', 'normal');
+    doc.text('Attending Physician', signatureX + 30, signatureY + 5, { align: 'center' });
+    doc.text(`License No: ${prescription.prescriber_license_number || '__________'}`, signatureX + 30, signatureY + 10, { align: 'center' });
+
+    doc.setFontSize(7);
+    doc.text(
+      `${prescription.prescription_number} | Generated by MediTrack`,
+      pageWidth / 2,
+      pageHeight - 6,
+      { align: 'center' }
+    );
+
+    doc.save(`${prescription.prescription_number}.pdf`);
+  }
+
+  // A4 medical certificate, fit-to-return slip or referral letter, worded by
+  // buildMedicalDocumentTemplate and signed with the issuer's license number
+  async exportMedicalDocumentToPDF(document: MedicalDocument, consultation: Consultation): Promise<void> {
+    const template = buildMedicalDocumentTemplate(document, consultation);
+    const doc = new jsPDF();
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const textWidth = pageWidth - 50;
+
+    this.drawClinicBanner(doc);
+
+    let yPosition = 42;
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'bold');
+    doc.text(`No: ${document.serial_number}`, 25, yPosition);
+    doc.text(
+      `Date: ${new Date(document.issued_at).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}`,
+      pageWidth - 25,
+      yPosition,
+      { align: 'right' }
+    );
+    yPosition += 18;
+
+    doc.setFontSize(16);
+    doc.text(template.title, pageWidth / 2, yPosition, { align: 'center' });
+    yPosition += 16;
+
+    doc.setFontSize(11);
+    doc.text(template.salutation, 25, yPosition);
+    yPosition += 10;
+
+    doc.setFont('helvetica', 'normal');
+    template.paragraphs.forEach(paragraph => {
+      const lines = doc.splitTextToSize(paragraph, textWidth);
+      doc.text(lines, 25, yPosition);
+      yPosition += lines.length * 6 + 4;
+    });
+
+    template.details.forEach(detail => {
+      yPosition += 2;
+      doc.setFont('helvetica', 'bold');
+      doc.text(`${detail.label}:`, 25, yPosition);
+      yPosition += 6;
+      doc.setFont('helvetica', 'normal');
+      const lines = doc.splitTextToSize(detail.value, textWidth - 10);
+      doc.text(lines, 35, yPosition);
+      yPosition += lines.length * 6 + 2;
+    });
+
+    // Issuing physician's signature, kept on the same page as the last paragraph
+    if (yPosition + 20 > pageHeight - 45) {
+      doc.addPage();
+    }
+    const signatureY = pageHeight - 45;
+    const signatureX = pageWidth - 25 - 70;
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'bold');
+    doc.text(document.issuer_name, signatureX + 35, signatureY - 2, { align: 'center' });
+    doc.line(signatureX, signatureY, signatureX + 70, signatureY);
+    doc.setFont('helvetica', 'normal');
+    doc.text('Attending Physician', signatureX + 35, signatureY + 6, { align: 'center' });
+    doc.text(`License No: ${document.issuer_license_number}`, signatureX + 35, signatureY + 12, { align: 'center' });
+
+    doc.setFontSize(8);
+    doc.text(
+      `${document.serial_number} | Case ${consultation.case_number} | Generated by MediTrack`,
+      pageWidth / 2,
+      pageHeight - 8,
+      { align: 'center' }
+    );
+
+    doc.save(`${document.serial_number}.pdf`);
+  }
+
+  // Word version of exportMedicalDocumentToPDF for documents the physician wants to edit before printing
+  async exportMedicalDocumentToDocx(document: MedicalDocument, consultation: Consultation): Promise<void> {
+    const template = buildMedicalDocumentTemplate(document, consultation);
+    const issuedOn = new Date(document.issued_at).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+    const header = this.buildClinicHeader();
+
+    const footer = new Footer({
+      children: [
+        new Paragraph({
+          children: [
+            new TextRun({
+              text: `${document.serial_number} | Case ${consultation.case_number} | Generated by MediTrack`,
+              size: 16,
+              color: '666666'
+            }),
+          ],
+          alignment: AlignmentType.CENTER,
+        }),
+      ],
+    });
+
+    const children: Paragraph[] = [
+      new Paragraph({
+        children: [
+          new TextRun({ text: `No: ${document.serial_number}`, bold: true, size: 22 }),
+          new TextRun({ text: `\tDate: ${issuedOn}`, bold: true, size: 22 }),
+        ],
+        tabStops: [{ type: 'right', position: 9026 }],
+        spacing: { after: 400 },
+      }),
+      new Paragraph({
+        children: [new TextRun({ text: template.title, bold: true, size: 32 })],
+        heading: HeadingLevel.TITLE,
+        alignment: AlignmentType.CENTER,
+        spacing: { after: 400 },
+      }),
+      new Paragraph({
+        children: [new TextRun({ text: template.salutation, bold: true, size: 24 })],
+        spacing: { after: 200 },
+      }),
+      ...template.paragraphs.map(paragraph => new Paragraph({
+        children: [new TextRun({ text: paragraph, size: 24 })],
+        alignment: AlignmentType.JUSTIFIED,
+        spacing: { after: 200 },
+      })),
+      ...template.details.flatMap(detail => [
+        new Paragraph({
+          children: [new TextRun({ text: `${detail.label}:`, bold: true, size: 24 })],
+          spacing: { before: 100 },
+        }),
+        new Paragraph({
+          children: [new TextRun({ text: detail.value, size: 24 })],
+          indent: { left: 480 },
+          spacing: { after: 100 },
+        }),
+      ]),
+      new Paragraph({
+        children: [new TextRun({ text: document.issuer_name, bold: true, size: 22 })],
+        alignment: AlignmentType.RIGHT,
+        spacing: { before: 1200 },
+      }),
+      new Paragraph({
+        children: [new TextRun({ text: '______________________________', size: 22 })],
+        alignment: AlignmentType.RIGHT,
+      }),
+      new Paragraph({
+        children: [new TextRun({ text: 'Attending Physician', size: 22 })],
+        alignment: AlignmentType.RIGHT,
+      }),
+      new Paragraph({
+        children: [new TextRun({ text: `License No: ${document.issuer_license_number}`, size: 22 })],
+        alignment: AlignmentType.RIGHT,
+      }),
+    ];
+
+    const doc = new Document({
+      sections: [{
+        headers: { default: header },
+        footers: { default: footer },
+        children,
+        properties: {
+          page: {
+            margin: {
+              top: 1440,
+              right: 1440,
+              bottom: 1440,
+              left: 1440,
+            },
+          },
+        },
+      }],
+    });
+
+    const blob = await Packer.toBlob(doc);
+    saveAs(blob, `${document.serial_number}.docx`);
+  }
+
+  // A4 referral letter with the clinical summary taken when the referral was sent,
+  // the referring physician's signature and a return slip for the receiving facility
+  async exportReferralToPDF(referral: Referral, consultation: Consultation): Promise<void> {
+    const doc = new jsPDF();
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const patient = consultation.patient;
+    const textWidth = pageWidth - 40;
+    const formatDateTime = (value: string) => new Date(value).toLocaleString('en-US', {
+      year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'
+    });
+
+    this.drawClinicBanner(doc);
+
+    let yPosition = 42;
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'bold');
+    doc.text(`No: ${referral.referral_number}`, 20, yPosition);
+    doc.text(`Date: ${formatDateTime(referral.sent_at)}`, pageWidth - 20, yPosition, { align: 'right' });
+    yPosition += 14;
+
+    doc.setFontSize(16);
+    doc.text('REFERRAL LETTER', pageWidth / 2, yPosition, { align: 'center' });
+    yPosition += 8;
+    if (referral.urgency !== 'routine') {
+      doc.setFontSize(11);
+      doc.setTextColor(220, 38, 38);
+      doc.text(referral.urgency.toUpperCase(), pageWidth / 2, yPosition, { align: 'center' });
+      doc.setTextColor(0, 0, 0);
+    }
+    yPosition += 8;
+
+    doc.setFontSize(10);
+    const details: [string, string][] = [
+      ['To', `${referral.destination_facility}${referral.specialty ? ` - ${referral.specialty}` : ''}`],
+      ['Patient', patient ? `${patient.last_name}, ${patient.first_name}${patient.middle_name ? ` ${patient.middle_name}` : ''}` : '-'],
+      ['Age / Sex', `${patient?.age ?? '-'} / ${patient?.sex || '-'}`],
+      ['Address', patient?.address || '-'],
+      ['Case No', consultation.case_number],
+      ['Chief Complaint', consultation.chief_complaint || '-'],
+      ['Working Diagnosis', referral.working_diagnosis || '-'],
+      ['Reason for Referral', referral.reason]
+    ];
+    details.forEach(([label, value]) => {
+      doc.setFont('helvetica', 'bold');
+      doc.text(`${label}:`, 20, yPosition);
+      doc.setFont('helvetica', 'normal');
+      const lines = doc.splitTextToSize(value, textWidth - 45);
+      doc.text(lines, 65, yPosition);
+      yPosition += lines.length * 5 + 2;
+    });
+    yPosition += 4;
+
+    // Clinical summary
+    const vitals = referral.clinical_summary?.vitals;
+    const gcs = referral.clinical_summary?.gcs;
+    const summaryRows: string[][] = [];
+    if (vitals) {
+      summaryRows.push(
+        ['Blood Pressure', vitals.blood_pressure ? `${vitals.blood_pressure} mmHg` : '-'],
+        ['Temperature', vitals.temperature != null ? `${vitals.temperature} °C` : '-'],
+        ['Pulse Rate', vitals.pulse_rate != null ? `${vitals.pulse_rate} bpm` : '-'],
+        ['Respiratory Rate', vitals.respiratory_rate != null ? `${vitals.respiratory_rate} /min` : '-'],
+        ['Oxygen Saturation', vitals.oxygen_saturation != null ? `${vitals.oxygen_saturation}%` : '-'],
+        ['Pain Scale', vitals.pain_scale != null ? `${vitals.pain_scale}/10` : '-']
+      );
+      if (vitals.news2_score != null) {
+        summaryRows.push(['NEWS2', `${vitals.news2_score}${vitals.news2_risk ? ` (${vitals.news2_risk.replace('_', '-')} risk)` : ''}`]);
+      }
+    }
+    if (gcs) {
+      summaryRows.push(['Glasgow Coma Scale', `${gcs.total_score}/15 (E${gcs.eye_response} V${gcs.verbal_response} M${gcs.motor_response})`]);
+    }
+
+    doc.setFont('helvetica', 'bold');
+    doc.text('Clinical Summary', 20, yPosition);
+    if (vitals || gcs) {
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(8);
+      doc.text(
+        `Vitals taken ${vitals ? formatDateTime(vitals.recorded_at) : '-'}${gcs ? ` | GCS assessed ${formatDateTime(gcs.assessed_at)}` : ''}`,
+        pageWidth - 20,
+        yPosition,
+        { align: 'right' }
+      );
+      doc.setFontSize(10);
+    }
+    yPosition += 3;
+
+    if (summaryRows.length > 0) {
+      autoTable(doc, {
+        body: summaryRows,
+        startY: yPosition,
+        theme: 'grid',
+        bodyStyles: { fontSize: 9, cellPadding: 2 },
+        columnStyles: { 0: { fontStyle: 'bold', cellWidth: 50 } },
+        margin: { left: 20, right: 20 }
+      });
+      yPosition = (doc as any).lastAutoTable.finalY + 10;
+    } else {
+      doc.setFont('helvetica', 'italic');
+      doc.text('No vital signs or GCS were recorded before referral.', 20, yPosition + 5);
+      yPosition += 15;
+    }
+
+    // Referring physician
+    if (yPosition + 30 > pageHeight - 20) {
+      doc.addPage();
+      yPosition = 30;
+    }
+    const signatureX = pageWidth - 20 - 70;
+    yPosition += 12;
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'bold');
+    doc.text(referral.referrer_name, signatureX + 35, yPosition - 2, { align: 'center' });
+    doc.line(signatureX, yPosition, signatureX + 70, yPosition);
+    doc.setFont('helvetica', 'normal');
+    doc.text('Referring Physician', signatureX + 35, yPosition + 6, { align: 'center' });
+    doc.text(`License No: ${referral.referrer_license_number}`, signatureX + 35, yPosition + 12, { align: 'center' });
+    yPosition += 24;
+
+    // Return slip, cut off and sent back with the patient
+    if (yPosition + 55 > pageHeight - 12) {
+      doc.addPage();
+      yPosition = 20;
+    }
+    doc.setLineDashPattern([2, 2], 0);
+    doc.line(10, yPosition, pageWidth - 10, yPosition);
+    doc.setLineDashPattern([], 0);
+    yPosition += 8;
+    doc.setFont('helvetica', 'bold');
+    doc.text(`RETURN SLIP - ${referral.referral_number}`, pageWidth / 2, yPosition, { align: 'center' });
+    yPosition += 8;
+    doc.setFont('helvetica', 'normal');
+    doc.text('Findings / Diagnosis:', 20, yPosition);
+    for (let i = 0; i < 3; i++) {
+      yPosition += 8;
+      doc.line(20, yPosition, pageWidth - 20, yPosition);
+    }
+    yPosition += 8;
+    doc.text('Recommendations:', 20, yPosition);
+    yPosition += 8;
+    doc.line(20, yPosition, pageWidth - 20, yPosition);
+    yPosition += 14;
+    doc.line(pageWidth - 90, yPosition, pageWidth - 20, yPosition);
+    doc.text('Receiving Physician / Date', pageWidth - 55, yPosition + 5, { align: 'center' });
+
+    doc.setFontSize(8);
+    doc.text(
+      `${referral.referral_number} | Case ${consultation.case_number} | Generated by MediTrack`,
+      pageWidth / 2,
+      pageHeight - 6,
+      { align: 'center' }
+    );
+
+    doc.save(`${referral.referral_number}.pdf`);
+  }
+
+  // Walk-in queue report: arrivals, patients seen, walk-outs and wait from arrival to call per day
+  async exportQueueWaitTimesToPDF(rows: QueueDailyWaitTime[], fromDate: string, toDate: string): Promise<void> {
+    const doc = new jsPDF();
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const formatMinutes = (minutes: number | null) => minutes === null ? '-' : `${minutes} min`;
+
+    doc.setFontSize(20);
+    doc.setFont('helvetica', 'bold');
+    doc.text('MEDITRACK QUEUE WAIT TIMES', pageWidth / 2, 20, { align: 'center' });
+
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`${fromDate} to ${toDate}`, pageWidth / 2, 28, { align: 'center' });
+
+    const totals = rows.reduce((sum, row) => ({
+      arrivals: sum.arrivals + row.arrivals,
+      seen: sum.seen + row.seen,
+      left: sum.left + row.left
+    }), { arrivals: 0, seen: 0, left: 0 });
+    // Weighted by the number of patients called each day
+    const totalCalled = rows.reduce((sum, row) => sum + row.called, 0);
+    const overallAverage = totalCalled > 0
+      ? Math.round(rows.reduce((sum, row) => sum + (row.average_wait_minutes ?? 0) * row.called, 0) / totalCalled)
+      : null;
+
+    autoTable(doc, {
+      head: [['Date', 'Arrivals', 'Seen', 'Left Unseen', 'Average Wait', 'Longest Wait']],
+      body: rows.map(row => [
+        new Date(`${row.date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', year: 'numeric', month: 'short', day: 'numeric' }),
+        String(row.arrivals),
+        String(row.seen),
+        String(row.left),
+        formatMinutes(row.average_wait_minutes),
+        formatMinutes(row.longest_wait_minutes)
+      ]),
+      foot: [['Total', String(totals.arrivals), String(totals.seen), String(totals.left), formatMinutes(overallAverage), '']],
+      startY: 36,
+      theme: 'grid',
+      headStyles: {
+        fillColor: [25, 118, 210],
+        textColor: 255,
+        fontSize: 9,
+        fontStyle: 'bold'
+      },
+      footStyles: {
+        fillColor: [243, 244, 246],
+        textColor: 30,
+        fontSize: 9,
+        fontStyle: 'bold'
+      },
+      bodyStyles: {
+        fontSize: 9,
+        cellPadding: 2
+      },
+      margin: { top: 10, left: 10, right: 10 },
+      didDrawPage: (data) => {
+        doc.setFontSize(8);
+        doc.setFont('helvetica', 'normal');
+        doc.text(
+          `Queue wait times | Page ${data.pageNumber} | Generated by MediTrack`,
+          pageWidth / 2,
+          pageHeight - 10,
+          { align: 'center' }
+        );
+      }
+    });
+
+    doc.save(`queue-wait-times-${fromDate}-to-${toDate}.pdf`);
+  }
+
+  // Students of one course missing required vaccines, for the program coordinator
+  async exportImmunizationComplianceToPDF(report: ImmunizationComplianceReport): Promise<void> {
+    const doc = new jsPDF();
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const generatedOn = new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+    doc.setFontSize(20);
+    doc.setFont('helvetica', 'bold');
+    doc.text('MEDITRACK IMMUNIZATION COMPLIANCE', pageWidth / 2, 20, { align: 'center' });
+
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`${report.course} - as of ${generatedOn}`, pageWidth / 2, 28, { align: 'center' });
+
+    doc.setFontSize(9);
+    const requirements = doc.splitTextToSize(
+      `Required: ${report.requirements.map(requirement => `${requirement.vaccine} (${requirement.doses} dose${requirement.doses > 1 ? 's' : ''})`).join(', ')}`,
+      pageWidth - 20
+    );
+    doc.text(requirements, 10, 38);
+    const summaryY = 38 + requirements.length * 5;
+    doc.text(`${report.rows.length} of ${report.total_students} active students are missing required vaccines`, 10, summaryY);
+
+    autoTable(doc, {
+      head: [['Student', 'Patient ID', 'Year', 'Missing']],
+      body: report.rows.map(row => [
+        `${row.patient.last_name}, ${row.patient.first_name}`,
+        row.patient.patient_id,
+        row.patient.year_level ? String(row.patient.year_level) : '-',
+        row.missing.map(shortfall => shortfall.overdue_since
+          ? `${shortfall.vaccine}: booster overdue since ${shortfall.overdue_since}`
+          : `${shortfall.vaccine}: ${shortfall.doses_received} of ${shortfall.required_doses} doses`
+        ).join('\n')
+      ]),
+      startY: summaryY + 6,
+      theme: 'grid',
+      headStyles: {
+        fillColor: [25, 118, 210],
+        textColor: 255,
+        fontSize: 9,
+        fontStyle: 'bold'
+      },
+      bodyStyles: {
+        fontSize: 9,
+        cellPadding: 2
+      },
+      columnStyles: {
+        2: { cellWidth: 14 },
+        3: { cellWidth: 80 }
+      },
+      margin: { top: 10, left: 10, right: 10 },
+      didDrawPage: (data) => {
+        doc.setFontSize(8);
+        doc.setFont('helvetica', 'normal');
+        doc.text(
+          `Immunization compliance | Page ${data.pageNumber} | Generated by MediTrack`,
+          pageWidth / 2,
+          pageHeight - 10,
+          { align: 'center' }
+        );
+      }
+    });
+
+    doc.save(`immunization-compliance-${report.course.toLowerCase().replace(/\s+/g, '-')}.pdf`);
+  }
+
+  // Physical exam summary and the signed fit / unfit decision for the school year
+  async exportClearanceCertificateToPDF(exam: PhysicalExam, patient: Patient): Promise<void> {
+    const doc = new jsPDF();
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const textWidth = pageWidth - 40;
+    const formatLongDate = (value: string) => new Date(value.length === 10 ? `${value}T00:00:00` : value)
+      .toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+    const patientName = `${patient.first_name}${patient.middle_name ? ` ${patient.middle_name}` : ''} ${patient.last_name}`;
+    const affiliation = patient.patient_type === 'Student'
+      ? [patient.course, patient.year_level ? `Year ${patient.year_level}` : ''].filter(Boolean).join(', ')
+      : patient.department || patient.patient_type;
+
+    this.drawClinicBanner(doc);
+
+    let yPosition = 42;
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'bold');
+    doc.text(`School Year: ${exam.school_year}`, 20, yPosition);
+    doc.text(`Date: ${formatLongDate(exam.cleared_at || exam.exam_date)}`, pageWidth - 20, yPosition, { align: 'right' });
+    yPosition += 14;
+
+    doc.setFontSize(16);
+    doc.text('MEDICAL CLEARANCE CERTIFICATE', pageWidth / 2, yPosition, { align: 'center' });
+    yPosition += 14;
+
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'normal');
+    const statement = doc.splitTextToSize(
+      `This is to certify that ${patientName}${patient.age ? `, ${patient.age} years old` : ''}` +
+      `${affiliation ? ` (${affiliation})` : ''}, was given a ${PHYSICAL_EXAM_PURPOSE_LABELS[exam.purpose].toLowerCase()} ` +
+      `physical examination on ${formatLongDate(exam.exam_date)} and was found:`,
+      textWidth
+    );
+    doc.text(statement, 20, yPosition);
+    yPosition += statement.length * 6 + 6;
+
+    doc.setFontSize(14);
+    doc.setFont('helvetica', 'bold');
+    if (exam.clearance_status === 'unfit') {
+      doc.setTextColor(220, 38, 38);
+    }
+    doc.text(
+      exam.clearance_status === 'pending' ? 'CLEARANCE PENDING' : `PHYSICALLY ${CLEARANCE_STATUS_LABELS[exam.clearance_status].toUpperCase()}`,
+      pageWidth / 2,
+      yPosition,
+      { align: 'center' }
+    );
+    doc.setTextColor(0, 0, 0);
+    yPosition += 8;
+
+    if (exam.recommendations) {
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'bold');
+      doc.text(exam.clearance_status === 'unfit' ? 'Reason:' : 'Recommendations:', 20, yPosition);
+      doc.setFont('helvetica', 'normal');
+      const lines = doc.splitTextToSize(exam.recommendations, textWidth - 40);
+      doc.text(lines, 60, yPosition);
+      yPosition += lines.length * 5 + 2;
+    }
+    yPosition += 4;
+
+    const bmi = calculateBmi(exam.height_cm, exam.weight_kg);
+    const measurements = [
+      exam.height_cm ? `Height ${exam.height_cm} cm` : '',
+      exam.weight_kg ? `Weight ${exam.weight_kg} kg` : '',
+      bmi ? `BMI ${bmi}` : '',
+      exam.blood_pressure_systolic ? `BP ${exam.blood_pressure_systolic}/${exam.blood_pressure_diastolic} mmHg` : '',
+      exam.pulse_rate ? `PR ${exam.pulse_rate} bpm` : '',
+      exam.respiratory_rate ? `RR ${exam.respiratory_rate}/min` : ''
+    ].filter(Boolean).join(', ');
+
+    autoTable(doc, {
+      head: [['Examination', 'Result', 'Remarks']],
+      body: [
+        ['Measurements', '', measurements || '-'],
+        [
+          'Visual Acuity',
+          '',
+          `OD ${exam.visual_acuity_right || '-'}, OS ${exam.visual_acuity_left || '-'}${exam.wears_corrective_lenses ? ' (with corrective lenses)' : ''}`
+        ],
+        ...PHYSICAL_EXAM_SYSTEMS.map(system => [
+          system.label,
+          exam.findings[system.key]?.status === 'abnormal' ? 'Abnormal' : exam.findings[system.key]?.status === 'normal' ? 'Normal' : '-',
+          exam.findings[system.key]?.notes || ''
+        ]),
+        ...PHYSICAL_EXAM_LAB_TESTS.map(test => {
+          const result = exam.lab_results[test.key];
+          return [
+            test.label,
+            !result ? 'Awaiting' : result.status === 'not_done' ? 'Not required' : result.status === 'abnormal' ? 'Abnormal' : 'Normal',
+            result?.notes || ''
+          ];
+        })
+      ],
+      startY: yPosition,
+      theme: 'grid',
+      headStyles: {
+        fillColor: [25, 118, 210],
+        textColor: 255,
+        fontSize: 9,
+        fontStyle: 'bold'
+      },
+      bodyStyles: {
+        fontSize: 8,
+        cellPadding: 1.5
+      },
+      columnStyles: {
+        0: { fontStyle: 'bold', cellWidth: 45 },
+        1: { cellWidth: 25 }
+      },
+      margin: { left: 20, right: 20 }
+    });
+
+    // Examining physician
+    yPosition = (doc as any).lastAutoTable.finalY + 12;
+    if (yPosition + 30 > pageHeight - 15) {
+      doc.addPage();
+      yPosition = 30;
+    }
+    const signatureX = pageWidth - 20 - 70;
+    yPosition += 12;
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'bold');
+    if (exam.cleared_by_name) {
+      doc.text(exam.cleared_by_name, signatureX + 35, yPosition - 2, { align: 'center' });
+    }
+    doc.line(signatureX, yPosition, signatureX + 70, yPosition);
+    doc.setFont('helvetica', 'normal');
+    doc.text('Examining Physician', signatureX + 35, yPosition + 6, { align: 'center' });
+    if (exam.cleared_by_license_number) {
+      doc.text(`License No: ${exam.cleared_by_license_number}`, signatureX + 35, yPosition + 12, { align: 'center' });
+    }
+
+    doc.setFontSize(8);
+    doc.text(
+      `Medical clearance SY ${exam.school_year} | ${patient.patient_id} | Generated by MediTrack`,
+      pageWidth / 2,
+      pageHeight - 8,
+      { align: 'center' }
+    );
+
+    doc.save(`medical-clearance-${patient.patient_id}-${exam.school_year}.pdf`);
+  }
+
+  // Patients in a course / year level (or employees) not yet cleared for the school year
+  async exportClearanceReportToPDF(report: ClearanceReport): Promise<void> {
+    const doc = new jsPDF();
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const generatedOn = new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+    const scope = describeClearanceScope(report.scope);
+
+    doc.setFontSize(20);
+    doc.setFont('helvetica', 'bold');
+    doc.text('MEDITRACK MEDICAL CLEARANCE STATUS', pageWidth / 2, 20, { align: 'center' });
+
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`${scope} - SY ${report.school_year} - as of ${generatedOn}`, pageWidth / 2, 28, { align: 'center' });
+
+    doc.setFontSize(9);
+    doc.text(
+      `${report.cleared_count} of ${report.total_patients} cleared; ${report.rows.length} not yet cleared`,
+      10,
+      38
+    );
+
+    autoTable(doc, {
+      head: [['Name', 'Patient ID', 'Year', 'Status', 'Remarks']],
+      body: report.rows.map(row => [
+        `${row.patient.last_name}, ${row.patient.first_name}`,
+        row.patient.patient_id,
+        row.patient.year_level ? String(row.patient.year_level) : '-',
+        row.exam ? CLEARANCE_STATUS_LABELS[row.exam.clearance_status] : 'Not examined',
+        row.exam?.clearance_status === 'unfit'
+          ? row.exam.recommendations || ''
+          : row.exam ? `Examined ${row.exam.exam_date}` : ''
+      ]),
+      startY: 44,
+      theme: 'grid',
+      headStyles: {
+        fillColor: [25, 118, 210],
+        textColor: 255,
+        fontSize: 9,
+        fontStyle: 'bold'
+      },
+      bodyStyles: {
+        fontSize: 9,
+        cellPadding: 2
+      },
+      columnStyles: {
+        2: { cellWidth: 14 },
+        3: { cellWidth: 28 },
+        4: { cellWidth: 60 }
+      },
+      margin: { top: 10, left: 10, right: 10 },
+      didDrawPage: (data) => {
+        doc.setFontSize(8);
+        doc.setFont('helvetica', 'normal');
+        doc.text(
+          `Medical clearance status | Page ${data.pageNumber} | Generated by MediTrack`,
+          pageWidth / 2,
+          pageHeight - 10,
+          { align: 'center' }
+        );
+      }
+    });
+
+    doc.save(`medical-clearance-${scope.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${report.school_year}.pdf`);
+  }
+
+  // Odontogram as of a dental visit, followed by what was charted during the visit
+  async exportDentalChartToPDF(consultation: Consultation, chart: DentalChart, visitEntries: DentalChartEntry[]): Promise<void> {
+    const doc = new jsPDF();
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const patient = consultation.patient;
+
+    this.drawClinicBanner(doc);
+
+    let yPosition = 44;
+    doc.setFontSize(16);
+    doc.setFont('helvetica', 'bold');
+    doc.text('DENTAL CHART', pageWidth / 2, yPosition, { align: 'center' });
+    yPosition += 10;
+
+    doc.setFontSize(10);
+    const details: [string, string][] = [
+      ['Patient', patient ? `${patient.last_name}, ${patient.first_name}${patient.middle_name ? ` ${patient.middle_name}` : ''}` : '-'],
+      ['Age / Sex', `${patient?.age ?? '-'} / ${patient?.sex || '-'}`],
+      ['Case No', consultation.case_number],
+      ['Visit Date', new Date(consultation.consultation_date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })],
+      ['Dentist', consultation.attending_physician_name || '-']
+    ];
+    details.forEach(([label, value]) => {
+      doc.setFont('helvetica', 'bold');
+      doc.text(`${label}:`, 20, yPosition);
+      doc.setFont('helvetica', 'normal');
+      doc.text(value, 50, yPosition);
+      yPosition += 6;
+    });
+    yPosition += 6;
+
+    // Primary rows only when a primary tooth has been charted
+    const showPrimary = Object.keys(chart).some(tooth => Number(tooth) >= 50);
+    const rows = showPrimary
+      ? [PERMANENT_TEETH_ROWS[0], PRIMARY_TEETH_ROWS[0], PRIMARY_TEETH_ROWS[1], PERMANENT_TEETH_ROWS[1]]
+      : PERMANENT_TEETH_ROWS;
+    rows.forEach(row => {
+      yPosition = this.drawOdontogramRow(doc, chart, row, yPosition);
+    });
+
+    // Legend
+    doc.setFontSize(7);
+    let legendX = 20;
+    DENTAL_CONDITIONS.filter(condition => condition.key !== 'sound').forEach(condition => {
+      const label = `${condition.label}${condition.whole_tooth ? ` (${condition.abbreviation})` : ''}`;
+      const width = doc.getTextWidth(label) + 8;
+      if (legendX + width > pageWidth - 20) {
+        legendX = 20;
+        yPosition += 5;
+      }
+      doc.setFillColor(...this.hexToRgb(condition.color));
+      doc.rect(legendX, yPosition - 2.5, 3, 3, 'FD');
+      doc.text(label, legendX + 4, yPosition);
+      legendX += width;
+    });
+    yPosition += 8;
+
+    autoTable(doc, {
+      head: [['Tooth', 'Surfaces', 'Condition', 'Procedure', 'Notes']],
+      body: visitEntries.length > 0
+        ? visitEntries.map(entry => [
+          String(entry.tooth_number),
+          formatSurfaces(entry.surfaces) || 'Whole tooth',
+          getDentalCondition(entry.condition).label,
+          entry.procedure || '-',
+          entry.notes || ''
+        ])
+        : [['-', '-', 'Nothing charted this visit', '-', '']],
+      startY: yPosition,
+      theme: 'grid',
+      headStyles: {
+        fillColor: [25, 118, 210],
+        textColor: 255,
+        fontSize: 9,
+        fontStyle: 'bold'
+      },
+      bodyStyles: {
+        fontSize: 9,
+        cellPadding: 2
+      },
+      margin: { left: 20, right: 20 },
+      didDrawPage: (data) => {
+        doc.setFontSize(8);
+        doc.setFont('helvetica', 'normal');
+        doc.text(
+          `Dental chart ${consultation.case_number} | Page ${data.pageNumber} | Generated by MediTrack`,
+          pageWidth / 2,
+          pageHeight - 10,
+          { align: 'center' }
+        );
+      }
+    });
+
+    this.drawSignatureBlocks(doc, (doc as any).lastAutoTable.finalY + 25, [
+      { label: 'Dentist', name: consultation.attending_physician_name }
+    ]);
+
+    doc.save(`dental-chart-${consultation.case_number}.pdf`);
+  }
+
+  // Incident report for the safety office, signed by the reporter and the attending physician
+  async exportIncidentReportToPDF(report: IncidentReport, consultation: Consultation): Promise<void> {
+    const doc = new jsPDF();
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const textWidth = pageWidth - 40;
+    const patient = consultation.patient;
+    const injuries = getInjuryLabels(report);
+
+    this.drawClinicBanner(doc);
+
+    let yPosition = 42;
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'bold');
+    doc.text(`No: ${report.incident_number}`, 20, yPosition);
+    doc.text(`Filed: ${new Date(report.created_at).toLocaleDateString()}`, pageWidth - 20, yPosition, { align: 'right' });
+    yPosition += 14;
+
+    doc.setFontSize(16);
+    doc.text('INJURY / INCIDENT REPORT', pageWidth / 2, yPosition, { align: 'center' });
+    yPosition += 12;
+
+    doc.setFontSize(10);
+    const details: [string, string][] = [
+      ['Patient', patient ? `${patient.last_name}, ${patient.first_name}${patient.middle_name ? ` ${patient.middle_name}` : ''}` : '-'],
+      ['Age / Sex', `${patient?.age ?? '-'} / ${patient?.sex || '-'}`],
+      ['Course / Office', patient?.course || patient?.department || '-'],
+      ['Case No', consultation.case_number],
+      ['Date / Time', `${report.doi}${report.toi ? ` ${report.toi.slice(0, 5)}` : ''}`],
+      ['Place of Injury', `${report.poi}${report.poi_details ? ` - ${report.poi_details}` : ''}`],
+      ['Mechanism', INJURY_MECHANISM_LABELS[report.mechanism]],
+      ['What Happened', report.mechanism_details],
+      ['Nature of Injury', `${report.noi}${injuries.length > 0 ? ` (${injuries.join(', ')})` : ''}`],
+      ['Body Parts', report.body_parts || '-'],
+      ['First Aid Given', report.first_aid_given || '-'],
+      ['Disposition', `${INCIDENT_DISPOSITION_LABELS[report.disposition]}${report.disposition_notes ? ` - ${report.disposition_notes}` : ''}`],
+      ['Witnesses', report.witnesses.length > 0
+        ? report.witnesses.map(witness => `${witness.name}${witness.contact ? ` (${witness.contact})` : ''}`).join('; ')
+        : 'None recorded']
+    ];
+    details.forEach(([label, value]) => {
+      doc.setFont('helvetica', 'bold');
+      doc.text(`${label}:`, 20, yPosition);
+      doc.setFont('helvetica', 'normal');
+      const lines = doc.splitTextToSize(value, textWidth - 45);
+      doc.text(lines, 65, yPosition);
+      yPosition += lines.length * 5 + 2;
+    });
+
+    this.drawSignatureBlocks(doc, yPosition + 25, [
+      { label: 'Reported by', name: report.reporter_name },
+      { label: 'Attending Physician', name: consultation.attending_physician_name }
+    ]);
+
+    doc.save(`incident-report-${report.incident_number}.pdf`);
+  }
+
+  // Campus injury hotspot report: incidents per place of injury for the safety officers
+  async exportInjuryHotspotsToPDF(hotspots: InjuryHotspot[], from: string, to: string): Promise<void> {
+    const doc = new jsPDF();
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const total = hotspots.reduce((sum, hotspot) => sum + hotspot.total, 0);
+
+    doc.setFontSize(20);
+    doc.setFont('helvetica', 'bold');
+    doc.text('MEDITRACK CAMPUS INJURY HOTSPOTS', pageWidth / 2, 20, { align: 'center' });
+
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`Incidents from ${from || 'the beginning'} to ${to || 'today'}`, pageWidth / 2, 28, { align: 'center' });
+
+    doc.setFontSize(9);
+    doc.text(`${total} incident${total === 1 ? '' : 's'} at ${hotspots.length} location${hotspots.length === 1 ? '' : 's'}`, 10, 38);
+
+    autoTable(doc, {
+      head: [['Place of Injury', 'Incidents', 'Referred', 'Most Common Mechanism', 'Injuries', 'Last Incident']],
+      body: hotspots.map(hotspot => [
+        hotspot.poi,
+        String(hotspot.total),
+        String(hotspot.serious_count),
+        `${INJURY_MECHANISM_LABELS[hotspot.top_mechanism]} (${hotspot.top_mechanism_count})`,
+        Object.entries(hotspot.injury_counts).map(([label, count]) => `${label} ${count}`).join(', ') || '-',
+        hotspot.last_incident_date
+      ]),
+      startY: 44,
+      theme: 'grid',
+      headStyles: {
+        fillColor: [25, 118, 210],
+        textColor: 255,
+        fontSize: 9,
+        fontStyle: 'bold'
+      },
+      bodyStyles: {
+        fontSize: 9,
+        cellPadding: 2
+      },
+      columnStyles: {
+        1: { cellWidth: 20, halign: 'center' },
+        2: { cellWidth: 18, halign: 'center' },
+        5: { cellWidth: 26 }
+      },
+      margin: { top: 10, left: 10, right: 10 },
+      didDrawPage: (data) => {
+        doc.setFontSize(8);
+        doc.setFont('helvetica', 'normal');
+        doc.text(
+          `Campus injury hotspots | Page ${data.pageNumber} | Generated by MediTrack`,
+          pageWidth / 2,
+          pageHeight - 10,
+          { align: 'center' }
+        );
+      }
+    });
+
+    doc.save(`injury-hotspots-${from || 'all'}-to-${to || 'today'}.pdf`);
+  }
+
+  // Morbidity census / health statistics in the fixed official layout (see buildStatisticsTables)
+  async exportHealthStatistics(report: HealthStatisticsReport, format: 'excel' | 'pdf' | 'docx'): Promise<void> {
+    const filename = `health-statistics-${report.from}-to-${report.to}`;
+    switch (format) {
+      case 'excel':
+        return this.exportHealthStatisticsToExcel(report, filename);
+      case 'pdf':
+        return this.exportHealthStatisticsToPDF(report, filename);
+      case 'docx':
+        return this.exportHealthStatisticsToDocx(report, filename);
+    }
+  }
+
+  private exportHealthStatisticsToExcel(report: HealthStatisticsReport, filename: string): void {
+    const tables = buildStatisticsTables(report);
+    const wsData: (string | number)[][] = [
+      ['MEDITRACK CLINIC'],
+      ['HEALTH STATISTICS REPORT'],
+      [`Period: ${formatStatisticsPeriod(report.from, report.to)}`],
+      [`Generated: ${this.formatDate(new Date(report.generated_at))}`],
+      ['']
+    ];
+    tables.forEach(table => {
+      wsData.push([table.title], table.headers, ...table.rows);
+      if (table.total) wsData.push(table.total);
+      wsData.push(['']);
+    });
+    STATISTICS_SIGNATORIES.forEach(label => {
+      wsData.push([''], [`${label}: ______________________________   Date: ____________`]);
+    });
+
+    const ws = XLSX.utils.aoa_to_sheet(wsData);
+    ws['!cols'] = [{ wch: 40 }, { wch: 40 }, { wch: 12 }, { wch: 12 }, { wch: 12 }];
+    ws['!merges'] = [0, 1, 2, 3].map(row => ({ s: { c: 0, r: row }, e: { c: 4, r: row } }));
+    if (ws['A1']) {
+      ws['A1'].s = {
+        font: { bold: true, sz: 16 },
+        alignment: { horizontal: 'center' },
+        fill: { fgColor: { rgb: 'E3F2FD' } }
+      };
+    }
+
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, 'Health Statistics');
+    XLSX.writeFile(wb, `${filename}.xlsx`);
+  }
+
+  private exportHealthStatisticsToPDF(report: HealthStatisticsReport, filename: string): void {
+    const doc = new jsPDF();
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const period = formatStatisticsPeriod(report.from, report.to);
+
+    this.drawClinicBanner(doc);
+
+    doc.setFontSize(16);
+    doc.setFont('helvetica', 'bold');
+    doc.text('HEALTH STATISTICS REPORT', pageWidth / 2, 44, { align: 'center' });
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`Period: ${period}`, pageWidth / 2, 51, { align: 'center' });
+
+    let yPosition = 60;
+    buildStatisticsTables(report).forEach(table => {
+      if (yPosition > pageHeight - 40) {
+        doc.addPage();
+        yPosition = 20;
+      }
+      doc.setFontSize(11);
+      doc.setFont('helvetica', 'bold');
+      doc.text(table.title, 14, yPosition);
+
+      autoTable(doc, {
+        head: [table.headers],
+        body: table.rows.map(row => row.map(String)),
+        foot: table.total ? [table.total.map(String)] : undefined,
+        startY: yPosition + 3,
+        theme: 'grid',
+        headStyles: {
+          fillColor: [25, 118, 210],
+          textColor: 255,
+          fontSize: 9,
+          fontStyle: 'bold'
+        },
+        bodyStyles: {
+          fontSize: 9,
+          cellPadding: 2
+        },
+        footStyles: {
+          fillColor: [241, 245, 249],
+          textColor: 0,
+          fontSize: 9,
+          fontStyle: 'bold'
+        },
+        showFoot: 'lastPage',
+        margin: { left: 14, right: 14, bottom: 20 },
+        didDrawPage: (data) => {
+          doc.setFontSize(8);
+          doc.setFont('helvetica', 'normal');
+          doc.text(
+            `Health statistics, ${period} | Page ${data.pageNumber} | Generated by MediTrack`,
+            pageWidth / 2,
+            pageHeight - 10,
+            { align: 'center' }
+          );
+        }
+      });
+      yPosition = (doc as any).lastAutoTable.finalY + 10;
+    });
+
+    this.drawSignatureBlocks(doc, yPosition + 20, STATISTICS_SIGNATORIES.map(label => ({ label })));
+
+    doc.save(`${filename}.pdf`);
+  }
+
+  private async exportHealthStatisticsToDocx(report: HealthStatisticsReport, filename: string): Promise<void> {
+    const period = formatStatisticsPeriod(report.from, report.to);
+    const cell = (value: string | number, options: { bold?: boolean; color?: string; fill?: string } = {}) => new TableCell({
+      children: [
+        new Paragraph({
+          children: [new TextRun({ text: String(value), bold: options.bold, size: 18, color: options.color })],
+        }),
+      ],
+      shading: options.fill ? { fill: options.fill } : undefined,
+    });
+
+    const header = this.buildClinicHeader();
+
+    const footer = new Footer({
+      children: [
+        new Paragraph({
+          children: [
+            new TextRun({ text: `Health statistics, ${period} | Generated by MediTrack`, size: 16, color: '666666' }),
+          ],
+          alignment: AlignmentType.CENTER,
+        }),
+      ],
+    });
+
+    const children: (Paragraph | Table)[] = [
+      new Paragraph({
+        children: [new TextRun({ text: 'HEALTH STATISTICS REPORT', bold: true, size: 32 })],
+        heading: HeadingLevel.TITLE,
+        alignment: AlignmentType.CENTER,
+        spacing: { after: 100 },
+      }),
+      new Paragraph({
+        children: [new TextRun({ text: `Period: ${period}`, size: 22 })],
+        alignment: AlignmentType.CENTER,
+        spacing: { after: 300 },
+      }),
+    ];
+
+    buildStatisticsTables(report).forEach(table => {
+      children.push(
+        new Paragraph({
+          children: [new TextRun({ text: table.title, bold: true, size: 22 })],
+          spacing: { before: 300, after: 100 },
+        }),
+        new Table({
+          width: { size: 100, type: WidthType.PERCENTAGE },
+          rows: [
+            new TableRow({
+              children: table.headers.map(heading => cell(heading, { bold: true, color: 'ffffff', fill: '1e40af' })),
+              tableHeader: true,
+            }),
+            ...table.rows.map(row => new TableRow({ children: row.map(value => cell(value)) })),
+            ...(table.total ? [new TableRow({ children: table.total.map(value => cell(value, { bold: true, fill: 'f1f5f9' })) })] : []),
+          ],
+        })
+      );
+    });
+
+    STATISTICS_SIGNATORIES.forEach(label => {
+      children.push(new Paragraph({
+        children: [new TextRun({ text: `${label}: ______________________________   Date: ____________`, size: 22 })],
+        spacing: { before: 600 },
+      }));
+    });
+
+    const doc = new Document({
+      sections: [{
+        headers: { default: header },
+        footers: { default: footer },
+        children,
+        properties: {
+          page: {
+            margin: {
+              top: 1440,
+              right: 1440,
+              bottom: 1440,
+              left: 1440,
+            },
+          },
+        },
+      }],
+    });
+
+    const blob = await Packer.toBlob(doc);
+    saveAs(blob, `${filename}.docx`);
+  }
+
+  // One row of teeth, each a square split into four sides around the occlusal centre;
+  // returns the y position below the row
+  private drawOdontogramRow(doc: jsPDF, chart: DentalChart, row: number[], yPosition: number): number {
+    const size = 8;
+    const gap = 1.5;
+    const midlineGap = 4;
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const rowWidth = row.length * (size + gap) - gap + midlineGap;
+    const upper = [1, 2, 5, 6].includes(Math.floor(row[0] / 10));
+    const top = yPosition + (upper ? 4 : 0);
+
+    doc.setDrawColor(107, 114, 128);
+    doc.setLineWidth(0.2);
+    doc.setFontSize(7);
+
+    row.forEach((toothNumber, index) => {
+      const x = (pageWidth - rowWidth) / 2 + index * (size + gap) + (index >= row.length / 2 ? midlineGap : 0);
+      const state = chart[toothNumber];
+      const layout = getSurfaceLayout(toothNumber);
+      const fillFor = (surface: ToothSurface): [number, number, number] => {
+        const condition = state?.whole || state?.surfaces[surface];
+        return condition ? this.hexToRgb(getDentalCondition(condition).color) : [255, 255, 255];
+      };
+      const centre = [x + size / 2, top + size / 2];
+      const corners = {
+        topLeft: [x, top],
+        topRight: [x + size, top],
+        bottomRight: [x + size, top + size],
+        bottomLeft: [x, top + size]
+      };
+      const sides: [ToothSurface, number[], number[]][] = [
+        [layout.top, corners.topLeft, corners.topRight],
+        [layout.right, corners.topRight, corners.bottomRight],
+        [layout.bottom, corners.bottomRight, corners.bottomLeft],
+        [layout.left, corners.bottomLeft, corners.topLeft]
+      ];
+      sides.forEach(([surface, from, to]) => {
+        doc.setFillColor(...fillFor(surface));
+        doc.triangle(from[0], from[1], to[0], to[1], centre[0], centre[1], 'FD');
+      });
+      doc.setFillColor(...fillFor('O'));
+      doc.rect(x + size * 0.3, top + size * 0.3, size * 0.4, size * 0.4, 'FD');
+
+      if (state?.whole === 'missing' || state?.whole === 'extraction_indicated') {
+        doc.setLineWidth(0.6);
+        doc.line(x, top, x + size, top + size);
+        doc.line(x + size, top, x, top + size);
+        doc.setLineWidth(0.2);
+      }
+
+      const abbreviation = state?.whole ? getDentalCondition(state.whole).abbreviation : '';
+      doc.setFont('helvetica', 'bold');
+      doc.text(String(toothNumber), x + size / 2, upper ? top - 1.5 : top + size + 3.5, { align: 'center' });
+      doc.setFont('helvetica', 'normal');
+      if (abbreviation) {
+        doc.text(abbreviation, x + size / 2, upper ? top + size + 3.5 : top - 1.5, { align: 'center' });
+      }
+    });
+
+    return top + size + (upper ? 8 : 10);
+  }
+
+  private hexToRgb(hex: string): [number, number, number] {
+    const value = parseInt(hex.replace('#', ''), 16);
+    return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+  }
+
+  // Blue clinic banner across the top of the first page; compact for A5 slips
+  private drawClinicBanner(doc: jsPDF, compact: boolean = false): void {
+    const pageWidth = doc.internal.pageSize.getWidth();
+
+    doc.setFillColor(25, 118, 210);
+    doc.rect(0, 0, pageWidth, compact ? 24 : 30, 'F');
+    doc.setTextColor(255, 255, 255);
+    doc.setFontSize(compact ? 16 : 20);
+    doc.setFont('helvetica', 'bold');
+    doc.text('MEDITRACK CLINIC', pageWidth / 2, compact ? 11 : 14, { align: 'center' });
+    doc.setFontSize(compact ? 9 : 10);
+    doc.setFont('helvetica', 'normal');
+    doc.text('Medical and Dental Services', pageWidth / 2, compact ? 18 : 22, { align: 'center' });
+    doc.setTextColor(0, 0, 0);
+  }
+
+  // The same clinic name and services line as the page header of Word documents
+  private buildClinicHeader(): Header {
+    return new Header({
+      children: [
+        new Paragraph({
+          children: [
+            new TextRun({ text: 'MEDITRACK CLINIC', bold: true, size: 32, color: '1976d2' }),
+          ],
+          alignment: AlignmentType.CENTER,
+        }),
+        new Paragraph({
+          children: [
+            new TextRun({ text: 'Medical and Dental Services', size: 20, color: '666666' }),
+          ],
+          alignment: AlignmentType.CENTER,
+        }),
+      ],
+    });
+  }
+
+  // Side-by-side signature lines with the label under each; starts a new page when short of room
+  private drawSignatureBlocks(doc: jsPDF, yPosition: number, signatures: { label: string; name?: string }[]): void {
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    if (yPosition > pageHeight - 40) {
+      doc.addPage();
+      yPosition = 30;
+    }
+
+    const blockWidth = (pageWidth - 40) / signatures.length;
+
+    doc.setFontSize(10);
+    signatures.forEach((signature, index) => {
+      const x = 20 + index * blockWidth;
+      doc.setFont('helvetica', 'normal');
+      if (signature.name) {
+        doc.text(signature.name, x + (blockWidth - 10) / 2, yPosition - 2, { align: 'center' });
+      }
+      doc.line(x, yPosition, x + blockWidth - 10, yPosition);
+      doc.setFont('helvetica', 'bold');
+      doc.text(signature.label, x + (blockWidth - 10) / 2, yPosition + 6, { align: 'center' });
+    });
+  }
+
+  // Sheet of shelf/bin labels (3 x 8 per A4 page) encoding each item's code as a
+  // Code 128 barcode or QR code, so keyboard-wedge scanners type the code back
+  async exportLabelsToPDF(items: any[], format: LabelFormat = 'barcode', copies: number = 1): Promise<void> {
+    const labelItems = items.filter(item => item.code?.trim());
+    if (labelItems.length === 0) {
+      throw new Error('None of the selected items has a code to print');
+    }
+
+    const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+    const columns = 3;
+    const rows = 8;
+    const labelWidth = 64;
+    const labelHeight = 34;
+    const marginLeft = (doc.internal.pageSize.getWidth() - columns * labelWidth) / 2;
+    const marginTop = (doc.internal.pageSize.getHeight() - rows * labelHeight) / 2;
+
+    const labels = labelItems.flatMap(item => Array(Math.max(1, copies)).fill(item));
+
+    for (let index = 0; index < labels.length; index++) {
+      const position = index % (columns * rows);
+      if (index > 0 && position === 0) {
+        doc.addPage();
+      }
+
+      const item = labels[index];
+      const code = item.code.trim();
+      const x = marginLeft + (position % columns) * labelWidth;
+      const y = marginTop + Math.floor(position / columns) * labelHeight;
+
+      // Light cut guide
+      doc.setDrawColor(220);
+      doc.rect(x, y, labelWidth, labelHeight);
+
+      const name = doc.splitTextToSize(item.generic_name || item.brand_name || code, format === 'qr' ? 34 : 58)[0];
+      const details = [item.brand_name, item.unit_of_measurement, item.department]
+        .filter(Boolean)
+        .join(' | ');
+
+      if (format === 'qr') {
+        const qrImage = await QRCode.toDataURL(code, { margin: 0, width: 240, errorCorrectionLevel: 'M' });
+        doc.addImage(qrImage, 'PNG', x + 3, y + 4, 26, 26);
+
+        doc.setFontSize(9);
+        doc.setFont('helvetica', 'bold');
+        doc.text(name, x + 32, y + 9);
+        doc.setFontSize(7);
+        doc.setFont('helvetica', 'normal');
+        doc.text(doc.splitTextToSize(details, 29).slice(0, 3), x + 32, y + 14);
+        doc.setFont('courier', 'bold');
+        doc.setFontSize(8);
+        doc.text(code, x + 32, y + 29);
+      } else {
+        doc.setFontSize(9);
+        doc.setFont('helvetica', 'bold');
+        doc.text(name, x + labelWidth / 2, y + 6, { align: 'center' });
+        doc.setFontSize(7);
+        doc.setFont('helvetica', 'normal');
+        doc.text(doc.splitTextToSize(details, 58)[0] || '', x + labelWidth / 2, y + 10, { align: 'center' });
+
+        doc.addImage(this.createBarcodeImage(code), 'PNG', x + 5, y + 12, labelWidth - 10, 15);
+
+        doc.setFont('courier', 'bold');
+        doc.setFontSize(8);
+        doc.text(code, x + labelWidth / 2, y + 31, { align: 'center' });
+      }
+    }
+
+    doc.save(`inventory_labels_${new Date().toISOString().split('T')[0]}.pdf`);
+  }
+
+  private createBarcodeImage(code: string): string {
+    const canvas = document.createElement('canvas');
+    try {
+      JsBarcode(canvas, code, { format: 'CODE128', displayValue: false, margin: 0, height: 60, width: 2 });
+    } catch (error) {
+      throw new Error(`Code "${code}" cannot be printed as a barcode`);
+    }
+    return canvas.toDataURL('image/png');
+  }
+
   async exportData(options: ExportOptions): Promise<void> {
     try {
       switch (options.format) {
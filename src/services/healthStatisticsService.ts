@@ -0,0 +1,358 @@
+import { supabase, fetchAllRows } from '../lib/supabase';
+import { type Patient } from './supabaseService';
+import { diagnosisService } from './diagnosisService';
+import { REFERRAL_URGENCY_LABELS, type ReferralUrgency } from './referralService';
+import { INJURY_TYPES } from '../constants/incidents';
+import {
+  STATISTICS_AGE_GROUPS,
+  STATISTICS_PATIENT_TYPES,
+  STATISTICS_TOP_LIMIT
+} from '../constants/healthStatistics';
+
+// Male / female / total counts for one row of a tabulation
+export interface SexBreakdown {
+  male: number;
+  female: number;
+  total: number;
+}
+
+export interface HealthStatisticsSummary {
+  consultations: number;
+  patients_seen: number;
+  new_patients: number;
+  medical: number;
+  dental: number;
+  referrals: number;
+  injuries: number;
+}
+
+export interface HealthStatisticsReport {
+  from: string;
+  to: string;
+  generated_at: string;
+  summary: HealthStatisticsSummary;
+  by_month: { month: string; medical: number; dental: number; total: number }[];
+  by_patient_type: ({ patient_type: string } & SexBreakdown)[];
+  by_age_group: ({ age_group: string } & SexBreakdown)[];
+  by_complaint: ({ complaint: string } & SexBreakdown)[];
+  by_diagnosis: ({ code: string; description: string } & SexBreakdown)[];
+  referrals_by_urgency: { urgency: ReferralUrgency; sent: number; returned: number }[];
+  injuries_by_type: { injury: string; count: number }[];
+}
+
+// One numbered section of the official layout; every export renders these in order
+export interface StatisticsTable {
+  title: string;
+  headers: string[];
+  rows: (string | number)[][];
+  total?: (string | number)[];
+}
+
+type CensusConsultation = {
+  id: number;
+  patient_id: number;
+  consultation_date: string;
+  chief_complaint: string | null;
+  department: 'medical' | 'dental' | null;
+  patient: Pick<Patient, 'patient_type' | 'sex' | 'age' | 'birthday'> | null;
+};
+
+const emptyBreakdown = (): SexBreakdown => ({ male: 0, female: 0, total: 0 });
+
+const addToBreakdown = (breakdown: SexBreakdown, sex?: Patient['sex'] | null) => {
+  if (sex === 'Male') breakdown.male++;
+  if (sex === 'Female') breakdown.female++;
+  breakdown.total++;
+};
+
+// Age on the day of the consultation, from the birthday where recorded
+const getAgeOn = (patient: CensusConsultation['patient'], date: string): number | null => {
+  if (patient?.birthday) {
+    const birthday = new Date(`${patient.birthday}T00:00:00`);
+    const on = new Date(`${date}T00:00:00`);
+    let age = on.getFullYear() - birthday.getFullYear();
+    if (on.getMonth() < birthday.getMonth() || (on.getMonth() === birthday.getMonth() && on.getDate() < birthday.getDate())) {
+      age--;
+    }
+    return age;
+  }
+  return patient?.age ?? null;
+};
+
+// Complaints are free text; group them ignoring case and extra spaces
+const normalizeComplaint = (complaint: string | null): string => {
+  const cleaned = (complaint || '').trim().replace(/\s+/g, ' ');
+  return cleaned ? cleaned.charAt(0).toUpperCase() + cleaned.slice(1).toLowerCase() : 'Not recorded';
+};
+
+// Keeps the most frequent rows and sums the rest into one "All others" row
+const topWithOthers = <T extends SexBreakdown>(rows: T[], makeOthers: (others: SexBreakdown) => T): T[] => {
+  const sorted = [...rows].sort((a, b) => b.total - a.total);
+  if (sorted.length <= STATISTICS_TOP_LIMIT) return sorted;
+
+  const others = emptyBreakdown();
+  sorted.slice(STATISTICS_TOP_LIMIT).forEach(row => {
+    others.male += row.male;
+    others.female += row.female;
+    others.total += row.total;
+  });
+  return [...sorted.slice(0, STATISTICS_TOP_LIMIT), makeOthers(others)];
+};
+
+const sumBreakdowns = (rows: SexBreakdown[]): SexBreakdown => rows.reduce(
+  (sum, row) => ({ male: sum.male + row.male, female: sum.female + row.female, total: sum.total + row.total }),
+  emptyBreakdown()
+);
+
+export const formatStatisticsPeriod = (from: string, to: string): string => {
+  const format = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+  return from === to ? format(from) : `${format(from)} to ${format(to)}`;
+};
+
+// The fixed official layout shared by the Excel, PDF and Word exports and the on-screen preview
+export const buildStatisticsTables = (report: HealthStatisticsReport): StatisticsTable[] => {
+  const sexRow = (label: string, row: SexBreakdown) => [label, row.male, row.female, row.total];
+  const sexHeaders = (first: string) => [first, 'Male', 'Female', 'Total'];
+  const diagnosisTotal = sumBreakdowns(report.by_diagnosis);
+
+  return [
+    {
+      title: 'I. Summary',
+      headers: ['Indicator', 'Count'],
+      rows: [
+        ['Total consultations', report.summary.consultations],
+        ['Medical consultations', report.summary.medical],
+        ['Dental consultations', report.summary.dental],
+        ['Patients seen', report.summary.patients_seen],
+        ['Newly registered patients', report.summary.new_patients],
+        ['Referrals to hospitals / specialists', report.summary.referrals],
+        ['Consultations with injuries', report.summary.injuries]
+      ]
+    },
+    {
+      title: 'II. Consultations by Month',
+      headers: ['Month', 'Medical', 'Dental', 'Total'],
+      rows: report.by_month.map(row => [row.month, row.medical, row.dental, row.total]),
+      total: [
+        'Total',
+        report.summary.medical,
+        report.summary.dental,
+        report.summary.consultations
+      ]
+    },
+    {
+      title: 'III. Consultations by Patient Type and Sex',
+      headers: sexHeaders('Patient Type'),
+      rows: report.by_patient_type.map(row => sexRow(row.patient_type, row)),
+      total: sexRow('Total', sumBreakdowns(report.by_patient_type))
+    },
+    {
+      title: 'IV. Consultations by Age Group and Sex',
+      headers: sexHeaders('Age Group'),
+      rows: report.by_age_group.map(row => sexRow(row.age_group, row)),
+      total: sexRow('Total', sumBreakdowns(report.by_age_group))
+    },
+    {
+      title: 'V. Leading Chief Complaints',
+      headers: sexHeaders('Chief Complaint'),
+      rows: report.by_complaint.map(row => sexRow(row.complaint, row)),
+      total: sexRow('Total', sumBreakdowns(report.by_complaint))
+    },
+    {
+      title: 'VI. Leading Causes of Morbidity (ICD-10)',
+      headers: ['ICD-10', 'Diagnosis', 'Male', 'Female', 'Total'],
+      rows: report.by_diagnosis.map(row => [row.code, row.description, row.male, row.female, row.total]),
+      total: ['', 'Total', diagnosisTotal.male, diagnosisTotal.female, diagnosisTotal.total]
+    },
+    {
+      title: 'VII. Referrals by Urgency',
+      headers: ['Urgency', 'Sent', 'Returned with Findings'],
+      rows: report.referrals_by_urgency.map(row => [REFERRAL_URGENCY_LABELS[row.urgency], row.sent, row.returned]),
+      total: [
+        'Total',
+        report.referrals_by_urgency.reduce((sum, row) => sum + row.sent, 0),
+        report.referrals_by_urgency.reduce((sum, row) => sum + row.returned, 0)
+      ]
+    },
+    {
+      title: 'VIII. Injuries by Type',
+      headers: ['Injury', 'Consultations'],
+      rows: report.injuries_by_type.map(row => [row.injury, row.count])
+    }
+  ];
+};
+
+// Health Statistics Service - morbidity census and periodic statistics for the university administration
+export const healthStatisticsService = {
+  // Tabulates consultations held from `from` to `to` (inclusive); cancelled consultations are left out
+  async getHealthStatistics(from: string, to: string): Promise<HealthStatisticsReport> {
+    if (!from || !to) {
+      throw new Error('Select the start and end of the reporting period');
+    }
+    if (from > to) {
+      throw new Error('The start of the period must be before its end');
+    }
+
+    // Long periods run past the PostgREST page limit, so the row queries are read in full
+    const [consultationRows, newPatientsResult, referralRows, injuryRows, diagnoses] = await Promise.all([
+      fetchAllRows((rangeFrom, rangeTo) => supabase
+        .from('consultations')
+        .select(`
+          id,
+          patient_id,
+          consultation_date,
+          chief_complaint,
+          department,
+          patient:patients (patient_type, sex, age, birthday)
+        `)
+        .gte('consultation_date', from)
+        .lte('consultation_date', to)
+        .neq('status', 'cancelled')
+        .order('id')
+        .range(rangeFrom, rangeTo)),
+      supabase
+        .from('patients')
+        .select('id', { count: 'exact', head: true })
+        .gte('created_at', from)
+        .lt('created_at', `${to}T23:59:59.999`),
+      fetchAllRows((rangeFrom, rangeTo) => supabase
+        .from('referrals')
+        .select('urgency, status, sent_at')
+        .gte('sent_at', from)
+        .lt('sent_at', `${to}T23:59:59.999`)
+        .neq('status', 'cancelled')
+        .order('id')
+        .range(rangeFrom, rangeTo)),
+      // Injuries are taken from the vital signs (NOI / POI / DOI / TOI and injury checkboxes)
+      fetchAllRows((rangeFrom, rangeTo) => supabase
+        .from('vital_signs')
+        .select(`
+          consultation_id,
+          injury_abrasion,
+          injury_contusion,
+          injury_fracture,
+          injury_laceration,
+          injury_puncture,
+          injury_sprain,
+          injury_other,
+          consultation:consultations!inner (consultation_date, status)
+        `)
+        .eq('patient_has_injuries', true)
+        .gte('consultation.consultation_date', from)
+        .lte('consultation.consultation_date', to)
+        .neq('consultation.status', 'cancelled')
+        .order('id')
+        .range(rangeFrom, rangeTo)),
+      diagnosisService.getDiagnosesSince(from, to)
+    ]);
+
+    if (newPatientsResult.error) throw new Error(newPatientsResult.error.message);
+
+    const consultations = consultationRows as unknown as CensusConsultation[];
+    const consultationIds = new Set(consultations.map(consultation => consultation.id));
+
+    // Months of the period, so months without consultations still appear
+    const byMonth = new Map<string, { month: string; medical: number; dental: number; total: number }>();
+    for (let month = new Date(`${from.slice(0, 7)}-01T00:00:00`); month <= new Date(`${to}T00:00:00`); month.setMonth(month.getMonth() + 1)) {
+      byMonth.set(
+        `${month.getFullYear()}-${String(month.getMonth() + 1).padStart(2, '0')}`,
+        { month: month.toLocaleDateString('en-US', { year: 'numeric', month: 'long' }), medical: 0, dental: 0, total: 0 }
+      );
+    }
+
+    const byPatientType = new Map<string, SexBreakdown>(STATISTICS_PATIENT_TYPES.map(type => [type, emptyBreakdown()]));
+    const byAgeGroup = new Map<string, SexBreakdown>([
+      ...STATISTICS_AGE_GROUPS.map(group => [group.label, emptyBreakdown()] as [string, SexBreakdown]),
+      ['Unknown', emptyBreakdown()]
+    ]);
+    const byComplaint = new Map<string, SexBreakdown>();
+
+    consultations.forEach(consultation => {
+      const sex = consultation.patient?.sex;
+      const monthRow = byMonth.get(consultation.consultation_date.slice(0, 7));
+      if (monthRow) {
+        if (consultation.department === 'dental') monthRow.dental++;
+        else monthRow.medical++;
+        monthRow.total++;
+      }
+
+      const patientType = consultation.patient?.patient_type || 'Unknown';
+      if (!byPatientType.has(patientType)) byPatientType.set(patientType, emptyBreakdown());
+      addToBreakdown(byPatientType.get(patientType)!, sex);
+
+      const age = getAgeOn(consultation.patient, consultation.consultation_date);
+      const ageGroup = age === null
+        ? 'Unknown'
+        : STATISTICS_AGE_GROUPS.find(group => age >= group.min && age <= group.max)?.label || 'Unknown';
+      addToBreakdown(byAgeGroup.get(ageGroup)!, sex);
+
+      const complaint = normalizeComplaint(consultation.chief_complaint);
+      if (!byComplaint.has(complaint)) byComplaint.set(complaint, emptyBreakdown());
+      addToBreakdown(byComplaint.get(complaint)!, sex);
+    });
+
+    const byDiagnosis = new Map<string, { code: string; description: string } & SexBreakdown>();
+    diagnoses
+      .filter(diagnosis => consultationIds.has(diagnosis.consultation_id))
+      .forEach(diagnosis => {
+        const row = byDiagnosis.get(diagnosis.icd10_code) || {
+          code: diagnosis.icd10_code,
+          description: diagnosis.icd10_description,
+          ...emptyBreakdown()
+        };
+        addToBreakdown(row, diagnosis.sex);
+        byDiagnosis.set(diagnosis.icd10_code, row);
+      });
+
+    const referrals = referralRows as { urgency: ReferralUrgency; status: string }[];
+    const referralsByUrgency = (Object.keys(REFERRAL_URGENCY_LABELS) as ReferralUrgency[]).map(urgency => ({
+      urgency,
+      sent: referrals.filter(referral => referral.urgency === urgency).length,
+      returned: referrals.filter(referral => referral.urgency === urgency && referral.status === 'returned').length
+    }));
+
+    // A consultation may have several vital signs records; count each injury once per consultation
+    const injuriesByConsultation = new Map<number, Set<string>>();
+    injuryRows.forEach((vitals: any) => {
+      const injuries = injuriesByConsultation.get(vitals.consultation_id) || new Set<string>();
+      INJURY_TYPES.filter(type => vitals[type.field]).forEach(type => injuries.add(type.label));
+      if (vitals.injury_other?.trim()) injuries.add('Other');
+      injuriesByConsultation.set(vitals.consultation_id, injuries);
+    });
+    const injuriesByType = [...INJURY_TYPES.map(type => type.label), 'Other'].map(injury => ({
+      injury,
+      count: Array.from(injuriesByConsultation.values()).filter(injuries => injuries.has(injury)).length
+    }));
+
+    return {
+      from,
+      to,
+      generated_at: new Date().toISOString(),
+      summary: {
+        consultations: consultations.length,
+        patients_seen: new Set(consultations.map(consultation => consultation.patient_id)).size,
+        new_patients: newPatientsResult.count || 0,
+        medical: consultations.filter(consultation => consultation.department !== 'dental').length,
+        dental: consultations.filter(consultation => consultation.department === 'dental').length,
+        referrals: referrals.length,
+        injuries: injuriesByConsultation.size
+      },
+      by_month: Array.from(byMonth.values()),
+      by_patient_type: Array.from(byPatientType.entries())
+        .map(([patient_type, breakdown]) => ({ patient_type, ...breakdown })),
+      by_age_group: Array.from(byAgeGroup.entries())
+        .filter(([age_group, breakdown]) => age_group !== 'Unknown' || breakdown.total > 0)
+        .map(([age_group, breakdown]) => ({ age_group, ...breakdown })),
+      by_complaint: topWithOthers(
+        Array.from(byComplaint.entries()).map(([complaint, breakdown]) => ({ complaint, ...breakdown })),
+        others => ({ complaint: 'All others', ...others })
+      ),
+      by_diagnosis: topWithOthers(
+        Array.from(byDiagnosis.values()),
+        others => ({ code: '', description: 'All others', ...others })
+      ),
+      referrals_by_urgency: referralsByUrgency,
+      injuries_by_type: injuriesByType
+    };
+  }
+};
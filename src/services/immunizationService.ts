@@ -0,0 +1,286 @@
+import { supabase, fetchAllRows } from '../lib/supabase';
+import {
+  authService,
+  activityService,
+  inventoryService,
+  patientMonitoringService,
+  type Patient
+} from './supabaseService';
+import { batchService, type InventoryBatch } from './batchService';
+import { toDateKey } from './appointmentService';
+import { getVaccineDefinition, REQUIRED_VACCINES_BY_COURSE, type VaccineRequirement } from '../constants/vaccines';
+
+// Immunization Interface - matches immunizations table
+export interface Immunization {
+  id: number;
+  patient_id: number;
+  vaccine: string;
+  dose_number: number;
+  administered_on: string;
+  lot_number?: string | null;
+  inventory_item_id?: number | null;
+  batch_id?: number | null;
+  administered_by?: number | null;
+  administered_by_name: string;
+  next_due_on?: string | null;
+  notes?: string | null;
+  created_at: string;
+  updated_at: string;
+  created_by?: number | null;
+}
+
+export interface ImmunizationInput {
+  vaccine: string;
+  dose_number: number;
+  administered_on: string;
+  // Given at another facility: no stock is used and the provider is typed in
+  given_elsewhere: boolean;
+  administered_by_name: string;
+  batch_id?: number | null;
+  lot_number?: string;
+  next_due_on?: string | null;
+  notes?: string;
+}
+
+export interface VaccineShortfall {
+  vaccine: string;
+  required_doses: number;
+  doses_received: number;
+  // Set when the series is complete but the latest dose's next due date has passed
+  overdue_since?: string | null;
+}
+
+export interface ImmunizationComplianceRow {
+  patient: Patient;
+  missing: VaccineShortfall[];
+}
+
+export interface ImmunizationComplianceReport {
+  course: string;
+  requirements: VaccineRequirement[];
+  total_students: number;
+  // Only students missing at least one required vaccine
+  rows: ImmunizationComplianceRow[];
+}
+
+const addDays = (dateKey: string, days: number): string => {
+  const date = new Date(`${dateKey}T00:00:00`);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+// Next dose in the series, or the booster once the series is complete; null when nothing further is due
+export const suggestNextDueDate = (vaccine: string, doseNumber: number, administeredOn: string): string | null => {
+  const definition = getVaccineDefinition(vaccine);
+  if (!definition || !administeredOn) return null;
+
+  if (doseNumber < definition.series_doses) {
+    const interval = definition.dose_intervals_days[doseNumber - 1];
+    return interval ? addDays(administeredOn, interval) : null;
+  }
+  return definition.booster_interval_days ? addDays(administeredOn, definition.booster_interval_days) : null;
+};
+
+// Next dose number for a vaccine given what is already on record
+export const getNextDoseNumber = (immunizations: Immunization[], vaccine: string): number => {
+  const doses = immunizations
+    .filter(immunization => immunization.vaccine.toLowerCase() === vaccine.trim().toLowerCase())
+    .map(immunization => immunization.dose_number);
+  return doses.length > 0 ? Math.max(...doses) + 1 : 1;
+};
+
+// Required vaccines a patient is short of: too few doses, or a complete series whose booster is overdue
+export const getVaccineShortfalls = (
+  immunizations: Immunization[],
+  requirements: VaccineRequirement[],
+  today: string = toDateKey(new Date())
+): VaccineShortfall[] => {
+  return requirements.flatMap(requirement => {
+    const doses = immunizations
+      .filter(immunization => immunization.vaccine.toLowerCase() === requirement.vaccine.toLowerCase())
+      .sort((a, b) => b.administered_on.localeCompare(a.administered_on));
+    const dosesReceived = new Set(doses.map(dose => dose.dose_number)).size;
+
+    if (dosesReceived < requirement.doses) {
+      return [{ vaccine: requirement.vaccine, required_doses: requirement.doses, doses_received: dosesReceived }];
+    }
+
+    const nextDue = doses[0]?.next_due_on;
+    if (nextDue && nextDue < today) {
+      return [{ vaccine: requirement.vaccine, required_doses: requirement.doses, doses_received: dosesReceived, overdue_since: nextDue }];
+    }
+    return [];
+  });
+};
+
+const getCurrentUserOrThrow = () => {
+  const currentUser = authService.getCurrentUser();
+  if (!currentUser) {
+    throw new Error('You must be logged in to record immunizations');
+  }
+  return currentUser;
+};
+
+// Immunization Service - vaccination history and course requirements
+export const immunizationService = {
+  async getImmunizationsByPatientId(patientId: number): Promise<Immunization[]> {
+    const { data, error } = await supabase
+      .from('immunizations')
+      .select('*')
+      .eq('patient_id', patientId)
+      .order('administered_on', { ascending: false })
+      .order('dose_number', { ascending: false });
+
+    if (error) throw new Error(error.message);
+    return data || [];
+  },
+
+  // Non-expired lots in stock, ones whose item name matches the vaccine first
+  async getVaccineLots(vaccine: string): Promise<{ matching: InventoryBatch[]; other: InventoryBatch[] }> {
+    const keywords = getVaccineDefinition(vaccine)?.stock_keywords || [vaccine.trim().toLowerCase()];
+    const today = toDateKey(new Date());
+
+    const lots = (await batchService.getActiveBatches()).filter(batch =>
+      batch.inventory_item?.department === 'medical' &&
+      (!batch.expiration_date || batch.expiration_date >= today)
+    );
+
+    // Short keywords such as "td" must match a whole word, longer ones anywhere in the name
+    const matches = (batch: InventoryBatch) => {
+      const itemName = `${batch.inventory_item?.generic_name || ''} ${batch.inventory_item?.brand_name || ''}`.toLowerCase();
+      const words = itemName.split(/[^a-z0-9-]+/);
+      return keywords.some(keyword => keyword.length > 3 ? itemName.includes(keyword) : words.includes(keyword));
+    };
+
+    return {
+      matching: lots.filter(matches),
+      other: lots.filter(batch => !matches(batch))
+    };
+  },
+
+  // Records a dose; a lot from stock is decremented by the record_immunization database function
+  async recordImmunization(patient: Patient, input: ImmunizationInput): Promise<Immunization> {
+    const currentUser = getCurrentUserOrThrow();
+
+    if (!input.vaccine.trim()) {
+      throw new Error('Please select a vaccine');
+    }
+    if (!Number.isInteger(input.dose_number) || input.dose_number <= 0) {
+      throw new Error('Dose number must be a whole number greater than zero');
+    }
+    if (!input.administered_on) {
+      throw new Error('Please enter the date the vaccine was given');
+    }
+    if (input.administered_on > toDateKey(new Date())) {
+      throw new Error('The date given cannot be in the future');
+    }
+    if (input.next_due_on && input.next_due_on <= input.administered_on) {
+      throw new Error('The next due date must be after the date given');
+    }
+    if (!input.administered_by_name.trim()) {
+      throw new Error(input.given_elsewhere ? 'Please enter who gave the vaccine' : 'Please enter your name');
+    }
+
+    const batchId = input.given_elsewhere ? null : input.batch_id ?? null;
+
+    const { data, error } = await supabase.rpc('record_immunization', {
+      p_patient_id: patient.id,
+      p_vaccine: input.vaccine.trim(),
+      p_dose_number: input.dose_number,
+      p_administered_on: input.administered_on,
+      p_lot_number: input.lot_number?.trim() || null,
+      p_batch_id: batchId,
+      p_administered_by: input.given_elsewhere ? null : currentUser.id,
+      p_administered_by_name: input.administered_by_name.trim(),
+      p_next_due_on: input.next_due_on || null,
+      p_notes: input.notes?.trim() || null,
+      p_created_by: currentUser.id
+    });
+
+    if (error) {
+      // idx_immunizations_one_per_dose
+      if (error.code === '23505') {
+        throw new Error(`Dose ${input.dose_number} of ${input.vaccine.trim()} is already recorded for this patient`);
+      }
+      throw new Error(error.message);
+    }
+
+    const immunization = data as Immunization;
+
+    if (immunization.inventory_item_id) {
+      // Stock changed, so low_stock / out_of_stock may now apply
+      await inventoryService.refreshItemStatus(immunization.inventory_item_id);
+    }
+
+    const description = `Recorded ${immunization.vaccine} dose ${immunization.dose_number} given ${immunization.administered_on}`;
+    const details = {
+      immunization_id: immunization.id,
+      vaccine: immunization.vaccine,
+      dose_number: immunization.dose_number,
+      lot_number: immunization.lot_number,
+      batch_id: immunization.batch_id,
+      next_due_on: immunization.next_due_on
+    };
+
+    await Promise.all([
+      patientMonitoringService.createPatientMonitoringLog({
+        patient_id: patient.id,
+        action: 'record_immunization',
+        description,
+        details
+      }),
+      activityService.logActivity({
+        action: 'record_immunization',
+        description: `${description} for ${patient.first_name} ${patient.last_name}`,
+        details: { patient_id: patient.id, ...details }
+      })
+    ]);
+
+    return immunization;
+  },
+
+  // Active students of a course who are missing any vaccine the course requires
+  async getCourseComplianceReport(course: string): Promise<ImmunizationComplianceReport> {
+    const requirements = REQUIRED_VACCINES_BY_COURSE[course] || [];
+
+    // A course can run past the PostgREST page limit, so both queries are read in full
+    const students = await fetchAllRows((from, to) => supabase
+      .from('patients')
+      .select('*')
+      .eq('patient_type', 'Student')
+      .eq('course', course)
+      .eq('status', 'active')
+      .order('last_name', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to));
+
+    const studentList = students as Patient[];
+    if (requirements.length === 0 || studentList.length === 0) {
+      return { course, requirements, total_students: studentList.length, rows: [] };
+    }
+
+    // Filtered by course through the patient join rather than a long list of patient ids
+    const immunizations = await fetchAllRows((from, to) => supabase
+      .from('immunizations')
+      .select('*, patient:patients!inner (id)')
+      .eq('patient.patient_type', 'Student')
+      .eq('patient.course', course)
+      .eq('patient.status', 'active')
+      .order('id', { ascending: true })
+      .range(from, to));
+
+    const byPatient = new Map<number, Immunization[]>();
+    (immunizations as Immunization[]).forEach(immunization => {
+      byPatient.set(immunization.patient_id, [...(byPatient.get(immunization.patient_id) || []), immunization]);
+    });
+
+    const rows = studentList
+      .map(student => ({
+        patient: student,
+        missing: getVaccineShortfalls(byPatient.get(student.id) || [], requirements)
+      }))
+      .filter(row => row.missing.length > 0);
+
+    return { course, requirements, total_students: studentList.length, rows };
+  }
+};
@@ -0,0 +1,300 @@
+import { supabase } from '../lib/supabase';
+import {
+  authService,
+  activityService,
+  patientMonitoringService,
+  type Consultation,
+  type Patient,
+  type VitalSigns
+} from './supabaseService';
+import { toDateKey } from './appointmentService';
+import {
+  CAMPUS_LOCATIONS,
+  INJURY_MECHANISM_LABELS,
+  INJURY_TYPES,
+  type IncidentDisposition,
+  type InjuryMechanism
+} from '../constants/incidents';
+
+export interface IncidentWitness {
+  name: string;
+  contact?: string;
+}
+
+// Incident Report Interface - matches incident_reports table
+export interface IncidentReport {
+  id: number;
+  incident_number: string;
+  consultation_id: number;
+  patient_id: number;
+  poi: string;
+  poi_details?: string | null;
+  doi: string;
+  toi?: string | null;
+  mechanism: InjuryMechanism;
+  mechanism_details: string;
+  noi: string;
+  injury_abrasion: boolean;
+  injury_contusion: boolean;
+  injury_fracture: boolean;
+  injury_laceration: boolean;
+  injury_puncture: boolean;
+  injury_sprain: boolean;
+  injury_other?: string | null;
+  body_parts?: string | null;
+  witnesses: IncidentWitness[];
+  first_aid_given?: string | null;
+  disposition: IncidentDisposition;
+  disposition_notes?: string | null;
+  reported_by?: number | null;
+  reporter_name: string;
+  created_at: string;
+  updated_at: string;
+  patient?: Pick<Patient, 'id' | 'patient_id' | 'first_name' | 'last_name' | 'patient_type' | 'course' | 'department'>;
+  consultation?: Pick<Consultation, 'id' | 'case_number' | 'consultation_date' | 'status'>;
+}
+
+export type IncidentReportInput = Pick<IncidentReport,
+  | 'poi'
+  | 'poi_details'
+  | 'doi'
+  | 'toi'
+  | 'mechanism'
+  | 'mechanism_details'
+  | 'noi'
+  | 'injury_abrasion'
+  | 'injury_contusion'
+  | 'injury_fracture'
+  | 'injury_laceration'
+  | 'injury_puncture'
+  | 'injury_sprain'
+  | 'injury_other'
+  | 'body_parts'
+  | 'witnesses'
+  | 'first_aid_given'
+  | 'disposition'
+  | 'disposition_notes'
+>;
+
+export interface IncidentReportFilters {
+  from?: string;
+  to?: string;
+  poi?: string;
+  mechanism?: InjuryMechanism;
+  disposition?: IncidentDisposition;
+}
+
+// One row of the campus injury hotspot report
+export interface InjuryHotspot {
+  poi: string;
+  total: number;
+  // Incidents that ended in a referral or hospital visit
+  serious_count: number;
+  top_mechanism: InjuryMechanism;
+  top_mechanism_count: number;
+  // e.g. { Laceration: 3, Sprain: 1 }
+  injury_counts: Record<string, number>;
+  last_incident_date: string;
+}
+
+const INCIDENT_LIST_SELECT = `
+  *,
+  patient:patients (id, patient_id, first_name, last_name, patient_type, course, department),
+  consultation:consultations (id, case_number, consultation_date, status)
+`;
+
+// Injury checkboxes ticked on a report or vital signs record, as labels
+export const getInjuryLabels = (record: Partial<Pick<IncidentReport, typeof INJURY_TYPES[number]['field'] | 'injury_other'>>): string[] => [
+  ...INJURY_TYPES.filter(type => record[type.field]).map(type => type.label),
+  ...(record.injury_other?.trim() ? [record.injury_other.trim()] : [])
+];
+
+// Blank incident form, pre-filled from the NOI / POI / DOI / TOI recorded with the vital signs
+export const incidentInputFromVitalSigns = (vitals?: VitalSigns | null): IncidentReportInput => {
+  const recordedPoi = vitals?.poi?.trim() || '';
+  const matchedLocation = CAMPUS_LOCATIONS.find(location => location.toLowerCase() === recordedPoi.toLowerCase());
+
+  return {
+    poi: matchedLocation || (recordedPoi ? 'Other' : ''),
+    poi_details: matchedLocation ? '' : recordedPoi,
+    doi: vitals?.doi || toDateKey(new Date()),
+    toi: vitals?.toi ? vitals.toi.slice(0, 5) : '',
+    mechanism: 'fall',
+    mechanism_details: '',
+    noi: vitals?.noi || '',
+    injury_abrasion: !!vitals?.injury_abrasion,
+    injury_contusion: !!vitals?.injury_contusion,
+    injury_fracture: !!vitals?.injury_fracture,
+    injury_laceration: !!vitals?.injury_laceration,
+    injury_puncture: !!vitals?.injury_puncture,
+    injury_sprain: !!vitals?.injury_sprain,
+    injury_other: vitals?.injury_other || '',
+    body_parts: '',
+    witnesses: [],
+    first_aid_given: '',
+    disposition: 'returned_to_class',
+    disposition_notes: ''
+  };
+};
+
+// Incidents grouped by place of injury, busiest first
+export const buildInjuryHotspots = (reports: IncidentReport[]): InjuryHotspot[] => {
+  const byLocation = new Map<string, IncidentReport[]>();
+  reports.forEach(report => {
+    byLocation.set(report.poi, [...(byLocation.get(report.poi) || []), report]);
+  });
+
+  return Array.from(byLocation.entries())
+    .map(([poi, locationReports]) => {
+      const mechanismCounts = new Map<InjuryMechanism, number>();
+      const injuryCounts: Record<string, number> = {};
+      locationReports.forEach(report => {
+        mechanismCounts.set(report.mechanism, (mechanismCounts.get(report.mechanism) || 0) + 1);
+        INJURY_TYPES.filter(type => report[type.field]).forEach(type => {
+          injuryCounts[type.label] = (injuryCounts[type.label] || 0) + 1;
+        });
+      });
+      const [topMechanism, topMechanismCount] = Array.from(mechanismCounts.entries())
+        .sort((a, b) => b[1] - a[1])[0];
+
+      return {
+        poi,
+        total: locationReports.length,
+        serious_count: locationReports.filter(report =>
+          report.disposition === 'referred' || report.disposition === 'hospitalized'
+        ).length,
+        top_mechanism: topMechanism,
+        top_mechanism_count: topMechanismCount,
+        injury_counts: injuryCounts,
+        last_incident_date: locationReports.map(report => report.doi).sort().reverse()[0]
+      };
+    })
+    .sort((a, b) => b.total - a.total || b.serious_count - a.serious_count);
+};
+
+const getCurrentUserOrThrow = () => {
+  const currentUser = authService.getCurrentUser();
+  if (!currentUser) {
+    throw new Error('You must be logged in to file incident reports');
+  }
+  return currentUser;
+};
+
+const logIncidentReportChange = async (report: IncidentReport, action: string, description: string, details: Record<string, any> = {}) => {
+  await Promise.all([
+    patientMonitoringService.createPatientMonitoringLog({
+      patient_id: report.patient_id,
+      consultation_id: report.consultation_id,
+      action,
+      description,
+      details: { incident_report_id: report.id, incident_number: report.incident_number, ...details }
+    }),
+    activityService.logActivity({
+      action,
+      description,
+      details: { incident_report_id: report.id, consultation_id: report.consultation_id, ...details }
+    })
+  ]);
+};
+
+// Incident Report Service - injury and incident reports for the campus safety office
+export const incidentReportService = {
+  async getIncidentReportsByConsultationId(consultationId: number): Promise<IncidentReport[]> {
+    const { data, error } = await supabase
+      .from('incident_reports')
+      .select('*')
+      .eq('consultation_id', consultationId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw new Error(error.message);
+    return data || [];
+  },
+
+  // Incident register, most recent injury first
+  async getIncidentReports(filters: IncidentReportFilters = {}): Promise<IncidentReport[]> {
+    let query = supabase
+      .from('incident_reports')
+      .select(INCIDENT_LIST_SELECT);
+
+    if (filters.from) query = query.gte('doi', filters.from);
+    if (filters.to) query = query.lte('doi', filters.to);
+    if (filters.poi) query = query.eq('poi', filters.poi);
+    if (filters.mechanism) query = query.eq('mechanism', filters.mechanism);
+    if (filters.disposition) query = query.eq('disposition', filters.disposition);
+
+    const { data, error } = await query
+      .order('doi', { ascending: false })
+      .order('toi', { ascending: false, nullsFirst: false });
+
+    if (error) throw new Error(error.message);
+    return data || [];
+  },
+
+  async createIncidentReport(consultation: Consultation, input: IncidentReportInput): Promise<IncidentReport> {
+    const currentUser = getCurrentUserOrThrow();
+
+    if (!input.poi) {
+      throw new Error('Select where the incident happened');
+    }
+    if (input.poi === 'Other' && !input.poi_details?.trim()) {
+      throw new Error('Describe where the incident happened');
+    }
+    if (!input.doi) {
+      throw new Error('Enter the date of the incident');
+    }
+    if (input.doi > toDateKey(new Date())) {
+      throw new Error('The date of the incident cannot be in the future');
+    }
+    if (!input.mechanism_details.trim()) {
+      throw new Error('Describe how the incident happened');
+    }
+    if (!input.noi.trim()) {
+      throw new Error('Enter the nature of injury');
+    }
+
+    const witnesses = input.witnesses
+      .map(witness => ({ name: witness.name.trim(), contact: witness.contact?.trim() || undefined }))
+      .filter(witness => witness.name);
+
+    const { data, error } = await supabase
+      .from('incident_reports')
+      .insert([{
+        consultation_id: consultation.id,
+        patient_id: consultation.patient_id,
+        poi: input.poi,
+        poi_details: input.poi_details?.trim() || null,
+        doi: input.doi,
+        toi: input.toi || null,
+        mechanism: input.mechanism,
+        mechanism_details: input.mechanism_details.trim(),
+        noi: input.noi.trim(),
+        injury_abrasion: input.injury_abrasion,
+        injury_contusion: input.injury_contusion,
+        injury_fracture: input.injury_fracture,
+        injury_laceration: input.injury_laceration,
+        injury_puncture: input.injury_puncture,
+        injury_sprain: input.injury_sprain,
+        injury_other: input.injury_other?.trim() || null,
+        body_parts: input.body_parts?.trim() || null,
+        witnesses,
+        first_aid_given: input.first_aid_given?.trim() || null,
+        disposition: input.disposition,
+        disposition_notes: input.disposition_notes?.trim() || null,
+        reported_by: currentUser.id,
+        reporter_name: [currentUser.first_name, currentUser.last_name].filter(Boolean).join(' ') || currentUser.username
+      }])
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+
+    await logIncidentReportChange(
+      data,
+      'create_incident_report',
+      `Filed incident report ${data.incident_number} for case ${consultation.case_number} (${INJURY_MECHANISM_LABELS[data.mechanism as InjuryMechanism]} at ${data.poi})`,
+      { poi: data.poi, doi: data.doi, mechanism: data.mechanism, disposition: data.disposition }
+    );
+
+    return data;
+  }
+};
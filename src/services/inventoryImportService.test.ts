@@ -0,0 +1,155 @@
+import { validateImportRows, type ColumnMapping, type ParsedSheet } from './inventoryImportService';
+import { toDateKey } from './appointmentService';
+
+jest.mock('../lib/supabase', () => ({ supabase: {}, fetchAllRows: jest.fn() }));
+
+const CLASSIFICATIONS = [
+  { id: 1, name: 'Medicines' },
+  { id: 2, name: 'Supplies' },
+  { id: 3, name: 'Equipment' }
+];
+
+const EXISTING_ITEMS = [
+  { id: 10, generic_name: 'Paracetamol', code: 'MED-001', department: 'medical', classification_id: 1, classification: 'Medicines', stock_quantity: 40 }
+];
+
+const MAPPING: ColumnMapping = {
+  'Generic Name': 'generic_name',
+  Code: 'code',
+  Type: 'classification',
+  Department: 'department',
+  Qty: 'stock_quantity',
+  Expiry: 'expiration_date',
+  Remarks: null
+};
+
+const DEFAULTS = { department: 'medical', classification: 'Medicines' };
+
+const sheetOf = (rows: Record<string, any>[]): ParsedSheet => ({
+  fileName: 'inventory.xlsx',
+  headers: Object.keys(MAPPING),
+  rows,
+  headerRowNumber: 1
+});
+
+const validate = (rows: Record<string, any>[], upsertByCode = false) =>
+  validateImportRows(sheetOf(rows), MAPPING, DEFAULTS, upsertByCode, CLASSIFICATIONS, EXISTING_ITEMS);
+
+describe('validateImportRows', () => {
+  it('accepts a complete new item and numbers rows as in the sheet', () => {
+    const [row] = validate([{ 'Generic Name': 'Amoxicillin', Code: 'MED-002', Type: 'medicine', Department: 'Medical', Qty: '1,200', Expiry: '2099-01-31' }]);
+
+    expect(row.rowNumber).toBe(2);
+    expect(row.action).toBe('insert');
+    expect(row.errors).toEqual([]);
+    expect(row.data).toMatchObject({
+      generic_name: 'Amoxicillin',
+      classification_id: 1,
+      department: 'medical',
+      stock_quantity: 1200,
+      expiration_date: '2099-01-31'
+    });
+  });
+
+  it('falls back to the default department and classification', () => {
+    const [row] = validate([{ 'Generic Name': 'Gauze' }]);
+
+    expect(row.errors).toEqual([]);
+    expect(row.data).toMatchObject({ department: 'medical', classification_id: 1 });
+  });
+
+  it('reports missing names, unknown departments and classifications, and bad values', () => {
+    const [row] = validate([{ 'Generic Name': '', Type: 'Gadgets', Department: 'Radiology', Qty: '-3', Expiry: 'soon' }]);
+
+    expect(row.errors).toEqual([
+      'Generic name is required',
+      'Department "Radiology" must be medical or dental',
+      'Classification "Gadgets" is not one of Medicines, Supplies, Equipment',
+      'Stock quantity "-3" must be a whole number of zero or more',
+      'Expiration date "soon" is not a valid date'
+    ]);
+  });
+
+  it('rejects dates that do not exist instead of rolling them over', () => {
+    const rows = validate([
+      { 'Generic Name': 'Cefalexin', Expiry: '2099-02-31' },
+      { 'Generic Name': 'Cefalexin', Expiry: '02/30/2099' },
+      { 'Generic Name': 'Cefalexin', Expiry: '2096-02-29' }
+    ]);
+
+    expect(rows[0].errors).toEqual(['Expiration date "2099-02-31" is not a valid date']);
+    expect(rows[1].errors).toEqual(['Expiration date "02/30/2099" is not a valid date']);
+    expect(rows[2].errors).toEqual([]);
+    expect(rows[2].data.expiration_date).toBe('2096-02-29');
+  });
+
+  it('warns about lots that expired before today but not about lots expiring today', () => {
+    const today = new Date();
+    const yesterday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1);
+    const [expiringToday, expired] = validate([
+      { 'Generic Name': 'Ibuprofen', Expiry: toDateKey(today) },
+      { 'Generic Name': 'Ibuprofen', Expiry: toDateKey(yesterday) }
+    ]);
+
+    expect(expiringToday.warnings).not.toContain('Already expired; the item will be imported as expired');
+    expect(expired.warnings).toContain('Already expired; the item will be imported as expired');
+  });
+
+  it('sends a blank quantity as null instead of zero', () => {
+    const [row] = validate([{ 'Generic Name': 'Cotton', Qty: '' }]);
+
+    expect(row.errors).toEqual([]);
+    expect(row.data.stock_quantity).toBeNull();
+  });
+
+  it('ignores and warns about an expiration date on equipment', () => {
+    const [row] = validate([{ 'Generic Name': 'Stethoscope', Type: 'Equipment', Expiry: '2099-01-31' }]);
+
+    expect(row.errors).toEqual([]);
+    expect(row.data.expiration_date).toBeNull();
+    expect(row.warnings).toContain('Equipment does not expire; the expiration date is ignored');
+  });
+
+  it('rejects a code repeated within the sheet', () => {
+    const rows = validate([
+      { 'Generic Name': 'Cetirizine', Code: 'MED-100' },
+      { 'Generic Name': 'Loratadine', Code: 'med-100' }
+    ]);
+
+    expect(rows[0].errors).toEqual([]);
+    expect(rows[1].errors).toEqual(['Code med-100 is repeated from row 2']);
+  });
+
+  it('rejects an existing code unless updating existing items', () => {
+    const [row] = validate([{ 'Generic Name': 'Paracetamol', Code: 'MED-001', Qty: '50' }]);
+
+    expect(row.action).toBe('insert');
+    expect(row.errors).toEqual([
+      'Code MED-001 already belongs to Paracetamol; turn on "Update existing items" to update it'
+    ]);
+  });
+
+  it('updates the item with the same code when upserting', () => {
+    const [row] = validate([{ 'Generic Name': 'Paracetamol', Code: 'MED-001', Qty: '50' }], true);
+
+    expect(row.errors).toEqual([]);
+    expect(row.action).toBe('update');
+    expect(row.existingItemId).toBe(10);
+    expect(row.warnings).toContain('Stock will be adjusted from 40 to 50');
+  });
+
+  it('keeps the current stock of an updated item when the quantity is blank', () => {
+    const [row] = validate([{ 'Generic Name': 'Paracetamol', Code: 'MED-001', Qty: '' }], true);
+
+    expect(row.action).toBe('update');
+    expect(row.data.stock_quantity).toBeNull();
+    expect(row.warnings).toContain('No stock quantity, so the current stock of 40 is kept');
+  });
+
+  it('matches codes per department', () => {
+    const [row] = validate([{ 'Generic Name': 'Paracetamol', Code: 'MED-001', Department: 'dental' }], true);
+
+    expect(row.action).toBe('insert');
+    expect(row.errors).toEqual([]);
+  });
+});
@@ -0,0 +1,399 @@
+import * as XLSX from 'xlsx';
+import { supabase } from '../lib/supabase';
+import { authService, activityService, inventoryService, calculateItemStatus } from './supabaseService';
+
+export type ImportField =
+  | 'generic_name'
+  | 'brand_name'
+  | 'code'
+  | 'category'
+  | 'classification'
+  | 'department'
+  | 'stock_quantity'
+  | 'stock_threshold'
+  | 'unit_of_measurement'
+  | 'expiration_date'
+  | 'status'
+  | 'notes'
+  | 'lot_number'
+  | 'supplier';
+
+export interface ImportFieldDefinition {
+  key: ImportField;
+  label: string;
+  required?: boolean;
+  aliases: string[];
+}
+
+// Column name -> field; null when the column is ignored
+export type ColumnMapping = Record<string, ImportField | null>;
+
+export interface ParsedSheet {
+  fileName: string;
+  headers: string[];
+  rows: Record<string, any>[];
+  headerRowNumber: number;
+}
+
+export interface ImportDefaults {
+  department: string;
+  classification: string;
+}
+
+export interface ImportRow {
+  rowNumber: number;
+  data: Record<string, any>;
+  action: 'insert' | 'update';
+  existingItemId?: number;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface InventoryImportResult {
+  id: number;
+  file_name: string | null;
+  row_count: number;
+  inserted_count: number;
+  updated_count: number;
+  imported_at: string;
+}
+
+// Field aliases include the headers written by ExportInventoryModal, so exports can be re-imported
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { key: 'generic_name', label: 'Generic Name', required: true, aliases: ['generic name', 'generic', 'name', 'item name', 'item', 'description'] },
+  { key: 'brand_name', label: 'Brand Name', aliases: ['brand name', 'brand'] },
+  { key: 'code', label: 'Code', aliases: ['code', 'item code', 'sku', 'barcode'] },
+  { key: 'category', label: 'Category', aliases: ['category'] },
+  { key: 'classification', label: 'Classification', aliases: ['classification', 'type', 'class'] },
+  { key: 'department', label: 'Department', aliases: ['department', 'dept'] },
+  { key: 'stock_quantity', label: 'Stock Quantity', aliases: ['stock quantity', 'stock', 'quantity', 'qty', 'on hand'] },
+  { key: 'stock_threshold', label: 'Stock Threshold', aliases: ['stock threshold', 'threshold', 'reorder level', 'minimum stock'] },
+  { key: 'unit_of_measurement', label: 'Unit', aliases: ['unit', 'unit of measurement', 'uom'] },
+  { key: 'expiration_date', label: 'Expiration Date', aliases: ['expiration date', 'expiry date', 'expiration', 'expiry', 'exp date'] },
+  { key: 'status', label: 'Status', aliases: ['status'] },
+  { key: 'notes', label: 'Notes', aliases: ['notes', 'remarks'] },
+  { key: 'lot_number', label: 'Lot Number', aliases: ['lot number', 'lot', 'batch', 'batch number'] },
+  { key: 'supplier', label: 'Supplier', aliases: ['supplier', 'vendor'] }
+];
+
+const DEPARTMENTS = ['medical', 'dental'];
+// Statuses allowed by inventory_items_status_check; archived items are not imported
+const ITEM_STATUSES = ['active', 'low_stock', 'out_of_stock', 'expired', 'maintenance'];
+const EQUIPMENT_STATUSES = ['active', 'maintenance'];
+const MAX_NAME_LENGTH = 255;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[_\s]+/g, ' ').trim();
+
+const toText = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return formatDate(value);
+  return String(value).trim();
+};
+
+// Spreadsheet dates arrive as local-midnight Date objects
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Date rolls 2026-02-31 over to March 3, so the parts must survive the round trip
+const dateFromParts = (year: number, month: number, day: number): string | null => {
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return formatDate(date);
+};
+
+const parseDate = (value: any): string | null => {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : formatDate(value);
+  }
+  const text = toText(value);
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) return dateFromParts(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  const monthFirst = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (monthFirst) return dateFromParts(Number(monthFirst[3]), Number(monthFirst[1]), Number(monthFirst[2]));
+  const parsed = new Date(text);
+  return isNaN(parsed.getTime()) ? null : formatDate(parsed);
+};
+
+const parseWholeNumber = (value: any): number | null => {
+  const text = toText(value).replace(/,/g, '');
+  if (!/^\d+$/.test(text)) return null;
+  return parseInt(text, 10);
+};
+
+// Accepts "Medicines", "medicine", "Supply", etc.
+const matchClassification = (value: string, classifications: any[]) => {
+  const normalized = value.toLowerCase().trim();
+  return classifications.find(classification => {
+    const name = classification.name.toLowerCase();
+    const singular = name === 'supplies' ? 'supply' : name.replace(/s$/, '');
+    return normalized === name || normalized === singular;
+  });
+};
+
+const codeKey = (department: string, code: string) => `${department}:${code.toLowerCase()}`;
+
+// Validates every row against the inventory_items checks and decides whether it creates a
+// new item or (when upserting) updates the existing item with the same code
+export const validateImportRows = (
+  sheet: ParsedSheet,
+  mapping: ColumnMapping,
+  defaults: ImportDefaults,
+  upsertByCode: boolean,
+  classifications: any[],
+  existingItems: any[]
+): ImportRow[] => {
+  const existingByCode = new Map<string, any>();
+  existingItems.forEach((item: any) => {
+    if (item.code?.trim()) existingByCode.set(codeKey(item.department, item.code.trim()), item);
+  });
+
+  const seenCodes = new Map<string, number>();
+  const sheetRowOffset = sheet.headerRowNumber + 1;
+
+  return sheet.rows.map((record, index) => {
+    const rowNumber = sheetRowOffset + index;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const raw = Object.entries(mapping).reduce((values: Partial<Record<ImportField, any>>, [header, field]) => {
+      if (field) values[field] = record[header];
+      return values;
+    }, {});
+
+    const genericName = toText(raw.generic_name);
+    if (!genericName) errors.push('Generic name is required');
+    if (genericName.length > MAX_NAME_LENGTH) errors.push(`Generic name is longer than ${MAX_NAME_LENGTH} characters`);
+
+    const brandName = toText(raw.brand_name);
+    if (brandName.length > MAX_NAME_LENGTH) errors.push(`Brand name is longer than ${MAX_NAME_LENGTH} characters`);
+
+    const department = (toText(raw.department) || defaults.department).toLowerCase();
+    if (!DEPARTMENTS.includes(department)) {
+      errors.push(`Department "${toText(raw.department)}" must be medical or dental`);
+    }
+
+    const classificationText = toText(raw.classification) || defaults.classification;
+    const classification = matchClassification(classificationText, classifications);
+    if (!classification) {
+      errors.push(`Classification "${classificationText}" is not one of ${classifications.map((c: any) => c.name).join(', ')}`);
+    }
+    const isEquipment = classification?.name.toLowerCase() === 'equipment';
+
+    const quantityText = toText(raw.stock_quantity);
+    // A blank or unmapped quantity is sent as null: new items start at 0, updated items keep their stock
+    const stockQuantity = quantityText === '' ? null : parseWholeNumber(raw.stock_quantity);
+    if (quantityText !== '' && stockQuantity === null) {
+      errors.push(`Stock quantity "${quantityText}" must be a whole number of zero or more`);
+    }
+
+    const thresholdText = toText(raw.stock_threshold);
+    const stockThreshold = thresholdText === '' ? null : parseWholeNumber(raw.stock_threshold);
+    if (thresholdText !== '' && stockThreshold === null) {
+      errors.push(`Stock threshold "${thresholdText}" must be a whole number of zero or more`);
+    }
+
+    let expirationDate: string | null = null;
+    if (toText(raw.expiration_date)) {
+      expirationDate = parseDate(raw.expiration_date);
+      if (!expirationDate) {
+        errors.push(`Expiration date "${toText(raw.expiration_date)}" is not a valid date`);
+      } else if (isEquipment) {
+        warnings.push('Equipment does not expire; the expiration date is ignored');
+        expirationDate = null;
+      } else if (expirationDate < formatDate(new Date())) {
+        warnings.push('Already expired; the item will be imported as expired');
+      }
+    }
+
+    // Status is stored only for equipment; medicines and supplies derive it from stock and expiry
+    const statusText = toText(raw.status).toLowerCase().replace(/\s+/g, '_');
+    let status: string | null = null;
+    if (statusText) {
+      if (statusText === 'archived') {
+        errors.push('Archived items cannot be imported');
+      } else if (!ITEM_STATUSES.includes(statusText)) {
+        errors.push(`Status "${toText(raw.status)}" is not a valid inventory status`);
+      } else if (isEquipment && !EQUIPMENT_STATUSES.includes(statusText)) {
+        errors.push('Equipment status must be Active or Maintenance');
+      } else if (isEquipment) {
+        status = statusText;
+      }
+    }
+
+    const code = toText(raw.code);
+    let action: ImportRow['action'] = 'insert';
+    let existingItemId: number | undefined;
+
+    if (code && DEPARTMENTS.includes(department)) {
+      const key = codeKey(department, code);
+      const duplicateOf = seenCodes.get(key);
+      if (duplicateOf) {
+        errors.push(`Code ${code} is repeated from row ${duplicateOf}`);
+      } else {
+        seenCodes.set(key, rowNumber);
+      }
+
+      const existing = existingByCode.get(key);
+      if (existing) {
+        if (!upsertByCode) {
+          errors.push(`Code ${code} already belongs to ${existing.generic_name}; turn on "Update existing items" to update it`);
+        } else if (classification && existing.classification_id !== classification.id) {
+          errors.push(`Code ${code} belongs to ${existing.generic_name} in ${existing.classification}, not ${classification.name}`);
+        } else {
+          action = 'update';
+          existingItemId = existing.id;
+          if (stockQuantity === null) {
+            warnings.push(`No stock quantity, so the current stock of ${existing.stock_quantity} is kept`);
+          } else if (stockQuantity !== (parseInt(existing.stock_quantity) || 0)) {
+            warnings.push(`Stock will be adjusted from ${existing.stock_quantity} to ${stockQuantity}`);
+          }
+        }
+      }
+    } else if (!code && upsertByCode) {
+      warnings.push('No code, so this row always creates a new item');
+    }
+
+    const data = {
+      generic_name: genericName,
+      brand_name: brandName,
+      code,
+      category: toText(raw.category),
+      classification_id: classification?.id,
+      classification: classification?.name,
+      department,
+      stock_quantity: stockQuantity,
+      stock_threshold: stockThreshold,
+      unit_of_measurement: toText(raw.unit_of_measurement),
+      expiration_date: expirationDate,
+      status,
+      notes: toText(raw.notes),
+      lot_number: toText(raw.lot_number),
+      supplier: toText(raw.supplier)
+    };
+
+    return { rowNumber, data, action, existingItemId, errors, warnings };
+  });
+};
+
+// Inventory Import Service - bulk onboarding of items from Excel/CSV
+export const inventoryImportService = {
+  // Reads the first sheet. The header row is the first row naming at least two known
+  // columns, which skips the title block at the top of MediTrack's own Excel exports.
+  async parseFile(file: File): Promise<ParsedSheet> {
+    const buffer = await file.arrayBuffer();
+    const workbook = XLSX.read(buffer, { type: 'array', cellDates: true });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) {
+      throw new Error('The file has no worksheets');
+    }
+
+    const matrix: any[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, raw: true, defval: '' });
+    const knownHeaders = new Set(IMPORT_FIELDS.flatMap(field => field.aliases));
+
+    let headerIndex = matrix.findIndex((row, index) =>
+      index < 20 && row.filter(cell => knownHeaders.has(normalizeHeader(toText(cell)))).length >= 2
+    );
+    if (headerIndex === -1) headerIndex = 0;
+
+    const headers = (matrix[headerIndex] || []).map((cell, index) => toText(cell) || `Column ${index + 1}`);
+    if (headers.length === 0) {
+      throw new Error('The file is empty');
+    }
+
+    const rows = matrix
+      .slice(headerIndex + 1)
+      .map(row => headers.reduce((record: Record<string, any>, header, index) => {
+        record[header] = row[index] ?? '';
+        return record;
+      }, {}))
+      .filter(record => Object.values(record).some(value => toText(value) !== ''));
+
+    return { fileName: file.name, headers, rows, headerRowNumber: headerIndex + 1 };
+  },
+
+  guessMapping(headers: string[]): ColumnMapping {
+    const used = new Set<ImportField>();
+    return headers.reduce((mapping: ColumnMapping, header) => {
+      const normalized = normalizeHeader(header);
+      const field = IMPORT_FIELDS.find(definition => !used.has(definition.key) && definition.aliases.includes(normalized));
+      mapping[header] = field ? field.key : null;
+      if (field) used.add(field.key);
+      return mapping;
+    }, {});
+  },
+
+  // Loads the classifications and current items the rows are validated against
+  async validateRows(
+    sheet: ParsedSheet,
+    mapping: ColumnMapping,
+    defaults: ImportDefaults,
+    upsertByCode: boolean
+  ): Promise<ImportRow[]> {
+    const mappedFields = new Set(Object.values(mapping).filter(Boolean));
+    if (!mappedFields.has('generic_name')) {
+      throw new Error('Map a column to Generic Name before validating');
+    }
+
+    const [classifications, existingItems] = await Promise.all([
+      inventoryService.getClassifications(),
+      inventoryService.getAllItems()
+    ]);
+
+    return validateImportRows(sheet, mapping, defaults, upsertByCode, classifications, existingItems);
+  },
+
+  // Commits all valid rows in one transaction; rows with errors are never sent
+  async importRows(rows: ImportRow[], upsertByCode: boolean, fileName: string): Promise<InventoryImportResult> {
+    const validRows = rows.filter(row => row.errors.length === 0);
+    if (validRows.length === 0) {
+      throw new Error('There are no valid rows to import');
+    }
+
+    const payload = validRows.map(row => ({
+      ...row.data,
+      row_number: row.rowNumber,
+      existing_item_id: row.existingItemId ?? null,
+      // New items start with the status their stock and expiry imply; updates keep the
+      // current status unless the sheet sets an equipment status
+      status: row.action === 'update'
+        ? row.data.status
+        : row.data.status || calculateItemStatus(
+          { ...row.data, stock_threshold: row.data.stock_threshold ?? 0 },
+          row.data.classification
+        )
+    }));
+
+    const { data, error } = await supabase.rpc('import_inventory_items', {
+      p_rows: payload,
+      p_upsert: upsertByCode,
+      p_file_name: fileName,
+      p_performed_by: authService.getCurrentUser()?.id ?? null
+    });
+
+    if (error) throw new Error(error.message);
+
+    const result = data as InventoryImportResult;
+
+    // Updated items may have crossed a stock or expiry threshold
+    for (const row of validRows) {
+      if (row.existingItemId) {
+        await inventoryService.refreshItemStatus(row.existingItemId);
+      }
+    }
+
+    await activityService.logActivity({
+      action: 'import_inventory',
+      description: `Imported ${result.inserted_count} new and ${result.updated_count} updated inventory item(s) from ${fileName}`,
+      details: {
+        import_id: result.id,
+        file_name: fileName,
+        inserted_count: result.inserted_count,
+        updated_count: result.updated_count,
+        skipped_rows: rows.filter(row => row.errors.length > 0).map(row => row.rowNumber),
+        upsert_by_code: upsertByCode
+      }
+    });
+
+    return result;
+  }
+};
@@ -0,0 +1,232 @@
+import { supabase } from '../lib/supabase';
+import { authService, activityService } from './supabaseService';
+
+export type MaintenanceType = 'preventive' | 'calibration' | 'inspection';
+export type ServiceType = MaintenanceType | 'repair';
+
+// Maintenance Schedule Interface - matches equipment_maintenance_schedules table
+export interface MaintenanceSchedule {
+  id: number;
+  inventory_item_id: number;
+  maintenance_type: MaintenanceType;
+  interval_months: number;
+  last_performed_date?: string | null;
+  next_due_date: string;
+  is_active: boolean;
+  notes?: string | null;
+  created_at: string;
+  updated_at: string;
+  created_by?: number | null;
+  inventory_item?: {
+    id: number;
+    generic_name: string;
+    brand_name?: string;
+    code?: string;
+    department: string;
+    status: string;
+  };
+}
+
+// Service Log Interface - matches equipment_service_logs table
+export interface ServiceLog {
+  id: number;
+  inventory_item_id: number;
+  schedule_id?: number | null;
+  service_type: ServiceType;
+  service_date: string;
+  technician: string;
+  cost?: number | null;
+  findings?: string | null;
+  actions_taken?: string | null;
+  status_after?: 'active' | 'maintenance' | null;
+  next_due_date?: string | null;
+  created_at: string;
+  created_by?: number | null;
+}
+
+export interface ScheduleInput {
+  maintenance_type: MaintenanceType;
+  interval_months: number;
+  next_due_date: string;
+  notes?: string;
+}
+
+export interface ServiceInput {
+  schedule_id?: number | null;
+  service_type: ServiceType;
+  service_date: string;
+  technician: string;
+  cost?: number | null;
+  findings?: string;
+  actions_taken?: string;
+  status_after?: 'active' | 'maintenance' | null;
+}
+
+export const SERVICE_TYPE_LABELS: Record<ServiceType, string> = {
+  preventive: 'Preventive Maintenance',
+  calibration: 'Calibration',
+  inspection: 'Inspection',
+  repair: 'Repair'
+};
+
+// Next due date when a schedule starts from the given date
+export const addMonths = (date: string, months: number): string => {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result.toISOString().split('T')[0];
+};
+
+const validateSchedule = (schedule: ScheduleInput) => {
+  if (!Number.isInteger(schedule.interval_months) || schedule.interval_months <= 0) {
+    throw new Error('Interval must be a whole number of months greater than zero');
+  }
+  if (!schedule.next_due_date) {
+    throw new Error('Next due date is required');
+  }
+};
+
+// Maintenance Service - preventive schedules and service history for equipment
+export const maintenanceService = {
+  async getSchedulesByItemId(itemId: number): Promise<MaintenanceSchedule[]> {
+    const { data, error } = await supabase
+      .from('equipment_maintenance_schedules')
+      .select('*')
+      .eq('inventory_item_id', itemId)
+      .order('next_due_date', { ascending: true });
+
+    if (error) throw new Error(error.message);
+    return data || [];
+  },
+
+  async getServiceLogsByItemId(itemId: number): Promise<ServiceLog[]> {
+    const { data, error } = await supabase
+      .from('equipment_service_logs')
+      .select('*')
+      .eq('inventory_item_id', itemId)
+      .order('service_date', { ascending: false })
+      .order('id', { ascending: false });
+
+    if (error) throw new Error(error.message);
+    return data || [];
+  },
+
+  // Active schedules due on or before the given date, with their equipment
+  async getSchedulesDueBy(date: string): Promise<MaintenanceSchedule[]> {
+    const { data, error } = await supabase
+      .from('equipment_maintenance_schedules')
+      .select(`
+        *,
+        inventory_item:inventory_items (
+          id,
+          generic_name,
+          brand_name,
+          code,
+          department,
+          status
+        )
+      `)
+      .eq('is_active', true)
+      .lte('next_due_date', date)
+      .order('next_due_date', { ascending: true });
+
+    if (error) throw new Error(error.message);
+    return (data || []).filter((schedule: MaintenanceSchedule) => schedule.inventory_item?.status !== 'archived');
+  },
+
+  async createSchedule(item: any, schedule: ScheduleInput): Promise<MaintenanceSchedule> {
+    validateSchedule(schedule);
+
+    const { data, error } = await supabase
+      .from('equipment_maintenance_schedules')
+      .insert([{
+        inventory_item_id: item.id,
+        maintenance_type: schedule.maintenance_type,
+        interval_months: schedule.interval_months,
+        next_due_date: schedule.next_due_date,
+        notes: schedule.notes?.trim() || null,
+        created_by: authService.getCurrentUser()?.id
+      }])
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+
+    await activityService.logActivity({
+      action: 'create_maintenance_schedule',
+      description: `Scheduled ${SERVICE_TYPE_LABELS[schedule.maintenance_type].toLowerCase()} every ${schedule.interval_months} month(s) for ${item.generic_name}`,
+      details: { inventory_item_id: item.id, schedule_id: data.id, ...schedule }
+    });
+
+    return data;
+  },
+
+  async updateSchedule(item: any, scheduleId: number, schedule: ScheduleInput & { is_active?: boolean }): Promise<MaintenanceSchedule> {
+    validateSchedule(schedule);
+
+    const { data, error } = await supabase
+      .from('equipment_maintenance_schedules')
+      .update({
+        maintenance_type: schedule.maintenance_type,
+        interval_months: schedule.interval_months,
+        next_due_date: schedule.next_due_date,
+        notes: schedule.notes?.trim() || null,
+        ...(schedule.is_active !== undefined ? { is_active: schedule.is_active } : {})
+      })
+      .eq('id', scheduleId)
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+
+    await activityService.logActivity({
+      action: 'update_maintenance_schedule',
+      description: `Updated ${SERVICE_TYPE_LABELS[data.maintenance_type as MaintenanceType].toLowerCase()} schedule for ${item.generic_name}`,
+      details: { inventory_item_id: item.id, schedule_id: scheduleId, changes: schedule }
+    });
+
+    return data;
+  },
+
+  // Log a service visit. When it fulfils a schedule, the schedule's next due date is advanced;
+  // status_after sets the equipment to active or maintenance with this log as the reason.
+  async recordService(item: any, service: ServiceInput): Promise<ServiceLog> {
+    if (!service.technician?.trim()) {
+      throw new Error('Technician is required');
+    }
+    if (service.cost !== null && service.cost !== undefined && (isNaN(service.cost) || service.cost < 0)) {
+      throw new Error('Cost must be zero or more');
+    }
+
+    const { data, error } = await supabase.rpc('record_equipment_service', {
+      p_inventory_item_id: item.id,
+      p_schedule_id: service.schedule_id ?? null,
+      p_service_type: service.service_type,
+      p_service_date: service.service_date,
+      p_technician: service.technician.trim(),
+      p_cost: service.cost ?? null,
+      p_findings: service.findings?.trim() || null,
+      p_actions_taken: service.actions_taken?.trim() || null,
+      p_status_after: service.status_after ?? null,
+      p_performed_by: authService.getCurrentUser()?.id ?? null
+    });
+
+    if (error) throw new Error(error.message);
+
+    const log = data as ServiceLog;
+
+    await activityService.logActivity({
+      action: 'record_equipment_service',
+      description: `Logged ${SERVICE_TYPE_LABELS[service.service_type].toLowerCase()} of ${item.generic_name} by ${log.technician}`,
+      details: {
+        inventory_item_id: item.id,
+        service_log_id: log.id,
+        schedule_id: log.schedule_id,
+        cost: log.cost,
+        status_after: log.status_after,
+        next_due_date: log.next_due_date
+      }
+    });
+
+    return log;
+  }
+};
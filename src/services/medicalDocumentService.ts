@@ -0,0 +1,228 @@
+import { supabase } from '../lib/supabase';
+import {
+  activityService,
+  patientMonitoringService,
+  type Consultation
+} from './supabaseService';
+import { getSigningPhysician, assignAttendingPhysician } from './prescriptionService';
+import { referralService } from './referralService';
+
+export type MedicalDocumentType = 'medical_certificate' | 'fit_to_return' | 'referral_letter';
+
+// Medical Document Interface - matches medical_documents table
+export interface MedicalDocument {
+  id: number;
+  serial_number: string;
+  document_type: MedicalDocumentType;
+  consultation_id: number;
+  patient_id: number;
+  diagnosis?: string | null;
+  recommendations?: string | null;
+  purpose?: string | null;
+  rest_from?: string | null;
+  rest_to?: string | null;
+  fit_to_return_on?: string | null;
+  referred_to?: string | null;
+  referral_reason?: string | null;
+  referral_id?: number | null;
+  issued_by: number;
+  issuer_name: string;
+  issuer_license_number: string;
+  issued_at: string;
+}
+
+export type MedicalDocumentInput = Pick<
+  MedicalDocument,
+  'document_type' | 'diagnosis' | 'recommendations' | 'purpose' | 'rest_from' | 'rest_to' | 'fit_to_return_on' | 'referred_to' | 'referral_reason'
+>;
+
+// Rendered text of a document, shared by the PDF and Word output
+export interface MedicalDocumentTemplate {
+  title: string;
+  salutation: string;
+  paragraphs: string[];
+  details: { label: string; value: string }[];
+}
+
+export const MEDICAL_DOCUMENT_TYPE_LABELS: Record<MedicalDocumentType, string> = {
+  medical_certificate: 'Medical Certificate',
+  fit_to_return: 'Fit-to-Return Slip',
+  referral_letter: 'Referral Letter'
+};
+
+const formatLongDate = (date?: string | null) =>
+  date
+    ? new Date(date.length === 10 ? `${date}T00:00` : date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
+    : '';
+
+const patientFullName = (consultation: Consultation) => {
+  const patient = consultation.patient;
+  if (!patient) return 'the patient';
+  return [patient.first_name, patient.middle_name, patient.last_name].filter(Boolean).join(' ');
+};
+
+// Builds the wording of a document from what was issued and the consultation it belongs to
+export const buildMedicalDocumentTemplate = (
+  document: MedicalDocumentInput,
+  consultation: Consultation
+): MedicalDocumentTemplate => {
+  const patient = consultation.patient;
+  const name = patientFullName(consultation);
+  const ageSex = [patient?.age ? `${patient.age} years old` : '', patient?.sex?.toLowerCase() || ''].filter(Boolean).join(', ');
+  const identity = `${name}${ageSex ? `, ${ageSex}` : ''}${patient?.address ? `, of ${patient.address}` : ''}`;
+  const seenOn = formatLongDate(consultation.consultation_date);
+
+  const details: { label: string; value: string }[] = [];
+  if (document.diagnosis) details.push({ label: 'Diagnosis', value: document.diagnosis });
+  if (document.recommendations) details.push({ label: 'Recommendations', value: document.recommendations });
+
+  switch (document.document_type) {
+    case 'fit_to_return':
+      return {
+        title: 'FIT-TO-RETURN SLIP',
+        salutation: 'TO WHOM IT MAY CONCERN:',
+        paragraphs: [
+          `This is to certify that ${identity}, was seen and examined at this clinic on ${seenOn}.`,
+          `The patient is found physically fit to return to ${patient?.patient_type === 'Student' ? 'classes' : 'work'}` +
+            `${document.fit_to_return_on ? ` effective ${formatLongDate(document.fit_to_return_on)}` : ''}.`,
+          `This slip is issued upon request${document.purpose ? ` for ${document.purpose}` : ''}.`
+        ],
+        details
+      };
+
+    case 'referral_letter':
+      return {
+        title: 'REFERRAL LETTER',
+        salutation: `${document.referred_to || 'Dear Colleague'}:`,
+        paragraphs: [
+          `Respectfully referring ${identity}, who was seen at this clinic on ${seenOn}` +
+            `${consultation.chief_complaint ? ` for ${consultation.chief_complaint.trim().replace(/\.$/, '')}` : ''}.`,
+          document.referral_reason
+            ? `Reason for referral: ${document.referral_reason}`
+            : 'Kindly see the patient for further evaluation and management.',
+          'Thank you for accommodating this referral.'
+        ],
+        details
+      };
+
+    default: {
+      const restDays = document.rest_from && document.rest_to
+        ? Math.round((new Date(document.rest_to).getTime() - new Date(document.rest_from).getTime()) / 86400000) + 1
+        : 0;
+      return {
+        title: 'MEDICAL CERTIFICATE',
+        salutation: 'TO WHOM IT MAY CONCERN:',
+        paragraphs: [
+          `This is to certify that ${identity}, was seen and examined at this clinic on ${seenOn}.`,
+          restDays > 0
+            ? `The patient is advised to rest for ${restDays} day(s), from ${formatLongDate(document.rest_from)} to ${formatLongDate(document.rest_to)}.`
+            : '',
+          `This certificate is issued upon request${document.purpose ? ` for ${document.purpose}` : ''}` +
+            ' and is not valid for medico-legal purposes.'
+        ].filter(Boolean),
+        details
+      };
+    }
+  }
+};
+
+// Medical Document Service - serial-numbered certificates, slips and referral letters
+export const medicalDocumentService = {
+  async getDocumentsByConsultationId(consultationId: number): Promise<MedicalDocument[]> {
+    const { data, error } = await supabase
+      .from('medical_documents')
+      .select('*')
+      .eq('consultation_id', consultationId)
+      .order('issued_at', { ascending: false });
+
+    if (error) throw new Error(error.message);
+    return data || [];
+  },
+
+  // Issued by the logged-in physician and logged against the consultation. A referral
+  // letter also sends a referral so the patient shows up among the open referrals.
+  async issueDocument(consultation: Consultation, input: MedicalDocumentInput): Promise<MedicalDocument> {
+    if (input.document_type === 'referral_letter' && !input.referred_to?.trim()) {
+      throw new Error('Enter the doctor or facility the patient is referred to');
+    }
+    if (input.document_type === 'referral_letter' && !input.referral_reason?.trim()) {
+      throw new Error('Enter the reason for referral');
+    }
+    if (input.rest_from && input.rest_to && input.rest_to < input.rest_from) {
+      throw new Error('The rest period cannot end before it starts');
+    }
+
+    const signer = await getSigningPhysician(consultation);
+
+    const referral = input.document_type === 'referral_letter'
+      ? await referralService.createReferral(consultation, {
+          destination_facility: input.referred_to || '',
+          specialty: null,
+          urgency: 'routine',
+          reason: input.referral_reason || '',
+          working_diagnosis: input.diagnosis?.trim() || null
+        })
+      : null;
+
+    const { data, error } = await supabase
+      .from('medical_documents')
+      .insert([{
+        document_type: input.document_type,
+        consultation_id: consultation.id,
+        patient_id: consultation.patient_id,
+        diagnosis: input.diagnosis?.trim() || null,
+        recommendations: input.recommendations?.trim() || null,
+        purpose: input.purpose?.trim() || null,
+        rest_from: input.rest_from || null,
+        rest_to: input.rest_to || null,
+        fit_to_return_on: input.fit_to_return_on || null,
+        referred_to: input.referred_to?.trim() || null,
+        referral_reason: input.referral_reason?.trim() || null,
+        referral_id: referral?.id ?? null,
+        issued_by: signer.id,
+        issuer_name: signer.name,
+        issuer_license_number: signer.license_number
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      if (referral) {
+        await referralService.cancelReferral(referral, 'The referral letter could not be issued')
+          .catch(cancelError => console.error('Error cancelling referral:', cancelError));
+      }
+      throw new Error(error.message);
+    }
+
+    await assignAttendingPhysician(consultation, signer);
+
+    const label = MEDICAL_DOCUMENT_TYPE_LABELS[input.document_type];
+    await Promise.all([
+      patientMonitoringService.createPatientMonitoringLog({
+        patient_id: consultation.patient_id,
+        consultation_id: consultation.id,
+        action: 'issue_medical_document',
+        description: `Issued ${label} ${data.serial_number} for case ${consultation.case_number}`,
+        details: {
+          document_id: data.id,
+          serial_number: data.serial_number,
+          document_type: input.document_type,
+          referral_id: data.referral_id,
+          issued_by: signer.name
+        }
+      }),
+      activityService.logActivity({
+        action: 'issue_medical_document',
+        description: `Issued ${label} ${data.serial_number} for case ${consultation.case_number}`,
+        details: {
+          document_id: data.id,
+          consultation_id: consultation.id,
+          patient_id: consultation.patient_id,
+          document_type: input.document_type
+        }
+      })
+    ]);
+
+    return data;
+  }
+};
@@ -0,0 +1,196 @@
+import { supabase } from '../lib/supabase';
+import { authService, activityService } from './supabaseService';
+
+export type NotificationRuleType = 'expiry' | 'low_stock' | 'maintenance_overdue';
+export type NotificationSeverity = 'info' | 'warning' | 'critical';
+
+// Notification Rule Interface - matches notification_rules table
+export interface NotificationRule {
+  id: number;
+  name: string;
+  rule_type: NotificationRuleType;
+  threshold_days?: number | null;
+  department?: string | null;
+  severity: NotificationSeverity;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  created_by?: number | null;
+}
+
+export type NotificationRuleInput = Pick<NotificationRule, 'name' | 'rule_type' | 'threshold_days' | 'department' | 'severity' | 'is_active'>;
+
+// Notification Interface - matches notifications table
+export interface InventoryNotification {
+  id: number;
+  user_id: number;
+  rule_id?: number | null;
+  inventory_item_id?: number | null;
+  batch_id?: number | null;
+  title: string;
+  message: string;
+  severity: NotificationSeverity;
+  link?: string | null;
+  dedupe_key: string;
+  is_read: boolean;
+  read_at?: string | null;
+  created_at: string;
+}
+
+export const RULE_TYPE_LABELS: Record<NotificationRuleType, string> = {
+  expiry: 'Expiry horizon',
+  low_stock: 'Below stock threshold',
+  maintenance_overdue: 'Equipment in maintenance'
+};
+
+const validateRule = (rule: NotificationRuleInput) => {
+  if (!rule.name?.trim()) {
+    throw new Error('Rule name is required');
+  }
+  if (rule.rule_type !== 'low_stock') {
+    if (rule.threshold_days === null || rule.threshold_days === undefined ||
+        !Number.isInteger(rule.threshold_days) || rule.threshold_days < 0) {
+      throw new Error('Number of days must be a whole number of zero or more');
+    }
+  }
+};
+
+const getCurrentUserId = () => {
+  const currentUser = authService.getCurrentUser();
+  if (!currentUser) {
+    throw new Error('You must be logged in to view notifications');
+  }
+  return currentUser.id;
+};
+
+// Notification Service - alert rules and the current user's notification inbox
+export const notificationService = {
+  async getRules(): Promise<NotificationRule[]> {
+    const { data, error } = await supabase
+      .from('notification_rules')
+      .select('*')
+      .order('rule_type', { ascending: true })
+      .order('threshold_days', { ascending: false, nullsFirst: false });
+
+    if (error) throw new Error(error.message);
+    return data || [];
+  },
+
+  async createRule(rule: NotificationRuleInput): Promise<NotificationRule> {
+    validateRule(rule);
+
+    const { data, error } = await supabase
+      .from('notification_rules')
+      .insert([{
+        ...rule,
+        name: rule.name.trim(),
+        threshold_days: rule.rule_type === 'low_stock' ? null : rule.threshold_days,
+        department: rule.department || null,
+        created_by: authService.getCurrentUser()?.id
+      }])
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+
+    await activityService.logActivity({
+      action: 'create_notification_rule',
+      description: `Created notification rule: ${data.name}`,
+      details: { rule_id: data.id, rule }
+    });
+
+    return data;
+  },
+
+  async updateRule(id: number, rule: NotificationRuleInput): Promise<NotificationRule> {
+    validateRule(rule);
+
+    const { data, error } = await supabase
+      .from('notification_rules')
+      .update({
+        ...rule,
+        name: rule.name.trim(),
+        threshold_days: rule.rule_type === 'low_stock' ? null : rule.threshold_days,
+        department: rule.department || null
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+
+    await activityService.logActivity({
+      action: 'update_notification_rule',
+      description: `Updated notification rule: ${data.name}`,
+      details: { rule_id: id, rule }
+    });
+
+    return data;
+  },
+
+  async deleteRule(rule: NotificationRule): Promise<void> {
+    const { error } = await supabase
+      .from('notification_rules')
+      .delete()
+      .eq('id', rule.id);
+
+    if (error) throw new Error(error.message);
+
+    await activityService.logActivity({
+      action: 'delete_notification_rule',
+      description: `Deleted notification rule: ${rule.name}`,
+      details: { rule_id: rule.id }
+    });
+  },
+
+  // Evaluate all active rules; returns how many notifications were created
+  async generateNotifications(): Promise<number> {
+    const { data, error } = await supabase.rpc('generate_inventory_notifications');
+
+    if (error) throw new Error(error.message);
+    return data || 0;
+  },
+
+  async getNotifications(limit: number = 30): Promise<InventoryNotification[]> {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', getCurrentUserId())
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw new Error(error.message);
+    return data || [];
+  },
+
+  async getUnreadCount(): Promise<number> {
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', getCurrentUserId())
+      .eq('is_read', false);
+
+    if (error) throw new Error(error.message);
+    return count || 0;
+  },
+
+  async markAsRead(id: number): Promise<void> {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ is_read: true, read_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', getCurrentUserId());
+
+    if (error) throw new Error(error.message);
+  },
+
+  async markAllAsRead(): Promise<void> {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ is_read: true, read_at: new Date().toISOString() })
+      .eq('user_id', getCurrentUserId())
+      .eq('is_read', false);
+
+    if (error) throw new Error(error.message);
+  }
+};
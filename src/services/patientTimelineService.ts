@@ -0,0 +1,127 @@
+import {
+  patientMonitoringService,
+  type Consultation,
+  type ConsultationAttachment,
+  type GlasgowComaScale,
+  type PatientContact,
+  type PatientMonitoringLog,
+  type VitalSigns
+} from './supabaseService';
+import { dispensingService, type MedicationDispense } from './dispensingService';
+
+type TimelineRecord =
+  | { type: 'consultation'; record: Consultation }
+  | { type: 'vital_signs'; record: VitalSigns }
+  | { type: 'gcs'; record: GlasgowComaScale }
+  | { type: 'attachment'; record: ConsultationAttachment }
+  | { type: 'dispense'; record: MedicationDispense }
+  | { type: 'contact'; record: PatientContact }
+  | { type: 'log'; record: PatientMonitoringLog };
+
+export type TimelineEntryType = TimelineRecord['type'];
+
+export type PatientTimelineEntry = TimelineRecord & {
+  key: string;
+  occurred_at: string; // ISO timestamp used for ordering and date filtering
+  consultation?: Pick<Consultation, 'id' | 'case_number'>;
+};
+
+export const TIMELINE_TYPE_LABELS: Record<TimelineEntryType, string> = {
+  consultation: 'Consultations',
+  vital_signs: 'Vital Signs',
+  gcs: 'Glasgow Coma Scale',
+  attachment: 'Attachments',
+  dispense: 'Medications',
+  contact: 'Contacts',
+  log: 'Activity'
+};
+
+// Monitoring logs older than the newest entries are rarely needed on the timeline
+const TIMELINE_LOG_LIMIT = 200;
+
+// consultation_date is a DATE and time_in a TIME, both in clinic local time
+const consultationTimestamp = (consultation: Consultation) => {
+  const date = new Date(`${consultation.consultation_date}T${consultation.time_in || '00:00'}`);
+  return Number.isNaN(date.getTime()) ? consultation.created_at : date.toISOString();
+};
+
+// Patient Timeline Service - one chronological view of everything recorded for a patient
+export const patientTimelineService = {
+  // Newest first
+  async getPatientTimeline(patientId: number): Promise<PatientTimelineEntry[]> {
+    const [consultations, contacts, dispenses, logs] = await Promise.all([
+      patientMonitoringService.getConsultationsByPatientId(patientId),
+      patientMonitoringService.getPatientContacts(patientId),
+      dispensingService.getDispensesByPatientId(patientId),
+      patientMonitoringService.getPatientMonitoringLogs(patientId, undefined, TIMELINE_LOG_LIMIT)
+    ]);
+
+    const consultationDetails = await Promise.all(consultations.map(consultation => Promise.all([
+      patientMonitoringService.getVitalSignsByConsultationId(consultation.id),
+      patientMonitoringService.getGlasgowComaScalesByConsultationId(consultation.id),
+      patientMonitoringService.getConsultationAttachments(consultation.id)
+    ])));
+
+    const entries: PatientTimelineEntry[] = [];
+
+    consultations.forEach((consultation, index) => {
+      const ref = { id: consultation.id, case_number: consultation.case_number };
+      const [vitals, scales, attachments] = consultationDetails[index];
+
+      entries.push({
+        type: 'consultation',
+        key: `consultation-${consultation.id}`,
+        occurred_at: consultationTimestamp(consultation),
+        consultation: ref,
+        record: consultation
+      });
+      vitals.forEach(vital => entries.push({
+        type: 'vital_signs',
+        key: `vital_signs-${vital.id}`,
+        occurred_at: vital.recorded_at,
+        consultation: ref,
+        record: vital
+      }));
+      scales.forEach(scale => entries.push({
+        type: 'gcs',
+        key: `gcs-${scale.id}`,
+        occurred_at: scale.assessed_at,
+        consultation: ref,
+        record: scale
+      }));
+      attachments.forEach(attachment => entries.push({
+        type: 'attachment',
+        key: `attachment-${attachment.id}`,
+        occurred_at: attachment.uploaded_at,
+        consultation: ref,
+        record: attachment
+      }));
+    });
+
+    dispenses.forEach(dispense => entries.push({
+      type: 'dispense',
+      key: `dispense-${dispense.id}`,
+      occurred_at: dispense.dispensed_at,
+      consultation: dispense.consultation
+        ? { id: dispense.consultation.id, case_number: dispense.consultation.case_number }
+        : undefined,
+      record: dispense
+    }));
+
+    contacts.forEach(contact => entries.push({
+      type: 'contact',
+      key: `contact-${contact.id}`,
+      occurred_at: contact.created_at,
+      record: contact
+    }));
+
+    logs.forEach(log => entries.push({
+      type: 'log',
+      key: `log-${log.id}`,
+      occurred_at: log.performed_at,
+      record: log
+    }));
+
+    return entries.sort((a, b) => new Date(b.occurred_at).getTime() - new Date(a.occurred_at).getTime());
+  }
+};
@@ -0,0 +1,364 @@
+import { supabase, fetchAllRows } from '../lib/supabase';
+import {
+  authService,
+  activityService,
+  patientMonitoringService,
+  type Patient
+} from './supabaseService';
+import { getSigningPhysician } from './prescriptionService';
+import { toDateKey } from './appointmentService';
+import {
+  PHYSICAL_EXAM_LAB_TESTS,
+  PHYSICAL_EXAM_SYSTEMS,
+  SCHOOL_YEAR_START_MONTH,
+  CLEARANCE_STATUS_LABELS,
+  type ClearanceStatus,
+  type ExamFindingStatus,
+  type LabResultStatus,
+  type PhysicalExamPurpose
+} from '../constants/physicalExam';
+
+export interface ExamFinding {
+  status: ExamFindingStatus;
+  notes?: string;
+}
+
+export interface LabResult {
+  status: LabResultStatus;
+  notes?: string;
+}
+
+// Physical Exam Interface - matches physical_exams table
+export interface PhysicalExam {
+  id: number;
+  patient_id: number;
+  school_year: string;
+  purpose: PhysicalExamPurpose;
+  exam_date: string;
+  height_cm?: number | null;
+  weight_kg?: number | null;
+  blood_pressure_systolic?: number | null;
+  blood_pressure_diastolic?: number | null;
+  pulse_rate?: number | null;
+  respiratory_rate?: number | null;
+  visual_acuity_left?: string | null;
+  visual_acuity_right?: string | null;
+  wears_corrective_lenses: boolean;
+  findings: Record<string, ExamFinding>;
+  lab_results: Record<string, LabResult>;
+  clearance_status: ClearanceStatus;
+  recommendations?: string | null;
+  cleared_at?: string | null;
+  cleared_by?: number | null;
+  cleared_by_name?: string | null;
+  cleared_by_license_number?: string | null;
+  created_at: string;
+  updated_at: string;
+  created_by?: number | null;
+}
+
+export type PhysicalExamInput = Pick<PhysicalExam,
+  | 'school_year'
+  | 'purpose'
+  | 'exam_date'
+  | 'height_cm'
+  | 'weight_kg'
+  | 'blood_pressure_systolic'
+  | 'blood_pressure_diastolic'
+  | 'pulse_rate'
+  | 'respiratory_rate'
+  | 'visual_acuity_left'
+  | 'visual_acuity_right'
+  | 'wears_corrective_lenses'
+  | 'findings'
+  | 'lab_results'
+  | 'recommendations'
+>;
+
+// Who the completion report covers: students of a course (optionally one year level), or employees
+export type ClearanceReportScope =
+  | { patient_type: 'Student'; course: string; year_level?: number }
+  | { patient_type: 'Employee' };
+
+export interface ClearanceReportRow {
+  patient: Patient;
+  // Null when the patient has not been examined this school year
+  exam: PhysicalExam | null;
+}
+
+export interface ClearanceReport {
+  scope: ClearanceReportScope;
+  school_year: string;
+  total_patients: number;
+  cleared_count: number;
+  // Only patients not yet cleared as fit
+  rows: ClearanceReportRow[];
+}
+
+// School year a date falls in, e.g. "2026-2027" from August 2026 to July 2027
+export const getSchoolYear = (date: Date = new Date()): string => {
+  const startYear = date.getMonth() + 1 >= SCHOOL_YEAR_START_MONTH ? date.getFullYear() : date.getFullYear() - 1;
+  return `${startYear}-${startYear + 1}`;
+};
+
+// The current school year and the ones before it, newest first
+export const getRecentSchoolYears = (count: number = 4): string[] => {
+  const startYear = Number(getSchoolYear().split('-')[0]);
+  return Array.from({ length: count }, (_, index) => `${startYear - index}-${startYear - index + 1}`);
+};
+
+export const calculateBmi = (heightCm?: number | null, weightKg?: number | null): number | null => {
+  if (!heightCm || !weightKg) return null;
+  const heightM = heightCm / 100;
+  return Math.round((weightKg / (heightM * heightM)) * 10) / 10;
+};
+
+export const describeClearanceScope = (scope: ClearanceReportScope): string =>
+  scope.patient_type === 'Employee'
+    ? 'Employees'
+    : `${scope.course}${scope.year_level ? `, Year ${scope.year_level}` : ''}`;
+
+// Exam sections and lab tests still without a result; all must be filled in before a fit decision
+export const getIncompleteExamItems = (exam: Pick<PhysicalExam, 'findings' | 'lab_results'>): string[] => [
+  ...PHYSICAL_EXAM_SYSTEMS.filter(system => !exam.findings[system.key]?.status).map(system => system.label),
+  ...PHYSICAL_EXAM_LAB_TESTS.filter(test => !exam.lab_results[test.key]?.status).map(test => test.label)
+];
+
+const toExamRow = (input: PhysicalExamInput) => ({
+  school_year: input.school_year,
+  purpose: input.purpose,
+  exam_date: input.exam_date,
+  height_cm: input.height_cm || null,
+  weight_kg: input.weight_kg || null,
+  blood_pressure_systolic: input.blood_pressure_systolic || null,
+  blood_pressure_diastolic: input.blood_pressure_diastolic || null,
+  pulse_rate: input.pulse_rate || null,
+  respiratory_rate: input.respiratory_rate || null,
+  visual_acuity_left: input.visual_acuity_left?.trim() || null,
+  visual_acuity_right: input.visual_acuity_right?.trim() || null,
+  wears_corrective_lenses: input.wears_corrective_lenses,
+  findings: input.findings,
+  lab_results: input.lab_results,
+  recommendations: input.recommendations?.trim() || null
+});
+
+const getCurrentUserOrThrow = () => {
+  const currentUser = authService.getCurrentUser();
+  if (!currentUser) {
+    throw new Error('You must be logged in to record physical exams');
+  }
+  return currentUser;
+};
+
+const logPhysicalExamChange = async (
+  patient: Patient,
+  action: string,
+  description: string,
+  details: Record<string, any>
+) => {
+  await Promise.all([
+    patientMonitoringService.createPatientMonitoringLog({
+      patient_id: patient.id,
+      action,
+      description,
+      details
+    }),
+    activityService.logActivity({
+      action,
+      description: `${description} for ${patient.first_name} ${patient.last_name}`,
+      details: { patient_id: patient.id, ...details }
+    })
+  ]);
+};
+
+// Physical Exam Service - annual / pre-enrollment exams and medical clearance
+export const physicalExamService = {
+  async getExamsByPatientId(patientId: number): Promise<PhysicalExam[]> {
+    const { data, error } = await supabase
+      .from('physical_exams')
+      .select('*')
+      .eq('patient_id', patientId)
+      .order('school_year', { ascending: false });
+
+    if (error) throw new Error(error.message);
+    return data || [];
+  },
+
+  // Creates the school year's exam, or updates it while the clearance is still pending
+  async saveExam(patient: Patient, input: PhysicalExamInput, existing?: PhysicalExam | null): Promise<PhysicalExam> {
+    const currentUser = getCurrentUserOrThrow();
+
+    if (!input.exam_date) {
+      throw new Error('Please enter the exam date');
+    }
+    if (input.exam_date > toDateKey(new Date())) {
+      throw new Error('The exam date cannot be in the future');
+    }
+    if (
+      (input.blood_pressure_systolic && !input.blood_pressure_diastolic) ||
+      (!input.blood_pressure_systolic && input.blood_pressure_diastolic)
+    ) {
+      throw new Error('Enter both systolic and diastolic blood pressure');
+    }
+    const abnormalWithoutNotes = PHYSICAL_EXAM_SYSTEMS.find(system =>
+      input.findings[system.key]?.status === 'abnormal' && !input.findings[system.key]?.notes?.trim()
+    );
+    if (abnormalWithoutNotes) {
+      throw new Error(`Describe the abnormal ${abnormalWithoutNotes.label} findings`);
+    }
+
+    const row = toExamRow(input);
+    const { data, error } = existing
+      // The status filter stops an edit overwriting a decision signed in the meantime
+      ? await supabase
+        .from('physical_exams')
+        .update(row)
+        .eq('id', existing.id)
+        .eq('clearance_status', 'pending')
+        .select('*')
+        .maybeSingle()
+      : await supabase
+        .from('physical_exams')
+        .insert([{ ...row, patient_id: patient.id, created_by: currentUser.id }])
+        .select('*')
+        .single();
+
+    if (error) {
+      // idx_physical_exams_one_per_year
+      if (error.code === '23505') {
+        throw new Error(`${patient.first_name} ${patient.last_name} already has a physical exam for school year ${input.school_year}`);
+      }
+      throw new Error(error.message);
+    }
+    if (!data) {
+      throw new Error('This exam has already been signed off and can no longer be edited');
+    }
+
+    const exam = data as PhysicalExam;
+    await logPhysicalExamChange(
+      patient,
+      existing ? 'update_physical_exam' : 'record_physical_exam',
+      `${existing ? 'Updated' : 'Recorded'} physical exam for school year ${exam.school_year}`,
+      { physical_exam_id: exam.id, school_year: exam.school_year, purpose: exam.purpose }
+    );
+
+    return exam;
+  },
+
+  // Signs the clearance as the logged-in physician (see getSigningPhysician)
+  async recordClearance(
+    patient: Patient,
+    exam: PhysicalExam,
+    decision: Exclude<ClearanceStatus, 'pending'>,
+    recommendations: string
+  ): Promise<PhysicalExam> {
+    if (exam.clearance_status !== 'pending') {
+      throw new Error(`This exam was already marked ${CLEARANCE_STATUS_LABELS[exam.clearance_status].toLowerCase()}`);
+    }
+    if (decision === 'fit') {
+      const incomplete = getIncompleteExamItems(exam);
+      if (incomplete.length > 0) {
+        throw new Error(`Complete the exam before clearing the patient: ${incomplete.join(', ')}`);
+      }
+    }
+    if (decision === 'unfit' && !recommendations.trim()) {
+      throw new Error('Please give the reason the patient is unfit');
+    }
+
+    const signer = await getSigningPhysician();
+
+    const { data, error } = await supabase
+      .from('physical_exams')
+      .update({
+        clearance_status: decision,
+        recommendations: recommendations.trim() || null,
+        cleared_at: new Date().toISOString(),
+        cleared_by: signer.id,
+        cleared_by_name: signer.name,
+        cleared_by_license_number: signer.license_number
+      })
+      .eq('id', exam.id)
+      .eq('clearance_status', 'pending')
+      .select('*')
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    if (!data) {
+      throw new Error('This exam has already been signed off. It may have been updated by someone else.');
+    }
+
+    const cleared = data as PhysicalExam;
+    await logPhysicalExamChange(
+      patient,
+      'record_medical_clearance',
+      `Marked ${CLEARANCE_STATUS_LABELS[decision].toLowerCase()} for school year ${cleared.school_year}`,
+      { physical_exam_id: cleared.id, school_year: cleared.school_year, clearance_status: decision }
+    );
+
+    return cleared;
+  },
+
+  // Active patients in scope who have not been cleared as fit for the school year
+  async getClearanceReport(scope: ClearanceReportScope, schoolYear: string): Promise<ClearanceReport> {
+    // A scope can run past the PostgREST page limit, so both queries are read in full
+    const patients = await fetchAllRows((from, to) => {
+      let query = supabase
+        .from('patients')
+        .select('*')
+        .eq('patient_type', scope.patient_type)
+        .eq('status', 'active');
+
+      if (scope.patient_type === 'Student') {
+        query = query.eq('course', scope.course);
+        if (scope.year_level) {
+          query = query.eq('year_level', scope.year_level);
+        }
+      }
+
+      return query
+        .order('year_level', { ascending: true })
+        .order('last_name', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to);
+    });
+
+    const patientList = patients as Patient[];
+    if (patientList.length === 0) {
+      return { scope, school_year: schoolYear, total_patients: 0, cleared_count: 0, rows: [] };
+    }
+
+    // Filtered to the same scope through the patient join rather than a long list of patient ids
+    const exams = await fetchAllRows((from, to) => {
+      let query = supabase
+        .from('physical_exams')
+        .select('*, patient:patients!inner (id)')
+        .eq('school_year', schoolYear)
+        .eq('patient.patient_type', scope.patient_type)
+        .eq('patient.status', 'active');
+
+      if (scope.patient_type === 'Student') {
+        query = query.eq('patient.course', scope.course);
+        if (scope.year_level) {
+          query = query.eq('patient.year_level', scope.year_level);
+        }
+      }
+
+      return query.order('id', { ascending: true }).range(from, to);
+    });
+
+    const examByPatient = new Map<number, PhysicalExam>();
+    (exams as PhysicalExam[]).forEach(exam => examByPatient.set(exam.patient_id, exam));
+
+    const rows = patientList
+      .map(patient => ({ patient, exam: examByPatient.get(patient.id) || null }))
+      .filter(row => row.exam?.clearance_status !== 'fit');
+
+    return {
+      scope,
+      school_year: schoolYear,
+      total_patients: patientList.length,
+      cleared_count: patientList.length - rows.length,
+      rows
+    };
+  }
+};
@@ -0,0 +1,321 @@
+import { supabase } from '../lib/supabase';
+import {
+  authService,
+  activityService,
+  inventoryService,
+  patientMonitoringService,
+  type Consultation
+} from './supabaseService';
+
+export type PrescriptionStatus = 'draft' | 'signed' | 'cancelled';
+
+// Prescription Line Interface - matches prescription_items table
+export interface PrescriptionItem {
+  id: number;
+  prescription_id: number;
+  inventory_item_id?: number | null;
+  drug_name: string;
+  strength?: string | null;
+  dose: string;
+  frequency: string;
+  duration?: string | null;
+  quantity: number;
+  instructions?: string | null;
+  sort_order: number;
+}
+
+// Prescription Interface - matches prescriptions table
+export interface Prescription {
+  id: number;
+  prescription_number: string;
+  consultation_id: number;
+  patient_id: number;
+  status: PrescriptionStatus;
+  notes?: string | null;
+  prescribed_by?: number | null;
+  prescriber_name?: string | null;
+  prescriber_license_number?: string | null;
+  signed_at?: string | null;
+  created_at: string;
+  created_by?: number | null;
+  updated_at: string;
+  cancelled_at?: string | null;
+  cancelled_by?: number | null;
+  items: PrescriptionItem[];
+}
+
+export type PrescriptionItemInput = Omit<PrescriptionItem, 'id' | 'prescription_id' | 'sort_order'>;
+
+export const PRESCRIPTION_STATUS_LABELS: Record<PrescriptionStatus, string> = {
+  draft: 'Draft',
+  signed: 'Signed',
+  cancelled: 'Cancelled'
+};
+
+// Common sig abbreviations offered as suggestions; any text is accepted
+export const FREQUENCY_OPTIONS = [
+  'Once daily',
+  'Twice daily (BID)',
+  'Three times daily (TID)',
+  'Four times daily (QID)',
+  'Every 4 hours',
+  'Every 6 hours',
+  'Every 8 hours',
+  'At bedtime (HS)',
+  'As needed (PRN)'
+];
+
+const PRESCRIPTION_SELECT = `
+  *,
+  items:prescription_items (*)
+`;
+
+const getCurrentUserOrThrow = () => {
+  const currentUser = authService.getCurrentUser();
+  if (!currentUser) {
+    throw new Error('You must be logged in to manage prescriptions');
+  }
+  return currentUser;
+};
+
+const sortItems = (prescription: Prescription): Prescription => ({
+  ...prescription,
+  items: [...(prescription.items || [])].sort((a, b) => a.sort_order - b.sort_order)
+});
+
+const validateItems = (items: PrescriptionItemInput[]) => {
+  if (items.length === 0) {
+    throw new Error('Add at least one drug to the prescription');
+  }
+  items.forEach((item, index) => {
+    if (!item.drug_name.trim() || !item.dose.trim() || !item.frequency.trim()) {
+      throw new Error(`Line ${index + 1}: drug, dose and frequency are required`);
+    }
+    if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+      throw new Error(`Line ${index + 1}: quantity must be a whole number greater than zero`);
+    }
+  });
+};
+
+const toItemRows = (prescriptionId: number, items: PrescriptionItemInput[]) =>
+  items.map((item, index) => ({
+    prescription_id: prescriptionId,
+    inventory_item_id: item.inventory_item_id || null,
+    drug_name: item.drug_name.trim(),
+    strength: item.strength?.trim() || null,
+    dose: item.dose.trim(),
+    frequency: item.frequency.trim(),
+    duration: item.duration?.trim() || null,
+    quantity: item.quantity,
+    instructions: item.instructions?.trim() || null,
+    sort_order: index
+  }));
+
+export interface SigningPhysician {
+  id: number;
+  name: string;
+  license_number: string;
+}
+
+// The logged-in user as the signer of a clinical document. They need a license number on their
+// profile and must be the consultation's attending physician when one is assigned. The profile
+// is read fresh because the stored session may predate a license number update. Documents not
+// tied to a consultation, such as physical exam clearances, pass none.
+export const getSigningPhysician = async (consultation?: Consultation): Promise<SigningPhysician> => {
+  const currentUser = getCurrentUserOrThrow();
+
+  const { data: signer, error } = await supabase
+    .from('users')
+    .select('id, first_name, last_name, username, license_number')
+    .eq('id', currentUser.id)
+    .single();
+
+  if (error) throw new Error(error.message);
+  if (!signer.license_number?.trim()) {
+    throw new Error('Add your license number to your profile before signing clinical documents');
+  }
+  if (consultation?.attending_physician && consultation.attending_physician !== signer.id) {
+    throw new Error(`Only the attending physician${consultation.attending_physician_name ? ` (${consultation.attending_physician_name})` : ''} can sign for this consultation`);
+  }
+
+  return {
+    id: signer.id,
+    name: [signer.first_name, signer.last_name].filter(Boolean).join(' ') || signer.username,
+    license_number: signer.license_number.trim()
+  };
+};
+
+// An unassigned consultation takes the first physician to sign for it as attending
+export const assignAttendingPhysician = async (consultation: Consultation, signer: SigningPhysician): Promise<void> => {
+  if (consultation.attending_physician) return;
+  await patientMonitoringService.updateConsultation(consultation.id, {
+    attending_physician: signer.id,
+    attending_physician_name: signer.name
+  });
+};
+
+// Move a prescription between statuses; the status filter stops two users changing it at once
+const transitionPrescription = async (
+  id: number,
+  fromStatuses: PrescriptionStatus[],
+  changes: Partial<Prescription>
+): Promise<Prescription> => {
+  const { data, error } = await supabase
+    .from('prescriptions')
+    .update(changes)
+    .eq('id', id)
+    .in('status', fromStatuses)
+    .select(PRESCRIPTION_SELECT)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!data) {
+    throw new Error(`Prescription must be ${fromStatuses.join(' or ')} to do this. It may have been updated by someone else.`);
+  }
+  return sortItems(data);
+};
+
+// Prescription Service - structured prescriptions per consultation
+export const prescriptionService = {
+  async getPrescriptionsByConsultationId(consultationId: number): Promise<Prescription[]> {
+    const { data, error } = await supabase
+      .from('prescriptions')
+      .select(PRESCRIPTION_SELECT)
+      .eq('consultation_id', consultationId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw new Error(error.message);
+    return (data || []).map(sortItems);
+  },
+
+  async getPrescriptionById(id: number): Promise<Prescription> {
+    const { data, error } = await supabase
+      .from('prescriptions')
+      .select(PRESCRIPTION_SELECT)
+      .eq('id', id)
+      .single();
+
+    if (error) throw new Error(error.message);
+    return sortItems(data);
+  },
+
+  // Medicines the clinic stocks, for linking a prescription line to inventory.
+  // Out-of-stock medicines are included since the patient may fill the slip elsewhere.
+  async getPrescribableItems(): Promise<any[]> {
+    const items = await inventoryService.getAllItems();
+    return items.filter((item: any) => (item.classification || '').toLowerCase() === 'medicines');
+  },
+
+  async createPrescription(consultation: Consultation, items: PrescriptionItemInput[], notes?: string): Promise<Prescription> {
+    const currentUser = getCurrentUserOrThrow();
+    validateItems(items);
+
+    const { data: prescription, error } = await supabase
+      .from('prescriptions')
+      .insert([{
+        consultation_id: consultation.id,
+        patient_id: consultation.patient_id,
+        status: 'draft',
+        notes: notes?.trim() || null,
+        created_by: currentUser.id
+      }])
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+
+    const { error: itemsError } = await supabase
+      .from('prescription_items')
+      .insert(toItemRows(prescription.id, items));
+
+    if (itemsError) throw new Error(itemsError.message);
+
+    await activityService.logActivity({
+      action: 'create_prescription',
+      description: `Drafted prescription ${prescription.prescription_number} with ${items.length} drug(s) for case ${consultation.case_number}`,
+      details: {
+        prescription_id: prescription.id,
+        consultation_id: consultation.id,
+        patient_id: consultation.patient_id,
+        drugs: items.map(item => item.drug_name)
+      }
+    });
+
+    return prescriptionService.getPrescriptionById(prescription.id);
+  },
+
+  // Replaces all lines of a draft
+  async updateDraft(id: number, items: PrescriptionItemInput[], notes?: string): Promise<Prescription> {
+    getCurrentUserOrThrow();
+    validateItems(items);
+
+    const prescription = await transitionPrescription(id, ['draft'], { notes: notes?.trim() || null });
+
+    const { error: deleteError } = await supabase
+      .from('prescription_items')
+      .delete()
+      .eq('prescription_id', id);
+
+    if (deleteError) throw new Error(deleteError.message);
+
+    const { error: insertError } = await supabase
+      .from('prescription_items')
+      .insert(toItemRows(id, items));
+
+    if (insertError) throw new Error(insertError.message);
+
+    await activityService.logActivity({
+      action: 'update_prescription',
+      description: `Edited draft prescription ${prescription.prescription_number}`,
+      details: { prescription_id: id, drugs: items.map(item => item.drug_name) }
+    });
+
+    return prescriptionService.getPrescriptionById(id);
+  },
+
+  // Signs as the logged-in physician (see getSigningPhysician)
+  async signPrescription(consultation: Consultation, id: number): Promise<Prescription> {
+    const signer = await getSigningPhysician(consultation);
+
+    const prescription = await transitionPrescription(id, ['draft'], {
+      status: 'signed',
+      prescribed_by: signer.id,
+      prescriber_name: signer.name,
+      prescriber_license_number: signer.license_number,
+      signed_at: new Date().toISOString()
+    });
+
+    await assignAttendingPhysician(consultation, signer);
+
+    await activityService.logActivity({
+      action: 'sign_prescription',
+      description: `Signed prescription ${prescription.prescription_number} for case ${consultation.case_number}`,
+      details: {
+        prescription_id: id,
+        consultation_id: consultation.id,
+        patient_id: consultation.patient_id,
+        license_number: prescription.prescriber_license_number
+      }
+    });
+
+    return prescription;
+  },
+
+  async cancelPrescription(id: number): Promise<Prescription> {
+    const currentUser = getCurrentUserOrThrow();
+
+    const prescription = await transitionPrescription(id, ['draft', 'signed'], {
+      status: 'cancelled',
+      cancelled_at: new Date().toISOString(),
+      cancelled_by: currentUser.id
+    });
+
+    await activityService.logActivity({
+      action: 'cancel_prescription',
+      description: `Cancelled prescription ${prescription.prescription_number}`,
+      details: { prescription_id: id }
+    });
+
+    return prescription;
+  }
+};
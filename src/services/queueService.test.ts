@@ -0,0 +1,64 @@
+import { calculateTriagePriority, formatQueueNumber, minutesBetween, sortQueue, type QueueEntry } from './queueService';
+
+jest.mock('../lib/supabase', () => ({ supabase: {}, fetchAllRows: jest.fn() }));
+
+describe('calculateTriagePriority', () => {
+  it('treats a walk-in without pain or injuries as routine', () => {
+    expect(calculateTriagePriority({ mode_of_arrival: 'Ambulatory' })).toEqual({ priority: 'routine', reasons: [] });
+  });
+
+  it('makes carried-in patients, severe pain and suspected fractures an emergency', () => {
+    expect(calculateTriagePriority({ mode_of_arrival: 'Cuddled/Carried' }).priority).toBe('emergency');
+    expect(calculateTriagePriority({ patient_in_pain: true, pain_scale: 8 }).priority).toBe('emergency');
+    expect(calculateTriagePriority({ patient_has_injuries: true, injury_fracture: true }).priority).toBe('emergency');
+  });
+
+  it('makes assisted arrivals, moderate pain and most injuries urgent', () => {
+    expect(calculateTriagePriority({ mode_of_arrival: 'Assisted' })).toEqual({ priority: 'urgent', reasons: ['Assisted arrival'] });
+    expect(calculateTriagePriority({ patient_in_pain: true, pain_scale: 4 })).toEqual({ priority: 'urgent', reasons: ['Pain 4/10'] });
+    expect(calculateTriagePriority({ patient_has_injuries: true, injury_laceration: true }).priority).toBe('urgent');
+  });
+
+  it('ignores a pain score when the patient is not in pain, and a lone abrasion', () => {
+    expect(calculateTriagePriority({ patient_in_pain: false, pain_scale: 9 }).priority).toBe('routine');
+    expect(calculateTriagePriority({ patient_has_injuries: true, injury_abrasion: true }).priority).toBe('routine');
+  });
+
+  it('lists the emergency reasons before the urgent ones', () => {
+    expect(calculateTriagePriority({
+      mode_of_arrival: 'Assisted',
+      patient_in_pain: true,
+      pain_scale: 9,
+      patient_has_injuries: true,
+      injury_sprain: true
+    })).toEqual({ priority: 'emergency', reasons: ['Pain 9/10', 'Assisted arrival', 'Sprain'] });
+  });
+});
+
+describe('sortQueue', () => {
+  const entry = (id: number, priority: QueueEntry['triage_priority'], arrivedAt: string) =>
+    ({ id, triage_priority: priority, arrived_at: arrivedAt }) as QueueEntry;
+
+  it('puts the most urgent first, then first come first served', () => {
+    const entries = [
+      entry(1, 'routine', '2026-10-19T08:00:00Z'),
+      entry(2, 'urgent', '2026-10-19T08:10:00Z'),
+      entry(3, 'emergency', '2026-10-19T08:20:00Z'),
+      entry(4, 'urgent', '2026-10-19T08:05:00Z')
+    ];
+
+    expect(sortQueue(entries).map(item => item.id)).toEqual([3, 4, 2, 1]);
+  });
+});
+
+describe('queue formatting helpers', () => {
+  it('zero-pads queue numbers', () => {
+    expect(formatQueueNumber(7)).toBe('007');
+    expect(formatQueueNumber(1234)).toBe('1234');
+  });
+
+  it('rounds waits to whole minutes and never goes negative', () => {
+    expect(minutesBetween('2026-10-19T08:00:00Z', '2026-10-19T08:14:40Z')).toBe(15);
+    expect(minutesBetween('2026-10-19T08:10:00Z', '2026-10-19T08:00:00Z')).toBe(0);
+  });
+});
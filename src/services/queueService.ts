@@ -0,0 +1,394 @@
+import { supabase } from '../lib/supabase';
+import {
+  authService,
+  activityService,
+  patientMonitoringService,
+  type Consultation,
+  type Patient,
+  type VitalSigns
+} from './supabaseService';
+import { toDateKey } from './appointmentService';
+
+export type QueueStatus = 'waiting' | 'called' | 'in_consultation' | 'left';
+export type TriagePriority = 'emergency' | 'urgent' | 'routine';
+
+// Recorded at the front desk with the same fields the nurse later fills in on vital signs
+export type TriageAssessment = Pick<
+  VitalSigns,
+  | 'mode_of_arrival'
+  | 'patient_in_pain'
+  | 'pain_scale'
+  | 'patient_has_injuries'
+  | 'injury_abrasion'
+  | 'injury_contusion'
+  | 'injury_fracture'
+  | 'injury_laceration'
+  | 'injury_puncture'
+  | 'injury_sprain'
+  | 'injury_other'
+>;
+
+export interface TriageResult {
+  priority: TriagePriority;
+  reasons: string[];
+}
+
+// Queue Entry Interface - matches queue_entries table
+export interface QueueEntry extends TriageAssessment {
+  id: number;
+  queue_date: string;
+  queue_number: number;
+  patient_id: number;
+  chief_complaint?: string | null;
+  triage_priority: TriagePriority;
+  triage_reasons?: string[] | null;
+  status: QueueStatus;
+  arrived_at: string;
+  registered_by?: number | null;
+  called_at?: string | null;
+  called_by?: number | null;
+  called_to?: string | null;
+  consultation_id?: number | null;
+  started_at?: string | null;
+  left_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  patient?: Patient;
+}
+
+export interface QueueDailyWaitTime {
+  date: string;
+  arrivals: number;
+  // Called from the waiting list, i.e. with a wait time
+  called: number;
+  seen: number;
+  left: number;
+  average_wait_minutes: number | null;
+  longest_wait_minutes: number | null;
+}
+
+export const QUEUE_STATUS_LABELS: Record<QueueStatus, string> = {
+  waiting: 'Waiting',
+  called: 'Called',
+  in_consultation: 'In Consultation',
+  left: 'Left Without Being Seen'
+};
+
+export const TRIAGE_PRIORITY_LABELS: Record<TriagePriority, string> = {
+  emergency: 'Emergency',
+  urgent: 'Urgent',
+  routine: 'Routine'
+};
+
+const PRIORITY_ORDER: Record<TriagePriority, number> = { emergency: 0, urgent: 1, routine: 2 };
+
+const QUEUE_LIST_SELECT = `
+  *,
+  patient:patients (*)
+`;
+
+// Queue numbers are shown zero-padded on the board, e.g. 7 -> "007"
+export const formatQueueNumber = (queueNumber: number): string => String(queueNumber).padStart(3, '0');
+
+export const minutesBetween = (from: string, to: string): number =>
+  Math.max(0, Math.round((new Date(to).getTime() - new Date(from).getTime()) / 60000));
+
+// Emergency: carried in, suspected fracture or severe pain (8-10).
+// Urgent: assisted in, moderate pain (4-7) or any injury other than an abrasion.
+// Everyone else is routine and seen in arrival order.
+export const calculateTriagePriority = (assessment: Partial<TriageAssessment>): TriageResult => {
+  const emergency: string[] = [];
+  const urgent: string[] = [];
+  const pain = assessment.patient_in_pain ? Number(assessment.pain_scale) || 0 : 0;
+
+  if (assessment.mode_of_arrival === 'Cuddled/Carried') emergency.push('Carried in');
+  if (assessment.mode_of_arrival === 'Assisted') urgent.push('Assisted arrival');
+
+  if (pain >= 8) emergency.push(`Pain ${pain}/10`);
+  else if (pain >= 4) urgent.push(`Pain ${pain}/10`);
+
+  if (assessment.patient_has_injuries) {
+    if (assessment.injury_fracture) emergency.push('Suspected fracture');
+    if (assessment.injury_laceration) urgent.push('Laceration');
+    if (assessment.injury_puncture) urgent.push('Puncture wound');
+    if (assessment.injury_sprain) urgent.push('Sprain');
+    if (assessment.injury_contusion) urgent.push('Contusion');
+    if (assessment.injury_other?.trim()) urgent.push(assessment.injury_other.trim());
+  }
+
+  if (emergency.length > 0) return { priority: 'emergency', reasons: [...emergency, ...urgent] };
+  if (urgent.length > 0) return { priority: 'urgent', reasons: urgent };
+  return { priority: 'routine', reasons: [] };
+};
+
+// Waiting list order: most urgent first, then first come first served
+export const sortQueue = (entries: QueueEntry[]): QueueEntry[] =>
+  [...entries].sort((a, b) =>
+    PRIORITY_ORDER[a.triage_priority] - PRIORITY_ORDER[b.triage_priority] ||
+    new Date(a.arrived_at).getTime() - new Date(b.arrived_at).getTime()
+  );
+
+const getCurrentUserOrThrow = () => {
+  const currentUser = authService.getCurrentUser();
+  if (!currentUser) {
+    throw new Error('You must be logged in to manage the queue');
+  }
+  return currentUser;
+};
+
+// Move a queue entry between statuses; the status filter stops two desks calling the same patient
+const transitionQueueEntry = async (
+  id: number,
+  fromStatuses: QueueStatus[],
+  changes: Partial<QueueEntry>
+): Promise<QueueEntry | null> => {
+  const { data, error } = await supabase
+    .from('queue_entries')
+    .update(changes)
+    .eq('id', id)
+    .in('status', fromStatuses)
+    .select(QUEUE_LIST_SELECT)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data as QueueEntry | null;
+};
+
+const logQueueChange = async (
+  entry: QueueEntry,
+  action: string,
+  description: string,
+  details: Record<string, any> = {}
+) => {
+  await Promise.all([
+    patientMonitoringService.createPatientMonitoringLog({
+      patient_id: entry.patient_id,
+      consultation_id: entry.consultation_id ?? undefined,
+      action,
+      description,
+      details: {
+        queue_entry_id: entry.id,
+        queue_number: entry.queue_number,
+        triage_priority: entry.triage_priority,
+        ...details
+      }
+    }),
+    activityService.logActivity({
+      action,
+      description,
+      details: { queue_entry_id: entry.id, patient_id: entry.patient_id, ...details }
+    })
+  ]);
+};
+
+// Calls a waiting patient; null when the entry is no longer waiting (e.g. another desk called it)
+const callQueueEntry = async (entry: QueueEntry, calledTo?: string): Promise<QueueEntry | null> => {
+  const currentUser = getCurrentUserOrThrow();
+
+  const updated = await transitionQueueEntry(entry.id, ['waiting'], {
+    status: 'called',
+    called_at: new Date().toISOString(),
+    called_by: currentUser.id,
+    called_to: calledTo?.trim() || null
+  });
+  if (!updated) return null;
+
+  await logQueueChange(
+    updated,
+    'queue_call',
+    `Called queue no. ${formatQueueNumber(updated.queue_number)}${updated.called_to ? ` to ${updated.called_to}` : ''}`,
+    { wait_minutes: minutesBetween(updated.arrived_at, updated.called_at!) }
+  );
+
+  return updated;
+};
+
+// Queue Service - walk-in waiting list and triage
+export const queueService = {
+  // Today's entries, waiting list in priority order
+  async getTodaysQueue(): Promise<QueueEntry[]> {
+    const { data, error } = await supabase
+      .from('queue_entries')
+      .select(QUEUE_LIST_SELECT)
+      .eq('queue_date', toDateKey(new Date()))
+      .order('arrived_at', { ascending: true });
+
+    if (error) throw new Error(error.message);
+    return sortQueue((data || []) as QueueEntry[]);
+  },
+
+  async registerArrival(patient: Patient, assessment: TriageAssessment, chiefComplaint: string): Promise<QueueEntry> {
+    const currentUser = getCurrentUserOrThrow();
+    const triage = calculateTriagePriority(assessment);
+
+    const { data, error } = await supabase
+      .from('queue_entries')
+      .insert([{
+        ...assessment,
+        pain_scale: assessment.patient_in_pain ? assessment.pain_scale ?? 0 : null,
+        injury_other: assessment.injury_other?.trim() || null,
+        queue_date: toDateKey(new Date()),
+        patient_id: patient.id,
+        chief_complaint: chiefComplaint.trim() || null,
+        triage_priority: triage.priority,
+        triage_reasons: triage.reasons,
+        status: 'waiting',
+        registered_by: currentUser.id
+      }])
+      .select(QUEUE_LIST_SELECT)
+      .single();
+
+    if (error) {
+      // idx_queue_entries_one_active
+      if (error.code === '23505') {
+        throw new Error(`${patient.first_name} ${patient.last_name} is already in today's queue`);
+      }
+      throw new Error(error.message);
+    }
+
+    const entry = data as QueueEntry;
+    await logQueueChange(
+      entry,
+      'queue_register',
+      `Registered ${patient.first_name} ${patient.last_name} as queue no. ${formatQueueNumber(entry.queue_number)} (${TRIAGE_PRIORITY_LABELS[entry.triage_priority]})`,
+      { triage_reasons: triage.reasons }
+    );
+
+    return entry;
+  },
+
+  async callPatient(entry: QueueEntry, calledTo?: string): Promise<QueueEntry> {
+    const updated = await callQueueEntry(entry, calledTo);
+    if (!updated) {
+      throw new Error(`Queue no. ${formatQueueNumber(entry.queue_number)} is no longer waiting. It may have been called by someone else.`);
+    }
+    return updated;
+  },
+
+  // Calls the first patient in the waiting list, skipping any another desk called first;
+  // null when nobody is waiting
+  async callNext(calledTo?: string): Promise<QueueEntry | null> {
+    getCurrentUserOrThrow();
+    const waiting = (await queueService.getTodaysQueue()).filter(entry => entry.status === 'waiting');
+
+    for (const entry of waiting) {
+      const called = await callQueueEntry(entry, calledTo);
+      if (called) return called;
+    }
+    return null;
+  },
+
+  // Starting a consultation takes two steps around creating it: reserveConsultation claims
+  // the entry first, so a patient already taken by another desk never gets a second
+  // consultation, and startConsultation then links the new consultation to it
+  async reserveConsultation(entry: QueueEntry): Promise<QueueEntry> {
+    getCurrentUserOrThrow();
+
+    const updated = await transitionQueueEntry(entry.id, ['waiting', 'called'], {
+      status: 'in_consultation',
+      started_at: new Date().toISOString(),
+      // Patients taken straight from the waiting list count as called now
+      called_at: entry.called_at || new Date().toISOString()
+    });
+    if (!updated) {
+      throw new Error(`Queue no. ${formatQueueNumber(entry.queue_number)} has already been seen or has left`);
+    }
+    return updated;
+  },
+
+  // Undoes reserveConsultation when the consultation could not be created; entry is the
+  // entry as it was before the reservation
+  async releaseConsultation(entry: QueueEntry): Promise<void> {
+    const { error } = await supabase
+      .from('queue_entries')
+      .update({ status: entry.status, called_at: entry.called_at ?? null, started_at: null })
+      .eq('id', entry.id)
+      .eq('status', 'in_consultation')
+      .is('consultation_id', null);
+
+    if (error) throw new Error(error.message);
+  },
+
+  // Links the consultation started from the Start Consultation form to the reserved entry
+  async startConsultation(entry: QueueEntry, consultation: Consultation): Promise<QueueEntry> {
+    getCurrentUserOrThrow();
+
+    const { data, error } = await supabase
+      .from('queue_entries')
+      .update({ consultation_id: consultation.id })
+      .eq('id', entry.id)
+      .eq('status', 'in_consultation')
+      .is('consultation_id', null)
+      .select(QUEUE_LIST_SELECT)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    if (!data) {
+      throw new Error(`Queue no. ${formatQueueNumber(entry.queue_number)} is no longer reserved for the new consultation`);
+    }
+    const updated = data as QueueEntry;
+
+    await logQueueChange(
+      updated,
+      'queue_start_consultation',
+      `Started consultation ${consultation.case_number} for queue no. ${formatQueueNumber(updated.queue_number)}`,
+      { consultation_id: consultation.id }
+    );
+
+    return updated;
+  },
+
+  async markLeft(entry: QueueEntry): Promise<QueueEntry> {
+    getCurrentUserOrThrow();
+
+    const updated = await transitionQueueEntry(entry.id, ['waiting', 'called'], {
+      status: 'left',
+      left_at: new Date().toISOString()
+    });
+    if (!updated) {
+      throw new Error(`Queue no. ${formatQueueNumber(entry.queue_number)} has already been seen`);
+    }
+
+    await logQueueChange(
+      updated,
+      'queue_left',
+      `Queue no. ${formatQueueNumber(updated.queue_number)} left without being seen`
+    );
+
+    return updated;
+  },
+
+  // Arrivals, patients seen, walk-outs and wait from arrival to being called, per day
+  async getDailyWaitTimes(fromDate: string, toDate: string): Promise<QueueDailyWaitTime[]> {
+    const { data, error } = await supabase
+      .from('queue_entries')
+      .select('queue_date, status, arrived_at, called_at')
+      .gte('queue_date', fromDate)
+      .lte('queue_date', toDate)
+      .order('queue_date', { ascending: false });
+
+    if (error) throw new Error(error.message);
+
+    const byDate = new Map<string, { arrivals: number; seen: number; left: number; waits: number[] }>();
+    (data || []).forEach(entry => {
+      const day = byDate.get(entry.queue_date) || { arrivals: 0, seen: 0, left: 0, waits: [] };
+      day.arrivals += 1;
+      if (entry.status === 'in_consultation') day.seen += 1;
+      if (entry.status === 'left') day.left += 1;
+      if (entry.called_at) day.waits.push(minutesBetween(entry.arrived_at, entry.called_at));
+      byDate.set(entry.queue_date, day);
+    });
+
+    return Array.from(byDate.entries()).map(([date, day]) => ({
+      date,
+      arrivals: day.arrivals,
+      called: day.waits.length,
+      seen: day.seen,
+      left: day.left,
+      average_wait_minutes: day.waits.length > 0
+        ? Math.round(day.waits.reduce((sum, wait) => sum + wait, 0) / day.waits.length)
+        : null,
+      longest_wait_minutes: day.waits.length > 0 ? Math.max(...day.waits) : null
+    }));
+  }
+};
@@ -0,0 +1,320 @@
+import { supabase } from '../lib/supabase';
+import {
+  authService,
+  activityService,
+  patientMonitoringService,
+  type Consultation,
+  type Patient
+} from './supabaseService';
+import { getSigningPhysician, assignAttendingPhysician } from './prescriptionService';
+import type { EarlyWarningRisk } from './earlyWarningService';
+
+export type ReferralStatus = 'sent' | 'accepted' | 'returned' | 'cancelled';
+export type ReferralUrgency = 'routine' | 'urgent' | 'emergency';
+
+// Latest vitals and GCS copied onto the referral when it is sent
+export interface ReferralClinicalSummary {
+  vitals?: {
+    recorded_at: string;
+    blood_pressure?: string | null;
+    temperature?: number | null;
+    pulse_rate?: number | null;
+    respiratory_rate?: number | null;
+    oxygen_saturation?: number | null;
+    pain_scale?: number | null;
+    news2_score?: number | null;
+    news2_risk?: EarlyWarningRisk | null;
+  };
+  gcs?: {
+    assessed_at: string;
+    eye_response: number;
+    verbal_response: number;
+    motor_response: number;
+    total_score: number;
+  };
+}
+
+// Referral Interface - matches referrals table
+export interface Referral {
+  id: number;
+  referral_number: string;
+  consultation_id: number;
+  patient_id: number;
+  destination_facility: string;
+  specialty?: string | null;
+  urgency: ReferralUrgency;
+  reason: string;
+  working_diagnosis?: string | null;
+  clinical_summary?: ReferralClinicalSummary | null;
+  status: ReferralStatus;
+  referred_by: number;
+  referrer_name: string;
+  referrer_license_number: string;
+  sent_at: string;
+  accepted_at?: string | null;
+  accepted_by_name?: string | null;
+  returned_at?: string | null;
+  findings?: string | null;
+  recorded_by?: number | null;
+  cancelled_at?: string | null;
+  cancelled_by?: number | null;
+  cancellation_reason?: string | null;
+  created_at: string;
+  updated_at: string;
+  patient?: Pick<Patient, 'id' | 'patient_id' | 'first_name' | 'last_name' | 'patient_type'>;
+  consultation?: Pick<Consultation, 'id' | 'case_number' | 'consultation_date' | 'status'>;
+}
+
+export type ReferralInput = Pick<Referral, 'destination_facility' | 'specialty' | 'urgency' | 'reason' | 'working_diagnosis'>;
+
+export const REFERRAL_STATUS_LABELS: Record<ReferralStatus, string> = {
+  sent: 'Sent',
+  accepted: 'Accepted',
+  returned: 'Returned with Findings',
+  cancelled: 'Cancelled'
+};
+
+export const REFERRAL_URGENCY_LABELS: Record<ReferralUrgency, string> = {
+  routine: 'Routine',
+  urgent: 'Urgent',
+  emergency: 'Emergency'
+};
+
+export const OPEN_REFERRAL_STATUSES: ReferralStatus[] = ['sent', 'accepted'];
+
+// Specialties offered as suggestions; any text is accepted
+export const REFERRAL_SPECIALTIES = [
+  'Internal Medicine',
+  'Pediatrics',
+  'General Surgery',
+  'Orthopedics',
+  'Obstetrics and Gynecology',
+  'Ophthalmology',
+  'ENT',
+  'Dermatology',
+  'Psychiatry',
+  'Cardiology',
+  'Neurology',
+  'Emergency Medicine',
+  'Dentistry / Oral Surgery'
+];
+
+const REFERRAL_LIST_SELECT = `
+  *,
+  patient:patients (id, patient_id, first_name, last_name, patient_type),
+  consultation:consultations (id, case_number, consultation_date, status)
+`;
+
+const URGENCY_ORDER: Record<ReferralUrgency, number> = { emergency: 0, urgent: 1, routine: 2 };
+
+const getCurrentUserOrThrow = () => {
+  const currentUser = authService.getCurrentUser();
+  if (!currentUser) {
+    throw new Error('You must be logged in to manage referrals');
+  }
+  return currentUser;
+};
+
+const buildClinicalSummary = async (consultation: Consultation): Promise<ReferralClinicalSummary> => {
+  const [latestVitals, gcsRecords] = await Promise.all([
+    patientMonitoringService.getLatestVitalSignsByConsultationId(consultation.id),
+    patientMonitoringService.getGlasgowComaScalesByConsultationId(consultation.id)
+  ]);
+  const latestGcs = gcsRecords[0];
+
+  const summary: ReferralClinicalSummary = {};
+  if (latestVitals) {
+    summary.vitals = {
+      recorded_at: latestVitals.recorded_at,
+      blood_pressure: latestVitals.blood_pressure_systolic && latestVitals.blood_pressure_diastolic
+        ? `${latestVitals.blood_pressure_systolic}/${latestVitals.blood_pressure_diastolic}`
+        : null,
+      temperature: latestVitals.temperature ?? null,
+      pulse_rate: latestVitals.pulse_rate ?? null,
+      respiratory_rate: latestVitals.respiratory_rate ?? null,
+      oxygen_saturation: latestVitals.oxygen_saturation ?? null,
+      pain_scale: latestVitals.pain_scale ?? null,
+      news2_score: latestVitals.news2_score ?? null,
+      news2_risk: latestVitals.news2_risk ?? null
+    };
+  }
+  if (latestGcs) {
+    summary.gcs = {
+      assessed_at: latestGcs.assessed_at,
+      eye_response: latestGcs.eye_response,
+      verbal_response: latestGcs.verbal_response,
+      motor_response: latestGcs.motor_response,
+      total_score: latestGcs.total_score
+    };
+  }
+  return summary;
+};
+
+// Move a referral between statuses; the status filter stops two users changing it at once
+const transitionReferral = async (
+  id: number,
+  fromStatuses: ReferralStatus[],
+  changes: Partial<Referral>
+): Promise<Referral> => {
+  const { data, error } = await supabase
+    .from('referrals')
+    .update(changes)
+    .eq('id', id)
+    .in('status', fromStatuses)
+    .select()
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!data) {
+    throw new Error(`Referral must be ${fromStatuses.join(' or ')} to do this. It may have been updated by someone else.`);
+  }
+  return data;
+};
+
+const logReferralChange = async (referral: Referral, action: string, description: string, details: Record<string, any> = {}) => {
+  await Promise.all([
+    patientMonitoringService.createPatientMonitoringLog({
+      patient_id: referral.patient_id,
+      consultation_id: referral.consultation_id,
+      action,
+      description,
+      details: { referral_id: referral.id, referral_number: referral.referral_number, ...details }
+    }),
+    activityService.logActivity({
+      action,
+      description,
+      details: { referral_id: referral.id, consultation_id: referral.consultation_id, ...details }
+    })
+  ]);
+};
+
+// Referral Service - referrals to outside hospitals and specialists
+export const referralService = {
+  async getReferralsByConsultationId(consultationId: number): Promise<Referral[]> {
+    const { data, error } = await supabase
+      .from('referrals')
+      .select('*')
+      .eq('consultation_id', consultationId)
+      .order('sent_at', { ascending: false });
+
+    if (error) throw new Error(error.message);
+    return data || [];
+  },
+
+  // Referrals still waiting on the outside facility, most urgent and oldest first
+  async getOpenReferrals(): Promise<Referral[]> {
+    const { data, error } = await supabase
+      .from('referrals')
+      .select(REFERRAL_LIST_SELECT)
+      .in('status', OPEN_REFERRAL_STATUSES)
+      .order('sent_at', { ascending: true });
+
+    if (error) throw new Error(error.message);
+    return ((data || []) as Referral[]).sort((a, b) => URGENCY_ORDER[a.urgency] - URGENCY_ORDER[b.urgency]);
+  },
+
+  // Sent by the logged-in physician (see getSigningPhysician) with the latest vitals and GCS attached
+  async createReferral(consultation: Consultation, input: ReferralInput): Promise<Referral> {
+    if (!input.destination_facility.trim()) {
+      throw new Error('Enter the hospital or specialist the patient is referred to');
+    }
+    if (!input.reason.trim()) {
+      throw new Error('Enter the reason for referral');
+    }
+
+    const signer = await getSigningPhysician(consultation);
+    const clinicalSummary = await buildClinicalSummary(consultation);
+
+    const { data, error } = await supabase
+      .from('referrals')
+      .insert([{
+        consultation_id: consultation.id,
+        patient_id: consultation.patient_id,
+        destination_facility: input.destination_facility.trim(),
+        specialty: input.specialty?.trim() || null,
+        urgency: input.urgency,
+        reason: input.reason.trim(),
+        working_diagnosis: input.working_diagnosis?.trim() || null,
+        clinical_summary: clinicalSummary,
+        status: 'sent',
+        referred_by: signer.id,
+        referrer_name: signer.name,
+        referrer_license_number: signer.license_number
+      }])
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+
+    await assignAttendingPhysician(consultation, signer);
+
+    await logReferralChange(
+      data,
+      'create_referral',
+      `Referred case ${consultation.case_number} to ${data.destination_facility} (${REFERRAL_URGENCY_LABELS[input.urgency]})`,
+      { destination_facility: data.destination_facility, specialty: data.specialty, urgency: data.urgency }
+    );
+
+    return data;
+  },
+
+  async markAccepted(referral: Referral, acceptedByName?: string): Promise<Referral> {
+    getCurrentUserOrThrow();
+
+    const updated = await transitionReferral(referral.id, ['sent'], {
+      status: 'accepted',
+      accepted_at: new Date().toISOString(),
+      accepted_by_name: acceptedByName?.trim() || null
+    });
+
+    await logReferralChange(
+      updated,
+      'accept_referral',
+      `Referral ${updated.referral_number} accepted by ${updated.accepted_by_name || updated.destination_facility}`
+    );
+
+    return updated;
+  },
+
+  async recordReturn(referral: Referral, findings: string): Promise<Referral> {
+    const currentUser = getCurrentUserOrThrow();
+    if (!findings.trim()) {
+      throw new Error('Enter the findings the patient returned with');
+    }
+
+    const updated = await transitionReferral(referral.id, OPEN_REFERRAL_STATUSES, {
+      status: 'returned',
+      returned_at: new Date().toISOString(),
+      findings: findings.trim(),
+      recorded_by: currentUser.id
+    });
+
+    await logReferralChange(
+      updated,
+      'return_referral',
+      `Patient returned from ${updated.destination_facility} with findings (referral ${updated.referral_number})`
+    );
+
+    return updated;
+  },
+
+  async cancelReferral(referral: Referral, reason: string): Promise<Referral> {
+    const currentUser = getCurrentUserOrThrow();
+
+    const updated = await transitionReferral(referral.id, OPEN_REFERRAL_STATUSES, {
+      status: 'cancelled',
+      cancelled_at: new Date().toISOString(),
+      cancelled_by: currentUser.id,
+      cancellation_reason: reason.trim() || null
+    });
+
+    await logReferralChange(
+      updated,
+      'cancel_referral',
+      `Cancelled referral ${updated.referral_number}`,
+      { reason: updated.cancellation_reason }
+    );
+
+    return updated;
+  }
+};
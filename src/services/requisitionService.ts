@@ -0,0 +1,410 @@
+import { supabase } from '../lib/supabase';
+import { authService, activityService, inventoryService } from './supabaseService';
+
+export type RequisitionStatus = 'draft' | 'approved' | 'ordered' | 'received' | 'cancelled';
+
+// Purchase Requisition Line Interface - matches purchase_requisition_items table
+export interface PurchaseRequisitionItem {
+  id: number;
+  requisition_id: number;
+  inventory_item_id?: number | null;
+  item_name: string;
+  unit_of_measurement?: string;
+  stock_on_hand: number;
+  stock_threshold: number;
+  average_daily_usage: number;
+  suggested_quantity: number;
+  requested_quantity: number;
+  received_quantity?: number | null;
+  lot_number?: string | null;
+  expiration_date?: string | null;
+  notes?: string | null;
+}
+
+// Purchase Requisition Interface - matches purchase_requisitions table
+export interface PurchaseRequisition {
+  id: number;
+  requisition_number: string;
+  department: string;
+  status: RequisitionStatus;
+  supplier?: string | null;
+  notes?: string | null;
+  created_at: string;
+  updated_at: string;
+  created_by?: number | null;
+  approved_at?: string | null;
+  approved_by?: number | null;
+  ordered_at?: string | null;
+  ordered_by?: number | null;
+  received_at?: string | null;
+  received_by?: number | null;
+  cancelled_at?: string | null;
+  cancelled_by?: number | null;
+  items: PurchaseRequisitionItem[];
+}
+
+export interface RequisitionLineUpdate {
+  id: number;
+  requested_quantity: number;
+  notes?: string;
+}
+
+export interface RequisitionReceiptLine {
+  id: number;
+  received_quantity: number;
+  lot_number?: string;
+  expiration_date?: string | null;
+}
+
+export const REQUISITION_STATUS_LABELS: Record<RequisitionStatus, string> = {
+  draft: 'Draft',
+  approved: 'Approved',
+  ordered: 'Ordered',
+  received: 'Received',
+  cancelled: 'Cancelled'
+};
+
+const OPEN_STATUSES: RequisitionStatus[] = ['draft', 'approved', 'ordered'];
+
+// Consumption is averaged over this many days of dispensing
+export const USAGE_LOOKBACK_DAYS = 30;
+// Order enough to cover this many days of usage above the threshold
+export const REORDER_COVER_DAYS = 30;
+
+// Order up to the threshold plus the cover period's expected usage. Items with no recorded
+// usage are ordered up to twice their threshold.
+export const calculateSuggestedQuantity = (stockOnHand: number, threshold: number, averageDailyUsage: number): number => {
+  const targetLevel = averageDailyUsage > 0
+    ? threshold + Math.ceil(averageDailyUsage * REORDER_COVER_DAYS)
+    : threshold * 2;
+  return Math.max(targetLevel - stockOnHand, 1);
+};
+
+const REQUISITION_SELECT = `
+  *,
+  items:purchase_requisition_items (*)
+`;
+
+const getCurrentUserOrThrow = () => {
+  const currentUser = authService.getCurrentUser();
+  if (!currentUser) {
+    throw new Error('You must be logged in to manage requisitions');
+  }
+  return currentUser;
+};
+
+const requireSuperadmin = () => {
+  const currentUser = getCurrentUserOrThrow();
+  if (currentUser.role !== 'superadmin') {
+    throw new Error('Only a superadmin can order and receive requisitions');
+  }
+  return currentUser;
+};
+
+// Move a requisition between statuses; the status filter stops two users advancing it twice
+const transitionRequisition = async (
+  id: number,
+  fromStatuses: RequisitionStatus[],
+  changes: Partial<PurchaseRequisition>
+): Promise<PurchaseRequisition> => {
+  const { data, error } = await supabase
+    .from('purchase_requisitions')
+    .update(changes)
+    .eq('id', id)
+    .in('status', fromStatuses)
+    .select(REQUISITION_SELECT)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!data) {
+    throw new Error(`Requisition must be ${fromStatuses.join(' or ')} to do this. It may have been updated by someone else.`);
+  }
+  return data;
+};
+
+// Requisition Service - reorder workflow for items below their stock threshold
+export const requisitionService = {
+  async getRequisitions(status?: RequisitionStatus): Promise<PurchaseRequisition[]> {
+    let query = supabase
+      .from('purchase_requisitions')
+      .select(REQUISITION_SELECT)
+      .order('created_at', { ascending: false });
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw new Error(error.message);
+    return data || [];
+  },
+
+  async getRequisitionById(id: number): Promise<PurchaseRequisition> {
+    const { data, error } = await supabase
+      .from('purchase_requisitions')
+      .select(REQUISITION_SELECT)
+      .eq('id', id)
+      .single();
+
+    if (error) throw new Error(error.message);
+    return data;
+  },
+
+  // Average quantity dispensed per day for each item over the look-back window
+  async getAverageDailyUsage(itemIds: number[]): Promise<Record<number, number>> {
+    if (itemIds.length === 0) return {};
+
+    const since = new Date();
+    since.setDate(since.getDate() - USAGE_LOOKBACK_DAYS);
+
+    const { data, error } = await supabase
+      .from('stock_movements')
+      .select('inventory_item_id, quantity_change')
+      .eq('movement_type', 'dispense')
+      .in('inventory_item_id', itemIds)
+      .gte('performed_at', since.toISOString());
+
+    if (error) throw new Error(error.message);
+
+    const totals = (data || []).reduce((acc: Record<number, number>, movement: any) => {
+      acc[movement.inventory_item_id] = (acc[movement.inventory_item_id] || 0) + Math.abs(movement.quantity_change);
+      return acc;
+    }, {});
+
+    return Object.fromEntries(
+      Object.entries(totals).map(([itemId, total]) => [itemId, Math.round((total / USAGE_LOOKBACK_DAYS) * 100) / 100])
+    );
+  },
+
+  // Create one draft per department for low and out-of-stock items that are not already
+  // on an open requisition. Returns the drafts created (none when nothing needs reordering).
+  async generateDraftRequisitions(): Promise<PurchaseRequisition[]> {
+    const currentUser = getCurrentUserOrThrow();
+
+    const [items, { data: openLines, error: openError }] = await Promise.all([
+      inventoryService.getAllItems(),
+      supabase
+        .from('purchase_requisition_items')
+        .select('inventory_item_id, requisition:purchase_requisitions!inner ( status )')
+        .in('requisition.status', OPEN_STATUSES)
+    ]);
+
+    if (openError) throw new Error(openError.message);
+
+    const alreadyRequested = new Set((openLines || []).map((line: any) => line.inventory_item_id));
+    const itemsToReorder = items.filter((item: any) =>
+      ['low_stock', 'out_of_stock'].includes(item.status) && !alreadyRequested.has(item.id)
+    );
+
+    if (itemsToReorder.length === 0) return [];
+
+    const usage = await requisitionService.getAverageDailyUsage(itemsToReorder.map((item: any) => item.id));
+
+    const created: PurchaseRequisition[] = [];
+    const departments = Array.from(new Set(itemsToReorder.map((item: any) => item.department as string)));
+
+    for (const department of departments) {
+      const { data: requisition, error } = await supabase
+        .from('purchase_requisitions')
+        .insert([{
+          department,
+          status: 'draft',
+          notes: 'Generated from items below stock threshold',
+          created_by: currentUser.id
+        }])
+        .select()
+        .single();
+
+      if (error) throw new Error(error.message);
+
+      const lines = itemsToReorder
+        .filter((item: any) => item.department === department)
+        .map((item: any) => {
+          const stockOnHand = parseInt(item.stock_quantity) || 0;
+          const threshold = parseInt(item.stock_threshold) || 0;
+          const averageDailyUsage = usage[item.id] || 0;
+          const suggestedQuantity = calculateSuggestedQuantity(stockOnHand, threshold, averageDailyUsage);
+          return {
+            requisition_id: requisition.id,
+            inventory_item_id: item.id,
+            item_name: item.generic_name + (item.brand_name ? ` (${item.brand_name})` : ''),
+            unit_of_measurement: item.unit_of_measurement,
+            stock_on_hand: stockOnHand,
+            stock_threshold: threshold,
+            average_daily_usage: averageDailyUsage,
+            suggested_quantity: suggestedQuantity,
+            requested_quantity: suggestedQuantity
+          };
+        });
+
+      const { error: linesError } = await supabase
+        .from('purchase_requisition_items')
+        .insert(lines);
+
+      if (linesError) throw new Error(linesError.message);
+
+      await activityService.logActivity({
+        action: 'create_requisition',
+        description: `Drafted requisition ${requisition.requisition_number} for ${lines.length} ${department} item(s) below threshold`,
+        details: { requisition_id: requisition.id, department, item_count: lines.length }
+      });
+
+      created.push(await requisitionService.getRequisitionById(requisition.id));
+    }
+
+    return created;
+  },
+
+  // Edit a draft: header fields, requested quantities, and removed lines
+  async updateDraft(
+    id: number,
+    header: Pick<Partial<PurchaseRequisition>, 'supplier' | 'notes'>,
+    lines: RequisitionLineUpdate[],
+    removedLineIds: number[] = []
+  ): Promise<PurchaseRequisition> {
+    getCurrentUserOrThrow();
+
+    if (lines.some(line => !Number.isInteger(line.requested_quantity) || line.requested_quantity <= 0)) {
+      throw new Error('Requested quantities must be whole numbers greater than zero');
+    }
+    if (lines.length === 0) {
+      throw new Error('A requisition needs at least one item; cancel it instead');
+    }
+
+    const requisition = await transitionRequisition(id, ['draft'], {
+      supplier: header.supplier?.trim() || null,
+      notes: header.notes?.trim() || null
+    });
+
+    if (removedLineIds.length > 0) {
+      const { error } = await supabase
+        .from('purchase_requisition_items')
+        .delete()
+        .eq('requisition_id', id)
+        .in('id', removedLineIds);
+
+      if (error) throw new Error(error.message);
+    }
+
+    for (const line of lines) {
+      const { error } = await supabase
+        .from('purchase_requisition_items')
+        .update({ requested_quantity: line.requested_quantity, notes: line.notes?.trim() || null })
+        .eq('id', line.id)
+        .eq('requisition_id', id);
+
+      if (error) throw new Error(error.message);
+    }
+
+    await activityService.logActivity({
+      action: 'update_requisition',
+      description: `Edited draft requisition ${requisition.requisition_number}`,
+      details: { requisition_id: id, lines, removed_line_ids: removedLineIds }
+    });
+
+    return requisitionService.getRequisitionById(id);
+  },
+
+  async approveRequisition(id: number): Promise<PurchaseRequisition> {
+    const currentUser = getCurrentUserOrThrow();
+
+    const requisition = await transitionRequisition(id, ['draft'], {
+      status: 'approved',
+      approved_at: new Date().toISOString(),
+      approved_by: currentUser.id
+    });
+
+    await activityService.logActivity({
+      action: 'approve_requisition',
+      description: `Approved requisition ${requisition.requisition_number}`,
+      details: { requisition_id: id }
+    });
+
+    return requisition;
+  },
+
+  async markOrdered(id: number, supplier?: string): Promise<PurchaseRequisition> {
+    const currentUser = requireSuperadmin();
+
+    const changes: Partial<PurchaseRequisition> = {
+      status: 'ordered',
+      ordered_at: new Date().toISOString(),
+      ordered_by: currentUser.id
+    };
+    if (supplier?.trim()) {
+      changes.supplier = supplier.trim();
+    }
+
+    const requisition = await transitionRequisition(id, ['approved'], changes);
+
+    await activityService.logActivity({
+      action: 'order_requisition',
+      description: `Marked requisition ${requisition.requisition_number} as ordered${requisition.supplier ? ` from ${requisition.supplier}` : ''}`,
+      details: { requisition_id: id, supplier: requisition.supplier }
+    });
+
+    return requisition;
+  },
+
+  // Receive the order: adds stock to each item (as new lots for medicines and supplies)
+  // and closes the requisition, all in the receive_purchase_requisition database function
+  async receiveRequisition(id: number, lines: RequisitionReceiptLine[]): Promise<PurchaseRequisition> {
+    const currentUser = requireSuperadmin();
+
+    if (lines.some(line => !Number.isInteger(line.received_quantity) || line.received_quantity < 0)) {
+      throw new Error('Received quantities must be whole numbers of zero or more');
+    }
+
+    const { data, error } = await supabase.rpc('receive_purchase_requisition', {
+      p_requisition_id: id,
+      p_lines: lines.map(line => ({
+        id: line.id,
+        received_quantity: line.received_quantity,
+        lot_number: line.lot_number?.trim() || null,
+        expiration_date: line.expiration_date || null
+      })),
+      p_received_by: currentUser.id
+    });
+
+    if (error) throw new Error(error.message);
+
+    const requisition = await requisitionService.getRequisitionById(id);
+
+    // Received stock may lift items out of low_stock / out_of_stock
+    for (const line of requisition.items) {
+      if (line.inventory_item_id && (line.received_quantity || 0) > 0) {
+        await inventoryService.refreshItemStatus(line.inventory_item_id);
+      }
+    }
+
+    await activityService.logActivity({
+      action: 'receive_requisition',
+      description: `Received requisition ${data.requisition_number}`,
+      details: {
+        requisition_id: id,
+        lines: lines.map(line => ({ id: line.id, received_quantity: line.received_quantity }))
+      }
+    });
+
+    return requisition;
+  },
+
+  async cancelRequisition(id: number): Promise<PurchaseRequisition> {
+    const currentUser = getCurrentUserOrThrow();
+
+    const requisition = await transitionRequisition(id, ['draft', 'approved'], {
+      status: 'cancelled',
+      cancelled_at: new Date().toISOString(),
+      cancelled_by: currentUser.id
+    });
+
+    await activityService.logActivity({
+      action: 'cancel_requisition',
+      description: `Cancelled requisition ${requisition.requisition_number}`,
+      details: { requisition_id: id }
+    });
+
+    return requisition;
+  }
+};
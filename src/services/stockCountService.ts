@@ -0,0 +1,257 @@
+import { supabase } from '../lib/supabase';
+import { authService, activityService, inventoryService } from './supabaseService';
+
+export type StockCountStatus = 'in_progress' | 'approved' | 'cancelled';
+
+// Stock Count Line Interface - matches stock_count_lines table
+export interface StockCountLine {
+  id: number;
+  session_id: number;
+  inventory_item_id?: number | null;
+  item_name: string;
+  code?: string | null;
+  unit_of_measurement?: string | null;
+  system_quantity: number;
+  counted_quantity?: number | null;
+  variance?: number | null;
+  reason?: string | null;
+  counted_at?: string | null;
+  counted_by?: number | null;
+  adjustment_movement_id?: number | null;
+}
+
+// Stock Count Session Interface - matches stock_count_sessions table
+export interface StockCountSession {
+  id: number;
+  session_number: string;
+  department: string;
+  classification_id?: number | null;
+  classification_name: string;
+  status: StockCountStatus;
+  notes?: string | null;
+  started_at: string;
+  started_by?: number | null;
+  updated_at: string;
+  approved_at?: string | null;
+  approved_by?: number | null;
+  cancelled_at?: string | null;
+  cancelled_by?: number | null;
+  lines: StockCountLine[];
+}
+
+export const STOCK_COUNT_STATUS_LABELS: Record<StockCountStatus, string> = {
+  in_progress: 'In Progress',
+  approved: 'Approved',
+  cancelled: 'Cancelled'
+};
+
+const SESSION_SELECT = `
+  *,
+  lines:stock_count_lines (*)
+`;
+
+const getCurrentUserOrThrow = () => {
+  const currentUser = authService.getCurrentUser();
+  if (!currentUser) {
+    throw new Error('You must be logged in to manage stock counts');
+  }
+  return currentUser;
+};
+
+const requireAdmin = () => {
+  const currentUser = getCurrentUserOrThrow();
+  if (!['admin', 'superadmin'].includes(currentUser.role)) {
+    throw new Error('Only an admin can approve stock counts');
+  }
+  return currentUser;
+};
+
+const sortLines = (session: StockCountSession): StockCountSession => ({
+  ...session,
+  lines: [...(session.lines || [])].sort((a, b) => a.item_name.localeCompare(b.item_name))
+});
+
+// Summary of a session's lines, used by the count screen and the sign-off export
+export const summarizeStockCount = (lines: StockCountLine[]) => {
+  const counted = lines.filter(line => line.counted_quantity !== null && line.counted_quantity !== undefined);
+  const withVariance = counted.filter(line => (line.variance || 0) !== 0);
+  return {
+    total: lines.length,
+    counted: counted.length,
+    withVariance: withVariance.length,
+    missingReason: withVariance.filter(line => !line.reason?.trim()).length,
+    netVariance: withVariance.reduce((sum, line) => sum + (line.variance || 0), 0)
+  };
+};
+
+// Stock Count Service - physical counts reconciled against system quantities
+export const stockCountService = {
+  async getSessions(department?: string): Promise<StockCountSession[]> {
+    let query = supabase
+      .from('stock_count_sessions')
+      .select(SESSION_SELECT)
+      .order('started_at', { ascending: false });
+
+    if (department) {
+      query = query.eq('department', department);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw new Error(error.message);
+    return (data || []).map(sortLines);
+  },
+
+  async getSessionById(id: number): Promise<StockCountSession> {
+    const { data, error } = await supabase
+      .from('stock_count_sessions')
+      .select(SESSION_SELECT)
+      .eq('id', id)
+      .single();
+
+    if (error) throw new Error(error.message);
+    return sortLines(data);
+  },
+
+  // Open a count with one line per active item of the department and classification,
+  // snapshotting the system quantity of each
+  async startSession(department: string, classification: string, notes?: string): Promise<StockCountSession> {
+    const currentUser = getCurrentUserOrThrow();
+
+    const items = await inventoryService.getItemsByDepartmentAndClassification(department, classification);
+    if (items.length === 0) {
+      throw new Error(`There are no ${classification.toLowerCase()} in ${department} to count`);
+    }
+
+    const { data: session, error } = await supabase
+      .from('stock_count_sessions')
+      .insert([{
+        department,
+        classification_id: items[0].classification_id,
+        classification_name: classification,
+        status: 'in_progress',
+        notes: notes?.trim() || null,
+        started_by: currentUser.id
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      // idx_stock_count_sessions_one_open
+      if (error.code === '23505') {
+        throw new Error(`A ${classification.toLowerCase()} count is already in progress for ${department}`);
+      }
+      throw new Error(error.message);
+    }
+
+    const { error: linesError } = await supabase
+      .from('stock_count_lines')
+      .insert(items.map((item: any) => ({
+        session_id: session.id,
+        inventory_item_id: item.id,
+        item_name: item.generic_name + (item.brand_name ? ` (${item.brand_name})` : ''),
+        code: item.code || null,
+        unit_of_measurement: item.unit_of_measurement,
+        system_quantity: parseInt(item.stock_quantity) || 0
+      })));
+
+    if (linesError) throw new Error(linesError.message);
+
+    await activityService.logActivity({
+      action: 'start_stock_count',
+      description: `Started stock count ${session.session_number} of ${items.length} ${department} ${classification.toLowerCase()}`,
+      details: { session_id: session.id, department, classification, item_count: items.length }
+    });
+
+    return stockCountService.getSessionById(session.id);
+  },
+
+  // Save one line's count; pass null to clear it. The system quantity is re-read at the same time.
+  async saveCount(lineId: number, countedQuantity: number | null, reason?: string): Promise<StockCountLine> {
+    const currentUser = getCurrentUserOrThrow();
+
+    if (countedQuantity !== null && (!Number.isInteger(countedQuantity) || countedQuantity < 0)) {
+      throw new Error('Counted quantities must be whole numbers of zero or more');
+    }
+
+    const { data, error } = await supabase.rpc('record_stock_count_line', {
+      p_line_id: lineId,
+      p_counted_quantity: countedQuantity,
+      p_reason: reason?.trim() || null,
+      p_counted_by: currentUser.id
+    });
+
+    if (error) throw new Error(error.message);
+    return data;
+  },
+
+  // Post every variance as an 'adjust' stock movement and close the count, all in the
+  // approve_stock_count database function
+  async approveSession(id: number): Promise<StockCountSession> {
+    const currentUser = requireAdmin();
+
+    const current = await stockCountService.getSessionById(id);
+    const summary = summarizeStockCount(current.lines);
+    if (summary.missingReason > 0) {
+      throw new Error(`Give a reason for each variance before approving (${summary.missingReason} missing)`);
+    }
+
+    const { error } = await supabase.rpc('approve_stock_count', {
+      p_session_id: id,
+      p_approved_by: currentUser.id
+    });
+
+    if (error) throw new Error(error.message);
+
+    const session = await stockCountService.getSessionById(id);
+
+    // Adjustments may move items into or out of low_stock / out_of_stock
+    for (const line of session.lines) {
+      if (line.inventory_item_id && line.adjustment_movement_id) {
+        await inventoryService.refreshItemStatus(line.inventory_item_id);
+      }
+    }
+
+    await activityService.logActivity({
+      action: 'approve_stock_count',
+      description: `Approved stock count ${session.session_number} with ${summary.withVariance} adjustment(s)`,
+      details: {
+        session_id: id,
+        counted: summary.counted,
+        adjustments: summary.withVariance,
+        net_variance: summary.netVariance
+      }
+    });
+
+    return session;
+  },
+
+  async cancelSession(id: number): Promise<StockCountSession> {
+    const currentUser = getCurrentUserOrThrow();
+
+    const { data, error } = await supabase
+      .from('stock_count_sessions')
+      .update({
+        status: 'cancelled',
+        cancelled_at: new Date().toISOString(),
+        cancelled_by: currentUser.id
+      })
+      .eq('id', id)
+      .eq('status', 'in_progress')
+      .select(SESSION_SELECT)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    if (!data) {
+      throw new Error('Only counts in progress can be cancelled. It may have been updated by someone else.');
+    }
+
+    await activityService.logActivity({
+      action: 'cancel_stock_count',
+      description: `Cancelled stock count ${data.session_number}`,
+      details: { session_id: id }
+    });
+
+    return sortLines(data);
+  }
+};
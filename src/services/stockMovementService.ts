@@ -0,0 +1,285 @@
+import { supabase } from '../lib/supabase';
+import { authService, activityService, inventoryService } from './supabaseService';
+import { type BatchAllocation } from './batchService';
+
+export type StockMovementType =
+  | 'opening'
+  | 'receive'
+  | 'dispense'
+  | 'adjust'
+  | 'transfer_in'
+  | 'transfer_out'
+  | 'waste';
+
+// Stock Movement Interface - matches stock_movements table (append-only)
+export interface StockMovement {
+  id: number;
+  inventory_item_id: number;
+  item_name: string;
+  department: string;
+  movement_type: StockMovementType;
+  quantity_change: number;
+  balance_after: number;
+  batch_id?: number | null;
+  lot_number?: string | null;
+  batch_allocations?: BatchAllocation[] | null;
+  reason?: string | null;
+  reference_type?: string | null;
+  reference_id?: number | null;
+  related_item_id?: number | null;
+  performed_at: string;
+  performed_by?: number | null;
+  users?: {
+    username: string;
+    first_name?: string;
+    last_name?: string;
+  } | null;
+}
+
+export interface LedgerBalance {
+  ledger_quantity: number;
+  movement_count: number;
+  last_movement_at: string | null;
+}
+
+export const MOVEMENT_TYPE_LABELS: Record<StockMovementType, string> = {
+  opening: 'Opening',
+  receive: 'Received',
+  dispense: 'Dispensed',
+  adjust: 'Adjustment',
+  transfer_in: 'Transfer In',
+  transfer_out: 'Transfer Out',
+  waste: 'Waste / Disposal'
+};
+
+const DEPARTMENTS = ['medical', 'dental'];
+
+const getItemLabel = (item: any) => item.generic_name + (item.brand_name ? ` (${item.brand_name})` : '');
+
+const requireReason = (reason: string) => {
+  if (!reason?.trim()) {
+    throw new Error('Please give a reason for this stock movement');
+  }
+};
+
+const requireQuantity = (quantity: number) => {
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    throw new Error('Quantity must be a whole number greater than zero');
+  }
+};
+
+// Stock Movement Service - every stock change goes through a ledger-writing database function
+export const stockMovementService = {
+  async getMovementsByItemId(itemId: number): Promise<StockMovement[]> {
+    const { data, error } = await supabase
+      .from('stock_movements')
+      .select(`
+        *,
+        users (
+          username,
+          first_name,
+          last_name
+        )
+      `)
+      .eq('inventory_item_id', itemId)
+      .order('performed_at', { ascending: false })
+      .order('id', { ascending: false });
+
+    if (error) throw new Error(error.message);
+    return data || [];
+  },
+
+  // Quantity derived from the ledger; should always equal the item's stock_quantity
+  async getLedgerBalance(itemId: number): Promise<LedgerBalance> {
+    const { data, error } = await supabase
+      .from('stock_ledger_balances')
+      .select('ledger_quantity, movement_count, last_movement_at')
+      .eq('inventory_item_id', itemId)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    return data || { ledger_quantity: 0, movement_count: 0, last_movement_at: null };
+  },
+
+  // Correct the quantity on hand after a physical count, breakage found, etc.
+  async recordAdjustment(item: any, quantityChange: number, reason: string, batchId?: number | null): Promise<StockMovement> {
+    if (!Number.isInteger(quantityChange) || quantityChange === 0) {
+      throw new Error('Adjustment must be a whole number other than zero');
+    }
+    requireReason(reason);
+
+    const movement = await recordMovement(item, 'adjust', quantityChange, reason, batchId);
+
+    await activityService.logActivity({
+      action: 'adjust_stock',
+      description: `Adjusted stock of ${getItemLabel(item)} by ${quantityChange > 0 ? '+' : ''}${quantityChange} ${item.unit_of_measurement || 'pcs'}`,
+      details: {
+        inventory_item_id: item.id,
+        movement_id: movement.id,
+        quantity_change: quantityChange,
+        balance_after: movement.balance_after,
+        reason: reason.trim()
+      }
+    });
+
+    return movement;
+  },
+
+  // Dispose of expired, damaged or contaminated stock
+  async recordWaste(item: any, quantity: number, reason: string, batchId?: number | null): Promise<StockMovement> {
+    requireQuantity(quantity);
+    requireReason(reason);
+
+    const movement = await recordMovement(item, 'waste', -quantity, reason, batchId);
+
+    await activityService.logActivity({
+      action: 'dispose_stock',
+      description: `Disposed of ${quantity} ${item.unit_of_measurement || 'pcs'} of ${getItemLabel(item)}${movement.lot_number ? ` (lot ${movement.lot_number})` : ''}`,
+      details: {
+        inventory_item_id: item.id,
+        movement_id: movement.id,
+        quantity,
+        batch_id: movement.batch_id,
+        batch_allocations: movement.batch_allocations,
+        reason: reason.trim()
+      }
+    });
+
+    return movement;
+  },
+
+  // Issue stock over the counter (e.g. after scanning a label) without a patient consultation
+  async recordDispense(item: any, quantity: number, reason: string): Promise<StockMovement> {
+    requireQuantity(quantity);
+
+    const movement = await recordMovement(item, 'dispense', -quantity, reason);
+
+    await activityService.logActivity({
+      action: 'dispense_stock',
+      description: `Dispensed ${quantity} ${item.unit_of_measurement || 'pcs'} of ${getItemLabel(item)}`,
+      details: {
+        inventory_item_id: item.id,
+        movement_id: movement.id,
+        quantity,
+        balance_after: movement.balance_after,
+        batch_allocations: movement.batch_allocations,
+        reason: reason?.trim() || null
+      }
+    });
+
+    return movement;
+  },
+
+  // Add stock to an item that is not lot-tracked (equipment); lot-tracked items receive batches instead
+  async receiveStock(item: any, quantity: number, reason: string): Promise<StockMovement> {
+    requireQuantity(quantity);
+
+    const movement = await recordMovement(item, 'receive', quantity, reason);
+
+    await activityService.logActivity({
+      action: 'receive_stock',
+      description: `Received ${quantity} ${item.unit_of_measurement || 'pcs'} of ${getItemLabel(item)}`,
+      details: {
+        inventory_item_id: item.id,
+        movement_id: movement.id,
+        quantity,
+        reason: reason?.trim() || null
+      }
+    });
+
+    return movement;
+  },
+
+  // Matching items in the other department that can receive a transfer of this item
+  async getTransferTargets(item: any): Promise<any[]> {
+    const { data, error } = await supabase
+      .from('inventory_items')
+      .select('*')
+      .eq('classification_id', item.classification_id)
+      .neq('department', item.department)
+      .neq('status', 'archived')
+      .order('generic_name', { ascending: true });
+
+    if (error) throw new Error(error.message);
+    return data || [];
+  },
+
+  // Move stock between the medical and dental departments. When the other department
+  // does not stock the item yet (toItemId is null), a matching item is created with zero stock.
+  async transferStock(item: any, toItemId: number | null, quantity: number, reason: string): Promise<void> {
+    requireQuantity(quantity);
+    requireReason(reason);
+
+    const targetDepartment = DEPARTMENTS.find(department => department !== item.department);
+    if (!targetDepartment) {
+      throw new Error('Transfers must be between the medical and dental departments');
+    }
+
+    let destinationId = toItemId;
+    if (!destinationId) {
+      const destination = await inventoryService.createItem({
+        generic_name: item.generic_name,
+        brand_name: item.brand_name,
+        code: item.code,
+        category: item.category,
+        classification_id: item.classification_id,
+        department: targetDepartment,
+        unit_of_measurement: item.unit_of_measurement,
+        stock_threshold: item.stock_threshold,
+        stock_quantity: 0,
+        notes: item.notes
+      });
+      destinationId = destination.id;
+    }
+
+    const { error } = await supabase.rpc('transfer_stock', {
+      p_from_item_id: item.id,
+      p_to_item_id: destinationId,
+      p_quantity: quantity,
+      p_reason: reason.trim(),
+      p_performed_by: authService.getCurrentUser()?.id ?? null
+    });
+
+    if (error) throw new Error(error.message);
+
+    await inventoryService.refreshItemStatus(item.id);
+    await inventoryService.refreshItemStatus(destinationId as number);
+
+    await activityService.logActivity({
+      action: 'transfer_stock',
+      description: `Transferred ${quantity} ${item.unit_of_measurement || 'pcs'} of ${getItemLabel(item)} from ${item.department} to ${targetDepartment}`,
+      details: {
+        from_item_id: item.id,
+        to_item_id: destinationId,
+        quantity,
+        reason: reason.trim()
+      }
+    });
+  }
+};
+
+// Post a movement through record_stock_movement, which applies it to the item (or its lots)
+// and writes the ledger row in one transaction
+async function recordMovement(
+  item: any,
+  movementType: StockMovementType,
+  quantityChange: number,
+  reason: string,
+  batchId?: number | null
+): Promise<StockMovement> {
+  const { data, error } = await supabase.rpc('record_stock_movement', {
+    p_inventory_item_id: item.id,
+    p_movement_type: movementType,
+    p_quantity_change: quantityChange,
+    p_reason: reason?.trim() || null,
+    p_batch_id: batchId ?? null,
+    p_performed_by: authService.getCurrentUser()?.id ?? null
+  });
+
+  if (error) throw new Error(error.message);
+
+  // Stock changed, so low_stock / out_of_stock may now apply
+  await inventoryService.refreshItemStatus(item.id);
+
+  return data as StockMovement;
+}
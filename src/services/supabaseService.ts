@@ -59,6 +59,8 @@ export interface Consultation {
   interventions?: string;
   attending_physician?: number;
   attending_physician_name?: string;
+  // Dental visits carry a dental chart, see dentalChartService
+  department?: 'medical' | 'dental';
   created_at: string;
   updated_at: string;
   created_by?: number;
@@ -96,6 +98,11 @@ export interface VitalSigns {
   poi?: string;
   doi?: string;
   toi?: string;
+  // NEWS2 early warning score, see earlyWarningService
+  news2_score?: number | null;
+  news2_risk?: 'low' | 'low_medium' | 'medium' | 'high' | null;
+  news2_components?: Record<string, number> | null;
+  news2_scored_at?: string | null;
   recorded_at: string;
   recorded_by?: number;
 }
@@ -371,7 +378,7 @@ export const authService = {
 
 
 // Helper function to calculate automatic status
-const calculateItemStatus = (item: any, classification: string): string => {
+export const calculateItemStatus = (item: any, classification: string): string => {
   // For equipment, only allow manual status (active or maintenance)
   if (classification.toLowerCase() === 'equipment') {
     return ['active', 'maintenance'].includes(item.status?.toLowerCase())
@@ -473,6 +480,38 @@ export const inventoryService = {
     return processedData;
   },
 
+  // Exact, case-insensitive code lookup used by barcode scanning; the same code can
+  // exist once per department after a transfer
+  getItemsByCode: async (code: string) => {
+    const { data: items, error } = await supabase
+      .from('inventory_items')
+      .select('*')
+      .ilike('code', code.trim().replace(/[\\%_]/g, '\\$&'))
+      .not('status', 'eq', 'archived')
+      .order('department', { ascending: true });
+
+    if (error) throw new Error(error.message);
+
+    const { data: classifications } = await supabase
+      .from('inventory_classifications')
+      .select('id, name');
+
+    const classificationMap = (classifications || []).reduce((acc: any, c: any) => {
+      acc[c.id] = c.name;
+      return acc;
+    }, {});
+
+    return (items || []).map(item => {
+      const classificationName = classificationMap[item.classification_id] || 'medicines';
+
+      return {
+        ...item,
+        classification: classificationName,
+        status: calculateItemStatus(item, classificationName)
+      };
+    });
+  },
+
   getItemsByDepartmentAndClassification: async (department: string, classification: string) => {
     // Get classification ID first
     const { data: classificationData } = await supabase
@@ -522,6 +561,8 @@ export const inventoryService = {
     return inventoryService.getItemsByDepartmentAndClassification(department, classification);
   },
 
+  // The create_inventory_item database function inserts the item, its opening lot and the
+  // opening balance in the stock ledger together
   createItem: async (itemData: any) => {
     // Get classification name to determine status calculation
     const { data: classificationData } = await supabase
@@ -532,20 +573,17 @@ export const inventoryService = {
 
     const classificationName = classificationData?.name || 'medicines';
 
-    // Calculate status automatically
+    // Calculate status automatically; lot details are passed along for the opening batch
     const calculatedStatus = calculateItemStatus(itemData, classificationName);
 
-    const finalData = {
-      ...itemData,
-      status: calculatedStatus,
-      stock_threshold: itemData.stock_threshold || 0
-    };
-
-    const { data, error } = await supabase
-      .from('inventory_items')
-      .insert([finalData])
-      .select()
-      .single();
+    const { data, error } = await supabase.rpc('create_inventory_item', {
+      p_item: {
+        ...itemData,
+        status: calculatedStatus,
+        stock_threshold: itemData.stock_threshold || 0
+      },
+      p_performed_by: authService.getCurrentUser()?.id ?? null
+    });
 
     if (error) throw new Error(error.message);
 
@@ -577,16 +615,53 @@ export const inventoryService = {
 
     const classificationName = classificationData?.name || 'medicines';
 
+    // Stock and expiry of batch-tracked items are maintained from their batches
+    const { count: batchCount } = await supabase
+      .from('inventory_batches')
+      .select('id', { count: 'exact', head: true })
+      .eq('inventory_item_id', id);
+
+    const { adjustment_reason, ...editableData } = itemData;
+    if ((batchCount || 0) > 0) {
+      delete editableData.stock_quantity;
+      delete editableData.expiration_date;
+    }
+
+    // Stock never changes by direct overwrite: a changed quantity is posted to the
+    // stock ledger as an adjustment, which also updates the item's stock_quantity
+    if (editableData.stock_quantity !== undefined) {
+      const newQuantity = parseInt(editableData.stock_quantity) || 0;
+      const quantityChange = newQuantity - (parseInt(currentItem.stock_quantity) || 0);
+      delete editableData.stock_quantity;
+
+      if (quantityChange !== 0) {
+        if (!adjustment_reason?.trim()) {
+          throw new Error('Please give a reason for changing the stock quantity');
+        }
+
+        const { error: movementError } = await supabase.rpc('record_stock_movement', {
+          p_inventory_item_id: id,
+          p_movement_type: 'adjust',
+          p_quantity_change: quantityChange,
+          p_reason: adjustment_reason.trim(),
+          p_performed_by: authService.getCurrentUser()?.id ?? null
+        });
+
+        if (movementError) throw new Error(movementError.message);
+        currentItem.stock_quantity = newQuantity;
+      }
+    }
+
     // Calculate status automatically for the updated data
     const updatedItemData = {
       ...currentItem,
-      ...itemData
+      ...editableData
     };
 
     const calculatedStatus = calculateItemStatus(updatedItemData, classificationName);
 
     const finalData = {
-      ...itemData,
+      ...editableData,
       status: calculatedStatus
     };
 
@@ -606,6 +681,49 @@ export const inventoryService = {
     };
   },
 
+  // Re-evaluate the stored status after stock changes made outside updateItem (e.g. dispensing)
+  refreshItemStatus: async (id: number) => {
+    const { data: currentItem, error: itemError } = await supabase
+      .from('inventory_items')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (itemError) throw new Error(itemError.message);
+
+    const { data: classificationData } = await supabase
+      .from('inventory_classifications')
+      .select('name')
+      .eq('id', currentItem.classification_id)
+      .single();
+
+    const classificationName = classificationData?.name || 'medicines';
+
+    if (currentItem.status === 'archived') {
+      return { ...currentItem, classification: classificationName };
+    }
+
+    const calculatedStatus = calculateItemStatus(currentItem, classificationName);
+
+    if (calculatedStatus === currentItem.status) {
+      return { ...currentItem, classification: classificationName };
+    }
+
+    const { data, error } = await supabase
+      .from('inventory_items')
+      .update({ status: calculatedStatus })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+
+    return {
+      ...data,
+      classification: classificationName
+    };
+  },
+
   deleteItem: async (id: number) => {
     const { error } = await supabase
       .from('inventory_items')
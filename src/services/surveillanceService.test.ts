@@ -0,0 +1,119 @@
+import {
+  classifyComplaint,
+  detectSyndromeSpikes,
+  getSurveillanceGroup,
+  type SurveillanceConsultation
+} from './surveillanceService';
+import { toDateKey } from './appointmentService';
+
+jest.mock('../lib/supabase', () => ({ supabase: {}, fetchAllRows: jest.fn() }));
+
+const AS_OF = '2026-10-19';
+
+const daysBefore = (days: number) => {
+  const date = new Date(`${AS_OF}T00:00:00`);
+  date.setDate(date.getDate() - days);
+  return toDateKey(date);
+};
+
+let nextId = 1;
+const consultation = (
+  date: string,
+  chiefComplaint: string,
+  patient: Partial<NonNullable<SurveillanceConsultation['patient']>> = { patient_type: 'Student', course: 'BSN' }
+): SurveillanceConsultation => ({
+  id: nextId++,
+  case_number: `CASE-${nextId}`,
+  consultation_date: date,
+  chief_complaint: chiefComplaint,
+  status: 'completed',
+  patient: { id: nextId, patient_id: `P-${nextId}`, first_name: 'Test', last_name: 'Patient', ...patient } as SurveillanceConsultation['patient']
+});
+
+const repeat = (count: number, make: () => SurveillanceConsultation) => Array.from({ length: count }, make);
+
+describe('classifyComplaint', () => {
+  it('puts a complaint under every matching syndrome', () => {
+    expect(classifyComplaint('Cough and colds with fever x 2 days')).toEqual(['respiratory', 'fever']);
+    expect(classifyComplaint('LBM and vomiting since last night')).toEqual(['gastrointestinal']);
+  });
+
+  it('matches Filipino keywords and ignores case', () => {
+    expect(classifyComplaint('UBO AT SIPON')).toEqual(['respiratory']);
+    expect(classifyComplaint('Lagnat')).toEqual(['fever']);
+  });
+
+  it('matches whole words only', () => {
+    expect(classifyComplaint('Urinary frequency')).toEqual([]);
+    expect(classifyComplaint('Scolded by professor, anxious')).toEqual([]);
+  });
+
+  it('returns nothing for empty or unrelated complaints', () => {
+    expect(classifyComplaint('')).toEqual([]);
+    expect(classifyComplaint(null)).toEqual([]);
+    expect(classifyComplaint('Headache')).toEqual([]);
+  });
+});
+
+describe('getSurveillanceGroup', () => {
+  it('groups students by course, others by department, then by patient type', () => {
+    expect(getSurveillanceGroup({ patient_type: 'Student', course: 'BSIT', department: 'CCS' } as any)).toBe('BSIT');
+    expect(getSurveillanceGroup({ patient_type: 'Employee', department: 'Registrar' } as any)).toBe('Registrar');
+    expect(getSurveillanceGroup({ patient_type: 'OPD' } as any)).toBe('OPD');
+    expect(getSurveillanceGroup(null)).toBe('Unknown');
+  });
+});
+
+describe('detectSyndromeSpikes', () => {
+  it('flags a cluster in a group that usually sees no cases', () => {
+    const cases = repeat(4, () => consultation(AS_OF, 'Diarrhea and vomiting'));
+    const flags = detectSyndromeSpikes(cases, AS_OF);
+
+    expect(flags).toHaveLength(1);
+    expect(flags[0]).toMatchObject({
+      syndrome: 'gastrointestinal',
+      group: 'BSN',
+      date: AS_OF,
+      count: 4,
+      baseline_mean: 0,
+      z_score: 4
+    });
+    expect(flags[0].consultations.map(item => item.id)).toEqual(cases.map(item => item.id));
+  });
+
+  it('does not flag fewer than the minimum number of cases', () => {
+    expect(detectSyndromeSpikes(repeat(2, () => consultation(AS_OF, 'Fever')), AS_OF)).toEqual([]);
+  });
+
+  it('does not flag a count that is usual for the group', () => {
+    const baseline = Array.from({ length: 28 }, (_, index) =>
+      repeat(3, () => consultation(daysBefore(index + 1), 'Cough'))
+    ).flat();
+    const today = repeat(3, () => consultation(AS_OF, 'Cough'));
+
+    expect(detectSyndromeSpikes([...baseline, ...today], AS_OF)).toEqual([]);
+  });
+
+  it('counts each course or department separately', () => {
+    const cases = [
+      ...repeat(2, () => consultation(AS_OF, 'Sore eyes', { patient_type: 'Student', course: 'BSN' })),
+      ...repeat(2, () => consultation(AS_OF, 'Sore eyes', { patient_type: 'Student', course: 'BSIT' }))
+    ];
+
+    expect(detectSyndromeSpikes(cases, AS_OF)).toEqual([]);
+  });
+
+  it('only flags the recent days, newest first', () => {
+    const cases = [
+      ...repeat(5, () => consultation(daysBefore(3), 'Rashes')),
+      ...repeat(3, () => consultation(daysBefore(2), 'Rashes')),
+      ...repeat(4, () => consultation(AS_OF, 'Flu'))
+    ];
+    const flags = detectSyndromeSpikes(cases, AS_OF);
+
+    expect(flags.map(flag => [flag.syndrome, flag.date])).toEqual([
+      ['influenza_like', AS_OF],
+      ['rash', daysBefore(2)]
+    ]);
+  });
+});
@@ -0,0 +1,144 @@
+import { supabase, fetchAllRows } from '../lib/supabase';
+import { type Consultation, type Patient } from './supabaseService';
+import { toDateKey } from './appointmentService';
+import {
+  SYNDROMES,
+  SURVEILLANCE_BASELINE_DAYS,
+  SURVEILLANCE_MIN_CASES,
+  SURVEILLANCE_RECENT_DAYS,
+  SURVEILLANCE_Z_THRESHOLD,
+  type SyndromeKey
+} from '../constants/syndromicSurveillance';
+
+export type SurveillanceConsultation = Pick<Consultation, 'id' | 'case_number' | 'consultation_date' | 'chief_complaint' | 'status'> & {
+  patient: Pick<Patient, 'id' | 'patient_id' | 'first_name' | 'last_name' | 'patient_type' | 'course' | 'department'> | null;
+};
+
+// An unusual number of consultations for one syndrome in one course or department on one day
+export interface SurveillanceFlag {
+  syndrome: SyndromeKey;
+  group: string;
+  date: string;
+  count: number;
+  baseline_mean: number;
+  baseline_sd: number;
+  // Standard deviations above the baseline mean
+  z_score: number;
+  consultations: SurveillanceConsultation[];
+}
+
+const SURVEILLANCE_SELECT = `
+  id,
+  case_number,
+  consultation_date,
+  chief_complaint,
+  status,
+  patient:patients (id, patient_id, first_name, last_name, patient_type, course, department)
+`;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word matchers per syndrome, built once
+const SYNDROME_MATCHERS = SYNDROMES.map(syndrome => ({
+  key: syndrome.key,
+  pattern: new RegExp(`\\b(${syndrome.keywords.map(escapeRegExp).join('|')})\\b`, 'i')
+}));
+
+export const getSyndromeLabel = (key: SyndromeKey): string =>
+  SYNDROMES.find(syndrome => syndrome.key === key)?.label || key;
+
+// Syndromic categories of a free-text chief complaint; a complaint may fall under several or none
+export const classifyComplaint = (complaint?: string | null): SyndromeKey[] => {
+  if (!complaint?.trim()) return [];
+  return SYNDROME_MATCHERS.filter(matcher => matcher.pattern.test(complaint)).map(matcher => matcher.key);
+};
+
+// Students are grouped by course, employees and dependents by department, anyone else by patient type
+export const getSurveillanceGroup = (patient: SurveillanceConsultation['patient']): string => {
+  if (!patient) return 'Unknown';
+  if (patient.patient_type === 'Student' && patient.course) return patient.course;
+  if (patient.department) return patient.department;
+  return patient.patient_type;
+};
+
+const addDays = (dateKey: string, days: number): string => {
+  const date = new Date(`${dateKey}T00:00:00`);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+// Flags each of the recent days whose count for a syndrome and group is at least
+// SURVEILLANCE_MIN_CASES and SURVEILLANCE_Z_THRESHOLD standard deviations above the
+// SURVEILLANCE_BASELINE_DAYS before it. The standard deviation is floored at 1 so a group
+// that usually sees no cases is not flagged for a single visit.
+export const detectSyndromeSpikes = (consultations: SurveillanceConsultation[], asOf: string): SurveillanceFlag[] => {
+  // "syndrome|group" -> date -> consultations
+  const series = new Map<string, Map<string, SurveillanceConsultation[]>>();
+  consultations.forEach(consultation => {
+    const group = getSurveillanceGroup(consultation.patient);
+    classifyComplaint(consultation.chief_complaint).forEach(syndrome => {
+      const key = `${syndrome}|${group}`;
+      const byDate = series.get(key) || new Map<string, SurveillanceConsultation[]>();
+      byDate.set(consultation.consultation_date, [...(byDate.get(consultation.consultation_date) || []), consultation]);
+      series.set(key, byDate);
+    });
+  });
+
+  const flags: SurveillanceFlag[] = [];
+  series.forEach((byDate, key) => {
+    const [syndrome, group] = key.split('|') as [SyndromeKey, string];
+
+    for (let offset = 0; offset < SURVEILLANCE_RECENT_DAYS; offset++) {
+      const date = addDays(asOf, -offset);
+      const dayConsultations = byDate.get(date) || [];
+      if (dayConsultations.length < SURVEILLANCE_MIN_CASES) continue;
+
+      const baseline = Array.from({ length: SURVEILLANCE_BASELINE_DAYS }, (_, index) =>
+        (byDate.get(addDays(date, -(index + 1))) || []).length
+      );
+      const mean = baseline.reduce((sum, count) => sum + count, 0) / baseline.length;
+      const sd = Math.sqrt(baseline.reduce((sum, count) => sum + (count - mean) ** 2, 0) / baseline.length);
+      const zScore = (dayConsultations.length - mean) / Math.max(sd, 1);
+
+      if (zScore >= SURVEILLANCE_Z_THRESHOLD) {
+        flags.push({
+          syndrome,
+          group,
+          date,
+          count: dayConsultations.length,
+          baseline_mean: Math.round(mean * 10) / 10,
+          baseline_sd: Math.round(sd * 10) / 10,
+          z_score: Math.round(zScore * 10) / 10,
+          consultations: dayConsultations
+        });
+      }
+    }
+  });
+
+  return flags.sort((a, b) => b.date.localeCompare(a.date) || b.z_score - a.z_score);
+};
+
+// Surveillance Service - syndromic surveillance of chief complaints across courses and departments
+export const surveillanceService = {
+  // Runs the spike detection over the consultations of the recent days and their baselines.
+  // Used by the dashboard, so a failure returns no flags instead of throwing
+  async getSurveillanceFlags(asOf: string = toDateKey(new Date())): Promise<SurveillanceFlag[]> {
+    try {
+      const since = addDays(asOf, -(SURVEILLANCE_RECENT_DAYS - 1 + SURVEILLANCE_BASELINE_DAYS));
+
+      const data = await fetchAllRows((from, to) => supabase
+        .from('consultations')
+        .select(SURVEILLANCE_SELECT)
+        .gte('consultation_date', since)
+        .lte('consultation_date', asOf)
+        .neq('status', 'cancelled')
+        .order('id')
+        .range(from, to));
+
+      return detectSyndromeSpikes(data as unknown as SurveillanceConsultation[], asOf);
+    } catch (error) {
+      console.error('Error fetching surveillance flags:', error);
+      return [];
+    }
+  }
+};
@@ -352,23 +352,7 @@ class UniversalSearchService {
           );
 
           return matchedItems
-            .map(item => {
-              // Calculate which page this item would be on based on different items per page settings
-              const pageInfo = this.calculateItemPage(item, items, item.department, item.classification);
-
-              return {
-                id: `inventory_${item.id}`,
-                type: 'inventory' as const,
-                title: item.generic_name || item.brand_name,
-                subtitle: `${item.category || 'General'} - ${item.classification}`,
-                description: `Stock: ${item.stock_quantity} ${item.unit || 'units'}`,
-                metadata: `Status: ${item.status?.replace('_', ' ')}`,
-                icon: this.getInventoryIcon(item.classification),
-                url: `/inventory?itemId=${item.id}&department=${item.department}&classification=${item.classification}&page=${pageInfo.defaultPage}&itemsPerPage=${pageInfo.defaultItemsPerPage}`,
-                priority: 45,
-                itemData: { ...item, pageInfo } // Store full item data with page info for navigation
-              };
-            })
+            .map(item => this.toInventoryResult(item, items))
             .sort((a: any, b: any) => b.priority - a.priority);
         },
         { query },
@@ -380,6 +364,35 @@ class UniversalSearchService {
     }
   }
 
+  // Exact code match for barcode/QR scans from the search bar
+  async findInventoryByCode(code: string): Promise<SearchResult[]> {
+    const normalizedCode = code.trim().toLowerCase();
+    if (!normalizedCode) return [];
+
+    const { data: items } = await optimizedInventoryService.getAllItems();
+    return items
+      .filter(item => item.status !== 'archived' && (item.code || '').trim().toLowerCase() === normalizedCode)
+      .map(item => this.toInventoryResult(item, items));
+  }
+
+  private toInventoryResult(item: any, allItems: any[]): SearchResult {
+    // Calculate which page this item would be on based on different items per page settings
+    const pageInfo = this.calculateItemPage(item, allItems, item.department, item.classification);
+
+    return {
+      id: `inventory_${item.id}`,
+      type: 'inventory' as const,
+      title: item.generic_name || item.brand_name,
+      subtitle: `${item.category || 'General'} - ${item.classification}`,
+      description: `Stock: ${item.stock_quantity} ${item.unit || 'units'}`,
+      metadata: `Status: ${item.status?.replace('_', ' ')}`,
+      icon: this.getInventoryIcon(item.classification),
+      url: `/inventory?itemId=${item.id}&department=${item.department}&classification=${item.classification}&page=${pageInfo.defaultPage}&itemsPerPage=${pageInfo.defaultItemsPerPage}`,
+      priority: 45,
+      itemData: { ...item, pageInfo } // Store full item data with page info for navigation
+    };
+  }
+
 
   private async searchArchives(query: string): Promise<SearchResult[]> {
     try {
@@ -0,0 +1,91 @@
+import { patientMonitoringService, type Consultation, type VitalSigns } from './supabaseService';
+
+export type VitalMetric =
+  | 'blood_pressure_systolic'
+  | 'blood_pressure_diastolic'
+  | 'pulse_rate'
+  | 'respiratory_rate'
+  | 'temperature'
+  | 'oxygen_saturation'
+  | 'weight'
+  | 'bmi';
+
+export interface VitalReferenceRange {
+  label: string;
+  unit: string;
+  // Normal adult range; null when the metric has no fixed normal range (e.g. weight)
+  low: number | null;
+  high: number | null;
+}
+
+// Adult resting reference ranges used to shade charts and flag readings
+export const VITAL_REFERENCE_RANGES: Record<VitalMetric, VitalReferenceRange> = {
+  blood_pressure_systolic: { label: 'Systolic BP', unit: 'mmHg', low: 90, high: 120 },
+  blood_pressure_diastolic: { label: 'Diastolic BP', unit: 'mmHg', low: 60, high: 80 },
+  pulse_rate: { label: 'Pulse Rate', unit: 'bpm', low: 60, high: 100 },
+  respiratory_rate: { label: 'Respiratory Rate', unit: '/min', low: 12, high: 20 },
+  temperature: { label: 'Temperature', unit: '°C', low: 36.1, high: 37.5 },
+  oxygen_saturation: { label: 'SpO2', unit: '%', low: 95, high: 100 },
+  weight: { label: 'Weight', unit: 'kg', low: null, high: null },
+  bmi: { label: 'BMI', unit: 'kg/m²', low: 18.5, high: 24.9 }
+};
+
+// One vital signs recording with the consultation it belongs to
+export interface VitalTrendPoint {
+  vital: VitalSigns;
+  consultation: Consultation;
+  recorded_at: string;
+  values: Partial<Record<VitalMetric, number>>;
+}
+
+export const calculateBMI = (weightKg?: number | null, heightCm?: number | null): number | null => {
+  if (!weightKg || !heightCm) return null;
+  const heightM = heightCm / 100;
+  return Math.round((weightKg / (heightM * heightM)) * 10) / 10;
+};
+
+export const isOutOfRange = (metric: VitalMetric, value: number | null | undefined): boolean => {
+  if (value === null || value === undefined) return false;
+  const { low, high } = VITAL_REFERENCE_RANGES[metric];
+  return (low !== null && value < low) || (high !== null && value > high);
+};
+
+// Vital Trends Service - longitudinal vital signs for one patient across consultations
+export const vitalTrendsService = {
+  // Oldest first, for charting
+  async getPatientVitalTrends(patientId: number): Promise<VitalTrendPoint[]> {
+    const consultations = await patientMonitoringService.getConsultationsByPatientId(patientId);
+    const vitalsByConsultation = await Promise.all(
+      consultations.map(consultation => patientMonitoringService.getVitalSignsByConsultationId(consultation.id))
+    );
+
+    const points = consultations
+      .flatMap((consultation, index) => vitalsByConsultation[index].map(vital => ({ vital, consultation })))
+      .sort((a, b) => new Date(a.vital.recorded_at).getTime() - new Date(b.vital.recorded_at).getTime());
+
+    // Height is often recorded only once, so BMI uses the latest height known at each reading
+    let lastHeight: number | null = null;
+
+    return points.map(({ vital, consultation }) => {
+      if (vital.height) {
+        lastHeight = Number(vital.height);
+      }
+
+      const values: Partial<Record<VitalMetric, number>> = {};
+      (['blood_pressure_systolic', 'blood_pressure_diastolic', 'pulse_rate', 'respiratory_rate', 'temperature', 'oxygen_saturation', 'weight'] as VitalMetric[])
+        .forEach(metric => {
+          const value = vital[metric as keyof VitalSigns];
+          if (value !== null && value !== undefined && value !== '' && !Number.isNaN(Number(value))) {
+            values[metric] = Number(value);
+          }
+        });
+
+      const bmi = calculateBMI(values.weight, lastHeight);
+      if (bmi !== null) {
+        values.bmi = bmi;
+      }
+
+      return { vital, consultation, recorded_at: vital.recorded_at, values };
+    });
+  }
+};